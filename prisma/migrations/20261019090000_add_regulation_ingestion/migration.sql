@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "regulation_versions" ADD COLUMN     "contentHash" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "regulation_versions_regulationId_versionNumber_key" ON "regulation_versions"("regulationId", "versionNumber");
+
+-- CreateIndex
+CREATE INDEX "regulation_versions_regulationId_contentHash_idx" ON "regulation_versions"("regulationId", "contentHash");
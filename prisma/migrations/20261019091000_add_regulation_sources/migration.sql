@@ -0,0 +1,28 @@
+-- CreateEnum
+CREATE TYPE "RegulationConnectorType" AS ENUM ('RSS', 'DIRECTORY', 'JSON_EXPORT');
+
+-- CreateTable
+CREATE TABLE "regulation_sources" (
+    "id" TEXT NOT NULL,
+    "jurisdictionId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "connectorType" "RegulationConnectorType" NOT NULL,
+    "location" TEXT NOT NULL,
+    "regulationType" TEXT NOT NULL DEFAULT 'General',
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "lastPolledAt" TIMESTAMP(3),
+    "lastError" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "regulation_sources_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "regulation_sources_jurisdictionId_idx" ON "regulation_sources"("jurisdictionId");
+
+-- CreateIndex
+CREATE INDEX "regulation_sources_enabled_idx" ON "regulation_sources"("enabled");
+
+-- AddForeignKey
+ALTER TABLE "regulation_sources" ADD CONSTRAINT "regulation_sources_jurisdictionId_fkey" FOREIGN KEY ("jurisdictionId") REFERENCES "jurisdictions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
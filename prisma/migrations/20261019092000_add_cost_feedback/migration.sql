@@ -0,0 +1,30 @@
+-- CreateTable
+CREATE TABLE "cost_feedback" (
+    "id" TEXT NOT NULL,
+    "costEstimateId" TEXT NOT NULL,
+    "customerId" TEXT NOT NULL,
+    "regulationType" TEXT NOT NULL,
+    "estimatedOneTimeCost" DOUBLE PRECISION NOT NULL,
+    "estimatedRecurringCostAnnual" DOUBLE PRECISION NOT NULL,
+    "actualOneTimeCost" DOUBLE PRECISION NOT NULL,
+    "actualRecurringCostAnnual" DOUBLE PRECISION NOT NULL,
+    "oneTimeVariance" DOUBLE PRECISION NOT NULL,
+    "recurringVariance" DOUBLE PRECISION NOT NULL,
+    "varianceNotes" TEXT,
+    "submittedBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "cost_feedback_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "cost_feedback_costEstimateId_idx" ON "cost_feedback"("costEstimateId");
+
+-- CreateIndex
+CREATE INDEX "cost_feedback_customerId_regulationType_createdAt_idx" ON "cost_feedback"("customerId", "regulationType", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "cost_feedback" ADD CONSTRAINT "cost_feedback_costEstimateId_fkey" FOREIGN KEY ("costEstimateId") REFERENCES "cost_estimates"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "cost_feedback" ADD CONSTRAINT "cost_feedback_customerId_fkey" FOREIGN KEY ("customerId") REFERENCES "customers"("id") ON DELETE CASCADE ON UPDATE CASCADE;
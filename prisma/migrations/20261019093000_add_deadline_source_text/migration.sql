@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "deadlines" ADD COLUMN "sourceText" TEXT;
@@ -0,0 +1,55 @@
+-- CreateEnum
+CREATE TYPE "SubscriptionSource" AS ENUM ('MANUAL', 'COST_ESTIMATE');
+
+-- CreateTable
+CREATE TABLE "customer_regulation_subscriptions" (
+    "id" TEXT NOT NULL,
+    "customerId" TEXT NOT NULL,
+    "regulationId" TEXT NOT NULL,
+    "source" "SubscriptionSource" NOT NULL DEFAULT 'MANUAL',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "customer_regulation_subscriptions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "subscription_rules" (
+    "id" TEXT NOT NULL,
+    "customerId" TEXT NOT NULL,
+    "jurisdictionId" TEXT,
+    "regulationType" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "subscription_rules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "customer_regulation_subscriptions_customerId_regulationId_key" ON "customer_regulation_subscriptions"("customerId", "regulationId");
+
+-- CreateIndex
+CREATE INDEX "customer_regulation_subscriptions_regulationId_idx" ON "customer_regulation_subscriptions"("regulationId");
+
+-- CreateIndex
+CREATE INDEX "subscription_rules_customerId_idx" ON "subscription_rules"("customerId");
+
+-- AddForeignKey
+ALTER TABLE "customer_regulation_subscriptions" ADD CONSTRAINT "customer_regulation_subscriptions_customerId_fkey" FOREIGN KEY ("customerId") REFERENCES "customers"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "customer_regulation_subscriptions" ADD CONSTRAINT "customer_regulation_subscriptions_regulationId_fkey" FOREIGN KEY ("regulationId") REFERENCES "regulations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "subscription_rules" ADD CONSTRAINT "subscription_rules_customerId_fkey" FOREIGN KEY ("customerId") REFERENCES "customers"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "subscription_rules" ADD CONSTRAINT "subscription_rules_jurisdictionId_fkey" FOREIGN KEY ("jurisdictionId") REFERENCES "jurisdictions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill: customers already watch every regulation they have costed
+INSERT INTO "customer_regulation_subscriptions" ("id", "customerId", "regulationId", "source")
+SELECT DISTINCT ON (ce."customerId", rv."regulationId")
+    'sub_' || md5(ce."customerId" || ':' || rv."regulationId"),
+    ce."customerId",
+    rv."regulationId",
+    'COST_ESTIMATE'
+FROM "cost_estimates" ce
+JOIN "regulation_versions" rv ON rv."id" = ce."regulationVersionId";
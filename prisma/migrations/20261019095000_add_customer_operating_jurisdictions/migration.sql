@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "customers" ADD COLUMN "operatingJurisdictions" TEXT[] DEFAULT ARRAY[]::TEXT[];
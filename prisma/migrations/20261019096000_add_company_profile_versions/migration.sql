@@ -0,0 +1,30 @@
+-- AlterTable
+ALTER TABLE "cost_estimates" ADD COLUMN "companyProfileJson" JSONB,
+ADD COLUMN "companyProfileVersionId" TEXT;
+
+-- CreateTable
+CREATE TABLE "company_profile_versions" (
+    "id" TEXT NOT NULL,
+    "customerId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "industry" TEXT NOT NULL,
+    "employeeCount" INTEGER NOT NULL,
+    "revenue" DOUBLE PRECISION,
+    "techMaturity" TEXT NOT NULL,
+    "riskAppetite" TEXT NOT NULL,
+    "operatingJurisdictions" TEXT[],
+    "geographicComplexity" INTEGER NOT NULL,
+    "createdBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "company_profile_versions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "company_profile_versions_customerId_version_key" ON "company_profile_versions"("customerId", "version");
+
+-- AddForeignKey
+ALTER TABLE "cost_estimates" ADD CONSTRAINT "cost_estimates_companyProfileVersionId_fkey" FOREIGN KEY ("companyProfileVersionId") REFERENCES "company_profile_versions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "company_profile_versions" ADD CONSTRAINT "company_profile_versions_customerId_fkey" FOREIGN KEY ("customerId") REFERENCES "customers"("id") ON DELETE CASCADE ON UPDATE CASCADE;
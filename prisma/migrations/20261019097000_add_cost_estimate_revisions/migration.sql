@@ -0,0 +1,31 @@
+-- AlterTable
+ALTER TABLE "cost_estimates" ADD COLUMN "estimateInputsJson" JSONB,
+ADD COLUMN "previousRevisionId" TEXT,
+ADD COLUMN "revision" INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN "revisionReasons" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN "supersededAt" TIMESTAMP(3);
+
+-- Backfill: number existing estimates per customer and regulation, oldest first,
+-- and link/supersede all but the newest
+WITH ordered AS (
+    SELECT ce."id",
+           ce."createdAt",
+           ROW_NUMBER() OVER (PARTITION BY ce."customerId", rv."regulationId" ORDER BY ce."createdAt", ce."id") AS rn,
+           LAG(ce."id") OVER (PARTITION BY ce."customerId", rv."regulationId" ORDER BY ce."createdAt", ce."id") AS prev_id,
+           LEAD(ce."createdAt") OVER (PARTITION BY ce."customerId", rv."regulationId" ORDER BY ce."createdAt", ce."id") AS next_created_at
+    FROM "cost_estimates" ce
+    JOIN "regulation_versions" rv ON rv."id" = ce."regulationVersionId"
+)
+UPDATE "cost_estimates" ce
+SET "revision" = ordered.rn,
+    "previousRevisionId" = ordered.prev_id,
+    "supersededAt" = ordered.next_created_at,
+    "revisionReasons" = CASE WHEN ordered.rn = 1 THEN ARRAY['INITIAL'] ELSE ARRAY['MANUAL'] END
+FROM ordered
+WHERE ce."id" = ordered."id";
+
+-- CreateIndex
+CREATE INDEX "cost_estimates_customerId_supersededAt_idx" ON "cost_estimates"("customerId", "supersededAt");
+
+-- AddForeignKey
+ALTER TABLE "cost_estimates" ADD CONSTRAINT "cost_estimates_previousRevisionId_fkey" FOREIGN KEY ("previousRevisionId") REFERENCES "cost_estimates"("id") ON DELETE SET NULL ON UPDATE CASCADE;
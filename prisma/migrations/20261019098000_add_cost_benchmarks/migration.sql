@@ -0,0 +1,37 @@
+-- CreateTable
+CREATE TABLE "cost_benchmarks" (
+    "id" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "category" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "keywords" TEXT[],
+    "pattern" TEXT,
+    "isOneTime" BOOLEAN NOT NULL,
+    "baseCost" DOUBLE PRECISION NOT NULL,
+    "evidenceCost" DOUBLE PRECISION,
+    "confidence" DOUBLE PRECISION NOT NULL,
+    "department" TEXT NOT NULL,
+    "evidenceType" TEXT NOT NULL DEFAULT 'INDUSTRY_BENCHMARK',
+    "evidenceReference" TEXT NOT NULL,
+    "effectiveYear" INTEGER NOT NULL,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "cost_benchmarks_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "cost_benchmarks_key_key" ON "cost_benchmarks"("key");
+
+-- CreateIndex
+CREATE INDEX "cost_benchmarks_active_idx" ON "cost_benchmarks"("active");
+
+-- Seed with the figures previously hard-coded in the deterministic extractor
+INSERT INTO "cost_benchmarks" ("id", "key", "category", "description", "keywords", "isOneTime", "baseCost", "evidenceCost", "confidence", "department", "evidenceType", "evidenceReference", "effectiveYear", "updatedAt") VALUES
+('bench_system_portal', 'system-portal', 'SYSTEM_CHANGES', 'System changes and data request portal', ARRAY['portal', 'system', 'dsar', 'setup'], true, 30000, 25000, 0.7, 'IT', 'INDUSTRY_BENCHMARK', 'Privacy engineering benchmarks, 2024', 2024, CURRENT_TIMESTAMP),
+('bench_privacy_officer', 'privacy-officer', 'PERSONNEL', 'Privacy officer / compliance personnel', ARRAY['officer', 'dpo', 'privacy officer'], false, 65000, 65000, 0.8, 'COMPLIANCE', 'INDUSTRY_BENCHMARK', 'Compliance officer salary benchmark', 2024, CURRENT_TIMESTAMP),
+('bench_annual_audit', 'annual-audit', 'AUDIT', 'Annual compliance audits and assessments', ARRAY['audit', 'assessment', 'review'], false, 12000, 12000, 0.75, 'COMPLIANCE', 'INDUSTRY_BENCHMARK', 'Audit cost benchmark report', 2024, CURRENT_TIMESTAMP),
+('bench_training_program', 'training-program', 'TRAINING', 'Employee compliance training program', ARRAY['training', 'education', 'awareness'], false, 8000, 7500, 0.8, 'HR', 'INDUSTRY_BENCHMARK', 'Annual compliance training costs', 2024, CURRENT_TIMESTAMP),
+('bench_legal_review', 'legal-review', 'LEGAL_REVIEW', 'Legal review and documentation updates', ARRAY['legal', 'counsel', 'review'], true, 10000, 5000, 0.85, 'LEGAL', 'VENDOR_QUOTE', 'Legal review package estimate', 2024, CURRENT_TIMESTAMP),
+('bench_reporting_fees', 'reporting-fees', 'OTHER', 'Annual reporting and compliance fees', ARRAY['fee', 'penalty', 'reporting'], false, 5000, NULL, 0.75, 'COMPLIANCE', 'ASSUMPTION', 'Estimated annual fees based on regulation text patterns', 2024, CURRENT_TIMESTAMP);
@@ -0,0 +1,56 @@
+-- CreateTable
+CREATE TABLE "escalation_indices" (
+    "id" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "year" INTEGER NOT NULL,
+    "rate" DOUBLE PRECISION NOT NULL,
+    "source" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "escalation_indices_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "regional_labor_indices" (
+    "id" TEXT NOT NULL,
+    "jurisdictionCode" TEXT NOT NULL,
+    "laborCostIndex" DOUBLE PRECISION NOT NULL,
+    "effectiveYear" INTEGER NOT NULL,
+    "source" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "regional_labor_indices_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "escalation_indices_kind_year_key" ON "escalation_indices"("kind", "year");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "regional_labor_indices_jurisdictionCode_key" ON "regional_labor_indices"("jurisdictionCode");
+
+-- Seed starting figures; admins replace these via PUT /api/cost-indices
+INSERT INTO "escalation_indices" ("id", "kind", "year", "rate", "source", "updatedAt") VALUES
+('esc_inflation_2026', 'INFLATION', 2026, 0.027, 'Starting estimate', CURRENT_TIMESTAMP),
+('esc_inflation_2027', 'INFLATION', 2027, 0.024, 'Starting estimate', CURRENT_TIMESTAMP),
+('esc_inflation_2028', 'INFLATION', 2028, 0.022, 'Starting estimate', CURRENT_TIMESTAMP),
+('esc_wage_2026', 'WAGE_GROWTH', 2026, 0.038, 'Starting estimate', CURRENT_TIMESTAMP),
+('esc_wage_2027', 'WAGE_GROWTH', 2027, 0.035, 'Starting estimate', CURRENT_TIMESTAMP),
+('esc_wage_2028', 'WAGE_GROWTH', 2028, 0.033, 'Starting estimate', CURRENT_TIMESTAMP);
+
+INSERT INTO "regional_labor_indices" ("id", "jurisdictionCode", "laborCostIndex", "effectiveYear", "source", "updatedAt") VALUES
+('rli_ca', 'CA', 1.22, 2026, 'Starting estimate', CURRENT_TIMESTAMP),
+('rli_ny', 'NY', 1.20, 2026, 'Starting estimate', CURRENT_TIMESTAMP),
+('rli_tx', 'TX', 0.97, 2026, 'Starting estimate', CURRENT_TIMESTAMP),
+('rli_fl', 'FL', 0.93, 2026, 'Starting estimate', CURRENT_TIMESTAMP),
+('rli_il', 'IL', 1.05, 2026, 'Starting estimate', CURRENT_TIMESTAMP),
+('rli_nj', 'NJ', 1.12, 2026, 'Starting estimate', CURRENT_TIMESTAMP),
+('rli_mi', 'MI', 0.96, 2026, 'Starting estimate', CURRENT_TIMESTAMP),
+('rli_la', 'LA', 0.88, 2026, 'Starting estimate', CURRENT_TIMESTAMP),
+('rli_or', 'OR', 1.04, 2026, 'Starting estimate', CURRENT_TIMESTAMP),
+('rli_wa', 'WA', 1.18, 2026, 'Starting estimate', CURRENT_TIMESTAMP),
+('rli_wi', 'WI', 0.95, 2026, 'Starting estimate', CURRENT_TIMESTAMP),
+('rli_oh', 'OH', 0.94, 2026, 'Starting estimate', CURRENT_TIMESTAMP),
+('rli_ma', 'MA', 1.21, 2026, 'Starting estimate', CURRENT_TIMESTAMP),
+('rli_co', 'CO', 1.08, 2026, 'Starting estimate', CURRENT_TIMESTAMP);
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "customers" ADD COLUMN "discountRate" DOUBLE PRECISION NOT NULL DEFAULT 0.08,
+ADD COLUMN "scenarioHorizonYears" INTEGER NOT NULL DEFAULT 3;
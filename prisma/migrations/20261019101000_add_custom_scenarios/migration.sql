@@ -0,0 +1,25 @@
+-- AlterTable
+ALTER TABLE "cost_estimates" ADD COLUMN "selectedScenario" TEXT;
+
+-- CreateTable
+CREATE TABLE "custom_scenarios" (
+    "id" TEXT NOT NULL,
+    "costEstimateId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "excludedDriverIds" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "driverCostOverrides" JSONB NOT NULL,
+    "delayMonths" INTEGER NOT NULL DEFAULT 0,
+    "sourcing" TEXT NOT NULL DEFAULT 'IN_HOUSE',
+    "createdBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "custom_scenarios_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "custom_scenarios_costEstimateId_idx" ON "custom_scenarios"("costEstimateId");
+
+-- AddForeignKey
+ALTER TABLE "custom_scenarios" ADD CONSTRAINT "custom_scenarios_costEstimateId_fkey" FOREIGN KEY ("costEstimateId") REFERENCES "cost_estimates"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "penalty_schedules" (
+    "id" TEXT NOT NULL,
+    "regulationId" TEXT NOT NULL,
+    "perViolationMin" DOUBLE PRECISION,
+    "perViolationMax" DOUBLE PRECISION,
+    "perDayFine" DOUBLE PRECISION,
+    "maxPenalty" DOUBLE PRECISION,
+    "privateRightOfAction" BOOLEAN NOT NULL DEFAULT false,
+    "enforcementLikelihood" DOUBLE PRECISION,
+    "source" TEXT NOT NULL DEFAULT 'EXTRACTED',
+    "sourceText" TEXT,
+    "extractionConfidence" DOUBLE PRECISION NOT NULL DEFAULT 1,
+    "regulationVersionId" TEXT,
+    "updatedBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "penalty_schedules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "penalty_schedules_regulationId_key" ON "penalty_schedules"("regulationId");
+
+-- AddForeignKey
+ALTER TABLE "penalty_schedules" ADD CONSTRAINT "penalty_schedules_regulationId_fkey" FOREIGN KEY ("regulationId") REFERENCES "regulations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,80 @@
+-- CreateTable
+CREATE TABLE "department_budgets" (
+    "id" TEXT NOT NULL,
+    "customerId" TEXT NOT NULL,
+    "fiscalYear" INTEGER NOT NULL,
+    "department" TEXT NOT NULL,
+    "budgetCode" TEXT NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "notes" TEXT,
+    "updatedBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "department_budgets_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "budget_commitments" (
+    "id" TEXT NOT NULL,
+    "customerId" TEXT NOT NULL,
+    "costEstimateId" TEXT NOT NULL,
+    "approvalId" TEXT,
+    "fiscalYear" INTEGER NOT NULL,
+    "department" TEXT NOT NULL,
+    "budgetCode" TEXT,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "committedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "budget_commitments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "budget_actuals" (
+    "id" TEXT NOT NULL,
+    "customerId" TEXT NOT NULL,
+    "costEstimateId" TEXT,
+    "fiscalYear" INTEGER NOT NULL,
+    "department" TEXT NOT NULL,
+    "budgetCode" TEXT,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "spentAt" TIMESTAMP(3) NOT NULL,
+    "description" TEXT,
+    "recordedBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "budget_actuals_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "department_budgets_customerId_fiscalYear_budgetCode_key" ON "department_budgets"("customerId", "fiscalYear", "budgetCode");
+
+-- CreateIndex
+CREATE INDEX "department_budgets_customerId_fiscalYear_idx" ON "department_budgets"("customerId", "fiscalYear");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "budget_commitments_costEstimateId_department_key" ON "budget_commitments"("costEstimateId", "department");
+
+-- CreateIndex
+CREATE INDEX "budget_commitments_customerId_fiscalYear_idx" ON "budget_commitments"("customerId", "fiscalYear");
+
+-- CreateIndex
+CREATE INDEX "budget_actuals_customerId_fiscalYear_idx" ON "budget_actuals"("customerId", "fiscalYear");
+
+-- CreateIndex
+CREATE INDEX "budget_actuals_costEstimateId_idx" ON "budget_actuals"("costEstimateId");
+
+-- AddForeignKey
+ALTER TABLE "department_budgets" ADD CONSTRAINT "department_budgets_customerId_fkey" FOREIGN KEY ("customerId") REFERENCES "customers"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "budget_commitments" ADD CONSTRAINT "budget_commitments_customerId_fkey" FOREIGN KEY ("customerId") REFERENCES "customers"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "budget_commitments" ADD CONSTRAINT "budget_commitments_costEstimateId_fkey" FOREIGN KEY ("costEstimateId") REFERENCES "cost_estimates"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "budget_actuals" ADD CONSTRAINT "budget_actuals_customerId_fkey" FOREIGN KEY ("customerId") REFERENCES "customers"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "budget_actuals" ADD CONSTRAINT "budget_actuals_costEstimateId_fkey" FOREIGN KEY ("costEstimateId") REFERENCES "cost_estimates"("id") ON DELETE SET NULL ON UPDATE CASCADE;
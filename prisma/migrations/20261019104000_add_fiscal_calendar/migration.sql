@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "customers" ADD COLUMN "fiscalYearStartMonth" INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN "fiscalPeriodPattern" TEXT NOT NULL DEFAULT 'CALENDAR_MONTHS';
@@ -0,0 +1,21 @@
+-- AlterTable
+ALTER TABLE "customers" ADD COLUMN "reportingCurrency" TEXT NOT NULL DEFAULT 'USD';
+
+-- AlterTable
+ALTER TABLE "cost_estimates" ADD COLUMN "currency" TEXT NOT NULL DEFAULT 'USD';
+
+-- CreateTable
+CREATE TABLE "fx_rates" (
+    "id" TEXT NOT NULL,
+    "currency" TEXT NOT NULL,
+    "rateToUsd" DOUBLE PRECISION NOT NULL,
+    "effectiveDate" TIMESTAMP(3) NOT NULL,
+    "source" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "fx_rates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "fx_rates_currency_effectiveDate_key" ON "fx_rates"("currency", "effectiveDate");
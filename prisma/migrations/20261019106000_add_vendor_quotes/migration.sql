@@ -0,0 +1,32 @@
+-- CreateTable
+CREATE TABLE "vendor_quotes" (
+    "id" TEXT NOT NULL,
+    "customerId" TEXT NOT NULL,
+    "regulationId" TEXT NOT NULL,
+    "driverCategory" TEXT NOT NULL,
+    "driverDescription" TEXT NOT NULL,
+    "vendor" TEXT NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'USD',
+    "validUntil" TIMESTAMP(3) NOT NULL,
+    "scope" TEXT,
+    "attachments" JSONB NOT NULL DEFAULT '[]',
+    "selected" BOOLEAN NOT NULL DEFAULT false,
+    "createdBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "vendor_quotes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "vendor_quotes_customerId_regulationId_idx" ON "vendor_quotes"("customerId", "regulationId");
+
+-- CreateIndex
+CREATE INDEX "vendor_quotes_validUntil_idx" ON "vendor_quotes"("validUntil");
+
+-- AddForeignKey
+ALTER TABLE "vendor_quotes" ADD CONSTRAINT "vendor_quotes_customerId_fkey" FOREIGN KEY ("customerId") REFERENCES "customers"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "vendor_quotes" ADD CONSTRAINT "vendor_quotes_regulationId_fkey" FOREIGN KEY ("regulationId") REFERENCES "regulations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
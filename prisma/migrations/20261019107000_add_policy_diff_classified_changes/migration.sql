@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "policy_diffs" ADD COLUMN "classifiedChanges" JSONB NOT NULL DEFAULT '[]';
@@ -0,0 +1,8 @@
+-- DropIndex
+DROP INDEX "policy_diffs_regulationVersionId_key";
+
+-- AlterTable
+ALTER TABLE "policy_diffs" ADD COLUMN "sequential" BOOLEAN NOT NULL DEFAULT true;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "policy_diffs_regulationVersionId_previousVersionId_key" ON "policy_diffs"("regulationVersionId", "previousVersionId");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "cost_estimates" ADD COLUMN "companyProfileOverridesJson" JSONB;
@@ -0,0 +1,5 @@
+-- Seed starting FX rates so every supported reporting currency converts
+INSERT INTO "fx_rates" ("id", "currency", "rateToUsd", "effectiveDate", "source", "updatedAt") VALUES
+('fx_cad_2026', 'CAD', 0.73, '2026-01-01 00:00:00', 'Starting estimate', CURRENT_TIMESTAMP),
+('fx_eur_2026', 'EUR', 1.08, '2026-01-01 00:00:00', 'Starting estimate', CURRENT_TIMESTAMP)
+ON CONFLICT ("currency", "effectiveDate") DO NOTHING;
@@ -0,0 +1,12 @@
+-- Keep existing duplicate titles apart (newest renamed) so they can be merged by hand
+UPDATE "regulations" r
+SET "title" = r."title" || ' (duplicate ' || r."id" || ')'
+WHERE EXISTS (
+    SELECT 1 FROM "regulations" o
+    WHERE o."jurisdictionId" = r."jurisdictionId"
+      AND o."title" = r."title"
+      AND (o."createdAt", o."id") < (r."createdAt", r."id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "regulations_jurisdictionId_title_key" ON "regulations"("jurisdictionId", "title");
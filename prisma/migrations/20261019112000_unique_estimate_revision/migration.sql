@@ -0,0 +1,38 @@
+-- AlterTable
+ALTER TABLE "cost_estimates" ADD COLUMN "regulationId" TEXT;
+
+UPDATE "cost_estimates" ce
+SET "regulationId" = rv."regulationId"
+FROM "regulation_versions" rv
+WHERE rv."id" = ce."regulationVersionId";
+
+ALTER TABLE "cost_estimates" ALTER COLUMN "regulationId" SET NOT NULL;
+
+-- Renumber customer/regulation lineages where concurrent estimates stored the
+-- same revision twice, oldest first, and supersede all but the newest
+WITH duplicated AS (
+    SELECT DISTINCT "customerId", "regulationId"
+    FROM "cost_estimates"
+    GROUP BY "customerId", "regulationId", "revision"
+    HAVING COUNT(*) > 1
+),
+ordered AS (
+    SELECT ce."id",
+           ROW_NUMBER() OVER (PARTITION BY ce."customerId", ce."regulationId" ORDER BY ce."createdAt", ce."id") AS rn,
+           LAG(ce."id") OVER (PARTITION BY ce."customerId", ce."regulationId" ORDER BY ce."createdAt", ce."id") AS prev_id,
+           LEAD(ce."createdAt") OVER (PARTITION BY ce."customerId", ce."regulationId" ORDER BY ce."createdAt", ce."id") AS next_created_at
+    FROM "cost_estimates" ce
+    JOIN duplicated d ON d."customerId" = ce."customerId" AND d."regulationId" = ce."regulationId"
+)
+UPDATE "cost_estimates" ce
+SET "revision" = ordered.rn,
+    "previousRevisionId" = ordered.prev_id,
+    "supersededAt" = COALESCE(ce."supersededAt", ordered.next_created_at)
+FROM ordered
+WHERE ce."id" = ordered."id";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "cost_estimates_customerId_regulationId_revision_key" ON "cost_estimates"("customerId", "regulationId", "revision");
+
+-- AddForeignKey
+ALTER TABLE "cost_estimates" ADD CONSTRAINT "cost_estimates_regulationId_fkey" FOREIGN KEY ("regulationId") REFERENCES "regulations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -25,6 +25,7 @@ async function main() {
       employeeCount: 50,
       industry: 'Technology',
       subscriptionTier: 'STARTER' as const,
+      operatingJurisdictions: ['CA'],
     },
     {
       id: 'customer-2',
@@ -32,6 +33,7 @@ async function main() {
       employeeCount: 75,
       industry: 'Energy',
       subscriptionTier: 'STARTER' as const,
+      operatingJurisdictions: ['CA', 'OR', 'WA'],
     },
     {
       id: 'customer-3',
@@ -39,6 +41,7 @@ async function main() {
       employeeCount: 100,
       industry: 'Healthcare',
       subscriptionTier: 'GROWTH' as const,
+      operatingJurisdictions: ['NY', 'NJ'],
     },
     {
       id: 'customer-4',
@@ -46,6 +49,7 @@ async function main() {
       employeeCount: 200,
       industry: 'Financial Services',
       subscriptionTier: 'GROWTH' as const,
+      operatingJurisdictions: ['NY', 'IL', 'MA'],
     },
     {
       id: 'customer-5',
@@ -53,6 +57,7 @@ async function main() {
       employeeCount: 350,
       industry: 'Manufacturing',
       subscriptionTier: 'SCALE' as const,
+      operatingJurisdictions: ['MI', 'OH', 'WI'],
     },
     {
       id: 'customer-6',
@@ -60,6 +65,7 @@ async function main() {
       employeeCount: 500,
       industry: 'Retail',
       subscriptionTier: 'SCALE' as const,
+      operatingJurisdictions: ['CA', 'TX', 'FL', 'NY'],
     },
     {
       id: 'customer-7',
@@ -67,6 +73,7 @@ async function main() {
       employeeCount: 750,
       industry: 'Transportation & Logistics',
       subscriptionTier: 'SCALE' as const,
+      operatingJurisdictions: ['TX', 'LA', 'IL', 'CO', 'WA'],
     },
   ];
 
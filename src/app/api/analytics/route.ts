@@ -10,6 +10,7 @@ import {
   calculateGeoHeatMap
 } from '@/lib/analytics/trends'
 import { calculateHealthScore } from '@/lib/dashboard/metrics'
+import { getFinancialSettings } from '@/lib/customers/financial-settings'
 import { format } from 'date-fns'
 
 export async function GET(request: NextRequest): Promise<NextResponse> {
@@ -33,26 +34,27 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
     const dataType = searchParams.get('type')
 
     const customerId = user.customerId
+    const { fiscalCalendar: calendar, reportingCurrency } = await getFinancialSettings(customerId)
 
     if (dataType === 'velocity') {
-      const velocity = await calculateVelocity(customerId, period)
+      const velocity = await calculateVelocity(customerId, period, calendar)
       return NextResponse.json({ velocity })
     }
 
     if (dataType === 'costTrend') {
-      const costTrend = await calculateCostTrend(customerId, period)
-      return NextResponse.json({ costTrend })
+      const costTrend = await calculateCostTrend(customerId, period, calendar, reportingCurrency)
+      return NextResponse.json({ costTrend, currency: reportingCurrency })
     }
 
     if (dataType === 'forecast') {
-      const velocity = await calculateVelocity(customerId, Math.min(12, period))
-      const forecast = forecastRegulations(velocity, 3)
+      const velocity = await calculateVelocity(customerId, Math.min(12, period), calendar)
+      const forecast = forecastRegulations(velocity, 3, calendar)
       return NextResponse.json({ forecast })
     }
 
     if (dataType === 'healthScore') {
       const healthScoreComponents = await calculateHealthScore(customerId)
-      const healthScores = await getHealthScoreHistory(customerId, 6)
+      const healthScores = await getHealthScoreHistory(customerId, 6, calendar)
       const currentScore = Math.round(
         (healthScoreComponents.deadlineAdherence * 0.4 +
           healthScoreComponents.costPredictability * 0.4 +
@@ -66,25 +68,25 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
     }
 
     if (dataType === 'departmentMatrix') {
-      const matrix = await calculateDepartmentMatrix(customerId)
+      const matrix = await calculateDepartmentMatrix(customerId, reportingCurrency)
       return NextResponse.json({ matrix })
     }
 
     if (dataType === 'geoMap') {
-      const geoData = await calculateGeoHeatMap(customerId)
+      const geoData = await calculateGeoHeatMap(customerId, reportingCurrency)
       return NextResponse.json({ geoData })
     }
 
     const [velocity, costTrend, healthScoreComponents, healthScores, matrix, geoData] = await Promise.all([
-      calculateVelocity(customerId, period),
-      calculateCostTrend(customerId, period),
+      calculateVelocity(customerId, period, calendar),
+      calculateCostTrend(customerId, period, calendar, reportingCurrency),
       calculateHealthScore(customerId),
-      getHealthScoreHistory(customerId, 6),
-      calculateDepartmentMatrix(customerId),
-      calculateGeoHeatMap(customerId)
+      getHealthScoreHistory(customerId, 6, calendar),
+      calculateDepartmentMatrix(customerId, reportingCurrency),
+      calculateGeoHeatMap(customerId, reportingCurrency)
     ])
 
-    const forecast = forecastRegulations(velocity, 3)
+    const forecast = forecastRegulations(velocity, 3, calendar)
     const currentScore = Math.round(
       (healthScoreComponents.deadlineAdherence * 0.4 +
         healthScoreComponents.costPredictability * 0.4 +
@@ -102,6 +104,7 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
       },
       departmentMatrix: matrix,
       geoHeatMap: geoData,
+      currency: reportingCurrency,
       timestamp: format(new Date(), 'yyyy-MM-dd HH:mm:ss')
     })
   } catch (error) {
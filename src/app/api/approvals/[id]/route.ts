@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { auth } from '@/auth.config'
 import { prisma } from '@/lib/prisma'
 import { sendApprovalEmail } from '@/lib/email/approval-notifications'
+import { commitApprovedEstimate, releaseApprovalCommitments } from '@/lib/budgets/budgets'
 
 export async function PATCH(
   request: NextRequest,
@@ -30,6 +31,7 @@ export async function PATCH(
       where: { id: params.id },
       select: {
         approverId: true,
+        costEstimateId: true,
         costEstimate: {
           select: {
             oneTimeCostLow: true,
@@ -74,6 +76,17 @@ export async function PATCH(
       }
     })
 
+    // Approved estimates are committed against the department budgets
+    try {
+      if (status === 'APPROVED') {
+        await commitApprovedEstimate(approval.costEstimateId, updatedApproval.id, updatedApproval.approvedAt!)
+      } else {
+        await releaseApprovalCommitments(updatedApproval.id)
+      }
+    } catch (error) {
+      console.error('[Budget Commitment Error - Non-blocking]', error)
+    }
+
     // Send email notification asynchronously
     if (['APPROVED', 'REJECTED'].includes(status)) {
       const estimatedCost =
@@ -116,6 +129,7 @@ export async function DELETE(
       where: { id: params.id },
       data: { status: 'CANCELLED' }
     })
+    await releaseApprovalCommitments(params.id)
 
     return NextResponse.json({ success: true }, { status: 200 })
   } catch (error) {
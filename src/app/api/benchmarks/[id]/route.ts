@@ -0,0 +1,173 @@
+/**
+ * Cost Benchmark API Endpoint
+ * PATCH: Update a benchmark (admin only)
+ * DELETE: Remove a benchmark (admin only)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import prisma from '@/lib/prisma';
+import { auth } from '@/auth.config';
+import {
+  deleteBenchmark,
+  isValidBenchmarkPattern,
+  updateBenchmark,
+} from '@/lib/cost-estimator';
+import { CostCategory, Department } from '@/types/cost-estimate';
+
+// Request validation schema (omitted fields keep their current value; the key is fixed)
+const updateBenchmarkSchema = z.object({
+  category: z.nativeEnum(CostCategory).optional(),
+  description: z.string().trim().min(1).optional(),
+  keywords: z.array(z.string().trim().min(1)).optional(),
+  pattern: z
+    .string()
+    .trim()
+    .min(1)
+    .refine(isValidBenchmarkPattern, 'Pattern is not a valid regular expression')
+    .nullable()
+    .optional(),
+  isOneTime: z.boolean().optional(),
+  baseCost: z.number().nonnegative().optional(),
+  evidenceCost: z.number().nonnegative().nullable().optional(),
+  confidence: z.number().min(0).max(1).optional(),
+  department: z.nativeEnum(Department).optional(),
+  evidenceType: z
+    .enum(['INDUSTRY_BENCHMARK', 'VENDOR_QUOTE', 'CASE_STUDY', 'REGULATION_CLAUSE', 'ASSUMPTION'])
+    .optional(),
+  evidenceReference: z.string().trim().min(1).optional(),
+  effectiveYear: z.number().int().min(2000).max(2100).optional(),
+  active: z.boolean().optional(),
+});
+
+/**
+ * Require an authenticated administrator
+ * @returns Error response, or null if the user may edit benchmarks
+ */
+async function requireAdmin(): Promise<NextResponse | null> {
+  const session = await auth();
+  if (!session?.user?.email) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  if (session.user.role !== 'ADMIN') {
+    return NextResponse.json(
+      { error: 'Only administrators can edit benchmarks' },
+      { status: 403 }
+    );
+  }
+
+  return null;
+}
+
+/**
+ * PATCH /api/benchmarks/[id]
+ * Update a benchmark; deactivate by sending { active: false }
+ */
+export async function PATCH(
+  request: NextRequest,
+  props: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  const params = await props.params;
+  try {
+    const forbidden = await requireAdmin();
+    if (forbidden) {
+      return forbidden;
+    }
+
+    // Parse and validate request body
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid JSON in request body' },
+        { status: 400 }
+      );
+    }
+
+    const validationResult = updateBenchmarkSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid request parameters', details: validationResult.error },
+        { status: 400 }
+      );
+    }
+
+    const existing = await prisma.costBenchmark.findUnique({
+      where: { id: params.id },
+      select: { keywords: true, pattern: true },
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Benchmark not found' },
+        { status: 404 }
+      );
+    }
+
+    const keywords = validationResult.data.keywords ?? existing.keywords;
+    const pattern =
+      validationResult.data.pattern !== undefined
+        ? validationResult.data.pattern
+        : existing.pattern;
+
+    if (keywords.length === 0 && !pattern) {
+      return NextResponse.json(
+        { error: 'A benchmark needs at least one keyword or a pattern' },
+        { status: 400 }
+      );
+    }
+
+    const benchmark = await updateBenchmark(params.id, validationResult.data);
+
+    if (!benchmark) {
+      return NextResponse.json(
+        { error: 'Benchmark not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(benchmark, { status: 200 });
+  } catch (error) {
+    console.error('[Benchmarks] Error updating benchmark:', error);
+    return NextResponse.json(
+      { error: 'Failed to update benchmark' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/benchmarks/[id]
+ * Remove a benchmark from the library
+ */
+export async function DELETE(
+  request: NextRequest,
+  props: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  const params = await props.params;
+  try {
+    const forbidden = await requireAdmin();
+    if (forbidden) {
+      return forbidden;
+    }
+
+    const deleted = await deleteBenchmark(params.id);
+
+    if (!deleted) {
+      return NextResponse.json(
+        { error: 'Benchmark not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true }, { status: 200 });
+  } catch (error) {
+    console.error('[Benchmarks] Error deleting benchmark:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete benchmark' },
+      { status: 500 }
+    );
+  }
+}
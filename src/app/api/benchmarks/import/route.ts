@@ -0,0 +1,109 @@
+/**
+ * Cost Benchmark Import API Endpoint
+ * POST: Import benchmarks exported from GET /api/benchmarks?download=1 (admin only)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { auth } from '@/auth.config';
+import { importBenchmarks, isValidBenchmarkPattern } from '@/lib/cost-estimator';
+import { CostCategory, Department } from '@/types/cost-estimate';
+
+// Request validation schema
+const benchmarkSchema = z.object({
+  key: z
+    .string()
+    .trim()
+    .regex(/^[a-z0-9-]{1,100}$/, 'Use lowercase letters, digits and dashes'),
+  category: z.nativeEnum(CostCategory),
+  description: z.string().trim().min(1),
+  keywords: z.array(z.string().trim().min(1)).default([]),
+  pattern: z
+    .string()
+    .trim()
+    .min(1)
+    .refine(isValidBenchmarkPattern, 'Pattern is not a valid regular expression')
+    .nullable()
+    .optional(),
+  isOneTime: z.boolean(),
+  baseCost: z.number().nonnegative(),
+  evidenceCost: z.number().nonnegative().nullable().optional(),
+  confidence: z.number().min(0).max(1),
+  department: z.nativeEnum(Department),
+  evidenceType: z
+    .enum(['INDUSTRY_BENCHMARK', 'VENDOR_QUOTE', 'CASE_STUDY', 'REGULATION_CLAUSE', 'ASSUMPTION'])
+    .default('INDUSTRY_BENCHMARK'),
+  evidenceReference: z.string().trim().min(1),
+  effectiveYear: z.number().int().min(2000).max(2100),
+  active: z.boolean().default(true),
+});
+
+const importRequestSchema = z.object({
+  benchmarks: z
+    .array(benchmarkSchema)
+    .min(1)
+    .max(500)
+    .refine(
+      (benchmarks) => new Set(benchmarks.map((benchmark) => benchmark.key)).size === benchmarks.length,
+      'Benchmark keys must be unique'
+    ),
+  mode: z.enum(['merge', 'replace']).default('merge'),
+});
+
+/**
+ * POST /api/benchmarks/import
+ * Create or update benchmarks by key; replace mode also deactivates the rest
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    // Authenticate user
+    const session = await auth();
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // The library is shared by every customer's estimates, so restrict to admins
+    if (session.user.role !== 'ADMIN') {
+      return NextResponse.json(
+        { error: 'Only administrators can import benchmarks' },
+        { status: 403 }
+      );
+    }
+
+    // Parse and validate request body
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid JSON in request body' },
+        { status: 400 }
+      );
+    }
+
+    const validationResult = importRequestSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid request parameters', details: validationResult.error },
+        { status: 400 }
+      );
+    }
+
+    const result = await importBenchmarks(
+      validationResult.data.benchmarks,
+      validationResult.data.mode
+    );
+
+    console.log(
+      `[Benchmarks] Imported benchmarks: ${result.created} created, ${result.updated} updated, ${result.deactivated} deactivated`
+    );
+
+    return NextResponse.json(result, { status: 200 });
+  } catch (error) {
+    console.error('[Benchmarks] Error importing benchmarks:', error);
+    return NextResponse.json(
+      { error: 'Failed to import benchmarks' },
+      { status: 500 }
+    );
+  }
+}
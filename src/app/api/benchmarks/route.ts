@@ -0,0 +1,146 @@
+/**
+ * Cost Benchmark Library API Endpoint
+ * GET: List benchmarks (?download=1 returns the importable JSON export)
+ * POST: Create a benchmark (admin only)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import prisma from '@/lib/prisma';
+import { auth } from '@/auth.config';
+import {
+  createBenchmark,
+  exportBenchmarks,
+  isValidBenchmarkPattern,
+  listBenchmarks,
+} from '@/lib/cost-estimator';
+import { CostCategory, Department } from '@/types/cost-estimate';
+
+// Request validation schema
+const benchmarkSchema = z
+  .object({
+    key: z
+      .string()
+      .trim()
+      .regex(/^[a-z0-9-]{1,100}$/, 'Use lowercase letters, digits and dashes'),
+    category: z.nativeEnum(CostCategory),
+    description: z.string().trim().min(1),
+    keywords: z.array(z.string().trim().min(1)).default([]),
+    pattern: z.string().trim().min(1).nullable().optional(),
+    isOneTime: z.boolean(),
+    baseCost: z.number().nonnegative(),
+    evidenceCost: z.number().nonnegative().nullable().optional(),
+    confidence: z.number().min(0).max(1),
+    department: z.nativeEnum(Department),
+    evidenceType: z
+      .enum(['INDUSTRY_BENCHMARK', 'VENDOR_QUOTE', 'CASE_STUDY', 'REGULATION_CLAUSE', 'ASSUMPTION'])
+      .default('INDUSTRY_BENCHMARK'),
+    evidenceReference: z.string().trim().min(1),
+    effectiveYear: z.number().int().min(2000).max(2100),
+    active: z.boolean().default(true),
+  })
+  .refine((benchmark) => benchmark.keywords.length > 0 || Boolean(benchmark.pattern), {
+    message: 'A benchmark needs at least one keyword or a pattern',
+  })
+  .refine((benchmark) => !benchmark.pattern || isValidBenchmarkPattern(benchmark.pattern), {
+    message: 'Pattern is not a valid regular expression',
+    path: ['pattern'],
+  });
+
+/**
+ * GET /api/benchmarks
+ * List the benchmark library; any signed-in user may read it
+ */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  try {
+    // Authenticate user
+    const session = await auth();
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (request.nextUrl.searchParams.get('download') === '1') {
+      const benchmarks = await exportBenchmarks();
+      return NextResponse.json(
+        { benchmarks },
+        {
+          status: 200,
+          headers: {
+            'Content-Disposition': `attachment; filename="cost-benchmarks-${new Date().toISOString().split('T')[0]}.json"`,
+          },
+        }
+      );
+    }
+
+    const benchmarks = await listBenchmarks();
+    return NextResponse.json({ benchmarks }, { status: 200 });
+  } catch (error) {
+    console.error('[Benchmarks] Error fetching benchmarks:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch benchmarks' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/benchmarks
+ * Add a benchmark to the shared library
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    // Authenticate user
+    const session = await auth();
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // The library is shared by every customer's estimates, so restrict to admins
+    if (session.user.role !== 'ADMIN') {
+      return NextResponse.json(
+        { error: 'Only administrators can edit benchmarks' },
+        { status: 403 }
+      );
+    }
+
+    // Parse and validate request body
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid JSON in request body' },
+        { status: 400 }
+      );
+    }
+
+    const validationResult = benchmarkSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid request parameters', details: validationResult.error },
+        { status: 400 }
+      );
+    }
+
+    const existing = await prisma.costBenchmark.findUnique({
+      where: { key: validationResult.data.key },
+      select: { id: true },
+    });
+    if (existing) {
+      return NextResponse.json(
+        { error: 'A benchmark with this key already exists', benchmarkId: existing.id },
+        { status: 409 }
+      );
+    }
+
+    const benchmark = await createBenchmark(validationResult.data);
+
+    return NextResponse.json(benchmark, { status: 201 });
+  } catch (error) {
+    console.error('[Benchmarks] Error creating benchmark:', error);
+    return NextResponse.json(
+      { error: 'Failed to create benchmark' },
+      { status: 500 }
+    );
+  }
+}
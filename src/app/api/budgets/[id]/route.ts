@@ -0,0 +1,62 @@
+/**
+ * Department Budget API Endpoint
+ * DELETE: Remove a budget line (admin only)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { auth } from '@/auth.config';
+import { deleteDepartmentBudget } from '@/lib/budgets/budgets';
+
+/**
+ * DELETE /api/budgets/[id]
+ * Commitments and spend charged to the line show as unbudgeted afterwards
+ */
+export async function DELETE(
+  request: NextRequest,
+  props: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  const params = await props.params;
+  try {
+    // Authenticate user
+    const session = await auth();
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (session.user.role !== 'ADMIN') {
+      return NextResponse.json(
+        { error: 'Only administrators can edit budgets' },
+        { status: 403 }
+      );
+    }
+
+    // Fetch user's customer
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+    });
+
+    if (!user?.customerId) {
+      return NextResponse.json(
+        { error: 'User not associated with a customer' },
+        { status: 403 }
+      );
+    }
+
+    const deleted = await deleteDepartmentBudget(user.customerId, params.id);
+    if (!deleted) {
+      return NextResponse.json(
+        { error: 'Budget not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true }, { status: 200 });
+  } catch (error) {
+    console.error('[Budgets] Error deleting budget:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete budget' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,153 @@
+/**
+ * Budget Actuals API Endpoint
+ * GET: Spend recorded for a fiscal year
+ * POST: Record actual spend against a department's budget
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import prisma from '@/lib/prisma';
+import { auth } from '@/auth.config';
+import { getBudgetActuals, recordBudgetActual } from '@/lib/budgets/budgets';
+import { getFiscalCalendar } from '@/lib/customers/financial-settings';
+import { fiscalYearOf } from '@/lib/utils/fiscal-calendar';
+import { Department } from '@/types/cost-estimate';
+
+// Query validation schema
+const actualsQuerySchema = z.object({
+  fiscalYear: z.coerce.number().int().min(2000).max(2100).optional(),
+});
+
+// Request validation schema
+const actualSchema = z.object({
+  department: z.nativeEnum(Department),
+  budgetCode: z.string().trim().min(1).max(50).nullable().optional(),
+  costEstimateId: z.string().min(1).nullable().optional(),
+  amount: z.number().positive(),
+  spentAt: z.coerce.date(),
+  description: z.string().max(2000).nullable().optional(),
+});
+
+/**
+ * GET /api/budgets/actuals
+ * ?fiscalYear=YYYY (default: current fiscal year)
+ */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  try {
+    // Authenticate user
+    const session = await auth();
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const queryResult = actualsQuerySchema.safeParse({
+      fiscalYear: searchParams.get('fiscalYear') ?? undefined,
+    });
+    if (!queryResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid query parameters', details: queryResult.error },
+        { status: 400 }
+      );
+    }
+
+    // Fetch user's customer
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+    });
+
+    if (!user?.customerId) {
+      return NextResponse.json(
+        { error: 'User not associated with a customer' },
+        { status: 403 }
+      );
+    }
+
+    const actuals = await getBudgetActuals(
+      user.customerId,
+      queryResult.data.fiscalYear ??
+        fiscalYearOf(new Date(), await getFiscalCalendar(user.customerId))
+    );
+
+    return NextResponse.json({ actuals }, { status: 200 });
+  } catch (error) {
+    console.error('[Budgets] Error fetching actuals:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch actual spend' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/budgets/actuals
+ * Spend counts toward the fiscal year of spentAt
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    // Authenticate user
+    const session = await auth();
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Parse and validate request body
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid JSON in request body' },
+        { status: 400 }
+      );
+    }
+
+    const validationResult = actualSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid request parameters', details: validationResult.error },
+        { status: 400 }
+      );
+    }
+
+    // Fetch user's customer
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+    });
+
+    if (!user?.customerId) {
+      return NextResponse.json(
+        { error: 'User not associated with a customer' },
+        { status: 403 }
+      );
+    }
+
+    const { costEstimateId } = validationResult.data;
+    if (costEstimateId) {
+      const estimate = await prisma.costEstimate.findFirst({
+        where: { id: costEstimateId, customerId: user.customerId },
+        select: { id: true },
+      });
+      if (!estimate) {
+        return NextResponse.json(
+          { error: 'Cost estimate not found' },
+          { status: 404 }
+        );
+      }
+    }
+
+    const actual = await recordBudgetActual(
+      user.customerId,
+      validationResult.data,
+      session.user.email
+    );
+
+    return NextResponse.json(actual, { status: 201 });
+  } catch (error) {
+    console.error('[Budgets] Error recording actual spend:', error);
+    return NextResponse.json(
+      { error: 'Failed to record actual spend' },
+      { status: 500 }
+    );
+  }
+}
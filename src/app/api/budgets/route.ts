@@ -0,0 +1,153 @@
+/**
+ * Department Budgets API Endpoint
+ * GET: Budget lines of a fiscal year with budget vs committed vs actual
+ * PUT: Create or update a budget line (admin only)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import prisma from '@/lib/prisma';
+import { auth } from '@/auth.config';
+import {
+  getBudgetSummary,
+  getDepartmentBudgets,
+  saveDepartmentBudget,
+} from '@/lib/budgets/budgets';
+import { getFiscalCalendar } from '@/lib/customers/financial-settings';
+import { fiscalYearOf } from '@/lib/utils/fiscal-calendar';
+import { Department } from '@/types/cost-estimate';
+
+const fiscalYear = z.coerce.number().int().min(2000).max(2100);
+
+// Query validation schema
+const budgetQuerySchema = z.object({
+  fiscalYear: fiscalYear.optional(),
+});
+
+// Request validation schema
+const budgetSchema = z.object({
+  fiscalYear,
+  department: z.nativeEnum(Department),
+  budgetCode: z.string().trim().min(1).max(50),
+  amount: z.number().nonnegative(),
+  notes: z.string().max(2000).nullable().optional(),
+});
+
+/**
+ * GET /api/budgets
+ * ?fiscalYear=YYYY (default: current fiscal year)
+ */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  try {
+    // Authenticate user
+    const session = await auth();
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const queryResult = budgetQuerySchema.safeParse({
+      fiscalYear: searchParams.get('fiscalYear') ?? undefined,
+    });
+    if (!queryResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid query parameters', details: queryResult.error },
+        { status: 400 }
+      );
+    }
+
+    // Fetch user's customer
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+    });
+
+    if (!user?.customerId) {
+      return NextResponse.json(
+        { error: 'User not associated with a customer' },
+        { status: 403 }
+      );
+    }
+
+    const year =
+      queryResult.data.fiscalYear ??
+      fiscalYearOf(new Date(), await getFiscalCalendar(user.customerId));
+    const [budgets, summary] = await Promise.all([
+      getDepartmentBudgets(user.customerId, year),
+      getBudgetSummary(user.customerId, year),
+    ]);
+
+    return NextResponse.json({ budgets, summary }, { status: 200 });
+  } catch (error) {
+    console.error('[Budgets] Error fetching budgets:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch budgets' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/budgets
+ * Budget lines are keyed by fiscal year and budget code
+ */
+export async function PUT(request: NextRequest): Promise<NextResponse> {
+  try {
+    // Authenticate user
+    const session = await auth();
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (session.user.role !== 'ADMIN') {
+      return NextResponse.json(
+        { error: 'Only administrators can edit budgets' },
+        { status: 403 }
+      );
+    }
+
+    // Parse and validate request body
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid JSON in request body' },
+        { status: 400 }
+      );
+    }
+
+    const validationResult = budgetSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid request parameters', details: validationResult.error },
+        { status: 400 }
+      );
+    }
+
+    // Fetch user's customer
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+    });
+
+    if (!user?.customerId) {
+      return NextResponse.json(
+        { error: 'User not associated with a customer' },
+        { status: 403 }
+      );
+    }
+
+    const budget = await saveDepartmentBudget(
+      user.customerId,
+      validationResult.data,
+      session.user.email
+    );
+
+    return NextResponse.json(budget, { status: 200 });
+  } catch (error) {
+    console.error('[Budgets] Error saving budget:', error);
+    return NextResponse.json(
+      { error: 'Failed to save budget' },
+      { status: 500 }
+    );
+  }
+}
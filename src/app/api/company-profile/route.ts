@@ -0,0 +1,124 @@
+/**
+ * Company Profile API Endpoint
+ * GET: Current profile (or Customer-derived defaults) plus version history
+ * PUT: Save a new profile version
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import prisma from '@/lib/prisma';
+import { auth } from '@/auth.config';
+import {
+  listCompanyProfileVersions,
+  resolveCompanyProfile,
+  saveCompanyProfile,
+} from '@/lib/customers/company-profile';
+import { Industry, TechMaturity, RiskLevel } from '@/types/cost-estimate';
+
+// Request validation schema
+const companyProfileSchema = z.object({
+  industry: z.nativeEnum(Industry),
+  employeeCount: z.number().int().positive(),
+  revenue: z.number().nonnegative().nullable().optional(),
+  techMaturity: z.nativeEnum(TechMaturity),
+  riskAppetite: z.nativeEnum(RiskLevel),
+  operatingJurisdictions: z.array(z.string().trim().min(1)).default([]),
+});
+
+/**
+ * GET /api/company-profile
+ * Return the profile estimates will use and every saved version
+ */
+export async function GET(): Promise<NextResponse> {
+  try {
+    // Authenticate user
+    const session = await auth();
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Fetch user's customer
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+    });
+
+    if (!user?.customerId) {
+      return NextResponse.json(
+        { error: 'User not associated with a customer' },
+        { status: 403 }
+      );
+    }
+
+    const [current, versions] = await Promise.all([
+      resolveCompanyProfile(user.customerId),
+      listCompanyProfileVersions(user.customerId),
+    ]);
+
+    return NextResponse.json({ current, versions }, { status: 200 });
+  } catch (error) {
+    console.error('[CompanyProfile] Error fetching profile:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch company profile' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/company-profile
+ * Save the profile as a new version; earlier versions stay attached to their estimates
+ */
+export async function PUT(request: NextRequest): Promise<NextResponse> {
+  try {
+    // Authenticate user
+    const session = await auth();
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Parse and validate request body
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid JSON in request body' },
+        { status: 400 }
+      );
+    }
+
+    const validationResult = companyProfileSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid request parameters', details: validationResult.error },
+        { status: 400 }
+      );
+    }
+
+    // Fetch user's customer
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+    });
+
+    if (!user?.customerId) {
+      return NextResponse.json(
+        { error: 'User not associated with a customer' },
+        { status: 403 }
+      );
+    }
+
+    const version = await saveCompanyProfile(
+      user.customerId,
+      validationResult.data,
+      session.user.email
+    );
+
+    return NextResponse.json(version, { status: 201 });
+  } catch (error) {
+    console.error('[CompanyProfile] Error saving profile:', error);
+    return NextResponse.json(
+      { error: 'Failed to save company profile' },
+      { status: 500 }
+    );
+  }
+}
@@ -7,6 +7,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import prisma from '@/lib/prisma';
 import { auth } from '@/auth.config';
+import { calculateFeedbackVariance } from '@/lib/cost-estimator';
 
 // Request validation schema
 const feedbackRequestSchema = z.object({
@@ -71,6 +72,11 @@ export async function POST(
     // Fetch cost estimate and verify ownership
     const costEstimate = await prisma.costEstimate.findUnique({
       where: { id: costEstimateId },
+      include: {
+        regulationVersion: {
+          include: { regulation: { select: { regulationType: true } } },
+        },
+      },
     });
 
     if (!costEstimate) {
@@ -87,55 +93,51 @@ export async function POST(
       );
     }
 
-    // Calculate variances
-    const estimatedOneTime =
-      (costEstimate.oneTimeCostLow + costEstimate.oneTimeCostHigh) / 2;
-    const oneTimeVariance =
-      (actualOneTimeCost - estimatedOneTime) / estimatedOneTime;
-
-    const recurringVariance =
-      costEstimate.recurringCostAnnual > 0
-        ? (actualRecurringCostAnnual - costEstimate.recurringCostAnnual) /
-          costEstimate.recurringCostAnnual
-        : 0;
-
-    // Store feedback (create a CostFeedback table entry)
-    // For now, we'll just log it and could extend schema later
-    const feedback = {
-      costEstimateId,
+    // Calculate variances against the estimate midpoint
+    const variance = calculateFeedbackVariance(costEstimate, {
       actualOneTimeCost,
       actualRecurringCostAnnual,
-      oneTimeVariance,
-      recurringVariance,
-      varianceNotes,
-      submittedBy: session.user.email,
-      submittedAt: new Date(),
-    };
-
-    console.log('[CostFeedback] Learning feedback received:', {
-      estimateId: costEstimateId,
-      oneTimeVariance: `${(oneTimeVariance * 100).toFixed(1)}%`,
-      recurringVariance: `${(recurringVariance * 100).toFixed(1)}%`,
-      accuracy: `${(100 - Math.abs(oneTimeVariance * 100)).toFixed(1)}%`,
     });
 
-    // TODO: Store in dedicated CostFeedback table (requires schema update)
-    // For now, log for tracking learning improvements
+    // Store feedback; future estimates in this category learn from it
+    const feedback = await prisma.costFeedback.create({
+      data: {
+        costEstimateId,
+        customerId: user.customerId,
+        regulationType: costEstimate.regulationVersion.regulation.regulationType,
+        estimatedOneTimeCost: variance.estimatedOneTimeCost,
+        estimatedRecurringCostAnnual: variance.estimatedRecurringCostAnnual,
+        actualOneTimeCost,
+        actualRecurringCostAnnual,
+        oneTimeVariance: variance.oneTimeVariance,
+        recurringVariance: variance.recurringVariance,
+        varianceNotes,
+        submittedBy: session.user.email,
+      },
+    });
+
+    console.log('[CostFeedback] Learning feedback recorded:', {
+      feedbackId: feedback.id,
+      estimateId: costEstimateId,
+      oneTimeVariance: `${(variance.oneTimeVariance * 100).toFixed(1)}%`,
+      recurringVariance: `${(variance.recurringVariance * 100).toFixed(1)}%`,
+      accuracy: `${variance.oneTimeAccuracy.toFixed(1)}%`,
+    });
 
     // Return variance analysis
     return NextResponse.json(
       {
         success: true,
         variance: {
-          oneTimeVariance,
-          recurringVariance,
-          oneTimeAccuracy: 100 - Math.abs(oneTimeVariance * 100),
-          recurringAccuracy: 100 - Math.abs(recurringVariance * 100),
+          oneTimeVariance: variance.oneTimeVariance,
+          recurringVariance: variance.recurringVariance,
+          oneTimeAccuracy: variance.oneTimeAccuracy,
+          recurringAccuracy: variance.recurringAccuracy,
         },
         feedback,
         message: 'Feedback recorded successfully. Will improve future estimates.',
       },
-      { status: 200 }
+      { status: 201 }
     );
   } catch (error) {
     console.error('[CostFeedback] Error recording feedback:', error);
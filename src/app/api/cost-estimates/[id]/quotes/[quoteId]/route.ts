@@ -0,0 +1,149 @@
+/**
+ * Vendor Quote API Endpoint
+ * PATCH: Update or select a vendor quote
+ * DELETE: Delete a vendor quote
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import prisma from '@/lib/prisma';
+import { auth } from '@/auth.config';
+import {
+  SUPPORTED_CURRENCIES,
+  deleteVendorQuote,
+  updateVendorQuote,
+} from '@/lib/cost-estimator';
+import type { CurrencyCode } from '@/types/cost-estimate';
+
+// Request validation schema
+const vendorQuoteUpdateSchema = z.object({
+  vendor: z.string().trim().min(1).max(200).optional(),
+  amount: z.number().nonnegative().optional(),
+  currency: z.enum(SUPPORTED_CURRENCIES as [CurrencyCode, ...CurrencyCode[]]).optional(),
+  validUntil: z.coerce.date().optional(),
+  scope: z.string().max(5000).nullable().optional(),
+  // Rendered as links, so only http(s) URLs
+  attachments: z
+    .array(z.object({ name: z.string().trim().min(1).max(200), url: z.url({ protocol: /^https?$/ }) }))
+    .max(20)
+    .optional(),
+  selected: z.boolean().optional(),
+});
+
+/**
+ * Load a quote for the estimate's regulation owned by the signed-in customer
+ * @returns The quote, or an error response
+ */
+async function findOwnedQuote(costEstimateId: string, quoteId: string) {
+  const session = await auth();
+  if (!session?.user?.email) {
+    return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) };
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { email: session.user.email },
+  });
+
+  if (!user?.customerId) {
+    return {
+      error: NextResponse.json(
+        { error: 'User not associated with a customer' },
+        { status: 403 }
+      ),
+    };
+  }
+
+  const [quote, costEstimate] = await Promise.all([
+    prisma.vendorQuote.findUnique({ where: { id: quoteId } }),
+    prisma.costEstimate.findUnique({
+      where: { id: costEstimateId },
+      select: { regulationVersion: { select: { regulationId: true } } },
+    }),
+  ]);
+
+  if (!quote || !costEstimate || quote.regulationId !== costEstimate.regulationVersion.regulationId) {
+    return {
+      error: NextResponse.json({ error: 'Vendor quote not found' }, { status: 404 }),
+    };
+  }
+
+  if (quote.customerId !== user.customerId) {
+    return {
+      error: NextResponse.json(
+        { error: 'Access denied to this cost estimate' },
+        { status: 403 }
+      ),
+    };
+  }
+
+  return { quote };
+}
+
+/**
+ * PATCH /api/cost-estimates/[id]/quotes/[quoteId]
+ * Update a quote; selecting it deselects the driver's other quotes
+ */
+export async function PATCH(
+  request: NextRequest,
+  props: { params: Promise<{ id: string; quoteId: string }> }
+): Promise<NextResponse> {
+  const params = await props.params;
+  try {
+    // Parse and validate request body
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid JSON in request body' },
+        { status: 400 }
+      );
+    }
+
+    const validationResult = vendorQuoteUpdateSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid request parameters', details: validationResult.error },
+        { status: 400 }
+      );
+    }
+
+    const { quote, error } = await findOwnedQuote(params.id, params.quoteId);
+    if (error) return error;
+
+    const updated = await updateVendorQuote(quote.id, validationResult.data);
+
+    return NextResponse.json(updated, { status: 200 });
+  } catch (error) {
+    console.error('[VendorQuotes] Error updating quote:', error);
+    return NextResponse.json(
+      { error: 'Failed to update vendor quote' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/cost-estimates/[id]/quotes/[quoteId]
+ * Delete a quote; its driver returns to the estimated cost on re-estimate
+ */
+export async function DELETE(
+  request: NextRequest,
+  props: { params: Promise<{ id: string; quoteId: string }> }
+): Promise<NextResponse> {
+  const params = await props.params;
+  try {
+    const { quote, error } = await findOwnedQuote(params.id, params.quoteId);
+    if (error) return error;
+
+    await deleteVendorQuote(quote.id);
+
+    return NextResponse.json({ success: true }, { status: 200 });
+  } catch (error) {
+    console.error('[VendorQuotes] Error deleting quote:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete vendor quote' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,177 @@
+/**
+ * Vendor Quotes API Endpoint
+ * GET: Vendor quotes held for the estimate's regulation
+ * POST: Enter a vendor quote against one of the estimate's cost drivers
+ * Quotes carry over to later revisions; re-estimating applies the selected ones
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import prisma from '@/lib/prisma';
+import { auth } from '@/auth.config';
+import {
+  SUPPORTED_CURRENCIES,
+  createVendorQuote,
+  listVendorQuotes,
+  parseStoredCostDrivers,
+} from '@/lib/cost-estimator';
+import type { CurrencyCode } from '@/types/cost-estimate';
+
+// Request validation schema
+const vendorQuoteSchema = z.object({
+  driverId: z.string().min(1),
+  vendor: z.string().trim().min(1).max(200),
+  amount: z.number().nonnegative(),
+  currency: z.enum(SUPPORTED_CURRENCIES as [CurrencyCode, ...CurrencyCode[]]).default('USD'),
+  validUntil: z.coerce.date(),
+  scope: z.string().max(5000).nullable().optional(),
+  // Rendered as links, so only http(s) URLs
+  attachments: z
+    .array(z.object({ name: z.string().trim().min(1).max(200), url: z.url({ protocol: /^https?$/ }) }))
+    .max(20)
+    .default([]),
+  selected: z.boolean().default(false),
+});
+
+/**
+ * Load a cost estimate owned by the signed-in customer
+ * @returns The estimate with its drivers and regulation, or an error response
+ */
+async function findOwnedEstimate(costEstimateId: string) {
+  const session = await auth();
+  if (!session?.user?.email) {
+    return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) };
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { email: session.user.email },
+  });
+
+  if (!user?.customerId) {
+    return {
+      error: NextResponse.json(
+        { error: 'User not associated with a customer' },
+        { status: 403 }
+      ),
+    };
+  }
+
+  const costEstimate = await prisma.costEstimate.findUnique({
+    where: { id: costEstimateId },
+    select: {
+      customerId: true,
+      costDriversJson: true,
+      regulationVersion: { select: { regulationId: true } },
+    },
+  });
+
+  if (!costEstimate) {
+    return {
+      error: NextResponse.json({ error: 'Cost estimate not found' }, { status: 404 }),
+    };
+  }
+
+  if (costEstimate.customerId !== user.customerId) {
+    return {
+      error: NextResponse.json(
+        { error: 'Access denied to this cost estimate' },
+        { status: 403 }
+      ),
+    };
+  }
+
+  return { costEstimate, email: session.user.email };
+}
+
+/**
+ * GET /api/cost-estimates/[id]/quotes
+ * List the quotes for the estimate's regulation, newest first
+ */
+export async function GET(
+  request: NextRequest,
+  props: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  const params = await props.params;
+  try {
+    const { costEstimate, error } = await findOwnedEstimate(params.id);
+    if (error) return error;
+
+    const quotes = await listVendorQuotes(
+      costEstimate.customerId,
+      costEstimate.regulationVersion.regulationId
+    );
+
+    return NextResponse.json({ quotes }, { status: 200 });
+  } catch (error) {
+    console.error('[VendorQuotes] Error listing quotes:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch vendor quotes' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/cost-estimates/[id]/quotes
+ * Save a quote for one of the estimate's drivers; the driver must belong to
+ * the estimate
+ */
+export async function POST(
+  request: NextRequest,
+  props: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  const params = await props.params;
+  try {
+    // Parse and validate request body
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid JSON in request body' },
+        { status: 400 }
+      );
+    }
+
+    const validationResult = vendorQuoteSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid request parameters', details: validationResult.error },
+        { status: 400 }
+      );
+    }
+
+    const { costEstimate, email, error } = await findOwnedEstimate(params.id);
+    if (error) return error;
+
+    const { driverId, ...quote } = validationResult.data;
+    const driver = parseStoredCostDrivers(costEstimate.costDriversJson).find(
+      (candidate) => candidate.id === driverId
+    );
+    if (!driver) {
+      return NextResponse.json(
+        { error: `Unknown cost driver: ${driverId}` },
+        { status: 400 }
+      );
+    }
+
+    const created = await createVendorQuote(
+      costEstimate.customerId,
+      costEstimate.regulationVersion.regulationId,
+      {
+        ...quote,
+        driverCategory: driver.category,
+        driverDescription: driver.description,
+      },
+      email
+    );
+
+    return NextResponse.json(created, { status: 201 });
+  } catch (error) {
+    console.error('[VendorQuotes] Error creating quote:', error);
+    return NextResponse.json(
+      { error: 'Failed to save vendor quote' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,153 @@
+/**
+ * Custom Scenario API Endpoint
+ * PATCH: Update a custom scenario
+ * DELETE: Delete a custom scenario
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import prisma from '@/lib/prisma';
+import { auth } from '@/auth.config';
+import {
+  MAX_DELAY_MONTHS,
+  deleteCustomScenario,
+  findUnknownDriverIds,
+  parseStoredCostDrivers,
+  updateCustomScenario,
+} from '@/lib/cost-estimator';
+
+// Request validation schema
+const customScenarioUpdateSchema = z.object({
+  name: z.string().trim().min(1).max(100).optional(),
+  description: z.string().max(1000).nullable().optional(),
+  excludedDriverIds: z.array(z.string().min(1)).optional(),
+  driverCostOverrides: z.record(z.string(), z.number().nonnegative()).optional(),
+  delayMonths: z.number().int().min(0).max(MAX_DELAY_MONTHS).optional(),
+  sourcing: z.enum(['IN_HOUSE', 'VENDOR']).optional(),
+});
+
+/**
+ * Load a custom scenario of the given estimate owned by the signed-in customer
+ * @returns The scenario with its estimate's drivers, or an error response
+ */
+async function findOwnedScenario(costEstimateId: string, scenarioId: string) {
+  const session = await auth();
+  if (!session?.user?.email) {
+    return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) };
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { email: session.user.email },
+  });
+
+  if (!user?.customerId) {
+    return {
+      error: NextResponse.json(
+        { error: 'User not associated with a customer' },
+        { status: 403 }
+      ),
+    };
+  }
+
+  const scenario = await prisma.customScenario.findUnique({
+    where: { id: scenarioId },
+    include: { costEstimate: { select: { customerId: true, costDriversJson: true } } },
+  });
+
+  if (!scenario || scenario.costEstimateId !== costEstimateId) {
+    return {
+      error: NextResponse.json({ error: 'Custom scenario not found' }, { status: 404 }),
+    };
+  }
+
+  if (scenario.costEstimate.customerId !== user.customerId) {
+    return {
+      error: NextResponse.json(
+        { error: 'Access denied to this cost estimate' },
+        { status: 403 }
+      ),
+    };
+  }
+
+  return { scenario };
+}
+
+/**
+ * PATCH /api/cost-estimates/[id]/scenarios/[scenarioId]
+ * Update a custom scenario
+ */
+export async function PATCH(
+  request: NextRequest,
+  props: { params: Promise<{ id: string; scenarioId: string }> }
+): Promise<NextResponse> {
+  const params = await props.params;
+  try {
+    // Parse and validate request body
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid JSON in request body' },
+        { status: 400 }
+      );
+    }
+
+    const validationResult = customScenarioUpdateSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid request parameters', details: validationResult.error },
+        { status: 400 }
+      );
+    }
+
+    const { scenario, error } = await findOwnedScenario(params.id, params.scenarioId);
+    if (error) return error;
+
+    const unknownDriverIds = findUnknownDriverIds(
+      validationResult.data,
+      parseStoredCostDrivers(scenario.costEstimate.costDriversJson).map((driver) => driver.id)
+    );
+    if (unknownDriverIds.length > 0) {
+      return NextResponse.json(
+        { error: `Unknown cost drivers: ${unknownDriverIds.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const updated = await updateCustomScenario(scenario.id, validationResult.data);
+
+    return NextResponse.json(updated, { status: 200 });
+  } catch (error) {
+    console.error('[CustomScenarios] Error updating scenario:', error);
+    return NextResponse.json(
+      { error: 'Failed to update custom scenario' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/cost-estimates/[id]/scenarios/[scenarioId]
+ * Delete a custom scenario; a selection pointing at it falls back to the recommendation
+ */
+export async function DELETE(
+  request: NextRequest,
+  props: { params: Promise<{ id: string; scenarioId: string }> }
+): Promise<NextResponse> {
+  const params = await props.params;
+  try {
+    const { scenario, error } = await findOwnedScenario(params.id, params.scenarioId);
+    if (error) return error;
+
+    await deleteCustomScenario(scenario.id, scenario.costEstimateId);
+
+    return NextResponse.json({ success: true }, { status: 200 });
+  } catch (error) {
+    console.error('[CustomScenarios] Error deleting scenario:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete custom scenario' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,181 @@
+/**
+ * Custom Scenarios API Endpoint
+ * GET: Custom scenario definitions saved for a cost estimate
+ * POST: Save a new custom scenario
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import prisma from '@/lib/prisma';
+import { auth } from '@/auth.config';
+import {
+  MAX_DELAY_MONTHS,
+  createCustomScenario,
+  findUnknownDriverIds,
+  listCustomScenarios,
+  parseStoredCostDrivers,
+} from '@/lib/cost-estimator';
+
+// Request validation schema
+const customScenarioSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  description: z.string().max(1000).nullable().optional(),
+  excludedDriverIds: z.array(z.string().min(1)).default([]),
+  driverCostOverrides: z.record(z.string(), z.number().nonnegative()).default({}),
+  delayMonths: z.number().int().min(0).max(MAX_DELAY_MONTHS).default(0),
+  sourcing: z.enum(['IN_HOUSE', 'VENDOR']).default('IN_HOUSE'),
+});
+
+/**
+ * GET /api/cost-estimates/[id]/scenarios
+ * List the estimate's custom scenarios
+ */
+export async function GET(
+  request: NextRequest,
+  props: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  const params = await props.params;
+  try {
+    // Authenticate user
+    const session = await auth();
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Fetch user's customer
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+    });
+
+    if (!user?.customerId) {
+      return NextResponse.json(
+        { error: 'User not associated with a customer' },
+        { status: 403 }
+      );
+    }
+
+    // Fetch cost estimate and verify ownership
+    const costEstimate = await prisma.costEstimate.findUnique({
+      where: { id: params.id },
+      select: { customerId: true },
+    });
+
+    if (!costEstimate) {
+      return NextResponse.json(
+        { error: 'Cost estimate not found' },
+        { status: 404 }
+      );
+    }
+
+    if (costEstimate.customerId !== user.customerId) {
+      return NextResponse.json(
+        { error: 'Access denied to this cost estimate' },
+        { status: 403 }
+      );
+    }
+
+    const scenarios = await listCustomScenarios(params.id);
+
+    return NextResponse.json({ scenarios }, { status: 200 });
+  } catch (error) {
+    console.error('[CustomScenarios] Error listing scenarios:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch custom scenarios' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/cost-estimates/[id]/scenarios
+ * Save a custom scenario; driver IDs must belong to the estimate
+ */
+export async function POST(
+  request: NextRequest,
+  props: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  const params = await props.params;
+  try {
+    // Authenticate user
+    const session = await auth();
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Parse and validate request body
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid JSON in request body' },
+        { status: 400 }
+      );
+    }
+
+    const validationResult = customScenarioSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid request parameters', details: validationResult.error },
+        { status: 400 }
+      );
+    }
+
+    // Fetch user's customer
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+    });
+
+    if (!user?.customerId) {
+      return NextResponse.json(
+        { error: 'User not associated with a customer' },
+        { status: 403 }
+      );
+    }
+
+    // Fetch cost estimate and verify ownership
+    const costEstimate = await prisma.costEstimate.findUnique({
+      where: { id: params.id },
+      select: { customerId: true, costDriversJson: true },
+    });
+
+    if (!costEstimate) {
+      return NextResponse.json(
+        { error: 'Cost estimate not found' },
+        { status: 404 }
+      );
+    }
+
+    if (costEstimate.customerId !== user.customerId) {
+      return NextResponse.json(
+        { error: 'Access denied to this cost estimate' },
+        { status: 403 }
+      );
+    }
+
+    const unknownDriverIds = findUnknownDriverIds(
+      validationResult.data,
+      parseStoredCostDrivers(costEstimate.costDriversJson).map((driver) => driver.id)
+    );
+    if (unknownDriverIds.length > 0) {
+      return NextResponse.json(
+        { error: `Unknown cost drivers: ${unknownDriverIds.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const scenario = await createCustomScenario(
+      params.id,
+      validationResult.data,
+      session.user.email
+    );
+
+    return NextResponse.json(scenario, { status: 201 });
+  } catch (error) {
+    console.error('[CustomScenarios] Error creating scenario:', error);
+    return NextResponse.json(
+      { error: 'Failed to save custom scenario' },
+      { status: 500 }
+    );
+  }
+}
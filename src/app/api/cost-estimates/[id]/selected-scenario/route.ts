@@ -0,0 +1,106 @@
+/**
+ * Selected Scenario API Endpoint
+ * PUT: Choose the plan the board report presents as recommended
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import prisma from '@/lib/prisma';
+import { auth } from '@/auth.config';
+import { customScenarioKey, isScenarioKey, selectScenario } from '@/lib/cost-estimator';
+
+// Request validation schema (null restores the automatic recommendation)
+const selectedScenarioSchema = z.object({
+  scenario: z.string().refine(isScenarioKey, 'Unknown scenario').nullable(),
+});
+
+/**
+ * PUT /api/cost-estimates/[id]/selected-scenario
+ * Select a built-in or custom scenario of this estimate
+ */
+export async function PUT(
+  request: NextRequest,
+  props: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  const params = await props.params;
+  try {
+    // Authenticate user
+    const session = await auth();
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Parse and validate request body
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid JSON in request body' },
+        { status: 400 }
+      );
+    }
+
+    const validationResult = selectedScenarioSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid request parameters', details: validationResult.error },
+        { status: 400 }
+      );
+    }
+
+    // Fetch user's customer
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+    });
+
+    if (!user?.customerId) {
+      return NextResponse.json(
+        { error: 'User not associated with a customer' },
+        { status: 403 }
+      );
+    }
+
+    // Fetch cost estimate and verify ownership
+    const costEstimate = await prisma.costEstimate.findUnique({
+      where: { id: params.id },
+      select: { customerId: true, customScenarios: { select: { id: true } } },
+    });
+
+    if (!costEstimate) {
+      return NextResponse.json(
+        { error: 'Cost estimate not found' },
+        { status: 404 }
+      );
+    }
+
+    if (costEstimate.customerId !== user.customerId) {
+      return NextResponse.json(
+        { error: 'Access denied to this cost estimate' },
+        { status: 403 }
+      );
+    }
+
+    // Custom scenarios must belong to this estimate
+    const scenario = validationResult.data.scenario;
+    if (
+      scenario?.startsWith('custom:') &&
+      !costEstimate.customScenarios.some((custom) => customScenarioKey(custom.id) === scenario)
+    ) {
+      return NextResponse.json(
+        { error: 'Custom scenario not found' },
+        { status: 404 }
+      );
+    }
+
+    await selectScenario(params.id, scenario && isScenarioKey(scenario) ? scenario : null);
+
+    return NextResponse.json({ selectedScenario: scenario }, { status: 200 });
+  } catch (error) {
+    console.error('[SelectedScenario] Error selecting scenario:', error);
+    return NextResponse.json(
+      { error: 'Failed to select scenario' },
+      { status: 500 }
+    );
+  }
+}
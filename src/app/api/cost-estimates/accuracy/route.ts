@@ -0,0 +1,50 @@
+/**
+ * Estimate Accuracy API Endpoint
+ * GET: Accuracy of the customer's estimates against recorded actual costs
+ */
+
+import { NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { auth } from '@/auth.config';
+import { calculateEstimateAccuracy, getAccuracySamples } from '@/lib/cost-estimator';
+import { getFiscalCalendar } from '@/lib/customers/financial-settings';
+
+/**
+ * GET /api/cost-estimates/accuracy
+ * MAPE, bias and band coverage overall, by fiscal quarter and by category,
+ * department, estimation method, industry and jurisdiction
+ */
+export async function GET(): Promise<NextResponse> {
+  try {
+    // Authenticate user
+    const session = await auth();
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Fetch user's customer
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+    });
+
+    if (!user?.customerId) {
+      return NextResponse.json(
+        { error: 'User not associated with a customer' },
+        { status: 403 }
+      );
+    }
+
+    const [samples, calendar] = await Promise.all([
+      getAccuracySamples(user.customerId),
+      getFiscalCalendar(user.customerId),
+    ]);
+
+    return NextResponse.json(calculateEstimateAccuracy(samples, calendar), { status: 200 });
+  } catch (error) {
+    console.error('[EstimateAccuracy] Error calculating estimate accuracy:', error);
+    return NextResponse.json(
+      { error: 'Failed to calculate estimate accuracy' },
+      { status: 500 }
+    );
+  }
+}
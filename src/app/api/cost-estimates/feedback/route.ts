@@ -0,0 +1,114 @@
+/**
+ * Cost Feedback History API Endpoint
+ * GET: Recorded actual-cost feedback for the customer, with variance summary
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import prisma from '@/lib/prisma';
+import { auth } from '@/auth.config';
+
+const historyQuerySchema = z.object({
+  regulationType: z.string().min(1).optional(),
+  costEstimateId: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+/**
+ * GET /api/cost-estimates/feedback
+ * List feedback history, optionally filtered by regulation type or estimate
+ */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  try {
+    // Authenticate user
+    const session = await auth();
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const validationResult = historyQuerySchema.safeParse({
+      regulationType: searchParams.get('regulationType') ?? undefined,
+      costEstimateId: searchParams.get('costEstimateId') ?? undefined,
+      limit: searchParams.get('limit') ?? undefined,
+    });
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid query parameters', details: validationResult.error },
+        { status: 400 }
+      );
+    }
+
+    // Fetch user's customer
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+    });
+
+    if (!user?.customerId) {
+      return NextResponse.json(
+        { error: 'User not associated with a customer' },
+        { status: 403 }
+      );
+    }
+
+    const { regulationType, costEstimateId, limit } = validationResult.data;
+
+    const feedback = await prisma.costFeedback.findMany({
+      where: {
+        customerId: user.customerId,
+        ...(regulationType ? { regulationType } : {}),
+        ...(costEstimateId ? { costEstimateId } : {}),
+      },
+      include: {
+        costEstimate: {
+          select: {
+            regulationVersion: {
+              select: {
+                id: true,
+                regulation: { select: { id: true, title: true } },
+              },
+            },
+          },
+        },
+      },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    });
+
+    // Summarize per regulation category
+    const byCategory = new Map<string, { count: number; varianceSum: number }>();
+    for (const entry of feedback) {
+      const bucket = byCategory.get(entry.regulationType) || { count: 0, varianceSum: 0 };
+      bucket.count++;
+      bucket.varianceSum += entry.oneTimeVariance;
+      byCategory.set(entry.regulationType, bucket);
+    }
+
+    const averageVariance =
+      feedback.length > 0
+        ? feedback.reduce((sum, entry) => sum + entry.oneTimeVariance, 0) / feedback.length
+        : 0;
+
+    return NextResponse.json(
+      {
+        feedback,
+        summary: {
+          count: feedback.length,
+          averageOneTimeVariance: averageVariance,
+          categories: Array.from(byCategory.entries()).map(([category, bucket]) => ({
+            regulationType: category,
+            count: bucket.count,
+            averageOneTimeVariance: bucket.varianceSum / bucket.count,
+          })),
+        },
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('[CostFeedback] Error fetching feedback history:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch feedback history' },
+      { status: 500 }
+    );
+  }
+}
@@ -37,8 +37,14 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
     const endDate = searchParams.get('endDate');
 
     // Build where clause
-    const whereClause: { customerId: string; createdAt?: { gte?: Date; lte?: Date } } = {
+    // Current revisions only; history is available per regulation
+    const whereClause: {
+      customerId: string;
+      supersededAt: null;
+      createdAt?: { gte?: Date; lte?: Date };
+    } = {
       customerId: user.customerId,
+      supersededAt: null,
     };
 
     if (startDate || endDate) {
@@ -0,0 +1,132 @@
+/**
+ * Cost Indices API Endpoint
+ * GET: Inflation, wage-growth and regional labor indices with the default rates
+ * PUT: Replace the stored indices (admin only)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { auth } from '@/auth.config';
+import {
+  DEFAULT_INFLATION_RATE,
+  DEFAULT_WAGE_GROWTH_RATE,
+  listCostIndices,
+  replaceCostIndices,
+} from '@/lib/cost-estimator';
+
+// Request validation schema
+const costIndicesSchema = z.object({
+  escalation: z
+    .array(
+      z.object({
+        kind: z.enum(['INFLATION', 'WAGE_GROWTH']),
+        year: z.number().int().min(2000).max(2100),
+        rate: z.number().min(-0.2).max(0.5),
+        source: z.string().trim().min(1).nullable().optional(),
+      })
+    )
+    .refine(
+      (indices) => new Set(indices.map((index) => `${index.kind}:${index.year}`)).size === indices.length,
+      'Only one rate per kind and year'
+    ),
+  regional: z
+    .array(
+      z.object({
+        jurisdictionCode: z.string().trim().min(1),
+        laborCostIndex: z.number().positive().max(5),
+        effectiveYear: z.number().int().min(2000).max(2100),
+        source: z.string().trim().min(1).nullable().optional(),
+      })
+    )
+    .refine(
+      (indices) =>
+        new Set(indices.map((index) => index.jurisdictionCode.toUpperCase())).size ===
+        indices.length,
+      'Only one index per jurisdiction'
+    ),
+});
+
+/**
+ * GET /api/cost-indices
+ * Stored indices; years and jurisdictions without one use the defaults
+ */
+export async function GET(): Promise<NextResponse> {
+  try {
+    // Authenticate user
+    const session = await auth();
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const indices = await listCostIndices();
+
+    return NextResponse.json(
+      {
+        ...indices,
+        defaults: {
+          inflationRate: DEFAULT_INFLATION_RATE,
+          wageGrowthRate: DEFAULT_WAGE_GROWTH_RATE,
+          laborCostIndex: 1,
+        },
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('[CostIndices] Error fetching cost indices:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch cost indices' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/cost-indices
+ * Replace every stored index; existing estimates become stale
+ */
+export async function PUT(request: NextRequest): Promise<NextResponse> {
+  try {
+    // Authenticate user
+    const session = await auth();
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Indices apply to every customer's estimates, so restrict to admins
+    if (session.user.role !== 'ADMIN') {
+      return NextResponse.json(
+        { error: 'Only administrators can edit cost indices' },
+        { status: 403 }
+      );
+    }
+
+    // Parse and validate request body
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid JSON in request body' },
+        { status: 400 }
+      );
+    }
+
+    const validationResult = costIndicesSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid request parameters', details: validationResult.error },
+        { status: 400 }
+      );
+    }
+
+    const indices = await replaceCostIndices(validationResult.data);
+
+    return NextResponse.json(indices, { status: 200 });
+  } catch (error) {
+    console.error('[CostIndices] Error saving cost indices:', error);
+    return NextResponse.json(
+      { error: 'Failed to save cost indices' },
+      { status: 500 }
+    );
+  }
+}
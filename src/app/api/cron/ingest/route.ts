@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { pollRegulationSources } from '@/lib/connectors'
+
+/**
+ * Cron endpoint for daily regulation source polling
+ * Polls every enabled RegulationSource and ingests new versions
+ * Optional ?jurisdiction=CA,NY limits the run to those jurisdictions
+ *
+ * Vercel Cron Header: 'X-Vercel-Cron-Secret' must match CRON_SECRET env var
+ * External Service: Can POST with ?secret=CRON_SECRET
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Validate cron secret
+    const vercelSecret = request.headers.get('x-vercel-cron-secret')
+    const searchParams = new URL(request.url).searchParams
+    const searchSecret = searchParams.get('secret')
+    const cronSecret = process.env.CRON_SECRET || 'dev-secret-change-in-production'
+
+    if (vercelSecret !== cronSecret && searchSecret !== cronSecret) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const result = await pollRegulationSources(parseJurisdictions(searchParams))
+
+    return NextResponse.json(
+      {
+        success: true,
+        timestamp: new Date().toISOString(),
+        ...result
+      },
+      { status: 200 }
+    )
+  } catch (error) {
+    console.error('[Cron Ingestion Error]', error)
+    return NextResponse.json(
+      { error: 'Regulation ingestion failed', message: String(error) },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * GET endpoint for testing cron
+ * Should only be accessible with cron secret
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = new URL(request.url).searchParams
+    const searchSecret = searchParams.get('secret')
+    const cronSecret = process.env.CRON_SECRET || 'dev-secret-change-in-production'
+
+    if (searchSecret !== cronSecret) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const result = await pollRegulationSources(parseJurisdictions(searchParams))
+
+    return NextResponse.json(
+      {
+        success: true,
+        timestamp: new Date().toISOString(),
+        ...result,
+        message: 'Test successful. In production, this should only be called by cron.'
+      },
+      { status: 200 }
+    )
+  } catch (error) {
+    console.error('[Cron Ingestion Error]', error)
+    return NextResponse.json(
+      { error: 'Regulation ingestion failed', message: String(error) },
+      { status: 500 }
+    )
+  }
+}
+
+function parseJurisdictions(searchParams: URLSearchParams): string[] | undefined {
+  const value = searchParams.get('jurisdiction')
+  if (!value) return undefined
+  return value.split(',').map(code => code.trim().toUpperCase()).filter(Boolean)
+}
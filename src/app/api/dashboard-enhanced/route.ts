@@ -2,6 +2,8 @@ import { NextResponse } from 'next/server'
 import { auth } from '@/auth.config'
 import { calculateComplianceHealthScore } from '@/lib/metrics/compliance-score'
 import { prisma } from '@/lib/prisma'
+import { convertAmount, listFxRates, toCurrencyCode } from '@/lib/cost-estimator'
+import { getFinancialSettings } from '@/lib/customers/financial-settings'
 
 export async function GET() {
   const session = await auth()
@@ -20,7 +22,7 @@ export async function GET() {
 
     // Cost waterfall data
     const costEstimates = await prisma.costEstimate.findMany({
-      where: { customerId },
+      where: { customerId, supersededAt: null },
       include: { 
         regulationVersion: { 
           include: { 
@@ -32,17 +34,28 @@ export async function GET() {
       take: 10
     })
 
-    const totalExposure = costEstimates.reduce((sum, e) => sum + e.oneTimeCostHigh + e.recurringCostAnnual, 0)
+    // Amounts in the reporting currency at today's rate
+    const { reportingCurrency } = await getFinancialSettings(customerId)
+    const fxRates = await listFxRates()
+    const now = new Date()
+    const toReporting = (amount: number, currency: string) =>
+      Math.round(convertAmount(amount, toCurrencyCode(currency), reportingCurrency, fxRates, now))
+
+    const totalExposure = costEstimates.reduce(
+      (sum, e) => sum + toReporting(e.oneTimeCostHigh + e.recurringCostAnnual, e.currency),
+      0
+    )
 
     const waterfall = {
       starting: totalExposure,
       additions: costEstimates.slice(0, 5).map(e => ({
         name: e.regulationVersion.regulation.title,
-        value: e.oneTimeCostHigh,
+        value: toReporting(e.oneTimeCostHigh, e.currency),
         regulationId: e.regulationVersion.regulationId
       })),
       reductions: [],  // Implement when tracking completed regulations
-      ending: totalExposure
+      ending: totalExposure,
+      currency: reportingCurrency
     }
 
     // Timeline regulations
@@ -86,7 +99,12 @@ export async function GET() {
         id: d.regulationVersion.regulationId,
         title: d.regulationVersion.regulation.title,
         deadline: d.deadlineDate.toISOString(),  // Convert to ISO string for JSON serialization
-        cost: d.regulationVersion.costEstimates[0]?.oneTimeCostHigh || 0,
+        cost: d.regulationVersion.costEstimates[0]
+          ? toReporting(
+              d.regulationVersion.costEstimates[0].oneTimeCostHigh,
+              d.regulationVersion.costEstimates[0].currency
+            )
+          : 0,
         riskLevel: d.riskLevel || 'ROUTINE',
         department: 'Legal',  // Derive from cost estimate department breakdown when available
         jurisdiction: d.regulationVersion.regulation.jurisdiction.code
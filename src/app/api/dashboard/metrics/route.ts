@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { auth } from '@/auth.config'
 import { calculateHealthScore, computeHealthScore, calculateHealthScoreTrend } from '@/lib/dashboard/metrics'
 import { prisma } from '@/lib/prisma'
+import { convertAmount, listFxRates, toCurrencyCode } from '@/lib/cost-estimator'
 
 /**
  * GET /api/dashboard/metrics
@@ -38,8 +39,9 @@ export async function GET(request: NextRequest) {
 
     // Get cost exposure data
     const costEstimates = await prisma.costEstimate.findMany({
-      where: { customerId },
+      where: { customerId, supersededAt: null },
       select: {
+        currency: true,
         oneTimeCostHigh: true,
         recurringCostAnnual: true,
         createdAt: true,
@@ -47,9 +49,23 @@ export async function GET(request: NextRequest) {
       }
     })
 
-    const totalCostExposure = costEstimates.reduce(
-      (sum, e) => sum + e.oneTimeCostHigh + e.recurringCostAnnual * 3,
-      0
+    // Exposure in the customer's reporting currency at today's rate
+    const currency = toCurrencyCode(customer?.reportingCurrency)
+    const fxRates = await listFxRates()
+    const now = new Date()
+    const totalCostExposure = Math.round(
+      costEstimates.reduce(
+        (sum, e) =>
+          sum +
+          convertAmount(
+            e.oneTimeCostHigh + e.recurringCostAnnual * 3,
+            toCurrencyCode(e.currency),
+            currency,
+            fxRates,
+            now
+          ),
+        0
+      )
     )
 
     // Calculate cost trend (mock - compare to 30 days ago)
@@ -101,6 +117,7 @@ export async function GET(request: NextRequest) {
       healthScore,
       healthTrend: Math.round(healthTrend * 10) / 10,
       totalCostExposure,
+      currency,
       costTrend: Math.round(costTrend * 10) / 10,
       regulationCount,
       upcomingDeadlines,
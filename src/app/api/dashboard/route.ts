@@ -32,8 +32,9 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
     // Note: Add customer-based filtering when jurisdiction monitoring is implemented in schema
     const [regulationCount, policyDiffCount, recentDiffs] = await Promise.all([
       prisma.regulation.count(),
-      prisma.policyDiff.count(),
+      prisma.policyDiff.count({ where: { sequential: true } }),
       prisma.policyDiff.findMany({
+        where: { sequential: true },
         take: 5,
         orderBy: { createdAt: 'desc' },
         include: {
@@ -0,0 +1,134 @@
+/**
+ * Financial Settings API Endpoint
+ * GET: Discount rate and scenario horizon used for cash flows and NPV, the
+ *      fiscal calendar analytics and reports are bucketed by, and the
+ *      currency they are reported in
+ * PUT: Update them
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import prisma from '@/lib/prisma';
+import { auth } from '@/auth.config';
+import {
+  getFinancialSettings,
+  saveFinancialSettings,
+} from '@/lib/customers/financial-settings';
+import { BASE_CURRENCY, SUPPORTED_CURRENCIES } from '@/lib/cost-estimator/currency';
+import { listFxRates } from '@/lib/cost-estimator/fx-rates';
+import type { CurrencyCode } from '@/types/cost-estimate';
+
+// Request validation schema
+const financialSettingsSchema = z.object({
+  discountRate: z.number().min(0).max(0.5),
+  scenarioHorizonYears: z.number().int().min(1).max(10),
+  fiscalCalendar: z.object({
+    startMonth: z.number().int().min(1).max(12),
+    pattern: z.enum(['CALENDAR_MONTHS', 'WEEKS_445']),
+  }),
+  reportingCurrency: z.enum(SUPPORTED_CURRENCIES as [CurrencyCode, ...CurrencyCode[]]),
+});
+
+/**
+ * GET /api/financial-settings
+ * Return the customer's financial settings
+ */
+export async function GET(): Promise<NextResponse> {
+  try {
+    // Authenticate user
+    const session = await auth();
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Fetch user's customer
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+    });
+
+    if (!user?.customerId) {
+      return NextResponse.json(
+        { error: 'User not associated with a customer' },
+        { status: 403 }
+      );
+    }
+
+    const settings = await getFinancialSettings(user.customerId);
+
+    return NextResponse.json(settings, { status: 200 });
+  } catch (error) {
+    console.error('[FinancialSettings] Error fetching settings:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch financial settings' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/financial-settings
+ * Update the discount rate, horizon, fiscal calendar and reporting currency;
+ * scenarios and analytics pick them up on next load. A reporting currency
+ * needs a stored FX rate, since portfolio totals are converted into it
+ */
+export async function PUT(request: NextRequest): Promise<NextResponse> {
+  try {
+    // Authenticate user
+    const session = await auth();
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Parse and validate request body
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid JSON in request body' },
+        { status: 400 }
+      );
+    }
+
+    const validationResult = financialSettingsSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid request parameters', details: validationResult.error },
+        { status: 400 }
+      );
+    }
+
+    const { reportingCurrency } = validationResult.data;
+    if (
+      reportingCurrency !== BASE_CURRENCY &&
+      !(await listFxRates()).some((rate) => rate.currency === reportingCurrency)
+    ) {
+      return NextResponse.json(
+        { error: `No FX rate stored for ${reportingCurrency}` },
+        { status: 400 }
+      );
+    }
+
+    // Fetch user's customer
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+    });
+
+    if (!user?.customerId) {
+      return NextResponse.json(
+        { error: 'User not associated with a customer' },
+        { status: 403 }
+      );
+    }
+
+    const settings = await saveFinancialSettings(user.customerId, validationResult.data);
+
+    return NextResponse.json(settings, { status: 200 });
+  } catch (error) {
+    console.error('[FinancialSettings] Error saving settings:', error);
+    return NextResponse.json(
+      { error: 'Failed to save financial settings' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,115 @@
+/**
+ * FX Rates API Endpoint
+ * GET: Locally maintained FX rates (USD per unit) with their effective dates
+ * PUT: Replace the stored rates (admin only)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { auth } from '@/auth.config';
+import {
+  BASE_CURRENCY,
+  SUPPORTED_CURRENCIES,
+  listFxRates,
+  replaceFxRates,
+} from '@/lib/cost-estimator';
+import type { CurrencyCode } from '@/types/cost-estimate';
+
+// Request validation schema
+const fxRatesSchema = z.object({
+  rates: z
+    .array(
+      z.object({
+        currency: z
+          .enum(SUPPORTED_CURRENCIES as [CurrencyCode, ...CurrencyCode[]])
+          .refine((currency) => currency !== BASE_CURRENCY, 'USD is the base currency'),
+        rateToUsd: z.number().positive().max(1000),
+        effectiveDate: z.coerce.date(),
+        source: z.string().trim().min(1).nullable().optional(),
+      })
+    )
+    .refine(
+      (rates) =>
+        new Set(rates.map((rate) => `${rate.currency}:${rate.effectiveDate.toISOString()}`))
+          .size === rates.length,
+      'Only one rate per currency and effective date'
+    ),
+});
+
+/**
+ * GET /api/fx-rates
+ * Stored rates; conversions use the latest rate effective on the date
+ */
+export async function GET(): Promise<NextResponse> {
+  try {
+    // Authenticate user
+    const session = await auth();
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const rates = await listFxRates();
+
+    return NextResponse.json(
+      { baseCurrency: BASE_CURRENCY, currencies: SUPPORTED_CURRENCIES, rates },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('[FxRates] Error fetching FX rates:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch FX rates' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/fx-rates
+ * Replace every stored rate; portfolio totals pick them up on next load
+ */
+export async function PUT(request: NextRequest): Promise<NextResponse> {
+  try {
+    // Authenticate user
+    const session = await auth();
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Rates apply to every customer's reports, so restrict to admins
+    if (session.user.role !== 'ADMIN') {
+      return NextResponse.json(
+        { error: 'Only administrators can edit FX rates' },
+        { status: 403 }
+      );
+    }
+
+    // Parse and validate request body
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid JSON in request body' },
+        { status: 400 }
+      );
+    }
+
+    const validationResult = fxRatesSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid request parameters', details: validationResult.error },
+        { status: 400 }
+      );
+    }
+
+    const rates = await replaceFxRates(validationResult.data.rates);
+
+    return NextResponse.json({ rates }, { status: 200 });
+  } catch (error) {
+    console.error('[FxRates] Error saving FX rates:', error);
+    return NextResponse.json(
+      { error: 'Failed to save FX rates' },
+      { status: 500 }
+    );
+  }
+}
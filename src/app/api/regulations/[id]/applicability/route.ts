@@ -0,0 +1,81 @@
+/**
+ * Regulation Applicability API Endpoint
+ * GET: Whether a regulation applies to the user's customer, why, and how confidently
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { auth } from '@/auth.config';
+import { evaluateApplicability } from '@/lib/regulations/applicability';
+
+/**
+ * GET /api/regulations/[id]/applicability
+ * Evaluate the regulation against the customer's industry, size and jurisdictions
+ */
+export async function GET(
+  request: NextRequest,
+  props: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  const params = await props.params;
+  try {
+    // Authenticate user
+    const session = await auth();
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Fetch user's customer
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+      include: { customer: true },
+    });
+
+    if (!user?.customer) {
+      return NextResponse.json(
+        { error: 'User not associated with a customer' },
+        { status: 403 }
+      );
+    }
+
+    const regulation = await prisma.regulation.findUnique({
+      where: { id: params.id },
+      select: {
+        id: true,
+        title: true,
+        jurisdiction: { select: { code: true, name: true, type: true } },
+        versions: {
+          select: { contentText: true },
+          orderBy: { versionNumber: 'desc' },
+          take: 1,
+        },
+      },
+    });
+
+    if (!regulation) {
+      return NextResponse.json(
+        { error: 'Regulation not found' },
+        { status: 404 }
+      );
+    }
+
+    const result = evaluateApplicability(
+      {
+        id: regulation.id,
+        jurisdiction: regulation.jurisdiction,
+        contentText: regulation.versions[0]?.contentText ?? null,
+      },
+      user.customer
+    );
+
+    return NextResponse.json(
+      { ...result, regulationTitle: regulation.title },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('[Applicability] Error evaluating applicability:', error);
+    return NextResponse.json(
+      { error: 'Failed to evaluate applicability' },
+      { status: 500 }
+    );
+  }
+}
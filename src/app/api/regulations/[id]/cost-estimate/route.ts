@@ -1,7 +1,10 @@
 /**
  * Cost Estimate API Endpoint
- * POST: Generate cost estimate for regulation
- * GET: Retrieve existing cost estimate
+ * POST: Generate cost estimate for regulation (new revision when inputs changed)
+ * GET: Retrieve current cost estimate, or ?revision=N, with revision history
+ * Both return the built-in and custom scenarios with quarterly cash flows and NPV,
+ * delays priced with the regulation's penalty schedule
+ * Drivers with a selected, unexpired vendor quote are priced at the quote
  */
 
 import { NextRequest, NextResponse } from 'next/server';
@@ -13,18 +16,72 @@ import {
   calculateImplementationCost,
   generateScenarios,
   applyLearningFeedback,
+  getLearningHistory,
+  getActiveBenchmarks,
+  getBenchmarkLibraryVersion,
+  getCostIndices,
+  getCostIndexVersion,
+  buildEscalationSchedule,
+  recurringLaborShare,
+  parseStoredCostDrivers,
+  attachScenarioCashFlows,
+  buildCustomScenario,
+  listCustomScenarios,
+  buildEstimateInputs,
+  detectRevisionReasons,
+  diffEstimateRevisions,
+  getCurrentEstimate,
+  listEstimateRevisions,
+  createEstimateRevision,
+  EstimateRevisionConflictError,
+  BASE_CURRENCY,
+  SUPPORTED_CURRENCIES,
+  MissingFxRateError,
+  toCurrencyCode,
+  convertAmount,
+  convertDrivers,
+  convertDepartmentBreakdown,
+  convertPenaltyExposure,
+  listFxRates,
+  listVendorQuotes,
+  vendorQuoteVersion,
+  applyVendorQuotes,
 } from '@/lib/cost-estimator';
-import { Industry, TechMaturity, RiskLevel } from '@/types/cost-estimate';
+import { subscribeToRegulation } from '@/lib/regulations/subscriptions';
+import { getPenaltySchedule } from '@/lib/regulations/penalties';
+import { calculatePenaltyExposure } from '@/lib/regulations/penalty-exposure';
+import { resolveCompanyProfile } from '@/lib/customers/company-profile';
+import { getFinancialSettings } from '@/lib/customers/financial-settings';
+import { getDepartmentBudgets } from '@/lib/budgets/budgets';
+import { assignBudgetCodes } from '@/lib/budgets/budget-summary';
+import { fiscalYearOf } from '@/lib/utils/fiscal-calendar';
+import {
+  Industry,
+  TechMaturity,
+  RiskLevel,
+  type CompanyProfile,
+  type CurrencyCode,
+  type FinancialSettings,
+  type ScenarioAnalysis,
+} from '@/types/cost-estimate';
 
 // Request validation schema
 const costEstimateRequestSchema = z.object({
   useAI: z.boolean().optional().default(false),
+  // Re-estimate even when no input changed
+  force: z.boolean().optional().default(false),
+  // Cash-flow horizon for this response; defaults to the customer's setting
+  horizonYears: z.number().int().min(1).max(10).optional(),
+  // Currency to estimate in; defaults to the current revision's currency,
+  // then the customer's reporting currency
+  currency: z.enum(SUPPORTED_CURRENCIES as [CurrencyCode, ...CurrencyCode[]]).optional(),
   companyProfile: z
     .object({
       industry: z.nativeEnum(Industry).optional(),
       employeeCount: z.number().optional(),
       revenue: z.number().optional(),
       geographicComplexity: z.number().optional(),
+      operatingJurisdictions: z.array(z.string().trim().min(1)).optional(),
       techMaturity: z.nativeEnum(TechMaturity).optional(),
       riskAppetite: z.nativeEnum(RiskLevel).optional(),
     })
@@ -33,6 +90,94 @@ const costEstimateRequestSchema = z.object({
 
 type CostEstimateRequest = z.infer<typeof costEstimateRequestSchema>;
 
+/**
+ * Built-in and custom scenarios for a stored estimate, with quarterly cash
+ * flows anchored to the regulation's effective date and extracted deadlines
+ * and delay penalties from its penalty schedule
+ * @param estimate - Stored estimate
+ * @param profile - Company profile the estimate was computed with
+ * @param regulation - Regulation ID and effective date
+ * @param settings - Discount rate and horizon
+ * @returns Scenario analysis with cash flows
+ */
+async function buildEstimateScenarios(
+  estimate: {
+    id: string;
+    regulationVersionId: string;
+    currency: string;
+    selectedScenario: string | null;
+    oneTimeCostLow: number;
+    oneTimeCostHigh: number;
+    recurringCostAnnual: number;
+    costDriversJson: unknown;
+  },
+  profile: CompanyProfile,
+  regulation: { id: string; effectiveDate: Date | null },
+  settings: FinancialSettings
+): Promise<ScenarioAnalysis> {
+  const now = new Date();
+  // Penalty amounts are in USD; scenarios are priced in the estimate's currency
+  const currency = toCurrencyCode(estimate.currency);
+  const [deadlines, customScenarios, costIndices, penaltySchedule, fxRates] = await Promise.all([
+    prisma.deadline.findMany({
+      where: { regulationVersionId: estimate.regulationVersionId },
+      select: { deadlineDate: true },
+    }),
+    listCustomScenarios(estimate.id),
+    getCostIndices(),
+    getPenaltySchedule(regulation.id),
+    currency === BASE_CURRENCY ? [] : listFxRates(),
+  ]);
+  const drivers = parseStoredCostDrivers(estimate.costDriversJson);
+
+  // Recurring costs escalate with inflation and wage growth over the horizon
+  const escalation = buildEscalationSchedule(
+    costIndices,
+    now.getFullYear(),
+    settings.scenarioHorizonYears,
+    recurringLaborShare(drivers)
+  );
+
+  const baseline = {
+    oneTimeCost: (estimate.oneTimeCostLow + estimate.oneTimeCostHigh) / 2,
+    recurringCostAnnual: estimate.recurringCostAnnual,
+  };
+  const cashFlow = {
+    startDate: now,
+    effectiveDate: regulation.effectiveDate,
+    deadlines: deadlines.map((deadline) => deadline.deadlineDate),
+    horizonYears: settings.scenarioHorizonYears,
+    discountRate: settings.discountRate,
+    escalation,
+    fiscalCalendar: settings.fiscalCalendar,
+  };
+
+  return {
+    ...attachScenarioCashFlows(
+      generateScenarios(
+        baseline,
+        profile,
+        escalation,
+        convertPenaltyExposure(calculatePenaltyExposure(penaltySchedule), currency, fxRates, now),
+        currency
+      ),
+      cashFlow
+    ),
+    custom: customScenarios.map((scenario) =>
+      buildCustomScenario(scenario.id, scenario, baseline, drivers, {
+        indices: costIndices,
+        operatingJurisdictions: profile.operatingJurisdictions,
+        escalation,
+        cashFlow,
+        penaltyTerms: penaltySchedule,
+        currency,
+        fxRates,
+      })
+    ),
+    selected: estimate.selectedScenario as ScenarioAnalysis['selected'],
+  };
+}
+
 /**
  * POST /api/regulations/[id]/cost-estimate
  * Generate a new cost estimate or return cached result
@@ -82,22 +227,6 @@ export async function POST(
 
     const customerId = user.customerId;
 
-    // Check for existing cost estimate (cached)
-    const existingEstimate = await prisma.costEstimate.findFirst({
-      where: {
-        regulationVersionId,
-        customerId,
-      },
-      orderBy: { createdAt: 'desc' },
-    });
-
-    if (existingEstimate) {
-      console.log(
-        `[CostEstimate] Returning cached estimate for regulation ${regulationVersionId}`
-      );
-      return NextResponse.json(existingEstimate, { status: 200 });
-    }
-
     // Fetch regulation version
     const regulationVersion = await prisma.regulationVersion.findUnique({
       where: { id: regulationVersionId },
@@ -115,74 +244,95 @@ export async function POST(
       );
     }
 
-    // Build company profile
-    const companyProfile = {
-      industry: validationResult.data.companyProfile?.industry || Industry.TECHNOLOGY,
-      employeeCount: validationResult.data.companyProfile?.employeeCount || 100,
-      revenue: validationResult.data.companyProfile?.revenue,
-      geographicComplexity:
-        validationResult.data.companyProfile?.geographicComplexity || 1,
-      techMaturity:
-        validationResult.data.companyProfile?.techMaturity || TechMaturity.MEDIUM,
-      riskAppetite:
-        validationResult.data.companyProfile?.riskAppetite || RiskLevel.LOW,
+    // Stored company profile, with any per-request overrides on top
+    const { profile: companyProfile, profileVersionId, profileVersion } =
+      await resolveCompanyProfile(customerId, validationResult.data.companyProfile);
+
+    const existingEstimate = await getCurrentEstimate(
+      customerId,
+      regulationVersion.regulationId
+    );
+    const storedSettings = await getFinancialSettings(customerId);
+    const currency =
+      validationResult.data.currency ??
+      (existingEstimate ? toCurrencyCode(existingEstimate.currency) : storedSettings.reportingCurrency);
+
+    // Reuse the current revision unless an input changed or it expired
+    const now = new Date();
+    const vendorQuotes = await listVendorQuotes(customerId, regulationVersion.regulationId);
+    const inputs = buildEstimateInputs(
+      regulationVersion,
+      companyProfile,
+      await getBenchmarkLibraryVersion(),
+      await getCostIndexVersion(),
+      currency,
+      vendorQuoteVersion(vendorQuotes, now)
+    );
+    const revisionReasons = detectRevisionReasons(existingEstimate, inputs, {
+      force: validationResult.data.force,
+    });
+
+    const financialSettings: FinancialSettings = {
+      ...storedSettings,
+      scenarioHorizonYears:
+        validationResult.data.horizonYears ?? storedSettings.scenarioHorizonYears,
     };
 
+    if (existingEstimate && revisionReasons.length === 0) {
+      console.log(
+        `[CostEstimate] Returning cached estimate for regulation ${regulationVersionId}`
+      );
+      const scenarios = await buildEstimateScenarios(
+        existingEstimate,
+        (existingEstimate.companyProfileJson as CompanyProfile | null) ?? companyProfile,
+        regulationVersion.regulation,
+        financialSettings
+      );
+      return NextResponse.json({ ...existingEstimate, scenarios }, { status: 200 });
+    }
+
     console.log(
-      `[CostEstimate] Generating new estimate for regulation ${regulationVersionId}`
+      `[CostEstimate] Generating revision for regulation ${regulationVersionId}: ${revisionReasons.join(', ')}`
     );
 
-    // Extract cost drivers (AI or deterministic)
-    const costDrivers = await extractCostDrivers(
-      regulationVersion.contentText,
-      regulationVersion.regulation.title
+    // The engine works in USD; quotes and stored amounts are converted at
+    // today's rate
+    const fxRates =
+      currency === BASE_CURRENCY && vendorQuotes.every((quote) => quote.currency === BASE_CURRENCY)
+        ? []
+        : await listFxRates();
+
+    // Extract cost drivers (AI, or deterministic from the benchmark library),
+    // then price quoted drivers at their selected vendor quote
+    const costDrivers = applyVendorQuotes(
+      await extractCostDrivers(
+        regulationVersion.contentText,
+        regulationVersion.regulation.title,
+        await getActiveBenchmarks()
+      ),
+      vendorQuotes,
+      fxRates,
+      now
     );
 
-    // Calculate implementation cost with calibration
-    const baseCost = calculateImplementationCost(costDrivers, companyProfile);
-
-    // Generate scenarios
-    const scenarios = generateScenarios(
-      {
-        oneTimeCost: (baseCost.oneTimeCostLow + baseCost.oneTimeCostHigh) / 2,
-        recurringCostAnnual: baseCost.recurringCostAnnual,
-      },
-      companyProfile
+    // Calculate implementation cost with calibration and regional labor costs
+    const costIndices = await getCostIndices();
+    const baseCost = calculateImplementationCost(costDrivers, companyProfile, costIndices);
+    const departmentBreakdown = assignBudgetCodes(
+      baseCost.departmentBreakdown,
+      await getDepartmentBudgets(
+        customerId,
+        fiscalYearOf(new Date(), storedSettings.fiscalCalendar)
+      )
     );
 
-    // Fetch historical estimates for learning
-    const historicalEstimates = await prisma.costEstimate.findMany({
-      where: {
-        customerId,
-        // Could filter by regulation type or industry for better calibration
-      },
-      take: 20,
-      orderBy: { createdAt: 'desc' },
-    });
 
-    // Derive variances using historical estimate midpoints as proxy data
-    const baseOneTimeMid =
-      (baseCost.oneTimeCostLow + baseCost.oneTimeCostHigh) / 2;
-    const historicalVariances = historicalEstimates
-      .map((estimate) => {
-        const actualMid = (estimate.oneTimeCostLow + estimate.oneTimeCostHigh) / 2;
-        if (!Number.isFinite(actualMid) || baseOneTimeMid === 0) {
-          return null;
-        }
-        const variance = (actualMid - baseOneTimeMid) / baseOneTimeMid;
-        return {
-          estimated: baseOneTimeMid,
-          actual: actualMid,
-          variance,
-        };
-      })
-      .filter(
-        (variance): variance is {
-          estimated: number;
-          actual: number;
-          variance: number;
-        } => Boolean(variance)
-      );
+    // Calibrate against this customer's recorded actuals for the category
+    const learning = await getLearningHistory(
+      customerId,
+      regulationVersion.regulation.regulationType
+    );
+    const historicalVariances = learning.history;
 
     let adjustedCost = { ...baseCost };
     if (historicalVariances.length > 0) {
@@ -199,27 +349,42 @@ export async function POST(
       };
     }
 
-    // Create database record
-    const costEstimate = await prisma.costEstimate.create({
-      data: {
+    const toEstimateCurrency = (amount: number) =>
+      Math.round(convertAmount(amount, BASE_CURRENCY, currency, fxRates, now));
+
+    // Create database record, superseding the previous revision
+    const costEstimate = await createEstimateRevision(
+      existingEstimate,
+      {
         regulationVersionId,
+        regulationId: regulationVersion.regulationId,
         customerId,
-        oneTimeCostLow: adjustedCost.oneTimeCostLow,
-        oneTimeCostHigh: adjustedCost.oneTimeCostHigh,
-        recurringCostAnnual: adjustedCost.recurringCostAnnual,
+        currency,
+        oneTimeCostLow: toEstimateCurrency(adjustedCost.oneTimeCostLow),
+        oneTimeCostHigh: toEstimateCurrency(adjustedCost.oneTimeCostHigh),
+        recurringCostAnnual: toEstimateCurrency(adjustedCost.recurringCostAnnual),
         costDriversJson: {
-          drivers: costDrivers.map((d) => ({
+          drivers: convertDrivers(costDrivers, currency, fxRates, now).map((d) => ({
             id: d.id,
             category: d.category,
             description: d.description,
             isOneTime: d.isOneTime,
             estimatedCost: d.estimatedCost,
+            currency: d.currency,
             confidence: d.confidence,
             department: d.department,
+            ...(d.quoteId ? { quoteId: d.quoteId } : {}),
+            evidence: d.evidence?.map((e) => ({ ...e })),
           })),
         },
         departmentBreakdown: {
-          departments: baseCost.departmentBreakdown.map((d) => ({
+          departments: convertDepartmentBreakdown(
+            departmentBreakdown,
+            BASE_CURRENCY,
+            currency,
+            fxRates,
+            now
+          ).map((d) => ({
             department: d.department,
             oneTimeCost: d.oneTimeCost,
             recurringCostAnnual: d.recurringCostAnnual,
@@ -229,23 +394,63 @@ export async function POST(
         },
         estimationMethod: baseCost.estimationMethod,
         confidence: adjustedCost.confidence,
+        companyProfileVersionId: profileVersionId,
+        companyProfileJson: { ...companyProfile },
+        companyProfileOverridesJson: { ...validationResult.data.companyProfile },
       },
-    });
+      inputs,
+      revisionReasons
+    );
+
+    // Costing a regulation implies watching it
+    await subscribeToRegulation(
+      customerId,
+      regulationVersion.regulationId,
+      'COST_ESTIMATE'
+    );
+
+    // Return full estimate with scenarios and their cash flows
+    const scenarios = await buildEstimateScenarios(
+      costEstimate,
+      companyProfile,
+      regulationVersion.regulation,
+      financialSettings
+    );
 
-    // Return full estimate with scenarios
     const response = {
       ...costEstimate,
       scenarios,
       regulationTitle: regulationVersion.regulation.title,
       jurisdiction: regulationVersion.regulation.jurisdiction.name,
+      companyProfileVersion:
+        profileVersion !== null ? { version: profileVersion } : null,
+      learning: {
+        scope: learning.scope,
+        sampleSize: learning.history.length,
+      },
+      diff: existingEstimate
+        ? diffEstimateRevisions(existingEstimate, costEstimate)
+        : null,
     };
 
     console.log(
-      `[CostEstimate] Created estimate ${costEstimate.id} with ${costDrivers.length} drivers`
+      `[CostEstimate] Created estimate ${costEstimate.id} (revision ${costEstimate.revision}) with ${costDrivers.length} drivers`
     );
 
     return NextResponse.json(response, { status: 201 });
   } catch (error) {
+    if (error instanceof MissingFxRateError) {
+      return NextResponse.json(
+        { error: `No FX rate stored for ${error.currency}` },
+        { status: 400 }
+      );
+    }
+    if (error instanceof EstimateRevisionConflictError) {
+      return NextResponse.json(
+        { error: 'The estimate was revised by another request; reload and try again' },
+        { status: 409 }
+      );
+    }
     console.error('[CostEstimate] Error generating estimate:', error);
     return NextResponse.json(
       { error: 'Failed to generate cost estimate' },
@@ -256,7 +461,8 @@ export async function POST(
 
 /**
  * GET /api/regulations/[id]/cost-estimate
- * Retrieve existing cost estimate
+ * Retrieve the current cost estimate (or ?revision=N) with revision history,
+ * the diff against the preceding revision and why the current one is stale
  */
 export async function GET(
   request: NextRequest,
@@ -272,6 +478,18 @@ export async function GET(
 
     const regulationVersionId = params.id;
 
+    const revisionParam = request.nextUrl.searchParams.get('revision');
+    const requestedRevision = revisionParam !== null ? Number(revisionParam) : null;
+    if (
+      requestedRevision !== null &&
+      (!Number.isInteger(requestedRevision) || requestedRevision < 1)
+    ) {
+      return NextResponse.json(
+        { error: 'revision must be a positive integer' },
+        { status: 400 }
+      );
+    }
+
     // Fetch user's customer
     const user = await prisma.user.findUnique({
       where: { email: session.user.email },
@@ -284,12 +502,31 @@ export async function GET(
       );
     }
 
+    const customerId = user.customerId;
+
+    const regulationVersion = await prisma.regulationVersion.findUnique({
+      where: { id: regulationVersionId },
+      select: { id: true, regulationId: true },
+    });
+
+    if (!regulationVersion) {
+      return NextResponse.json(
+        { error: 'Regulation version not found' },
+        { status: 404 }
+      );
+    }
+
+    const lineage = {
+      customerId,
+      regulationVersion: { regulationId: regulationVersion.regulationId },
+    };
+
     // Fetch cost estimate
     const costEstimate = await prisma.costEstimate.findFirst({
-      where: {
-        regulationVersionId,
-        customerId: user.customerId,
-      },
+      where:
+        requestedRevision !== null
+          ? { ...lineage, revision: requestedRevision }
+          : { ...lineage, supersededAt: null },
       include: {
         regulationVersion: {
           include: {
@@ -298,8 +535,10 @@ export async function GET(
             },
           },
         },
+        companyProfileVersion: { select: { version: true } },
+        previousRevision: true,
       },
-      orderBy: { createdAt: 'desc' },
+      orderBy: { revision: 'desc' },
     });
 
     if (!costEstimate) {
@@ -309,7 +548,64 @@ export async function GET(
       );
     }
 
-    return NextResponse.json(costEstimate, { status: 200 });
+    const { previousRevision, ...estimate } = costEstimate;
+    const revisions = await listEstimateRevisions(
+      customerId,
+      regulationVersion.regulationId
+    );
+
+    // Only the current revision can go stale; it is compared against the
+    // regulation's latest version, which is what a re-estimate should use
+    const latestVersion = await prisma.regulationVersion.findFirst({
+      where: { regulationId: regulationVersion.regulationId },
+      select: { id: true, contentHash: true, contentText: true },
+      orderBy: { versionNumber: 'desc' },
+    });
+
+    let staleReasons: string[] = [];
+    if (estimate.supersededAt === null && latestVersion) {
+      // Re-apply the overrides the estimate was made with, so only changes to
+      // the saved profile make it stale
+      const { profile } = await resolveCompanyProfile(
+        customerId,
+        (estimate.companyProfileOverridesJson as Partial<CompanyProfile> | null) ?? {}
+      );
+      const inputs = buildEstimateInputs(
+        latestVersion,
+        profile,
+        await getBenchmarkLibraryVersion(),
+        await getCostIndexVersion(),
+        toCurrencyCode(estimate.currency),
+        vendorQuoteVersion(
+          await listVendorQuotes(customerId, regulationVersion.regulationId),
+          new Date()
+        )
+      );
+      staleReasons = detectRevisionReasons(estimate, inputs);
+    }
+
+    // Scenarios use the profile the estimate was computed with
+    const scenarios = await buildEstimateScenarios(
+      estimate,
+      (estimate.companyProfileJson as CompanyProfile | null) ??
+        (await resolveCompanyProfile(customerId)).profile,
+      estimate.regulationVersion.regulation,
+      await getFinancialSettings(customerId)
+    );
+
+    return NextResponse.json(
+      {
+        ...estimate,
+        scenarios,
+        revisions,
+        diff: previousRevision
+          ? diffEstimateRevisions(previousRevision, estimate)
+          : null,
+        staleReasons,
+        latestRegulationVersionId: latestVersion?.id ?? regulationVersion.id,
+      },
+      { status: 200 }
+    );
   } catch (error) {
     console.error('[CostEstimate] Error fetching estimate:', error);
     return NextResponse.json(
@@ -0,0 +1,123 @@
+/**
+ * Cost Estimate Sensitivity API Endpoint
+ * GET: One-at-a-time sensitivity and tornado chart of the current cost estimate (or ?revision=N)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import prisma from '@/lib/prisma';
+import { auth } from '@/auth.config';
+import {
+  calculateSensitivityAnalysis,
+  getCostIndices,
+  parseStoredCostDrivers,
+} from '@/lib/cost-estimator';
+import { resolveCompanyProfile } from '@/lib/customers/company-profile';
+import type { CompanyProfile } from '@/types/cost-estimate';
+
+// Query validation schema
+const sensitivityQuerySchema = z.object({
+  revision: z.coerce.number().int().positive().optional(),
+});
+
+/**
+ * GET /api/regulations/[id]/cost-estimate/sensitivity
+ * Vary each profile multiplier and cost driver on its own; bars sorted by swing
+ */
+export async function GET(
+  request: NextRequest,
+  props: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  const params = await props.params;
+  try {
+    // Authenticate user
+    const session = await auth();
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const validationResult = sensitivityQuerySchema.safeParse(
+      Object.fromEntries(request.nextUrl.searchParams)
+    );
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid query parameters', details: validationResult.error },
+        { status: 400 }
+      );
+    }
+
+    // Fetch user's customer
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+    });
+
+    if (!user?.customerId) {
+      return NextResponse.json(
+        { error: 'User not associated with a customer' },
+        { status: 403 }
+      );
+    }
+
+    const regulationVersion = await prisma.regulationVersion.findUnique({
+      where: { id: params.id },
+      select: { regulationId: true },
+    });
+
+    if (!regulationVersion) {
+      return NextResponse.json(
+        { error: 'Regulation version not found' },
+        { status: 404 }
+      );
+    }
+
+    const { revision } = validationResult.data;
+    const lineage = {
+      customerId: user.customerId,
+      regulationVersion: { regulationId: regulationVersion.regulationId },
+    };
+
+    const costEstimate = await prisma.costEstimate.findFirst({
+      where: revision ? { ...lineage, revision } : { ...lineage, supersededAt: null },
+      select: {
+        id: true,
+        revision: true,
+        oneTimeCostLow: true,
+        oneTimeCostHigh: true,
+        recurringCostAnnual: true,
+        costDriversJson: true,
+        companyProfileJson: true,
+      },
+      orderBy: { revision: 'desc' },
+    });
+
+    if (!costEstimate) {
+      return NextResponse.json(
+        { error: 'Cost estimate not found' },
+        { status: 404 }
+      );
+    }
+
+    // Vary the profile the estimate was computed with
+    const profile =
+      (costEstimate.companyProfileJson as CompanyProfile | null) ??
+      (await resolveCompanyProfile(user.customerId)).profile;
+
+    const sensitivity = calculateSensitivityAnalysis(
+      costEstimate,
+      profile,
+      parseStoredCostDrivers(costEstimate.costDriversJson),
+      { indices: await getCostIndices() }
+    );
+
+    return NextResponse.json(
+      { costEstimateId: costEstimate.id, revision: costEstimate.revision, ...sensitivity },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('[CostSensitivity] Error calculating sensitivity:', error);
+    return NextResponse.json(
+      { error: 'Failed to calculate cost sensitivity' },
+      { status: 500 }
+    );
+  }
+}
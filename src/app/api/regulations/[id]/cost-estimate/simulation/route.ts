@@ -0,0 +1,129 @@
+/**
+ * Cost Estimate Simulation API Endpoint
+ * GET: Monte Carlo simulation of the current cost estimate (or ?revision=N)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import prisma from '@/lib/prisma';
+import { auth } from '@/auth.config';
+import {
+  DEFAULT_SIMULATION_ITERATIONS,
+  MAX_SIMULATION_ITERATIONS,
+  getCostIndices,
+  parseStoredCostDrivers,
+  runMonteCarloSimulation,
+} from '@/lib/cost-estimator';
+import { resolveCompanyProfile } from '@/lib/customers/company-profile';
+import type { CompanyProfile } from '@/types/cost-estimate';
+
+// Query validation schema
+const simulationQuerySchema = z.object({
+  iterations: z.coerce
+    .number()
+    .int()
+    .min(100)
+    .max(MAX_SIMULATION_ITERATIONS)
+    .optional()
+    .default(DEFAULT_SIMULATION_ITERATIONS),
+  seed: z.coerce.number().int().nonnegative().optional(),
+  revision: z.coerce.number().int().positive().optional(),
+});
+
+/**
+ * GET /api/regulations/[id]/cost-estimate/simulation
+ * Simulate P10/P50/P90 one-time and recurring cost from the estimate's drivers
+ */
+export async function GET(
+  request: NextRequest,
+  props: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  const params = await props.params;
+  try {
+    // Authenticate user
+    const session = await auth();
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const validationResult = simulationQuerySchema.safeParse(
+      Object.fromEntries(request.nextUrl.searchParams)
+    );
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid query parameters', details: validationResult.error },
+        { status: 400 }
+      );
+    }
+
+    // Fetch user's customer
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+    });
+
+    if (!user?.customerId) {
+      return NextResponse.json(
+        { error: 'User not associated with a customer' },
+        { status: 403 }
+      );
+    }
+
+    const regulationVersion = await prisma.regulationVersion.findUnique({
+      where: { id: params.id },
+      select: { regulationId: true },
+    });
+
+    if (!regulationVersion) {
+      return NextResponse.json(
+        { error: 'Regulation version not found' },
+        { status: 404 }
+      );
+    }
+
+    const { iterations, seed, revision } = validationResult.data;
+    const lineage = {
+      customerId: user.customerId,
+      regulationVersion: { regulationId: regulationVersion.regulationId },
+    };
+
+    const costEstimate = await prisma.costEstimate.findFirst({
+      where: revision ? { ...lineage, revision } : { ...lineage, supersededAt: null },
+      select: {
+        id: true,
+        revision: true,
+        costDriversJson: true,
+        companyProfileJson: true,
+      },
+      orderBy: { revision: 'desc' },
+    });
+
+    if (!costEstimate) {
+      return NextResponse.json(
+        { error: 'Cost estimate not found' },
+        { status: 404 }
+      );
+    }
+
+    // Simulate with the profile the estimate was computed with
+    const profile =
+      (costEstimate.companyProfileJson as CompanyProfile | null) ??
+      (await resolveCompanyProfile(user.customerId)).profile;
+
+    const simulation = runMonteCarloSimulation(
+      parseStoredCostDrivers(costEstimate.costDriversJson),
+      profile,
+      { iterations, seed, indices: await getCostIndices() }
+    );
+
+    return NextResponse.json(
+      { costEstimateId: costEstimate.id, revision: costEstimate.revision, ...simulation },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('[CostSimulation] Error running simulation:', error);
+    return NextResponse.json(
+      { error: 'Failed to run cost simulation' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,6 @@
 /**
  * PolicyDiff API Endpoint
- * POST: Generate diff for regulation versions
+ * POST: Generate diff for any two regulation versions (or since version N)
  * GET: Retrieve existing diff
  */
 
@@ -8,24 +8,88 @@ import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import prisma from '@/lib/prisma';
 import { auth } from '@/auth.config';
+import { createPolicyDiff } from '@/lib/regulations/diff-pipeline';
+import { isPrismaError } from '@/lib/prisma-errors';
 import {
-  generateTextDiff,
-  calculateChangeMetrics,
-  formatDiffForDisplay,
-} from '@/lib/policydiff';
-import {
-  summarizeRegulationChanges,
-  calculateSignificance,
-} from '@/lib/ai/summarizer';
-import { SignificanceScore } from '@/types/policydiff';
+  buildVersionTimeline,
+  resolveVersionPair,
+  versionsBetween,
+  type VersionPairRequest,
+} from '@/lib/regulations/version-history';
 
 // Request validation schema
-const diffRequestSchema = z.object({
-  previousVersionId: z.string().min(1),
-  currentVersionId: z.string().min(1),
-});
+// Omitted versions default to the latest version and its predecessor
+const diffRequestSchema = z
+  .object({
+    previousVersionId: z.string().min(1).optional(),
+    currentVersionId: z.string().min(1).optional(),
+    sinceVersionNumber: z.number().int().positive().optional(),
+  })
+  .refine((data) => !(data.previousVersionId && data.sinceVersionNumber !== undefined), {
+    message: 'Pass previousVersionId or sinceVersionNumber, not both',
+  });
+
+const diffQuerySchema = z
+  .object({
+    previousVersionId: z.string().min(1).optional(),
+    currentVersionId: z.string().min(1).optional(),
+    since: z.coerce.number().int().positive().optional(),
+  })
+  .refine((data) => !(data.previousVersionId && data.since !== undefined), {
+    message: 'Pass previousVersionId or since, not both',
+  });
+
+/**
+ * Load a regulation's versions and resolve the requested pair
+ */
+async function resolveRequestedPair(regulationId: string, request: VersionPairRequest) {
+  const regulation = await prisma.regulation.findUnique({
+    where: { id: regulationId },
+    include: {
+      versions: {
+        select: { id: true, versionNumber: true, publishedDate: true },
+      },
+    },
+  });
 
-type DiffRequest = z.infer<typeof diffRequestSchema>;
+  if (!regulation) {
+    return { error: 'Regulation not found', status: 404 } as const;
+  }
+
+  const pair = resolveVersionPair(regulation.versions, request);
+  if ('error' in pair) {
+    return pair;
+  }
+  return { regulation, ...pair };
+}
+
+/**
+ * Sequential diffs of every version between the pair, for the cumulative view
+ */
+async function versionSteps(
+  regulationId: string,
+  versions: Array<{ id: string; versionNumber: number; publishedDate: Date }>,
+  fromVersionNumber: number,
+  toVersionNumber: number
+) {
+  const diffs = await prisma.policyDiff.findMany({
+    where: { sequential: true, regulationVersion: { regulationId } },
+    select: {
+      id: true,
+      regulationVersionId: true,
+      previousVersionId: true,
+      significanceScore: true,
+      summary: true,
+      keyChanges: true,
+    },
+  });
+
+  return versionsBetween(
+    buildVersionTimeline(versions, diffs),
+    fromVersionNumber,
+    toVersionNumber
+  );
+}
 
 /**
  * POST /api/regulations/[id]/diff
@@ -65,7 +129,6 @@ export async function POST(
       );
     }
 
-    const { previousVersionId, currentVersionId } = validationResult.data;
     const regulationId = params.id;
 
     // Fetch user's customer
@@ -81,99 +144,67 @@ export async function POST(
       );
     }
 
-    // Fetch both regulation versions
-    const [previousVersion, currentVersion, regulation] = await Promise.all([
-      prisma.regulationVersion.findUnique({
-        where: { id: previousVersionId },
-        include: { regulation: { include: { jurisdiction: true } } },
-      }),
-      prisma.regulationVersion.findUnique({
-        where: { id: currentVersionId },
-        include: { regulation: { include: { jurisdiction: true } } },
-      }),
-      prisma.regulation.findUnique({
-        where: { id: regulationId },
-        include: {
-          jurisdiction: true,
-        },
-      }),
-    ]);
-
-    // Validation checks
-    if (!previousVersion || !currentVersion) {
-      return NextResponse.json(
-        { error: 'One or both regulation versions not found' },
-        { status: 404 }
-      );
-    }
-
-    if (previousVersion.regulationId !== currentVersion.regulationId) {
+    const resolved = await resolveRequestedPair(regulationId, validationResult.data);
+    if ('error' in resolved) {
       return NextResponse.json(
-        { error: 'Versions must belong to the same regulation' },
-        { status: 400 }
+        { error: resolved.error },
+        { status: resolved.status }
       );
     }
+    const { regulation, previous, current, sequential } = resolved;
 
-    if (!regulation) {
-      return NextResponse.json(
-        { error: 'Regulation not found' },
-        { status: 404 }
-      );
-    }
+    const steps = await versionSteps(
+      regulationId,
+      regulation.versions,
+      previous.versionNumber,
+      current.versionNumber
+    );
+    const comparison = {
+      previousVersionNumber: previous.versionNumber,
+      currentVersionNumber: current.versionNumber,
+      steps,
+    };
 
-    // Check if PolicyDiff already exists
+    // Each version pair is cached as its own PolicyDiff
     const existingDiff = await prisma.policyDiff.findFirst({
       where: {
-        regulationVersionId: currentVersionId,
-        previousVersionId: previousVersionId,
+        regulationVersionId: current.id,
+        previousVersionId: previous.id,
       },
     });
 
     if (existingDiff) {
       console.log(`[API] Returning existing PolicyDiff: ${existingDiff.id}`);
-      return NextResponse.json(existingDiff, { status: 200 });
+      return NextResponse.json({ ...existingDiff, ...comparison }, { status: 200 });
     }
 
-    // Generate diff
-    console.log(
-      `[API] Generating new PolicyDiff for ${regulation.title} (v${previousVersion.versionNumber} → v${currentVersion.versionNumber})`
-    );
-
-    const diffResult = generateTextDiff(
-      previousVersion.contentText || '',
-      currentVersion.contentText || ''
-    );
-
-    const metrics = calculateChangeMetrics(diffResult);
-    const displayDiff = formatDiffForDisplay(diffResult);
-
-    // AI processing
-    const summary = await summarizeRegulationChanges(
-      displayDiff,
-      regulation.title
-    );
-
-    // Calculate significance
-    const significanceScore = calculateSignificance(metrics, summary);
-
-    // Create PolicyDiff record
-    const policyDiff = await prisma.policyDiff.create({
-      data: {
-        regulationVersionId: currentVersionId,
-        previousVersionId: previousVersionId,
-        diffText: displayDiff,
-        summary: summary.summary,
-        keyChanges: summary.keyChanges,
-        significanceScore: significanceScore,
-        aiConfidence: summary.confidence,
-      },
-    });
+    const [previousVersion, currentVersion] = await Promise.all([
+      prisma.regulationVersion.findUniqueOrThrow({ where: { id: previous.id } }),
+      prisma.regulationVersion.findUniqueOrThrow({ where: { id: current.id } }),
+    ]);
 
-    console.log(
-      `[API] Created PolicyDiff: ${policyDiff.id} with significance: ${significanceScore}`
-    );
+    // Generate diff, AI summary and significance, then persist
+    try {
+      const policyDiff = await createPolicyDiff(
+        previousVersion,
+        currentVersion,
+        regulation.title,
+        sequential
+      );
 
-    return NextResponse.json(policyDiff, { status: 201 });
+      return NextResponse.json({ ...policyDiff, ...comparison }, { status: 201 });
+    } catch (error) {
+      // A concurrent request stored the same version pair first
+      if (!isPrismaError(error, 'P2002')) throw error;
+      const storedDiff = await prisma.policyDiff.findFirstOrThrow({
+        where: {
+          regulationVersionId: current.id,
+          previousVersionId: previous.id,
+        },
+      });
+      console.log(`[API] Returning concurrently created PolicyDiff: ${storedDiff.id}`);
+      return NextResponse.json({ ...storedDiff, ...comparison }, { status: 200 });
+    }
   } catch (error) {
     console.error('[API Error] Failed to generate PolicyDiff:', error);
     return NextResponse.json(
@@ -185,7 +216,9 @@ export async function POST(
 
 /**
  * GET /api/regulations/[id]/diff
- * Retrieve existing PolicyDiff for a regulation
+ * Retrieve an existing PolicyDiff for a regulation
+ * Query: previousVersionId, currentVersionId or since (version number) pick a
+ * cached version pair; without them, the most recent sequential diff
  */
 export async function GET(
   request: NextRequest,
@@ -204,6 +237,20 @@ export async function GET(
 
     const regulationId = params.id;
 
+    const searchParams = request.nextUrl.searchParams;
+    const validationResult = diffQuerySchema.safeParse({
+      previousVersionId: searchParams.get('previousVersionId') ?? undefined,
+      currentVersionId: searchParams.get('currentVersionId') ?? undefined,
+      since: searchParams.get('since') ?? undefined,
+    });
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid request parameters', details: validationResult.error },
+        { status: 400 }
+      );
+    }
+    const query = validationResult.data;
+
     // Fetch user's customer
     const user = await prisma.user.findUnique({
       where: { email: session.user.email },
@@ -217,6 +264,51 @@ export async function GET(
       );
     }
 
+    if (query.previousVersionId || query.currentVersionId || query.since !== undefined) {
+      const resolved = await resolveRequestedPair(regulationId, {
+        previousVersionId: query.previousVersionId,
+        currentVersionId: query.currentVersionId,
+        sinceVersionNumber: query.since,
+      });
+      if ('error' in resolved) {
+        return NextResponse.json(
+          { error: resolved.error },
+          { status: resolved.status }
+        );
+      }
+      const { regulation, previous, current } = resolved;
+
+      const policyDiff = await prisma.policyDiff.findFirst({
+        where: {
+          regulationVersionId: current.id,
+          previousVersionId: previous.id,
+        },
+      });
+
+      if (!policyDiff) {
+        return NextResponse.json(
+          { error: 'No PolicyDiff found for these versions' },
+          { status: 404 }
+        );
+      }
+
+      const steps = await versionSteps(
+        regulationId,
+        regulation.versions,
+        previous.versionNumber,
+        current.versionNumber
+      );
+      return NextResponse.json(
+        {
+          ...policyDiff,
+          previousVersionNumber: previous.versionNumber,
+          currentVersionNumber: current.versionNumber,
+          steps,
+        },
+        { status: 200 }
+      );
+    }
+
     // Fetch regulation
     const regulation = await prisma.regulation.findUnique({
       where: { id: regulationId },
@@ -232,6 +324,7 @@ export async function GET(
     // Get most recent PolicyDiff
     const policyDiff = await prisma.policyDiff.findFirst({
       where: {
+        sequential: true,
         regulationVersion: {
           regulationId: regulationId,
         },
@@ -0,0 +1,170 @@
+/**
+ * Regulation Penalty Schedule API Endpoint
+ * GET: Penalty schedule of a regulation and the exposure of a period of non-compliance
+ * PUT: Enter or correct the schedule by hand (admin only)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import prisma from '@/lib/prisma';
+import { auth } from '@/auth.config';
+import { getPenaltySchedule, saveManualPenaltySchedule } from '@/lib/regulations/penalties';
+import { calculatePenaltyExposure } from '@/lib/regulations/penalty-exposure';
+
+const amount = z.number().nonnegative().nullable();
+
+// Request validation schema
+const penaltyScheduleSchema = z
+  .object({
+    perViolationMin: amount,
+    perViolationMax: amount,
+    perDayFine: amount,
+    maxPenalty: amount,
+    privateRightOfAction: z.boolean(),
+    enforcementLikelihood: z.number().min(0).max(1).nullable(),
+  })
+  .refine(
+    (terms) =>
+      terms.perViolationMin === null ||
+      terms.perViolationMax === null ||
+      terms.perViolationMin <= terms.perViolationMax,
+    { message: 'perViolationMin must not exceed perViolationMax', path: ['perViolationMin'] }
+  );
+
+// Query validation schema
+const exposureQuerySchema = z.object({
+  days: z.coerce.number().int().min(0).max(3650).optional(),
+  violations: z.coerce.number().int().min(0).max(1_000_000).optional(),
+});
+
+/**
+ * GET /api/regulations/[id]/penalties
+ * ?days=N&violations=N set the non-compliance period (default 90 days, 1 violation)
+ */
+export async function GET(
+  request: NextRequest,
+  props: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  const params = await props.params;
+  try {
+    // Authenticate user
+    const session = await auth();
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const queryResult = exposureQuerySchema.safeParse({
+      days: searchParams.get('days') ?? undefined,
+      violations: searchParams.get('violations') ?? undefined,
+    });
+    if (!queryResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid request parameters', details: queryResult.error },
+        { status: 400 }
+      );
+    }
+
+    const regulation = await prisma.regulation.findUnique({
+      where: { id: params.id },
+      select: { id: true, title: true },
+    });
+
+    if (!regulation) {
+      return NextResponse.json(
+        { error: 'Regulation not found' },
+        { status: 404 }
+      );
+    }
+
+    const schedule = await getPenaltySchedule(regulation.id);
+    const exposure = calculatePenaltyExposure(schedule, {
+      nonComplianceDays: queryResult.data.days,
+      violations: queryResult.data.violations,
+    });
+
+    return NextResponse.json(
+      { regulationId: regulation.id, regulationTitle: regulation.title, schedule, exposure },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('[Penalties] Error fetching penalty schedule:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch penalty schedule' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/regulations/[id]/penalties
+ * Store a MANUAL schedule; later ingestion no longer overwrites it
+ */
+export async function PUT(
+  request: NextRequest,
+  props: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  const params = await props.params;
+  try {
+    // Authenticate user
+    const session = await auth();
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (session.user.role !== 'ADMIN') {
+      return NextResponse.json(
+        { error: 'Only administrators can edit penalty schedules' },
+        { status: 403 }
+      );
+    }
+
+    // Parse and validate request body
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid JSON in request body' },
+        { status: 400 }
+      );
+    }
+
+    const validationResult = penaltyScheduleSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid request parameters', details: validationResult.error },
+        { status: 400 }
+      );
+    }
+
+    const regulation = await prisma.regulation.findUnique({
+      where: { id: params.id },
+      select: { id: true },
+    });
+
+    if (!regulation) {
+      return NextResponse.json(
+        { error: 'Regulation not found' },
+        { status: 404 }
+      );
+    }
+
+    const schedule = await saveManualPenaltySchedule(
+      regulation.id,
+      validationResult.data,
+      session.user.email
+    );
+
+    return NextResponse.json(
+      { schedule, exposure: calculatePenaltyExposure(schedule) },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('[Penalties] Error saving penalty schedule:', error);
+    return NextResponse.json(
+      { error: 'Failed to save penalty schedule' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,82 @@
+/**
+ * Regulation Ingestion API Endpoint
+ * POST: Create a new RegulationVersion (and Regulation if needed) from text
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { auth } from '@/auth.config';
+import {
+  ingestRegulationVersion,
+  JurisdictionNotFoundError,
+} from '@/lib/regulations/ingestion';
+
+// Request validation schema
+const ingestRequestSchema = z.object({
+  jurisdictionCode: z.string().min(1),
+  regulation: z.object({
+    title: z.string().min(1),
+    regulationType: z.string().min(1),
+    sourceUrl: z.string().url().optional(),
+    effectiveDate: z.coerce.date().optional(),
+  }),
+  contentText: z.string().min(1),
+  contentJson: z.record(z.string(), z.unknown()).optional(),
+  publishedDate: z.coerce.date().optional(),
+});
+
+/**
+ * POST /api/regulations/ingest
+ * Ingest regulation text; returns 201 for a new version, 200 for a duplicate
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    // Authenticate user
+    const session = await auth();
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Ingestion writes shared regulation data, so restrict to admins
+    if (session.user.role !== 'ADMIN') {
+      return NextResponse.json(
+        { error: 'Only administrators can ingest regulations' },
+        { status: 403 }
+      );
+    }
+
+    // Parse and validate request body
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid JSON in request body' },
+        { status: 400 }
+      );
+    }
+
+    const validationResult = ingestRequestSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid request parameters', details: validationResult.error },
+        { status: 400 }
+      );
+    }
+
+    const result = await ingestRegulationVersion(validationResult.data);
+
+    return NextResponse.json(result, {
+      status: result.status === 'CREATED' ? 201 : 200,
+    });
+  } catch (error) {
+    if (error instanceof JurisdictionNotFoundError) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+    console.error('[Ingestion] Error ingesting regulation:', error);
+    return NextResponse.json(
+      { error: 'Failed to ingest regulation' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * Regulation Subscription API Endpoint
+ * DELETE: Unsubscribe from a regulation
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { auth } from '@/auth.config';
+
+/**
+ * DELETE /api/subscriptions/[id]
+ * Remove a direct subscription
+ * Regulations matched by a rule stay watched until the rule is removed
+ */
+export async function DELETE(
+  request: NextRequest,
+  props: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  const params = await props.params;
+  try {
+    // Authenticate user
+    const session = await auth();
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Fetch user's customer
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+    });
+
+    if (!user?.customerId) {
+      return NextResponse.json(
+        { error: 'User not associated with a customer' },
+        { status: 403 }
+      );
+    }
+
+    const { count } = await prisma.customerRegulationSubscription.deleteMany({
+      where: { id: params.id, customerId: user.customerId },
+    });
+
+    if (count === 0) {
+      return NextResponse.json(
+        { error: 'Subscription not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true }, { status: 200 });
+  } catch (error) {
+    console.error('[Subscriptions] Error deleting subscription:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete subscription' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,141 @@
+/**
+ * Regulation Subscriptions API Endpoint
+ * GET: List the customer's watched regulations and subscription rules
+ * POST: Subscribe to a regulation
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import prisma from '@/lib/prisma';
+import { auth } from '@/auth.config';
+import { subscribeToRegulation } from '@/lib/regulations/subscriptions';
+
+const subscribeRequestSchema = z.object({
+  regulationId: z.string().min(1),
+});
+
+/**
+ * GET /api/subscriptions
+ * List direct subscriptions and rules for the authenticated user's customer
+ */
+export async function GET(): Promise<NextResponse> {
+  try {
+    // Authenticate user
+    const session = await auth();
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Fetch user's customer
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+    });
+
+    if (!user?.customerId) {
+      return NextResponse.json(
+        { error: 'User not associated with a customer' },
+        { status: 403 }
+      );
+    }
+
+    const [subscriptions, rules] = await Promise.all([
+      prisma.customerRegulationSubscription.findMany({
+        where: { customerId: user.customerId },
+        include: {
+          regulation: {
+            select: {
+              id: true,
+              title: true,
+              regulationType: true,
+              jurisdiction: { select: { code: true, name: true } },
+            },
+          },
+        },
+        orderBy: { createdAt: 'desc' },
+      }),
+      prisma.subscriptionRule.findMany({
+        where: { customerId: user.customerId },
+        include: { jurisdiction: { select: { code: true, name: true } } },
+        orderBy: { createdAt: 'asc' },
+      }),
+    ]);
+
+    return NextResponse.json({ subscriptions, rules }, { status: 200 });
+  } catch (error) {
+    console.error('[Subscriptions] Error fetching subscriptions:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch subscriptions' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/subscriptions
+ * Subscribe the customer to a regulation (idempotent)
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    // Authenticate user
+    const session = await auth();
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Parse and validate request body
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid JSON in request body' },
+        { status: 400 }
+      );
+    }
+
+    const validationResult = subscribeRequestSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid request parameters', details: validationResult.error },
+        { status: 400 }
+      );
+    }
+
+    // Fetch user's customer
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+    });
+
+    if (!user?.customerId) {
+      return NextResponse.json(
+        { error: 'User not associated with a customer' },
+        { status: 403 }
+      );
+    }
+
+    const regulation = await prisma.regulation.findUnique({
+      where: { id: validationResult.data.regulationId },
+      select: { id: true },
+    });
+
+    if (!regulation) {
+      return NextResponse.json(
+        { error: 'Regulation not found' },
+        { status: 404 }
+      );
+    }
+
+    const subscription = await subscribeToRegulation(
+      user.customerId,
+      regulation.id
+    );
+
+    return NextResponse.json(subscription, { status: 201 });
+  } catch (error) {
+    console.error('[Subscriptions] Error creating subscription:', error);
+    return NextResponse.json(
+      { error: 'Failed to create subscription' },
+      { status: 500 }
+    );
+  }
+}
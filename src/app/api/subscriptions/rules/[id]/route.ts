@@ -0,0 +1,166 @@
+/**
+ * Subscription Rule API Endpoint
+ * PATCH: Update a rule's jurisdiction or regulation type
+ * DELETE: Remove a rule
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import prisma from '@/lib/prisma';
+import { auth } from '@/auth.config';
+
+// Request validation schema (omitted fields keep their current value)
+const updateRuleSchema = z.object({
+  jurisdictionId: z.string().min(1).nullable().optional(),
+  regulationType: z.string().trim().min(1).nullable().optional(),
+});
+
+/**
+ * Resolve the authenticated user's customer id
+ * @returns Customer id, or an error response
+ */
+async function resolveCustomerId(): Promise<string | NextResponse> {
+  const session = await auth();
+  if (!session?.user?.email) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { email: session.user.email },
+  });
+
+  if (!user?.customerId) {
+    return NextResponse.json(
+      { error: 'User not associated with a customer' },
+      { status: 403 }
+    );
+  }
+
+  return user.customerId;
+}
+
+/**
+ * PATCH /api/subscriptions/rules/[id]
+ * Update a subscription rule
+ */
+export async function PATCH(
+  request: NextRequest,
+  props: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  const params = await props.params;
+  try {
+    const customerId = await resolveCustomerId();
+    if (customerId instanceof NextResponse) {
+      return customerId;
+    }
+
+    // Parse and validate request body
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid JSON in request body' },
+        { status: 400 }
+      );
+    }
+
+    const validationResult = updateRuleSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid request parameters', details: validationResult.error },
+        { status: 400 }
+      );
+    }
+
+    const rule = await prisma.subscriptionRule.findFirst({
+      where: { id: params.id, customerId },
+    });
+
+    if (!rule) {
+      return NextResponse.json(
+        { error: 'Subscription rule not found' },
+        { status: 404 }
+      );
+    }
+
+    const jurisdictionId =
+      validationResult.data.jurisdictionId !== undefined
+        ? validationResult.data.jurisdictionId
+        : rule.jurisdictionId;
+    const regulationType =
+      validationResult.data.regulationType !== undefined
+        ? validationResult.data.regulationType
+        : rule.regulationType;
+
+    if (!jurisdictionId && !regulationType) {
+      return NextResponse.json(
+        { error: 'A rule needs a jurisdiction or a regulation type' },
+        { status: 400 }
+      );
+    }
+
+    if (jurisdictionId && jurisdictionId !== rule.jurisdictionId) {
+      const jurisdiction = await prisma.jurisdiction.findUnique({
+        where: { id: jurisdictionId },
+        select: { id: true },
+      });
+      if (!jurisdiction) {
+        return NextResponse.json(
+          { error: 'Jurisdiction not found' },
+          { status: 400 }
+        );
+      }
+    }
+
+    const updatedRule = await prisma.subscriptionRule.update({
+      where: { id: rule.id },
+      data: { jurisdictionId, regulationType },
+      include: { jurisdiction: { select: { code: true, name: true } } },
+    });
+
+    return NextResponse.json(updatedRule, { status: 200 });
+  } catch (error) {
+    console.error('[SubscriptionRules] Error updating rule:', error);
+    return NextResponse.json(
+      { error: 'Failed to update subscription rule' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/subscriptions/rules/[id]
+ * Remove a subscription rule
+ */
+export async function DELETE(
+  request: NextRequest,
+  props: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  const params = await props.params;
+  try {
+    const customerId = await resolveCustomerId();
+    if (customerId instanceof NextResponse) {
+      return customerId;
+    }
+
+    const { count } = await prisma.subscriptionRule.deleteMany({
+      where: { id: params.id, customerId },
+    });
+
+    if (count === 0) {
+      return NextResponse.json(
+        { error: 'Subscription rule not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true }, { status: 200 });
+  } catch (error) {
+    console.error('[SubscriptionRules] Error deleting rule:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete subscription rule' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,146 @@
+/**
+ * Subscription Rules API Endpoint
+ * GET: List jurisdiction/regulation-type rules
+ * POST: Create a rule
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import prisma from '@/lib/prisma';
+import { auth } from '@/auth.config';
+
+// Request validation schema
+const subscriptionRuleSchema = z
+  .object({
+    jurisdictionId: z.string().min(1).nullable().optional(),
+    regulationType: z.string().trim().min(1).nullable().optional(),
+  })
+  .refine((rule) => Boolean(rule.jurisdictionId || rule.regulationType), {
+    message: 'A rule needs a jurisdiction or a regulation type',
+  });
+
+/**
+ * GET /api/subscriptions/rules
+ * List the customer's subscription rules
+ */
+export async function GET(): Promise<NextResponse> {
+  try {
+    // Authenticate user
+    const session = await auth();
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Fetch user's customer
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+    });
+
+    if (!user?.customerId) {
+      return NextResponse.json(
+        { error: 'User not associated with a customer' },
+        { status: 403 }
+      );
+    }
+
+    const rules = await prisma.subscriptionRule.findMany({
+      where: { customerId: user.customerId },
+      include: { jurisdiction: { select: { code: true, name: true } } },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return NextResponse.json({ rules }, { status: 200 });
+  } catch (error) {
+    console.error('[SubscriptionRules] Error fetching rules:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch subscription rules' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/subscriptions/rules
+ * Watch every regulation matching a jurisdiction and/or regulation type
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    // Authenticate user
+    const session = await auth();
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Parse and validate request body
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid JSON in request body' },
+        { status: 400 }
+      );
+    }
+
+    const validationResult = subscriptionRuleSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid request parameters', details: validationResult.error },
+        { status: 400 }
+      );
+    }
+
+    // Fetch user's customer
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+    });
+
+    if (!user?.customerId) {
+      return NextResponse.json(
+        { error: 'User not associated with a customer' },
+        { status: 403 }
+      );
+    }
+
+    const jurisdictionId = validationResult.data.jurisdictionId ?? null;
+    const regulationType = validationResult.data.regulationType ?? null;
+
+    if (jurisdictionId) {
+      const jurisdiction = await prisma.jurisdiction.findUnique({
+        where: { id: jurisdictionId },
+        select: { id: true },
+      });
+      if (!jurisdiction) {
+        return NextResponse.json(
+          { error: 'Jurisdiction not found' },
+          { status: 400 }
+        );
+      }
+    }
+
+    const existingRule = await prisma.subscriptionRule.findFirst({
+      where: { customerId: user.customerId, jurisdictionId, regulationType },
+      select: { id: true },
+    });
+
+    if (existingRule) {
+      return NextResponse.json(
+        { error: 'An identical rule already exists', ruleId: existingRule.id },
+        { status: 409 }
+      );
+    }
+
+    const rule = await prisma.subscriptionRule.create({
+      data: { customerId: user.customerId, jurisdictionId, regulationType },
+      include: { jurisdiction: { select: { code: true, name: true } } },
+    });
+
+    return NextResponse.json(rule, { status: 201 });
+  } catch (error) {
+    console.error('[SubscriptionRules] Error creating rule:', error);
+    return NextResponse.json(
+      { error: 'Failed to create subscription rule' },
+      { status: 500 }
+    );
+  }
+}
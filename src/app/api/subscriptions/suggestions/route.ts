@@ -0,0 +1,73 @@
+/**
+ * Watchlist Suggestions API Endpoint
+ * GET: Applicable regulations the customer does not watch yet
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { auth } from '@/auth.config';
+import { suggestWatchlistRegulations } from '@/lib/regulations/applicability';
+import { getWatchedRegulationIds } from '@/lib/regulations/subscriptions';
+
+/**
+ * GET /api/subscriptions/suggestions?limit=10
+ * Suggest regulations to watch, most confident first
+ */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  try {
+    // Authenticate user
+    const session = await auth();
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Fetch user's customer
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+    });
+
+    if (!user?.customerId) {
+      return NextResponse.json(
+        { error: 'User not associated with a customer' },
+        { status: 403 }
+      );
+    }
+
+    const limitParam = Number(new URL(request.url).searchParams.get('limit'));
+    const limit = Number.isInteger(limitParam) && limitParam > 0 ? Math.min(limitParam, 50) : 10;
+
+    const watchedIds = await getWatchedRegulationIds(user.customerId);
+    const suggestions = await suggestWatchlistRegulations(
+      user.customerId,
+      watchedIds,
+      limit
+    );
+
+    const regulations = await prisma.regulation.findMany({
+      where: { id: { in: suggestions.map((suggestion) => suggestion.regulationId) } },
+      select: {
+        id: true,
+        title: true,
+        regulationType: true,
+        jurisdiction: { select: { code: true, name: true } },
+      },
+    });
+    const regulationsById = new Map(regulations.map((regulation) => [regulation.id, regulation]));
+
+    return NextResponse.json(
+      {
+        suggestions: suggestions.map((suggestion) => ({
+          ...suggestion,
+          regulation: regulationsById.get(suggestion.regulationId) ?? null,
+        })),
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('[Subscriptions] Error suggesting regulations:', error);
+    return NextResponse.json(
+      { error: 'Failed to suggest regulations' },
+      { status: 500 }
+    );
+  }
+}
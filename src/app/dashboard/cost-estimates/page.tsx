@@ -8,6 +8,9 @@ import Link from 'next/link';
 import prisma from '@/lib/prisma';
 import { auth } from '@/auth.config';
 import { formatDate } from '@/lib/utils/format';
+import { convertAmount, listFxRates, toCurrencyCode } from '@/lib/cost-estimator';
+import { getFinancialSettings } from '@/lib/customers/financial-settings';
+import type { CurrencyCode } from '@/types/cost-estimate';
 
 export default async function CostEstimatesPage() {
   // Authenticate
@@ -28,7 +31,7 @@ export default async function CostEstimatesPage() {
 
   // Fetch all cost estimates with regulation details
   const costEstimates = await prisma.costEstimate.findMany({
-    where: { customerId: user.customerId },
+    where: { customerId: user.customerId, supersededAt: null },
     include: {
       regulationVersion: {
         include: {
@@ -43,27 +46,33 @@ export default async function CostEstimatesPage() {
     orderBy: { createdAt: 'desc' },
   });
 
-  // Calculate portfolio totals
+  // Calculate portfolio totals in the reporting currency at today's rate
+  const { reportingCurrency } = await getFinancialSettings(user.customerId);
+  const fxRates = await listFxRates();
+  const now = new Date();
+  const toReporting = (amount: number, currency: string) =>
+    convertAmount(amount, toCurrencyCode(currency), reportingCurrency, fxRates, now);
+
   const totalOneTimeLow = costEstimates.reduce(
-    (sum, est) => sum + est.oneTimeCostLow,
+    (sum, est) => sum + toReporting(est.oneTimeCostLow, est.currency),
     0
   );
   const totalOneTimeHigh = costEstimates.reduce(
-    (sum, est) => sum + est.oneTimeCostHigh,
+    (sum, est) => sum + toReporting(est.oneTimeCostHigh, est.currency),
     0
   );
   const totalRecurringAnnual = costEstimates.reduce(
-    (sum, est) => sum + est.recurringCostAnnual,
+    (sum, est) => sum + toReporting(est.recurringCostAnnual, est.currency),
     0
   );
   const threeYearLow = totalOneTimeLow + totalRecurringAnnual * 3;
   const threeYearHigh = totalOneTimeHigh + totalRecurringAnnual * 3;
 
   // Format currency
-  const formatCurrency = (amount: number) => {
+  const formatCurrency = (amount: number, currency: CurrencyCode = reportingCurrency) => {
     return new Intl.NumberFormat('en-US', {
       style: 'currency',
-      currency: 'USD',
+      currency,
       minimumFractionDigits: 0,
       maximumFractionDigits: 0,
     }).format(amount);
@@ -179,6 +188,8 @@ export default async function CostEstimatesPage() {
             <div className="divide-y divide-gray-200">
               {costEstimates.map((estimate) => {
                 const regulation = estimate.regulationVersion.regulation;
+                // Each estimate is shown in its own currency
+                const currency = toCurrencyCode(estimate.currency);
                 const threeYearCostLow =
                   estimate.oneTimeCostLow + estimate.recurringCostAnnual * 3;
                 const threeYearCostHigh =
@@ -257,21 +268,21 @@ export default async function CostEstimatesPage() {
                           <div>
                             <span className="text-gray-600 block">One-Time</span>
                             <span className="font-semibold text-gray-900">
-                              {formatCurrency(estimate.oneTimeCostLow)} -{' '}
-                              {formatCurrency(estimate.oneTimeCostHigh)}
+                              {formatCurrency(estimate.oneTimeCostLow, currency)} -{' '}
+                              {formatCurrency(estimate.oneTimeCostHigh, currency)}
                             </span>
                           </div>
                           <div>
                             <span className="text-gray-600 block">Annual</span>
                             <span className="font-semibold text-gray-900">
-                              {formatCurrency(estimate.recurringCostAnnual)}
+                              {formatCurrency(estimate.recurringCostAnnual, currency)}
                             </span>
                           </div>
                           <div>
                             <span className="text-gray-600 block">3-Year Total</span>
                             <span className="font-semibold text-blue-900">
-                              {formatCurrency(threeYearCostLow)} -{' '}
-                              {formatCurrency(threeYearCostHigh)}
+                              {formatCurrency(threeYearCostLow, currency)} -{' '}
+                              {formatCurrency(threeYearCostHigh, currency)}
                             </span>
                           </div>
                         </div>
@@ -6,6 +6,7 @@ import CostWaterfallChart from '@/components/dashboard/CostWaterfallChart'
 import RegulatoryTimelineChart from '@/components/dashboard/RegulatoryTimelineChart'
 import { generateBoardPDF } from '@/lib/export/board-pdf'
 import { EnhancedDashboardData } from '@/types/dashboard-enhanced'
+import { FinancialSettings, FiscalCalendar } from '@/types/cost-estimate'
 
 export default function EnhancedDashboard() {
   const router = useRouter()
@@ -43,6 +44,14 @@ export default function EnhancedDashboard() {
     }
   }
 
+  // Fiscal calendar the PDF labels dates with (calendar year if unavailable)
+  async function fetchFiscalCalendar(): Promise<FiscalCalendar | undefined> {
+    const res = await fetch('/api/financial-settings')
+    if (!res.ok) return undefined
+    const settings: FinancialSettings = await res.json()
+    return settings.fiscalCalendar
+  }
+
   async function handleDownloadPDF() {
     if (!data) return
     
@@ -51,7 +60,8 @@ export default function EnhancedDashboard() {
       const pdf = await generateBoardPDF(
         data.healthScore,
         data.costWaterfall,
-        data.timelineRegulations
+        data.timelineRegulations,
+        await fetchFiscalCalendar()
       )
       
       const url = URL.createObjectURL(pdf)
@@ -186,7 +196,7 @@ export default function EnhancedDashboard() {
           <div className="text-2xl font-bold text-gray-900">
             {new Intl.NumberFormat('en-US', { 
               style: 'currency', 
-              currency: 'USD',
+              currency: data.costWaterfall.currency ?? 'USD',
               minimumFractionDigits: 0,
               maximumFractionDigits: 0
             }).format(data.costWaterfall.starting)}
@@ -0,0 +1,136 @@
+/**
+ * Estimate Accuracy Page
+ * How close past estimates came to the actual costs recorded as feedback
+ */
+
+import { redirect } from 'next/navigation';
+import Link from 'next/link';
+import prisma from '@/lib/prisma';
+import { auth } from '@/auth.config';
+import {
+  ACCURACY_BIAS_THRESHOLD,
+  MIN_ACCURACY_SAMPLES,
+  MIN_BAND_COVERAGE,
+  calculateEstimateAccuracy,
+  getAccuracySamples,
+} from '@/lib/cost-estimator';
+import { getFiscalCalendar } from '@/lib/customers/financial-settings';
+import AccuracyDashboard from '@/components/cost/AccuracyDashboard';
+import type { AccuracyAssessment } from '@/types/cost-estimate';
+
+const ASSESSMENTS: Record<AccuracyAssessment, { title: string; detail: string; className: string }> = {
+  INSUFFICIENT_DATA: {
+    title: 'Not enough feedback yet',
+    detail: `Record actual costs for at least ${MIN_ACCURACY_SAMPLES} estimates before relying on portfolio totals.`,
+    className: 'bg-gray-50 border-gray-200 text-gray-800',
+  },
+  RELIABLE: {
+    title: 'Estimates are tracking actuals',
+    detail: 'Portfolio totals can be used for budgeting as they stand.',
+    className: 'bg-green-50 border-green-200 text-green-800',
+  },
+  BIASED: {
+    title: 'Estimates are systematically off',
+    detail: `Average error exceeds ${ACCURACY_BIAS_THRESHOLD}% in one direction; adjust portfolio totals by the bias below.`,
+    className: 'bg-red-50 border-red-200 text-red-800',
+  },
+  OVERCONFIDENT: {
+    title: 'Estimate ranges are too narrow',
+    detail: `Fewer than ${Math.round(MIN_BAND_COVERAGE * 100)}% of actuals fall inside the low/high range; plan against the wider end.`,
+    className: 'bg-amber-50 border-amber-200 text-amber-800',
+  },
+};
+
+export default async function EstimateAccuracyPage() {
+  // Authenticate
+  const session = await auth();
+  if (!session?.user?.email) {
+    redirect('/login');
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { email: session.user.email },
+  });
+
+  if (!user?.customerId) {
+    redirect('/login');
+  }
+
+  const [samples, calendar] = await Promise.all([
+    getAccuracySamples(user.customerId),
+    getFiscalCalendar(user.customerId),
+  ]);
+  const report = calculateEstimateAccuracy(samples, calendar);
+  const assessment = ASSESSMENTS[report.assessment];
+
+  return (
+    <div className="min-h-screen bg-gray-100">
+      {/* Header */}
+      <header className="bg-white shadow-sm">
+        <div className="max-w-7xl mx-auto px-4 py-6">
+          <div className="flex justify-between items-center">
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900">
+                Estimate Accuracy
+              </h1>
+              <p className="text-gray-600 mt-1">
+                Past estimates against {report.overall.sampleCount} recorded actual
+                cost{report.overall.sampleCount !== 1 ? 's' : ''}
+              </p>
+            </div>
+            <Link
+              href="/dashboard/portfolio-analytics"
+              className="px-4 py-2 bg-blue-600 text-white rounded-md font-medium hover:bg-blue-700 transition-colors"
+            >
+              Portfolio Analytics
+            </Link>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-7xl mx-auto px-4 py-8 space-y-8">
+        <div className={`border rounded-lg p-4 ${assessment.className}`}>
+          <p className="font-semibold">{assessment.title}</p>
+          <p className="text-sm mt-1">{assessment.detail}</p>
+        </div>
+
+        {/* Overall Accuracy */}
+        <section className="grid grid-cols-1 md:grid-cols-4 gap-6">
+          <div className="bg-white rounded-lg shadow p-6">
+            <p className="text-sm text-gray-600 font-medium">One-Time MAPE</p>
+            <p className="text-3xl font-bold text-gray-900 mt-2">{report.overall.mape}%</p>
+            <p className="text-xs text-gray-500 mt-1">Mean absolute error vs. midpoint</p>
+          </div>
+          <div className="bg-white rounded-lg shadow p-6">
+            <p className="text-sm text-gray-600 font-medium">Bias</p>
+            <p className="text-3xl font-bold text-gray-900 mt-2">
+              {report.overall.bias > 0 ? '+' : ''}
+              {report.overall.bias}%
+            </p>
+            <p className="text-xs text-gray-500 mt-1">Positive: actuals above estimate</p>
+          </div>
+          <div className="bg-white rounded-lg shadow p-6">
+            <p className="text-sm text-gray-600 font-medium">Inside Low/High Band</p>
+            <p className="text-3xl font-bold text-gray-900 mt-2">
+              {Math.round(report.overall.bandCoverage * 100)}%
+            </p>
+            <p className="text-xs text-gray-500 mt-1">
+              {Math.round(report.overall.belowBand * 100)}% below,{' '}
+              {Math.round(report.overall.aboveBand * 100)}% above
+            </p>
+          </div>
+          <div className="bg-white rounded-lg shadow p-6">
+            <p className="text-sm text-gray-600 font-medium">Recurring MAPE</p>
+            <p className="text-3xl font-bold text-gray-900 mt-2">
+              {report.overall.recurringMape === null ? '—' : `${report.overall.recurringMape}%`}
+            </p>
+            <p className="text-xs text-gray-500 mt-1">Annual recurring cost</p>
+          </div>
+        </section>
+
+        <AccuracyDashboard report={report} />
+      </main>
+    </div>
+  );
+}
@@ -7,11 +7,13 @@ import CostWaterfall from '@/components/dashboard/CostWaterfall'
 import RegulatoryTimeline from '@/components/dashboard/RegulatoryTimeline'
 import { generateDashboardPDF } from '@/lib/export/pdf-export'
 import { DashboardMetrics, HealthScoreComponents, WaterfallDataPoint, TimelineEvent } from '@/types/dashboard'
+import { CurrencyCode, FinancialSettings, FiscalCalendar } from '@/types/cost-estimate'
 
 interface MetricsResponse {
   healthScore: number
   healthTrend: number
   totalCostExposure: number
+  currency: CurrencyCode
   costTrend: number
   regulationCount: number
   upcomingDeadlines: number
@@ -56,6 +58,14 @@ export default function ExecutiveDashboard() {
     }
   }
 
+  // Fiscal calendar the PDF labels dates with (calendar year if unavailable)
+  async function fetchFiscalCalendar(): Promise<FiscalCalendar | undefined> {
+    const res = await fetch('/api/financial-settings')
+    if (!res.ok) return undefined
+    const settings: FinancialSettings = await res.json()
+    return settings.fiscalCalendar
+  }
+
   async function handleDownloadPDF() {
     if (!data) return
 
@@ -69,7 +79,9 @@ export default function ExecutiveDashboard() {
         data.totalCostExposure,
         data.costTrend,
         data.regulationCount,
-        data.upcomingDeadlines
+        data.upcomingDeadlines,
+        await fetchFiscalCalendar(),
+        data.currency
       )
 
       const url = URL.createObjectURL(pdf)
@@ -257,7 +269,12 @@ export default function ExecutiveDashboard() {
             <h3 className="text-sm font-medium text-gray-500 uppercase tracking-wide">Cost Exposure</h3>
             <div className="mt-4 flex items-baseline gap-2">
               <span className="text-3xl font-bold text-gray-900">
-                ${(data.totalCostExposure / 1000000).toFixed(2)}
+                {new Intl.NumberFormat('en-US', {
+                  style: 'currency',
+                  currency: data.currency ?? 'USD',
+                  minimumFractionDigits: 2,
+                  maximumFractionDigits: 2
+                }).format(data.totalCostExposure / 1000000)}
               </span>
               <span className="text-sm text-gray-500">M</span>
             </div>
@@ -296,7 +313,7 @@ export default function ExecutiveDashboard() {
             trend={data.healthTrend}
             components={data.components}
           />
-          <CostWaterfall data={waterfallData} />
+          <CostWaterfall data={waterfallData} currency={data.currency} />
         </div>
 
         {/* Row 3: Timeline (full width) */}
@@ -28,9 +28,11 @@ export default async function DashboardPage() {
   // Fetch quick stats
   // Note: Add customer-based filtering when jurisdiction monitoring is implemented in schema
   const regulationCount = await prisma.regulation.count();
-  const policyDiffCount = await prisma.policyDiff.count();
+  const policyDiffCount = await prisma.policyDiff.count({
+    where: { sequential: true },
+  });
   const costEstimateCount = await prisma.costEstimate.count({
-    where: { customerId: user.customerId },
+    where: { customerId: user.customerId, supersededAt: null },
   });
 
   return (
@@ -130,14 +132,17 @@ export default async function DashboardPage() {
               </p>
             </Link>
 
-            <div className="p-4 border border-gray-200 rounded-lg bg-gray-50 cursor-not-allowed opacity-60">
+            <Link
+              href="/dashboard/settings"
+              className="p-4 border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors"
+            >
               <h3 className="font-semibold text-gray-900 mb-2">
                 ⚙️ Settings
               </h3>
               <p className="text-sm text-gray-600">
-                Coming soon - Configure monitoring preferences
+                Company profile used for cost estimates
               </p>
-            </div>
+            </Link>
           </div>
         </div>
       </main>
@@ -10,13 +10,29 @@ import { auth } from '@/auth.config';
 import {
   aggregatePortfolioTrends,
   forecastPortfolioTrends,
+  getCostIndices,
+  recurringLaborShare,
+  convertEstimate,
+  listFxRates,
+  toCurrencyCode,
 } from '@/lib/cost-estimator';
+import { getBudgetSummary } from '@/lib/budgets/budgets';
+import { getFinancialSettings } from '@/lib/customers/financial-settings';
+import { fiscalYearOf } from '@/lib/utils/fiscal-calendar';
 import {
   CostEstimate,
   CostDriver,
   Department,
   DepartmentCostBreakdown,
 } from '@/types/cost-estimate';
+import type { BudgetLineStatus } from '@/types/budgets';
+
+const BUDGET_STATUS_STYLES: Record<BudgetLineStatus, { label: string; className: string }> = {
+  ON_TRACK: { label: 'On track', className: 'bg-green-100 text-green-800' },
+  OVER_COMMITTED: { label: 'Over-committed', className: 'bg-amber-100 text-amber-800' },
+  OVER_BUDGET: { label: 'Over budget', className: 'bg-red-100 text-red-800' },
+  UNBUDGETED: { label: 'No budget', className: 'bg-gray-100 text-gray-700' },
+};
 
 export default async function PortfolioAnalyticsPage() {
   // Authenticate
@@ -37,7 +53,7 @@ export default async function PortfolioAnalyticsPage() {
 
   // Fetch all cost estimates with regulation details
   const costEstimates = await prisma.costEstimate.findMany({
-    where: { customerId: user.customerId },
+    where: { customerId: user.customerId, supersededAt: null },
     include: {
       regulationVersion: {
         include: {
@@ -65,6 +81,7 @@ export default async function PortfolioAnalyticsPage() {
         evidence: driver.evidence as CostDriver['evidence'],
         notes: driver.notes as CostDriver['notes'],
         departmentAlternatives: driver.departmentAlternatives as CostDriver['departmentAlternatives'],
+        ...(driver.currency !== undefined ? { currency: toCurrencyCode(driver.currency) } : {}),
       }))
       .filter((driver) => Boolean(driver.description));
   };
@@ -86,7 +103,13 @@ export default async function PortfolioAnalyticsPage() {
     });
   };
 
-  // Convert database records to domain objects for analysis
+  const settings = await getFinancialSettings(user.customerId);
+  const reportingCurrency = settings.reportingCurrency;
+  const fxRates = await listFxRates();
+  const reportingDate = new Date();
+
+  // Convert database records to domain objects for analysis, with every
+  // amount in the reporting currency at today's rate
   const estimates: CostEstimate[] = costEstimates.map((est) => {
     const rawDrivers =
       (est.costDriversJson as { drivers?: unknown[] })?.drivers || [];
@@ -98,32 +121,51 @@ export default async function PortfolioAnalyticsPage() {
       costDrivers
     );
 
-    return {
-      id: est.id,
-      regulationVersionId: est.regulationVersionId,
-      customerId: est.customerId,
-      oneTimeCostLow: est.oneTimeCostLow,
-      oneTimeCostHigh: est.oneTimeCostHigh,
-      recurringCostAnnual: est.recurringCostAnnual,
-      costDrivers,
-      departmentBreakdown,
-      estimationMethod: est.estimationMethod,
-      confidence: est.confidence,
-      createdAt: est.createdAt,
-    };
+    return convertEstimate(
+      {
+        id: est.id,
+        regulationVersionId: est.regulationVersionId,
+        customerId: est.customerId,
+        currency: toCurrencyCode(est.currency),
+        oneTimeCostLow: est.oneTimeCostLow,
+        oneTimeCostHigh: est.oneTimeCostHigh,
+        recurringCostAnnual: est.recurringCostAnnual,
+        costDrivers,
+        departmentBreakdown,
+        estimationMethod: est.estimationMethod,
+        confidence: est.confidence,
+        createdAt: est.createdAt,
+      },
+      reportingCurrency,
+      fxRates,
+      reportingDate
+    );
   });
 
   // Aggregate portfolio trends
   const portfolioTrends = aggregatePortfolioTrends(estimates);
+  const currentFiscalYear = fiscalYearOf(reportingDate, settings.fiscalCalendar);
+
+  // Generate 3-year forecast; labor-driven recurring costs escalate with wages
+  const laborShare = recurringLaborShare(
+    estimates.flatMap((estimate) => estimate.costDrivers)
+  );
+  const forecast = forecastPortfolioTrends(
+    portfolioTrends,
+    3,
+    await getCostIndices(),
+    laborShare,
+    currentFiscalYear
+  );
 
-  // Generate 3-year forecast
-  const forecast = forecastPortfolioTrends(portfolioTrends, 3);
+  // Department budgets of the current fiscal year
+  const budgetSummary = await getBudgetSummary(user.customerId, currentFiscalYear);
 
   // Format currency
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-US', {
       style: 'currency',
-      currency: 'USD',
+      currency: reportingCurrency,
       minimumFractionDigits: 0,
       maximumFractionDigits: 0,
     }).format(amount);
@@ -179,6 +221,7 @@ export default async function PortfolioAnalyticsPage() {
               </h1>
               <p className="text-gray-600 mt-1">
                 Advanced cost analysis with forecasting and sensitivity insights
+                {' '}· amounts in {reportingCurrency}
               </p>
             </div>
             <Link
@@ -195,9 +238,17 @@ export default async function PortfolioAnalyticsPage() {
       <main className="max-w-7xl mx-auto px-4 py-8">
         {/* Portfolio Summary */}
         <section className="mb-8">
-          <h2 className="text-2xl font-bold text-gray-900 mb-4">
-            Portfolio Summary
-          </h2>
+          <div className="flex justify-between items-baseline mb-4">
+            <h2 className="text-2xl font-bold text-gray-900">
+              Portfolio Summary
+            </h2>
+            <Link
+              href="/dashboard/estimate-accuracy"
+              className="text-sm text-blue-600 hover:text-blue-800"
+            >
+              How accurate are these totals? →
+            </Link>
+          </div>
           <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
             <div className="bg-white rounded-lg shadow p-6">
               <p className="text-sm text-gray-600 font-medium">
@@ -276,7 +327,7 @@ export default async function PortfolioAnalyticsPage() {
                 <thead>
                   <tr className="border-b">
                     <th className="text-left py-3 px-4 font-medium text-gray-600">
-                      Year
+                      Fiscal Year
                     </th>
                     <th className="text-right py-3 px-4 font-medium text-gray-600">
                       One-Time
@@ -299,7 +350,7 @@ export default async function PortfolioAnalyticsPage() {
                       className="border-b hover:bg-gray-50"
                     >
                       <td className="py-3 px-4 font-medium text-gray-900">
-                        Year {year.year}
+                        FY{year.fiscalYear}
                       </td>
                       <td className="py-3 px-4 text-right text-gray-600">
                         {year.oneTimeLow === year.oneTimeHigh
@@ -333,8 +384,10 @@ export default async function PortfolioAnalyticsPage() {
             <div className="mt-4 p-3 bg-blue-50 border border-blue-200 rounded text-sm text-blue-800">
               <p>
                 <strong>Forecast Note:</strong> Based on current regulations
-                and estimates. Includes 2% annual inflation. Risks identified
-                will be monitored.
+                and estimates. Recurring costs escalate with the configured
+                inflation index, or wage growth for the{' '}
+                {Math.round(laborShare * 100)}% that is labor-driven. Risks
+                identified will be monitored.
               </p>
             </div>
           </div>
@@ -431,6 +484,70 @@ export default async function PortfolioAnalyticsPage() {
           </div>
         </section>
 
+        {/* Budget vs Committed vs Actual */}
+        <section className="mb-8">
+          <h2 className="text-2xl font-bold text-gray-900 mb-4">
+            FY{budgetSummary.fiscalYear} Budgets
+          </h2>
+          <div className="bg-white rounded-lg shadow p-6">
+            {budgetSummary.lines.length > 0 ? (
+              <table className="w-full text-sm">
+                <thead className="border-b border-gray-200">
+                  <tr className="text-left text-xs font-bold text-gray-700 uppercase tracking-wider">
+                    <th className="py-2">Department</th>
+                    <th className="py-2">Budget Code</th>
+                    <th className="py-2 text-right">Budget</th>
+                    <th className="py-2 text-right">Committed</th>
+                    <th className="py-2 text-right">Actual</th>
+                    <th className="py-2 text-right">Remaining</th>
+                    <th className="py-2 text-right">Status</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {budgetSummary.lines.map((line) => {
+                    const status = BUDGET_STATUS_STYLES[line.status];
+                    return (
+                      <tr key={`${line.department}-${line.budgetCode ?? 'none'}`} className="text-gray-900">
+                        <td className="py-2 font-medium">{line.department}</td>
+                        <td className="py-2 text-gray-600">{line.budgetCode ?? '—'}</td>
+                        <td className="py-2 text-right">{formatCurrency(line.budgeted)}</td>
+                        <td className="py-2 text-right">{formatCurrency(line.committed)}</td>
+                        <td className="py-2 text-right">{formatCurrency(line.actual)}</td>
+                        <td className={`py-2 text-right ${line.remaining < 0 ? 'text-red-600 font-medium' : ''}`}>
+                          {formatCurrency(line.remaining)}
+                        </td>
+                        <td className="py-2 text-right">
+                          <span className={`inline-block px-2 py-0.5 rounded text-xs font-medium ${status.className}`}>
+                            {status.label}
+                          </span>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+                <tfoot className="border-t-2 border-gray-300 font-bold text-gray-900">
+                  <tr>
+                    <td className="py-2" colSpan={2}>Total</td>
+                    <td className="py-2 text-right">{formatCurrency(budgetSummary.totals.budgeted)}</td>
+                    <td className="py-2 text-right">{formatCurrency(budgetSummary.totals.committed)}</td>
+                    <td className="py-2 text-right">{formatCurrency(budgetSummary.totals.actual)}</td>
+                    <td className="py-2 text-right">{formatCurrency(budgetSummary.totals.remaining)}</td>
+                    <td />
+                  </tr>
+                </tfoot>
+              </table>
+            ) : (
+              <p className="text-gray-600">
+                No budgets, approved estimates or recorded spend for this fiscal year
+              </p>
+            )}
+            <p className="text-xs text-gray-500 mt-3">
+              Committed is the first-year cost of approved estimates; actual is spend recorded
+              against each department.
+            </p>
+          </div>
+        </section>
+
         {/* Risk Analysis */}
         <section>
           <h2 className="text-2xl font-bold text-gray-900 mb-4">
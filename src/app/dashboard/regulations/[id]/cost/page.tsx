@@ -5,14 +5,28 @@
  * Displays comprehensive cost analysis for a regulation
  */
 
-import { useEffect, useState } from 'react';
-import { useParams, useRouter } from 'next/navigation';
+import { useCallback, useEffect, useState } from 'react';
+import { useParams, useRouter, useSearchParams } from 'next/navigation';
+import Link from 'next/link';
 import CostBreakdownTable from '@/components/cost/CostBreakdownTable';
+import EstimateRevisionPanel from '@/components/cost/EstimateRevisionPanel';
+import ScenarioBuilder from '@/components/cost/ScenarioBuilder';
+import SensitivityPanel from '@/components/cost/SensitivityPanel';
+import SimulationPanel from '@/components/cost/SimulationPanel';
+import VendorQuotePanel from '@/components/cost/VendorQuotePanel';
 import type {
   CostEstimate,
   CostDriver,
   DepartmentCostBreakdown,
+  EstimateRevisionDiff,
+  EstimateRevisionReason,
+  EstimateRevisionSummary,
+  FinancialSettings,
+  FiscalCalendar,
+  MonteCarloResult,
   ScenarioAnalysis,
+  ScenarioKey,
+  SensitivityAnalysis,
 } from '@/types/cost-estimate';
 import { Department } from '@/types/cost-estimate';
 import {
@@ -20,11 +34,17 @@ import {
   formatBoardReportHTML,
   exportBoardReportJSON,
 } from '@/lib/reports/board-report-generator';
+import { toCurrencyCode } from '@/lib/cost-estimator/currency';
 
 interface CostEstimateResponse extends CostEstimate {
   scenarios?: ScenarioAnalysis;
   regulationTitle?: string;
   jurisdiction?: string;
+  companyProfileVersion?: { version: number } | null;
+  revisions?: EstimateRevisionSummary[];
+  diff?: EstimateRevisionDiff | null;
+  staleReasons?: EstimateRevisionReason[];
+  latestRegulationVersionId?: string;
 }
 
 function normalizeEstimate(raw: CostEstimateResponse): CostEstimateResponse {
@@ -45,6 +65,8 @@ function normalizeEstimate(raw: CostEstimateResponse): CostEstimateResponse {
       evidence: driver.evidence as CostDriver['evidence'],
       notes: driver.notes as CostDriver['notes'],
       departmentAlternatives: driver.departmentAlternatives as CostDriver['departmentAlternatives'],
+      ...(driver.currency !== undefined ? { currency: toCurrencyCode(driver.currency) } : {}),
+      ...(typeof driver.quoteId === 'string' ? { quoteId: driver.quoteId } : {}),
     }))
     .filter((driver) => Boolean(driver.description));
 
@@ -69,6 +91,7 @@ function normalizeEstimate(raw: CostEstimateResponse): CostEstimateResponse {
 
   return {
     ...raw,
+    currency: toCurrencyCode(raw.currency),
     costDrivers,
     departmentBreakdown,
   };
@@ -78,29 +101,43 @@ export default function CostEstimatePage() {
   const params = useParams();
   const router = useRouter();
   const regulationVersionId = params.id as string;
+  const searchParams = useSearchParams();
+  const requestedRevision = searchParams.get('revision');
 
   const [estimate, setEstimate] = useState<CostEstimateResponse | null>(null);
   const [loading, setLoading] = useState(true);
   const [generating, setGenerating] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [activeTab, setActiveTab] = useState<'breakdown' | 'simulation' | 'sensitivity'>(
+    'breakdown'
+  );
+  const [simulation, setSimulation] = useState<MonteCarloResult | null>(null);
+  const [simulating, setSimulating] = useState(false);
+  const [sensitivity, setSensitivity] = useState<SensitivityAnalysis | null>(null);
+  const [analyzing, setAnalyzing] = useState(false);
+
+  const loadEstimate = useCallback(async (): Promise<CostEstimateResponse | null> => {
+    const query = requestedRevision ? `?revision=${requestedRevision}` : '';
+    const response = await fetch(
+      `/api/regulations/${regulationVersionId}/cost-estimate${query}`
+    );
+
+    if (response.ok) {
+      return (await response.json()) as CostEstimateResponse;
+    }
+    if (response.status === 404) {
+      // No estimate exists yet
+      return null;
+    }
+    throw new Error('Failed to fetch cost estimate');
+  }, [regulationVersionId, requestedRevision]);
 
   // Fetch existing estimate
   useEffect(() => {
     async function fetchEstimate() {
       try {
-        const response = await fetch(
-          `/api/regulations/${regulationVersionId}/cost-estimate`
-        );
-
-        if (response.ok) {
-          const data = (await response.json()) as CostEstimateResponse;
-          setEstimate(normalizeEstimate(data));
-        } else if (response.status === 404) {
-          // No estimate exists yet
-          setEstimate(null);
-        } else {
-          setError('Failed to fetch cost estimate');
-        }
+        const data = await loadEstimate();
+        setEstimate(data ? normalizeEstimate(data) : null);
       } catch (err) {
         console.error('Error fetching estimate:', err);
         setError('Failed to load cost estimate');
@@ -110,32 +147,138 @@ export default function CostEstimatePage() {
     }
 
     fetchEstimate();
-  }, [regulationVersionId]);
+  }, [loadEstimate]);
+
+  // Simulation and sensitivity belong to a specific revision
+  useEffect(() => {
+    setSimulation(null);
+    setSensitivity(null);
+  }, [estimate?.id]);
+
+  async function loadSimulation(): Promise<MonteCarloResult | null> {
+    if (simulation) return simulation;
+    if (!estimate) return null;
+
+    setSimulating(true);
+    try {
+      const query = estimate.revision ? `?revision=${estimate.revision}` : '';
+      const response = await fetch(
+        `/api/regulations/${regulationVersionId}/cost-estimate/simulation${query}`
+      );
+      if (!response.ok) {
+        setError('Failed to run cost simulation');
+        return null;
+      }
+      const data = (await response.json()) as MonteCarloResult;
+      setSimulation(data);
+      return data;
+    } catch (err) {
+      console.error('Error running simulation:', err);
+      setError('Failed to run cost simulation');
+      return null;
+    } finally {
+      setSimulating(false);
+    }
+  }
+
+  async function loadSensitivity() {
+    if (sensitivity || !estimate) return;
+
+    setAnalyzing(true);
+    try {
+      const query = estimate.revision ? `?revision=${estimate.revision}` : '';
+      const response = await fetch(
+        `/api/regulations/${regulationVersionId}/cost-estimate/sensitivity${query}`
+      );
+      if (!response.ok) {
+        setError('Failed to calculate cost sensitivity');
+        return;
+      }
+      setSensitivity((await response.json()) as SensitivityAnalysis);
+    } catch (err) {
+      console.error('Error calculating sensitivity:', err);
+      setError('Failed to calculate cost sensitivity');
+    } finally {
+      setAnalyzing(false);
+    }
+  }
+
+  // Re-price scenarios after the scenario builder saves or deletes one
+  async function refreshEstimate() {
+    try {
+      const data = await loadEstimate();
+      setEstimate(data ? normalizeEstimate(data) : null);
+    } catch (err) {
+      console.error('Error fetching estimate:', err);
+      setError('Failed to load cost estimate');
+    }
+  }
+
+  // Choose the plan the board report presents as recommended
+  async function handleSelectScenario(key: ScenarioKey) {
+    if (!estimate) return;
+    setError(null);
+
+    const response = await fetch(`/api/cost-estimates/${estimate.id}/selected-scenario`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ scenario: key }),
+    });
+
+    if (!response.ok) {
+      setError('Failed to select scenario');
+      return;
+    }
+    await refreshEstimate();
+  }
+
+  function handleShowSimulation() {
+    setActiveTab('simulation');
+    loadSimulation();
+  }
+
+  function handleShowSensitivity() {
+    setActiveTab('sensitivity');
+    loadSensitivity();
+  }
 
-  // Generate new estimate
-  async function handleGenerateEstimate() {
+  // Generate new estimate; force re-estimates against the latest regulation version
+  async function handleGenerateEstimate(force = false) {
     setGenerating(true);
     setError(null);
 
+    const targetVersionId = force
+      ? estimate?.latestRegulationVersionId || regulationVersionId
+      : regulationVersionId;
+
     try {
       const response = await fetch(
-        `/api/regulations/${regulationVersionId}/cost-estimate`,
+        `/api/regulations/${targetVersionId}/cost-estimate`,
         {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({
             useAI: false, // Use deterministic by default to minimize costs
+            force,
           }),
         }
       );
 
-      if (response.ok) {
-        const data = (await response.json()) as CostEstimateResponse;
-        setEstimate(normalizeEstimate(data));
-      } else {
+      if (!response.ok) {
         const errorData = await response.json();
         setError(errorData.error || 'Failed to generate cost estimate');
+        return;
       }
+
+      const created = (await response.json()) as CostEstimateResponse;
+      if (targetVersionId !== regulationVersionId || requestedRevision) {
+        router.push(`/dashboard/regulations/${targetVersionId}/cost`);
+        return;
+      }
+
+      // Reload for revision history
+      const data = await loadEstimate();
+      setEstimate(normalizeEstimate(data ?? created));
     } catch (err) {
       console.error('Error generating estimate:', err);
       setError('Failed to generate cost estimate');
@@ -144,15 +287,30 @@ export default function CostEstimatePage() {
     }
   }
 
+  // Fiscal calendar the board report labels dates with (calendar year if unavailable)
+  async function loadFiscalCalendar(): Promise<FiscalCalendar | undefined> {
+    try {
+      const response = await fetch('/api/financial-settings');
+      if (!response.ok) return undefined;
+      const settings = (await response.json()) as FinancialSettings;
+      return settings.fiscalCalendar;
+    } catch (err) {
+      console.error('Error loading fiscal calendar:', err);
+      return undefined;
+    }
+  }
+
   // Export board report as HTML
-  function handleExportHTML() {
+  async function handleExportHTML() {
     if (!estimate || !estimate.scenarios) return;
 
     const report = generateBoardReport(
       estimate,
       estimate.scenarios,
       estimate.regulationTitle || 'Regulation',
-      estimate.jurisdiction || 'Unknown'
+      estimate.jurisdiction || 'Unknown',
+      (await loadSimulation()) ?? undefined,
+      await loadFiscalCalendar()
     );
 
     const html = formatBoardReportHTML(report);
@@ -166,14 +324,16 @@ export default function CostEstimatePage() {
   }
 
   // Export board report as JSON
-  function handleExportJSON() {
+  async function handleExportJSON() {
     if (!estimate || !estimate.scenarios) return;
 
     const report = generateBoardReport(
       estimate,
       estimate.scenarios,
       estimate.regulationTitle || 'Regulation',
-      estimate.jurisdiction || 'Unknown'
+      estimate.jurisdiction || 'Unknown',
+      (await loadSimulation()) ?? undefined,
+      await loadFiscalCalendar()
     );
 
     const json = exportBoardReportJSON(report);
@@ -209,7 +369,7 @@ export default function CostEstimatePage() {
               No cost estimate has been generated for this regulation yet.
             </p>
             <button
-              onClick={handleGenerateEstimate}
+              onClick={() => handleGenerateEstimate()}
               disabled={generating}
               className="bg-blue-600 text-white px-6 py-3 rounded-md hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors font-medium"
             >
@@ -260,12 +420,127 @@ export default function CostEstimatePage() {
           </div>
         </div>
 
-        {/* Cost Breakdown */}
-        <CostBreakdownTable
-          estimate={estimate}
-          scenarios={estimate.scenarios}
-          regulationTitle={estimate.regulationTitle}
-        />
+        {/* Revision History */}
+        {estimate.revision !== undefined && estimate.revisions && (
+          <div className="mb-6">
+            <EstimateRevisionPanel
+              revision={estimate.revision}
+              revisions={estimate.revisions}
+              diff={estimate.diff ?? null}
+              staleReasons={estimate.staleReasons ?? []}
+              reestimating={generating}
+              onSelectRevision={(revision) =>
+                router.push(
+                  `/dashboard/regulations/${regulationVersionId}/cost?revision=${revision}`
+                )
+              }
+              onReestimate={() => handleGenerateEstimate(true)}
+              currency={estimate.currency}
+            />
+          </div>
+        )}
+
+        {error && (
+          <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-md text-red-700">
+            {error}
+          </div>
+        )}
+
+        {/* Tabs */}
+        <div className="flex gap-2 mb-4">
+          <button
+            onClick={() => setActiveTab('breakdown')}
+            className={`px-4 py-2 rounded-md text-sm font-medium transition-colors ${
+              activeTab === 'breakdown'
+                ? 'bg-blue-600 text-white'
+                : 'bg-white text-gray-700 border border-gray-300 hover:bg-gray-50'
+            }`}
+          >
+            Breakdown
+          </button>
+          <button
+            onClick={handleShowSimulation}
+            className={`px-4 py-2 rounded-md text-sm font-medium transition-colors ${
+              activeTab === 'simulation'
+                ? 'bg-blue-600 text-white'
+                : 'bg-white text-gray-700 border border-gray-300 hover:bg-gray-50'
+            }`}
+          >
+            Simulation
+          </button>
+          <button
+            onClick={handleShowSensitivity}
+            className={`px-4 py-2 rounded-md text-sm font-medium transition-colors ${
+              activeTab === 'sensitivity'
+                ? 'bg-blue-600 text-white'
+                : 'bg-white text-gray-700 border border-gray-300 hover:bg-gray-50'
+            }`}
+          >
+            Sensitivity
+          </button>
+        </div>
+
+        {activeTab === 'breakdown' ? (
+          <>
+            <CostBreakdownTable
+              estimate={estimate}
+              scenarios={estimate.scenarios}
+              regulationTitle={estimate.regulationTitle}
+              onSelectScenario={handleSelectScenario}
+            />
+            {estimate.scenarios && (
+              <div className="max-w-6xl mx-auto px-4">
+                <ScenarioBuilder
+                  costEstimateId={estimate.id}
+                  drivers={estimate.costDrivers}
+                  customScenarios={estimate.scenarios.custom ?? []}
+                  onChange={refreshEstimate}
+                  currency={estimate.currency}
+                />
+                <div className="mt-6">
+                  <VendorQuotePanel
+                    costEstimateId={estimate.id}
+                    drivers={estimate.costDrivers}
+                    onChange={refreshEstimate}
+                    currency={estimate.currency}
+                  />
+                </div>
+              </div>
+            )}
+          </>
+        ) : activeTab === 'simulation' ? (
+          simulation ? (
+            <SimulationPanel simulation={simulation} currency={estimate.currency} />
+          ) : (
+            <div className="bg-white shadow-md rounded-lg p-8 text-center text-gray-600">
+              {simulating ? 'Running simulation...' : 'Simulation unavailable'}
+            </div>
+          )
+        ) : sensitivity ? (
+          <SensitivityPanel sensitivity={sensitivity} currency={estimate.currency} />
+        ) : (
+          <div className="bg-white shadow-md rounded-lg p-8 text-center text-gray-600">
+            {analyzing ? 'Calculating sensitivity...' : 'Sensitivity analysis unavailable'}
+          </div>
+        )}
+
+        {/* Company Profile Used */}
+        {estimate.companyProfileJson && (
+          <div className="mt-4 text-sm text-gray-600">
+            Estimated with{' '}
+            {estimate.companyProfileVersion
+              ? `company profile v${estimate.companyProfileVersion.version}`
+              : 'default company profile'}
+            : {estimate.companyProfileJson.industry.toLowerCase()},{' '}
+            {estimate.companyProfileJson.employeeCount.toLocaleString()} employees,{' '}
+            {estimate.companyProfileJson.geographicComplexity} jurisdiction
+            {estimate.companyProfileJson.geographicComplexity !== 1 ? 's' : ''}, tech maturity{' '}
+            {estimate.companyProfileJson.techMaturity.toLowerCase()}.{' '}
+            <Link href="/dashboard/settings" className="text-blue-600 hover:underline">
+              Edit profile
+            </Link>
+          </div>
+        )}
 
         {/* Additional Actions */}
         <div className="mt-8 bg-white shadow-md rounded-lg p-6">
@@ -274,11 +549,11 @@ export default function CostEstimatePage() {
           </h3>
           <div className="space-y-3">
             <button
-              onClick={handleGenerateEstimate}
+              onClick={() => handleGenerateEstimate(true)}
               disabled={generating}
               className="w-full bg-blue-600 text-white px-4 py-3 rounded-md hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors font-medium"
             >
-              {generating ? 'Regenerating...' : 'Regenerate Estimate'}
+              {generating ? 'Re-estimating...' : 'Re-estimate'}
             </button>
             <button
               onClick={() =>
@@ -9,6 +9,7 @@ import prisma from '@/lib/prisma';
 import { auth } from '@/auth.config';
 import DiffComparison from '@/components/regulations/DiffComparison';
 import { formatDate } from '@/lib/utils/format';
+import { buildVersionTimeline } from '@/lib/regulations/version-history';
 
 interface RegulationDetailPageProps {
   params: Promise<{ id: string }>;
@@ -51,13 +52,28 @@ export default async function RegulationDetailPage(
     redirect('/dashboard/regulations');
   }
 
-  // Check if cost estimate exists for latest version
+  // Version history with each version's change from its predecessor
+  const sequentialDiffs = await prisma.policyDiff.findMany({
+    where: { sequential: true, regulationVersion: { regulationId: regulation.id } },
+    select: {
+      id: true,
+      regulationVersionId: true,
+      previousVersionId: true,
+      significanceScore: true,
+      summary: true,
+      keyChanges: true,
+    },
+  });
+  const timeline = buildVersionTimeline(regulation.versions, sequentialDiffs);
+
+  // Current cost estimate for this regulation (may predate the latest version)
   const latestVersion = regulation.versions[0];
   const costEstimate = latestVersion
     ? await prisma.costEstimate.findFirst({
         where: {
-          regulationVersionId: latestVersion.id,
           customerId: user.customerId,
+          supersededAt: null,
+          regulationVersion: { regulationId: regulation.id },
         },
       })
     : null;
@@ -139,7 +155,7 @@ export default async function RegulationDetailPage(
                       clipRule="evenodd"
                     />
                   </svg>
-                  Estimate Available
+                  Estimate Available · Revision {costEstimate.revision}
                 </span>
               )}
             </div>
@@ -161,7 +177,10 @@ export default async function RegulationDetailPage(
         ) : (
           <DiffComparison
             regulationId={id}
+            regulationTitle={regulation.title}
+            jurisdiction={regulation.jurisdiction?.name}
             versions={regulation.versions}
+            timeline={timeline}
           />
         )}
       </main>
@@ -1,6 +1,8 @@
 /**
  * Regulations List Page
- * Shows all regulations for the customer's monitored jurisdictions
+ * Shows regulations relevant to the customer (watched or applicable) with
+ * watch status, applicability, watchlist suggestions and subscription rules
+ * ?view=watched|all switches the listing
  */
 
 import { redirect } from 'next/navigation';
@@ -8,8 +10,29 @@ import Link from 'next/link';
 import prisma from '@/lib/prisma';
 import { auth } from '@/auth.config';
 import { formatDate } from '@/lib/utils/format';
+import { resolveWatchReasons } from '@/lib/regulations/subscriptions';
+import { evaluateApplicability } from '@/lib/regulations/applicability';
+import ApplicabilityBadge from '@/components/regulations/ApplicabilityBadge';
+import SubscriptionToggle from '@/components/regulations/SubscriptionToggle';
+import SubscriptionRulesPanel from '@/components/regulations/SubscriptionRulesPanel';
+
+type RegulationsView = 'relevant' | 'watched' | 'all';
+
+const VIEWS: Array<{ key: RegulationsView; label: string }> = [
+  { key: 'relevant', label: 'Relevant' },
+  { key: 'watched', label: 'Watching' },
+  { key: 'all', label: 'All' },
+];
+
+const MAX_SUGGESTIONS = 5;
+
+export default async function RegulationsPage(props: {
+  searchParams: Promise<{ view?: string }>;
+}) {
+  const searchParams = await props.searchParams;
+  const view: RegulationsView =
+    VIEWS.find((option) => option.key === searchParams.view)?.key ?? 'relevant';
 
-export default async function RegulationsPage() {
   // Authenticate
   const session = await auth();
   if (!session?.user?.email) {
@@ -22,20 +45,83 @@ export default async function RegulationsPage() {
     include: { customer: true },
   });
 
-  if (!user?.customerId) {
+  if (!user?.customer) {
     redirect('/login');
   }
+  const customer = user.customer;
+
+  // Fetch all regulations with the customer's subscriptions and rules
+  const [regulations, subscriptions, rules, jurisdictions] = await Promise.all([
+    prisma.regulation.findMany({
+      include: {
+        jurisdiction: true,
+        versions: { orderBy: { versionNumber: 'desc' } },
+      },
+      orderBy: { createdAt: 'desc' },
+    }),
+    prisma.customerRegulationSubscription.findMany({
+      where: { customerId: customer.id },
+      select: { id: true, regulationId: true },
+    }),
+    prisma.subscriptionRule.findMany({
+      where: { customerId: customer.id },
+      include: { jurisdiction: { select: { code: true, name: true } } },
+      orderBy: { createdAt: 'asc' },
+    }),
+    prisma.jurisdiction.findMany({
+      select: { id: true, code: true, name: true },
+      orderBy: { name: 'asc' },
+    }),
+  ]);
+
+  const subscriptionIds = new Map(
+    subscriptions.map((subscription) => [subscription.regulationId, subscription.id])
+  );
+  const watchReasons = resolveWatchReasons(
+    regulations,
+    new Set(subscriptionIds.keys()),
+    rules
+  );
+  const applicability = new Map(
+    regulations.map((regulation) => [
+      regulation.id,
+      evaluateApplicability(
+        {
+          id: regulation.id,
+          jurisdiction: regulation.jurisdiction,
+          contentText: regulation.versions[0]?.contentText ?? null,
+        },
+        customer
+      ),
+    ])
+  );
 
-  // Fetch all regulations
-  // Note: Add customer-based filtering when jurisdiction monitoring is implemented in schema
-  const regulations = await prisma.regulation.findMany({
-    include: {
-      jurisdiction: true,
-      versions: true,
-    },
-    orderBy: { createdAt: 'desc' },
+  const suggestions = regulations
+    .filter(
+      (regulation) =>
+        !watchReasons.has(regulation.id) &&
+        applicability.get(regulation.id)?.status === 'APPLICABLE'
+    )
+    .sort(
+      (a, b) =>
+        (applicability.get(b.id)?.confidence ?? 0) -
+        (applicability.get(a.id)?.confidence ?? 0)
+    )
+    .slice(0, MAX_SUGGESTIONS);
+
+  const visibleRegulations = regulations.filter((regulation) => {
+    if (view === 'all') return true;
+    if (view === 'watched') return watchReasons.has(regulation.id);
+    return (
+      watchReasons.has(regulation.id) ||
+      Boolean(applicability.get(regulation.id)?.applies)
+    );
   });
 
+  const regulationTypes = [
+    ...new Set(regulations.map((regulation) => regulation.regulationType)),
+  ].sort();
+
   return (
     <div className="min-h-screen bg-gray-100">
       {/* Header */}
@@ -44,7 +130,7 @@ export default async function RegulationsPage() {
           <div>
             <h1 className="text-2xl font-bold text-gray-900">Regulations</h1>
             <p className="text-gray-600 text-sm mt-1">
-              Monitoring {regulations.length} regulation
+              Watching {watchReasons.size} of {regulations.length} regulation
               {regulations.length !== 1 ? 's' : ''}
             </p>
           </div>
@@ -59,13 +145,81 @@ export default async function RegulationsPage() {
 
       {/* Main Content */}
       <main className="max-w-6xl mx-auto px-4 py-8">
-        {regulations.length === 0 ? (
+        <SubscriptionRulesPanel
+          rules={rules}
+          jurisdictions={jurisdictions}
+          regulationTypes={regulationTypes}
+        />
+
+        {/* Watchlist Suggestions */}
+        {suggestions.length > 0 && (
+          <div className="bg-white shadow-md rounded-lg p-6 border border-gray-200 mb-6">
+            <h3 className="text-lg font-semibold text-gray-900 mb-1">
+              Suggested for {customer.companyName}
+            </h3>
+            <p className="text-sm text-gray-600 mb-4">
+              These regulations appear to apply to you but are not on your watchlist.
+            </p>
+            <ul className="divide-y divide-gray-200">
+              {suggestions.map((regulation) => {
+                const result = applicability.get(regulation.id)!;
+                return (
+                  <li key={regulation.id} className="py-3 flex justify-between items-start gap-4">
+                    <div>
+                      <Link
+                        href={`/dashboard/regulations/${regulation.id}`}
+                        className="text-blue-600 font-medium hover:underline"
+                      >
+                        {regulation.title}
+                      </Link>
+                      <p className="text-xs text-gray-600 mt-1">
+                        {result.reasons.map((reason) => reason.detail).join(' · ')}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-3">
+                      <ApplicabilityBadge result={result} />
+                      <SubscriptionToggle
+                        regulationId={regulation.id}
+                        subscriptionId={null}
+                        watchReason={null}
+                      />
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        )}
+
+        {/* View Filter */}
+        <div className="flex gap-2 mb-4">
+          {VIEWS.map((option) => (
+            <Link
+              key={option.key}
+              href={option.key === 'relevant' ? '/dashboard/regulations' : `/dashboard/regulations?view=${option.key}`}
+              className={`px-3 py-1.5 rounded-md text-sm font-medium transition-colors ${
+                view === option.key
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-white text-gray-700 border border-gray-300 hover:bg-gray-50'
+              }`}
+            >
+              {option.label}
+            </Link>
+          ))}
+          <span className="ml-auto self-center text-sm text-gray-600">
+            Showing {visibleRegulations.length} of {regulations.length}
+          </span>
+        </div>
+
+        {visibleRegulations.length === 0 ? (
           <div className="bg-white shadow-md rounded-lg p-12 text-center">
             <h2 className="text-xl font-semibold text-gray-900 mb-2">
               No regulations found
             </h2>
             <p className="text-gray-600 mb-6">
-              Start monitoring regulations by adding a jurisdiction
+              {view === 'all'
+                ? 'Start monitoring regulations by adding a jurisdiction'
+                : 'Nothing matches this view yet. Add a subscription rule or browse all regulations.'}
             </p>
             <Link
               href="/dashboard"
@@ -97,13 +251,19 @@ export default async function RegulationsPage() {
                   <th className="px-6 py-3 text-left text-xs font-bold text-gray-700 uppercase tracking-wider">
                     Cost Estimate
                   </th>
+                  <th className="px-6 py-3 text-left text-xs font-bold text-gray-700 uppercase tracking-wider">
+                    Applicability
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-bold text-gray-700 uppercase tracking-wider">
+                    Watch
+                  </th>
                   <th className="px-6 py-3 text-left text-xs font-bold text-gray-700 uppercase tracking-wider">
                     Action
                   </th>
                 </tr>
               </thead>
               <tbody className="divide-y divide-gray-200">
-                {regulations.map((regulation) => (
+                {visibleRegulations.map((regulation) => (
                   <tr
                     key={regulation.id}
                     className="hover:bg-gray-50 transition-colors"
@@ -151,6 +311,16 @@ export default async function RegulationsPage() {
                         Costs
                       </Link>
                     </td>
+                    <td className="px-6 py-4">
+                      <ApplicabilityBadge result={applicability.get(regulation.id)!} />
+                    </td>
+                    <td className="px-6 py-4">
+                      <SubscriptionToggle
+                        regulationId={regulation.id}
+                        subscriptionId={subscriptionIds.get(regulation.id) ?? null}
+                        watchReason={watchReasons.get(regulation.id) ?? null}
+                      />
+                    </td>
                     <td className="px-6 py-4">
                       <Link
                         href={`/dashboard/regulations/${regulation.id}`}
@@ -0,0 +1,64 @@
+/**
+ * Benchmark Library Page
+ * Review the cost benchmarks behind deterministic cost drivers;
+ * administrators can edit, import and export the library
+ */
+
+import { redirect } from 'next/navigation';
+import Link from 'next/link';
+import { auth } from '@/auth.config';
+import {
+  BUILTIN_COST_BENCHMARKS,
+  listBenchmarks,
+  toPortableBenchmark,
+} from '@/lib/cost-estimator';
+import BenchmarkLibraryManager, {
+  type BenchmarkRow,
+} from '@/components/settings/BenchmarkLibraryManager';
+
+export default async function BenchmarkLibraryPage() {
+  // Authenticate
+  const session = await auth();
+  if (!session?.user?.email) {
+    redirect('/login');
+  }
+
+  const records = await listBenchmarks();
+  const usingBuiltins = records.length === 0;
+  const benchmarks: BenchmarkRow[] = usingBuiltins
+    ? BUILTIN_COST_BENCHMARKS.map((benchmark) => ({ ...benchmark, id: `builtin-${benchmark.key}` }))
+    : records.map((record) => ({ ...toPortableBenchmark(record), id: record.id }));
+
+  return (
+    <div className="min-h-screen bg-gray-100">
+      {/* Header */}
+      <header className="bg-white shadow-sm">
+        <div className="max-w-6xl mx-auto px-4 py-4 flex justify-between items-center">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Cost Benchmarks</h1>
+            <p className="text-gray-600 text-sm mt-1">
+              {benchmarks.filter((benchmark) => benchmark.active).length} active of{' '}
+              {benchmarks.length}
+              {session.user.role !== 'ADMIN' && ' · read-only'}
+            </p>
+          </div>
+          <Link
+            href="/dashboard/settings"
+            className="text-blue-600 hover:text-blue-700 font-medium"
+          >
+            ← Settings
+          </Link>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-6xl mx-auto px-4 py-8">
+        <BenchmarkLibraryManager
+          benchmarks={benchmarks}
+          isAdmin={session.user.role === 'ADMIN'}
+          usingBuiltins={usingBuiltins}
+        />
+      </main>
+    </div>
+  );
+}
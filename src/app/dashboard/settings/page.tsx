@@ -0,0 +1,143 @@
+/**
+ * Settings Page
+ * Edit the company profile used by default for every cost estimate,
+ * review earlier profile versions and set the scenario discount rate
+ */
+
+import { redirect } from 'next/navigation';
+import Link from 'next/link';
+import prisma from '@/lib/prisma';
+import { auth } from '@/auth.config';
+import { formatDate } from '@/lib/utils/format';
+import {
+  listCompanyProfileVersions,
+  resolveCompanyProfile,
+} from '@/lib/customers/company-profile';
+import { getFinancialSettings } from '@/lib/customers/financial-settings';
+import CompanyProfileForm from '@/components/settings/CompanyProfileForm';
+import FinancialSettingsForm from '@/components/settings/FinancialSettingsForm';
+import { RiskLevel } from '@/types/cost-estimate';
+
+export default async function SettingsPage() {
+  // Authenticate
+  const session = await auth();
+  if (!session?.user?.email) {
+    redirect('/login');
+  }
+
+  // Fetch user and their customer
+  const user = await prisma.user.findUnique({
+    where: { email: session.user.email },
+    include: { customer: true },
+  });
+
+  if (!user?.customer) {
+    redirect('/login');
+  }
+  const customer = user.customer;
+
+  const [current, versions, jurisdictions, financialSettings] = await Promise.all([
+    resolveCompanyProfile(customer.id),
+    listCompanyProfileVersions(customer.id),
+    prisma.jurisdiction.findMany({
+      select: { code: true, name: true },
+      orderBy: { name: 'asc' },
+    }),
+    getFinancialSettings(customer.id),
+  ]);
+
+  const latest = versions[0];
+  const operatingJurisdictions = latest?.operatingJurisdictions ?? customer.operatingJurisdictions;
+
+  return (
+    <div className="min-h-screen bg-gray-100">
+      {/* Header */}
+      <header className="bg-white shadow-sm">
+        <div className="max-w-4xl mx-auto px-4 py-4 flex justify-between items-center">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Settings</h1>
+            <p className="text-gray-600 text-sm mt-1">
+              {customer.companyName} ·{' '}
+              {current.profileVersion
+                ? `Company profile v${current.profileVersion}`
+                : 'No saved company profile yet'}
+            </p>
+          </div>
+          <div className="flex gap-4">
+            <Link
+              href="/dashboard/settings/benchmarks"
+              className="text-blue-600 hover:text-blue-700 font-medium"
+            >
+              Cost Benchmarks
+            </Link>
+            <Link
+              href="/dashboard"
+              className="text-blue-600 hover:text-blue-700 font-medium"
+            >
+              ← Dashboard
+            </Link>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-4xl mx-auto px-4 py-8 space-y-6">
+        <CompanyProfileForm
+          initialProfile={{
+            industry: current.profile.industry,
+            employeeCount: current.profile.employeeCount,
+            revenue: current.profile.revenue ?? null,
+            techMaturity: current.profile.techMaturity,
+            riskAppetite: current.profile.riskAppetite ?? RiskLevel.LOW,
+            operatingJurisdictions,
+          }}
+          jurisdictions={jurisdictions}
+        />
+
+        <FinancialSettingsForm initialSettings={financialSettings} />
+
+        {/* Version History */}
+        <div className="bg-white shadow-md rounded-lg p-6 border border-gray-200">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">Profile History</h3>
+          {versions.length === 0 ? (
+            <p className="text-sm text-gray-500">
+              Estimates currently use defaults derived from your account. Saving the
+              profile creates version 1.
+            </p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead className="border-b border-gray-200">
+                <tr className="text-left text-xs font-bold text-gray-700 uppercase tracking-wider">
+                  <th className="py-2">Version</th>
+                  <th className="py-2">Industry</th>
+                  <th className="py-2">Employees</th>
+                  <th className="py-2">Jurisdictions</th>
+                  <th className="py-2">Tech / Risk</th>
+                  <th className="py-2">Saved</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {versions.map((version) => (
+                  <tr key={version.id} className="text-gray-900">
+                    <td className="py-2 font-semibold">v{version.version}</td>
+                    <td className="py-2">{version.industry}</td>
+                    <td className="py-2">{version.employeeCount.toLocaleString()}</td>
+                    <td className="py-2">
+                      {version.operatingJurisdictions.join(', ') || '-'}
+                    </td>
+                    <td className="py-2">
+                      {version.techMaturity} / {version.riskAppetite}
+                    </td>
+                    <td className="py-2 text-gray-600">
+                      {formatDate(version.createdAt)} by {version.createdBy}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
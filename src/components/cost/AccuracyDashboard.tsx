@@ -0,0 +1,201 @@
+'use client';
+
+/**
+ * AccuracyDashboard Component
+ * Accuracy of estimates against recorded actuals: MAPE, bias and band
+ * coverage per group of the selected dimension, and their quarterly trend
+ */
+
+import { useState } from 'react';
+import {
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import { ACCURACY_BIAS_THRESHOLD, MIN_BAND_COVERAGE } from '@/lib/cost-estimator/accuracy';
+import type {
+  AccuracyDimension,
+  AccuracyMetrics,
+  AccuracyTrendPoint,
+  EstimateAccuracyReport,
+} from '@/types/cost-estimate';
+
+interface AccuracyDashboardProps {
+  report: EstimateAccuracyReport;
+}
+
+const DIMENSIONS: Array<{ key: AccuracyDimension; label: string }> = [
+  { key: 'category', label: 'Cost Category' },
+  { key: 'department', label: 'Department' },
+  { key: 'estimationMethod', label: 'Estimation Method' },
+  { key: 'industry', label: 'Industry' },
+  { key: 'jurisdiction', label: 'Jurisdiction' },
+];
+
+function formatBias(value: number | null): string {
+  if (value === null) return '—';
+  return `${value > 0 ? '+' : ''}${value}%`;
+}
+
+function formatShare(value: number): string {
+  return `${Math.round(value * 100)}%`;
+}
+
+function formatKey(key: string, dimension: AccuracyDimension): string {
+  // Jurisdiction codes are shown as stored
+  if (dimension === 'jurisdiction' && key !== 'UNKNOWN') return key;
+  return key.replace(/_/g, ' ').toLowerCase().replace(/^\w/, (letter) => letter.toUpperCase());
+}
+
+function MetricCells({ metrics }: { metrics: AccuracyMetrics }) {
+  return (
+    <>
+      <td className="py-2 text-right">{metrics.mape}%</td>
+      <td className={`py-2 text-right ${Math.abs(metrics.bias) > ACCURACY_BIAS_THRESHOLD ? 'text-red-600 font-medium' : ''}`}>
+        {formatBias(metrics.bias)}
+      </td>
+      <td className="py-2 text-right">
+        {metrics.recurringMape === null ? '—' : `${metrics.recurringMape}%`}
+      </td>
+      <td className={`py-2 text-right ${metrics.bandCoverage < MIN_BAND_COVERAGE ? 'text-amber-700 font-medium' : ''}`}>
+        {formatShare(metrics.bandCoverage)}
+      </td>
+      <td className="py-2 text-right text-gray-600">
+        {formatShare(metrics.belowBand)} / {formatShare(metrics.aboveBand)}
+      </td>
+    </>
+  );
+}
+
+function TrendChart({ trend }: { trend: AccuracyTrendPoint[] }) {
+  if (trend.length === 0) {
+    return <p className="text-sm text-gray-600">No feedback recorded yet</p>;
+  }
+
+  const data = trend.map((point) => ({
+    period: point.period,
+    mape: point.mape,
+    bias: point.bias,
+    coverage: Math.round(point.bandCoverage * 100),
+  }));
+
+  return (
+    <ResponsiveContainer width="100%" height={260}>
+      <LineChart data={data} margin={{ left: 8, right: 24 }}>
+        <CartesianGrid strokeDasharray="3 3" />
+        <XAxis dataKey="period" fontSize={11} />
+        <YAxis tickFormatter={(value: number) => `${value}%`} fontSize={11} />
+        <Tooltip formatter={(value: number) => `${value}%`} />
+        <Legend />
+        <ReferenceLine y={0} stroke="#374151" />
+        <Line type="monotone" dataKey="mape" name="MAPE" stroke="#2563eb" />
+        <Line type="monotone" dataKey="bias" name="Bias" stroke="#dc2626" />
+        <Line type="monotone" dataKey="coverage" name="Inside band" stroke="#16a34a" />
+      </LineChart>
+    </ResponsiveContainer>
+  );
+}
+
+export default function AccuracyDashboard({ report }: AccuracyDashboardProps) {
+  const [dimension, setDimension] = useState<AccuracyDimension>('category');
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+
+  const groups = report.byDimension[dimension];
+  const selected = groups.find((group) => group.key === selectedKey) ?? null;
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg shadow p-6">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-semibold text-gray-900">
+            Accuracy Over Time{selected ? `: ${formatKey(selected.key, dimension)}` : ''}
+          </h3>
+          {selected && (
+            <button
+              onClick={() => setSelectedKey(null)}
+              className="text-sm text-blue-600 hover:text-blue-800"
+            >
+              Show all estimates
+            </button>
+          )}
+        </div>
+        <TrendChart trend={selected ? selected.trend : report.trend} />
+        <p className="text-xs text-gray-500 mt-2">
+          By fiscal quarter the estimate was made. Positive bias means actual costs came in above
+          the estimate.
+        </p>
+      </div>
+
+      <div className="bg-white rounded-lg shadow p-6">
+        <div className="flex flex-wrap gap-2 mb-4">
+          {DIMENSIONS.map((entry) => (
+            <button
+              key={entry.key}
+              onClick={() => {
+                setDimension(entry.key);
+                setSelectedKey(null);
+              }}
+              className={`px-3 py-1.5 rounded-md text-sm font-medium transition-colors ${
+                dimension === entry.key
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              {entry.label}
+            </button>
+          ))}
+        </div>
+
+        {groups.length === 0 ? (
+          <p className="text-sm text-gray-600">No feedback recorded yet</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead className="border-b border-gray-200">
+              <tr className="text-left text-xs font-bold text-gray-700 uppercase tracking-wider">
+                <th className="py-2">{DIMENSIONS.find((entry) => entry.key === dimension)?.label}</th>
+                <th className="py-2 text-right">Estimates</th>
+                <th className="py-2 text-right">MAPE</th>
+                <th className="py-2 text-right">Bias</th>
+                <th className="py-2 text-right">Recurring MAPE</th>
+                <th className="py-2 text-right">Inside Band</th>
+                <th className="py-2 text-right">Below / Above</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {groups.map((group) => (
+                <tr
+                  key={group.key}
+                  onClick={() => setSelectedKey(group.key === selectedKey ? null : group.key)}
+                  className={`cursor-pointer text-gray-900 ${
+                    group.key === selectedKey ? 'bg-blue-50' : 'hover:bg-gray-50'
+                  }`}
+                >
+                  <td className="py-2 font-medium">{formatKey(group.key, dimension)}</td>
+                  <td className="py-2 text-right">
+                    {group.sampleCount}
+                    {group.weight !== group.sampleCount && (
+                      <span className="text-xs text-gray-500"> ({group.weight} weighted)</span>
+                    )}
+                  </td>
+                  <MetricCells metrics={group} />
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+        {(dimension === 'category' || dimension === 'department') && (
+          <p className="text-xs text-gray-500 mt-3">
+            Actuals are reported per estimate, so each estimate counts toward a{' '}
+            {dimension === 'category' ? 'category' : 'department'} by its share of the driver cost.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
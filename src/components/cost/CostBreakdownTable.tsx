@@ -8,7 +8,14 @@
  */
 
 import { useState } from 'react';
-import { Department, type CostEstimate, type ScenarioAnalysis } from '@/types/cost-estimate';
+import {
+  Department,
+  type BuiltInScenarioKey,
+  type CostEstimate,
+  type ScenarioAnalysis,
+  type ScenarioKey,
+} from '@/types/cost-estimate';
+import { resolveSelectedScenario } from '@/lib/cost-estimator/scenario-builder';
 import SummaryCard from './SummaryCard';
 import DepartmentRow from './DepartmentRow';
 import ScenarioCard from './ScenarioCard';
@@ -18,14 +25,25 @@ interface CostBreakdownTableProps {
   estimate: CostEstimate;
   scenarios?: ScenarioAnalysis;
   regulationTitle?: string;
+  onSelectScenario?: (key: ScenarioKey) => void;
 }
 
+const BUILT_IN_SCENARIOS: { key: BuiltInScenarioKey; wrapperClassName?: string }[] = [
+  { key: 'minimal' },
+  { key: 'standard' },
+  { key: 'bestInClass' },
+  { key: 'delay90Days', wrapperClassName: 'border-red-200 bg-red-50' },
+];
+
 export default function CostBreakdownTable({
   estimate,
   scenarios,
   regulationTitle,
+  onSelectScenario,
 }: CostBreakdownTableProps) {
   const [expandedDepartment, setExpandedDepartment] = useState<Department | null>(null);
+  const planKey = scenarios ? resolveSelectedScenario(scenarios).key : null;
+  const currency = estimate.currency;
 
   // Calculate 3-year total
   const threeYearTotalLow = estimate.oneTimeCostLow + estimate.recurringCostAnnual * 3;
@@ -47,20 +65,22 @@ export default function CostBreakdownTable({
       <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
         <SummaryCard
           label="One-Time Cost"
-          value={`${formatCurrency(estimate.oneTimeCostLow)} - ${formatCurrency(
-            estimate.oneTimeCostHigh
+          value={`${formatCurrency(estimate.oneTimeCostLow, currency)} - ${formatCurrency(
+            estimate.oneTimeCostHigh,
+            currency
           )}`}
           description="Initial implementation and setup"
         />
         <SummaryCard
           label="Annual Recurring Cost"
-          value={formatCurrency(estimate.recurringCostAnnual)}
+          value={formatCurrency(estimate.recurringCostAnnual, currency)}
           description="Ongoing compliance and maintenance"
         />
         <SummaryCard
           label="3-Year Total Exposure"
-          value={`${formatCurrency(threeYearTotalLow)} - ${formatCurrency(
-            threeYearTotalHigh
+          value={`${formatCurrency(threeYearTotalLow, currency)} - ${formatCurrency(
+            threeYearTotalHigh,
+            currency
           )}`}
           description="Total cost of compliance over 3 years"
           accentClassName="border-2 border-blue-200"
@@ -99,6 +119,7 @@ export default function CostBreakdownTable({
             <DepartmentRow
               key={dept.department}
               dept={dept}
+              currency={currency}
               isExpanded={expandedDepartment === dept.department}
               onToggle={() =>
                 setExpandedDepartment(
@@ -117,23 +138,26 @@ export default function CostBreakdownTable({
             Implementation Scenarios
           </h3>
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
-            <ScenarioCard
-              scenario={scenarios.minimal}
-              isRecommended={scenarios.recommended === 'minimal'}
-            />
-            <ScenarioCard
-              scenario={scenarios.standard}
-              isRecommended={scenarios.recommended === 'standard'}
-            />
-            <ScenarioCard
-              scenario={scenarios.bestInClass}
-              isRecommended={scenarios.recommended === 'bestInClass'}
-            />
-            <ScenarioCard
-              scenario={scenarios.delay90Days}
-              isRecommended={scenarios.recommended === 'delay90Days'}
-              wrapperClassName="border-red-200 bg-red-50"
-            />
+            {BUILT_IN_SCENARIOS.map(({ key, wrapperClassName }) => (
+              <ScenarioCard
+                key={key}
+                scenario={scenarios[key]}
+                currency={currency}
+                isRecommended={planKey === key}
+                wrapperClassName={wrapperClassName}
+                onSelect={onSelectScenario ? () => onSelectScenario(key) : undefined}
+              />
+            ))}
+            {scenarios.custom?.map((custom) => (
+              <ScenarioCard
+                key={custom.key}
+                scenario={custom}
+                currency={currency}
+                isRecommended={planKey === custom.key}
+                wrapperClassName="border-purple-200 bg-purple-50"
+                onSelect={onSelectScenario ? () => onSelectScenario(custom.key) : undefined}
+              />
+            ))}
           </div>
         </div>
       )}
@@ -1,16 +1,18 @@
-import type { DepartmentCostBreakdown } from '@/types/cost-estimate';
+import type { CurrencyCode, DepartmentCostBreakdown } from '@/types/cost-estimate';
 import { formatCurrency } from './cost-utils';
 
 interface DepartmentRowProps {
   dept: DepartmentCostBreakdown;
   isExpanded: boolean;
   onToggle: () => void;
+  currency?: CurrencyCode;
 }
 
 export default function DepartmentRow({
   dept,
   isExpanded,
   onToggle,
+  currency,
 }: DepartmentRowProps) {
   return (
     <div className="border border-gray-200 rounded-md overflow-hidden">
@@ -27,13 +29,13 @@ export default function DepartmentRow({
           <div className="text-right">
             <div className="text-sm text-gray-600">One-Time</div>
             <div className="font-semibold text-gray-900">
-              {formatCurrency(dept.oneTimeCost)}
+              {formatCurrency(dept.oneTimeCost, currency)}
             </div>
           </div>
           <div className="text-right">
             <div className="text-sm text-gray-600">Annual</div>
             <div className="font-semibold text-gray-900">
-              {formatCurrency(dept.recurringCostAnnual)}
+              {formatCurrency(dept.recurringCostAnnual, currency)}
             </div>
           </div>
           <svg
@@ -71,7 +73,7 @@ export default function DepartmentRow({
                 </div>
               </div>
               <div className="text-sm font-semibold text-gray-900 ml-4">
-                {formatCurrency(item.estimatedCost)}
+                {formatCurrency(item.estimatedCost, currency)}
               </div>
             </div>
           ))}
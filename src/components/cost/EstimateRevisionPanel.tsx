@@ -0,0 +1,185 @@
+'use client';
+
+/**
+ * EstimateRevisionPanel Component
+ * Revision history for a cost estimate: stale warning with re-estimate action,
+ * revision picker and the diff against the preceding revision
+ */
+
+import type {
+  CurrencyCode,
+  EstimateDriverChange,
+  EstimateRevisionDiff,
+  EstimateRevisionReason,
+  EstimateRevisionSummary,
+} from '@/types/cost-estimate';
+import { formatCurrency } from './cost-utils';
+
+interface EstimateRevisionPanelProps {
+  revision: number;
+  revisions: EstimateRevisionSummary[];
+  diff: EstimateRevisionDiff | null;
+  staleReasons: EstimateRevisionReason[];
+  reestimating: boolean;
+  onSelectRevision: (revision: number) => void;
+  onReestimate: () => void;
+  currency?: CurrencyCode;
+}
+
+const REASON_LABELS: Record<EstimateRevisionReason, string> = {
+  INITIAL: 'First estimate',
+  REGULATION_VERSION: 'Regulation text changed',
+  COMPANY_PROFILE: 'Company profile changed',
+  BENCHMARKS: 'Benchmark library updated',
+  COST_INDICES: 'Cost indices updated',
+  CURRENCY: 'Currency changed',
+  VENDOR_QUOTES: 'Vendor quotes changed',
+  EXPIRED: 'Estimate expired',
+  MANUAL: 'Manual re-estimate',
+};
+
+function formatDelta(amount: number, currency?: CurrencyCode): string {
+  if (Math.round(amount) === 0) return 'no change';
+  return `${amount > 0 ? '+' : '-'}${formatCurrency(Math.abs(amount), currency)}`;
+}
+
+function deltaClass(amount: number): string {
+  if (Math.round(amount) === 0) return 'text-gray-600';
+  return amount > 0 ? 'text-red-700' : 'text-green-700';
+}
+
+function DriverChangeList({
+  title,
+  changes,
+  currency,
+}: {
+  title: string;
+  changes: EstimateDriverChange[];
+  currency?: CurrencyCode;
+}) {
+  if (changes.length === 0) return null;
+
+  return (
+    <div>
+      <h4 className="text-sm font-semibold text-gray-900 mb-1">{title}</h4>
+      <ul className="text-sm space-y-1">
+        {changes.map((change) => (
+          <li
+            key={`${change.category}:${change.description}`}
+            className="flex justify-between gap-4"
+          >
+            <span className="text-gray-700">{change.description}</span>
+            <span className={`font-medium whitespace-nowrap ${deltaClass(change.delta)}`}>
+              {formatDelta(change.delta, currency)}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+export default function EstimateRevisionPanel({
+  revision,
+  revisions,
+  diff,
+  staleReasons,
+  reestimating,
+  onSelectRevision,
+  onReestimate,
+  currency,
+}: EstimateRevisionPanelProps) {
+  const selected = revisions.find((entry) => entry.revision === revision);
+  const hasDriverChanges =
+    diff !== null &&
+    diff.driversAdded.length + diff.driversRemoved.length + diff.driversChanged.length > 0;
+
+  return (
+    <div className="bg-white shadow-md rounded-lg p-6 space-y-4">
+      <div className="flex flex-wrap justify-between items-center gap-3">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">
+            Revision {revision}
+            {selected && !selected.isCurrent && (
+              <span className="ml-2 text-sm font-normal text-gray-500">(superseded)</span>
+            )}
+          </h3>
+          {selected && (
+            <p className="text-sm text-gray-600">
+              {selected.revisionReasons.map((reason) => REASON_LABELS[reason]).join(', ')} ·{' '}
+              {new Date(selected.createdAt).toLocaleDateString()}
+            </p>
+          )}
+        </div>
+        {revisions.length > 1 && (
+          <select
+            value={revision}
+            onChange={(e) => onSelectRevision(Number(e.target.value))}
+            className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+          >
+            {revisions.map((entry) => (
+              <option key={entry.id} value={entry.revision}>
+                Revision {entry.revision}
+                {entry.isCurrent ? ' (current)' : ''} —{' '}
+                {new Date(entry.createdAt).toLocaleDateString()}
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      {staleReasons.length > 0 && (
+        <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-md flex flex-wrap justify-between items-center gap-3">
+          <p className="text-sm text-yellow-800">
+            This estimate is out of date:{' '}
+            {staleReasons.map((reason) => REASON_LABELS[reason].toLowerCase()).join(', ')}.
+          </p>
+          <button
+            onClick={onReestimate}
+            disabled={reestimating}
+            className="bg-yellow-600 text-white px-4 py-2 rounded-md hover:bg-yellow-700 disabled:bg-gray-400 transition-colors text-sm font-medium"
+          >
+            {reestimating ? 'Re-estimating...' : 'Re-estimate'}
+          </button>
+        </div>
+      )}
+
+      {diff && (
+        <div className="border-t border-gray-200 pt-4 space-y-3">
+          <h4 className="text-sm font-semibold text-gray-900">
+            Changes since revision {diff.fromRevision}
+          </h4>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3 text-sm">
+            <div>
+              <div className="text-gray-600">One-time (low)</div>
+              <div className={`font-semibold ${deltaClass(diff.oneTimeCostLowDelta)}`}>
+                {formatDelta(diff.oneTimeCostLowDelta, currency)}
+              </div>
+            </div>
+            <div>
+              <div className="text-gray-600">One-time (high)</div>
+              <div className={`font-semibold ${deltaClass(diff.oneTimeCostHighDelta)}`}>
+                {formatDelta(diff.oneTimeCostHighDelta, currency)}
+              </div>
+            </div>
+            <div>
+              <div className="text-gray-600">Annual recurring</div>
+              <div className={`font-semibold ${deltaClass(diff.recurringCostAnnualDelta)}`}>
+                {formatDelta(diff.recurringCostAnnualDelta, currency)}
+              </div>
+            </div>
+          </div>
+          {hasDriverChanges ? (
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <DriverChangeList title="Drivers added" changes={diff.driversAdded} currency={currency} />
+              <DriverChangeList title="Drivers removed" changes={diff.driversRemoved} currency={currency} />
+              <DriverChangeList title="Drivers changed" changes={diff.driversChanged} currency={currency} />
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500">No cost driver changes.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
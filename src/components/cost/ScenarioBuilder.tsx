@@ -0,0 +1,329 @@
+'use client';
+
+/**
+ * ScenarioBuilder Component
+ * Define custom scenarios for a cost estimate: leave out or re-cost individual
+ * drivers, delay implementation and choose vendor or in-house delivery
+ */
+
+import { useState } from 'react';
+import type {
+  CostDriver,
+  CurrencyCode,
+  CustomCostScenario,
+  CustomScenarioDefinition,
+  ScenarioSourcing,
+} from '@/types/cost-estimate';
+import { formatCurrency } from './cost-utils';
+
+interface ScenarioBuilderProps {
+  costEstimateId: string;
+  drivers: CostDriver[];
+  customScenarios: CustomCostScenario[];
+  // Called after a scenario is saved or deleted so scenarios can be re-priced
+  onChange: () => void | Promise<void>;
+  currency?: CurrencyCode;
+}
+
+const labelClass = 'block text-sm font-medium text-gray-700 mb-1';
+const inputClass =
+  'w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500';
+
+const EMPTY_DEFINITION: CustomScenarioDefinition = {
+  name: '',
+  description: '',
+  excludedDriverIds: [],
+  driverCostOverrides: {},
+  delayMonths: 0,
+  sourcing: 'IN_HOUSE',
+};
+
+export default function ScenarioBuilder({
+  costEstimateId,
+  drivers,
+  customScenarios,
+  onChange,
+  currency,
+}: ScenarioBuilderProps) {
+  const [definition, setDefinition] = useState<CustomScenarioDefinition>(EMPTY_DEFINITION);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const update = <K extends keyof CustomScenarioDefinition>(
+    key: K,
+    value: CustomScenarioDefinition[K]
+  ) => setDefinition((prev) => ({ ...prev, [key]: value }));
+
+  const toggleDriver = (driverId: string) => {
+    update(
+      'excludedDriverIds',
+      definition.excludedDriverIds.includes(driverId)
+        ? definition.excludedDriverIds.filter((id) => id !== driverId)
+        : [...definition.excludedDriverIds, driverId]
+    );
+  };
+
+  const overrideCost = (driverId: string, value: string) => {
+    const overrides = { ...definition.driverCostOverrides };
+    if (value === '') {
+      delete overrides[driverId];
+    } else {
+      overrides[driverId] = Number(value);
+    }
+    update('driverCostOverrides', overrides);
+  };
+
+  const reset = () => {
+    setDefinition(EMPTY_DEFINITION);
+    setEditingId(null);
+    setError(null);
+  };
+
+  const edit = (scenario: CustomCostScenario) => {
+    setDefinition({
+      name: scenario.definition.name,
+      description: scenario.definition.description ?? '',
+      excludedDriverIds: scenario.definition.excludedDriverIds,
+      driverCostOverrides: scenario.definition.driverCostOverrides,
+      delayMonths: scenario.definition.delayMonths,
+      sourcing: scenario.definition.sourcing,
+    });
+    setEditingId(scenario.id);
+    setError(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch(
+        editingId
+          ? `/api/cost-estimates/${costEstimateId}/scenarios/${editingId}`
+          : `/api/cost-estimates/${costEstimateId}/scenarios`,
+        {
+          method: editingId ? 'PATCH' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            ...definition,
+            description: definition.description || null,
+          }),
+        }
+      );
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || 'Failed to save scenario');
+      }
+
+      reset();
+      await onChange();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (scenario: CustomCostScenario) => {
+    if (!confirm(`Delete scenario "${scenario.name}"?`)) return;
+    setError(null);
+
+    try {
+      const response = await fetch(
+        `/api/cost-estimates/${costEstimateId}/scenarios/${scenario.id}`,
+        { method: 'DELETE' }
+      );
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || 'Failed to delete scenario');
+      }
+      if (editingId === scenario.id) reset();
+      await onChange();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    }
+  };
+
+  return (
+    <div className="bg-white shadow-md rounded-lg p-6 space-y-6">
+      <div>
+        <h3 className="text-lg font-semibold text-gray-900 mb-1">Scenario Builder</h3>
+        <p className="text-sm text-gray-600">
+          Custom scenarios are priced against this estimate and compared with the
+          built-in ones above.
+        </p>
+      </div>
+
+      {customScenarios.length > 0 && (
+        <table className="w-full text-sm">
+          <thead className="border-b border-gray-200">
+            <tr className="text-left text-xs font-bold text-gray-700 uppercase tracking-wider">
+              <th className="py-2">Scenario</th>
+              <th className="py-2 text-right">3-Year Total</th>
+              <th className="py-2 text-right">NPV</th>
+              <th className="py-2"></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {customScenarios.map((scenario) => (
+              <tr key={scenario.id} className="text-gray-900">
+                <td className="py-2">
+                  <div className="font-medium">{scenario.name}</div>
+                  <div className="text-xs text-gray-500">{scenario.assumptions.join(' · ')}</div>
+                </td>
+                <td className="py-2 text-right">{formatCurrency(scenario.threeYearTotal, currency)}</td>
+                <td className="py-2 text-right">
+                  {scenario.cashFlow ? formatCurrency(scenario.cashFlow.npv, currency) : '-'}
+                </td>
+                <td className="py-2 text-right space-x-3">
+                  <button
+                    onClick={() => edit(scenario)}
+                    className="text-blue-600 hover:text-blue-800"
+                  >
+                    Edit
+                  </button>
+                  <button
+                    onClick={() => handleDelete(scenario)}
+                    className="text-red-600 hover:text-red-800"
+                  >
+                    Delete
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="scenarioName" className={labelClass}>Name</label>
+            <input
+              id="scenarioName"
+              value={definition.name}
+              onChange={(e) => update('name', e.target.value)}
+              placeholder="e.g. Phase 1 only, outsourced"
+              disabled={isSaving}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label htmlFor="scenarioDescription" className={labelClass}>Description</label>
+            <input
+              id="scenarioDescription"
+              value={definition.description ?? ''}
+              onChange={(e) => update('description', e.target.value)}
+              placeholder="Optional"
+              disabled={isSaving}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label htmlFor="scenarioDelay" className={labelClass}>Delay (months)</label>
+            <input
+              id="scenarioDelay"
+              type="number"
+              min={0}
+              max={24}
+              value={definition.delayMonths}
+              onChange={(e) => update('delayMonths', Number(e.target.value))}
+              disabled={isSaving}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label htmlFor="scenarioSourcing" className={labelClass}>Delivery</label>
+            <select
+              id="scenarioSourcing"
+              value={definition.sourcing}
+              onChange={(e) => update('sourcing', e.target.value as ScenarioSourcing)}
+              disabled={isSaving}
+              className={inputClass}
+            >
+              <option value="IN_HOUSE">In-house</option>
+              <option value="VENDOR">Vendor</option>
+            </select>
+          </div>
+        </div>
+
+        <table className="w-full text-sm">
+          <thead className="border-b border-gray-200">
+            <tr className="text-left text-xs font-bold text-gray-700 uppercase tracking-wider">
+              <th className="py-2">Include</th>
+              <th className="py-2">Cost Driver</th>
+              <th className="py-2 text-right">Estimated</th>
+              <th className="py-2 text-right">Override</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {drivers.map((driver) => {
+              const included = !definition.excludedDriverIds.includes(driver.id);
+              return (
+                <tr key={driver.id} className={included ? 'text-gray-900' : 'text-gray-400'}>
+                  <td className="py-2">
+                    <input
+                      type="checkbox"
+                      checked={included}
+                      onChange={() => toggleDriver(driver.id)}
+                      disabled={isSaving}
+                      aria-label={`Include ${driver.description}`}
+                    />
+                  </td>
+                  <td className="py-2">
+                    {driver.description}
+                    <span className="text-xs text-gray-500">
+                      {' '}
+                      · {driver.isOneTime ? 'one-time' : 'annual'}
+                    </span>
+                  </td>
+                  <td className="py-2 text-right">{formatCurrency(driver.estimatedCost, currency)}</td>
+                  <td className="py-2 text-right">
+                    <input
+                      type="number"
+                      min={0}
+                      value={definition.driverCostOverrides[driver.id] ?? ''}
+                      onChange={(e) => overrideCost(driver.id, e.target.value)}
+                      placeholder="-"
+                      disabled={isSaving || !included}
+                      aria-label={`Override cost of ${driver.description}`}
+                      className="w-32 px-2 py-1 border border-gray-300 rounded-md text-right"
+                    />
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+
+        {error && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+            {error}
+          </div>
+        )}
+
+        <div className="flex items-center gap-3">
+          <button
+            type="submit"
+            disabled={isSaving || definition.name.trim() === ''}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md font-medium hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
+          >
+            {isSaving ? 'Saving...' : editingId ? 'Update Scenario' : 'Save Scenario'}
+          </button>
+          {editingId && (
+            <button
+              type="button"
+              onClick={reset}
+              className="px-4 py-2 text-gray-700 hover:text-gray-900"
+            >
+              Cancel
+            </button>
+          )}
+        </div>
+      </form>
+    </div>
+  );
+}
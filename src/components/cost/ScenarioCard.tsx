@@ -1,16 +1,22 @@
-import type { CostScenario } from '@/types/cost-estimate';
+import type { CostScenario, CurrencyCode } from '@/types/cost-estimate';
 import { formatCurrency, getRiskColor } from './cost-utils';
+import ScenarioCashFlowChart from './ScenarioCashFlowChart';
 
 interface ScenarioCardProps {
   scenario: CostScenario;
   isRecommended: boolean;
   wrapperClassName?: string;
+  // Offered when the scenario is not the current plan
+  onSelect?: () => void;
+  currency?: CurrencyCode;
 }
 
 export default function ScenarioCard({
   scenario,
   isRecommended,
   wrapperClassName = 'border-gray-200',
+  onSelect,
+  currency,
 }: ScenarioCardProps) {
   return (
     <div
@@ -31,9 +37,30 @@ export default function ScenarioCard({
         <div>
           <div className="text-xs text-gray-600">3-Year Total</div>
           <div className="text-lg font-bold text-gray-900">
-            {formatCurrency(scenario.threeYearTotal)}
+            {formatCurrency(scenario.threeYearTotal, currency)}
           </div>
         </div>
+        {scenario.cashFlow && (
+          <div>
+            <div className="text-xs text-gray-600">
+              NPV · {scenario.cashFlow.horizonYears} yr at{' '}
+              {(scenario.cashFlow.discountRate * 100).toFixed(1)}%
+            </div>
+            <div className="text-sm font-semibold text-gray-900">
+              {formatCurrency(scenario.cashFlow.npv, currency)}
+              <span className="font-normal text-gray-600">
+                {' '}
+                of {formatCurrency(scenario.cashFlow.nominalTotal, currency)}
+              </span>
+            </div>
+            <ScenarioCashFlowChart cashFlow={scenario.cashFlow} currency={currency} />
+            <div className="text-xs text-gray-500">
+              {scenario.cashFlow.complianceDate
+                ? `Quarterly spend; compliance due ${scenario.cashFlow.complianceDate}`
+                : 'Quarterly spend; no upcoming compliance date'}
+            </div>
+          </div>
+        )}
         <div
           className={`text-xs px-2 py-1 rounded border ${getRiskColor(
             scenario.riskLevel
@@ -41,6 +68,14 @@ export default function ScenarioCard({
         >
           {scenario.riskLevel} Risk
         </div>
+        {onSelect && !isRecommended && (
+          <button
+            onClick={onSelect}
+            className="w-full text-xs text-blue-700 border border-blue-300 rounded px-2 py-1 hover:bg-blue-50"
+          >
+            Use as recommended plan
+          </button>
+        )}
       </div>
     </div>
   );
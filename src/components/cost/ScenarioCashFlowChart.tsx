@@ -0,0 +1,38 @@
+'use client';
+
+/**
+ * ScenarioCashFlowChart Component
+ * Quarterly spend of a cost scenario, one-time and recurring stacked
+ */
+
+import { Bar, BarChart, ResponsiveContainer, Tooltip, XAxis } from 'recharts';
+import type { CurrencyCode, ScenarioCashFlow } from '@/types/cost-estimate';
+import { formatCurrency } from './cost-utils';
+
+interface ScenarioCashFlowChartProps {
+  cashFlow: ScenarioCashFlow;
+  height?: number;
+  currency?: CurrencyCode;
+}
+
+export default function ScenarioCashFlowChart({
+  cashFlow,
+  height = 100,
+  currency,
+}: ScenarioCashFlowChartProps) {
+  return (
+    <ResponsiveContainer width="100%" height={height}>
+      <BarChart data={cashFlow.quarters} margin={{ top: 4, right: 0, bottom: 0, left: 0 }}>
+        <XAxis dataKey="label" hide />
+        <Tooltip
+          formatter={(value: number, name: string) => [
+            formatCurrency(value, currency),
+            name === 'oneTimeCost' ? 'One-time' : 'Recurring',
+          ]}
+        />
+        <Bar dataKey="oneTimeCost" stackId="cost" fill="#3B82F6" />
+        <Bar dataKey="recurringCost" stackId="cost" fill="#93C5FD" />
+      </BarChart>
+    </ResponsiveContainer>
+  );
+}
@@ -0,0 +1,105 @@
+'use client';
+
+/**
+ * SensitivityPanel Component
+ * One-at-a-time sensitivity of a cost estimate: tornado chart over the
+ * profile multipliers and cost drivers, and the cost at each multiplier value
+ */
+
+import type { CurrencyCode, SensitivityAnalysis } from '@/types/cost-estimate';
+import TornadoChart from './TornadoChart';
+import { formatCurrency } from './cost-utils';
+
+interface SensitivityPanelProps {
+  sensitivity: SensitivityAnalysis;
+  currency?: CurrencyCode;
+}
+
+const FACTOR_NAMES: Record<SensitivityAnalysis['factors'][number]['factor'], string> = {
+  sizeMultiplier: 'Company size',
+  industryMultiplier: 'Industry',
+  geoMultiplier: 'Jurisdiction count',
+  techMaturity: 'Tech maturity',
+  regionalLaborIndex: 'Regional pay',
+};
+
+function formatPercent(value: number): string {
+  return `${value > 0 ? '+' : ''}${value}%`;
+}
+
+export default function SensitivityPanel({ sensitivity, currency }: SensitivityPanelProps) {
+  return (
+    <div className="space-y-6">
+      <div className="bg-white shadow-md rounded-lg p-6">
+        <h3 className="text-lg font-semibold text-gray-900 mb-1">Sensitivity Analysis</h3>
+        <p className="text-sm text-gray-600 mb-4">
+          Three-year total of {formatCurrency(sensitivity.baselineThreeYear, currency)} with one input
+          moved at a time. Profile factors span their plausible values; cost drivers move by
+          their uncertainty (lower confidence, wider swing).
+        </p>
+        <TornadoChart
+          bars={sensitivity.tornado}
+          baseline={sensitivity.baselineThreeYear}
+          currency={currency}
+        />
+      </div>
+
+      <div className="bg-white shadow-md rounded-lg p-6">
+        <h3 className="text-lg font-semibold text-gray-900 mb-4">Profile Factors</h3>
+        <table className="w-full text-sm">
+          <thead className="border-b border-gray-200">
+            <tr className="text-left text-xs font-bold text-gray-700 uppercase tracking-wider">
+              <th className="py-2">Factor</th>
+              <th className="py-2">Value</th>
+              <th className="py-2 text-right">Multiplier</th>
+              <th className="py-2 text-right">One-Time</th>
+              <th className="py-2 text-right">Annual Recurring</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {sensitivity.factors.map((factor) =>
+              factor.impactOnOneTime.map((impact, index) => {
+                const recurring = factor.impactOnRecurring[index];
+                const isCurrent = impact.value === factor.currentValue;
+                return (
+                  <tr
+                    key={`${factor.factor}-${index}`}
+                    className={isCurrent ? 'bg-blue-50 text-gray-900' : 'text-gray-900'}
+                  >
+                    <td className="py-2">
+                      {index === 0 && (
+                        <>
+                          <div className="font-medium">{FACTOR_NAMES[factor.factor]}</div>
+                          {factor.recommendation && (
+                            <div className="text-xs text-gray-500">{factor.recommendation}</div>
+                          )}
+                        </>
+                      )}
+                    </td>
+                    <td className="py-2">
+                      {impact.label}
+                      {isCurrent && <span className="ml-2 text-xs text-blue-700">current</span>}
+                    </td>
+                    <td className="py-2 text-right">{impact.value.toFixed(2)}×</td>
+                    <td className="py-2 text-right">
+                      {formatCurrency(impact.low, currency)} - {formatCurrency(impact.high, currency)}
+                      <span className="ml-2 text-xs text-gray-500">
+                        {formatPercent(impact.percentChange)}
+                      </span>
+                    </td>
+                    <td className="py-2 text-right">
+                      {formatCurrency(recurring.high, currency)}
+                      <span className="ml-2 text-xs text-gray-500">
+                        {formatPercent(recurring.percentChange)}
+                      </span>
+                    </td>
+                  </tr>
+                );
+              })
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
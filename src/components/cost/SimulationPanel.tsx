@@ -0,0 +1,169 @@
+'use client';
+
+/**
+ * SimulationPanel Component
+ * Monte Carlo view of a cost estimate: P10/P50/P90 for one-time and recurring
+ * cost, a histogram of simulated totals and the per-driver distributions
+ */
+
+import { useState } from 'react';
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import type { CurrencyCode, MonteCarloResult, SimulationPercentiles } from '@/types/cost-estimate';
+import SummaryCard from './SummaryCard';
+import { formatCurrency } from './cost-utils';
+
+interface SimulationPanelProps {
+  simulation: MonteCarloResult;
+  currency?: CurrencyCode;
+}
+
+type SimulatedCost = 'oneTime' | 'recurring';
+
+function formatCompact(amount: number, currency: CurrencyCode = 'USD'): string {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency,
+    notation: 'compact',
+    maximumFractionDigits: 1,
+  }).format(amount);
+}
+
+function PercentileCards({
+  label,
+  percentiles,
+  currency,
+}: {
+  label: string;
+  percentiles: SimulationPercentiles;
+  currency?: CurrencyCode;
+}) {
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+      <SummaryCard
+        label={`${label} · P10`}
+        value={formatCurrency(percentiles.p10, currency)}
+        description="90% chance the cost is higher"
+      />
+      <SummaryCard
+        label={`${label} · P50`}
+        value={formatCurrency(percentiles.p50, currency)}
+        description="Median outcome"
+        accentClassName="border-2 border-blue-200"
+        valueClassName="text-blue-700"
+      />
+      <SummaryCard
+        label={`${label} · P90`}
+        value={formatCurrency(percentiles.p90, currency)}
+        description="Only 10% chance the cost is higher"
+      />
+    </div>
+  );
+}
+
+export default function SimulationPanel({ simulation, currency }: SimulationPanelProps) {
+  const [view, setView] = useState<SimulatedCost>('oneTime');
+
+  const histogram =
+    view === 'oneTime' ? simulation.oneTimeHistogram : simulation.recurringHistogram;
+  const chartData = histogram.map((bin) => ({
+    label: formatCompact((bin.start + bin.end) / 2, currency),
+    range: `${formatCurrency(bin.start, currency)} - ${formatCurrency(bin.end, currency)}`,
+    count: bin.count,
+  }));
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white shadow-md rounded-lg p-6">
+        <h3 className="text-lg font-semibold text-gray-900 mb-1">
+          Monte Carlo Simulation
+        </h3>
+        <p className="text-sm text-gray-600">
+          {simulation.iterations.toLocaleString()} simulated outcomes. Drivers backed by
+          evidence costs use a triangular distribution; others use a lognormal that widens
+          as confidence drops.
+        </p>
+      </div>
+
+      <PercentileCards label="One-Time" percentiles={simulation.oneTime} currency={currency} />
+      <PercentileCards
+        label="Annual Recurring"
+        percentiles={simulation.recurring}
+        currency={currency}
+      />
+
+      <div className="bg-white shadow-md rounded-lg p-6">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-semibold text-gray-900">Outcome Distribution</h3>
+          <div className="flex gap-2">
+            {(['oneTime', 'recurring'] as const).map((option) => (
+              <button
+                key={option}
+                onClick={() => setView(option)}
+                className={`px-3 py-1.5 rounded-md text-sm font-medium transition-colors ${
+                  view === option
+                    ? 'bg-blue-600 text-white'
+                    : 'bg-white text-gray-700 border border-gray-300 hover:bg-gray-50'
+                }`}
+              >
+                {option === 'oneTime' ? 'One-Time' : 'Recurring'}
+              </button>
+            ))}
+          </div>
+        </div>
+        <ResponsiveContainer width="100%" height={280}>
+          <BarChart data={chartData}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="label" fontSize={11} />
+            <YAxis allowDecimals={false} />
+            <Tooltip
+              formatter={(value: number) => [value, 'Outcomes']}
+              labelFormatter={(_, payload) => payload?.[0]?.payload?.range ?? ''}
+            />
+            <Bar dataKey="count" fill="#3B82F6" />
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className="bg-white shadow-md rounded-lg p-6">
+        <h3 className="text-lg font-semibold text-gray-900 mb-4">Driver Distributions</h3>
+        <table className="w-full text-sm">
+          <thead className="border-b border-gray-200">
+            <tr className="text-left text-xs font-bold text-gray-700 uppercase tracking-wider">
+              <th className="py-2">Driver</th>
+              <th className="py-2">Distribution</th>
+              <th className="py-2 text-right">Low</th>
+              <th className="py-2 text-right">Most Likely</th>
+              <th className="py-2 text-right">High</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {simulation.distributions.map((distribution) => (
+              <tr key={distribution.driverId} className="text-gray-900">
+                <td className="py-2">
+                  {distribution.description}
+                  <span className="ml-2 text-xs text-gray-500">
+                    {distribution.isOneTime ? 'one-time' : 'annual'}
+                  </span>
+                </td>
+                <td className="py-2 text-gray-600">
+                  {distribution.type === 'TRIANGULAR' ? 'Triangular' : 'Lognormal'}
+                </td>
+                <td className="py-2 text-right">{formatCurrency(distribution.min, currency)}</td>
+                <td className="py-2 text-right">{formatCurrency(distribution.mode, currency)}</td>
+                <td className="py-2 text-right">{formatCurrency(distribution.max, currency)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
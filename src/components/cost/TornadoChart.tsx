@@ -0,0 +1,72 @@
+'use client';
+
+/**
+ * TornadoChart Component
+ * Three-year total with each input at its low and high value, largest swing
+ * on top, drawn around the baseline
+ */
+
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import type { CurrencyCode, TornadoBar } from '@/types/cost-estimate';
+import { formatCurrency } from './cost-utils';
+
+interface TornadoChartProps {
+  bars: TornadoBar[];
+  baseline: number;
+  maxBars?: number;
+  currency?: CurrencyCode;
+}
+
+function formatDelta(amount: number, currency: CurrencyCode = 'USD'): string {
+  const formatted = new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency,
+    notation: 'compact',
+    maximumFractionDigits: 1,
+  }).format(Math.abs(amount));
+  return amount < 0 ? `-${formatted}` : `+${formatted}`;
+}
+
+export default function TornadoChart({
+  bars,
+  baseline,
+  maxBars = 12,
+  currency,
+}: TornadoChartProps) {
+  const chartData = bars.slice(0, maxBars).map((bar) => ({
+    label: bar.label.length > 32 ? `${bar.label.slice(0, 31)}…` : bar.label,
+    bar,
+    down: bar.lowTotal - baseline,
+    up: bar.highTotal - baseline,
+  }));
+
+  return (
+    <ResponsiveContainer width="100%" height={Math.max(160, chartData.length * 32 + 40)}>
+      <BarChart data={chartData} layout="vertical" stackOffset="sign" margin={{ left: 24, right: 24 }}>
+        <CartesianGrid strokeDasharray="3 3" horizontal={false} />
+        <XAxis type="number" tickFormatter={(value: number) => formatDelta(value, currency)} fontSize={11} />
+        <YAxis type="category" dataKey="label" width={200} fontSize={11} />
+        <Tooltip
+          formatter={(value: number, name: string, item) => {
+            const bar = item.payload.bar as TornadoBar;
+            return name === 'down'
+              ? [`${formatCurrency(bar.lowTotal, currency)} (${formatDelta(value, currency)})`, bar.lowLabel]
+              : [`${formatCurrency(bar.highTotal, currency)} (${formatDelta(value, currency)})`, bar.highLabel];
+          }}
+        />
+        <ReferenceLine x={0} stroke="#374151" />
+        <Bar dataKey="down" stackId="swing" fill="#10B981" />
+        <Bar dataKey="up" stackId="swing" fill="#EF4444" />
+      </BarChart>
+    </ResponsiveContainer>
+  );
+}
@@ -0,0 +1,412 @@
+'use client';
+
+/**
+ * VendorQuotePanel Component
+ * Enter vendor quotes against cost drivers and choose the one to use; the
+ * selected, unexpired quote prices its driver on the next re-estimate
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import type {
+  CostDriver,
+  CurrencyCode,
+  VendorQuote,
+  VendorQuoteAttachment,
+} from '@/types/cost-estimate';
+import { SUPPORTED_CURRENCIES } from '@/lib/cost-estimator/currency';
+import { isQuoteExpired, quoteDriverKey } from '@/lib/cost-estimator/vendor-quotes';
+import { formatCurrency } from './cost-utils';
+
+interface VendorQuotePanelProps {
+  costEstimateId: string;
+  drivers: CostDriver[];
+  // Called after quotes change so the estimate's stale reasons are refreshed
+  onChange: () => void | Promise<void>;
+  currency?: CurrencyCode;
+}
+
+interface QuoteForm {
+  driverId: string;
+  vendor: string;
+  amount: string;
+  currency: CurrencyCode;
+  validUntil: string;
+  scope: string;
+  attachmentLinks: string;
+  selected: boolean;
+}
+
+const labelClass = 'block text-sm font-medium text-gray-700 mb-1';
+const inputClass =
+  'w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500';
+
+// Quotes expiring within this many days are flagged
+const EXPIRY_WARNING_DAYS = 30;
+
+function emptyForm(currency: CurrencyCode): QuoteForm {
+  return {
+    driverId: '',
+    vendor: '',
+    amount: '',
+    currency,
+    validUntil: '',
+    scope: '',
+    attachmentLinks: '',
+    selected: true,
+  };
+}
+
+// One link per line; the file name is the last path segment
+function parseAttachmentLinks(text: string): VendorQuoteAttachment[] {
+  return text
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((url) => ({
+      name: decodeURIComponent(url.split('?')[0].split('/').filter(Boolean).pop() ?? url),
+      url,
+    }));
+}
+
+function normalizeQuote(raw: Record<string, unknown>): VendorQuote {
+  return {
+    ...(raw as unknown as VendorQuote),
+    validUntil: new Date(raw.validUntil as string),
+    createdAt: new Date(raw.createdAt as string),
+    updatedAt: new Date(raw.updatedAt as string),
+  };
+}
+
+export default function VendorQuotePanel({
+  costEstimateId,
+  drivers,
+  onChange,
+  currency = 'USD',
+}: VendorQuotePanelProps) {
+  const [quotes, setQuotes] = useState<VendorQuote[]>([]);
+  const [form, setForm] = useState<QuoteForm>(emptyForm(currency));
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadQuotes = useCallback(async () => {
+    const response = await fetch(`/api/cost-estimates/${costEstimateId}/quotes`);
+    if (!response.ok) throw new Error('Failed to load vendor quotes');
+    const data = (await response.json()) as { quotes: Array<Record<string, unknown>> };
+    setQuotes(data.quotes.map(normalizeQuote));
+  }, [costEstimateId]);
+
+  useEffect(() => {
+    loadQuotes().catch((err) =>
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    );
+  }, [loadQuotes]);
+
+  const update = <K extends keyof QuoteForm>(key: K, value: QuoteForm[K]) =>
+    setForm((prev) => ({ ...prev, [key]: value }));
+
+  const driverByKey = new Map(drivers.map((driver) => [quoteDriverKey(driver), driver]));
+  const now = new Date();
+
+  const refresh = async () => {
+    await loadQuotes();
+    await onChange();
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/cost-estimates/${costEstimateId}/quotes`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          driverId: form.driverId,
+          vendor: form.vendor,
+          amount: Number(form.amount),
+          currency: form.currency,
+          validUntil: form.validUntil,
+          scope: form.scope || null,
+          attachments: parseAttachmentLinks(form.attachmentLinks),
+          selected: form.selected,
+        }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || 'Failed to save vendor quote');
+      }
+
+      setForm(emptyForm(currency));
+      await refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSelect = async (quote: VendorQuote) => {
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/cost-estimates/${costEstimateId}/quotes/${quote.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ selected: !quote.selected }),
+      });
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || 'Failed to update vendor quote');
+      }
+      await refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    }
+  };
+
+  const handleDelete = async (quote: VendorQuote) => {
+    if (!confirm(`Delete the ${quote.vendor} quote?`)) return;
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/cost-estimates/${costEstimateId}/quotes/${quote.id}`, {
+        method: 'DELETE',
+      });
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || 'Failed to delete vendor quote');
+      }
+      await refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    }
+  };
+
+  function validityLabel(quote: VendorQuote) {
+    const date = quote.validUntil.toISOString().slice(0, 10);
+    if (isQuoteExpired(quote, now)) {
+      return <span className="text-red-600 font-medium">Expired {date}</span>;
+    }
+    const daysLeft = Math.floor((quote.validUntil.getTime() - now.getTime()) / 86_400_000);
+    return daysLeft <= EXPIRY_WARNING_DAYS ? (
+      <span className="text-yellow-700 font-medium">
+        {date} ({daysLeft} days left)
+      </span>
+    ) : (
+      <span>{date}</span>
+    );
+  }
+
+  return (
+    <div className="bg-white shadow-md rounded-lg p-6 space-y-6">
+      <div>
+        <h3 className="text-lg font-semibold text-gray-900 mb-1">Vendor Quotes</h3>
+        <p className="text-sm text-gray-600">
+          A selected quote replaces its driver&apos;s estimated cost at high confidence until
+          it expires. Re-estimate to apply quote changes.
+        </p>
+      </div>
+
+      {quotes.length > 0 && (
+        <table className="w-full text-sm">
+          <thead className="border-b border-gray-200">
+            <tr className="text-left text-xs font-bold text-gray-700 uppercase tracking-wider">
+              <th className="py-2">Cost Driver</th>
+              <th className="py-2">Vendor</th>
+              <th className="py-2 text-right">Amount</th>
+              <th className="py-2">Valid Until</th>
+              <th className="py-2"></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {quotes.map((quote) => {
+              const driver = driverByKey.get(
+                quoteDriverKey({
+                  category: quote.driverCategory,
+                  description: quote.driverDescription,
+                })
+              );
+              return (
+                <tr key={quote.id} className="text-gray-900 align-top">
+                  <td className="py-2">
+                    {quote.driverDescription}
+                    {driver && (
+                      <div className="text-xs text-gray-500">
+                        Estimated {formatCurrency(driver.estimatedCost, driver.currency ?? currency)}
+                        {driver.quoteId === quote.id && ' · priced by this quote'}
+                      </div>
+                    )}
+                  </td>
+                  <td className="py-2">
+                    <div className="font-medium">{quote.vendor}</div>
+                    {quote.scope && <div className="text-xs text-gray-500">{quote.scope}</div>}
+                    {quote.attachments.map((attachment) => (
+                      <a
+                        key={attachment.url}
+                        href={attachment.url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="block text-xs text-blue-600 hover:text-blue-800"
+                      >
+                        {attachment.name}
+                      </a>
+                    ))}
+                  </td>
+                  <td className="py-2 text-right">{formatCurrency(quote.amount, quote.currency)}</td>
+                  <td className="py-2">{validityLabel(quote)}</td>
+                  <td className="py-2 text-right space-x-3 whitespace-nowrap">
+                    <button
+                      onClick={() => handleSelect(quote)}
+                      className={
+                        quote.selected
+                          ? 'text-green-700 font-medium hover:text-green-900'
+                          : 'text-blue-600 hover:text-blue-800'
+                      }
+                    >
+                      {quote.selected ? 'Selected' : 'Use'}
+                    </button>
+                    <button
+                      onClick={() => handleDelete(quote)}
+                      className="text-red-600 hover:text-red-800"
+                    >
+                      Delete
+                    </button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="quoteDriver" className={labelClass}>Cost Driver</label>
+            <select
+              id="quoteDriver"
+              value={form.driverId}
+              onChange={(e) => update('driverId', e.target.value)}
+              disabled={isSaving}
+              className={inputClass}
+            >
+              <option value="">Select a driver</option>
+              {drivers.map((driver) => (
+                <option key={driver.id} value={driver.id}>
+                  {driver.description}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="quoteVendor" className={labelClass}>Vendor</label>
+            <input
+              id="quoteVendor"
+              value={form.vendor}
+              onChange={(e) => update('vendor', e.target.value)}
+              disabled={isSaving}
+              className={inputClass}
+            />
+          </div>
+          <div className="grid grid-cols-3 gap-2">
+            <div className="col-span-2">
+              <label htmlFor="quoteAmount" className={labelClass}>Amount</label>
+              <input
+                id="quoteAmount"
+                type="number"
+                min={0}
+                value={form.amount}
+                onChange={(e) => update('amount', e.target.value)}
+                disabled={isSaving}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label htmlFor="quoteCurrency" className={labelClass}>Currency</label>
+              <select
+                id="quoteCurrency"
+                value={form.currency}
+                onChange={(e) => update('currency', e.target.value as CurrencyCode)}
+                disabled={isSaving}
+                className={inputClass}
+              >
+                {SUPPORTED_CURRENCIES.map((code) => (
+                  <option key={code} value={code}>
+                    {code}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <div>
+            <label htmlFor="quoteValidUntil" className={labelClass}>Valid Until</label>
+            <input
+              id="quoteValidUntil"
+              type="date"
+              value={form.validUntil}
+              onChange={(e) => update('validUntil', e.target.value)}
+              disabled={isSaving}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label htmlFor="quoteScope" className={labelClass}>Scope</label>
+            <textarea
+              id="quoteScope"
+              rows={3}
+              value={form.scope}
+              onChange={(e) => update('scope', e.target.value)}
+              placeholder="What the quote covers"
+              disabled={isSaving}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label htmlFor="quoteAttachments" className={labelClass}>Attachments</label>
+            <textarea
+              id="quoteAttachments"
+              rows={3}
+              value={form.attachmentLinks}
+              onChange={(e) => update('attachmentLinks', e.target.value)}
+              placeholder="Links to the quote documents, one per line"
+              disabled={isSaving}
+              className={inputClass}
+            />
+          </div>
+        </div>
+
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={form.selected}
+            onChange={(e) => update('selected', e.target.checked)}
+            disabled={isSaving}
+          />
+          Use this quote for the driver
+        </label>
+
+        {error && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+            {error}
+          </div>
+        )}
+
+        <button
+          type="submit"
+          disabled={
+            isSaving ||
+            !form.driverId ||
+            form.vendor.trim() === '' ||
+            form.amount === '' ||
+            !form.validUntil
+          }
+          className="px-4 py-2 bg-blue-600 text-white rounded-md font-medium hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
+        >
+          {isSaving ? 'Saving...' : 'Add Quote'}
+        </button>
+      </form>
+    </div>
+  );
+}
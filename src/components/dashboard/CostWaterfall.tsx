@@ -5,9 +5,19 @@ import { WaterfallDataPoint } from '@/types/dashboard'
 
 interface Props {
   data: WaterfallDataPoint[]
+  currency?: string
 }
 
-export default function CostWaterfall({ data }: Props) {
+export default function CostWaterfall({ data, currency = 'USD' }: Props) {
+  // Thousands, e.g. "$150K"
+  const formatThousands = (value: number) =>
+    new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency,
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 0
+    }).format(value / 1000) + 'K'
+
   // Convert waterfall data to stacked bar format
   // For waterfall: start, sum(increases), sum(decreases), end
   const transformedData = data.map((point, index) => {
@@ -33,7 +43,7 @@ export default function CostWaterfall({ data }: Props) {
         <div className="bg-white p-3 rounded shadow-lg border border-gray-200">
           <p className="font-medium text-gray-900">{data.label}</p>
           <p className="text-sm text-gray-600">
-            ${typeof data.originalValue === 'number' ? (data.originalValue / 1000).toFixed(0) : '0'}K
+            {formatThousands(typeof data.originalValue === 'number' ? data.originalValue : 0)}
           </p>
         </div>
       )
@@ -60,7 +70,7 @@ export default function CostWaterfall({ data }: Props) {
               tick={{ fontSize: 12 }}
             />
             <YAxis
-              tickFormatter={(value) => `$${(value / 1000).toFixed(0)}K`}
+              tickFormatter={formatThousands}
               tick={{ fontSize: 12 }}
             />
             <Tooltip content={<CustomTooltip />} />
@@ -31,7 +31,7 @@ export default function CostWaterfallChart({ data, onBarClick }: Props) {
   const formatCurrency = (value: number) => {
     return new Intl.NumberFormat('en-US', {
       style: 'currency',
-      currency: 'USD',
+      currency: data.currency ?? 'USD',
       minimumFractionDigits: 0,
       maximumFractionDigits: 0
     }).format(Math.abs(value))
@@ -0,0 +1,36 @@
+'use client';
+
+/**
+ * ApplicabilityBadge Component
+ * Displays whether a regulation applies, with the reasons as a tooltip
+ */
+
+import type { ApplicabilityResult } from '@/types/applicability';
+
+interface ApplicabilityBadgeProps {
+  result: Pick<ApplicabilityResult, 'status' | 'confidence' | 'reasons'>;
+}
+
+export default function ApplicabilityBadge({ result }: ApplicabilityBadgeProps) {
+  let colors = 'bg-gray-100 text-gray-700 border-gray-300';
+  let label = 'Not applicable';
+
+  if (result.status === 'APPLICABLE') {
+    colors = 'bg-green-100 text-green-800 border-green-300';
+    label = 'Applies';
+  } else if (result.status === 'POSSIBLY_APPLICABLE') {
+    colors = 'bg-yellow-100 text-yellow-800 border-yellow-300';
+    label = 'Possibly';
+  }
+
+  const tooltip = result.reasons.map((reason) => reason.detail).join('\n');
+
+  return (
+    <span
+      className={`${colors} px-2 py-1 text-xs rounded-full font-semibold border inline-block whitespace-nowrap`}
+      title={tooltip}
+    >
+      {label} ({Math.round(result.confidence * 100)}%)
+    </span>
+  );
+}
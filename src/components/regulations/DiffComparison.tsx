@@ -2,13 +2,27 @@
 
 /**
  * DiffComparison Component
- * Handles version selection and diff generation for a regulation
+ * Handles version selection and diff generation for a regulation, and
+ * exports the compared versions as a redline
  */
 
 import { useState, ReactNode } from 'react';
 import VersionSelector from './VersionSelector';
+import VersionTimeline from './VersionTimeline';
 import DiffViewer from './DiffViewer';
-import { SignificanceScore } from '@/types/policydiff';
+import SignificanceBadge from './SignificanceBadge';
+import {
+  ClassifiedChange,
+  SignificanceScore,
+  VersionTimelineEntry,
+} from '@/types/policydiff';
+import {
+  formatRedlineHTML,
+  redlineFileName,
+  RedlineMetadata,
+} from '@/lib/export/redline';
+import { generateRedlineDOCX } from '@/lib/export/redline-docx';
+import { generateRedlinePDF } from '@/lib/export/redline-pdf';
 
 interface Version {
   id: string;
@@ -19,7 +33,17 @@ interface Version {
 
 interface DiffComparisonProps {
   regulationId: string;
+  regulationTitle: string;
+  jurisdiction?: string | null;
   versions: Version[];
+  timeline?: VersionTimelineEntry[];
+}
+
+// Versions to compare; omitted ones default to the latest and its predecessor
+interface DiffRequest {
+  previousVersionId?: string;
+  currentVersionId?: string;
+  sinceVersionNumber?: number;
 }
 
 interface DiffResponse {
@@ -30,17 +54,33 @@ interface DiffResponse {
   obligations: string[];
   significanceScore: SignificanceScore;
   aiConfidence: number;
+  classifiedChanges?: ClassifiedChange[];
+  previousVersionNumber?: number;
+  currentVersionNumber?: number;
+  steps?: VersionTimelineEntry[]; // Each version in between, newest first
 }
 
+type RedlineFormat = 'html' | 'docx' | 'pdf';
+
+const REDLINE_FORMATS: Array<{ format: RedlineFormat; label: string }> = [
+  { format: 'html', label: 'HTML' },
+  { format: 'docx', label: 'Word' },
+  { format: 'pdf', label: 'PDF' },
+];
+
 export default function DiffComparison({
   regulationId,
+  regulationTitle,
+  jurisdiction,
   versions,
+  timeline = [],
 }: DiffComparisonProps) {
   const [diff, setDiff] = useState<DiffResponse | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [exportingFormat, setExportingFormat] = useState<RedlineFormat | null>(null);
 
-  const handleCompare = async (previousId: string, currentId: string) => {
+  const requestDiff = async (diffRequest: DiffRequest) => {
     setIsLoading(true);
     setError(null);
 
@@ -50,10 +90,7 @@ export default function DiffComparison({
         {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            previousVersionId: previousId,
-            currentVersionId: currentId,
-          }),
+          body: JSON.stringify(diffRequest),
         }
       );
 
@@ -73,8 +110,64 @@ export default function DiffComparison({
     }
   };
 
+  const handleCompare = (previousId: string, currentId: string) =>
+    requestDiff({ previousVersionId: previousId, currentVersionId: currentId });
+
+  const handleCompareSince = (versionNumber: number) =>
+    requestDiff({ sinceVersionNumber: versionNumber });
+
+  // Download the compared versions as a redline for circulation
+  const handleExportRedline = async (format: RedlineFormat) => {
+    if (!diff || diff.previousVersionNumber === undefined || diff.currentVersionNumber === undefined) {
+      return;
+    }
+    const publishedDate = (versionNumber: number) =>
+      versions.find((version) => version.versionNumber === versionNumber)?.publishedDate;
+    const metadata: RedlineMetadata = {
+      regulationTitle,
+      jurisdiction,
+      previousVersionNumber: diff.previousVersionNumber,
+      currentVersionNumber: diff.currentVersionNumber,
+      previousPublishedDate: publishedDate(diff.previousVersionNumber),
+      currentPublishedDate: publishedDate(diff.currentVersionNumber),
+    };
+
+    setExportingFormat(format);
+    try {
+      const blob =
+        format === 'html'
+          ? new Blob([formatRedlineHTML(diff, metadata)], { type: 'text/html' })
+          : format === 'docx'
+            ? await generateRedlineDOCX(diff, metadata)
+            : await generateRedlinePDF(diff, metadata);
+
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = redlineFileName(metadata, format);
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setError('Failed to export redline');
+      console.error('Error exporting redline:', err);
+    } finally {
+      setExportingFormat(null);
+    }
+  };
+
   return (
     <div className="space-y-6">
+      {/* Version History */}
+      {timeline.length > 0 && (
+        <VersionTimeline
+          entries={timeline}
+          onCompareSince={handleCompareSince}
+          isLoading={isLoading}
+        />
+      )}
+
       {/* Version Selector */}
       <VersionSelector
         versions={versions}
@@ -103,14 +196,63 @@ export default function DiffComparison({
         </div>
       )}
 
+      {/* Compared Versions */}
+      {diff && !isLoading && diff.previousVersionNumber !== undefined && (
+        <div className="bg-white shadow-md rounded-lg p-6 border border-gray-200">
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <h3 className="text-lg font-semibold text-gray-900">
+              Version {diff.previousVersionNumber} → Version {diff.currentVersionNumber}
+            </h3>
+            <div className="flex items-center gap-2">
+              <span className="text-sm text-gray-600">Export redline:</span>
+              {REDLINE_FORMATS.map(({ format, label }) => (
+                <button
+                  key={format}
+                  onClick={() => handleExportRedline(format)}
+                  disabled={exportingFormat !== null}
+                  className="px-3 py-1.5 text-sm font-medium border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 disabled:text-gray-400 disabled:cursor-not-allowed"
+                >
+                  {exportingFormat === format ? 'Exporting...' : label}
+                </button>
+              ))}
+            </div>
+          </div>
+          {diff.steps && diff.steps.length > 1 && (
+            <div className="mt-4 space-y-2">
+              <p className="text-sm text-gray-600">
+                Cumulative changes across {diff.steps.length} versions:
+              </p>
+              {diff.steps.map((step) => (
+                <div
+                  key={step.versionId}
+                  className="flex gap-3 items-start p-3 bg-gray-50 rounded-md border border-gray-200"
+                >
+                  <span className="font-medium text-gray-900 flex-shrink-0">
+                    v{step.versionNumber}
+                  </span>
+                  {step.significanceScore && (
+                    <SignificanceBadge score={step.significanceScore} size="sm" />
+                  )}
+                  <p className="text-sm text-gray-700">
+                    {step.summary ?? 'Changes not analyzed yet'}
+                  </p>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Diff Viewer */}
       {diff && !isLoading && (
         <DiffViewer
+          key={diff.id}
           diffText={diff.diffText}
           summary={diff.summary}
           keyChanges={diff.keyChanges}
           significanceScore={diff.significanceScore}
           confidence={diff.aiConfidence}
+          classifiedChanges={diff.classifiedChanges}
         />
       )}
 
@@ -3,11 +3,27 @@
 /**
  * DiffViewer Component
  * Side-by-side or unified diff viewer for regulation changes
- * Shows executive summary, key changes, and detailed diff
+ * Shows executive summary, key changes, and detailed diff as ordered hunks
+ * with collapsible unchanged regions and change-by-change navigation
  */
 
-import { useState } from 'react';
-import { SignificanceScore } from '@/types/policydiff';
+import { useMemo, useRef, useState } from 'react';
+import {
+  ChangeClassification,
+  ClassifiedChange,
+  DiffLine,
+  SignificanceScore,
+} from '@/types/policydiff';
+import {
+  DEFAULT_CONTEXT_LINES,
+  buildDiffBlocks,
+  formatHunkHeader,
+  highlightChangedLines,
+  isChangeStart,
+  pairSplitRows,
+  parseDisplayDiff,
+} from '@/lib/regulations/diff-hunks';
+import { CLASSIFICATION_LABELS } from '@/lib/regulations/change-classifier';
 import SignificanceBadge from './SignificanceBadge';
 
 interface DiffViewerProps {
@@ -16,24 +32,66 @@ interface DiffViewerProps {
   keyChanges: string[];
   significanceScore: SignificanceScore;
   confidence: number;
+  classifiedChanges?: ClassifiedChange[];
 }
 
 type ViewMode = 'split' | 'unified';
 
+const CONTEXT_OPTIONS = [
+  { label: '0 lines', value: 0 },
+  { label: '3 lines', value: DEFAULT_CONTEXT_LINES },
+  { label: '10 lines', value: 10 },
+  { label: 'Full text', value: Number.POSITIVE_INFINITY },
+];
+
+// Index of the change each change-starting line begins
+type ChangeIndex = Map<DiffLine, number>;
+
 export default function DiffViewer({
   diffText,
   summary,
   keyChanges,
   significanceScore,
   confidence,
+  classifiedChanges = [],
 }: DiffViewerProps) {
   const [viewMode, setViewMode] = useState<ViewMode>('split');
+  const [contextLines, setContextLines] = useState(DEFAULT_CONTEXT_LINES);
+  const [expanded, setExpanded] = useState<Set<number>>(new Set());
+  const [activeChange, setActiveChange] = useState(-1);
+  const diffRef = useRef<HTMLDivElement>(null);
+
+  // Parse diff text into ordered lines and hunks
+  const lines = useMemo(() => highlightChangedLines(parseDisplayDiff(diffText)), [diffText]);
+  const blocks = useMemo(() => buildDiffBlocks(lines, contextLines), [lines, contextLines]);
+  const changeIndex = useMemo(() => {
+    const index: ChangeIndex = new Map();
+    lines.forEach((line, i) => {
+      if (isChangeStart(lines, i)) index.set(line, index.size);
+    });
+    return index;
+  }, [lines]);
+  const changeCount = changeIndex.size;
+  const substantiveChanges = classifiedChanges.filter(
+    (change) => change.classification !== ChangeClassification.EDITORIAL
+  );
+  const editorialCount = classifiedChanges.length - substantiveChanges.length;
+
+  const handleContextChange = (value: number) => {
+    setContextLines(value);
+    setExpanded(new Set());
+  };
+
+  const expandRegion = (blockIndex: number) => {
+    setExpanded((previous) => new Set(previous).add(blockIndex));
+  };
 
-  // Parse diff text into individual lines
-  const diffLines = diffText.split('\n').filter((line) => line.length > 0);
-  const removedLines = diffLines.filter((line) => line.startsWith('- '));
-  const addedLines = diffLines.filter((line) => line.startsWith('+ '));
-  const unchangedLines = diffLines.filter((line) => !line.startsWith('-') && !line.startsWith('+'));
+  const goToChange = (index: number) => {
+    setActiveChange(index);
+    diffRef.current
+      ?.querySelector(`[data-change="${index}"]`)
+      ?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  };
 
   return (
     <div className="space-y-6 max-w-6xl mx-auto p-4">
@@ -89,8 +147,41 @@ export default function DiffViewer({
         </div>
       </div>
 
+      {/* Classified Changes Section */}
+      {classifiedChanges.length > 0 && (
+        <div className="bg-white shadow-md rounded-lg p-6">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">
+            Change Breakdown
+          </h3>
+          <div className="space-y-2">
+            {substantiveChanges.map((change, idx) => (
+              <div
+                key={idx}
+                className="flex flex-wrap items-center gap-3 p-3 bg-gray-50 rounded-md border border-gray-200"
+              >
+                <span
+                  className={`px-2 py-0.5 rounded text-xs font-semibold ${IMPACT_STYLES[change.impact]}`}
+                >
+                  {CLASSIFICATION_LABELS[change.classification]}
+                </span>
+                <p className="text-gray-700 text-sm">{change.description}</p>
+              </div>
+            ))}
+            {substantiveChanges.length === 0 && (
+              <p className="text-gray-500 italic">No substantive changes identified</p>
+            )}
+          </div>
+          {editorialCount > 0 && (
+            <p className="text-sm text-gray-500 mt-3">
+              Plus {editorialCount} editorial change{editorialCount === 1 ? '' : 's'} (renumbering,
+              moved sections, wording fixes)
+            </p>
+          )}
+        </div>
+      )}
+
       {/* View Mode Toggle */}
-      <div className="flex gap-2">
+      <div className="flex flex-wrap items-center gap-2">
         <button
           onClick={() => setViewMode('split')}
           className={`px-4 py-2 rounded-md font-medium transition-colors ${
@@ -111,82 +202,222 @@ export default function DiffViewer({
         >
           Unified View
         </button>
+
+        <label className="ml-auto flex items-center gap-2 text-sm text-gray-700">
+          Context
+          <select
+            value={contextLines}
+            onChange={(e) => handleContextChange(Number(e.target.value))}
+            className="px-2 py-1.5 border border-gray-300 rounded-md text-sm"
+          >
+            {CONTEXT_OPTIONS.map((option) => (
+              <option key={option.label} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        {/* Change Navigation */}
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => goToChange(activeChange - 1)}
+            disabled={activeChange <= 0}
+            className="px-3 py-1.5 rounded-md text-sm font-medium bg-gray-200 text-gray-900 hover:bg-gray-300 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            ↑ Previous
+          </button>
+          <span className="text-sm text-gray-600 min-w-[7rem] text-center">
+            {changeCount === 0
+              ? 'No changes'
+              : activeChange < 0
+                ? `${changeCount} change${changeCount === 1 ? '' : 's'}`
+                : `Change ${activeChange + 1} of ${changeCount}`}
+          </span>
+          <button
+            onClick={() => goToChange(activeChange + 1)}
+            disabled={activeChange >= changeCount - 1}
+            className="px-3 py-1.5 rounded-md text-sm font-medium bg-gray-200 text-gray-900 hover:bg-gray-300 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Next ↓
+          </button>
+        </div>
       </div>
 
       {/* Diff Viewer */}
-      <div className="bg-white shadow-md rounded-lg overflow-hidden border border-gray-200">
-        {viewMode === 'split' ? (
-          <SplitView removedLines={removedLines} addedLines={addedLines} />
-        ) : (
-          <UnifiedView diffLines={diffLines} />
+      <div
+        ref={diffRef}
+        className="bg-white shadow-md rounded-lg overflow-auto max-h-[48rem] border border-gray-200"
+      >
+        {viewMode === 'split' && (
+          <div className="flex sticky top-0 z-10 border-b border-gray-200 font-semibold">
+            <div className="flex-1 bg-red-50 px-4 py-2 text-red-900 border-r border-gray-200">
+              Previous Version
+            </div>
+            <div className="flex-1 bg-green-50 px-4 py-2 text-green-900">
+              Current Version
+            </div>
+          </div>
         )}
+
+        <div className="font-mono text-sm">
+          {blocks.map((block, blockIndex) => {
+            if (block.kind === 'collapsed' && !expanded.has(blockIndex)) {
+              return (
+                <button
+                  key={blockIndex}
+                  onClick={() => expandRegion(blockIndex)}
+                  className="w-full px-4 py-1.5 bg-blue-50 text-blue-700 text-xs text-center border-b border-gray-200 hover:bg-blue-100"
+                >
+                  ⋯ Show {block.lines.length} unchanged line{block.lines.length === 1 ? '' : 's'}
+                </button>
+              );
+            }
+
+            const blockLines = block.kind === 'hunk' ? block.hunk.lines : block.lines;
+            return (
+              <div key={blockIndex}>
+                {block.kind === 'hunk' && (
+                  <div className="px-4 py-1 bg-gray-100 text-gray-500 text-xs border-b border-gray-200">
+                    {formatHunkHeader(block.hunk)}
+                  </div>
+                )}
+                {viewMode === 'split' ? (
+                  <SplitView
+                    lines={blockLines}
+                    changeIndex={changeIndex}
+                    activeChange={activeChange}
+                  />
+                ) : (
+                  <UnifiedView
+                    lines={blockLines}
+                    changeIndex={changeIndex}
+                    activeChange={activeChange}
+                  />
+                )}
+              </div>
+            );
+          })}
+
+          {lines.length === 0 && (
+            <div className="px-4 py-8 text-gray-400 text-center italic">
+              No changes
+            </div>
+          )}
+        </div>
       </div>
     </div>
   );
 }
 
+const IMPACT_STYLES: Record<SignificanceScore, string> = {
+  [SignificanceScore.HIGH]: 'bg-red-100 text-red-800',
+  [SignificanceScore.MEDIUM]: 'bg-yellow-100 text-yellow-800',
+  [SignificanceScore.LOW]: 'bg-gray-200 text-gray-700',
+};
+
+const LINE_STYLES: Record<DiffLine['type'], { row: string; prefix: string; highlight: string }> = {
+  removed: { row: 'bg-red-50 text-red-800', prefix: '-', highlight: 'bg-red-200 line-through' },
+  added: { row: 'bg-green-50 text-green-800', prefix: '+', highlight: 'bg-green-200' },
+  unchanged: { row: 'bg-white text-gray-800', prefix: ' ', highlight: '' },
+};
+
 /**
- * Split View Component
- * Shows removed lines on left, added on right
+ * Line text, with the edited words highlighted when the line was paired
  */
-function SplitView({
-  removedLines,
-  addedLines,
-}: {
-  removedLines: string[];
-  addedLines: string[];
-}) {
-  const maxLines = Math.max(removedLines.length, addedLines.length);
+function LineText({ line }: { line: DiffLine }) {
+  if (!line.inlineDiff) return <>{line.text || '\u00a0'}</>;
 
   return (
-    <div className="overflow-x-auto max-h-96 md:max-h-full">
-      <div className="flex">
-        {/* Previous Version Column */}
-        <div className="flex-1 border-r border-gray-200">
-          <div className="bg-red-50 px-4 py-2 font-semibold text-red-900 border-b border-gray-200">
-            Previous Version
-          </div>
-          <div className="font-mono text-sm space-y-0">
-            {removedLines.slice(0, 50).map((line, idx) => (
-              <div
-                key={idx}
-                className="bg-red-50 text-red-800 px-4 py-1 border-b border-red-200 hover:bg-red-100"
-              >
-                <span className="text-red-600 font-bold">- </span>
-                {line.substring(2)}
-              </div>
-            ))}
-            {removedLines.length === 0 && (
-              <div className="px-4 py-8 text-gray-400 text-center italic">
-                No changes
-              </div>
-            )}
-          </div>
-        </div>
+    <>
+      {line.inlineDiff.map((segment, idx) =>
+        segment.type === 'unchanged' ? (
+          <span key={idx}>{segment.text}</span>
+        ) : (
+          <span key={idx} className={`${LINE_STYLES[line.type].highlight} rounded-sm`}>
+            {segment.text}
+          </span>
+        )
+      )}
+    </>
+  );
+}
 
-        {/* Current Version Column */}
-        <div className="flex-1">
-          <div className="bg-green-50 px-4 py-2 font-semibold text-green-900 border-b border-gray-200">
-            Current Version
-          </div>
-          <div className="font-mono text-sm space-y-0">
-            {addedLines.slice(0, 50).map((line, idx) => (
-              <div
-                key={idx}
-                className="bg-green-50 text-green-800 px-4 py-1 border-b border-green-200 hover:bg-green-100"
-              >
-                <span className="text-green-600 font-bold">+ </span>
-                {line.substring(2)}
-              </div>
-            ))}
-            {addedLines.length === 0 && (
-              <div className="px-4 py-8 text-gray-400 text-center italic">
-                No changes
-              </div>
-            )}
+/**
+ * Line number gutter cell
+ */
+function LineNumber({ value }: { value: number | null }) {
+  return (
+    <span className="w-12 flex-shrink-0 pr-2 text-right text-gray-400 select-none">
+      {value ?? ''}
+    </span>
+  );
+}
+
+interface RowsProps {
+  lines: DiffLine[];
+  changeIndex: ChangeIndex;
+  activeChange: number;
+}
+
+/**
+ * Navigation anchor and outline for rows that start a change
+ */
+function changeAnchor(
+  lines: Array<DiffLine | null>,
+  changeIndex: ChangeIndex,
+  activeChange: number
+): { 'data-change'?: number; className: string } {
+  const index = lines
+    .map((line) => (line ? changeIndex.get(line) : undefined))
+    .find((value) => value !== undefined);
+  if (index === undefined) return { className: '' };
+  return {
+    'data-change': index,
+    className: index === activeChange ? 'outline outline-2 outline-blue-500 -outline-offset-2' : '',
+  };
+}
+
+/**
+ * Split View Component
+ * Shows the previous version on the left and the current on the right,
+ * with edited lines side by side
+ */
+function SplitView({ lines, changeIndex, activeChange }: RowsProps) {
+  return (
+    <>
+      {pairSplitRows(lines).map((row, idx) => {
+        const anchor = changeAnchor([row.left, row.right], changeIndex, activeChange);
+        return (
+          <div
+            key={idx}
+            data-change={anchor['data-change']}
+            className={`flex border-b border-gray-100 ${anchor.className}`}
+          >
+            <SplitCell line={row.left} side="left" />
+            <SplitCell line={row.right} side="right" />
           </div>
-        </div>
-      </div>
+        );
+      })}
+    </>
+  );
+}
+
+/**
+ * One side of a split view row
+ */
+function SplitCell({ line, side }: { line: DiffLine | null; side: 'left' | 'right' }) {
+  const border = side === 'left' ? 'border-r border-gray-200' : '';
+  if (!line) return <div className={`flex-1 bg-gray-50 ${border}`} />;
+
+  const style = LINE_STYLES[line.type];
+  return (
+    <div className={`flex-1 flex py-1 ${style.row} ${border}`}>
+      <LineNumber value={side === 'left' ? line.oldLineNumber : line.newLineNumber} />
+      <span className="w-4 flex-shrink-0 font-bold select-none">{style.prefix}</span>
+      <span className="flex-1 pr-4 whitespace-pre-wrap break-words">
+        <LineText line={line} />
+      </span>
     </div>
   );
 }
@@ -195,37 +426,27 @@ function SplitView({
  * Unified View Component
  * Shows all lines in single column with +/- prefixes
  */
-function UnifiedView({ diffLines }: { diffLines: string[] }) {
+function UnifiedView({ lines, changeIndex, activeChange }: RowsProps) {
   return (
-    <div className="overflow-x-auto max-h-96 md:max-h-full">
-      <div className="font-mono text-sm">
-        {diffLines.slice(0, 100).map((line, idx) => {
-          let bgColor = 'bg-gray-50';
-          let textColor = 'text-gray-800';
-
-          if (line.startsWith('- ')) {
-            bgColor = 'bg-red-50';
-            textColor = 'text-red-800';
-          } else if (line.startsWith('+ ')) {
-            bgColor = 'bg-green-50';
-            textColor = 'text-green-800';
-          }
-
-          return (
-            <div
-              key={idx}
-              className={`${bgColor} ${textColor} px-4 py-1 border-b border-gray-200 hover:opacity-75`}
-            >
-              {line}
-            </div>
-          );
-        })}
-      </div>
-      {diffLines.length > 100 && (
-        <div className="px-4 py-2 text-gray-500 text-xs text-center italic">
-          Showing first 100 lines of {diffLines.length} (truncated for performance)
-        </div>
-      )}
-    </div>
+    <>
+      {lines.map((line, idx) => {
+        const style = LINE_STYLES[line.type];
+        const anchor = changeAnchor([line], changeIndex, activeChange);
+        return (
+          <div
+            key={idx}
+            data-change={anchor['data-change']}
+            className={`flex py-1 border-b border-gray-100 ${style.row} ${anchor.className}`}
+          >
+            <LineNumber value={line.oldLineNumber} />
+            <LineNumber value={line.newLineNumber} />
+            <span className="w-4 flex-shrink-0 font-bold select-none">{style.prefix}</span>
+            <span className="flex-1 pr-4 whitespace-pre-wrap break-words">
+              <LineText line={line} />
+            </span>
+          </div>
+        );
+      })}
+    </>
   );
 }
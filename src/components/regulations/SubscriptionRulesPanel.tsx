@@ -0,0 +1,154 @@
+'use client';
+
+/**
+ * SubscriptionRulesPanel Component
+ * Manage jurisdiction/regulation-type rules that watch regulations automatically,
+ * including ones ingested in the future
+ */
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+
+interface JurisdictionOption {
+  id: string;
+  code: string;
+  name: string;
+}
+
+interface SubscriptionRuleRow {
+  id: string;
+  jurisdictionId: string | null;
+  regulationType: string | null;
+  jurisdiction: { code: string; name: string } | null;
+}
+
+interface SubscriptionRulesPanelProps {
+  rules: SubscriptionRuleRow[];
+  jurisdictions: JurisdictionOption[];
+  regulationTypes: string[];
+}
+
+export default function SubscriptionRulesPanel({
+  rules,
+  jurisdictions,
+  regulationTypes,
+}: SubscriptionRulesPanelProps) {
+  const router = useRouter();
+  const [jurisdictionId, setJurisdictionId] = useState('');
+  const [regulationType, setRegulationType] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const canAdd = Boolean(jurisdictionId || regulationType) && !isSaving;
+
+  const runRequest = async (request: () => Promise<Response>) => {
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const response = await request();
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || 'Failed to update subscription rules');
+      }
+      router.refresh();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAdd = async () => {
+    const added = await runRequest(() =>
+      fetch('/api/subscriptions/rules', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          jurisdictionId: jurisdictionId || null,
+          regulationType: regulationType || null,
+        }),
+      })
+    );
+    if (added) {
+      setJurisdictionId('');
+      setRegulationType('');
+    }
+  };
+
+  const handleDelete = (ruleId: string) =>
+    runRequest(() => fetch(`/api/subscriptions/rules/${ruleId}`, { method: 'DELETE' }));
+
+  return (
+    <div className="bg-white shadow-md rounded-lg p-6 border border-gray-200 mb-6">
+      <h3 className="text-lg font-semibold text-gray-900 mb-1">Subscription Rules</h3>
+      <p className="text-sm text-gray-600 mb-4">
+        Automatically watch every regulation in a jurisdiction or of a given type,
+        including newly ingested ones.
+      </p>
+
+      {rules.length > 0 ? (
+        <ul className="divide-y divide-gray-200 mb-4">
+          {rules.map((rule) => (
+            <li key={rule.id} className="py-2 flex justify-between items-center">
+              <span className="text-sm text-gray-900">
+                {[rule.jurisdiction?.name, rule.regulationType].filter(Boolean).join(' · ')}
+              </span>
+              <button
+                type="button"
+                onClick={() => handleDelete(rule.id)}
+                disabled={isSaving}
+                className="text-sm text-red-600 hover:text-red-700 font-medium disabled:opacity-50"
+              >
+                Remove
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-gray-500 mb-4">No rules yet.</p>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <select
+          value={jurisdictionId}
+          onChange={(e) => setJurisdictionId(e.target.value)}
+          disabled={isSaving}
+          className="px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+        >
+          <option value="">Any jurisdiction</option>
+          {jurisdictions.map((jurisdiction) => (
+            <option key={jurisdiction.id} value={jurisdiction.id}>
+              {jurisdiction.name} ({jurisdiction.code})
+            </option>
+          ))}
+        </select>
+        <select
+          value={regulationType}
+          onChange={(e) => setRegulationType(e.target.value)}
+          disabled={isSaving}
+          className="px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+        >
+          <option value="">Any regulation type</option>
+          {regulationTypes.map((type) => (
+            <option key={type} value={type}>
+              {type}
+            </option>
+          ))}
+        </select>
+        <button
+          type="button"
+          onClick={handleAdd}
+          disabled={!canAdd}
+          className="px-4 py-2 bg-blue-600 text-white rounded-md font-medium hover:bg-blue-700 transition-colors disabled:bg-gray-300 disabled:cursor-not-allowed"
+        >
+          Add Rule
+        </button>
+      </div>
+
+      {error && <p className="mt-3 text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
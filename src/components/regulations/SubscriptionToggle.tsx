@@ -0,0 +1,81 @@
+'use client';
+
+/**
+ * SubscriptionToggle Component
+ * Watch/unwatch a single regulation from the regulations list
+ */
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import type { WatchReason } from '@/types/subscriptions';
+
+interface SubscriptionToggleProps {
+  regulationId: string;
+  subscriptionId: string | null;
+  watchReason: WatchReason | null;
+}
+
+export default function SubscriptionToggle({
+  regulationId,
+  subscriptionId,
+  watchReason,
+}: SubscriptionToggleProps) {
+  const router = useRouter();
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleToggle = async () => {
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const response = subscriptionId
+        ? await fetch(`/api/subscriptions/${subscriptionId}`, { method: 'DELETE' })
+        : await fetch('/api/subscriptions', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ regulationId }),
+          });
+
+      if (!response.ok) {
+        throw new Error('Failed to update subscription');
+      }
+
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Rule-matched regulations are managed through the rules panel
+  if (watchReason === 'RULE') {
+    return (
+      <span
+        className="inline-flex px-2 py-1 text-xs font-medium rounded-full bg-indigo-100 text-indigo-800"
+        title="Watched through a subscription rule"
+      >
+        Via rule
+      </span>
+    );
+  }
+
+  return (
+    <div className="flex flex-col items-start gap-1">
+      <button
+        type="button"
+        onClick={handleToggle}
+        disabled={isSaving}
+        className={`px-3 py-1 text-xs font-medium rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+          subscriptionId
+            ? 'bg-green-100 text-green-800 hover:bg-green-200'
+            : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+        }`}
+      >
+        {isSaving ? 'Saving...' : subscriptionId ? 'Watching' : 'Watch'}
+      </button>
+      {error && <span className="text-xs text-red-600">{error}</span>}
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+'use client';
+
+/**
+ * VersionTimeline Component
+ * Version history of a regulation, newest first, with each version's
+ * significance and summary of changes from the version before it
+ */
+
+import { VersionTimelineEntry } from '@/types/policydiff';
+import { formatDate } from '@/lib/utils/format';
+import SignificanceBadge from './SignificanceBadge';
+
+interface VersionTimelineProps {
+  entries: VersionTimelineEntry[];
+  onCompareSince?: (versionNumber: number) => void;
+  isLoading?: boolean;
+}
+
+export default function VersionTimeline({
+  entries,
+  onCompareSince,
+  isLoading = false,
+}: VersionTimelineProps) {
+  const latestVersionNumber = entries[0]?.versionNumber;
+
+  return (
+    <div className="bg-white shadow-md rounded-lg p-6 border border-gray-200">
+      <h3 className="text-lg font-semibold text-gray-900 mb-4">
+        Version History
+      </h3>
+
+      <ol className="relative border-l-2 border-gray-200 ml-2 space-y-6">
+        {entries.map((entry) => {
+          const isFirst = entry === entries[entries.length - 1];
+          return (
+            <li key={entry.versionId} className="ml-6">
+              <span className="absolute -left-[9px] mt-1.5 w-4 h-4 rounded-full bg-white border-2 border-blue-600" />
+
+              <div className="flex flex-wrap items-center gap-3 mb-1">
+                <span className="font-semibold text-gray-900">
+                  Version {entry.versionNumber}
+                </span>
+                <span className="text-sm text-gray-500">
+                  {formatDate(entry.publishedDate)}
+                </span>
+                {entry.significanceScore && (
+                  <SignificanceBadge score={entry.significanceScore} size="sm" />
+                )}
+                {onCompareSince && entry.versionNumber !== latestVersionNumber && (
+                  <button
+                    onClick={() => onCompareSince(entry.versionNumber)}
+                    disabled={isLoading}
+                    className="ml-auto text-sm font-medium text-blue-600 hover:text-blue-800 disabled:text-gray-400 disabled:cursor-not-allowed"
+                  >
+                    What changed since v{entry.versionNumber} →
+                  </button>
+                )}
+              </div>
+
+              {entry.summary ? (
+                <p className="text-sm text-gray-700">{entry.summary}</p>
+              ) : (
+                <p className="text-sm text-gray-500 italic">
+                  {isFirst ? 'First published version' : 'Changes not analyzed yet'}
+                </p>
+              )}
+              {entry.keyChanges.length > 0 && (
+                <p className="text-xs text-gray-500 mt-1">
+                  {entry.keyChanges.length} key change{entry.keyChanges.length === 1 ? '' : 's'}
+                </p>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+}
@@ -0,0 +1,561 @@
+'use client';
+
+/**
+ * BenchmarkLibraryManager Component
+ * Table of cost benchmarks used by the deterministic extractor. Admins can add,
+ * edit, deactivate and delete benchmarks and import/export the library as JSON.
+ */
+
+import { useRef, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import {
+  CostCategory,
+  Department,
+  type CostBenchmark,
+  type EvidenceSource,
+} from '@/types/cost-estimate';
+import { formatCurrency } from '@/components/cost/cost-utils';
+
+export interface BenchmarkRow extends CostBenchmark {
+  id: string;
+}
+
+interface BenchmarkLibraryManagerProps {
+  benchmarks: BenchmarkRow[];
+  isAdmin: boolean;
+  usingBuiltins: boolean;
+}
+
+type ImportMode = 'merge' | 'replace';
+
+const EVIDENCE_TYPES: EvidenceSource['type'][] = [
+  'INDUSTRY_BENCHMARK',
+  'VENDOR_QUOTE',
+  'CASE_STUDY',
+  'REGULATION_CLAUSE',
+  'ASSUMPTION',
+];
+
+const labelClass = 'block text-sm font-medium text-gray-700 mb-1';
+const inputClass =
+  'w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500';
+
+const EMPTY_BENCHMARK: CostBenchmark = {
+  key: '',
+  category: CostCategory.OTHER,
+  description: '',
+  keywords: [],
+  pattern: null,
+  isOneTime: true,
+  baseCost: 0,
+  evidenceCost: null,
+  confidence: 0.75,
+  department: Department.COMPLIANCE,
+  evidenceType: 'INDUSTRY_BENCHMARK',
+  evidenceReference: '',
+  effectiveYear: new Date().getFullYear(),
+  active: true,
+};
+
+async function readError(response: Response, fallback: string): Promise<string> {
+  const errorData = await response.json().catch(() => ({}));
+  return errorData.error || fallback;
+}
+
+export default function BenchmarkLibraryManager({
+  benchmarks,
+  isAdmin,
+  usingBuiltins,
+}: BenchmarkLibraryManagerProps) {
+  const router = useRouter();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<CostBenchmark | null>(null);
+  const [keywordText, setKeywordText] = useState('');
+  const [importMode, setImportMode] = useState<ImportMode>('merge');
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  // Built-in rows are not stored, so they can only be changed after importing them
+  const canEditRows = isAdmin && !usingBuiltins;
+
+  const startEdit = (benchmark: BenchmarkRow | null) => {
+    const { id, ...fields } = benchmark ?? { id: null, ...EMPTY_BENCHMARK };
+    setEditingId(id);
+    setDraft(fields);
+    setKeywordText(fields.keywords.join(', '));
+    setError(null);
+    setNotice(null);
+  };
+
+  const cancelEdit = () => {
+    setEditingId(null);
+    setDraft(null);
+  };
+
+  const update = <K extends keyof CostBenchmark>(key: K, value: CostBenchmark[K]) => {
+    setDraft((prev) => (prev ? { ...prev, [key]: value } : prev));
+  };
+
+  const run = async (action: () => Promise<void>) => {
+    setIsBusy(true);
+    setError(null);
+    setNotice(null);
+    try {
+      await action();
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft) return;
+
+    const payload = {
+      ...draft,
+      keywords: keywordText.split(',').map((keyword) => keyword.trim()).filter(Boolean),
+      pattern: draft.pattern?.trim() || null,
+    };
+
+    run(async () => {
+      const response = editingId
+        ? await fetch(`/api/benchmarks/${editingId}`, {
+            method: 'PATCH',
+            headers: { 'Content-Type': 'application/json' },
+            // The key identifies a benchmark across exports, so it is not editable
+            body: JSON.stringify({ ...payload, key: undefined }),
+          })
+        : await fetch('/api/benchmarks', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(payload),
+          });
+
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Failed to save benchmark'));
+      }
+      cancelEdit();
+    });
+  };
+
+  const handleToggleActive = (benchmark: BenchmarkRow) =>
+    run(async () => {
+      const response = await fetch(`/api/benchmarks/${benchmark.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ active: !benchmark.active }),
+      });
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Failed to update benchmark'));
+      }
+    });
+
+  const handleDelete = (benchmark: BenchmarkRow) => {
+    if (!confirm(`Delete benchmark "${benchmark.key}"? Deactivating keeps it for reference.`)) {
+      return;
+    }
+    run(async () => {
+      const response = await fetch(`/api/benchmarks/${benchmark.id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Failed to delete benchmark'));
+      }
+    });
+  };
+
+  const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    run(async () => {
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(await file.text());
+      } catch {
+        throw new Error('Import file is not valid JSON');
+      }
+      // Accept either the export envelope or a bare array
+      const imported = Array.isArray(parsed)
+        ? parsed
+        : (parsed as { benchmarks?: unknown })?.benchmarks;
+
+      const response = await fetch('/api/benchmarks/import', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ benchmarks: imported, mode: importMode }),
+      });
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Failed to import benchmarks'));
+      }
+
+      const result = await response.json();
+      setNotice(
+        `Imported: ${result.created} created, ${result.updated} updated, ${result.deactivated} deactivated`
+      );
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white shadow-md rounded-lg p-6 border border-gray-200">
+        <div className="flex flex-wrap justify-between items-start gap-3">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900 mb-1">Cost Benchmark Library</h3>
+            <p className="text-sm text-gray-600">
+              A regulation mentioning any keyword (or matching the pattern) of an active
+              benchmark gets that benchmark as a cost driver, cited as its evidence source.
+              Changing the library marks existing estimates for re-estimation.
+            </p>
+            {usingBuiltins && (
+              <p className="text-sm text-yellow-700 mt-2">
+                No benchmarks are stored; estimates use the built-in starter library.
+                Export it and import the file to start curating your own.
+              </p>
+            )}
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <button
+              onClick={() => {
+                window.location.href = '/api/benchmarks?download=1';
+              }}
+              className="px-3 py-2 rounded-md text-sm font-medium bg-white text-gray-700 border border-gray-300 hover:bg-gray-50"
+            >
+              Export JSON
+            </button>
+            {isAdmin && (
+              <>
+                <select
+                  value={importMode}
+                  onChange={(e) => setImportMode(e.target.value as ImportMode)}
+                  disabled={isBusy}
+                  className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+                  aria-label="Import mode"
+                >
+                  <option value="merge">Import: merge</option>
+                  <option value="replace">Import: replace</option>
+                </select>
+                <button
+                  onClick={() => fileInputRef.current?.click()}
+                  disabled={isBusy}
+                  className="px-3 py-2 rounded-md text-sm font-medium bg-white text-gray-700 border border-gray-300 hover:bg-gray-50 disabled:opacity-50"
+                >
+                  Import JSON
+                </button>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept="application/json,.json"
+                  onChange={handleImport}
+                  className="hidden"
+                />
+                <button
+                  onClick={() => startEdit(null)}
+                  disabled={isBusy}
+                  className="bg-blue-600 text-white px-3 py-2 rounded-md hover:bg-blue-700 disabled:bg-gray-400 text-sm font-medium"
+                >
+                  Add Benchmark
+                </button>
+              </>
+            )}
+          </div>
+        </div>
+
+        {error && (
+          <div className="mt-4 p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+            {error}
+          </div>
+        )}
+        {notice && (
+          <div className="mt-4 p-3 bg-green-50 border border-green-200 rounded-md text-sm text-green-700">
+            {notice}
+          </div>
+        )}
+      </div>
+
+      {draft && (
+        <form
+          onSubmit={handleSave}
+          className="bg-white shadow-md rounded-lg p-6 border border-gray-200"
+        >
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">
+            {editingId ? `Edit ${draft.key}` : 'New Benchmark'}
+          </h3>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="benchmark-key" className={labelClass}>Key</label>
+              <input
+                id="benchmark-key"
+                value={draft.key}
+                onChange={(e) => update('key', e.target.value)}
+                disabled={isBusy || editingId !== null}
+                placeholder="e.g. privacy-officer"
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label htmlFor="benchmark-description" className={labelClass}>Description</label>
+              <input
+                id="benchmark-description"
+                value={draft.description}
+                onChange={(e) => update('description', e.target.value)}
+                disabled={isBusy}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label htmlFor="benchmark-category" className={labelClass}>Category</label>
+              <select
+                id="benchmark-category"
+                value={draft.category}
+                onChange={(e) => update('category', e.target.value as CostCategory)}
+                disabled={isBusy}
+                className={inputClass}
+              >
+                {Object.values(CostCategory).map((category) => (
+                  <option key={category} value={category}>
+                    {category}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="benchmark-department" className={labelClass}>Department</label>
+              <select
+                id="benchmark-department"
+                value={draft.department}
+                onChange={(e) => update('department', e.target.value as Department)}
+                disabled={isBusy}
+                className={inputClass}
+              >
+                {Object.values(Department).map((department) => (
+                  <option key={department} value={department}>
+                    {department}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="benchmark-keywords" className={labelClass}>
+                Keywords (comma separated)
+              </label>
+              <input
+                id="benchmark-keywords"
+                value={keywordText}
+                onChange={(e) => setKeywordText(e.target.value)}
+                disabled={isBusy}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label htmlFor="benchmark-pattern" className={labelClass}>
+                Pattern (regular expression, optional)
+              </label>
+              <input
+                id="benchmark-pattern"
+                value={draft.pattern ?? ''}
+                onChange={(e) => update('pattern', e.target.value)}
+                disabled={isBusy}
+                className={`${inputClass} font-mono`}
+              />
+            </div>
+            <div>
+              <label htmlFor="benchmark-base-cost" className={labelClass}>Base Cost (USD)</label>
+              <input
+                id="benchmark-base-cost"
+                type="number"
+                min={0}
+                value={draft.baseCost}
+                onChange={(e) => update('baseCost', Number(e.target.value))}
+                disabled={isBusy}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label htmlFor="benchmark-type" className={labelClass}>Cost Type</label>
+              <select
+                id="benchmark-type"
+                value={draft.isOneTime ? 'one-time' : 'recurring'}
+                onChange={(e) => update('isOneTime', e.target.value === 'one-time')}
+                disabled={isBusy}
+                className={inputClass}
+              >
+                <option value="one-time">One-time</option>
+                <option value="recurring">Annual recurring</option>
+              </select>
+            </div>
+            <div>
+              <label htmlFor="benchmark-confidence" className={labelClass}>Confidence (0-1)</label>
+              <input
+                id="benchmark-confidence"
+                type="number"
+                min={0}
+                max={1}
+                step={0.05}
+                value={draft.confidence}
+                onChange={(e) => update('confidence', Number(e.target.value))}
+                disabled={isBusy}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label htmlFor="benchmark-year" className={labelClass}>Effective Year</label>
+              <input
+                id="benchmark-year"
+                type="number"
+                value={draft.effectiveYear}
+                onChange={(e) => update('effectiveYear', Number(e.target.value))}
+                disabled={isBusy}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label htmlFor="benchmark-evidence-type" className={labelClass}>Evidence Type</label>
+              <select
+                id="benchmark-evidence-type"
+                value={draft.evidenceType}
+                onChange={(e) =>
+                  update('evidenceType', e.target.value as EvidenceSource['type'])
+                }
+                disabled={isBusy}
+                className={inputClass}
+              >
+                {EVIDENCE_TYPES.map((type) => (
+                  <option key={type} value={type}>
+                    {type.replace(/_/g, ' ')}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="benchmark-evidence-cost" className={labelClass}>
+                Evidence Cost (USD, optional)
+              </label>
+              <input
+                id="benchmark-evidence-cost"
+                type="number"
+                min={0}
+                value={draft.evidenceCost ?? ''}
+                onChange={(e) =>
+                  update('evidenceCost', e.target.value === '' ? null : Number(e.target.value))
+                }
+                disabled={isBusy}
+                className={inputClass}
+              />
+            </div>
+            <div className="md:col-span-2">
+              <label htmlFor="benchmark-reference" className={labelClass}>Evidence Reference</label>
+              <input
+                id="benchmark-reference"
+                value={draft.evidenceReference}
+                onChange={(e) => update('evidenceReference', e.target.value)}
+                disabled={isBusy}
+                placeholder="Source cited on estimates"
+                className={inputClass}
+              />
+            </div>
+          </div>
+          <div className="mt-6 flex justify-end gap-3">
+            <button
+              type="button"
+              onClick={cancelEdit}
+              disabled={isBusy}
+              className="px-4 py-2 rounded-md text-sm font-medium bg-white text-gray-700 border border-gray-300 hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isBusy}
+              className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 disabled:bg-gray-400 transition-colors text-sm font-medium"
+            >
+              {isBusy ? 'Saving...' : 'Save Benchmark'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      <div className="bg-white shadow-md rounded-lg p-6 border border-gray-200 overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="border-b border-gray-200">
+            <tr className="text-left text-xs font-bold text-gray-700 uppercase tracking-wider">
+              <th className="py-2">Benchmark</th>
+              <th className="py-2">Matches</th>
+              <th className="py-2 text-right">Base Cost</th>
+              <th className="py-2">Department</th>
+              <th className="py-2">Evidence</th>
+              <th className="py-2">Year</th>
+              {canEditRows && <th className="py-2" />}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {benchmarks.map((benchmark) => (
+              <tr
+                key={benchmark.id}
+                className={benchmark.active ? 'text-gray-900' : 'text-gray-400'}
+              >
+                <td className="py-2">
+                  <div className="font-medium">{benchmark.description}</div>
+                  <div className="text-xs text-gray-500">
+                    {benchmark.key} · {benchmark.category}
+                    {!benchmark.active && ' · inactive'}
+                  </div>
+                </td>
+                <td className="py-2 text-xs">
+                  {benchmark.keywords.join(', ')}
+                  {benchmark.pattern && (
+                    <div className="font-mono text-gray-500">/{benchmark.pattern}/i</div>
+                  )}
+                </td>
+                <td className="py-2 text-right whitespace-nowrap">
+                  {formatCurrency(benchmark.baseCost)}
+                  <div className="text-xs text-gray-500">
+                    {benchmark.isOneTime ? 'one-time' : 'annual'}
+                  </div>
+                </td>
+                <td className="py-2">{benchmark.department}</td>
+                <td className="py-2 text-xs">
+                  <div>{benchmark.evidenceReference}</div>
+                  <div className="text-gray-500">
+                    {benchmark.evidenceType.replace(/_/g, ' ')} ·{' '}
+                    {Math.round(benchmark.confidence * 100)}% confidence
+                  </div>
+                </td>
+                <td className="py-2">{benchmark.effectiveYear}</td>
+                {canEditRows && (
+                  <td className="py-2 text-right whitespace-nowrap space-x-3">
+                    <button
+                      onClick={() => startEdit(benchmark)}
+                      disabled={isBusy}
+                      className="text-blue-600 hover:text-blue-700 font-medium"
+                    >
+                      Edit
+                    </button>
+                    <button
+                      onClick={() => handleToggleActive(benchmark)}
+                      disabled={isBusy}
+                      className="text-gray-600 hover:text-gray-800 font-medium"
+                    >
+                      {benchmark.active ? 'Deactivate' : 'Activate'}
+                    </button>
+                    <button
+                      onClick={() => handleDelete(benchmark)}
+                      disabled={isBusy}
+                      className="text-red-600 hover:text-red-700 font-medium"
+                    >
+                      Delete
+                    </button>
+                  </td>
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
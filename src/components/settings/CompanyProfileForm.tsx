@@ -0,0 +1,214 @@
+'use client';
+
+/**
+ * CompanyProfileForm Component
+ * Edit the stored company profile; each save creates a new profile version
+ * that subsequent cost estimates use by default
+ */
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Industry, RiskLevel, TechMaturity } from '@/types/cost-estimate';
+import type { CompanyProfileInput } from '@/types/company-profile';
+
+interface JurisdictionOption {
+  code: string;
+  name: string;
+}
+
+interface CompanyProfileFormProps {
+  initialProfile: CompanyProfileInput;
+  jurisdictions: JurisdictionOption[];
+}
+
+const labelClass = 'block text-sm font-medium text-gray-700 mb-1';
+const inputClass =
+  'w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500';
+
+export default function CompanyProfileForm({
+  initialProfile,
+  jurisdictions,
+}: CompanyProfileFormProps) {
+  const router = useRouter();
+  const [profile, setProfile] = useState<CompanyProfileInput>(initialProfile);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  const update = <K extends keyof CompanyProfileInput>(
+    key: K,
+    value: CompanyProfileInput[K]
+  ) => {
+    setSaved(false);
+    setProfile((prev) => ({ ...prev, [key]: value }));
+  };
+
+  const toggleJurisdiction = (code: string) => {
+    update(
+      'operatingJurisdictions',
+      profile.operatingJurisdictions.includes(code)
+        ? profile.operatingJurisdictions.filter((existing) => existing !== code)
+        : [...profile.operatingJurisdictions, code]
+    );
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/company-profile', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(profile),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || 'Failed to save company profile');
+      }
+
+      setSaved(true);
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="bg-white shadow-md rounded-lg p-6 border border-gray-200"
+    >
+      <h3 className="text-lg font-semibold text-gray-900 mb-1">Company Profile</h3>
+      <p className="text-sm text-gray-600 mb-4">
+        Used by default for every cost estimate. Geographic complexity is derived
+        from your operating jurisdictions.
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="industry" className={labelClass}>Industry</label>
+          <select
+            id="industry"
+            value={profile.industry}
+            onChange={(e) => update('industry', e.target.value as Industry)}
+            disabled={isSaving}
+            className={inputClass}
+          >
+            {Object.values(Industry).map((industry) => (
+              <option key={industry} value={industry}>
+                {industry}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label htmlFor="employeeCount" className={labelClass}>Employees</label>
+          <input
+            id="employeeCount"
+            type="number"
+            min={1}
+            value={profile.employeeCount}
+            onChange={(e) => update('employeeCount', Number(e.target.value))}
+            disabled={isSaving}
+            className={inputClass}
+          />
+        </div>
+
+        <div>
+          <label htmlFor="revenue" className={labelClass}>Annual Revenue (USD)</label>
+          <input
+            id="revenue"
+            type="number"
+            min={0}
+            value={profile.revenue ?? ''}
+            onChange={(e) =>
+              update('revenue', e.target.value === '' ? null : Number(e.target.value))
+            }
+            placeholder="Optional"
+            disabled={isSaving}
+            className={inputClass}
+          />
+        </div>
+
+        <div>
+          <label htmlFor="techMaturity" className={labelClass}>Tech Maturity</label>
+          <select
+            id="techMaturity"
+            value={profile.techMaturity}
+            onChange={(e) => update('techMaturity', e.target.value as TechMaturity)}
+            disabled={isSaving}
+            className={inputClass}
+          >
+            {Object.values(TechMaturity).map((maturity) => (
+              <option key={maturity} value={maturity}>
+                {maturity}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label htmlFor="riskAppetite" className={labelClass}>Risk Appetite</label>
+          <select
+            id="riskAppetite"
+            value={profile.riskAppetite}
+            onChange={(e) => update('riskAppetite', e.target.value as RiskLevel)}
+            disabled={isSaving}
+            className={inputClass}
+          >
+            {Object.values(RiskLevel).map((level) => (
+              <option key={level} value={level}>
+                {level}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <fieldset className="mt-4">
+        <legend className={labelClass}>
+          Operating Jurisdictions ({profile.operatingJurisdictions.length} selected)
+        </legend>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-2 max-h-48 overflow-y-auto border border-gray-200 rounded-md p-3">
+          {jurisdictions.map((jurisdiction) => (
+            <label
+              key={jurisdiction.code}
+              className="flex items-center gap-2 text-sm text-gray-900"
+            >
+              <input
+                type="checkbox"
+                checked={profile.operatingJurisdictions.includes(jurisdiction.code)}
+                onChange={() => toggleJurisdiction(jurisdiction.code)}
+                disabled={isSaving}
+              />
+              {jurisdiction.name}
+            </label>
+          ))}
+        </div>
+      </fieldset>
+
+      {error && (
+        <div className="mt-4 p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      <div className="mt-4 flex items-center gap-3">
+        <button
+          type="submit"
+          disabled={isSaving || profile.employeeCount < 1}
+          className="px-4 py-2 bg-blue-600 text-white rounded-md font-medium hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
+        >
+          {isSaving ? 'Saving...' : 'Save New Version'}
+        </button>
+        {saved && <span className="text-sm text-green-700">Saved</span>}
+      </div>
+    </form>
+  );
+}
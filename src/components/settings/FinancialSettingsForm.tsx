@@ -0,0 +1,224 @@
+'use client';
+
+/**
+ * FinancialSettingsForm Component
+ * Edit the discount rate and horizon used for scenario cash flows and NPV,
+ * the fiscal calendar analytics and reports are bucketed by, and the
+ * currency they are reported in
+ */
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { SUPPORTED_CURRENCIES } from '@/lib/cost-estimator/currency';
+import type { CurrencyCode, FinancialSettings, FiscalPeriodPattern } from '@/types/cost-estimate';
+
+interface FinancialSettingsFormProps {
+  initialSettings: FinancialSettings;
+}
+
+const labelClass = 'block text-sm font-medium text-gray-700 mb-1';
+const inputClass =
+  'w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500';
+
+const MONTHS = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+];
+
+const PERIOD_PATTERNS: Array<{ value: FiscalPeriodPattern; label: string }> = [
+  { value: 'CALENDAR_MONTHS', label: 'Calendar months' },
+  { value: 'WEEKS_445', label: '4-4-5 weeks' },
+];
+
+export default function FinancialSettingsForm({ initialSettings }: FinancialSettingsFormProps) {
+  const router = useRouter();
+  // Discount rate is edited as a percentage
+  const [discountPercent, setDiscountPercent] = useState(
+    Math.round(initialSettings.discountRate * 1000) / 10
+  );
+  const [horizonYears, setHorizonYears] = useState(initialSettings.scenarioHorizonYears);
+  const [startMonth, setStartMonth] = useState(initialSettings.fiscalCalendar.startMonth);
+  const [pattern, setPattern] = useState(initialSettings.fiscalCalendar.pattern);
+  const [reportingCurrency, setReportingCurrency] = useState(initialSettings.reportingCurrency);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  const isValid =
+    discountPercent >= 0 &&
+    discountPercent <= 50 &&
+    Number.isInteger(horizonYears) &&
+    horizonYears >= 1 &&
+    horizonYears <= 10;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/financial-settings', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          discountRate: discountPercent / 100,
+          scenarioHorizonYears: horizonYears,
+          fiscalCalendar: { startMonth, pattern },
+          reportingCurrency,
+        }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || 'Failed to save financial settings');
+      }
+
+      setSaved(true);
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="bg-white shadow-md rounded-lg p-6 border border-gray-200"
+    >
+      <h3 className="text-lg font-semibold text-gray-900 mb-1">Financial Settings</h3>
+      <p className="text-sm text-gray-600 mb-4">
+        Used to lay out each cost scenario quarter by quarter and discount it to a
+        net present value. Analytics, cash flows and reports are grouped by fiscal
+        period; fiscal years are named by the year they end in. Portfolio totals
+        are converted to the reporting currency.
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="discountRate" className={labelClass}>
+            Discount Rate (% per year)
+          </label>
+          <input
+            id="discountRate"
+            type="number"
+            min={0}
+            max={50}
+            step={0.1}
+            value={discountPercent}
+            onChange={(e) => {
+              setSaved(false);
+              setDiscountPercent(Number(e.target.value));
+            }}
+            disabled={isSaving}
+            className={inputClass}
+          />
+        </div>
+
+        <div>
+          <label htmlFor="horizonYears" className={labelClass}>
+            Scenario Horizon (years)
+          </label>
+          <input
+            id="horizonYears"
+            type="number"
+            min={1}
+            max={10}
+            step={1}
+            value={horizonYears}
+            onChange={(e) => {
+              setSaved(false);
+              setHorizonYears(Number(e.target.value));
+            }}
+            disabled={isSaving}
+            className={inputClass}
+          />
+        </div>
+
+        <div>
+          <label htmlFor="fiscalStartMonth" className={labelClass}>
+            Fiscal Year Starts
+          </label>
+          <select
+            id="fiscalStartMonth"
+            value={startMonth}
+            onChange={(e) => {
+              setSaved(false);
+              setStartMonth(Number(e.target.value));
+            }}
+            disabled={isSaving}
+            className={inputClass}
+          >
+            {MONTHS.map((month, index) => (
+              <option key={month} value={index + 1}>
+                {month}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label htmlFor="fiscalPattern" className={labelClass}>
+            Fiscal Periods
+          </label>
+          <select
+            id="fiscalPattern"
+            value={pattern}
+            onChange={(e) => {
+              setSaved(false);
+              setPattern(e.target.value as FiscalPeriodPattern);
+            }}
+            disabled={isSaving}
+            className={inputClass}
+          >
+            {PERIOD_PATTERNS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label htmlFor="reportingCurrency" className={labelClass}>
+            Reporting Currency
+          </label>
+          <select
+            id="reportingCurrency"
+            value={reportingCurrency}
+            onChange={(e) => {
+              setSaved(false);
+              setReportingCurrency(e.target.value as CurrencyCode);
+            }}
+            disabled={isSaving}
+            className={inputClass}
+          >
+            {SUPPORTED_CURRENCIES.map((currency) => (
+              <option key={currency} value={currency}>
+                {currency}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mt-4 p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      <div className="mt-4 flex items-center gap-3">
+        <button
+          type="submit"
+          disabled={isSaving || !isValid}
+          className="px-4 py-2 bg-blue-600 text-white rounded-md font-medium hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
+        >
+          {isSaving ? 'Saving...' : 'Save Settings'}
+        </button>
+        {saved && <span className="text-sm text-green-700">Saved</span>}
+      </div>
+    </form>
+  );
+}
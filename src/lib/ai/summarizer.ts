@@ -6,10 +6,13 @@
 
 import OpenAI from 'openai';
 import {
+  ChangeClassification,
   ChangeMetrics,
+  ClassifiedChange,
   PolicyDiffSummary,
   SignificanceScore,
 } from '@/types/policydiff';
+import type { AIDeadlineCandidate } from '@/types/deadlines';
 
 // Initialize OpenAI client
 const openai = new OpenAI({
@@ -19,6 +22,7 @@ const openai = new OpenAI({
 // In-memory cache for summarization results
 const summaryCache = new Map<string, PolicyDiffSummary>();
 const obligationsCache = new Map<string, string[]>();
+const deadlinesCache = new Map<string, AIDeadlineCandidate[]>();
 
 /**
  * Create cache key from text input
@@ -240,16 +244,84 @@ export async function extractObligations(
   }
 }
 
+/**
+ * Extract compliance deadlines from regulation text
+ * Used to refine the deterministic deadline parser; results are validated by the caller
+ * Note: Each call costs ~$0.0005-0.001. Always check cache first.
+ *
+ * @param regulationText - Regulation text (truncated to 3000 chars)
+ * @param maxRetries - Maximum retry attempts
+ * @returns Deadline candidates with ISO dates
+ */
+export async function extractDeadlineCandidates(
+  regulationText: string,
+  maxRetries: number = 3
+): Promise<AIDeadlineCandidate[]> {
+  const cacheKey = `deadlines:${createCacheKey(regulationText)}`;
+
+  // Check cache first
+  if (deadlinesCache.has(cacheKey)) {
+    console.log(`[Cache HIT] Returning cached deadlines`);
+    return deadlinesCache.get(cacheKey)!;
+  }
+
+  console.log(`[Cache MISS] Extracting deadlines (~$0.0005-0.001 cost)`);
+
+  try {
+    const response = await retryWithBackoff(
+      () =>
+        openai.chat.completions.create({
+          model: 'gpt-3.5-turbo',
+          messages: [
+            {
+              role: 'system',
+              content:
+                'Extract compliance deadlines from regulation text. Return ONLY a valid JSON array of objects with fields: date (YYYY-MM-DD), deadlineType (one of EFFECTIVE_DATE, COMPLIANCE, FILING, REPORTING, NOTICE, TRAINING), description. No other text.',
+            },
+            {
+              role: 'user',
+              content: `Extract all compliance deadlines from this regulation:\n\n${regulationText.substring(0, 3000)}`,
+            },
+          ],
+          max_tokens: 400,
+          temperature: 0.2,
+        }),
+      maxRetries
+    );
+
+    const content = response.choices[0]?.message?.content || '';
+    const parsed = JSON.parse(content) as AIDeadlineCandidate[];
+    const deadlines = Array.isArray(parsed) ? parsed : [];
+
+    // Cache result
+    deadlinesCache.set(cacheKey, deadlines);
+
+    return deadlines;
+  } catch (error) {
+    console.error(`[Error] Failed to extract deadlines:`, error);
+    return [];
+  }
+}
+
 /**
  * Calculate significance score based on metrics and summary
+ * When classified changes are given they take precedence over summary
+ * keywords: editorial-only changes (renumbering, typo fixes) are LOW however
+ * many lines moved, and the highest-impact substantive change sets the floor
  * @param metrics - Change metrics
  * @param summary - AI-generated summary
+ * @param classifiedChanges - Changes classified by the change classifier
  * @returns Significance score (HIGH, MEDIUM, LOW)
  */
 export function calculateSignificance(
   metrics: ChangeMetrics,
-  summary: PolicyDiffSummary
+  summary: PolicyDiffSummary,
+  classifiedChanges?: ClassifiedChange[]
 ): SignificanceScore {
+  if (classifiedChanges) {
+    return calculateClassifiedSignificance(metrics, summary, classifiedChanges);
+  }
+
   // High-impact keywords
   const highImpactKeywords = [
     'penalty',
@@ -285,12 +357,48 @@ export function calculateSignificance(
   return SignificanceScore.LOW;
 }
 
+/**
+ * Significance from classified changes, with size as a fallback for
+ * substantive changes the classifier could not name
+ */
+function calculateClassifiedSignificance(
+  metrics: ChangeMetrics,
+  summary: PolicyDiffSummary,
+  classifiedChanges: ClassifiedChange[]
+): SignificanceScore {
+  const substantive = classifiedChanges.filter(
+    (change) => change.classification !== ChangeClassification.EDITORIAL
+  );
+  if (substantive.length === 0) {
+    return SignificanceScore.LOW;
+  }
+
+  if (
+    substantive.some((change) => change.impact === SignificanceScore.HIGH) ||
+    metrics.percentageChanged > 30 ||
+    summary.keyChanges.length > 4
+  ) {
+    return SignificanceScore.HIGH;
+  }
+
+  if (
+    substantive.some((change) => change.impact === SignificanceScore.MEDIUM) ||
+    metrics.percentageChanged > 15 ||
+    summary.keyChanges.length > 2
+  ) {
+    return SignificanceScore.MEDIUM;
+  }
+
+  return SignificanceScore.LOW;
+}
+
 /**
  * Clear caches (useful for testing or manual refresh)
  */
 export function clearCaches(): void {
   summaryCache.clear();
   obligationsCache.clear();
+  deadlinesCache.clear();
   console.log('[Cache] Cleared all caches');
 }
 
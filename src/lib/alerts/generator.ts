@@ -1,4 +1,10 @@
 import { prisma } from '@/lib/prisma'
+import { getSubscribedRegulationFilter } from '@/lib/regulations/subscriptions'
+import { getBudgetSummary } from '@/lib/budgets/budgets'
+import { getFinancialSettings } from '@/lib/customers/financial-settings'
+import { BASE_CURRENCY, convertAmount, toCurrencyCode } from '@/lib/cost-estimator/currency'
+import { listFxRates } from '@/lib/cost-estimator/fx-rates'
+import { fiscalYearOf } from '@/lib/utils/fiscal-calendar'
 import { addDays, differenceInDays } from 'date-fns'
 
 /**
@@ -13,7 +19,7 @@ const ALERT_RULES = {
     warningDays: 14
   },
   highCost: {
-    threshold: 100_000,
+    threshold: 100_000, // USD
     years: 2
   },
   budgetVariance: {
@@ -22,6 +28,11 @@ const ALERT_RULES = {
   },
   unusualActivity: {
     pendingApprovalsThreshold: 5
+  },
+  quoteExpiry: {
+    windowDays: 30,
+    warningDays: 7,
+    expiredDays: 7 // Keep reporting expired quotes this long
   }
 } as const
 
@@ -29,7 +40,8 @@ const ALERT_CATEGORIES = {
   DEADLINE: 'DEADLINE',
   HIGH_COST: 'HIGH_COST',
   BUDGET_VARIANCE: 'BUDGET_VARIANCE',
-  UNUSUAL_ACTIVITY: 'UNUSUAL_ACTIVITY'
+  UNUSUAL_ACTIVITY: 'UNUSUAL_ACTIVITY',
+  QUOTE_EXPIRY: 'QUOTE_EXPIRY'
 } as const
 
 interface AlertToCreate {
@@ -50,6 +62,15 @@ function getEstimatedCost(
   return avgOneTime + estimate.recurringCostAnnual * yearsOfRecurring
 }
 
+function formatAmount(amount: number, currency: string): string {
+  return amount.toLocaleString('en-US', {
+    style: 'currency',
+    currency,
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0
+  })
+}
+
 function buildAlert(customerId: string, overrides: Omit<AlertToCreate, 'customerId'>): AlertToCreate {
   return { customerId, ...overrides }
 }
@@ -61,6 +82,7 @@ async function detectApproachingDeadlines(customerId: string): Promise<AlertToCr
   const alerts: AlertToCreate[] = []
   const thirtyDaysFromNow = addDays(new Date(), ALERT_RULES.deadlines.windowDays)
   const now = new Date()
+  const watchedRegulations = await getSubscribedRegulationFilter(customerId)
 
   const deadlines = await prisma.deadline.findMany({
     where: {
@@ -68,18 +90,9 @@ async function detectApproachingDeadlines(customerId: string): Promise<AlertToCr
         lte: thirtyDaysFromNow,
         gte: now
       },
+      // Only regulations the customer subscribes to (directly or by rule)
       regulationVersion: {
-        regulation: {
-          // Get only regulations that this customer has cost estimates for
-          // This creates an implicit customer association
-          versions: {
-            some: {
-              costEstimates: {
-                some: { customerId }
-              }
-            }
-          }
-        }
+        regulation: watchedRegulations
       }
     },
     select: {
@@ -127,7 +140,8 @@ async function detectApproachingDeadlines(customerId: string): Promise<AlertToCr
 }
 
 /**
- * Detects high-cost regulations (>100k potential cost)
+ * Detects high-cost regulations (>100k USD potential cost, converted at
+ * today's rate)
  */
 async function detectHighCostRegulations(customerId: string): Promise<AlertToCreate[]> {
   const alerts: AlertToCreate[] = []
@@ -135,11 +149,13 @@ async function detectHighCostRegulations(customerId: string): Promise<AlertToCre
   const costEstimates = await prisma.costEstimate.findMany({
     where: {
       customerId,
+      supersededAt: null,
       // Calculate total estimated cost
       createdAt: { gte: addDays(new Date(), -7) } // Only alerts for recent estimates
     },
     select: {
       id: true,
+      currency: true,
       oneTimeCostLow: true,
       oneTimeCostHigh: true,
       recurringCostAnnual: true,
@@ -151,18 +167,22 @@ async function detectHighCostRegulations(customerId: string): Promise<AlertToCre
     },
     take: 20
   })
+  const fxRates = await listFxRates()
+  const now = new Date()
 
   costEstimates.forEach(estimate => {
     // Calculate typical cost (average of low/high plus 2 years of recurring)
     const totalEstimatedCost = getEstimatedCost(estimate, ALERT_RULES.highCost.years)
+    const currency = toCurrencyCode(estimate.currency)
+    const totalUsd = convertAmount(totalEstimatedCost, currency, BASE_CURRENCY, fxRates, now)
 
-    if (totalEstimatedCost > ALERT_RULES.highCost.threshold) {
+    if (totalUsd > ALERT_RULES.highCost.threshold) {
       alerts.push(
         buildAlert(customerId, {
           type: 'IMPORTANT',
           category: ALERT_CATEGORIES.HIGH_COST,
           title: 'High-Cost Regulation Detected',
-          message: `${estimate.regulationVersion.regulation.title} estimated cost: $${totalEstimatedCost.toLocaleString('en-US', { maximumFractionDigits: 0 })}`,
+          message: `${estimate.regulationVersion.regulation.title} estimated cost: ${formatAmount(totalEstimatedCost, currency)}`,
           actionUrl: `/dashboard/regulations/${estimate.regulationVersion.regulation.id}`,
           priority: 'IMPORTANT'
         })
@@ -174,16 +194,55 @@ async function detectHighCostRegulations(customerId: string): Promise<AlertToCre
 }
 
 /**
- * Detects budget variance (spending >10% above estimate)
+ * Detects budget variance (>10% above budget or estimate): budget lines whose
+ * spend or committed estimates exceed the fiscal-year budget, and estimates
+ * whose recorded spend exceeds the estimate. Budgets and spend are in the
+ * reporting currency; estimates are converted at today's rate.
  */
 async function detectBudgetVariance(customerId: string): Promise<AlertToCreate[]> {
   const alerts: AlertToCreate[] = []
+  const { fiscalCalendar, reportingCurrency } = await getFinancialSettings(customerId)
+  const fiscalYear = fiscalYearOf(new Date(), fiscalCalendar)
+  const { thresholdPercent } = ALERT_RULES.budgetVariance
+
+  const summary = await getBudgetSummary(customerId, fiscalYear)
+
+  summary.lines.forEach(line => {
+    if (line.budgetCode === null || line.budgeted <= 0) return
+
+    const committedOrSpent = Math.max(line.actual, line.committed)
+    const variance = ((committedOrSpent - line.budgeted) / line.budgeted) * 100
+    if (variance > thresholdPercent) {
+      const basis = line.actual >= line.committed ? 'Spending' : 'Approved estimates'
+      alerts.push(
+        buildAlert(customerId, {
+          type: 'IMPORTANT',
+          category: ALERT_CATEGORIES.BUDGET_VARIANCE,
+          title: `Budget Variance: ${line.department} (${line.budgetCode})`,
+          message: `${basis} ${variance.toFixed(0)}% above FY${fiscalYear} budget (${formatAmount(committedOrSpent, reportingCurrency)} vs ${formatAmount(line.budgeted, reportingCurrency)})`,
+          actionUrl: '/dashboard/portfolio-analytics',
+          priority: 'IMPORTANT'
+        })
+      )
+    }
+  })
+
+  // Spend recorded against individual estimates
+  const spendByEstimate = await prisma.budgetActual.groupBy({
+    by: ['costEstimateId'],
+    where: { customerId, costEstimateId: { not: null } },
+    _sum: { amount: true }
+  })
+  if (spendByEstimate.length === 0) return alerts
 
-  // Get cost estimates with recent activity
   const costEstimates = await prisma.costEstimate.findMany({
-    where: { customerId },
+    where: {
+      customerId,
+      id: { in: spendByEstimate.map(entry => entry.costEstimateId as string) }
+    },
     select: {
       id: true,
+      currency: true,
       oneTimeCostLow: true,
       oneTimeCostHigh: true,
       recurringCostAnnual: true,
@@ -192,45 +251,31 @@ async function detectBudgetVariance(customerId: string): Promise<AlertToCreate[]
           regulation: { select: { id: true, title: true } }
         }
       }
-    },
-    take: 50
-  })
-
-  // Calculate budget variance from activities
-  const activities = await prisma.activity.findMany({
-    where: {
-      customerId,
-      type: 'COST_RECORDED',
-      createdAt: { gte: addDays(new Date(), -30) }
-    },
-    select: { description: true, entityId: true }
-  })
-
-  // Group activities by regulation
-  const costsByRegulation = new Map<string, number>()
-  activities.forEach(activity => {
-    const match = activity.description?.match(/\$(\d+)/)
-    if (match && activity.entityId) {
-      const current = costsByRegulation.get(activity.entityId) || 0
-      costsByRegulation.set(activity.entityId, current + parseInt(match[1]))
     }
   })
+  const fxRates = await listFxRates()
+  const now = new Date()
 
   costEstimates.forEach(estimate => {
-    const estimateId = estimate.regulationVersion.regulation.id
-    const estimatedCost = getEstimatedCost(estimate, ALERT_RULES.budgetVariance.years)
-
-    const actualCost = costsByRegulation.get(estimateId) || 0
-    if (actualCost === 0) return
+    const estimatedCost = convertAmount(
+      getEstimatedCost(estimate, ALERT_RULES.budgetVariance.years),
+      toCurrencyCode(estimate.currency),
+      reportingCurrency,
+      fxRates,
+      now
+    )
+    const actualCost =
+      spendByEstimate.find(entry => entry.costEstimateId === estimate.id)?._sum.amount ?? 0
+    if (actualCost === 0 || estimatedCost <= 0) return
 
     const variance = ((actualCost - estimatedCost) / estimatedCost) * 100
-    if (variance > ALERT_RULES.budgetVariance.thresholdPercent) {
+    if (variance > thresholdPercent) {
       alerts.push(
         buildAlert(customerId, {
           type: 'IMPORTANT',
           category: ALERT_CATEGORIES.BUDGET_VARIANCE,
           title: `Budget Variance: ${estimate.regulationVersion.regulation.title}`,
-          message: `Spending ${variance.toFixed(0)}% above estimate ($${actualCost.toLocaleString('en-US', { maximumFractionDigits: 0 })} vs $${estimatedCost.toLocaleString('en-US', { maximumFractionDigits: 0 })})`,
+          message: `Spending ${variance.toFixed(0)}% above estimate (${formatAmount(actualCost, reportingCurrency)} vs ${formatAmount(estimatedCost, reportingCurrency)})`,
           actionUrl: `/dashboard/regulations/${estimate.regulationVersion.regulation.id}`,
           priority: 'IMPORTANT'
         })
@@ -249,7 +294,7 @@ async function detectUnusualActivity( customerId: string): Promise<AlertToCreate
 
   // Get all cost estimates with pending approvals for this customer
   const costEstimates = await prisma.costEstimate.findMany({
-    where: { customerId },
+    where: { customerId, supersededAt: null },
     select: {
       regulationVersion: {
         select: {
@@ -297,6 +342,63 @@ async function detectUnusualActivity( customerId: string): Promise<AlertToCreate
   return alerts
 }
 
+/**
+ * Detects selected vendor quotes expiring within 30 days, and those expired in
+ * the last week: their drivers fall back to the estimated cost on re-estimate
+ */
+async function detectQuoteExpiry(customerId: string): Promise<AlertToCreate[]> {
+  const alerts: AlertToCreate[] = []
+  const now = new Date()
+  const { windowDays, warningDays, expiredDays } = ALERT_RULES.quoteExpiry
+
+  const quotes = await prisma.vendorQuote.findMany({
+    where: {
+      customerId,
+      selected: true,
+      validUntil: {
+        gte: addDays(now, -expiredDays),
+        lte: addDays(now, windowDays)
+      }
+    },
+    select: {
+      id: true,
+      vendor: true,
+      driverDescription: true,
+      validUntil: true,
+      regulation: { select: { id: true, title: true } }
+    },
+    orderBy: { validUntil: 'asc' },
+    take: 50
+  })
+
+  quotes.forEach(quote => {
+    const daysRemaining = differenceInDays(quote.validUntil, now)
+    const expired = quote.validUntil.getTime() < now.getTime()
+    const priority: 'CRITICAL' | 'IMPORTANT' | 'INFO' = expired
+      ? 'CRITICAL'
+      : daysRemaining <= warningDays
+        ? 'IMPORTANT'
+        : 'INFO'
+
+    alerts.push(
+      buildAlert(customerId, {
+        type: priority,
+        category: ALERT_CATEGORIES.QUOTE_EXPIRY,
+        title: expired
+          ? `Vendor Quote Expired: ${quote.vendor}`
+          : `Vendor Quote Expiring: ${quote.vendor}`,
+        message: expired
+          ? `The ${quote.vendor} quote for ${quote.driverDescription} (${quote.regulation.title}) has expired; re-estimating will use the estimated cost`
+          : `${daysRemaining} days left on the ${quote.vendor} quote for ${quote.driverDescription} (${quote.regulation.title})`,
+        actionUrl: `/dashboard/regulations/${quote.regulation.id}`,
+        priority
+      })
+    )
+  })
+
+  return alerts
+}
+
 /**
  * Main alert generation function
  * OPTIMIZATION: Batches all alert creation in single $transaction
@@ -304,14 +406,21 @@ async function detectUnusualActivity( customerId: string): Promise<AlertToCreate
 export async function generateAlertsForCustomer(customerId: string) {
   try {
     // OPTIMIZATION: Run all detection in parallel
-    const [deadlineAlerts, costAlerts, budgetAlerts, activityAlerts] = await Promise.all([
+    const [deadlineAlerts, costAlerts, budgetAlerts, activityAlerts, quoteAlerts] = await Promise.all([
       detectApproachingDeadlines(customerId),
       detectHighCostRegulations(customerId),
       detectBudgetVariance(customerId),
-      detectUnusualActivity(customerId)
+      detectUnusualActivity(customerId),
+      detectQuoteExpiry(customerId)
     ])
 
-    const allAlerts = [...deadlineAlerts, ...costAlerts, ...budgetAlerts, ...activityAlerts]
+    const allAlerts = [
+      ...deadlineAlerts,
+      ...costAlerts,
+      ...budgetAlerts,
+      ...activityAlerts,
+      ...quoteAlerts
+    ]
 
     if (allAlerts.length === 0) {
       return { created: 0, updated: 0 }
@@ -334,7 +443,8 @@ export async function generateAlertsForCustomer(customerId: string) {
         deadline: deadlineAlerts.length,
         highCost: costAlerts.length,
         budgetVariance: budgetAlerts.length,
-        unusualActivity: activityAlerts.length
+        unusualActivity: activityAlerts.length,
+        quoteExpiry: quoteAlerts.length
       }
     }
   } catch (error) {
@@ -1,10 +1,20 @@
 import prisma from '@/lib/prisma'
-import { format, subMonths, addMonths } from 'date-fns'
-
+import {
+  DEFAULT_FISCAL_CALENDAR,
+  fiscalPeriodOf,
+  fiscalPeriodStart,
+  formatFiscalPeriod,
+  shiftFiscalPeriod
+} from '@/lib/utils/fiscal-calendar'
+import { BASE_CURRENCY, convertAmount, toCurrencyCode } from '@/lib/cost-estimator/currency'
+import { listFxRates } from '@/lib/cost-estimator/fx-rates'
+import type { CurrencyCode, FiscalCalendar } from '@/types/cost-estimate'
+
+// `month` is the fiscal period label, e.g. "FY2027 P03"
 export interface VelocityData {
   month: string
   count: number
-  change: number // % change vs previous month
+  change: number // % change vs previous period
 }
 
 export interface CostTrendData {
@@ -19,15 +29,40 @@ export interface ForecastResult {
 }
 
 /**
- * Calculate regulatory velocity: number of new regulations detected per month
+ * Labels of the last `count` fiscal periods up to the current one, oldest
+ * first, and the start of the oldest
+ */
+function recentFiscalPeriods(count: number, calendar: FiscalCalendar): { labels: string[]; startDate: Date } {
+  const current = fiscalPeriodOf(new Date(), calendar)
+  const periods = Array.from({ length: count }, (_, i) =>
+    shiftFiscalPeriod(current.fiscalYear, current.period, i - count + 1)
+  )
+  return {
+    labels: periods.map(p => formatFiscalPeriod(p.fiscalYear, p.period)),
+    startDate: fiscalPeriodStart(periods[0].fiscalYear, periods[0].period, calendar)
+  }
+}
+
+function fiscalPeriodKey(date: Date, calendar: FiscalCalendar): string {
+  const { fiscalYear, period } = fiscalPeriodOf(date, calendar)
+  return formatFiscalPeriod(fiscalYear, period)
+}
+
+/**
+ * Calculate regulatory velocity: number of new regulations detected per fiscal period
  */
-export async function calculateVelocity(customerId: string, months: number = 12): Promise<VelocityData[]> {
-  const startDate = subMonths(new Date(), months)
+export async function calculateVelocity(
+  customerId: string,
+  months: number = 12,
+  calendar: FiscalCalendar = DEFAULT_FISCAL_CALENDAR
+): Promise<VelocityData[]> {
+  const { labels: allMonths, startDate } = recentFiscalPeriods(months, calendar)
 
   // Get regulations detected in the timeframe
   const costEstimates = await prisma.costEstimate.findMany({
     where: {
       customerId,
+      supersededAt: null,
       createdAt: { gte: startDate }
     },
     select: {
@@ -49,7 +84,7 @@ export async function calculateVelocity(customerId: string, months: number = 12)
   const regulationsByMonth = new Map<string, Set<string>>()
 
   costEstimates.forEach(est => {
-    const monthKey = format(est.createdAt, 'yyyy-MM')
+    const monthKey = fiscalPeriodKey(est.createdAt, calendar)
     const regId = est.regulationVersion.regulation.id
 
     if (!regulationsByMonth.has(monthKey)) {
@@ -58,12 +93,6 @@ export async function calculateVelocity(customerId: string, months: number = 12)
     regulationsByMonth.get(monthKey)!.add(regId)
   })
 
-  // Convert to array with proper month generation
-  const allMonths: string[] = []
-  for (let i = months - 1; i >= 0; i--) {
-    allMonths.push(format(subMonths(new Date(), i), 'yyyy-MM'))
-  }
-
   return allMonths.map((month, idx) => {
     const count = regulationsByMonth.get(month)?.size || 0
     const prevCount = idx > 0 ? regulationsByMonth.get(allMonths[idx - 1])?.size || 0 : count
@@ -78,39 +107,52 @@ export async function calculateVelocity(customerId: string, months: number = 12)
 }
 
 /**
- * Calculate cost trend with rolling 3-month average
+ * Converts estimate amounts to the reporting currency at today's rate
+ */
+async function reportingCurrencyConverter(currency: CurrencyCode) {
+  const rates = await listFxRates()
+  const now = new Date()
+  return (amount: number, from: string) =>
+    Math.round(convertAmount(amount, toCurrencyCode(from), currency, rates, now))
+}
+
+/**
+ * Calculate cost trend per fiscal period with rolling 3-period average,
+ * in the reporting currency
  */
-export async function calculateCostTrend(customerId: string, months: number = 12): Promise<CostTrendData[]> {
-  const startDate = subMonths(new Date(), months)
+export async function calculateCostTrend(
+  customerId: string,
+  months: number = 12,
+  calendar: FiscalCalendar = DEFAULT_FISCAL_CALENDAR,
+  currency: CurrencyCode = BASE_CURRENCY
+): Promise<CostTrendData[]> {
+  const { labels: allMonths, startDate } = recentFiscalPeriods(months, calendar)
 
   const estimates = await prisma.costEstimate.findMany({
     where: {
       customerId,
+      supersededAt: null,
       createdAt: { gte: startDate }
     },
     select: {
       createdAt: true,
+      currency: true,
       oneTimeCostHigh: true,
       recurringCostAnnual: true
     },
     orderBy: { createdAt: 'asc' }
   })
+  const convert = await reportingCurrencyConverter(currency)
 
-  // Group by month
+  // Group by fiscal period
   const monthlyCosts = new Map<string, number>()
   estimates.forEach(est => {
-    const monthKey = format(est.createdAt, 'yyyy-MM')
-    const totalCost = est.oneTimeCostHigh + est.recurringCostAnnual
+    const monthKey = fiscalPeriodKey(est.createdAt, calendar)
+    const totalCost = convert(est.oneTimeCostHigh + est.recurringCostAnnual, est.currency)
     monthlyCosts.set(monthKey, (monthlyCosts.get(monthKey) || 0) + totalCost)
   })
 
-  // Generate all months in range
-  const allMonths: string[] = []
-  for (let i = months - 1; i >= 0; i--) {
-    allMonths.push(format(subMonths(new Date(), i), 'yyyy-MM'))
-  }
-
-  // Calculate rolling 3-month average
+  // Calculate rolling 3-period average
   return allMonths.map((month, idx) => {
     const windowStart = Math.max(0, idx - 2)
     const window = allMonths.slice(windowStart, idx + 1)
@@ -126,10 +168,14 @@ export async function calculateCostTrend(customerId: string, months: number = 12
 }
 
 /**
- * Get historical compliance health scores
+ * Get historical compliance health scores, labelled by fiscal period
  */
-export async function getHealthScoreHistory(customerId: string, months: number = 6) {
-  const startDate = subMonths(new Date(), months)
+export async function getHealthScoreHistory(
+  customerId: string,
+  months: number = 6,
+  calendar: FiscalCalendar = DEFAULT_FISCAL_CALENDAR
+) {
+  const { startDate } = recentFiscalPeriods(months, calendar)
 
   const history = await prisma.healthScoreHistory.findMany({
     where: {
@@ -140,15 +186,19 @@ export async function getHealthScoreHistory(customerId: string, months: number =
   })
 
   return history.map(h => ({
-    month: format(h.recordedAt, 'yyyy-MM'),
+    month: fiscalPeriodKey(h.recordedAt, calendar),
     score: h.score
   }))
 }
 
 /**
- * Forecast future regulation counts using simple linear regression
+ * Forecast regulation counts for the coming fiscal periods using simple linear regression
  */
-export function forecastRegulations(historical: VelocityData[], forecastMonths: number = 3): ForecastResult {
+export function forecastRegulations(
+  historical: VelocityData[],
+  forecastMonths: number = 3,
+  calendar: FiscalCalendar = DEFAULT_FISCAL_CALENDAR
+): ForecastResult {
   const n = historical.length
   const x = historical.map((_, i) => i) // Month indices
   const y = historical.map(d => d.count)
@@ -184,7 +234,8 @@ export function forecastRegulations(historical: VelocityData[], forecastMonths:
   const ssResidual = y.reduce((sum, yi, i) => sum + Math.pow(yi - (slope * x[i] + intercept), 2), 0)
   const r2 = ssTotal === 0 ? 0 : 1 - (ssResidual / ssTotal)
 
-  // Predict next N months
+  // Predict next N periods
+  const current = fiscalPeriodOf(new Date(), calendar)
   const predictions = Array.from({ length: forecastMonths }, (_, offset) => {
     const futureOffset = offset + 1
     const xValue = n + futureOffset - 1
@@ -193,8 +244,10 @@ export function forecastRegulations(historical: VelocityData[], forecastMonths:
     // If r2 is negative, the model is unreliable, so use very low confidence
     const confidence = r2 < 0 ? 0 : Math.round(Math.min(100, r2 * 100))
 
+    const future = shiftFiscalPeriod(current.fiscalYear, current.period, futureOffset)
+
     return {
-      month: format(addMonths(new Date(), futureOffset), 'yyyy-MM'),
+      month: formatFiscalPeriod(future.fiscalYear, future.period),
       predicted,
       confidence
     }
@@ -207,9 +260,12 @@ export function forecastRegulations(historical: VelocityData[], forecastMonths:
 }
 
 /**
- * Calculate department impact matrix data
+ * Calculate department impact matrix data, costs in the reporting currency
  */
-export async function calculateDepartmentMatrix(customerId: string) {
+export async function calculateDepartmentMatrix(
+  customerId: string,
+  currency: CurrencyCode = BASE_CURRENCY
+) {
   interface DepartmentBreakdown {
     department: string
     hours: number
@@ -217,9 +273,10 @@ export async function calculateDepartmentMatrix(customerId: string) {
   }
 
   const costEstimates = await prisma.costEstimate.findMany({
-    where: { customerId },
+    where: { customerId, supersededAt: null },
     select: {
       departmentBreakdown: true,
+      currency: true,
       oneTimeCostHigh: true,
       regulationVersion: {
         select: {
@@ -233,6 +290,8 @@ export async function calculateDepartmentMatrix(customerId: string) {
     }
   })
 
+  const convert = await reportingCurrencyConverter(currency)
+
   // Build matrix: department x regulation type
   const matrix = new Map<string, Map<string, { count: number; cost: number; hours: number }>>()
 
@@ -257,7 +316,7 @@ export async function calculateDepartmentMatrix(customerId: string) {
           const existing = deptMap.get(regulationType) || { count: 0, cost: 0, hours: 0 }
           deptMap.set(regulationType, {
             count: existing.count + 1,
-            cost: existing.cost + (est.oneTimeCostHigh || 0),
+            cost: existing.cost + convert(est.oneTimeCostHigh || 0, est.currency),
             hours: existing.hours + (deptData.hours || 0)
           })
         })
@@ -287,14 +346,18 @@ export async function calculateDepartmentMatrix(customerId: string) {
 }
 
 /**
- * Calculate geographic heat map data by state
+ * Calculate geographic heat map data by state, costs in the reporting currency
  */
-export async function calculateGeoHeatMap(customerId: string) {
+export async function calculateGeoHeatMap(
+  customerId: string,
+  currency: CurrencyCode = BASE_CURRENCY
+) {
   // This would require regulations to have a jurisdiction field with state info
   // For now, returning a template structure
   const regulations = await prisma.costEstimate.findMany({
-    where: { customerId },
+    where: { customerId, supersededAt: null },
     select: {
+      currency: true,
       oneTimeCostHigh: true,
       regulationVersion: {
         select: {
@@ -314,6 +377,8 @@ export async function calculateGeoHeatMap(customerId: string) {
     }
   })
 
+  const convert = await reportingCurrencyConverter(currency)
+
   // Build state-level aggregates
   const stateMap = new Map<
     string,
@@ -336,7 +401,7 @@ export async function calculateGeoHeatMap(customerId: string) {
 
     const state = stateMap.get(stateCode)!
     state.count += 1
-    state.cost += est.oneTimeCostHigh || 0
+    state.cost += convert(est.oneTimeCostHigh || 0, est.currency)
 
     const typeCount = state.types.get(est.regulationVersion.regulation.regulationType) || 0
     state.types.set(est.regulationVersion.regulation.regulationType, typeCount + 1)
@@ -0,0 +1,175 @@
+/**
+ * Budget Summary
+ * Matches commitments and actual spend to fiscal-year department budget
+ * lines and compares budget vs committed vs actual. Pure functions; budgets
+ * are stored by budgets.ts.
+ */
+
+import type {
+  BudgetActual,
+  BudgetCommitment,
+  BudgetLineStatus,
+  BudgetSummary,
+  BudgetSummaryLine,
+  DepartmentBudget,
+} from '../../types/budgets';
+
+/**
+ * Department cost of an estimate, as stored in CostEstimate.departmentBreakdown
+ */
+export interface DepartmentCost {
+  department: string;
+  oneTimeCost: number;
+  recurringCostAnnual: number;
+  budgetCode?: string;
+}
+
+type BudgetLineKey = Pick<DepartmentBudget, 'department' | 'budgetCode'>;
+
+/**
+ * Budget line an amount is charged to: the line with its budget code, or
+ * else the department's first line by code
+ * @param budgets - Budget lines of one fiscal year
+ * @param department - Department of the amount
+ * @param budgetCode - Budget code of the amount, if any
+ * @returns Matching line, or null when the department has no budget
+ */
+export function matchBudgetLine<T extends BudgetLineKey>(
+  budgets: T[],
+  department: string,
+  budgetCode: string | null | undefined
+): T | null {
+  const byCode = budgetCode
+    ? budgets.find((budget) => budget.budgetCode === budgetCode && budget.department === department)
+    : undefined;
+  if (byCode) return byCode;
+
+  const departmentLines = budgets
+    .filter((budget) => budget.department === department)
+    .sort((a, b) => a.budgetCode.localeCompare(b.budgetCode));
+  return departmentLines[0] ?? null;
+}
+
+/**
+ * Point each department of an estimate at the customer's budget line
+ * Departments without a budget line keep the code they have
+ * @param departments - Department breakdown of an estimate
+ * @param budgets - Budget lines of the current fiscal year
+ * @returns Breakdown with budget codes from the budget lines
+ */
+export function assignBudgetCodes<T extends { department: string; budgetCode?: string }>(
+  departments: T[],
+  budgets: BudgetLineKey[]
+): T[] {
+  return departments.map((entry) => {
+    const line = matchBudgetLine(budgets, entry.department, null);
+    return line ? { ...entry, budgetCode: line.budgetCode } : entry;
+  });
+}
+
+/**
+ * First-year cost of an approved estimate per department: one-time cost plus
+ * one year of recurring cost
+ * @param departments - Department breakdown of the estimate
+ * @returns Amounts to commit, departments without cost left out
+ */
+export function estimateCommitments(
+  departments: DepartmentCost[]
+): Array<{ department: string; budgetCode: string | null; amount: number }> {
+  return departments
+    .map((entry) => ({
+      department: entry.department,
+      budgetCode: entry.budgetCode ?? null,
+      amount: Math.round(entry.oneTimeCost + entry.recurringCostAnnual),
+    }))
+    .filter((entry) => entry.amount > 0);
+}
+
+function lineStatus(line: Omit<BudgetSummaryLine, 'status'>): BudgetLineStatus {
+  if (line.budgetCode === null) return 'UNBUDGETED';
+  if (line.actual > line.budgeted) return 'OVER_BUDGET';
+  if (line.committed > line.budgeted) return 'OVER_COMMITTED';
+  return 'ON_TRACK';
+}
+
+/**
+ * Budget vs committed vs actual for a fiscal year
+ * Amounts charged to a department without a budget line are grouped into an
+ * UNBUDGETED line for that department
+ * @param fiscalYear - Fiscal year
+ * @param budgets - Budget lines
+ * @param commitments - Committed estimate costs
+ * @param actuals - Recorded spend
+ * @returns Lines per budget code (then unbudgeted departments) and totals
+ */
+export function summarizeBudgets(
+  fiscalYear: number,
+  budgets: DepartmentBudget[],
+  commitments: Array<Pick<BudgetCommitment, 'fiscalYear' | 'department' | 'budgetCode' | 'amount'>>,
+  actuals: Array<Pick<BudgetActual, 'fiscalYear' | 'department' | 'budgetCode' | 'amount'>>
+): BudgetSummary {
+  const yearBudgets = budgets.filter((budget) => budget.fiscalYear === fiscalYear);
+  const lines = new Map<string, { department: string; budgetCode: string | null; budgeted: number; committed: number; actual: number }>();
+
+  for (const budget of yearBudgets) {
+    lines.set(`code:${budget.budgetCode}`, {
+      department: budget.department,
+      budgetCode: budget.budgetCode,
+      budgeted: budget.amount,
+      committed: 0,
+      actual: 0,
+    });
+  }
+
+  const charge = (
+    entry: { fiscalYear: number; department: string; budgetCode: string | null; amount: number },
+    field: 'committed' | 'actual'
+  ) => {
+    if (entry.fiscalYear !== fiscalYear) return;
+    const line = matchBudgetLine(yearBudgets, entry.department, entry.budgetCode);
+    const key = line ? `code:${line.budgetCode}` : `department:${entry.department}`;
+    const current = lines.get(key) ?? {
+      department: entry.department,
+      budgetCode: null,
+      budgeted: 0,
+      committed: 0,
+      actual: 0,
+    };
+    current[field] += entry.amount;
+    lines.set(key, current);
+  };
+
+  commitments.forEach((entry) => charge(entry, 'committed'));
+  actuals.forEach((entry) => charge(entry, 'actual'));
+
+  const summaryLines: BudgetSummaryLine[] = [...lines.values()]
+    .map((line) => {
+      const summary = {
+        fiscalYear,
+        ...line,
+        remaining: line.budgeted - line.committed,
+        variance: line.actual - line.budgeted,
+        variancePercent:
+          line.budgeted > 0 ? Math.round(((line.actual - line.budgeted) / line.budgeted) * 1000) / 10 : null,
+      };
+      return { ...summary, status: lineStatus(summary) };
+    })
+    .sort(
+      (a, b) =>
+        Number(a.budgetCode === null) - Number(b.budgetCode === null) ||
+        a.department.localeCompare(b.department) ||
+        (a.budgetCode ?? '').localeCompare(b.budgetCode ?? '')
+    );
+
+  const totals = summaryLines.reduce(
+    (sum, line) => ({
+      budgeted: sum.budgeted + line.budgeted,
+      committed: sum.committed + line.committed,
+      actual: sum.actual + line.actual,
+      remaining: sum.remaining + line.remaining,
+    }),
+    { budgeted: 0, committed: 0, actual: 0, remaining: 0 }
+  );
+
+  return { fiscalYear, lines: summaryLines, totals };
+}
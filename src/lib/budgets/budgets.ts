@@ -0,0 +1,261 @@
+/**
+ * Department Budgets
+ * Fiscal-year budgets per department and budget code, commitments made when
+ * an estimate is approved, and recorded actual spend. Comparison is done by
+ * budget-summary.ts.
+ */
+
+import prisma from '@/lib/prisma';
+import { getFinancialSettings, getFiscalCalendar } from '@/lib/customers/financial-settings';
+import { convertDepartmentBreakdown, toCurrencyCode } from '@/lib/cost-estimator/currency';
+import { listFxRates } from '@/lib/cost-estimator/fx-rates';
+import { fiscalYearOf } from '@/lib/utils/fiscal-calendar';
+import { estimateCommitments, summarizeBudgets, type DepartmentCost } from './budget-summary';
+import type { BudgetActual, BudgetSummary, DepartmentBudget } from '@/types/budgets';
+
+export interface DepartmentBudgetInput {
+  fiscalYear: number;
+  department: string;
+  budgetCode: string;
+  amount: number;
+  notes?: string | null;
+}
+
+export interface BudgetActualInput {
+  department: string;
+  budgetCode?: string | null;
+  costEstimateId?: string | null;
+  amount: number;
+  spentAt: Date;
+  description?: string | null;
+}
+
+const budgetSelect = {
+  id: true,
+  fiscalYear: true,
+  department: true,
+  budgetCode: true,
+  amount: true,
+  notes: true,
+  updatedBy: true,
+  updatedAt: true,
+} as const;
+
+const actualSelect = {
+  id: true,
+  costEstimateId: true,
+  fiscalYear: true,
+  department: true,
+  budgetCode: true,
+  amount: true,
+  spentAt: true,
+  description: true,
+  recordedBy: true,
+} as const;
+
+/**
+ * Budget lines of a customer for a fiscal year
+ * @param customerId - Customer ID
+ * @param fiscalYear - Fiscal year
+ * @returns Budget lines ordered by department and code
+ */
+export async function getDepartmentBudgets(
+  customerId: string,
+  fiscalYear: number
+): Promise<DepartmentBudget[]> {
+  return prisma.departmentBudget.findMany({
+    where: { customerId, fiscalYear },
+    select: budgetSelect,
+    orderBy: [{ department: 'asc' }, { budgetCode: 'asc' }],
+  });
+}
+
+/**
+ * Create or update a budget line (keyed by fiscal year and budget code)
+ * @param customerId - Customer ID
+ * @param input - Budget line
+ * @param updatedBy - Admin email
+ * @returns Stored budget line
+ */
+export async function saveDepartmentBudget(
+  customerId: string,
+  input: DepartmentBudgetInput,
+  updatedBy: string
+): Promise<DepartmentBudget> {
+  const data = {
+    department: input.department,
+    amount: input.amount,
+    notes: input.notes ?? null,
+    updatedBy,
+  };
+  return prisma.departmentBudget.upsert({
+    where: {
+      customerId_fiscalYear_budgetCode: {
+        customerId,
+        fiscalYear: input.fiscalYear,
+        budgetCode: input.budgetCode,
+      },
+    },
+    create: { ...data, customerId, fiscalYear: input.fiscalYear, budgetCode: input.budgetCode },
+    update: data,
+    select: budgetSelect,
+  });
+}
+
+/**
+ * Delete a budget line of a customer
+ * @param customerId - Customer ID
+ * @param budgetId - Budget line ID
+ * @returns False when the line does not exist for the customer
+ */
+export async function deleteDepartmentBudget(customerId: string, budgetId: string): Promise<boolean> {
+  const result = await prisma.departmentBudget.deleteMany({
+    where: { id: budgetId, customerId },
+  });
+  return result.count > 0;
+}
+
+/**
+ * Commit the first-year cost of an approved estimate against the customer's
+ * fiscal year of approval, in the customer's reporting currency at the approval
+ * date's rate. Commitments of earlier revisions for the same regulation are
+ * released so a re-approved estimate is not counted twice.
+ * @param costEstimateId - Approved estimate revision
+ * @param approvalId - Approval that approved it
+ * @param approvedAt - Approval date
+ * @returns Number of department commitments stored
+ */
+export async function commitApprovedEstimate(
+  costEstimateId: string,
+  approvalId: string,
+  approvedAt: Date
+): Promise<number> {
+  const estimate = await prisma.costEstimate.findUnique({
+    where: { id: costEstimateId },
+    select: {
+      customerId: true,
+      currency: true,
+      departmentBreakdown: true,
+      regulationVersion: { select: { regulationId: true } },
+    },
+  });
+  if (!estimate) return 0;
+
+  const settings = await getFinancialSettings(estimate.customerId);
+  const currency = toCurrencyCode(estimate.currency);
+  const departments = convertDepartmentBreakdown(
+    (estimate.departmentBreakdown as { departments?: DepartmentCost[] } | null)?.departments ?? [],
+    currency,
+    settings.reportingCurrency,
+    currency === settings.reportingCurrency ? [] : await listFxRates(),
+    approvedAt
+  );
+  const fiscalYear = fiscalYearOf(approvedAt, settings.fiscalCalendar);
+  const commitments = estimateCommitments(departments);
+
+  await prisma.$transaction([
+    prisma.budgetCommitment.deleteMany({
+      where: {
+        customerId: estimate.customerId,
+        costEstimate: { regulationVersion: { regulationId: estimate.regulationVersion.regulationId } },
+      },
+    }),
+    prisma.budgetCommitment.createMany({
+      data: commitments.map((commitment) => ({
+        ...commitment,
+        customerId: estimate.customerId,
+        costEstimateId,
+        approvalId,
+        fiscalYear,
+        committedAt: approvedAt,
+      })),
+    }),
+  ]);
+
+  console.log(
+    `[Budgets] Committed ${commitments.length} department amount(s) of estimate ${costEstimateId} to FY${fiscalYear}`
+  );
+  return commitments.length;
+}
+
+/**
+ * Release the commitments made by an approval that was withdrawn
+ * @param approvalId - Approval ID
+ * @returns Number of commitments released
+ */
+export async function releaseApprovalCommitments(approvalId: string): Promise<number> {
+  const result = await prisma.budgetCommitment.deleteMany({ where: { approvalId } });
+  return result.count;
+}
+
+/**
+ * Record actual spend against a department's budget, in the customer's
+ * fiscal year of the spend date
+ * @param customerId - Customer ID
+ * @param input - Spend
+ * @param recordedBy - Recorder email
+ * @returns Stored spend
+ */
+export async function recordBudgetActual(
+  customerId: string,
+  input: BudgetActualInput,
+  recordedBy: string
+): Promise<BudgetActual> {
+  const calendar = await getFiscalCalendar(customerId);
+  return prisma.budgetActual.create({
+    data: {
+      customerId,
+      costEstimateId: input.costEstimateId ?? null,
+      fiscalYear: fiscalYearOf(input.spentAt, calendar),
+      department: input.department,
+      budgetCode: input.budgetCode ?? null,
+      amount: input.amount,
+      spentAt: input.spentAt,
+      description: input.description ?? null,
+      recordedBy,
+    },
+    select: actualSelect,
+  });
+}
+
+/**
+ * Recorded spend of a customer for a fiscal year
+ * @param customerId - Customer ID
+ * @param fiscalYear - Fiscal year
+ * @returns Spend, most recent first
+ */
+export async function getBudgetActuals(
+  customerId: string,
+  fiscalYear: number
+): Promise<BudgetActual[]> {
+  return prisma.budgetActual.findMany({
+    where: { customerId, fiscalYear },
+    select: actualSelect,
+    orderBy: { spentAt: 'desc' },
+  });
+}
+
+/**
+ * Budget vs committed vs actual of a customer for a fiscal year
+ * @param customerId - Customer ID
+ * @param fiscalYear - Fiscal year
+ * @returns Budget summary
+ */
+export async function getBudgetSummary(
+  customerId: string,
+  fiscalYear: number
+): Promise<BudgetSummary> {
+  const [budgets, commitments, actuals] = await Promise.all([
+    getDepartmentBudgets(customerId, fiscalYear),
+    prisma.budgetCommitment.findMany({
+      where: { customerId, fiscalYear },
+      select: { fiscalYear: true, department: true, budgetCode: true, amount: true },
+    }),
+    prisma.budgetActual.findMany({
+      where: { customerId, fiscalYear },
+      select: { fiscalYear: true, department: true, budgetCode: true, amount: true },
+    }),
+  ]);
+
+  return summarizeBudgets(fiscalYear, budgets, commitments, actuals);
+}
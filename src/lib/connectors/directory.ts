@@ -0,0 +1,93 @@
+/**
+ * Directory Connector
+ * Reads a local directory of HTML or PDF-extracted text files
+ * An optional manifest.json supplies per-file metadata:
+ *   { "ca-sick-leave.txt": { "title": "...", "regulationType": "...", "publishedDate": "..." } }
+ * Also serves as the offline fixture connector for testing the ingestion pipeline
+ */
+
+import { readdir, readFile } from 'fs/promises';
+import path from 'path';
+import type {
+  NormalizedRegulationDocument,
+  RegulationConnector,
+  RegulationSourceConfig,
+} from '@/types/connectors';
+import {
+  resolveLocalPath,
+  htmlToText,
+  parseOptionalDate,
+  titleFromFileName,
+} from './normalize';
+
+const TEXT_EXTENSIONS = new Set(['.txt', '.md']);
+const HTML_EXTENSIONS = new Set(['.html', '.htm']);
+const MANIFEST_FILE = 'manifest.json';
+
+interface ManifestEntry {
+  title?: string;
+  regulationType?: string;
+  jurisdictionCode?: string;
+  sourceUrl?: string;
+  publishedDate?: string;
+  effectiveDate?: string;
+}
+
+/**
+ * Load manifest.json if the directory has one
+ * @param directory - Absolute directory path
+ * @returns Manifest entries keyed by file name
+ */
+async function loadManifest(
+  directory: string
+): Promise<Record<string, ManifestEntry>> {
+  try {
+    const raw = await readFile(path.join(directory, MANIFEST_FILE), 'utf8');
+    return JSON.parse(raw) as Record<string, ManifestEntry>;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return {};
+    }
+    throw error;
+  }
+}
+
+export const directoryConnector: RegulationConnector = {
+  type: 'DIRECTORY',
+  async fetchDocuments(
+    source: RegulationSourceConfig
+  ): Promise<NormalizedRegulationDocument[]> {
+    const directory = resolveLocalPath(source.location);
+    const manifest = await loadManifest(directory);
+    const fileNames = (await readdir(directory))
+      .filter((name) => {
+        const ext = path.extname(name).toLowerCase();
+        return TEXT_EXTENSIONS.has(ext) || HTML_EXTENSIONS.has(ext);
+      })
+      .sort();
+
+    const documents: NormalizedRegulationDocument[] = [];
+    for (const fileName of fileNames) {
+      const raw = await readFile(path.join(directory, fileName), 'utf8');
+      const isHtml = HTML_EXTENSIONS.has(path.extname(fileName).toLowerCase());
+      const contentText = isHtml ? htmlToText(raw) : raw.trim();
+      if (!contentText) {
+        continue;
+      }
+
+      const meta = manifest[fileName] || {};
+      documents.push({
+        externalId: fileName,
+        title: meta.title || titleFromFileName(fileName),
+        contentText,
+        regulationType: meta.regulationType,
+        jurisdictionCode: meta.jurisdictionCode,
+        sourceUrl: meta.sourceUrl,
+        publishedDate: parseOptionalDate(meta.publishedDate),
+        effectiveDate: parseOptionalDate(meta.effectiveDate),
+      });
+    }
+
+    return documents;
+  },
+};
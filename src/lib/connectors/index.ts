@@ -0,0 +1,9 @@
+export { rssConnector, parseFeed } from './rss';
+export { directoryConnector } from './directory';
+export { jsonExportConnector, parseJsonExport } from './json-export';
+export {
+  getConnector,
+  pollSource,
+  pollRegulationSources,
+  ingestSourceDocuments,
+} from './poller';
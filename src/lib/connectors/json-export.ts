@@ -0,0 +1,71 @@
+/**
+ * JSON Export Connector
+ * Reads a JSON array (or { documents: [...] }) exported by another system
+ * Accepted fields per document: id, title, text|contentText|html, regulationType,
+ * jurisdictionCode, sourceUrl|url, publishedDate, effectiveDate
+ */
+
+import type {
+  NormalizedRegulationDocument,
+  RegulationConnector,
+  RegulationSourceConfig,
+} from '@/types/connectors';
+import { readLocation, htmlToText, parseOptionalDate } from './normalize';
+
+/**
+ * Normalize parsed JSON export records
+ * @param payload - Parsed JSON export
+ * @returns Documents with a title and non-empty text
+ */
+export function parseJsonExport(payload: unknown): NormalizedRegulationDocument[] {
+  const records = Array.isArray(payload)
+    ? payload
+    : (payload as { documents?: unknown[] })?.documents;
+
+  if (!Array.isArray(records)) {
+    throw new Error('JSON export must be an array or { documents: [...] }');
+  }
+
+  return (records as unknown[])
+    .map((entry, index): NormalizedRegulationDocument | null => {
+      // Skip null, scalar and array entries instead of failing the export
+      if (typeof entry !== 'object' || entry === null || Array.isArray(entry)) {
+        return null;
+      }
+      const record = entry as Record<string, unknown>;
+      const title = typeof record.title === 'string' ? record.title.trim() : '';
+      const rawText = (record.contentText ?? record.text) as string | undefined;
+      const contentText =
+        typeof rawText === 'string'
+          ? rawText.trim()
+          : typeof record.html === 'string'
+            ? htmlToText(record.html)
+            : '';
+
+      if (!title || !contentText) {
+        return null;
+      }
+
+      return {
+        externalId: String(record.id ?? record.sourceUrl ?? `${index}:${title}`),
+        title,
+        contentText,
+        regulationType: record.regulationType as string | undefined,
+        jurisdictionCode: record.jurisdictionCode as string | undefined,
+        sourceUrl: (record.sourceUrl ?? record.url) as string | undefined,
+        publishedDate: parseOptionalDate(record.publishedDate),
+        effectiveDate: parseOptionalDate(record.effectiveDate),
+      };
+    })
+    .filter((doc): doc is NormalizedRegulationDocument => doc !== null);
+}
+
+export const jsonExportConnector: RegulationConnector = {
+  type: 'JSON_EXPORT',
+  async fetchDocuments(
+    source: RegulationSourceConfig
+  ): Promise<NormalizedRegulationDocument[]> {
+    const raw = await readLocation(source.location);
+    return parseJsonExport(JSON.parse(raw));
+  },
+};
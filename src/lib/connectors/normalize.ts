@@ -0,0 +1,149 @@
+/**
+ * Connector Normalization Helpers
+ * Reading source locations and turning HTML/feed markup into plain text
+ */
+
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+// A slow source must not hold up the whole poll
+export const REMOTE_FETCH_TIMEOUT_MS = 30_000;
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  sect: '§',
+  ndash: '–',
+  mdash: '—',
+  rsquo: '’',
+  lsquo: '‘',
+  rdquo: '”',
+  ldquo: '“',
+};
+
+/**
+ * Check whether a location is an HTTP(S) URL
+ * @param location - Source location
+ * @returns True for remote locations
+ */
+export function isRemoteLocation(location: string): boolean {
+  return /^https?:\/\//i.test(location);
+}
+
+/**
+ * Resolve a local location (plain path or file:// URL) to an absolute path
+ * Relative paths resolve against the project root
+ * @param location - Source location
+ * @returns Absolute filesystem path
+ */
+export function resolveLocalPath(location: string): string {
+  const filePath = location.startsWith('file://')
+    ? fileURLToPath(location)
+    : location;
+  return path.resolve(process.cwd(), filePath);
+}
+
+/**
+ * Read the raw content of a source location
+ * Remote reads are abandoned after the timeout and fail like any other fetch
+ * error, so the poller records the source as failed and moves on
+ * @param location - HTTP(S) URL, file:// URL or filesystem path
+ * @param timeoutMs - Time allowed for a remote response, body included
+ * @returns Raw text content
+ */
+export async function readLocation(
+  location: string,
+  timeoutMs: number = REMOTE_FETCH_TIMEOUT_MS
+): Promise<string> {
+  if (isRemoteLocation(location)) {
+    try {
+      const response = await fetch(location, {
+        headers: { 'User-Agent': 'RegImpact-Ingestion/1.0' },
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+      if (!response.ok) {
+        throw new Error(`Failed to fetch ${location}: HTTP ${response.status}`);
+      }
+      return await response.text();
+    } catch (error) {
+      if (error instanceof Error && error.name === 'TimeoutError') {
+        throw new Error(`Failed to fetch ${location}: timed out after ${timeoutMs}ms`);
+      }
+      throw error;
+    }
+  }
+
+  return readFile(resolveLocalPath(location), 'utf8');
+}
+
+/**
+ * Decode HTML/XML entities (named subset plus numeric references)
+ * @param text - Encoded text
+ * @returns Decoded text
+ */
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x?[0-9a-f]+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity.startsWith('#')) {
+      const code = entity[1].toLowerCase() === 'x'
+        ? parseInt(entity.slice(2), 16)
+        : parseInt(entity.slice(1), 10);
+      // Out-of-range code points stay as written rather than failing the item
+      return Number.isFinite(code) && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+    }
+    return HTML_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+/**
+ * Convert HTML into plain text, keeping block boundaries as line breaks
+ * @param html - HTML markup
+ * @returns Plain text with one block per line
+ */
+export function htmlToText(html: string): string {
+  const text = html
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+    .replace(/<(script|style)\b[\s\S]*?<\/\1>/gi, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|li|h[1-6]|tr|section|article|blockquote)>/gi, '\n')
+    .replace(/<[^>]+>/g, '');
+
+  return decodeEntities(text)
+    .split('\n')
+    .map((line) => line.replace(/[ \t\u00a0]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Parse a date from feed/export metadata
+ * @param value - Date string, timestamp or Date
+ * @returns Date, or undefined when missing or invalid
+ */
+export function parseOptionalDate(value: unknown): Date | undefined {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+  const date = value instanceof Date ? value : new Date(value as string | number);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * Derive a readable title from a file name
+ * e.g. "ca-paid-sick-leave_2026.txt" → "Ca Paid Sick Leave 2026"
+ * @param fileName - File name with extension
+ * @returns Title-cased title
+ */
+export function titleFromFileName(fileName: string): string {
+  return path
+    .basename(fileName, path.extname(fileName))
+    .split(/[-_\s]+/)
+    .filter(Boolean)
+    .map((word) => word[0].toUpperCase() + word.slice(1))
+    .join(' ');
+}
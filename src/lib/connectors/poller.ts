@@ -0,0 +1,157 @@
+/**
+ * Regulation Source Poller
+ * Runs each enabled RegulationSource through its connector and feeds the
+ * normalized documents into regulation version ingestion
+ */
+
+import prisma from '@/lib/prisma';
+import { ingestRegulationVersion } from '@/lib/regulations/ingestion';
+import type {
+  ConnectorType,
+  NormalizedRegulationDocument,
+  RegulationConnector,
+  RegulationSourceConfig,
+  SourcePollResult,
+} from '@/types/connectors';
+import { rssConnector } from './rss';
+import { directoryConnector } from './directory';
+import { jsonExportConnector } from './json-export';
+
+const CONNECTORS: Record<ConnectorType, RegulationConnector> = {
+  RSS: rssConnector,
+  DIRECTORY: directoryConnector,
+  JSON_EXPORT: jsonExportConnector,
+};
+
+/**
+ * Look up the connector implementation for a source type
+ * @param type - Connector type
+ * @returns Connector implementation
+ */
+export function getConnector(type: ConnectorType): RegulationConnector {
+  return CONNECTORS[type];
+}
+
+/**
+ * Ingest normalized documents for a single source
+ * @param source - Source configuration
+ * @param documents - Documents returned by the connector
+ * @returns Poll result counters (errors are collected, not thrown)
+ */
+export async function ingestSourceDocuments(
+  source: RegulationSourceConfig,
+  documents: NormalizedRegulationDocument[]
+): Promise<SourcePollResult> {
+  const result: SourcePollResult = {
+    sourceId: source.id,
+    sourceName: source.name,
+    documentsFound: documents.length,
+    versionsCreated: 0,
+    duplicates: 0,
+    errors: [],
+  };
+
+  // Sequential on purpose: each new version triggers an AI summary
+  for (const doc of documents) {
+    try {
+      const ingestion = await ingestRegulationVersion({
+        jurisdictionCode: doc.jurisdictionCode || source.jurisdictionCode,
+        regulation: {
+          title: doc.title,
+          regulationType: doc.regulationType || source.regulationType,
+          sourceUrl: doc.sourceUrl,
+          effectiveDate: doc.effectiveDate,
+        },
+        contentText: doc.contentText,
+        publishedDate: doc.publishedDate,
+      });
+
+      if (ingestion.status === 'CREATED') {
+        result.versionsCreated++;
+      } else {
+        result.duplicates++;
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      result.errors.push(`${doc.externalId}: ${message}`);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Fetch and ingest one source
+ * @param source - Source configuration
+ * @returns Poll result for the source
+ */
+export async function pollSource(
+  source: RegulationSourceConfig
+): Promise<SourcePollResult> {
+  try {
+    const documents = await getConnector(source.connectorType).fetchDocuments(source);
+    console.log(
+      `[Connectors] ${source.name}: ${documents.length} documents from ${source.connectorType}`
+    );
+    return await ingestSourceDocuments(source, documents);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[Connectors] ${source.name} failed:`, error);
+    return {
+      sourceId: source.id,
+      sourceName: source.name,
+      documentsFound: 0,
+      versionsCreated: 0,
+      duplicates: 0,
+      errors: [message],
+    };
+  }
+}
+
+/**
+ * Poll all enabled sources (optionally limited to some jurisdictions)
+ * Called by the /api/cron/ingest job
+ * @param jurisdictionCodes - Restrict to these jurisdiction codes
+ * @returns Aggregate counts plus per-source results
+ */
+export async function pollRegulationSources(jurisdictionCodes?: string[]) {
+  const sources = await prisma.regulationSource.findMany({
+    where: {
+      enabled: true,
+      ...(jurisdictionCodes?.length
+        ? { jurisdiction: { code: { in: jurisdictionCodes } } }
+        : {}),
+    },
+    include: { jurisdiction: { select: { code: true } } },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  const results: SourcePollResult[] = [];
+  for (const source of sources) {
+    const result = await pollSource({
+      id: source.id,
+      name: source.name,
+      connectorType: source.connectorType,
+      location: source.location,
+      jurisdictionCode: source.jurisdiction.code,
+      regulationType: source.regulationType,
+    });
+    results.push(result);
+
+    await prisma.regulationSource.update({
+      where: { id: source.id },
+      data: {
+        lastPolledAt: new Date(),
+        lastError: result.errors.length > 0 ? result.errors.join('\n') : null,
+      },
+    });
+  }
+
+  return {
+    sourcesPolled: sources.length,
+    versionsCreated: results.reduce((sum, r) => sum + r.versionsCreated, 0),
+    duplicates: results.reduce((sum, r) => sum + r.duplicates, 0),
+    errorCount: results.reduce((sum, r) => sum + r.errors.length, 0),
+    results,
+  };
+}
@@ -0,0 +1,107 @@
+/**
+ * RSS/Atom Feed Connector
+ * Reads RSS 2.0 <item> and Atom <entry> elements into regulation documents
+ */
+
+import type {
+  NormalizedRegulationDocument,
+  RegulationConnector,
+  RegulationSourceConfig,
+} from '@/types/connectors';
+import {
+  readLocation,
+  decodeEntities,
+  htmlToText,
+  parseOptionalDate,
+} from './normalize';
+
+/**
+ * Extract the inner text of the first matching tag
+ * @param xml - Element markup
+ * @param tags - Tag names to try, in priority order
+ * @returns Inner markup, or undefined when none of the tags exist
+ */
+function readTag(xml: string, tags: string[]): string | undefined {
+  for (const tag of tags) {
+    const escaped = tag.replace(':', '\\:');
+    const match = xml.match(
+      new RegExp(`<${escaped}\\b[^>]*>([\\s\\S]*?)<\\/${escaped}>`, 'i')
+    );
+    if (match) {
+      return match[1].replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1').trim();
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Read an Atom <link href="..."/> (preferring rel="alternate")
+ * @param xml - Entry markup
+ * @returns Link URL, if present
+ */
+function readAtomLink(xml: string): string | undefined {
+  const links = [...xml.matchAll(/<link\b([^>]*?)\/?>/gi)].map((m) => m[1]);
+  const preferred =
+    links.find((attrs) => /rel=["']alternate["']/i.test(attrs)) ??
+    links.find((attrs) => !/rel=/i.test(attrs)) ??
+    links[0];
+  return preferred?.match(/href=["']([^"']+)["']/i)?.[1];
+}
+
+/**
+ * Parse RSS/Atom markup into normalized documents
+ * @param xml - Feed XML
+ * @returns One document per item/entry with non-empty content
+ */
+export function parseFeed(xml: string): NormalizedRegulationDocument[] {
+  const entries = xml.match(/<(item|entry)\b[\s\S]*?<\/\1>/gi) || [];
+
+  return entries
+    .map((entry): NormalizedRegulationDocument | null => {
+      const title = decodeEntities(readTag(entry, ['title']) || '').trim();
+      const body = readTag(entry, [
+        'content:encoded',
+        'content',
+        'description',
+        'summary',
+      ]);
+      const contentText = body ? htmlToText(decodeEntitiesIfEscaped(body)) : '';
+      if (!title || !contentText) {
+        return null;
+      }
+
+      const link = readTag(entry, ['link']) || readAtomLink(entry);
+      const guid = readTag(entry, ['guid', 'id']);
+
+      return {
+        externalId: guid || link || title,
+        title,
+        contentText,
+        regulationType: readTag(entry, ['category']),
+        sourceUrl: link ? decodeEntities(link) : undefined,
+        publishedDate: parseOptionalDate(
+          readTag(entry, ['pubDate', 'published', 'updated', 'dc:date'])
+        ),
+      };
+    })
+    .filter((doc): doc is NormalizedRegulationDocument => doc !== null);
+}
+
+/**
+ * Feeds often entity-escape their HTML bodies (&lt;p&gt;) instead of using CDATA
+ * @param body - Raw element content
+ * @returns Markup with escaped tags restored
+ */
+function decodeEntitiesIfEscaped(body: string): string {
+  return /&lt;\/?[a-z]/i.test(body) ? decodeEntities(body) : body;
+}
+
+export const rssConnector: RegulationConnector = {
+  type: 'RSS',
+  async fetchDocuments(
+    source: RegulationSourceConfig
+  ): Promise<NormalizedRegulationDocument[]> {
+    const xml = await readLocation(source.location);
+    return parseFeed(xml);
+  },
+};
@@ -0,0 +1,240 @@
+/**
+ * Estimate Accuracy
+ * Measures recorded estimates against the actual costs reported through
+ * feedback: mean absolute percentage error, bias and how often actuals fall
+ * inside the estimated low/high band, overall, per fiscal quarter and by cost
+ * category, department, estimation method, industry and jurisdiction.
+ */
+
+import type {
+  AccuracyAssessment,
+  AccuracyDimension,
+  AccuracyGroup,
+  AccuracyMetrics,
+  AccuracyTrendPoint,
+  CostDriver,
+  EstimateAccuracyReport,
+  FiscalCalendar,
+} from '../../types/cost-estimate';
+import {
+  DEFAULT_FISCAL_CALENDAR,
+  fiscalPeriodOf,
+  formatFiscalQuarter,
+} from '../utils/fiscal-calendar';
+
+// Below this many feedback records the report makes no assessment
+export const MIN_ACCURACY_SAMPLES = 5;
+// Mean signed error (percent) above which estimates are called biased
+export const ACCURACY_BIAS_THRESHOLD = 15;
+// Share of actuals inside the band below which the band is too narrow
+export const MIN_BAND_COVERAGE = 0.5;
+
+const UNKNOWN_KEY = 'UNKNOWN';
+
+/**
+ * One recorded feedback with the estimate it reports on
+ */
+export interface AccuracySample {
+  costEstimateId: string;
+  estimatedAt: Date;
+  oneTimeCostLow: number;
+  oneTimeCostHigh: number;
+  estimatedOneTimeCost: number;
+  estimatedRecurringCostAnnual: number;
+  actualOneTimeCost: number;
+  actualRecurringCostAnnual: number;
+  estimationMethod: string;
+  industry: string | null;
+  jurisdiction: string | null;
+  drivers: CostDriver[];
+}
+
+interface WeightedSample {
+  sample: AccuracySample;
+  weight: number;
+}
+
+function round(value: number, decimals: number): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Fiscal quarter label of a date, e.g. "FY2027 Q1"
+ */
+function quarterOf(date: Date, calendar: FiscalCalendar): string {
+  const { fiscalYear, quarter } = fiscalPeriodOf(date, calendar);
+  return formatFiscalQuarter(fiscalYear, quarter);
+}
+
+/**
+ * Accuracy metrics of weighted samples
+ * @param entries - Samples with their weight in the group
+ * @returns Weighted MAPE, bias (percent) and band coverage (0-1)
+ */
+function calculateAccuracyMetrics(entries: WeightedSample[]): AccuracyMetrics {
+  let weight = 0;
+  let absoluteError = 0;
+  let signedError = 0;
+  let errorWeight = 0;
+  let recurringAbsoluteError = 0;
+  let recurringSignedError = 0;
+  let recurringWeight = 0;
+  let inside = 0;
+  let below = 0;
+  let above = 0;
+
+  for (const { sample, weight: w } of entries) {
+    weight += w;
+
+    if (sample.estimatedOneTimeCost > 0) {
+      const error = (sample.actualOneTimeCost - sample.estimatedOneTimeCost) / sample.estimatedOneTimeCost;
+      absoluteError += Math.abs(error) * w;
+      signedError += error * w;
+      errorWeight += w;
+    }
+
+    if (sample.estimatedRecurringCostAnnual > 0) {
+      const error =
+        (sample.actualRecurringCostAnnual - sample.estimatedRecurringCostAnnual) /
+        sample.estimatedRecurringCostAnnual;
+      recurringAbsoluteError += Math.abs(error) * w;
+      recurringSignedError += error * w;
+      recurringWeight += w;
+    }
+
+    if (sample.actualOneTimeCost < sample.oneTimeCostLow) {
+      below += w;
+    } else if (sample.actualOneTimeCost > sample.oneTimeCostHigh) {
+      above += w;
+    } else {
+      inside += w;
+    }
+  }
+
+  const share = (value: number) => (weight > 0 ? round(value / weight, 3) : 0);
+  const percent = (value: number, total: number) => round((value / total) * 100, 1);
+
+  return {
+    sampleCount: entries.length,
+    weight: round(weight, 2),
+    mape: errorWeight > 0 ? percent(absoluteError, errorWeight) : 0,
+    bias: errorWeight > 0 ? percent(signedError, errorWeight) : 0,
+    recurringMape: recurringWeight > 0 ? percent(recurringAbsoluteError, recurringWeight) : null,
+    recurringBias: recurringWeight > 0 ? percent(recurringSignedError, recurringWeight) : null,
+    bandCoverage: share(inside),
+    belowBand: share(below),
+    aboveBand: share(above),
+  };
+}
+
+/**
+ * Share of an estimate's driver cost per category or department
+ * Feedback reports totals only, so each sample counts toward a category in
+ * proportion to that category's part of the estimate
+ */
+function driverShares(
+  drivers: CostDriver[],
+  keyOf: (driver: CostDriver) => string
+): Array<{ key: string; weight: number }> {
+  const total = drivers.reduce((sum, driver) => sum + Math.max(0, driver.estimatedCost), 0);
+  if (total <= 0) return [{ key: UNKNOWN_KEY, weight: 1 }];
+
+  const shares = new Map<string, number>();
+  for (const driver of drivers) {
+    const key = keyOf(driver) || UNKNOWN_KEY;
+    shares.set(key, (shares.get(key) ?? 0) + Math.max(0, driver.estimatedCost) / total);
+  }
+  return [...shares.entries()]
+    .filter(([, weight]) => weight > 0)
+    .map(([key, weight]) => ({ key, weight }));
+}
+
+function sampleKeys(
+  sample: AccuracySample,
+  dimension: AccuracyDimension
+): Array<{ key: string; weight: number }> {
+  switch (dimension) {
+    case 'category':
+      return driverShares(sample.drivers, (driver) => driver.category);
+    case 'department':
+      return driverShares(sample.drivers, (driver) => driver.department);
+    case 'estimationMethod':
+      return [{ key: sample.estimationMethod || UNKNOWN_KEY, weight: 1 }];
+    case 'industry':
+      return [{ key: sample.industry || UNKNOWN_KEY, weight: 1 }];
+    case 'jurisdiction':
+      return [{ key: sample.jurisdiction || UNKNOWN_KEY, weight: 1 }];
+  }
+}
+
+function calculateTrend(entries: WeightedSample[], calendar: FiscalCalendar): AccuracyTrendPoint[] {
+  const byQuarter = new Map<string, WeightedSample[]>();
+  for (const entry of entries) {
+    const period = quarterOf(entry.sample.estimatedAt, calendar);
+    byQuarter.set(period, [...(byQuarter.get(period) ?? []), entry]);
+  }
+  return [...byQuarter.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([period, quarterEntries]) => ({ period, ...calculateAccuracyMetrics(quarterEntries) }));
+}
+
+function assess(overall: AccuracyMetrics): AccuracyAssessment {
+  if (overall.sampleCount < MIN_ACCURACY_SAMPLES) return 'INSUFFICIENT_DATA';
+  if (Math.abs(overall.bias) > ACCURACY_BIAS_THRESHOLD) return 'BIASED';
+  if (overall.bandCoverage < MIN_BAND_COVERAGE) return 'OVERCONFIDENT';
+  return 'RELIABLE';
+}
+
+/**
+ * Accuracy of recorded estimates against reported actuals
+ * Category and department groups weight each sample by the group's share of
+ * the estimate's driver cost; the other dimensions count each sample once
+ * @param samples - Feedback records with their estimates
+ * @param calendar - Fiscal calendar the trend is bucketed by
+ * @returns Overall metrics, groups per dimension (largest first), fiscal
+ *   quarter trend and an assessment of whether the estimates can be trusted
+ */
+export function calculateEstimateAccuracy(
+  samples: AccuracySample[],
+  calendar: FiscalCalendar = DEFAULT_FISCAL_CALENDAR
+): EstimateAccuracyReport {
+  const entries = samples.map((sample) => ({ sample, weight: 1 }));
+  const overall = calculateAccuracyMetrics(entries);
+
+  const dimensions: AccuracyDimension[] = [
+    'category',
+    'department',
+    'estimationMethod',
+    'industry',
+    'jurisdiction',
+  ];
+
+  const byDimension = Object.fromEntries(
+    dimensions.map((dimension) => {
+      const groups = new Map<string, WeightedSample[]>();
+      for (const sample of samples) {
+        for (const { key, weight } of sampleKeys(sample, dimension)) {
+          groups.set(key, [...(groups.get(key) ?? []), { sample, weight }]);
+        }
+      }
+
+      const results: AccuracyGroup[] = [...groups.entries()]
+        .map(([key, groupEntries]) => ({
+          key,
+          ...calculateAccuracyMetrics(groupEntries),
+          trend: calculateTrend(groupEntries, calendar),
+        }))
+        .sort((a, b) => b.weight - a.weight || a.key.localeCompare(b.key));
+
+      return [dimension, results];
+    })
+  ) as Record<AccuracyDimension, AccuracyGroup[]>;
+
+  return {
+    overall,
+    byDimension,
+    trend: calculateTrend(entries, calendar),
+    assessment: assess(overall),
+  };
+}
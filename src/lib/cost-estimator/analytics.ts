@@ -1,118 +1,12 @@
 import type {
-  CompanyProfile,
   CostDriver,
   CostEstimate,
+  CostIndices,
   PortfolioForecast,
   PortfolioTrend,
-  SensitivityAnalysis,
 } from '../../types/cost-estimate';
-import { TechMaturity } from '../../types/cost-estimate';
-
-const TECH_MATURITY_MULTIPLIERS: Record<TechMaturity, number> = {
-  [TechMaturity.LOW]: 1.2,
-  [TechMaturity.MEDIUM]: 1.0,
-  [TechMaturity.HIGH]: 0.85,
-};
-
-export function calculateSensitivityAnalysis(
-  estimate: CostEstimate,
-  profile: CompanyProfile,
-  drivers: CostDriver[]
-): SensitivityAnalysis {
-  const baseOneTime = estimate.oneTimeCostLow;
-  const baseRecurring = estimate.recurringCostAnnual;
-
-  const sizeScenarios = [
-    profile.employeeCount * 0.5,
-    profile.employeeCount,
-    profile.employeeCount * 2,
-  ];
-  const sizeImpact = sizeScenarios.map((size) => {
-    const sizeMult = Math.pow(size / 100, 0.7);
-    const baseSizeMult = Math.pow(profile.employeeCount / 100, 0.7);
-    const multiplier = sizeMult / baseSizeMult;
-    return {
-      low: Math.round(baseOneTime * multiplier),
-      high: Math.round(estimate.oneTimeCostHigh * multiplier),
-      percentChange: Math.round((multiplier - 1) * 100),
-    };
-  });
-
-  const geoScenarios = [
-    1,
-    profile.geographicComplexity,
-    profile.geographicComplexity * 2,
-  ];
-  const geoImpact = geoScenarios.map((geoComplexity) => {
-    const geoMult = 1 + (geoComplexity - 1) * 0.05;
-    const baseGeoMult = 1 + (profile.geographicComplexity - 1) * 0.05;
-    const multiplier = geoMult / baseGeoMult;
-    return {
-      low: Math.round(baseOneTime * multiplier),
-      high: Math.round(estimate.oneTimeCostHigh * multiplier),
-      percentChange: Math.round((multiplier - 1) * 100),
-    };
-  });
-
-  const confidenceVariation = drivers.map((driver) => {
-    const lowerConfidence = Math.max(0.3, driver.confidence - 0.2);
-    const higherConfidence = Math.min(1.0, driver.confidence + 0.2);
-
-    const confidenceSpreadLow = 0.2 * (1 - lowerConfidence * 0.3);
-    const confidenceSpreadHigh = 0.2 * (1 - higherConfidence * 0.3);
-
-    return {
-      low: Math.round(baseOneTime * (1 - confidenceSpreadHigh)),
-      high: Math.round(estimate.oneTimeCostHigh * (1 + confidenceSpreadLow)),
-      percentChange: Math.round(((1 + confidenceSpreadLow) - 1) * 100),
-    };
-  });
-
-  return {
-    baselineOneTime: baseOneTime,
-    baselineRecurring: baseRecurring,
-    factors: [
-      {
-        factor: 'sizeMultiplier',
-        currentValue: Math.pow(profile.employeeCount / 100, 0.7),
-        impactOnOneTime: sizeImpact,
-        impactOnRecurring: sizeImpact.map((s) => ({
-          low: Math.round(baseRecurring * (s.low / baseOneTime)),
-          high: Math.round(baseRecurring * (s.high / baseOneTime)),
-          percentChange: s.percentChange,
-        })),
-        recommendation:
-          profile.employeeCount > 500
-            ? 'Consider economies of scale at this size'
-            : undefined,
-      },
-      {
-        factor: 'geoMultiplier',
-        currentValue: 1 + (profile.geographicComplexity - 1) * 0.05,
-        impactOnOneTime: geoImpact,
-        impactOnRecurring: geoImpact.map((g) => ({
-          low: Math.round(baseRecurring * (g.low / baseOneTime)),
-          high: Math.round(baseRecurring * (g.high / baseOneTime)),
-          percentChange: g.percentChange,
-        })),
-        recommendation:
-          profile.geographicComplexity > 10
-            ? 'Multi-state complexity is driving costs'
-            : undefined,
-      },
-      {
-        factor: 'techMaturity',
-        currentValue: TECH_MATURITY_MULTIPLIERS[profile.techMaturity],
-        impactOnOneTime: confidenceVariation.slice(0, 3),
-        impactOnRecurring: confidenceVariation.slice(0, 3),
-        recommendation:
-          profile.techMaturity === TechMaturity.LOW
-            ? 'Investing in tech infrastructure could reduce long-term costs'
-            : undefined,
-      },
-    ],
-  };
-}
+import { DEFAULT_COST_INDICES, buildEscalationSchedule } from './indexation';
+import { fiscalYearOf } from '../utils/fiscal-calendar';
 
 export function aggregatePortfolioTrends(
   estimates: CostEstimate[]
@@ -191,17 +85,21 @@ export function aggregatePortfolioTrends(
   };
 }
 
+// Projections are per fiscal year, starting with startYear
 export function forecastPortfolioTrends(
   trends: PortfolioTrend,
-  years: number = 3
+  years: number = 3,
+  indices: CostIndices = DEFAULT_COST_INDICES,
+  laborShare: number = 0,
+  startYear: number = fiscalYearOf(new Date())
 ): PortfolioForecast {
   const projections = [];
-  const inflationRate = 0.02;
+  // Recurring costs grow with inflation, or wage growth for the labor-driven share
+  const escalation = buildEscalationSchedule(indices, startYear, years, laborShare);
 
   for (let year = 1; year <= years; year++) {
-    const inflationMultiplier = Math.pow(1 + inflationRate, year - 1);
     const projectedRecurring = Math.round(
-      trends.totalRecurringAnnual * inflationMultiplier
+      trends.totalRecurringAnnual * escalation[year - 1]
     );
     const projectedOneTimeLow = year === 1 ? trends.totalOneTimeLow : 0;
     const projectedOneTimeHigh = year === 1 ? trends.totalOneTimeHigh : 0;
@@ -217,6 +115,7 @@ export function forecastPortfolioTrends(
 
     projections.push({
       year,
+      fiscalYear: startYear + year - 1,
       oneTimeLow: projectedOneTimeLow,
       oneTimeHigh: projectedOneTimeHigh,
       recurringAnnual: projectedRecurring,
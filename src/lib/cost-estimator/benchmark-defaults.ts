@@ -0,0 +1,106 @@
+/**
+ * Built-in Cost Benchmarks
+ * Starter library seeded by the add_cost_benchmarks migration. Used only when
+ * the cost_benchmarks table is empty (and by callers that have no database).
+ */
+
+import {
+  CostCategory,
+  Department,
+  type CostBenchmark,
+} from '../../types/cost-estimate';
+
+export const BUILTIN_BENCHMARK_VERSION = 'builtin-2024';
+
+export const BUILTIN_COST_BENCHMARKS: CostBenchmark[] = [
+  {
+    key: 'system-portal',
+    category: CostCategory.SYSTEM_CHANGES,
+    description: 'System changes and data request portal',
+    keywords: ['portal', 'system', 'dsar', 'setup'],
+    isOneTime: true,
+    baseCost: 30000,
+    evidenceCost: 25000,
+    confidence: 0.7,
+    department: Department.IT,
+    evidenceType: 'INDUSTRY_BENCHMARK',
+    evidenceReference: 'Privacy engineering benchmarks, 2024',
+    effectiveYear: 2024,
+    active: true,
+  },
+  {
+    key: 'privacy-officer',
+    category: CostCategory.PERSONNEL,
+    description: 'Privacy officer / compliance personnel',
+    keywords: ['officer', 'dpo', 'privacy officer'],
+    isOneTime: false,
+    baseCost: 65000,
+    evidenceCost: 65000,
+    confidence: 0.8,
+    department: Department.COMPLIANCE,
+    evidenceType: 'INDUSTRY_BENCHMARK',
+    evidenceReference: 'Compliance officer salary benchmark',
+    effectiveYear: 2024,
+    active: true,
+  },
+  {
+    key: 'annual-audit',
+    category: CostCategory.AUDIT,
+    description: 'Annual compliance audits and assessments',
+    keywords: ['audit', 'assessment', 'review'],
+    isOneTime: false,
+    baseCost: 12000,
+    evidenceCost: 12000,
+    confidence: 0.75,
+    department: Department.COMPLIANCE,
+    evidenceType: 'INDUSTRY_BENCHMARK',
+    evidenceReference: 'Audit cost benchmark report',
+    effectiveYear: 2024,
+    active: true,
+  },
+  {
+    key: 'training-program',
+    category: CostCategory.TRAINING,
+    description: 'Employee compliance training program',
+    keywords: ['training', 'education', 'awareness'],
+    isOneTime: false,
+    baseCost: 8000,
+    evidenceCost: 7500,
+    confidence: 0.8,
+    department: Department.HR,
+    evidenceType: 'INDUSTRY_BENCHMARK',
+    evidenceReference: 'Annual compliance training costs',
+    effectiveYear: 2024,
+    active: true,
+  },
+  {
+    key: 'legal-review',
+    category: CostCategory.LEGAL_REVIEW,
+    description: 'Legal review and documentation updates',
+    keywords: ['legal', 'counsel', 'review'],
+    isOneTime: true,
+    baseCost: 10000,
+    evidenceCost: 5000,
+    confidence: 0.85,
+    department: Department.LEGAL,
+    evidenceType: 'VENDOR_QUOTE',
+    evidenceReference: 'Legal review package estimate',
+    effectiveYear: 2024,
+    active: true,
+  },
+  {
+    key: 'reporting-fees',
+    category: CostCategory.OTHER,
+    description: 'Annual reporting and compliance fees',
+    keywords: ['fee', 'penalty', 'reporting'],
+    isOneTime: false,
+    baseCost: 5000,
+    evidenceCost: null,
+    confidence: 0.75,
+    department: Department.COMPLIANCE,
+    evidenceType: 'ASSUMPTION',
+    evidenceReference: 'Estimated annual fees based on regulation text patterns',
+    effectiveYear: 2024,
+    active: true,
+  },
+];
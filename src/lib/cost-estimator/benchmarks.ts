@@ -0,0 +1,273 @@
+/**
+ * Cost Benchmark Library
+ * Curated cost figures the deterministic extractor turns into cost drivers and
+ * EvidenceSource citations. Maintained by admins; an empty table falls back to
+ * the built-in starter library.
+ */
+
+import prisma from '@/lib/prisma';
+import {
+  CostCategory,
+  Department,
+  type CostBenchmark,
+  type CostBenchmarkRecord,
+  type EvidenceSource,
+} from '../../types/cost-estimate';
+import { BUILTIN_BENCHMARK_VERSION, BUILTIN_COST_BENCHMARKS } from './benchmark-defaults';
+
+export type BenchmarkImportMode = 'merge' | 'replace';
+
+export interface BenchmarkImportResult {
+  created: number;
+  updated: number;
+  deactivated: number;
+  // Keys that appeared more than once; the last row for each key was imported
+  duplicateKeys: string[];
+}
+
+const EVIDENCE_TYPES: EvidenceSource['type'][] = [
+  'INDUSTRY_BENCHMARK',
+  'VENDOR_QUOTE',
+  'CASE_STUDY',
+  'REGULATION_CLAUSE',
+  'ASSUMPTION',
+];
+
+interface CostBenchmarkRow {
+  id: string;
+  key: string;
+  category: string;
+  description: string;
+  keywords: string[];
+  pattern: string | null;
+  isOneTime: boolean;
+  baseCost: number;
+  evidenceCost: number | null;
+  confidence: number;
+  department: string;
+  evidenceType: string;
+  evidenceReference: string;
+  effectiveYear: number;
+  active: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+function toEnum<T extends string>(values: Record<string, T>, value: string, fallback: T): T {
+  return (Object.values(values) as string[]).includes(value) ? (value as T) : fallback;
+}
+
+/**
+ * Map a stored benchmark row to the domain record
+ */
+function toRecord(row: CostBenchmarkRow): CostBenchmarkRecord {
+  return {
+    ...row,
+    category: toEnum(CostCategory, row.category, CostCategory.OTHER),
+    department: toEnum(Department, row.department, Department.COMPLIANCE),
+    evidenceType: EVIDENCE_TYPES.includes(row.evidenceType as EvidenceSource['type'])
+      ? (row.evidenceType as EvidenceSource['type'])
+      : 'ASSUMPTION',
+  };
+}
+
+/**
+ * Normalize keywords: trimmed, lowercased, de-duplicated
+ * @param keywords - Raw keywords
+ * @returns Normalized keywords
+ */
+export function normalizeKeywords(keywords: string[]): string[] {
+  return [...new Set(keywords.map((keyword) => keyword.trim().toLowerCase()).filter(Boolean))];
+}
+
+/**
+ * Check that a benchmark pattern compiles as a regular expression
+ * @param pattern - Pattern source
+ * @returns True if the pattern is usable
+ */
+export function isValidBenchmarkPattern(pattern: string): boolean {
+  try {
+    new RegExp(pattern, 'i');
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Strip record-only fields so a benchmark can be exported or re-imported
+ * @param record - Stored benchmark
+ * @returns Portable benchmark
+ */
+export function toPortableBenchmark(record: CostBenchmarkRecord): CostBenchmark {
+  return {
+    key: record.key,
+    category: record.category,
+    description: record.description,
+    keywords: record.keywords,
+    pattern: record.pattern ?? null,
+    isOneTime: record.isOneTime,
+    baseCost: record.baseCost,
+    evidenceCost: record.evidenceCost ?? null,
+    confidence: record.confidence,
+    department: record.department,
+    evidenceType: record.evidenceType,
+    evidenceReference: record.evidenceReference,
+    effectiveYear: record.effectiveYear,
+    active: record.active,
+  };
+}
+
+/**
+ * List every stored benchmark, active first
+ * @returns Stored benchmarks
+ */
+export async function listBenchmarks(): Promise<CostBenchmarkRecord[]> {
+  const rows = await prisma.costBenchmark.findMany({
+    orderBy: [{ active: 'desc' }, { category: 'asc' }, { key: 'asc' }],
+  });
+  return rows.map(toRecord);
+}
+
+/**
+ * Benchmarks the deterministic extractor should use
+ * @returns Active stored benchmarks, or the built-in library if none are stored
+ */
+export async function getActiveBenchmarks(): Promise<CostBenchmark[]> {
+  const total = await prisma.costBenchmark.count();
+  if (total === 0) return BUILTIN_COST_BENCHMARKS;
+
+  const rows = await prisma.costBenchmark.findMany({
+    where: { active: true },
+    orderBy: [{ category: 'asc' }, { key: 'asc' }],
+  });
+  return rows.map(toRecord);
+}
+
+/**
+ * Current version of the benchmark library estimates are computed against
+ * Any create, edit or delete changes the version, which marks estimates stale
+ * @returns Benchmark library version identifier
+ */
+export async function getBenchmarkLibraryVersion(): Promise<string> {
+  const stats = await prisma.costBenchmark.aggregate({
+    _count: { _all: true },
+    _max: { updatedAt: true },
+  });
+
+  const total = stats._count._all;
+  if (total === 0 || !stats._max.updatedAt) return BUILTIN_BENCHMARK_VERSION;
+  return `library-${total}-${stats._max.updatedAt.getTime()}`;
+}
+
+/**
+ * Create a benchmark
+ * @param benchmark - Benchmark fields
+ * @returns Created benchmark
+ */
+export async function createBenchmark(benchmark: CostBenchmark): Promise<CostBenchmarkRecord> {
+  const row = await prisma.costBenchmark.create({
+    data: { ...benchmark, keywords: normalizeKeywords(benchmark.keywords) },
+  });
+  return toRecord(row);
+}
+
+/**
+ * Update a benchmark
+ * @param id - Benchmark ID
+ * @param changes - Fields to change
+ * @returns Updated benchmark, or null if it does not exist
+ */
+export async function updateBenchmark(
+  id: string,
+  changes: Partial<CostBenchmark>
+): Promise<CostBenchmarkRecord | null> {
+  const existing = await prisma.costBenchmark.findUnique({ where: { id } });
+  if (!existing) return null;
+
+  const row = await prisma.costBenchmark.update({
+    where: { id },
+    data: {
+      ...changes,
+      ...(changes.keywords ? { keywords: normalizeKeywords(changes.keywords) } : {}),
+    },
+  });
+  return toRecord(row);
+}
+
+/**
+ * Delete a benchmark
+ * @param id - Benchmark ID
+ * @returns False if the benchmark does not exist
+ */
+export async function deleteBenchmark(id: string): Promise<boolean> {
+  const { count } = await prisma.costBenchmark.deleteMany({ where: { id } });
+  return count > 0;
+}
+
+/**
+ * Import benchmarks, matched to stored rows by key
+ * merge: create or update the imported keys, leave the rest untouched
+ * replace: additionally deactivate stored benchmarks missing from the import
+ * (deactivated rather than deleted so the history stays auditable)
+ * @param benchmarks - Benchmarks to import
+ * @param mode - Import mode
+ * Rows repeating a key are collapsed to the last one and reported
+ * @returns Counts of created, updated and deactivated benchmarks
+ */
+export async function importBenchmarks(
+  benchmarks: CostBenchmark[],
+  mode: BenchmarkImportMode = 'merge'
+): Promise<BenchmarkImportResult> {
+  const byKey = new Map<string, CostBenchmark>();
+  const duplicateKeys = new Set<string>();
+  for (const benchmark of benchmarks) {
+    if (byKey.has(benchmark.key)) {
+      duplicateKeys.add(benchmark.key);
+    }
+    byKey.set(benchmark.key, benchmark);
+  }
+
+  return prisma.$transaction(async (tx) => {
+    const keys = [...byKey.keys()];
+    const existing = await tx.costBenchmark.findMany({
+      where: { key: { in: keys } },
+      select: { key: true },
+    });
+    const existingKeys = new Set(existing.map((row) => row.key));
+
+    for (const benchmark of byKey.values()) {
+      const data = { ...benchmark, keywords: normalizeKeywords(benchmark.keywords) };
+      await tx.costBenchmark.upsert({
+        where: { key: benchmark.key },
+        create: data,
+        update: data,
+      });
+    }
+
+    let deactivated = 0;
+    if (mode === 'replace') {
+      const result = await tx.costBenchmark.updateMany({
+        where: { key: { notIn: keys }, active: true },
+        data: { active: false },
+      });
+      deactivated = result.count;
+    }
+
+    return {
+      created: keys.filter((key) => !existingKeys.has(key)).length,
+      updated: existingKeys.size,
+      deactivated,
+      duplicateKeys: [...duplicateKeys],
+    };
+  });
+}
+
+/**
+ * Export the library in the format importBenchmarks accepts
+ * @returns Portable benchmarks (the built-in library if none are stored)
+ */
+export async function exportBenchmarks(): Promise<CostBenchmark[]> {
+  const records = await listBenchmarks();
+  return records.length > 0 ? records.map(toPortableBenchmark) : BUILTIN_COST_BENCHMARKS;
+}
@@ -0,0 +1,223 @@
+/**
+ * Scenario Cash Flows
+ * Lays each scenario's cost out quarter by quarter, anchored to the date the
+ * regulation must be complied with, and discounts it to a net present value.
+ * Quarters follow the customer's fiscal calendar.
+ * Pure functions; discount rate, horizon and fiscal calendar come from the
+ * customer's settings.
+ */
+
+import type {
+  CostScenario,
+  FiscalCalendar,
+  ScenarioAnalysis,
+  ScenarioCashFlow,
+  ScenarioCashFlowQuarter,
+} from '../../types/cost-estimate';
+import {
+  DEFAULT_FISCAL_CALENDAR,
+  fiscalPeriodOf,
+  fiscalQuarterStart,
+  formatFiscalQuarter,
+  formatFiscalYear,
+} from '../utils/fiscal-calendar';
+
+export const DEFAULT_DISCOUNT_RATE = 0.08;
+export const DEFAULT_SCENARIO_HORIZON_YEARS = 3;
+export const MIN_SCENARIO_HORIZON_YEARS = 1;
+export const MAX_SCENARIO_HORIZON_YEARS = 10;
+
+// Implementation work is spread over at most this many quarters before compliance
+const MAX_IMPLEMENTATION_QUARTERS = 4;
+// Implementation window when the regulation has no future compliance date
+const DEFAULT_IMPLEMENTATION_QUARTERS = 2;
+
+export interface CashFlowOptions {
+  // First day of the schedule (normally today)
+  startDate: Date;
+  effectiveDate?: Date | null;
+  deadlines?: Date[];
+  horizonYears?: number;
+  discountRate?: number;
+  // Price-level multiplier per year of the horizon, year 1 = 1
+  escalation?: number[];
+  fiscalCalendar?: FiscalCalendar;
+}
+
+// Fiscal quarters counted from year 0, so consecutive quarters differ by one
+function quarterOrdinal(date: Date, calendar: FiscalCalendar): number {
+  const { fiscalYear, quarter } = fiscalPeriodOf(date, calendar);
+  return fiscalYear * 4 + quarter - 1;
+}
+
+/**
+ * Clamp a horizon to the supported 1-10 whole years
+ * @param years - Requested horizon
+ * @returns Supported horizon
+ */
+export function clampHorizonYears(years: number): number {
+  if (!Number.isFinite(years)) return DEFAULT_SCENARIO_HORIZON_YEARS;
+  return Math.min(
+    MAX_SCENARIO_HORIZON_YEARS,
+    Math.max(MIN_SCENARIO_HORIZON_YEARS, Math.round(years))
+  );
+}
+
+/**
+ * Date implementation has to be finished by: the earliest extracted deadline
+ * or effective date that is still ahead of the start date
+ * @param startDate - First day of the schedule
+ * @param effectiveDate - Regulation effective date
+ * @param deadlines - Extracted deadline dates
+ * @returns Compliance date, or null if every date has passed
+ */
+export function resolveComplianceDate(
+  startDate: Date,
+  effectiveDate: Date | null | undefined,
+  deadlines: Date[] = []
+): Date | null {
+  const upcoming = [...deadlines, ...(effectiveDate ? [effectiveDate] : [])]
+    .filter((date) => date.getTime() >= startDate.getTime())
+    .sort((a, b) => a.getTime() - b.getTime());
+  return upcoming[0] ?? null;
+}
+
+/**
+ * Quarterly cash-flow schedule of one scenario, by fiscal quarter
+ * One-time cost is spread evenly over the implementation quarters ending in the
+ * compliance quarter; recurring cost runs from the compliance quarter to the end
+ * of the horizon at that year's price level. Each quarter is discounted from its
+ * last day.
+ * @param scenario - Scenario to schedule
+ * @param options - Dates, horizon, discount rate and escalation
+ * @param delayQuarters - Quarters implementation starts late (the 90-day delay scenario)
+ * @returns Cash-flow schedule with NPV
+ */
+export function buildScenarioCashFlow(
+  scenario: Pick<CostScenario, 'oneTimeCost' | 'recurringCostAnnual'>,
+  options: CashFlowOptions,
+  delayQuarters = 0
+): ScenarioCashFlow {
+  const horizonYears = clampHorizonYears(options.horizonYears ?? DEFAULT_SCENARIO_HORIZON_YEARS);
+  const discountRate = options.discountRate ?? DEFAULT_DISCOUNT_RATE;
+  const escalation = options.escalation ?? [];
+  const calendar = options.fiscalCalendar ?? DEFAULT_FISCAL_CALENDAR;
+  const quarterCount = horizonYears * 4;
+
+  const firstQuarter = quarterOrdinal(options.startDate, calendar);
+  const complianceDate = resolveComplianceDate(
+    options.startDate,
+    options.effectiveDate,
+    options.deadlines
+  );
+
+  const complianceQuarter = complianceDate
+    ? quarterOrdinal(complianceDate, calendar) - firstQuarter
+    : DEFAULT_IMPLEMENTATION_QUARTERS - 1;
+  const implementationEnd = Math.min(quarterCount - 1, complianceQuarter + delayQuarters);
+  const implementationStart = Math.min(
+    implementationEnd,
+    Math.max(delayQuarters, implementationEnd - MAX_IMPLEMENTATION_QUARTERS + 1)
+  );
+  const oneTimePerQuarter =
+    scenario.oneTimeCost / (implementationEnd - implementationStart + 1);
+
+  const quarters: ScenarioCashFlowQuarter[] = [];
+  let cumulative = 0;
+  let npv = 0;
+
+  for (let index = 0; index < quarterCount; index++) {
+    const fiscalYear = Math.floor((firstQuarter + index) / 4);
+    const fiscalQuarter = ((firstQuarter + index) % 4) + 1;
+    const start = fiscalQuarterStart(fiscalYear, fiscalQuarter, calendar);
+    const year = Math.floor(index / 4);
+    const priceLevel = escalation[year] ?? escalation[escalation.length - 1] ?? 1;
+
+    const oneTimeCost =
+      index >= implementationStart && index <= implementationEnd ? oneTimePerQuarter : 0;
+    const recurringCost =
+      index >= implementationEnd ? (scenario.recurringCostAnnual / 4) * priceLevel : 0;
+    const total = oneTimeCost + recurringCost;
+    const discountedTotal = total / Math.pow(1 + discountRate, (index + 1) / 4);
+
+    cumulative += total;
+    npv += discountedTotal;
+
+    quarters.push({
+      index,
+      label: formatFiscalQuarter(fiscalYear, fiscalQuarter),
+      fiscalYear,
+      fiscalQuarter,
+      startDate: start.toISOString().slice(0, 10),
+      oneTimeCost: Math.round(oneTimeCost),
+      recurringCost: Math.round(recurringCost),
+      total: Math.round(total),
+      cumulative: Math.round(cumulative),
+      discountedTotal: Math.round(discountedTotal),
+    });
+  }
+
+  return {
+    horizonYears,
+    discountRate,
+    complianceDate: complianceDate ? complianceDate.toISOString().slice(0, 10) : null,
+    quarters,
+    nominalTotal: Math.round(cumulative),
+    npv: Math.round(npv),
+  };
+}
+
+/**
+ * Attach a cash-flow schedule to every scenario
+ * @param scenarios - Result of generateScenarios
+ * @param options - Dates, horizon, discount rate and escalation
+ * @returns Scenarios with cashFlow set
+ */
+export function attachScenarioCashFlows(
+  scenarios: ScenarioAnalysis,
+  options: CashFlowOptions
+): ScenarioAnalysis {
+  return {
+    ...scenarios,
+    minimal: {
+      ...scenarios.minimal,
+      cashFlow: buildScenarioCashFlow(scenarios.minimal, options),
+    },
+    standard: {
+      ...scenarios.standard,
+      cashFlow: buildScenarioCashFlow(scenarios.standard, options),
+    },
+    bestInClass: {
+      ...scenarios.bestInClass,
+      cashFlow: buildScenarioCashFlow(scenarios.bestInClass, options),
+    },
+    delay90Days: {
+      ...scenarios.delay90Days,
+      cashFlow: buildScenarioCashFlow(scenarios.delay90Days, options, 1),
+    },
+  };
+}
+
+/**
+ * Roll quarterly cash flows up to fiscal years
+ * A horizon that does not start in Q1 covers part of its first and last fiscal year
+ * @param cashFlow - Scenario cash flow
+ * @returns Nominal and discounted spend per fiscal year, in order
+ */
+export function summarizeCashFlowByYear(
+  cashFlow: ScenarioCashFlow
+): { fiscalYear: number; label: string; total: number; discountedTotal: number }[] {
+  const years = new Map<number, { fiscalYear: number; label: string; total: number; discountedTotal: number }>();
+  for (const quarter of cashFlow.quarters) {
+    const year = years.get(quarter.fiscalYear) ?? {
+      fiscalYear: quarter.fiscalYear,
+      label: formatFiscalYear(quarter.fiscalYear),
+      total: 0,
+      discountedTotal: 0,
+    };
+    year.total += quarter.total;
+    year.discountedTotal += quarter.discountedTotal;
+    years.set(quarter.fiscalYear, year);
+  }
+  return [...years.values()];
+}
@@ -1,16 +1,21 @@
+import { createHash } from 'crypto';
 import {
   Industry,
   TechMaturity,
   Department,
-  CostCategory,
   RiskLevel,
   type CompanyProfile,
+  type CostBenchmark,
   type CostDriver,
+  type CostIndices,
   type CostEstimate,
   type DepartmentCostBreakdown,
   type CostScenario,
+  type CurrencyCode,
   type ScenarioAnalysis,
+  type LearningHistoryEntry,
 } from '../../types/cost-estimate';
+import type { PenaltyExposure } from '../../types/penalties';
 import {
   getCachedDrivers,
   setCachedDrivers,
@@ -22,10 +27,20 @@ import {
   extractCostDriversWithAI,
   allocateToDepartmentsWithAI,
 } from './ai';
+import { BUILTIN_COST_BENCHMARKS } from './benchmark-defaults';
+import { calculatePenaltyExposure } from '../regulations/penalty-exposure';
+import { formatCurrency } from '../utils/format';
+import { BASE_CURRENCY } from './currency';
+import {
+  DEFAULT_COST_INDICES,
+  JURISDICTION_OVERHEAD,
+  calculateRegionalLaborIndex,
+  driverCostFactor,
+} from './indexation';
 
 const AI_ENABLED = process.env.ENABLE_AI_COST_EXTRACTION === 'true';
 
-const INDUSTRY_MULTIPLIERS: Record<Industry, number> = {
+export const INDUSTRY_MULTIPLIERS: Record<Industry, number> = {
   [Industry.TECHNOLOGY]: 1.0,
   [Industry.HEALTHCARE]: 1.4,
   [Industry.FINANCE]: 1.3,
@@ -34,7 +49,7 @@ const INDUSTRY_MULTIPLIERS: Record<Industry, number> = {
   [Industry.OTHER]: 1.0,
 };
 
-const TECH_MATURITY_MULTIPLIERS: Record<TechMaturity, number> = {
+export const TECH_MATURITY_MULTIPLIERS: Record<TechMaturity, number> = {
   [TechMaturity.LOW]: 1.2,
   [TechMaturity.MEDIUM]: 1.0,
   [TechMaturity.HIGH]: 0.85,
@@ -44,11 +59,20 @@ function createCacheKey(text: string, suffix: string = ''): string {
   return `${text.substring(0, 100)}_${text.length}_${suffix}`;
 }
 
+// Cached drivers are only valid for the benchmark library that produced them
+function benchmarkSignature(benchmarks: CostBenchmark[]): string {
+  return createHash('sha256').update(JSON.stringify(benchmarks)).digest('hex').slice(0, 16);
+}
+
 export async function extractCostDrivers(
   regulationText: string,
-  regulationTitle: string
+  regulationTitle: string,
+  benchmarks: CostBenchmark[] = BUILTIN_COST_BENCHMARKS
 ): Promise<CostDriver[]> {
-  const cacheKey = createCacheKey(regulationText, 'drivers');
+  const cacheKey = createCacheKey(
+    regulationText,
+    `drivers_${benchmarkSignature(benchmarks)}`
+  );
   const cached = getCachedDrivers(cacheKey);
 
   if (cached) {
@@ -67,162 +91,54 @@ export async function extractCostDrivers(
         '[CostEstimator] AI extraction failed, falling back to deterministic:',
         error
       );
-      drivers = extractCostDriversDeterministic(regulationText);
+      drivers = extractCostDriversFromBenchmarks(regulationText, benchmarks);
     }
   } else {
-    drivers = extractCostDriversDeterministic(regulationText);
+    drivers = extractCostDriversFromBenchmarks(regulationText, benchmarks);
   }
 
   setCachedDrivers(cacheKey, drivers);
   return drivers;
 }
 
-function extractCostDriversDeterministic(
-  regulationText: string
+function matchesBenchmark(text: string, benchmark: CostBenchmark): boolean {
+  if (benchmark.keywords.some((keyword) => keyword && text.includes(keyword.toLowerCase()))) {
+    return true;
+  }
+  if (!benchmark.pattern) return false;
+  try {
+    return new RegExp(benchmark.pattern, 'i').test(text);
+  } catch {
+    // Invalid patterns are rejected on save; ignore any that slipped through
+    return false;
+  }
+}
+
+export function extractCostDriversFromBenchmarks(
+  regulationText: string,
+  benchmarks: CostBenchmark[]
 ): CostDriver[] {
   const text = regulationText.toLowerCase();
   const drivers: CostDriver[] = [];
   let driverId = 1;
 
-  if (
-    text.includes('portal') ||
-    text.includes('system') ||
-    text.includes('dsar') ||
-    text.includes('setup')
-  ) {
-    drivers.push({
-      id: `driver-det-${driverId++}`,
-      category: CostCategory.SYSTEM_CHANGES,
-      description: 'System changes and data request portal',
-      isOneTime: true,
-      estimatedCost: 30000,
-      confidence: 0.7,
-      department: Department.IT,
-      evidence: [
-        {
-          type: 'INDUSTRY_BENCHMARK',
-          reference: 'Privacy engineering benchmarks, 2024',
-          confidence: 0.7,
-          estimatedCost: 25000,
-        },
-      ],
-    });
-  }
-
-  if (
-    text.includes('officer') ||
-    text.includes('dpo') ||
-    text.includes('privacy officer')
-  ) {
-    drivers.push({
-      id: `driver-det-${driverId++}`,
-      category: CostCategory.PERSONNEL,
-      description: 'Privacy officer / compliance personnel',
-      isOneTime: false,
-      estimatedCost: 65000,
-      confidence: 0.8,
-      department: Department.COMPLIANCE,
-      evidence: [
-        {
-          type: 'INDUSTRY_BENCHMARK',
-          reference: 'Compliance officer salary benchmark',
-          confidence: 0.8,
-          estimatedCost: 65000,
-        },
-      ],
-    });
-  }
-
-  if (
-    text.includes('audit') ||
-    text.includes('assessment') ||
-    text.includes('review')
-  ) {
-    drivers.push({
-      id: `driver-det-${driverId++}`,
-      category: CostCategory.AUDIT,
-      description: 'Annual compliance audits and assessments',
-      isOneTime: false,
-      estimatedCost: 12000,
-      confidence: 0.75,
-      department: Department.COMPLIANCE,
-      evidence: [
-        {
-          type: 'INDUSTRY_BENCHMARK',
-          reference: 'Audit cost benchmark report',
-          confidence: 0.75,
-          estimatedCost: 12000,
-        },
-      ],
-    });
-  }
-
-  if (
-    text.includes('training') ||
-    text.includes('education') ||
-    text.includes('awareness')
-  ) {
-    drivers.push({
-      id: `driver-det-${driverId++}`,
-      category: CostCategory.TRAINING,
-      description: 'Employee compliance training program',
-      isOneTime: false,
-      estimatedCost: 8000,
-      confidence: 0.8,
-      department: Department.HR,
-      evidence: [
-        {
-          type: 'INDUSTRY_BENCHMARK',
-          reference: 'Annual compliance training costs',
-          confidence: 0.8,
-          estimatedCost: 7500,
-        },
-      ],
-    });
-  }
-
-  if (
-    text.includes('legal') ||
-    text.includes('counsel') ||
-    text.includes('review')
-  ) {
-    drivers.push({
-      id: `driver-det-${driverId++}`,
-      category: CostCategory.LEGAL_REVIEW,
-      description: 'Legal review and documentation updates',
-      isOneTime: true,
-      estimatedCost: 10000,
-      confidence: 0.85,
-      department: Department.LEGAL,
-      evidence: [
-        {
-          type: 'VENDOR_QUOTE',
-          reference: 'Legal review package estimate',
-          confidence: 0.85,
-          estimatedCost: 5000,
-        },
-      ],
-    });
-  }
+  for (const benchmark of benchmarks) {
+    if (!benchmark.active || !matchesBenchmark(text, benchmark)) continue;
 
-  if (
-    text.includes('fee') ||
-    text.includes('penalty') ||
-    text.includes('reporting')
-  ) {
     drivers.push({
       id: `driver-det-${driverId++}`,
-      category: CostCategory.OTHER,
-      description: 'Annual reporting and compliance fees',
-      isOneTime: false,
-      estimatedCost: 5000,
-      confidence: 0.75,
-      department: Department.COMPLIANCE,
+      category: benchmark.category,
+      description: benchmark.description,
+      isOneTime: benchmark.isOneTime,
+      estimatedCost: benchmark.baseCost,
+      confidence: benchmark.confidence,
+      department: benchmark.department,
       evidence: [
         {
-          type: 'ASSUMPTION',
-          reference: 'Estimated annual fees based on regulation text patterns',
-          confidence: 0.75,
+          type: benchmark.evidenceType,
+          reference: benchmark.evidenceReference,
+          confidence: benchmark.confidence,
+          ...(benchmark.evidenceCost != null ? { estimatedCost: benchmark.evidenceCost } : {}),
         },
       ],
     });
@@ -234,31 +150,41 @@ function extractCostDriversDeterministic(
   return drivers;
 }
 
-export function calculateImplementationCost(
-  drivers: CostDriver[],
-  profile: CompanyProfile
-): CostEstimate {
-  const baseOneTimeCost = drivers
-    .filter((d) => d.isOneTime)
-    .reduce((sum, d) => sum + d.estimatedCost, 0);
-
-  const baseRecurringCost = drivers
-    .filter((d) => !d.isOneTime)
-    .reduce((sum, d) => sum + d.estimatedCost, 0);
-
+export function calculateProfileMultiplier(profile: CompanyProfile): number {
   let multiplier = 1.0;
   multiplier *= INDUSTRY_MULTIPLIERS[profile.industry];
 
   const sizeMultiplier = Math.pow(profile.employeeCount / 100, 0.7);
   multiplier *= sizeMultiplier;
 
-  const geoMultiplier = 1 + (profile.geographicComplexity - 1) * 0.05;
+  // Regional pay differences are applied per driver; this is coordination overhead
+  const geoMultiplier = 1 + (profile.geographicComplexity - 1) * JURISDICTION_OVERHEAD;
   multiplier *= geoMultiplier;
 
   multiplier *= TECH_MATURITY_MULTIPLIERS[profile.techMaturity];
 
-  const oneTimeCostMid = baseOneTimeCost * multiplier;
-  const recurringCostAnnual = baseRecurringCost * multiplier;
+  return multiplier;
+}
+
+export function calculateImplementationCost(
+  drivers: CostDriver[],
+  profile: CompanyProfile,
+  indices: CostIndices = DEFAULT_COST_INDICES
+): CostEstimate {
+  const regionalLaborIndex = calculateRegionalLaborIndex(
+    profile.operatingJurisdictions,
+    indices
+  );
+
+  const multiplier = calculateProfileMultiplier(profile);
+
+  const oneTimeCostMid = drivers
+    .filter((d) => d.isOneTime)
+    .reduce((sum, d) => sum + d.estimatedCost * driverCostFactor(d, regionalLaborIndex, multiplier), 0);
+
+  const recurringCostAnnual = drivers
+    .filter((d) => !d.isOneTime)
+    .reduce((sum, d) => sum + d.estimatedCost * driverCostFactor(d, regionalLaborIndex, multiplier), 0);
 
   const defaultAvgConfidence = 0.7;
   const avgConfidence = drivers.length
@@ -271,7 +197,12 @@ export function calculateImplementationCost(
   const oneTimeCostLow = oneTimeCostMid * (1 - confidenceSpread);
   const oneTimeCostHigh = oneTimeCostMid * (1 + confidenceSpread);
 
-  const departmentBreakdown = allocateToDepartments(drivers, profile, multiplier);
+  const departmentBreakdown = allocateToDepartments(
+    drivers,
+    profile,
+    multiplier,
+    regionalLaborIndex
+  );
 
   return {
     id: '',
@@ -291,7 +222,8 @@ export function calculateImplementationCost(
 export function allocateToDepartments(
   drivers: CostDriver[],
   profile: CompanyProfile,
-  multiplier: number = 1.0
+  multiplier: number = 1.0,
+  regionalLaborIndex: number = 1.0
 ): DepartmentCostBreakdown[] {
   const departments = [
     Department.LEGAL,
@@ -310,21 +242,19 @@ export function allocateToDepartments(
         return null;
       }
 
-      const baseOneTimeCost = deptDrivers
+      const oneTimeCost = deptDrivers
         .filter((d) => d.isOneTime)
-        .reduce((sum, d) => sum + d.estimatedCost, 0);
+        .reduce((sum, d) => sum + d.estimatedCost * driverCostFactor(d, regionalLaborIndex, multiplier), 0);
 
-      const baseRecurringCost = deptDrivers
+      const recurringCostAnnual = deptDrivers
         .filter((d) => !d.isOneTime)
-        .reduce((sum, d) => sum + d.estimatedCost, 0);
-
-      const oneTimeCost = baseOneTimeCost * multiplier;
-      const recurringCostAnnual = baseRecurringCost * multiplier;
+        .reduce((sum, d) => sum + d.estimatedCost * driverCostFactor(d, regionalLaborIndex, multiplier), 0);
 
       const fteImpact = parseFloat(
         (recurringCostAnnual / 100000 + oneTimeCost / 200000).toFixed(2)
       );
 
+      // Placeholder code; replaced by the customer's budget line when one exists
       const deptCode = dept.substring(0, 4).toUpperCase();
       const budgetCode = `${deptCode}-COMP-001`;
 
@@ -343,16 +273,21 @@ export function allocateToDepartments(
 
 export function generateScenarios(
   baseCost: { oneTimeCost: number; recurringCostAnnual: number },
-  profile: CompanyProfile
+  profile: CompanyProfile,
+  escalation: number[] = [1, 1, 1],
+  penaltyExposure: PenaltyExposure = calculatePenaltyExposure(null),
+  currency: CurrencyCode = BASE_CURRENCY
 ): ScenarioAnalysis {
   const { oneTimeCost, recurringCostAnnual } = baseCost;
+  // Recurring cost paid over three years at each year's price level
+  const recurringYears = [0, 1, 2].reduce((sum, year) => sum + (escalation[year] ?? 1), 0);
 
   const minimal: CostScenario = {
     name: 'Minimal Compliance',
     description: 'Basic compliance with manual processes',
     oneTimeCost: Math.round(oneTimeCost * 0.7),
     recurringCostAnnual: Math.round(recurringCostAnnual * 0.7),
-    threeYearTotal: Math.round(oneTimeCost * 0.7 + recurringCostAnnual * 0.7 * 3),
+    threeYearTotal: Math.round(oneTimeCost * 0.7 + recurringCostAnnual * 0.7 * recurringYears),
     riskLevel: RiskLevel.MEDIUM,
     assumptions: [
       'Manual processes where possible',
@@ -366,7 +301,7 @@ export function generateScenarios(
     description: 'Recommended baseline compliance approach',
     oneTimeCost: Math.round(oneTimeCost),
     recurringCostAnnual: Math.round(recurringCostAnnual),
-    threeYearTotal: Math.round(oneTimeCost + recurringCostAnnual * 3),
+    threeYearTotal: Math.round(oneTimeCost + recurringCostAnnual * recurringYears),
     riskLevel: RiskLevel.LOW,
     assumptions: [
       'Industry-standard tools and processes',
@@ -380,7 +315,7 @@ export function generateScenarios(
     description: 'Industry-leading compliance program',
     oneTimeCost: Math.round(oneTimeCost * 1.4),
     recurringCostAnnual: Math.round(recurringCostAnnual * 1.4),
-    threeYearTotal: Math.round(oneTimeCost * 1.4 + recurringCostAnnual * 1.4 * 3),
+    threeYearTotal: Math.round(oneTimeCost * 1.4 + recurringCostAnnual * 1.4 * recurringYears),
     riskLevel: RiskLevel.MINIMAL,
     assumptions: [
       'Premium compliance platforms',
@@ -390,18 +325,22 @@ export function generateScenarios(
     ],
   };
 
+  // Expected penalties for 90 days out of compliance
+  const penalties = penaltyExposure.riskWeightedExposure;
   const delay90Days: CostScenario = {
     name: '90-Day Delay',
     description: 'Delayed implementation with potential penalties',
-    oneTimeCost: Math.round(oneTimeCost * 1.25 + 15000),
+    oneTimeCost: Math.round(oneTimeCost * 1.25 + penalties),
     recurringCostAnnual: Math.round(recurringCostAnnual),
     threeYearTotal: Math.round(
-      oneTimeCost * 1.25 + 15000 + recurringCostAnnual * 3
+      oneTimeCost * 1.25 + penalties + recurringCostAnnual * recurringYears
     ),
     riskLevel: RiskLevel.HIGH,
     assumptions: [
       'Rush implementation fees (+25%)',
-      'Potential regulatory penalties (~$15K)',
+      penaltyExposure.hasSchedule
+        ? `Risk-weighted regulatory penalties (~${formatCurrency(penalties, currency)}: ${penaltyExposure.basis.join(', ')})`
+        : `Potential regulatory penalties (~${formatCurrency(penalties, currency)})`,
       'Higher risk of violations',
     ],
   };
@@ -429,6 +368,7 @@ export function generateScenarios(
     bestInClass,
     delay90Days,
     recommended,
+    penaltyExposure,
   };
 }
 
@@ -477,7 +417,7 @@ export async function estimateWithAI(
 
 export function applyLearningFeedback(
   estimate: { oneTimeCostLow: number; oneTimeCostHigh: number; confidence: number },
-  history: Array<{ estimated: number; actual: number; variance: number }>
+  history: LearningHistoryEntry[]
 ): { oneTimeCostLow: number; oneTimeCostHigh: number; confidence: number } {
   if (history.length === 0) {
     return estimate;
@@ -0,0 +1,124 @@
+/**
+ * Cost Index Store
+ * Loads and maintains the inflation, wage-growth and regional labor indices
+ * used by indexation.ts. Empty tables fall back to the default rates.
+ */
+
+import prisma from '@/lib/prisma';
+import type { CostIndices, EscalationIndexKind } from '../../types/cost-estimate';
+import { DEFAULT_COST_INDICES } from './indexation';
+
+export const DEFAULT_COST_INDEX_VERSION = 'default';
+
+export interface EscalationIndexInput {
+  kind: EscalationIndexKind;
+  year: number;
+  rate: number;
+  source?: string | null;
+}
+
+export interface RegionalLaborIndexInput {
+  jurisdictionCode: string;
+  laborCostIndex: number;
+  effectiveYear: number;
+  source?: string | null;
+}
+
+export interface CostIndexTables {
+  escalation: EscalationIndexInput[];
+  regional: RegionalLaborIndexInput[];
+}
+
+/**
+ * Stored indices as tables, sorted for display and export
+ * @returns Escalation and regional labor indices
+ */
+export async function listCostIndices(): Promise<CostIndexTables> {
+  const [escalation, regional] = await Promise.all([
+    prisma.escalationIndex.findMany({ orderBy: [{ kind: 'asc' }, { year: 'asc' }] }),
+    prisma.regionalLaborIndex.findMany({ orderBy: { jurisdictionCode: 'asc' } }),
+  ]);
+
+  return {
+    escalation: escalation.map((row) => ({
+      kind: row.kind as EscalationIndexKind,
+      year: row.year,
+      rate: row.rate,
+      source: row.source,
+    })),
+    regional: regional.map((row) => ({
+      jurisdictionCode: row.jurisdictionCode,
+      laborCostIndex: row.laborCostIndex,
+      effectiveYear: row.effectiveYear,
+      source: row.source,
+    })),
+  };
+}
+
+/**
+ * Indices for cost calculations
+ * @returns Stored indices on top of the default rates
+ */
+export async function getCostIndices(): Promise<CostIndices> {
+  const { escalation, regional } = await listCostIndices();
+
+  const inflation: Record<number, number> = {};
+  const wageGrowth: Record<number, number> = {};
+  for (const index of escalation) {
+    (index.kind === 'WAGE_GROWTH' ? wageGrowth : inflation)[index.year] = index.rate;
+  }
+
+  return {
+    ...DEFAULT_COST_INDICES,
+    inflation,
+    wageGrowth,
+    regionalLabor: Object.fromEntries(
+      regional.map((index) => [index.jurisdictionCode, index.laborCostIndex])
+    ),
+  };
+}
+
+/**
+ * Version of the stored indices; any change makes existing estimates stale
+ * @returns Cost index version identifier
+ */
+export async function getCostIndexVersion(): Promise<string> {
+  const [escalation, regional] = await Promise.all([
+    prisma.escalationIndex.aggregate({ _count: { _all: true }, _max: { updatedAt: true } }),
+    prisma.regionalLaborIndex.aggregate({ _count: { _all: true }, _max: { updatedAt: true } }),
+  ]);
+
+  const total = escalation._count._all + regional._count._all;
+  if (total === 0) return DEFAULT_COST_INDEX_VERSION;
+
+  const lastUpdated = Math.max(
+    escalation._max.updatedAt?.getTime() ?? 0,
+    regional._max.updatedAt?.getTime() ?? 0
+  );
+  return `indices-${total}-${lastUpdated}`;
+}
+
+/**
+ * Replace every stored index with the given tables
+ * @param tables - Complete escalation and regional labor tables
+ * @returns Stored tables
+ */
+export async function replaceCostIndices(tables: CostIndexTables): Promise<CostIndexTables> {
+  await prisma.$transaction(async (tx) => {
+    await tx.escalationIndex.deleteMany({});
+    await tx.regionalLaborIndex.deleteMany({});
+
+    await tx.escalationIndex.createMany({
+      data: tables.escalation.map((index) => ({ ...index, source: index.source ?? null })),
+    });
+    await tx.regionalLaborIndex.createMany({
+      data: tables.regional.map((index) => ({
+        ...index,
+        jurisdictionCode: index.jurisdictionCode.trim().toUpperCase(),
+        source: index.source ?? null,
+      })),
+    });
+  });
+
+  return listCostIndices();
+}
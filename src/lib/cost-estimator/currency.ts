@@ -0,0 +1,211 @@
+/**
+ * Currency Conversion
+ * Converts estimate amounts between currencies with the locally maintained
+ * FX rate table. The cost engine and benchmark library work in USD; estimates
+ * are stored in their own currency and converted to the customer's reporting
+ * currency for portfolio totals, charts and exports. Pure functions; rates
+ * are stored by fx-rates.ts.
+ */
+
+import type {
+  CostDriver,
+  CostEstimate,
+  CurrencyCode,
+  DepartmentCostBreakdown,
+  FxRate,
+} from '../../types/cost-estimate';
+import type { PenaltyExposure } from '../../types/penalties';
+
+// Currency the cost engine and benchmark amounts are in
+export const BASE_CURRENCY: CurrencyCode = 'USD';
+
+export const SUPPORTED_CURRENCIES: CurrencyCode[] = ['USD', 'CAD', 'EUR'];
+
+/**
+ * Thrown when no FX rate is stored for a currency
+ */
+export class MissingFxRateError extends Error {
+  constructor(public readonly currency: string) {
+    super(`No FX rate for ${currency}`);
+    this.name = 'MissingFxRateError';
+  }
+}
+
+/**
+ * Parse a stored currency code
+ * @param value - Stored value
+ * @returns Currency code, or USD for unknown values
+ */
+export function toCurrencyCode(value: unknown): CurrencyCode {
+  return SUPPORTED_CURRENCIES.includes(value as CurrencyCode)
+    ? (value as CurrencyCode)
+    : BASE_CURRENCY;
+}
+
+/**
+ * USD value of one unit of a currency on a date: the latest rate effective on
+ * or before the date, or the earliest rate for dates before the table starts
+ * @param rates - FX rate table
+ * @param currency - Currency
+ * @param asOf - Date of the conversion
+ * @returns USD per unit
+ * @throws MissingFxRateError when the table has no rate for the currency
+ */
+export function findFxRate(rates: FxRate[], currency: CurrencyCode, asOf: Date): number {
+  if (currency === BASE_CURRENCY) return 1;
+
+  const currencyRates = rates
+    .filter((rate) => rate.currency === currency)
+    .sort((a, b) => a.effectiveDate.getTime() - b.effectiveDate.getTime());
+  if (currencyRates.length === 0) throw new MissingFxRateError(currency);
+
+  const effective = currencyRates.filter((rate) => rate.effectiveDate.getTime() <= asOf.getTime());
+  return (effective[effective.length - 1] ?? currencyRates[0]).rateToUsd;
+}
+
+/**
+ * Convert an amount between currencies
+ * @param amount - Amount in the source currency
+ * @param from - Source currency
+ * @param to - Target currency
+ * @param rates - FX rate table
+ * @param asOf - Date of the conversion
+ * @returns Amount in the target currency (unrounded)
+ */
+export function convertAmount(
+  amount: number,
+  from: CurrencyCode,
+  to: CurrencyCode,
+  rates: FxRate[],
+  asOf: Date
+): number {
+  if (from === to || amount === 0) return amount;
+  return (amount * findFxRate(rates, from, asOf)) / findFxRate(rates, to, asOf);
+}
+
+/**
+ * Convert cost drivers to one currency
+ * @param drivers - Drivers; those without a currency are in `defaultCurrency`
+ * @param to - Target currency
+ * @param rates - FX rate table
+ * @param asOf - Date of the conversion
+ * @param defaultCurrency - Currency of drivers without one
+ * @returns Drivers in the target currency, rounded to whole units
+ */
+export function convertDrivers(
+  drivers: CostDriver[],
+  to: CurrencyCode,
+  rates: FxRate[],
+  asOf: Date,
+  defaultCurrency: CurrencyCode = BASE_CURRENCY
+): CostDriver[] {
+  return drivers.map((driver) => ({
+    ...driver,
+    estimatedCost: Math.round(
+      convertAmount(driver.estimatedCost, driver.currency ?? defaultCurrency, to, rates, asOf)
+    ),
+    currency: to,
+  }));
+}
+
+/**
+ * Convert a department breakdown to another currency
+ * @param departments - Breakdown in `from`
+ * @param from - Source currency
+ * @param to - Target currency
+ * @param rates - FX rate table
+ * @param asOf - Date of the conversion
+ * @returns Breakdown (and its line items) in the target currency
+ */
+export function convertDepartmentBreakdown<
+  T extends Pick<DepartmentCostBreakdown, 'oneTimeCost' | 'recurringCostAnnual'> & {
+    lineItems?: CostDriver[];
+  },
+>(
+  departments: T[],
+  from: CurrencyCode,
+  to: CurrencyCode,
+  rates: FxRate[],
+  asOf: Date
+): T[] {
+  if (from === to) return departments;
+  return departments.map((department) => ({
+    ...department,
+    oneTimeCost: Math.round(convertAmount(department.oneTimeCost, from, to, rates, asOf)),
+    recurringCostAnnual: Math.round(
+      convertAmount(department.recurringCostAnnual, from, to, rates, asOf)
+    ),
+    ...(department.lineItems
+      ? { lineItems: convertDrivers(department.lineItems, to, rates, asOf, from) }
+      : {}),
+  }));
+}
+
+/**
+ * Convert a penalty exposure, calculated from USD penalty terms, to another currency
+ * @param exposure - Exposure in USD
+ * @param to - Target currency
+ * @param rates - FX rate table
+ * @param asOf - Date of the conversion
+ * @returns Exposure with gross and risk-weighted amounts in the target currency
+ */
+export function convertPenaltyExposure(
+  exposure: PenaltyExposure,
+  to: CurrencyCode,
+  rates: FxRate[],
+  asOf: Date
+): PenaltyExposure {
+  if (to === BASE_CURRENCY) return exposure;
+  return {
+    ...exposure,
+    grossExposure: Math.round(convertAmount(exposure.grossExposure, BASE_CURRENCY, to, rates, asOf)),
+    riskWeightedExposure: Math.round(
+      convertAmount(exposure.riskWeightedExposure, BASE_CURRENCY, to, rates, asOf)
+    ),
+  };
+}
+
+/**
+ * Convert every amount of an estimate to another currency
+ * @param estimate - Estimate in its own currency (USD when unset)
+ * @param to - Target currency
+ * @param rates - FX rate table
+ * @param asOf - Date of the conversion (the reporting date for portfolio totals)
+ * @returns Estimate in the target currency
+ */
+export function convertEstimate<
+  T extends Pick<
+    CostEstimate,
+    | 'oneTimeCostLow'
+    | 'oneTimeCostHigh'
+    | 'recurringCostAnnual'
+    | 'costDrivers'
+    | 'departmentBreakdown'
+    | 'currency'
+  >,
+>(
+  estimate: T,
+  to: CurrencyCode,
+  rates: FxRate[],
+  asOf: Date
+): T {
+  const from = estimate.currency ?? BASE_CURRENCY;
+  if (from === to) return estimate;
+
+  const convert = (amount: number) => Math.round(convertAmount(amount, from, to, rates, asOf));
+  return {
+    ...estimate,
+    currency: to,
+    oneTimeCostLow: convert(estimate.oneTimeCostLow),
+    oneTimeCostHigh: convert(estimate.oneTimeCostHigh),
+    recurringCostAnnual: convert(estimate.recurringCostAnnual),
+    costDrivers: convertDrivers(estimate.costDrivers, to, rates, asOf, from),
+    departmentBreakdown: convertDepartmentBreakdown(
+      estimate.departmentBreakdown,
+      from,
+      to,
+      rates,
+      asOf
+    ),
+  };
+}
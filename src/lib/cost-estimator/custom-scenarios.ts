@@ -0,0 +1,228 @@
+/**
+ * Custom Scenario Store
+ * Customer-defined scenarios saved per estimate revision, and the plan the
+ * customer selected for the board report. Pricing lives in scenario-builder.ts.
+ */
+
+import prisma from '@/lib/prisma';
+import type { Prisma } from '../../../generated/prisma/client';
+import type {
+  CustomScenarioDefinition,
+  ScenarioKey,
+  ScenarioSourcing,
+} from '../../types/cost-estimate';
+import { MAX_DELAY_MONTHS, customScenarioKey } from './scenario-builder';
+
+export interface CustomScenarioRecord extends CustomScenarioDefinition {
+  id: string;
+  costEstimateId: string;
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Map a stored scenario row to the domain record
+ */
+function toRecord(row: {
+  id: string;
+  costEstimateId: string;
+  name: string;
+  description: string | null;
+  excludedDriverIds: string[];
+  driverCostOverrides: unknown;
+  delayMonths: number;
+  sourcing: string;
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}): CustomScenarioRecord {
+  const overrides = (row.driverCostOverrides ?? {}) as Record<string, unknown>;
+  return {
+    ...row,
+    driverCostOverrides: Object.fromEntries(
+      Object.entries(overrides).filter(
+        (entry): entry is [string, number] => typeof entry[1] === 'number'
+      )
+    ),
+    sourcing: (row.sourcing === 'VENDOR' ? 'VENDOR' : 'IN_HOUSE') as ScenarioSourcing,
+  };
+}
+
+/**
+ * Normalize a definition before it is stored
+ */
+function toData(definition: Partial<CustomScenarioDefinition>) {
+  return {
+    ...(definition.name !== undefined ? { name: definition.name.trim() } : {}),
+    ...(definition.description !== undefined
+      ? { description: definition.description?.trim() || null }
+      : {}),
+    ...(definition.excludedDriverIds !== undefined
+      ? { excludedDriverIds: [...new Set(definition.excludedDriverIds)] }
+      : {}),
+    ...(definition.driverCostOverrides !== undefined
+      ? { driverCostOverrides: { ...definition.driverCostOverrides } }
+      : {}),
+    ...(definition.delayMonths !== undefined
+      ? { delayMonths: Math.min(MAX_DELAY_MONTHS, Math.max(0, Math.round(definition.delayMonths))) }
+      : {}),
+    ...(definition.sourcing !== undefined ? { sourcing: definition.sourcing } : {}),
+  };
+}
+
+/**
+ * Driver IDs referenced by a definition that the estimate does not have
+ * @param definition - Scenario definition (or changes)
+ * @param driverIds - Driver IDs of the estimate
+ * @returns Unknown driver IDs
+ */
+export function findUnknownDriverIds(
+  definition: Partial<CustomScenarioDefinition>,
+  driverIds: string[]
+): string[] {
+  const known = new Set(driverIds);
+  const referenced = [
+    ...(definition.excludedDriverIds ?? []),
+    ...Object.keys(definition.driverCostOverrides ?? {}),
+  ];
+  return [...new Set(referenced.filter((driverId) => !known.has(driverId)))];
+}
+
+/**
+ * Carry an estimate's custom scenarios and selected plan over to its new revision
+ * Exclusions and cost overrides follow their driver to its ID in the new
+ * revision and are dropped for drivers it no longer has; a selection pointing
+ * at a copied scenario follows the copy
+ * @param tx - Transaction the revision is created in
+ * @param fromEstimateId - Superseded revision
+ * @param toEstimateId - New revision
+ * @param driverIds - Superseded driver ID -> driver ID in the new revision
+ * @param selectedScenario - Plan selected on the superseded revision
+ * @returns Selected plan for the new revision
+ */
+export async function copyCustomScenarios(
+  tx: Prisma.TransactionClient,
+  fromEstimateId: string,
+  toEstimateId: string,
+  driverIds: Map<string, string>,
+  selectedScenario: string | null
+): Promise<string | null> {
+  const rows = await tx.customScenario.findMany({
+    where: { costEstimateId: fromEstimateId },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  const copiedKeys = new Map<string, string>();
+  for (const row of rows) {
+    const scenario = toRecord(row);
+    const copy = await tx.customScenario.create({
+      data: {
+        costEstimateId: toEstimateId,
+        name: scenario.name,
+        description: scenario.description,
+        excludedDriverIds: scenario.excludedDriverIds.flatMap((driverId) => driverIds.get(driverId) ?? []),
+        driverCostOverrides: Object.fromEntries(
+          Object.entries(scenario.driverCostOverrides).flatMap(([driverId, cost]) => {
+            const mapped = driverIds.get(driverId);
+            return mapped ? [[mapped, cost]] : [];
+          })
+        ),
+        delayMonths: scenario.delayMonths,
+        sourcing: scenario.sourcing,
+        createdBy: scenario.createdBy,
+        createdAt: scenario.createdAt,
+      },
+    });
+    copiedKeys.set(customScenarioKey(row.id), customScenarioKey(copy.id));
+  }
+
+  if (!selectedScenario?.startsWith('custom:')) {
+    return selectedScenario;
+  }
+  return copiedKeys.get(selectedScenario) ?? null;
+}
+
+/**
+ * Custom scenarios of an estimate, oldest first
+ * @param costEstimateId - Cost estimate ID
+ * @returns Stored scenarios
+ */
+export async function listCustomScenarios(costEstimateId: string): Promise<CustomScenarioRecord[]> {
+  const rows = await prisma.customScenario.findMany({
+    where: { costEstimateId },
+    orderBy: { createdAt: 'asc' },
+  });
+  return rows.map(toRecord);
+}
+
+/**
+ * Save a new custom scenario
+ * @param costEstimateId - Cost estimate ID
+ * @param definition - Scenario definition
+ * @param createdBy - Creator email
+ * @returns Stored scenario
+ */
+export async function createCustomScenario(
+  costEstimateId: string,
+  definition: CustomScenarioDefinition,
+  createdBy: string
+): Promise<CustomScenarioRecord> {
+  const row = await prisma.customScenario.create({
+    data: {
+      ...toData(definition),
+      name: definition.name.trim(),
+      driverCostOverrides: { ...definition.driverCostOverrides },
+      costEstimateId,
+      createdBy,
+    },
+  });
+  return toRecord(row);
+}
+
+/**
+ * Update a custom scenario
+ * @param id - Custom scenario ID
+ * @param changes - Fields to change
+ * @returns Updated scenario
+ */
+export async function updateCustomScenario(
+  id: string,
+  changes: Partial<CustomScenarioDefinition>
+): Promise<CustomScenarioRecord> {
+  const row = await prisma.customScenario.update({
+    where: { id },
+    data: toData(changes),
+  });
+  return toRecord(row);
+}
+
+/**
+ * Delete a custom scenario; clears the estimate's selection if it pointed at it
+ * @param id - Custom scenario ID
+ * @param costEstimateId - Cost estimate the scenario belongs to
+ */
+export async function deleteCustomScenario(id: string, costEstimateId: string): Promise<void> {
+  await prisma.$transaction(async (tx) => {
+    await tx.customScenario.delete({ where: { id } });
+    await tx.costEstimate.updateMany({
+      where: { id: costEstimateId, selectedScenario: customScenarioKey(id) },
+      data: { selectedScenario: null },
+    });
+  });
+}
+
+/**
+ * Choose the plan presented in the board report
+ * @param costEstimateId - Cost estimate ID
+ * @param key - Scenario key, or null for the automatic recommendation
+ */
+export async function selectScenario(
+  costEstimateId: string,
+  key: ScenarioKey | null
+): Promise<void> {
+  await prisma.costEstimate.update({
+    where: { id: costEstimateId },
+    data: { selectedScenario: key },
+  });
+}
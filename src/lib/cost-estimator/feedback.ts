@@ -0,0 +1,154 @@
+/**
+ * Cost Feedback Learning
+ * Turns recorded actual costs into the variance history used to calibrate
+ * new estimates via applyLearningFeedback
+ */
+
+import prisma from '@/lib/prisma';
+import type { AccuracySample } from './accuracy';
+import { parseStoredCostDrivers } from './simulation';
+import type {
+  CompanyProfile,
+  CostFeedbackVariance,
+  LearningHistory,
+  LearningHistoryEntry,
+} from '../../types/cost-estimate';
+
+const HISTORY_LIMIT = 20;
+
+// Below this many category samples, fall back to all of the customer's feedback
+const MIN_CATEGORY_SAMPLES = 3;
+
+/**
+ * Calculate variance of actual costs against an estimate
+ * Variance is relative to the one-time midpoint: (actual - estimated) / estimated
+ * @param estimate - Stored estimate range and recurring cost
+ * @param actual - Reported actual costs
+ * @returns Variances and accuracy percentages
+ */
+export function calculateFeedbackVariance(
+  estimate: { oneTimeCostLow: number; oneTimeCostHigh: number; recurringCostAnnual: number },
+  actual: { actualOneTimeCost: number; actualRecurringCostAnnual: number }
+): CostFeedbackVariance {
+  const estimatedOneTimeCost = (estimate.oneTimeCostLow + estimate.oneTimeCostHigh) / 2;
+  const estimatedRecurringCostAnnual = estimate.recurringCostAnnual;
+
+  const oneTimeVariance =
+    estimatedOneTimeCost > 0
+      ? (actual.actualOneTimeCost - estimatedOneTimeCost) / estimatedOneTimeCost
+      : 0;
+  const recurringVariance =
+    estimatedRecurringCostAnnual > 0
+      ? (actual.actualRecurringCostAnnual - estimatedRecurringCostAnnual) /
+        estimatedRecurringCostAnnual
+      : 0;
+
+  return {
+    estimatedOneTimeCost,
+    estimatedRecurringCostAnnual,
+    oneTimeVariance,
+    recurringVariance,
+    oneTimeAccuracy: 100 - Math.abs(oneTimeVariance * 100),
+    recurringAccuracy: 100 - Math.abs(recurringVariance * 100),
+  };
+}
+
+/**
+ * Load recent feedback for a customer as learning history
+ * Prefers feedback for the same regulation type; uses customer-wide
+ * feedback when the category has too few samples
+ * @param customerId - Customer ID
+ * @param regulationType - Regulation category of the new estimate
+ * @returns Learning history with the scope that was used
+ */
+export async function getLearningHistory(
+  customerId: string,
+  regulationType: string
+): Promise<LearningHistory> {
+  const select = { estimatedOneTimeCost: true, actualOneTimeCost: true, oneTimeVariance: true };
+
+  const categoryFeedback = await prisma.costFeedback.findMany({
+    where: { customerId, regulationType },
+    select,
+    orderBy: { createdAt: 'desc' },
+    take: HISTORY_LIMIT,
+  });
+
+  if (categoryFeedback.length >= MIN_CATEGORY_SAMPLES) {
+    return { scope: 'CATEGORY', regulationType, history: categoryFeedback.map(toHistoryEntry) };
+  }
+
+  const customerFeedback = await prisma.costFeedback.findMany({
+    where: { customerId },
+    select,
+    orderBy: { createdAt: 'desc' },
+    take: HISTORY_LIMIT,
+  });
+
+  return {
+    scope: customerFeedback.length > 0 ? 'CUSTOMER' : 'NONE',
+    regulationType,
+    history: customerFeedback.map(toHistoryEntry),
+  };
+}
+
+function toHistoryEntry(feedback: {
+  estimatedOneTimeCost: number;
+  actualOneTimeCost: number;
+  oneTimeVariance: number;
+}): LearningHistoryEntry {
+  return {
+    estimated: feedback.estimatedOneTimeCost,
+    actual: feedback.actualOneTimeCost,
+    variance: feedback.oneTimeVariance,
+  };
+}
+
+/**
+ * Load every recorded feedback of a customer with the estimate it reports on,
+ * for the accuracy report
+ * @param customerId - Customer ID
+ * @returns Accuracy samples, oldest estimate first
+ */
+export async function getAccuracySamples(customerId: string): Promise<AccuracySample[]> {
+  const feedback = await prisma.costFeedback.findMany({
+    where: { customerId },
+    include: {
+      costEstimate: {
+        select: {
+          oneTimeCostLow: true,
+          oneTimeCostHigh: true,
+          estimationMethod: true,
+          companyProfileJson: true,
+          costDriversJson: true,
+          createdAt: true,
+          regulationVersion: {
+            select: {
+              regulation: { select: { jurisdiction: { select: { code: true } } } },
+            },
+          },
+        },
+      },
+    },
+    orderBy: { costEstimate: { createdAt: 'asc' } },
+  });
+
+  return feedback.map((entry) => {
+    const estimate = entry.costEstimate;
+    const profile = estimate.companyProfileJson as CompanyProfile | null;
+    return {
+      costEstimateId: entry.costEstimateId,
+      estimatedAt: estimate.createdAt,
+      oneTimeCostLow: estimate.oneTimeCostLow,
+      oneTimeCostHigh: estimate.oneTimeCostHigh,
+      estimatedOneTimeCost: entry.estimatedOneTimeCost,
+      estimatedRecurringCostAnnual: entry.estimatedRecurringCostAnnual,
+      actualOneTimeCost: entry.actualOneTimeCost,
+      actualRecurringCostAnnual: entry.actualRecurringCostAnnual,
+      estimationMethod: estimate.estimationMethod,
+      industry: profile?.industry ?? null,
+      jurisdiction: estimate.regulationVersion.regulation.jurisdiction.code,
+      drivers: parseStoredCostDrivers(estimate.costDriversJson),
+    };
+  });
+}
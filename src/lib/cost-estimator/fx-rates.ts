@@ -0,0 +1,53 @@
+/**
+ * FX Rate Store
+ * Loads and maintains the locally maintained FX rate table used by
+ * currency.ts. Rates apply from their effective date until the next one.
+ */
+
+import prisma from '@/lib/prisma';
+import type { FxRate } from '../../types/cost-estimate';
+import { toCurrencyCode } from './currency';
+
+export interface FxRateInput {
+  currency: string;
+  rateToUsd: number;
+  effectiveDate: Date;
+  source?: string | null;
+}
+
+/**
+ * Stored FX rates, by currency then effective date
+ * @returns FX rate table
+ */
+export async function listFxRates(): Promise<FxRate[]> {
+  const rates = await prisma.fxRate.findMany({
+    orderBy: [{ currency: 'asc' }, { effectiveDate: 'asc' }],
+  });
+
+  return rates.map((rate) => ({
+    currency: toCurrencyCode(rate.currency),
+    rateToUsd: rate.rateToUsd,
+    effectiveDate: rate.effectiveDate,
+    source: rate.source,
+  }));
+}
+
+/**
+ * Replace every stored FX rate with the given table
+ * @param rates - Complete FX rate table
+ * @returns Stored table
+ */
+export async function replaceFxRates(rates: FxRateInput[]): Promise<FxRate[]> {
+  await prisma.$transaction(async (tx) => {
+    await tx.fxRate.deleteMany({});
+    await tx.fxRate.createMany({
+      data: rates.map((rate) => ({
+        ...rate,
+        currency: rate.currency.trim().toUpperCase(),
+        source: rate.source ?? null,
+      })),
+    });
+  });
+
+  return listFxRates();
+}
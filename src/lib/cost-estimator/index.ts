@@ -1,6 +1,8 @@
 export {
   extractCostDrivers,
   calculateImplementationCost,
+  calculateProfileMultiplier,
+  extractCostDriversFromBenchmarks,
   allocateToDepartments,
   generateScenarios,
   estimateWithAI,
@@ -10,8 +12,164 @@ export {
 
 export { allocateToDepartmentsWithAI, extractCostDriversWithAI } from './ai';
 
+export { aggregatePortfolioTrends, forecastPortfolioTrends } from './analytics';
+
+export { calculateFeedbackVariance, getLearningHistory, getAccuracySamples } from './feedback';
+
+export {
+  MIN_ACCURACY_SAMPLES,
+  ACCURACY_BIAS_THRESHOLD,
+  MIN_BAND_COVERAGE,
+  calculateEstimateAccuracy,
+} from './accuracy';
+
+export type { AccuracySample } from './accuracy';
+
 export {
+  ESTIMATE_CACHE_TTL_DAYS,
+  hashCompanyProfile,
+  buildEstimateInputs,
+  hashEstimateInputs,
+  detectRevisionReasons,
+  diffEstimateRevisions,
+  getCurrentEstimate,
+  listEstimateRevisions,
+  createEstimateRevision,
+  EstimateRevisionConflictError,
+} from './revisions';
+
+export { BUILTIN_BENCHMARK_VERSION, BUILTIN_COST_BENCHMARKS } from './benchmark-defaults';
+
+export {
+  getActiveBenchmarks,
+  getBenchmarkLibraryVersion,
+  listBenchmarks,
+  createBenchmark,
+  updateBenchmark,
+  deleteBenchmark,
+  importBenchmarks,
+  exportBenchmarks,
+  isValidBenchmarkPattern,
+  normalizeKeywords,
+  toPortableBenchmark,
+} from './benchmarks';
+
+export type { BenchmarkImportMode, BenchmarkImportResult } from './benchmarks';
+
+export {
+  DEFAULT_INFLATION_RATE,
+  DEFAULT_WAGE_GROWTH_RATE,
+  DEFAULT_COST_INDICES,
+  isLaborDriver,
+  recurringLaborShare,
+  escalationRate,
+  buildEscalationSchedule,
+  calculateRegionalLaborIndex,
+  regionalCostFactor,
+  driverCostFactor,
+} from './indexation';
+
+export {
+  DEFAULT_COST_INDEX_VERSION,
+  listCostIndices,
+  getCostIndices,
+  getCostIndexVersion,
+  replaceCostIndices,
+} from './cost-indices';
+
+export type {
+  CostIndexTables,
+  EscalationIndexInput,
+  RegionalLaborIndexInput,
+} from './cost-indices';
+
+export {
+  BASE_CURRENCY,
+  SUPPORTED_CURRENCIES,
+  MissingFxRateError,
+  toCurrencyCode,
+  findFxRate,
+  convertAmount,
+  convertDrivers,
+  convertDepartmentBreakdown,
+  convertPenaltyExposure,
+  convertEstimate,
+} from './currency';
+
+export { listFxRates, replaceFxRates } from './fx-rates';
+
+export type { FxRateInput } from './fx-rates';
+
+export {
+  DEFAULT_SIMULATION_ITERATIONS,
+  MAX_SIMULATION_ITERATIONS,
+  parseStoredCostDrivers,
+  buildDriverDistribution,
+  runMonteCarloSimulation,
+} from './simulation';
+
+export {
+  SENSITIVITY_RECURRING_YEARS,
+  REGIONAL_LABOR_SWING,
+  MIN_DRIVER_SWING,
+  driverSwing,
   calculateSensitivityAnalysis,
-  aggregatePortfolioTrends,
-  forecastPortfolioTrends,
-} from './analytics';
+} from './sensitivity';
+
+export type { SensitivityOptions } from './sensitivity';
+
+export {
+  DEFAULT_DISCOUNT_RATE,
+  DEFAULT_SCENARIO_HORIZON_YEARS,
+  MIN_SCENARIO_HORIZON_YEARS,
+  MAX_SCENARIO_HORIZON_YEARS,
+  clampHorizonYears,
+  resolveComplianceDate,
+  buildScenarioCashFlow,
+  attachScenarioCashFlows,
+  summarizeCashFlowByYear,
+} from './cash-flow';
+
+export type { CashFlowOptions } from './cash-flow';
+
+export {
+  VENDOR_MARKUP,
+  DELAY_RUSH_PREMIUM,
+  MAX_DELAY_MONTHS,
+  customScenarioKey,
+  isScenarioKey,
+  buildCustomScenario,
+  resolveSelectedScenario,
+} from './scenario-builder';
+
+export type { CustomScenarioOptions } from './scenario-builder';
+
+export {
+  findUnknownDriverIds,
+  listCustomScenarios,
+  createCustomScenario,
+  updateCustomScenario,
+  deleteCustomScenario,
+  selectScenario,
+} from './custom-scenarios';
+
+export type { CustomScenarioRecord } from './custom-scenarios';
+
+export {
+  QUOTE_CONFIDENCE,
+  quoteDriverKey,
+  isQuoteExpired,
+  isQuoteApplicable,
+  applicableQuotesByDriver,
+  vendorQuoteVersion,
+  applyVendorQuotes,
+} from './vendor-quotes';
+
+export {
+  listVendorQuotes,
+  createVendorQuote,
+  updateVendorQuote,
+  deleteVendorQuote,
+} from './vendor-quote-store';
+
+export type { VendorQuoteInput } from './vendor-quote-store';
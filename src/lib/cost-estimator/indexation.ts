@@ -0,0 +1,150 @@
+/**
+ * Cost Indexation
+ * Escalates recurring costs over time (wage growth for labor-driven costs,
+ * inflation for the rest) and scales labor-driven costs by where the company
+ * operates. Pure functions; stored indices are loaded by cost-indices.ts.
+ */
+
+import {
+  CostCategory,
+  type CostDriver,
+  type CostIndices,
+} from '../../types/cost-estimate';
+
+export const DEFAULT_INFLATION_RATE = 0.02;
+export const DEFAULT_WAGE_GROWTH_RATE = 0.035;
+
+// Coordination overhead of each additional jurisdiction, on top of labor costs
+export const JURISDICTION_OVERHEAD = 0.05;
+
+export const DEFAULT_COST_INDICES: CostIndices = {
+  inflation: {},
+  wageGrowth: {},
+  defaultInflationRate: DEFAULT_INFLATION_RATE,
+  defaultWageGrowthRate: DEFAULT_WAGE_GROWTH_RATE,
+  regionalLabor: {},
+};
+
+// Categories whose cost is mostly people's time, so they track wages and regional pay
+const LABOR_CATEGORIES = new Set<CostCategory>([
+  CostCategory.PERSONNEL,
+  CostCategory.TRAINING,
+  CostCategory.CONSULTING,
+  CostCategory.LEGAL_REVIEW,
+]);
+
+/**
+ * Whether a cost driver is labor-driven
+ * @param driver - Cost driver
+ * @returns True for personnel, training, consulting and legal review
+ */
+export function isLaborDriver(driver: Pick<CostDriver, 'category'>): boolean {
+  return LABOR_CATEGORIES.has(driver.category);
+}
+
+/**
+ * Share of recurring cost that is labor-driven
+ * @param drivers - Cost drivers
+ * @returns Share between 0 and 1 (0 when there is no recurring cost)
+ */
+export function recurringLaborShare(drivers: CostDriver[]): number {
+  const recurring = drivers.filter((driver) => !driver.isOneTime);
+  const total = recurring.reduce((sum, driver) => sum + driver.estimatedCost, 0);
+  if (total <= 0) return 0;
+
+  const labor = recurring
+    .filter(isLaborDriver)
+    .reduce((sum, driver) => sum + driver.estimatedCost, 0);
+  return labor / total;
+}
+
+/**
+ * Annual escalation rate for a calendar year
+ * @param indices - Cost indices
+ * @param year - Calendar year the increase applies to
+ * @param laborShare - Share of the cost that tracks wages
+ * @returns Blended annual rate
+ */
+export function escalationRate(indices: CostIndices, year: number, laborShare: number): number {
+  const inflation = indices.inflation[year] ?? indices.defaultInflationRate;
+  const wageGrowth = indices.wageGrowth[year] ?? indices.defaultWageGrowthRate;
+  const share = Math.min(1, Math.max(0, laborShare));
+  return share * wageGrowth + (1 - share) * inflation;
+}
+
+/**
+ * Price-level multiplier for each year of a horizon
+ * Year 1 is at today's prices; each later year compounds that year's rate
+ * @param indices - Cost indices
+ * @param startYear - Calendar year of year 1
+ * @param years - Horizon length
+ * @param laborShare - Share of the cost that tracks wages
+ * @returns One multiplier per year, starting at 1
+ */
+export function buildEscalationSchedule(
+  indices: CostIndices,
+  startYear: number,
+  years: number,
+  laborShare: number
+): number[] {
+  const schedule: number[] = [];
+  let multiplier = 1;
+  for (let offset = 0; offset < years; offset++) {
+    if (offset > 0) {
+      multiplier *= 1 + escalationRate(indices, startYear + offset, laborShare);
+    }
+    schedule.push(multiplier);
+  }
+  return schedule;
+}
+
+/**
+ * Average regional labor cost index across the operating jurisdictions
+ * Jurisdictions without a configured index count as the 1.0 baseline
+ * @param jurisdictionCodes - Operating jurisdiction codes
+ * @param indices - Cost indices
+ * @returns Labor cost index (1.0 = baseline)
+ */
+export function calculateRegionalLaborIndex(
+  jurisdictionCodes: string[] | undefined,
+  indices: CostIndices
+): number {
+  const codes = [
+    ...new Set((jurisdictionCodes ?? []).map((code) => code.trim().toUpperCase()).filter(Boolean)),
+  ];
+  if (codes.length === 0) return 1;
+
+  const total = codes.reduce((sum, code) => sum + (indices.regionalLabor[code] ?? 1), 0);
+  return total / codes.length;
+}
+
+/**
+ * Regional factor applied to one driver: labor-driven costs follow regional pay,
+ * software, infrastructure and audit fees do not
+ * @param driver - Cost driver
+ * @param regionalLaborIndex - Result of calculateRegionalLaborIndex
+ * @returns Multiplier for the driver
+ */
+export function regionalCostFactor(
+  driver: Pick<CostDriver, 'category'>,
+  regionalLaborIndex: number
+): number {
+  return isLaborDriver(driver) ? regionalLaborIndex : 1;
+}
+
+/**
+ * Factor turning a driver's stored cost into its cost for the company: the
+ * regional factor times the profile multiplier, except for drivers priced by a
+ * vendor quote, which are firm prices
+ * @param driver - Cost driver
+ * @param regionalLaborIndex - Result of calculateRegionalLaborIndex
+ * @param multiplier - Company profile multiplier
+ * @returns Multiplier for the driver
+ */
+export function driverCostFactor(
+  driver: Pick<CostDriver, 'category' | 'quoteId'>,
+  regionalLaborIndex: number,
+  multiplier: number
+): number {
+  return driver.quoteId ? 1 : regionalCostFactor(driver, regionalLaborIndex) * multiplier;
+}
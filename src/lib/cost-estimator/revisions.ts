@@ -0,0 +1,424 @@
+/**
+ * Cost Estimate Revisions
+ * Estimates are revised, not overwritten: a new revision is computed when the
+ * regulation version, company profile, benchmark library, currency or applied
+ * vendor quotes change, or when the cached estimate expires. Revisions are numbered per customer and regulation.
+ */
+
+import { createHash } from 'crypto';
+import prisma from '@/lib/prisma';
+import { isPrismaError } from '@/lib/prisma-errors';
+import type { Prisma } from '../../../generated/prisma/client';
+import { copyCustomScenarios } from './custom-scenarios';
+import type {
+  CompanyProfile,
+  CostCategory,
+  CurrencyCode,
+  Department,
+  EstimateDriverChange,
+  EstimateInputs,
+  EstimateRevisionDiff,
+  EstimateRevisionReason,
+  EstimateRevisionSummary,
+} from '../../types/cost-estimate';
+
+// Cached estimates are recomputed after this long even if no input changed
+export const ESTIMATE_CACHE_TTL_DAYS = 90;
+
+// Driver cost changes smaller than this are treated as unchanged
+const DRIVER_COST_TOLERANCE = 1;
+
+interface StoredDriver {
+  id: string;
+  category: CostCategory;
+  description: string;
+  department: Department;
+  estimatedCost: number;
+}
+
+/**
+ * Revision fields needed to decide whether an estimate is stale
+ */
+interface RevisionState {
+  regulationVersionId: string;
+  estimateInputsJson: unknown;
+  cacheExpiresAt: Date | null;
+}
+
+/**
+ * Revision fields needed to diff two revisions
+ */
+interface DiffableRevision {
+  revision: number;
+  oneTimeCostLow: number;
+  oneTimeCostHigh: number;
+  recurringCostAnnual: number;
+  confidence: number;
+  costDriversJson: unknown;
+}
+
+/**
+ * Thrown when another request revised the same estimate first
+ */
+export class EstimateRevisionConflictError extends Error {
+  constructor(public readonly previousRevisionId: string | null) {
+    super(
+      previousRevisionId
+        ? `Estimate revision ${previousRevisionId} was already superseded`
+        : 'Estimate was already created'
+    );
+    this.name = 'EstimateRevisionConflictError';
+  }
+}
+
+function sha256(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+/**
+ * Stable hash of a company profile (key order and undefined fields ignored)
+ * @param profile - Effective company profile
+ * @returns Hex digest
+ */
+export function hashCompanyProfile(profile: CompanyProfile): string {
+  const entries = Object.entries(profile)
+    .filter(([, value]) => value !== undefined && value !== null)
+    .sort(([a], [b]) => a.localeCompare(b));
+  return sha256(JSON.stringify(entries));
+}
+
+/**
+ * Collect the inputs an estimate depends on
+ * @param regulationVersion - Version being estimated
+ * @param profile - Effective company profile
+ * @param benchmarkVersion - Benchmark library version
+ * @param costIndexVersion - Inflation/wage/regional index version
+ * @param currency - Currency the estimate is in
+ * @param vendorQuoteVersion - Fingerprint of the applied vendor quotes ('' for none)
+ * @returns Estimate inputs
+ */
+export function buildEstimateInputs(
+  regulationVersion: { id: string; contentHash: string | null; contentText: string },
+  profile: CompanyProfile,
+  benchmarkVersion: string,
+  costIndexVersion?: string,
+  currency?: CurrencyCode,
+  vendorQuoteVersion?: string
+): EstimateInputs {
+  return {
+    regulationVersionId: regulationVersion.id,
+    // Versions created before ingestion hashing have no stored hash
+    regulationContentHash: regulationVersion.contentHash ?? sha256(regulationVersion.contentText),
+    companyProfileHash: hashCompanyProfile(profile),
+    benchmarkVersion,
+    ...(costIndexVersion !== undefined ? { costIndexVersion } : {}),
+    ...(currency !== undefined ? { currency } : {}),
+    ...(vendorQuoteVersion ? { vendorQuoteVersion } : {}),
+  };
+}
+
+/**
+ * Combined hash stored in CostEstimate.contentHash
+ * @param inputs - Estimate inputs
+ * @returns Hex digest
+ */
+export function hashEstimateInputs(inputs: EstimateInputs): string {
+  return sha256(
+    [
+      inputs.regulationVersionId,
+      inputs.regulationContentHash,
+      inputs.companyProfileHash,
+      inputs.benchmarkVersion,
+      inputs.costIndexVersion ?? '',
+      inputs.currency ?? '',
+      inputs.vendorQuoteVersion ?? '',
+    ].join('|')
+  );
+}
+
+function parseEstimateInputs(value: unknown): EstimateInputs | null {
+  if (!value || typeof value !== 'object') return null;
+  const inputs = value as Partial<EstimateInputs>;
+  return typeof inputs.regulationVersionId === 'string' &&
+    typeof inputs.regulationContentHash === 'string' &&
+    typeof inputs.companyProfileHash === 'string' &&
+    typeof inputs.benchmarkVersion === 'string'
+    ? (inputs as EstimateInputs)
+    : null;
+}
+
+/**
+ * Decide whether a new revision is needed and why
+ * Estimates created before revisions existed have no recorded inputs; only a
+ * regulation version change is detectable for them
+ * @param previous - Current revision, or null if none exists
+ * @param inputs - Inputs for the estimate that would be computed now
+ * @param options - force adds MANUAL when nothing else changed
+ * @returns Reasons (empty when the current revision is still valid)
+ */
+export function detectRevisionReasons(
+  previous: RevisionState | null,
+  inputs: EstimateInputs,
+  options: { force?: boolean; now?: Date } = {}
+): EstimateRevisionReason[] {
+  if (!previous) return ['INITIAL'];
+
+  const now = options.now ?? new Date();
+  const reasons: EstimateRevisionReason[] = [];
+  const previousInputs = parseEstimateInputs(previous.estimateInputsJson);
+
+  if (
+    previous.regulationVersionId !== inputs.regulationVersionId ||
+    (previousInputs && previousInputs.regulationContentHash !== inputs.regulationContentHash)
+  ) {
+    reasons.push('REGULATION_VERSION');
+  }
+  if (previousInputs && previousInputs.companyProfileHash !== inputs.companyProfileHash) {
+    reasons.push('COMPANY_PROFILE');
+  }
+  if (previousInputs && previousInputs.benchmarkVersion !== inputs.benchmarkVersion) {
+    reasons.push('BENCHMARKS');
+  }
+  if (
+    previousInputs &&
+    inputs.costIndexVersion !== undefined &&
+    previousInputs.costIndexVersion !== inputs.costIndexVersion
+  ) {
+    reasons.push('COST_INDICES');
+  }
+  // Estimates made before multi-currency are in USD
+  if (inputs.currency !== undefined && (previousInputs?.currency ?? 'USD') !== inputs.currency) {
+    reasons.push('CURRENCY');
+  }
+  if (previousInputs && (previousInputs.vendorQuoteVersion ?? '') !== (inputs.vendorQuoteVersion ?? '')) {
+    reasons.push('VENDOR_QUOTES');
+  }
+  if (previous.cacheExpiresAt && previous.cacheExpiresAt.getTime() <= now.getTime()) {
+    reasons.push('EXPIRED');
+  }
+  if (reasons.length === 0 && options.force) {
+    reasons.push('MANUAL');
+  }
+
+  return reasons;
+}
+
+function parseDrivers(costDriversJson: unknown): StoredDriver[] {
+  const drivers = (costDriversJson as { drivers?: unknown[] } | null)?.drivers;
+  if (!Array.isArray(drivers)) return [];
+
+  return (drivers as Array<Record<string, unknown>>).map((driver, index) => ({
+    id: (driver.id as string) || `driver-${index + 1}`,
+    category: driver.category as CostCategory,
+    description: String(driver.description ?? ''),
+    department: driver.department as Department,
+    estimatedCost: Number(driver.estimatedCost ?? 0),
+  }));
+}
+
+// Driver ids are positional, so match on category + description instead
+function driverKey(driver: StoredDriver): string {
+  return `${driver.category}:${driver.description.trim().toLowerCase()}`;
+}
+
+/**
+ * Match each driver of a revision to the same driver in the next revision
+ * @returns Previous driver ID -> new driver ID, for drivers present in both
+ */
+function mapDriverIds(previousDriversJson: unknown, currentDriversJson: unknown): Map<string, string> {
+  const current = new Map(parseDrivers(currentDriversJson).map((driver) => [driverKey(driver), driver.id]));
+  const mapped = new Map<string, string>();
+  for (const driver of parseDrivers(previousDriversJson)) {
+    const id = current.get(driverKey(driver));
+    if (id !== undefined) mapped.set(driver.id, id);
+  }
+  return mapped;
+}
+
+function toChange(
+  driver: StoredDriver,
+  previousCost: number | null,
+  currentCost: number | null
+): EstimateDriverChange {
+  return {
+    category: driver.category,
+    description: driver.description,
+    department: driver.department,
+    previousCost,
+    currentCost,
+    delta: (currentCost ?? 0) - (previousCost ?? 0),
+  };
+}
+
+/**
+ * Diff two estimate revisions: headline cost deltas plus driver changes
+ * @param previous - Older revision
+ * @param current - Newer revision
+ * @returns Revision diff
+ */
+export function diffEstimateRevisions(
+  previous: DiffableRevision,
+  current: DiffableRevision
+): EstimateRevisionDiff {
+  const previousDrivers = new Map(
+    parseDrivers(previous.costDriversJson).map((driver) => [driverKey(driver), driver])
+  );
+  const currentDrivers = new Map(
+    parseDrivers(current.costDriversJson).map((driver) => [driverKey(driver), driver])
+  );
+
+  const driversAdded: EstimateDriverChange[] = [];
+  const driversChanged: EstimateDriverChange[] = [];
+  for (const [key, driver] of currentDrivers) {
+    const before = previousDrivers.get(key);
+    if (!before) {
+      driversAdded.push(toChange(driver, null, driver.estimatedCost));
+    } else if (Math.abs(driver.estimatedCost - before.estimatedCost) >= DRIVER_COST_TOLERANCE) {
+      driversChanged.push(toChange(driver, before.estimatedCost, driver.estimatedCost));
+    }
+  }
+
+  const driversRemoved = [...previousDrivers]
+    .filter(([key]) => !currentDrivers.has(key))
+    .map(([, driver]) => toChange(driver, driver.estimatedCost, null));
+
+  return {
+    fromRevision: previous.revision,
+    toRevision: current.revision,
+    oneTimeCostLowDelta: current.oneTimeCostLow - previous.oneTimeCostLow,
+    oneTimeCostHighDelta: current.oneTimeCostHigh - previous.oneTimeCostHigh,
+    recurringCostAnnualDelta: current.recurringCostAnnual - previous.recurringCostAnnual,
+    confidenceDelta: current.confidence - previous.confidence,
+    driversAdded,
+    driversRemoved,
+    driversChanged,
+  };
+}
+
+/**
+ * Current (non-superseded) estimate for a customer and regulation
+ * @param customerId - Customer ID
+ * @param regulationId - Regulation ID
+ * @returns Current revision or null
+ */
+export async function getCurrentEstimate(customerId: string, regulationId: string) {
+  return prisma.costEstimate.findFirst({
+    where: { customerId, supersededAt: null, regulationVersion: { regulationId } },
+    orderBy: { revision: 'desc' },
+  });
+}
+
+/**
+ * All revisions for a customer and regulation, newest first
+ * @param customerId - Customer ID
+ * @param regulationId - Regulation ID
+ * @returns Revision summaries
+ */
+export async function listEstimateRevisions(
+  customerId: string,
+  regulationId: string
+): Promise<EstimateRevisionSummary[]> {
+  const revisions = await prisma.costEstimate.findMany({
+    where: { customerId, regulationVersion: { regulationId } },
+    select: {
+      id: true,
+      revision: true,
+      regulationVersionId: true,
+      revisionReasons: true,
+      oneTimeCostLow: true,
+      oneTimeCostHigh: true,
+      recurringCostAnnual: true,
+      confidence: true,
+      createdAt: true,
+      supersededAt: true,
+    },
+    orderBy: { revision: 'desc' },
+  });
+
+  return revisions.map(({ supersededAt, revisionReasons, ...revision }) => ({
+    ...revision,
+    revisionReasons: revisionReasons as EstimateRevisionReason[],
+    isCurrent: supersededAt === null,
+  }));
+}
+
+/**
+ * Store a new revision and supersede the previous one atomically
+ * Custom scenarios and the selected plan carry over to the new revision
+ * @throws EstimateRevisionConflictError if a concurrent request revised it first
+ * @param previous - Revision being replaced, or null for the first estimate
+ * @param data - Estimate fields
+ * @param inputs - Inputs the estimate was computed from
+ * @param reasons - Why the revision was computed
+ * @returns Created estimate
+ */
+export async function createEstimateRevision(
+  previous: {
+    id: string;
+    revision: number;
+    selectedScenario?: string | null;
+    costDriversJson?: unknown;
+  } | null,
+  data: Omit<
+    Prisma.CostEstimateUncheckedCreateInput,
+    'revision' | 'revisionReasons' | 'previousRevisionId' | 'contentHash' | 'estimateInputsJson'
+  >,
+  inputs: EstimateInputs,
+  reasons: EstimateRevisionReason[]
+) {
+  const now = new Date();
+  const cacheExpiresAt = new Date(now.getTime() + ESTIMATE_CACHE_TTL_DAYS * 24 * 60 * 60 * 1000);
+
+  return prisma.$transaction(async (tx) => {
+    if (previous) {
+      // Only the request that still sees the previous revision as current may supersede it
+      const { count } = await tx.costEstimate.updateMany({
+        where: { id: previous.id, supersededAt: null },
+        data: { supersededAt: now },
+      });
+      if (count !== 1) {
+        throw new EstimateRevisionConflictError(previous.id);
+      }
+    }
+
+    let created;
+    try {
+      created = await tx.costEstimate.create({
+        data: {
+          ...data,
+          revision: (previous?.revision ?? 0) + 1,
+          revisionReasons: reasons,
+          previousRevisionId: previous?.id ?? null,
+          contentHash: hashEstimateInputs(inputs),
+          estimateInputsJson: { ...inputs },
+          cachedAt: now,
+          cacheExpiresAt,
+        },
+      });
+    } catch (error) {
+      // Concurrent first estimates both claim revision 1
+      if (isPrismaError(error, 'P2002')) {
+        throw new EstimateRevisionConflictError(previous?.id ?? null);
+      }
+      throw error;
+    }
+    if (!previous) {
+      return created;
+    }
+
+    const selectedScenario = await copyCustomScenarios(
+      tx,
+      previous.id,
+      created.id,
+      mapDriverIds(previous.costDriversJson, data.costDriversJson),
+      previous.selectedScenario ?? null
+    );
+    if (selectedScenario === null) {
+      return created;
+    }
+    return tx.costEstimate.update({
+      where: { id: created.id },
+      data: { selectedScenario },
+    });
+  });
+}
@@ -0,0 +1,246 @@
+/**
+ * Scenario Builder
+ * Prices customer-defined scenarios against an estimate: drivers can be left
+ * out or re-costed, implementation delayed and labor-driven work given to a
+ * vendor. Pure functions; definitions are stored by custom-scenarios.ts.
+ */
+
+import {
+  RiskLevel,
+  type BuiltInScenarioKey,
+  type CostDriver,
+  type CostIndices,
+  type CostScenario,
+  type CurrencyCode,
+  type CustomCostScenario,
+  type CustomScenarioDefinition,
+  type FxRate,
+  type ScenarioAnalysis,
+  type ScenarioKey,
+} from '../../types/cost-estimate';
+import type { PenaltyTerms } from '../../types/penalties';
+import { calculatePenaltyExposure } from '../regulations/penalty-exposure';
+import { formatCurrency } from '../utils/format';
+import { buildScenarioCashFlow, type CashFlowOptions } from './cash-flow';
+import { BASE_CURRENCY, convertAmount } from './currency';
+import {
+  DEFAULT_COST_INDICES,
+  calculateRegionalLaborIndex,
+  isLaborDriver,
+  regionalCostFactor,
+} from './indexation';
+
+// Vendor margin on labor-driven costs when the work is outsourced
+export const VENDOR_MARKUP = 0.2;
+// Rush premium on one-time cost once implementation is delayed
+export const DELAY_RUSH_PREMIUM = 0.25;
+export const MAX_DELAY_MONTHS = 24;
+// Days out of compliance for each started quarter of delay
+const DAYS_PER_QUARTER = 90;
+
+// Share of driver cost left out above which coverage is considered partial
+const PARTIAL_COVERAGE_SHARE = 0.25;
+
+const BUILT_IN_SCENARIO_KEYS: BuiltInScenarioKey[] = [
+  'minimal',
+  'standard',
+  'bestInClass',
+  'delay90Days',
+];
+
+export interface CustomScenarioOptions {
+  indices?: CostIndices;
+  // Jurisdictions of the profile the estimate was computed with
+  operatingJurisdictions?: string[];
+  // Price-level multiplier per year, year 1 = 1 (as for generateScenarios)
+  escalation?: number[];
+  // Cash-flow schedule; omitted for no cash flow
+  cashFlow?: CashFlowOptions;
+  // Penalty terms of the regulation, priced for the delay (default allowance when omitted)
+  penaltyTerms?: PenaltyTerms | null;
+  // Currency of the estimate; penalties (USD) are converted with the FX rates
+  currency?: CurrencyCode;
+  fxRates?: FxRate[];
+}
+
+/**
+ * Scenario key of a custom scenario
+ * @param id - Custom scenario ID
+ * @returns custom:<id>
+ */
+export function customScenarioKey(id: string): `custom:${string}` {
+  return `custom:${id}`;
+}
+
+/**
+ * Whether a value is a built-in scenario key or custom:<id>
+ * @param value - Candidate key
+ * @returns True for a usable scenario key
+ */
+export function isScenarioKey(value: string): value is ScenarioKey {
+  return (
+    (BUILT_IN_SCENARIO_KEYS as string[]).includes(value) ||
+    (value.startsWith('custom:') && value.length > 'custom:'.length)
+  );
+}
+
+function weightedCost(drivers: CostDriver[], regionalLaborIndex: number): number {
+  return drivers.reduce(
+    (sum, driver) => sum + driver.estimatedCost * regionalCostFactor(driver, regionalLaborIndex),
+    0
+  );
+}
+
+/**
+ * Price a custom scenario
+ * Driver changes are applied as a ratio to the estimate's own costs, so an
+ * unchanged scenario equals the standard scenario and keeps its calibration
+ * @param id - Custom scenario ID
+ * @param definition - Scenario definition
+ * @param baseline - Estimate midpoint one-time cost and annual recurring cost
+ * @param drivers - Cost drivers of the estimate
+ * @param options - Indices, escalation, cash-flow options, penalty terms and currency
+ * @returns Priced scenario
+ */
+export function buildCustomScenario(
+  id: string,
+  definition: CustomScenarioDefinition,
+  baseline: { oneTimeCost: number; recurringCostAnnual: number },
+  drivers: CostDriver[],
+  options: CustomScenarioOptions = {}
+): CustomCostScenario {
+  const indices = options.indices ?? DEFAULT_COST_INDICES;
+  const escalation = options.escalation ?? [1, 1, 1];
+  const regionalLaborIndex = calculateRegionalLaborIndex(options.operatingJurisdictions, indices);
+
+  const excluded = new Set(definition.excludedDriverIds);
+  const vendor = definition.sourcing === 'VENDOR';
+  const adjusted = drivers
+    .filter((driver) => !excluded.has(driver.id))
+    .map((driver) => ({
+      ...driver,
+      estimatedCost:
+        (definition.driverCostOverrides[driver.id] ?? driver.estimatedCost) *
+        (vendor && isLaborDriver(driver) ? 1 + VENDOR_MARKUP : 1),
+    }));
+
+  const scale = (isOneTime: boolean, baselineCost: number) => {
+    const original = weightedCost(
+      drivers.filter((driver) => driver.isOneTime === isOneTime),
+      regionalLaborIndex
+    );
+    const changed = weightedCost(
+      adjusted.filter((driver) => driver.isOneTime === isOneTime),
+      regionalLaborIndex
+    );
+    return original > 0 ? baselineCost * (changed / original) : changed;
+  };
+
+  const delayMonths = Math.min(MAX_DELAY_MONTHS, Math.max(0, Math.round(definition.delayMonths)));
+  const delayQuarters = Math.ceil(delayMonths / 3);
+
+  const currency = options.currency ?? BASE_CURRENCY;
+  const penalties =
+    delayQuarters > 0
+      ? Math.round(
+          convertAmount(
+            calculatePenaltyExposure(options.penaltyTerms ?? null, {
+              nonComplianceDays: delayQuarters * DAYS_PER_QUARTER,
+            }).riskWeightedExposure,
+            BASE_CURRENCY,
+            currency,
+            options.fxRates ?? [],
+            options.cashFlow?.startDate ?? new Date()
+          )
+        )
+      : 0;
+
+  let oneTimeCost = scale(true, baseline.oneTimeCost);
+  if (delayQuarters > 0) {
+    oneTimeCost = oneTimeCost * (1 + DELAY_RUSH_PREMIUM) + penalties;
+  }
+  const recurringCostAnnual = scale(false, baseline.recurringCostAnnual);
+  const recurringYears = [0, 1, 2].reduce((sum, year) => sum + (escalation[year] ?? 1), 0);
+
+  const totalCost = weightedCost(drivers, regionalLaborIndex);
+  const excludedCost = weightedCost(
+    drivers.filter((driver) => excluded.has(driver.id)),
+    regionalLaborIndex
+  );
+  const excludedShare = totalCost > 0 ? excludedCost / totalCost : 0;
+
+  let riskLevel = RiskLevel.LOW;
+  if (delayQuarters > 0) {
+    riskLevel = RiskLevel.HIGH;
+  } else if (excludedShare >= PARTIAL_COVERAGE_SHARE) {
+    riskLevel = RiskLevel.MEDIUM;
+  }
+
+  const assumptions: string[] = [];
+  if (excluded.size > 0) {
+    assumptions.push(
+      `${excluded.size} cost driver${excluded.size === 1 ? '' : 's'} left out (${Math.round(
+        excludedShare * 100
+      )}% of estimated cost)`
+    );
+  }
+  const overrides = Object.keys(definition.driverCostOverrides).filter(
+    (driverId) => !excluded.has(driverId)
+  );
+  if (overrides.length > 0) {
+    assumptions.push(`${overrides.length} driver cost${overrides.length === 1 ? '' : 's'} overridden`);
+  }
+  if (delayQuarters > 0) {
+    assumptions.push(
+      `Implementation delayed ${delayMonths} month${delayMonths === 1 ? '' : 's'} (rush fees +${Math.round(
+        DELAY_RUSH_PREMIUM * 100
+      )}%, ~${formatCurrency(penalties, currency)} penalties)`
+    );
+  }
+  assumptions.push(
+    vendor
+      ? `Labor-driven work delivered by a vendor (+${Math.round(VENDOR_MARKUP * 100)}%)`
+      : 'Delivered in-house'
+  );
+
+  const scenario: CostScenario = {
+    name: definition.name,
+    description: definition.description || 'Custom scenario',
+    oneTimeCost: Math.round(oneTimeCost),
+    recurringCostAnnual: Math.round(recurringCostAnnual),
+    threeYearTotal: Math.round(oneTimeCost + recurringCostAnnual * recurringYears),
+    riskLevel,
+    assumptions,
+  };
+
+  return {
+    ...scenario,
+    id,
+    key: customScenarioKey(id),
+    definition,
+    cashFlow: options.cashFlow
+      ? buildScenarioCashFlow(scenario, options.cashFlow, delayQuarters)
+      : undefined,
+  };
+}
+
+/**
+ * Plan the board report should present: the customer's selection if it still
+ * exists, otherwise the automatic recommendation
+ * @param analysis - Scenario analysis
+ * @returns Key and scenario of the plan
+ */
+export function resolveSelectedScenario(analysis: ScenarioAnalysis): {
+  key: ScenarioKey;
+  scenario: CostScenario;
+} {
+  const selected = analysis.selected;
+  if (selected) {
+    if ((BUILT_IN_SCENARIO_KEYS as string[]).includes(selected)) {
+      return { key: selected, scenario: analysis[selected as BuiltInScenarioKey] };
+    }
+    const custom = analysis.custom?.find((scenario) => scenario.key === selected);
+    if (custom) return { key: custom.key, scenario: custom };
+  }
+  return { key: analysis.recommended, scenario: analysis[analysis.recommended] };
+}
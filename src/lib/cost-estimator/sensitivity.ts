@@ -0,0 +1,309 @@
+/**
+ * Sensitivity Analysis
+ * One-at-a-time analysis of a cost estimate: every profile multiplier
+ * (industry, size, jurisdictions, tech maturity, regional pay) and each cost
+ * driver is moved to a low and a high value while everything else stays put.
+ * Results are scaled to the estimate's own figures, so calibration from
+ * learning feedback carries over, and ranked into tornado-chart bars.
+ */
+
+import {
+  INDUSTRY_MULTIPLIERS,
+  TECH_MATURITY_MULTIPLIERS,
+  calculateProfileMultiplier,
+} from './core';
+import {
+  DEFAULT_COST_INDICES,
+  JURISDICTION_OVERHEAD,
+  calculateRegionalLaborIndex,
+  driverCostFactor,
+} from './indexation';
+import {
+  Industry,
+  TechMaturity,
+  type CompanyProfile,
+  type CostDriver,
+  type CostEstimate,
+  type CostIndices,
+  type SensitivityAnalysis,
+  type SensitivityFactorKey,
+  type SensitivityImpact,
+  type TornadoBar,
+} from '../../types/cost-estimate';
+
+// Years of recurring cost in the tornado chart's total (as threeYearTotal)
+export const SENSITIVITY_RECURRING_YEARS = 3;
+// Regional pay moved this far either way
+export const REGIONAL_LABOR_SWING = 0.1;
+// Smallest swing applied to a cost driver, even at full confidence
+export const MIN_DRIVER_SWING = 0.1;
+
+export interface SensitivityOptions {
+  indices?: CostIndices;
+}
+
+const FACTOR_LABELS: Record<SensitivityFactorKey, string> = {
+  sizeMultiplier: 'Company size',
+  industryMultiplier: 'Industry',
+  geoMultiplier: 'Jurisdiction count',
+  techMaturity: 'Tech maturity',
+  regionalLaborIndex: 'Regional pay',
+};
+
+interface CostPoint {
+  oneTime: number;
+  recurring: number;
+}
+
+interface FactorVariant {
+  label: string;
+  value: number;
+  profile: CompanyProfile;
+  regionalLaborIndex: number;
+}
+
+/**
+ * Uncalibrated one-time and recurring cost of a set of drivers
+ */
+function evaluateCost(
+  drivers: CostDriver[],
+  profile: CompanyProfile,
+  regionalLaborIndex: number
+): CostPoint {
+  const multiplier = calculateProfileMultiplier(profile);
+  return drivers.reduce<CostPoint>(
+    (point, driver) => {
+      const cost = driver.estimatedCost * driverCostFactor(driver, regionalLaborIndex, multiplier);
+      return driver.isOneTime
+        ? { ...point, oneTime: point.oneTime + cost }
+        : { ...point, recurring: point.recurring + cost };
+    },
+    { oneTime: 0, recurring: 0 }
+  );
+}
+
+function percentChange(value: number, baseline: number): number {
+  return baseline > 0 ? Math.round((value / baseline - 1) * 100) : 0;
+}
+
+/**
+ * Relative swing of a cost driver: its uncertainty, at least MIN_DRIVER_SWING
+ * @param confidence - Driver confidence (0-1)
+ * @returns Fraction the driver cost is moved down and up
+ */
+export function driverSwing(confidence: number): number {
+  return Math.max(MIN_DRIVER_SWING, 1 - Math.min(1, Math.max(0, confidence)));
+}
+
+/**
+ * Low, current and high values of each profile multiplier
+ */
+function buildFactorVariants(
+  profile: CompanyProfile,
+  regionalLaborIndex: number
+): Record<SensitivityFactorKey, FactorVariant[]> {
+  const variant = (
+    label: string,
+    value: number,
+    changes: Partial<CompanyProfile> = {},
+    laborIndex = regionalLaborIndex
+  ): FactorVariant => ({
+    label,
+    value,
+    profile: { ...profile, ...changes },
+    regionalLaborIndex: laborIndex,
+  });
+
+  const sizes = [0.5, 1, 2].map((factor) => Math.max(1, Math.round(profile.employeeCount * factor)));
+  const jurisdictions = [1, profile.geographicComplexity, profile.geographicComplexity * 2];
+
+  return {
+    sizeMultiplier: sizes.map((employeeCount) =>
+      variant(
+        `${employeeCount.toLocaleString('en-US')} employees`,
+        Math.pow(employeeCount / 100, 0.7),
+        { employeeCount }
+      )
+    ),
+    industryMultiplier: Object.values(Industry).map((industry) =>
+      variant(industry, INDUSTRY_MULTIPLIERS[industry], { industry })
+    ),
+    geoMultiplier: jurisdictions.map((geographicComplexity) =>
+      variant(
+        `${geographicComplexity} jurisdiction${geographicComplexity === 1 ? '' : 's'}`,
+        1 + (geographicComplexity - 1) * JURISDICTION_OVERHEAD,
+        { geographicComplexity }
+      )
+    ),
+    techMaturity: [TechMaturity.LOW, TechMaturity.MEDIUM, TechMaturity.HIGH].map((techMaturity) =>
+      variant(techMaturity, TECH_MATURITY_MULTIPLIERS[techMaturity], { techMaturity })
+    ),
+    regionalLaborIndex: [-REGIONAL_LABOR_SWING, 0, REGIONAL_LABOR_SWING].map((swing) =>
+      variant(
+        swing === 0 ? 'Current pay' : `${swing > 0 ? '+' : '-'}${Math.round(Math.abs(swing) * 100)}% pay`,
+        regionalLaborIndex * (1 + swing),
+        {},
+        regionalLaborIndex * (1 + swing)
+      )
+    ),
+  };
+}
+
+function recommendationFor(
+  factor: SensitivityFactorKey,
+  profile: CompanyProfile,
+  regionalLaborIndex: number
+): string | undefined {
+  switch (factor) {
+    case 'sizeMultiplier':
+      return profile.employeeCount > 500 ? 'Consider economies of scale at this size' : undefined;
+    case 'industryMultiplier':
+      return INDUSTRY_MULTIPLIERS[profile.industry] > 1.2
+        ? 'Sector-specific requirements add overhead; reuse existing regulated-industry controls'
+        : undefined;
+    case 'geoMultiplier':
+      return profile.geographicComplexity > 10 ? 'Multi-state complexity is driving costs' : undefined;
+    case 'techMaturity':
+      return profile.techMaturity === TechMaturity.LOW
+        ? 'Investing in tech infrastructure could reduce long-term costs'
+        : undefined;
+    case 'regionalLaborIndex':
+      return regionalLaborIndex > 1.1
+        ? 'High regional pay: consider vendor or lower-cost-region delivery for labor-driven work'
+        : undefined;
+  }
+}
+
+/**
+ * One-at-a-time sensitivity of an estimate to its profile multipliers and
+ * cost drivers, with tornado-chart bars sorted by swing
+ * @param estimate - Cost estimate (its range and recurring cost are the baseline)
+ * @param profile - Company profile the estimate was computed with
+ * @param drivers - Cost drivers of the estimate
+ * @param options - Cost indices for regional pay
+ * @returns Factor impacts and tornado bars
+ */
+export function calculateSensitivityAnalysis(
+  estimate: Pick<CostEstimate, 'oneTimeCostLow' | 'oneTimeCostHigh' | 'recurringCostAnnual'>,
+  profile: CompanyProfile,
+  drivers: CostDriver[],
+  options: SensitivityOptions = {}
+): SensitivityAnalysis {
+  const indices = options.indices ?? DEFAULT_COST_INDICES;
+  const regionalLaborIndex = calculateRegionalLaborIndex(profile.operatingJurisdictions, indices);
+
+  const baselineOneTime = (estimate.oneTimeCostLow + estimate.oneTimeCostHigh) / 2;
+  const baselineRecurring = estimate.recurringCostAnnual;
+  const baselineThreeYear = baselineOneTime + baselineRecurring * SENSITIVITY_RECURRING_YEARS;
+  // Relative half-width of the estimate range, kept for every variant
+  const rangeSpread =
+    baselineOneTime > 0 ? (estimate.oneTimeCostHigh - estimate.oneTimeCostLow) / 2 / baselineOneTime : 0;
+
+  const baseMultiplier = calculateProfileMultiplier(profile);
+  const model = evaluateCost(drivers, profile, regionalLaborIndex);
+
+  // A variant moves the estimate by the ratio it moves the driver model; without
+  // drivers of a kind only the profile multiplier can be compared
+  const evaluateVariant = (variant: FactorVariant): CostPoint => {
+    const point = evaluateCost(drivers, variant.profile, variant.regionalLaborIndex);
+    const multiplierRatio = calculateProfileMultiplier(variant.profile) / baseMultiplier;
+    return {
+      oneTime: baselineOneTime * (model.oneTime > 0 ? point.oneTime / model.oneTime : multiplierRatio),
+      recurring:
+        baselineRecurring * (model.recurring > 0 ? point.recurring / model.recurring : multiplierRatio),
+    };
+  };
+
+  const variantsByFactor = buildFactorVariants(profile, regionalLaborIndex);
+  const currentValues: Record<SensitivityFactorKey, number> = {
+    sizeMultiplier: Math.pow(profile.employeeCount / 100, 0.7),
+    industryMultiplier: INDUSTRY_MULTIPLIERS[profile.industry],
+    geoMultiplier: 1 + (profile.geographicComplexity - 1) * JURISDICTION_OVERHEAD,
+    techMaturity: TECH_MATURITY_MULTIPLIERS[profile.techMaturity],
+    regionalLaborIndex,
+  };
+
+  const tornado: TornadoBar[] = [];
+
+  const factors = (Object.keys(variantsByFactor) as SensitivityFactorKey[]).map((factor) => {
+    const variants = variantsByFactor[factor].map((variant) => ({
+      variant,
+      cost: evaluateVariant(variant),
+    }));
+
+    const impactOnOneTime: SensitivityImpact[] = variants.map(({ variant, cost }) => ({
+      label: variant.label,
+      value: variant.value,
+      low: Math.round(cost.oneTime * (1 - rangeSpread)),
+      high: Math.round(cost.oneTime * (1 + rangeSpread)),
+      percentChange: percentChange(cost.oneTime, baselineOneTime),
+    }));
+    const impactOnRecurring: SensitivityImpact[] = variants.map(({ variant, cost }) => ({
+      label: variant.label,
+      value: variant.value,
+      low: Math.round(cost.recurring),
+      high: Math.round(cost.recurring),
+      percentChange: percentChange(cost.recurring, baselineRecurring),
+    }));
+
+    const totals = variants.map(({ variant, cost }) => ({
+      label: variant.label,
+      total: cost.oneTime + cost.recurring * SENSITIVITY_RECURRING_YEARS,
+    }));
+    const lowest = totals.reduce((min, entry) => (entry.total < min.total ? entry : min));
+    const highest = totals.reduce((max, entry) => (entry.total > max.total ? entry : max));
+    tornado.push({
+      key: factor,
+      label: FACTOR_LABELS[factor],
+      kind: 'MULTIPLIER',
+      lowLabel: lowest.label,
+      highLabel: highest.label,
+      lowTotal: Math.round(lowest.total),
+      highTotal: Math.round(highest.total),
+      swing: Math.round(highest.total - lowest.total),
+    });
+
+    return {
+      factor,
+      currentValue: currentValues[factor],
+      impactOnOneTime,
+      impactOnRecurring,
+      recommendation: recommendationFor(factor, profile, regionalLaborIndex),
+    };
+  });
+
+  // Each driver's share of the baseline, moved by its own uncertainty
+  for (const driver of drivers) {
+    const modelCost = driver.estimatedCost * driverCostFactor(driver, regionalLaborIndex, baseMultiplier);
+    const contribution = driver.isOneTime
+      ? model.oneTime > 0
+        ? (modelCost / model.oneTime) * baselineOneTime
+        : 0
+      : model.recurring > 0
+        ? (modelCost / model.recurring) * baselineRecurring * SENSITIVITY_RECURRING_YEARS
+        : 0;
+    const swing = driverSwing(driver.confidence);
+    const percent = Math.round(swing * 100);
+
+    tornado.push({
+      key: `driver:${driver.id}`,
+      label: driver.description,
+      kind: 'COST_DRIVER',
+      lowLabel: `-${percent}%`,
+      highLabel: `+${percent}%`,
+      lowTotal: Math.round(baselineThreeYear - contribution * swing),
+      highTotal: Math.round(baselineThreeYear + contribution * swing),
+      swing: Math.round(contribution * swing * 2),
+    });
+  }
+
+  tornado.sort((a, b) => b.swing - a.swing);
+
+  return {
+    baselineOneTime: Math.round(baselineOneTime),
+    baselineRecurring: Math.round(baselineRecurring),
+    baselineThreeYear: Math.round(baselineThreeYear),
+    factors,
+    tornado,
+  };
+}
@@ -0,0 +1,282 @@
+/**
+ * Monte Carlo Cost Simulation
+ * Treats each cost driver as a distribution instead of a point estimate and
+ * simulates total one-time and recurring cost. Drivers that cite evidence costs
+ * get a triangular distribution spanning those figures; the rest get a
+ * lognormal whose spread widens as driver confidence drops.
+ */
+
+import { calculateProfileMultiplier } from './core';
+import {
+  DEFAULT_COST_INDICES,
+  calculateRegionalLaborIndex,
+  driverCostFactor,
+} from './indexation';
+import { toCurrencyCode } from './currency';
+import {
+  Department,
+  type CompanyProfile,
+  type CostCategory,
+  type CostDriver,
+  type CostDriverDistribution,
+  type CostIndices,
+  type EvidenceSource,
+  type MonteCarloResult,
+  type SimulationHistogramBin,
+  type SimulationPercentiles,
+} from '../../types/cost-estimate';
+
+export const DEFAULT_SIMULATION_ITERATIONS = 5000;
+export const MAX_SIMULATION_ITERATIONS = 50000;
+const MIN_SIMULATION_ITERATIONS = 100;
+const DEFAULT_HISTOGRAM_BINS = 20;
+
+// Fixed default seed so the same estimate always renders the same chart
+const DEFAULT_SEED = 20240101;
+
+// z-score for the 5th/95th percentile, used to report lognormal bounds
+const Z_95 = 1.645;
+
+export interface MonteCarloOptions {
+  iterations?: number;
+  seed?: number;
+  bins?: number;
+  indices?: CostIndices;
+}
+
+/**
+ * Rebuild cost drivers from a stored CostEstimate.costDriversJson
+ * Estimates stored before evidence was persisted simulate as lognormal
+ * @param costDriversJson - Stored { drivers: [...] } payload
+ * @returns Cost drivers
+ */
+export function parseStoredCostDrivers(costDriversJson: unknown): CostDriver[] {
+  const drivers = (costDriversJson as { drivers?: unknown[] } | null)?.drivers;
+  if (!Array.isArray(drivers)) return [];
+
+  return (drivers as Array<Record<string, unknown>>).map((driver, index) => ({
+    id: (driver.id as string) || `driver-${index + 1}`,
+    category: driver.category as CostCategory,
+    description: String(driver.description ?? ''),
+    isOneTime: Boolean(driver.isOneTime),
+    estimatedCost: Number(driver.estimatedCost ?? 0),
+    confidence: Number(driver.confidence ?? 0.7),
+    department: (driver.department as Department) || Department.IT,
+    evidence: Array.isArray(driver.evidence)
+      ? (driver.evidence as EvidenceSource[])
+      : undefined,
+    ...(driver.currency !== undefined ? { currency: toCurrencyCode(driver.currency) } : {}),
+    ...(typeof driver.quoteId === 'string' ? { quoteId: driver.quoteId } : {}),
+  }));
+}
+
+/**
+ * Relative spread for a driver: 10% at full confidence, 70% at zero
+ * @param confidence - Driver confidence (0-1)
+ * @returns Relative spread around the point estimate
+ */
+export function confidenceSpread(confidence: number): number {
+  const clamped = Math.min(1, Math.max(0, confidence));
+  return 0.1 + (1 - clamped) * 0.6;
+}
+
+/**
+ * Build the distribution for one driver
+ * Overruns are more common than savings, so the upper bound is wider
+ * @param driver - Cost driver (unscaled)
+ * @param multiplier - Company profile multiplier
+ * @returns Distribution parameters in scaled dollars
+ */
+export function buildDriverDistribution(
+  driver: CostDriver,
+  multiplier: number
+): CostDriverDistribution {
+  const mode = driver.estimatedCost * multiplier;
+  const spread = confidenceSpread(driver.confidence);
+  const evidenceCosts = (driver.evidence ?? [])
+    .map((evidence) => evidence.estimatedCost)
+    .filter((cost): cost is number => typeof cost === 'number' && cost > 0)
+    .map((cost) => cost * multiplier);
+
+  const base = {
+    driverId: driver.id,
+    description: driver.description,
+    isOneTime: driver.isOneTime,
+    mode,
+  };
+
+  if (evidenceCosts.length > 0) {
+    return {
+      ...base,
+      type: 'TRIANGULAR',
+      min: Math.min(mode * (1 - spread), ...evidenceCosts),
+      max: Math.max(mode * (1 + spread * 1.5), ...evidenceCosts),
+    };
+  }
+
+  const sigma = Math.log(1 + spread);
+  return {
+    ...base,
+    type: 'LOGNORMAL',
+    min: mode * Math.exp(-Z_95 * sigma),
+    max: mode * Math.exp(Z_95 * sigma),
+    sigma,
+  };
+}
+
+/**
+ * Small seeded PRNG (mulberry32) so simulations are reproducible
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function sampleStandardNormal(random: () => number): number {
+  // Box-Muller; 1 - random() keeps u1 in (0, 1]
+  const u1 = 1 - random();
+  const u2 = random();
+  return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+}
+
+/**
+ * Draw one value from a driver distribution
+ * @param distribution - Driver distribution
+ * @param random - Uniform [0, 1) generator
+ * @returns Sampled cost
+ */
+export function sampleDistribution(
+  distribution: CostDriverDistribution,
+  random: () => number
+): number {
+  const { type, min, mode, max } = distribution;
+  if (mode <= 0) return 0;
+
+  if (type === 'LOGNORMAL') {
+    return mode * Math.exp((distribution.sigma ?? 0) * sampleStandardNormal(random));
+  }
+
+  if (max <= min) return mode;
+  const u = random();
+  const split = (mode - min) / (max - min);
+  return u < split
+    ? min + Math.sqrt(u * (max - min) * (mode - min))
+    : max - Math.sqrt((1 - u) * (max - min) * (max - mode));
+}
+
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const index = (sorted.length - 1) * p;
+  const lower = Math.floor(index);
+  const upper = Math.ceil(index);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower);
+}
+
+function summarize(sorted: number[]): SimulationPercentiles {
+  const mean = sorted.length
+    ? sorted.reduce((sum, value) => sum + value, 0) / sorted.length
+    : 0;
+  return {
+    p10: Math.round(percentile(sorted, 0.1)),
+    p50: Math.round(percentile(sorted, 0.5)),
+    p90: Math.round(percentile(sorted, 0.9)),
+    mean: Math.round(mean),
+  };
+}
+
+/**
+ * Bucket sorted samples into equal-width bins
+ * @param sorted - Samples in ascending order
+ * @param bins - Number of bins
+ * @returns Histogram bins
+ */
+export function buildHistogram(sorted: number[], bins: number): SimulationHistogramBin[] {
+  if (sorted.length === 0) return [];
+
+  const min = sorted[0];
+  const max = sorted[sorted.length - 1];
+  if (max === min) {
+    return [{ start: Math.round(min), end: Math.round(max), count: sorted.length }];
+  }
+
+  const width = (max - min) / bins;
+  const histogram = Array.from({ length: bins }, (_, index) => ({
+    start: Math.round(min + index * width),
+    end: Math.round(min + (index + 1) * width),
+    count: 0,
+  }));
+
+  for (const value of sorted) {
+    const index = Math.min(bins - 1, Math.floor((value - min) / width));
+    histogram[index].count++;
+  }
+
+  return histogram;
+}
+
+/**
+ * Simulate total one-time and recurring cost
+ * @param drivers - Cost drivers (unscaled, as extracted)
+ * @param profile - Company profile used for scaling
+ * @param options - Iterations, seed, histogram bins and cost indices
+ * @returns P10/P50/P90, histograms and the driver distributions used
+ */
+export function runMonteCarloSimulation(
+  drivers: CostDriver[],
+  profile: CompanyProfile,
+  options: MonteCarloOptions = {}
+): MonteCarloResult {
+  const iterations = Math.min(
+    MAX_SIMULATION_ITERATIONS,
+    Math.max(MIN_SIMULATION_ITERATIONS, Math.round(options.iterations ?? DEFAULT_SIMULATION_ITERATIONS))
+  );
+  const seed = options.seed ?? DEFAULT_SEED;
+  const bins = options.bins ?? DEFAULT_HISTOGRAM_BINS;
+
+  const multiplier = calculateProfileMultiplier(profile);
+  const regionalLaborIndex = calculateRegionalLaborIndex(
+    profile.operatingJurisdictions,
+    options.indices ?? DEFAULT_COST_INDICES
+  );
+  const distributions = drivers.map((driver) =>
+    buildDriverDistribution(driver, driverCostFactor(driver, regionalLaborIndex, multiplier))
+  );
+  const random = createRandom(seed);
+
+  const oneTimeTotals = new Array<number>(iterations);
+  const recurringTotals = new Array<number>(iterations);
+
+  for (let i = 0; i < iterations; i++) {
+    let oneTime = 0;
+    let recurring = 0;
+    for (const distribution of distributions) {
+      const sample = sampleDistribution(distribution, random);
+      if (distribution.isOneTime) {
+        oneTime += sample;
+      } else {
+        recurring += sample;
+      }
+    }
+    oneTimeTotals[i] = oneTime;
+    recurringTotals[i] = recurring;
+  }
+
+  oneTimeTotals.sort((a, b) => a - b);
+  recurringTotals.sort((a, b) => a - b);
+
+  return {
+    iterations,
+    seed,
+    oneTime: summarize(oneTimeTotals),
+    recurring: summarize(recurringTotals),
+    oneTimeHistogram: buildHistogram(oneTimeTotals, bins),
+    recurringHistogram: buildHistogram(recurringTotals, bins),
+    distributions,
+  };
+}
@@ -0,0 +1,192 @@
+/**
+ * Vendor Quote Store
+ * Vendor quotes entered against a customer's cost drivers for a regulation.
+ * At most one quote per driver is selected. Pricing lives in vendor-quotes.ts.
+ */
+
+import prisma from '@/lib/prisma';
+import type {
+  CostCategory,
+  VendorQuote,
+  VendorQuoteAttachment,
+} from '../../types/cost-estimate';
+import { toCurrencyCode } from './currency';
+
+export interface VendorQuoteInput {
+  driverCategory: CostCategory;
+  driverDescription: string;
+  vendor: string;
+  amount: number;
+  currency: string;
+  validUntil: Date;
+  scope?: string | null;
+  attachments?: VendorQuoteAttachment[];
+  selected?: boolean;
+}
+
+type VendorQuoteChanges = Partial<
+  Omit<VendorQuoteInput, 'driverCategory' | 'driverDescription'>
+>;
+
+/**
+ * Map a stored quote row to the domain record
+ */
+function toRecord(row: {
+  id: string;
+  regulationId: string;
+  driverCategory: string;
+  driverDescription: string;
+  vendor: string;
+  amount: number;
+  currency: string;
+  validUntil: Date;
+  scope: string | null;
+  attachments: unknown;
+  selected: boolean;
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}): VendorQuote {
+  const attachments = Array.isArray(row.attachments)
+    ? (row.attachments as Array<Record<string, unknown>>)
+    : [];
+  return {
+    ...row,
+    driverCategory: row.driverCategory as CostCategory,
+    currency: toCurrencyCode(row.currency),
+    attachments: attachments
+      .filter((attachment) => typeof attachment.url === 'string')
+      .map((attachment) => ({
+        name: String(attachment.name ?? attachment.url),
+        url: String(attachment.url),
+      })),
+  };
+}
+
+/**
+ * A quote is valid through the whole of its last day
+ */
+function endOfDay(date: Date): Date {
+  const end = new Date(date);
+  end.setUTCHours(23, 59, 59, 999);
+  return end;
+}
+
+/**
+ * Normalize quote fields before they are stored
+ */
+function toData(changes: VendorQuoteChanges) {
+  return {
+    ...(changes.vendor !== undefined ? { vendor: changes.vendor.trim() } : {}),
+    ...(changes.amount !== undefined ? { amount: changes.amount } : {}),
+    ...(changes.currency !== undefined ? { currency: toCurrencyCode(changes.currency) } : {}),
+    ...(changes.validUntil !== undefined ? { validUntil: endOfDay(changes.validUntil) } : {}),
+    ...(changes.scope !== undefined ? { scope: changes.scope?.trim() || null } : {}),
+    ...(changes.attachments !== undefined
+      ? {
+          attachments: changes.attachments.map((attachment) => ({
+            name: attachment.name.trim(),
+            url: attachment.url.trim(),
+          })),
+        }
+      : {}),
+    ...(changes.selected !== undefined ? { selected: changes.selected } : {}),
+  };
+}
+
+/**
+ * Quotes a customer holds for a regulation, newest first
+ * @param customerId - Customer ID
+ * @param regulationId - Regulation ID
+ * @returns Stored quotes
+ */
+export async function listVendorQuotes(
+  customerId: string,
+  regulationId: string
+): Promise<VendorQuote[]> {
+  const rows = await prisma.vendorQuote.findMany({
+    where: { customerId, regulationId },
+    orderBy: { createdAt: 'desc' },
+  });
+  return rows.map(toRecord);
+}
+
+/**
+ * Save a new quote; selecting it deselects the driver's other quotes
+ * @param customerId - Customer ID
+ * @param regulationId - Regulation ID
+ * @param input - Quote fields and the driver it prices
+ * @param createdBy - Creator email
+ * @returns Stored quote
+ */
+export async function createVendorQuote(
+  customerId: string,
+  regulationId: string,
+  input: VendorQuoteInput,
+  createdBy: string
+): Promise<VendorQuote> {
+  const row = await prisma.$transaction(async (tx) => {
+    if (input.selected) {
+      await tx.vendorQuote.updateMany({
+        where: {
+          customerId,
+          regulationId,
+          driverCategory: input.driverCategory,
+          driverDescription: input.driverDescription,
+        },
+        data: { selected: false },
+      });
+    }
+    return tx.vendorQuote.create({
+      data: {
+        ...toData(input),
+        vendor: input.vendor.trim(),
+        amount: input.amount,
+        validUntil: endOfDay(input.validUntil),
+        customerId,
+        regulationId,
+        driverCategory: input.driverCategory,
+        driverDescription: input.driverDescription,
+        createdBy,
+      },
+    });
+  });
+  return toRecord(row);
+}
+
+/**
+ * Update a quote; selecting it deselects the driver's other quotes
+ * @param id - Vendor quote ID
+ * @param changes - Fields to change (the driver cannot change)
+ * @returns Updated quote
+ */
+export async function updateVendorQuote(
+  id: string,
+  changes: VendorQuoteChanges
+): Promise<VendorQuote> {
+  const row = await prisma.$transaction(async (tx) => {
+    if (changes.selected) {
+      const quote = await tx.vendorQuote.findUniqueOrThrow({ where: { id } });
+      await tx.vendorQuote.updateMany({
+        where: {
+          customerId: quote.customerId,
+          regulationId: quote.regulationId,
+          driverCategory: quote.driverCategory,
+          driverDescription: quote.driverDescription,
+          id: { not: id },
+        },
+        data: { selected: false },
+      });
+    }
+    return tx.vendorQuote.update({ where: { id }, data: toData(changes) });
+  });
+  return toRecord(row);
+}
+
+/**
+ * Delete a quote; the driver falls back to its estimated cost on re-estimate
+ * @param id - Vendor quote ID
+ */
+export async function deleteVendorQuote(id: string): Promise<void> {
+  await prisma.vendorQuote.delete({ where: { id } });
+}
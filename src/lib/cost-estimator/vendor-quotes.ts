@@ -0,0 +1,135 @@
+/**
+ * Vendor Quotes
+ * A selected, unexpired vendor quote replaces its cost driver's estimated
+ * cost with the quoted amount. Quoted drivers are firm prices: they carry the
+ * quote ID, high confidence and VENDOR_QUOTE evidence, and are not scaled by
+ * the company profile or regional labor costs. Pure functions; quotes are
+ * stored by vendor-quote-store.ts.
+ */
+
+import type { CostDriver, FxRate, VendorQuote } from '../../types/cost-estimate';
+import { BASE_CURRENCY, convertAmount } from './currency';
+
+// Confidence of a driver priced by a vendor quote
+export const QUOTE_CONFIDENCE = 0.95;
+
+type QuoteState = Pick<VendorQuote, 'selected' | 'validUntil'>;
+
+/**
+ * Key matching a quote to a driver across revisions (driver IDs are positional)
+ * @param driver - Driver category and description
+ * @returns category:description, description trimmed and lowercased
+ */
+export function quoteDriverKey(driver: { category: string; description: string }): string {
+  return `${driver.category}:${driver.description.trim().toLowerCase()}`;
+}
+
+/**
+ * Whether a quote's validity has ended
+ * @param quote - Vendor quote
+ * @param asOf - Date to check
+ * @returns True once validUntil has passed
+ */
+export function isQuoteExpired(quote: Pick<VendorQuote, 'validUntil'>, asOf: Date): boolean {
+  return quote.validUntil.getTime() < asOf.getTime();
+}
+
+/**
+ * Whether a quote currently prices its driver
+ * @param quote - Vendor quote
+ * @param asOf - Date to check
+ * @returns True for a selected, unexpired quote
+ */
+export function isQuoteApplicable(quote: QuoteState, asOf: Date): boolean {
+  return quote.selected && !isQuoteExpired(quote, asOf);
+}
+
+/**
+ * Quotes that price a driver on a date, one per driver (latest update wins)
+ * @param quotes - Quotes of one customer and regulation
+ * @param asOf - Date of the estimate
+ * @returns Applicable quotes by driver key
+ */
+export function applicableQuotesByDriver<
+  T extends Pick<VendorQuote, 'driverCategory' | 'driverDescription' | 'updatedAt'> & QuoteState,
+>(quotes: T[], asOf: Date): Map<string, T> {
+  const byDriver = new Map<string, T>();
+  for (const quote of quotes) {
+    if (!isQuoteApplicable(quote, asOf)) continue;
+    const key = quoteDriverKey({
+      category: quote.driverCategory,
+      description: quote.driverDescription,
+    });
+    const current = byDriver.get(key);
+    if (!current || quote.updatedAt.getTime() > current.updatedAt.getTime()) {
+      byDriver.set(key, quote);
+    }
+  }
+  return byDriver;
+}
+
+/**
+ * Fingerprint of the quotes that would price an estimate made now; recorded
+ * with the estimate inputs so selecting, editing or expiring a quote makes
+ * the estimate stale
+ * @param quotes - Quotes of one customer and regulation
+ * @param asOf - Date of the estimate
+ * @returns Fingerprint, or an empty string when no quote applies
+ */
+export function vendorQuoteVersion(
+  quotes: Array<Pick<VendorQuote, 'id' | 'driverCategory' | 'driverDescription' | 'updatedAt'> & QuoteState>,
+  asOf: Date
+): string {
+  return [...applicableQuotesByDriver(quotes, asOf).values()]
+    .map((quote) => `${quote.id}@${quote.updatedAt.getTime()}`)
+    .sort()
+    .join(',');
+}
+
+/**
+ * Price drivers with their selected, unexpired vendor quotes
+ * @param drivers - Drivers from the extractor (in USD)
+ * @param quotes - Quotes of the customer for the regulation
+ * @param rates - FX rate table, for quotes in other currencies
+ * @param asOf - Date of the estimate
+ * @returns Drivers; quoted ones carry the quoted amount in USD
+ * @throws MissingFxRateError when a quote's currency has no stored rate
+ */
+export function applyVendorQuotes(
+  drivers: CostDriver[],
+  quotes: VendorQuote[],
+  rates: FxRate[],
+  asOf: Date
+): CostDriver[] {
+  const byDriver = applicableQuotesByDriver(quotes, asOf);
+  if (byDriver.size === 0) return drivers;
+
+  return drivers.map((driver) => {
+    const quote = byDriver.get(quoteDriverKey(driver));
+    if (!quote) return driver;
+
+    const amount = Math.round(
+      convertAmount(quote.amount, quote.currency, BASE_CURRENCY, rates, asOf)
+    );
+    return {
+      ...driver,
+      estimatedCost: amount,
+      confidence: QUOTE_CONFIDENCE,
+      quoteId: quote.id,
+      // The quote supersedes the benchmark figures; keep them as citations only
+      evidence: [
+        {
+          type: 'VENDOR_QUOTE' as const,
+          reference: `${quote.vendor}, valid until ${quote.validUntil.toISOString().slice(0, 10)}`,
+          confidence: QUOTE_CONFIDENCE,
+          estimatedCost: amount,
+        },
+        ...(driver.evidence ?? []).map(({ type, reference, confidence }) => ({
+          type,
+          reference,
+          confidence,
+        })),
+      ],
+    };
+  });
+}
@@ -0,0 +1,202 @@
+/**
+ * Company Profile Service
+ * Versioned customer profile used as the default input to cost estimation
+ * Saving never edits a version in place; each change creates the next version
+ */
+
+import prisma from '@/lib/prisma';
+import { normalizeIndustry } from '@/lib/regulations/applicability';
+import {
+  Industry,
+  RiskLevel,
+  TechMaturity,
+  type CompanyProfile,
+} from '@/types/cost-estimate';
+import type {
+  CompanyProfileInput,
+  CompanyProfileVersionRecord,
+  ResolvedCompanyProfile,
+} from '@/types/company-profile';
+
+/**
+ * Geographic complexity is the number of distinct operating jurisdictions (min 1)
+ * @param operatingJurisdictions - Jurisdiction codes
+ * @returns Complexity used by calculateImplementationCost
+ */
+export function deriveGeographicComplexity(operatingJurisdictions: string[]): number {
+  const distinct = new Set(
+    operatingJurisdictions.map((code) => code.trim().toUpperCase()).filter(Boolean)
+  );
+  return Math.max(1, distinct.size);
+}
+
+function toEnum<T extends string>(values: Record<string, T>, value: string, fallback: T): T {
+  return (Object.values(values) as string[]).includes(value) ? (value as T) : fallback;
+}
+
+/**
+ * Map a stored profile row to the domain record
+ */
+function toRecord(row: {
+  id: string;
+  version: number;
+  industry: string;
+  employeeCount: number;
+  revenue: number | null;
+  techMaturity: string;
+  riskAppetite: string;
+  operatingJurisdictions: string[];
+  geographicComplexity: number;
+  createdBy: string;
+  createdAt: Date;
+}): CompanyProfileVersionRecord {
+  return {
+    ...row,
+    industry: toEnum(Industry, row.industry, Industry.OTHER),
+    techMaturity: toEnum(TechMaturity, row.techMaturity, TechMaturity.MEDIUM),
+    riskAppetite: toEnum(RiskLevel, row.riskAppetite, RiskLevel.LOW),
+  };
+}
+
+/**
+ * Latest saved profile version for a customer
+ * @param customerId - Customer ID
+ * @returns Profile version, or null if none has been saved
+ */
+export async function getCurrentCompanyProfile(
+  customerId: string
+): Promise<CompanyProfileVersionRecord | null> {
+  const row = await prisma.companyProfileVersion.findFirst({
+    where: { customerId },
+    orderBy: { version: 'desc' },
+  });
+  return row ? toRecord(row) : null;
+}
+
+/**
+ * All saved profile versions, newest first
+ * @param customerId - Customer ID
+ * @returns Profile history
+ */
+export async function listCompanyProfileVersions(
+  customerId: string
+): Promise<CompanyProfileVersionRecord[]> {
+  const rows = await prisma.companyProfileVersion.findMany({
+    where: { customerId },
+    orderBy: { version: 'desc' },
+  });
+  return rows.map(toRecord);
+}
+
+/**
+ * Resolve the profile an estimate should use
+ * Saved profile first, then the Customer row; request overrides win field by field
+ * @param customerId - Customer ID
+ * @param overrides - Per-request overrides
+ * @returns Effective profile and the version it came from
+ */
+export async function resolveCompanyProfile(
+  customerId: string,
+  overrides: Partial<CompanyProfile> = {}
+): Promise<ResolvedCompanyProfile> {
+  const stored = await getCurrentCompanyProfile(customerId);
+
+  let base: CompanyProfile;
+  if (stored) {
+    base = {
+      industry: stored.industry,
+      employeeCount: stored.employeeCount,
+      revenue: stored.revenue ?? undefined,
+      geographicComplexity: stored.geographicComplexity,
+      operatingJurisdictions: stored.operatingJurisdictions,
+      techMaturity: stored.techMaturity,
+      riskAppetite: stored.riskAppetite,
+    };
+  } else {
+    const customer = await prisma.customer.findUnique({
+      where: { id: customerId },
+      select: { industry: true, employeeCount: true, operatingJurisdictions: true },
+    });
+    base = {
+      industry: customer ? normalizeIndustry(customer.industry) : Industry.OTHER,
+      employeeCount: customer?.employeeCount ?? 100,
+      geographicComplexity: deriveGeographicComplexity(customer?.operatingJurisdictions ?? []),
+      operatingJurisdictions: customer?.operatingJurisdictions ?? [],
+      techMaturity: TechMaturity.MEDIUM,
+      riskAppetite: RiskLevel.LOW,
+    };
+  }
+
+  const definedOverrides = Object.fromEntries(
+    Object.entries(overrides).filter(([, value]) => value !== undefined)
+  ) as Partial<CompanyProfile>;
+  // Complexity follows the jurisdictions unless it is overridden too
+  if (definedOverrides.operatingJurisdictions && definedOverrides.geographicComplexity === undefined) {
+    definedOverrides.geographicComplexity = deriveGeographicComplexity(
+      definedOverrides.operatingJurisdictions
+    );
+  }
+
+  return {
+    profile: { ...base, ...definedOverrides },
+    profileVersionId: stored?.id ?? null,
+    profileVersion: stored?.version ?? null,
+  };
+}
+
+/**
+ * Save a new profile version and mirror the shared fields onto Customer
+ * (industry, employeeCount and operatingJurisdictions feed applicability)
+ * @param customerId - Customer ID
+ * @param input - Profile fields
+ * @param createdBy - Editor email
+ * @returns The new version
+ */
+export async function saveCompanyProfile(
+  customerId: string,
+  input: CompanyProfileInput,
+  createdBy: string
+): Promise<CompanyProfileVersionRecord> {
+  const operatingJurisdictions = [
+    ...new Set(input.operatingJurisdictions.map((code) => code.trim().toUpperCase()).filter(Boolean)),
+  ].sort();
+
+  const row = await prisma.$transaction(async (tx) => {
+    const latest = await tx.companyProfileVersion.findFirst({
+      where: { customerId },
+      orderBy: { version: 'desc' },
+      select: { version: true },
+    });
+
+    const created = await tx.companyProfileVersion.create({
+      data: {
+        customerId,
+        version: (latest?.version ?? 0) + 1,
+        industry: input.industry,
+        employeeCount: input.employeeCount,
+        revenue: input.revenue ?? null,
+        techMaturity: input.techMaturity,
+        riskAppetite: input.riskAppetite,
+        operatingJurisdictions,
+        geographicComplexity: deriveGeographicComplexity(operatingJurisdictions),
+        createdBy,
+      },
+    });
+
+    await tx.customer.update({
+      where: { id: customerId },
+      data: {
+        industry: input.industry,
+        employeeCount: input.employeeCount,
+        operatingJurisdictions,
+      },
+    });
+
+    return created;
+  });
+
+  console.log(
+    `[CompanyProfile] Saved v${row.version} for customer ${customerId}`
+  );
+  return toRecord(row);
+}
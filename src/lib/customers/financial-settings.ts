@@ -0,0 +1,88 @@
+/**
+ * Financial Settings Service
+ * Customer-level discount rate and horizon used for scenario cash flows and NPV,
+ * the fiscal calendar analytics and reports are bucketed by, and the currency
+ * they are reported in
+ */
+
+import prisma from '@/lib/prisma';
+import {
+  DEFAULT_DISCOUNT_RATE,
+  DEFAULT_SCENARIO_HORIZON_YEARS,
+  clampHorizonYears,
+} from '@/lib/cost-estimator/cash-flow';
+import { BASE_CURRENCY, toCurrencyCode } from '@/lib/cost-estimator/currency';
+import { DEFAULT_FISCAL_CALENDAR, toFiscalCalendar } from '@/lib/utils/fiscal-calendar';
+import type { FinancialSettings, FiscalCalendar } from '@/types/cost-estimate';
+
+const financialSettingsSelect = {
+  discountRate: true,
+  scenarioHorizonYears: true,
+  fiscalYearStartMonth: true,
+  fiscalPeriodPattern: true,
+  reportingCurrency: true,
+} as const;
+
+/**
+ * Financial settings of a customer
+ * @param customerId - Customer ID
+ * @returns Stored settings, or the defaults if the customer does not exist
+ */
+export async function getFinancialSettings(customerId: string): Promise<FinancialSettings> {
+  const customer = await prisma.customer.findUnique({
+    where: { id: customerId },
+    select: financialSettingsSelect,
+  });
+
+  return {
+    discountRate: customer?.discountRate ?? DEFAULT_DISCOUNT_RATE,
+    scenarioHorizonYears: clampHorizonYears(
+      customer?.scenarioHorizonYears ?? DEFAULT_SCENARIO_HORIZON_YEARS
+    ),
+    fiscalCalendar: toFiscalCalendar(
+      customer?.fiscalYearStartMonth ?? DEFAULT_FISCAL_CALENDAR.startMonth,
+      customer?.fiscalPeriodPattern ?? DEFAULT_FISCAL_CALENDAR.pattern
+    ),
+    reportingCurrency: toCurrencyCode(customer?.reportingCurrency ?? BASE_CURRENCY),
+  };
+}
+
+/**
+ * Fiscal calendar of a customer
+ * @param customerId - Customer ID
+ * @returns Stored calendar, or the calendar-year default
+ */
+export async function getFiscalCalendar(customerId: string): Promise<FiscalCalendar> {
+  return (await getFinancialSettings(customerId)).fiscalCalendar;
+}
+
+/**
+ * Save a customer's financial settings
+ * @param customerId - Customer ID
+ * @param settings - Discount rate, horizon (1-10 years), fiscal calendar and
+ *   reporting currency
+ * @returns Saved settings
+ */
+export async function saveFinancialSettings(
+  customerId: string,
+  settings: FinancialSettings
+): Promise<FinancialSettings> {
+  const customer = await prisma.customer.update({
+    where: { id: customerId },
+    data: {
+      discountRate: settings.discountRate,
+      scenarioHorizonYears: clampHorizonYears(settings.scenarioHorizonYears),
+      fiscalYearStartMonth: settings.fiscalCalendar.startMonth,
+      fiscalPeriodPattern: settings.fiscalCalendar.pattern,
+      reportingCurrency: settings.reportingCurrency,
+    },
+    select: financialSettingsSelect,
+  });
+
+  return {
+    discountRate: customer.discountRate,
+    scenarioHorizonYears: customer.scenarioHorizonYears,
+    fiscalCalendar: toFiscalCalendar(customer.fiscalYearStartMonth, customer.fiscalPeriodPattern),
+    reportingCurrency: toCurrencyCode(customer.reportingCurrency),
+  };
+}
@@ -71,7 +71,7 @@ export function calculateHealthScoreComponents(input: HealthScoreInput): HealthS
 export async function calculateHealthScore(customerId: string): Promise<HealthScoreComponents> {
   // Fetch regulations associated with customer through cost estimates
   const costEstimates = await prisma.costEstimate.findMany({
-    where: { customerId },
+    where: { customerId, supersededAt: null },
     select: {
       oneTimeCostLow: true,
       oneTimeCostHigh: true,
@@ -1,6 +1,7 @@
 import { Resend } from 'resend'
 import { prisma } from '@/lib/prisma'
 import { cacheHealthScore, getHealthScoreFromCache } from '@/lib/cache/health-score'
+import { getSubscribedRegulationFilter } from '@/lib/regulations/subscriptions'
 import { format, startOfDay, addDays } from 'date-fns'
 import { toZonedTime } from 'date-fns-tz'
 
@@ -31,14 +32,15 @@ export async function generateOptimizedDigest(userId: string): Promise<string> {
     await cacheHealthScore(customerId, healthScore, 6)
   }
 
+  // Subscriptions (not cost estimates) decide what the customer hears about
+  const watchedRegulations = await getSubscribedRegulationFilter(customerId)
+
   // ✅ OPTIMIZATION 3: Parallel queries consolidated
   const [deadlines, regulations] = await Promise.all([
     prisma.deadline.findMany({
       where: {
         regulationVersion: {
-          costEstimates: {
-            some: { customerId }
-          }
+          regulation: watchedRegulations
         },
         deadlineDate: { gte: now, lte: addDays(now, 7) }
       },
@@ -53,12 +55,7 @@ export async function generateOptimizedDigest(userId: string): Promise<string> {
     }),
     prisma.regulation.findMany({
       where: {
-        versions: {
-          some: {
-            costEstimates: { some: { customerId } }
-          }
-        },
-        createdAt: { gte: addDays(now, -1) }
+        AND: [watchedRegulations, { createdAt: { gte: addDays(now, -1) } }]
       },
       select: {
         id: true,
@@ -1,6 +1,13 @@
 import jsPDF from 'jspdf'
 import html2canvas from 'html2canvas'
 import { ComplianceHealthScore, CostWaterfallData, TimelineRegulation } from '@/types/dashboard-enhanced'
+import { CurrencyCode, FiscalCalendar } from '@/types/cost-estimate'
+import {
+  DEFAULT_FISCAL_CALENDAR,
+  fiscalPeriodOf,
+  formatFiscalPeriod,
+  formatFiscalQuarter
+} from '@/lib/utils/fiscal-calendar'
 import { formatCurrency, getScoreColor } from './pdf-formatting'
 
 /**
@@ -11,13 +18,22 @@ function renderCoverPage(
   pageWidth: number,
   healthScore: ComplianceHealthScore,
   waterfall: CostWaterfallData,
-  regulations: TimelineRegulation[]
+  regulations: TimelineRegulation[],
+  fiscalCalendar: FiscalCalendar
 ): void {
+  const today = new Date()
+  const { fiscalYear, period } = fiscalPeriodOf(today, fiscalCalendar)
+
   // Title
   pdf.setFontSize(24)
   pdf.text('Compliance Board Report', pageWidth / 2, 30, { align: 'center' })
   pdf.setFontSize(12)
-  pdf.text(`Generated: ${new Date().toLocaleDateString()}`, pageWidth / 2, 40, { align: 'center' })
+  pdf.text(
+    `Generated: ${today.toLocaleDateString()} (${formatFiscalPeriod(fiscalYear, period)})`,
+    pageWidth / 2,
+    40,
+    { align: 'center' }
+  )
   
   // Health Score
   pdf.setFontSize(16)
@@ -35,7 +51,7 @@ function renderCoverPage(
   pdf.setFontSize(12)
   pdf.text('Key Metrics', 20, 110)
   pdf.setFontSize(10)
-  pdf.text(`Total Exposure: ${formatCurrency(waterfall.starting)}`, 20, 120)
+  pdf.text(`Total Exposure: ${formatCurrency(waterfall.starting, waterfall.currency)}`, 20, 120)
   pdf.text(`Critical Deadlines: ${regulations.filter(r => r.riskLevel === 'CRITICAL').length}`, 20, 130)
   pdf.text(`Regulations Tracked: ${regulations.length}`, 20, 140)
   
@@ -55,7 +71,9 @@ function renderCriticalDeadlinesPage(
   pdf: jsPDF,
   pageWidth: number,
   pageHeight: number,
-  regulations: TimelineRegulation[]
+  regulations: TimelineRegulation[],
+  fiscalCalendar: FiscalCalendar,
+  currency: CurrencyCode
 ): void {
   pdf.addPage()
   pdf.setFontSize(16)
@@ -79,9 +97,15 @@ function renderCriticalDeadlinesPage(
     pdf.setFont('helvetica', 'normal')
     yPos += 7
     
-    pdf.text(`   Deadline: ${new Date(reg.deadline).toLocaleDateString()}`, 20, yPos)
+    const deadline = new Date(reg.deadline)
+    const { fiscalYear, quarter } = fiscalPeriodOf(deadline, fiscalCalendar)
+    pdf.text(
+      `   Deadline: ${deadline.toLocaleDateString()} (${formatFiscalQuarter(fiscalYear, quarter)})`,
+      20,
+      yPos
+    )
     yPos += 5
-    pdf.text(`   Estimated Cost: ${formatCurrency(reg.cost)}`, 20, yPos)
+    pdf.text(`   Estimated Cost: ${formatCurrency(reg.cost, currency)}`, 20, yPos)
     yPos += 5
     pdf.text(`   Jurisdiction: ${reg.jurisdiction}`, 20, yPos)
     yPos += 10
@@ -101,7 +125,7 @@ function renderCostBreakdownPage(
   pdf.setFontSize(16)
   pdf.text('Cost Exposure Breakdown', 20, 20)
   pdf.setFontSize(12)
-  pdf.text(`Current Total: ${formatCurrency(waterfall.starting)}`, 20, 35)
+  pdf.text(`Current Total: ${formatCurrency(waterfall.starting, waterfall.currency)}`, 20, 35)
   
   pdf.setFontSize(10)
   pdf.text('Recent Additions:', 20, 50)
@@ -112,7 +136,7 @@ function renderCostBreakdownPage(
       pdf.addPage()
       yPos = 20
     }
-    pdf.text(`${index + 1}. ${item.name}: ${formatCurrency(item.value)}`, 25, yPos)
+    pdf.text(`${index + 1}. ${item.name}: ${formatCurrency(item.value, waterfall.currency)}`, 25, yPos)
     yPos += 7
   })
 }
@@ -129,18 +153,21 @@ function renderFooter(pdf: jsPDF, pageWidth: number, pageHeight: number): void {
 
 /**
  * Generate a complete board PDF report
+ * Dates are labelled with the customer's fiscal period; amounts are in the
+ * waterfall's reporting currency
  */
 export async function generateBoardPDF(
   healthScore: ComplianceHealthScore,
   waterfall: CostWaterfallData,
-  regulations: TimelineRegulation[]
+  regulations: TimelineRegulation[],
+  fiscalCalendar: FiscalCalendar = DEFAULT_FISCAL_CALENDAR
 ): Promise<Blob> {
   const pdf = new jsPDF('p', 'mm', 'a4')
   const pageWidth = pdf.internal.pageSize.getWidth()
   const pageHeight = pdf.internal.pageSize.getHeight()
   
-  renderCoverPage(pdf, pageWidth, healthScore, waterfall, regulations)
-  renderCriticalDeadlinesPage(pdf, pageWidth, pageHeight, regulations)
+  renderCoverPage(pdf, pageWidth, healthScore, waterfall, regulations, fiscalCalendar)
+  renderCriticalDeadlinesPage(pdf, pageWidth, pageHeight, regulations, fiscalCalendar, waterfall.currency)
   renderCostBreakdownPage(pdf, pageWidth, pageHeight, waterfall)
   renderFooter(pdf, pageWidth, pageHeight)
   
@@ -1,9 +1,13 @@
 import jsPDF from 'jspdf'
 import html2canvas from 'html2canvas'
+import { CurrencyCode, FiscalCalendar } from '@/types/cost-estimate'
+import { DEFAULT_FISCAL_CALENDAR, fiscalPeriodOf, formatFiscalPeriod } from '@/lib/utils/fiscal-calendar'
 
 /**
  * Generate a professional PDF report of the dashboard
  * Includes cover page, metrics summary, charts (as images), and regulation table
+ * The report date is labelled with the customer's fiscal period and cost
+ * exposure is in the customer's reporting currency
  */
 export async function generateDashboardPDF(
   customerId: string,
@@ -13,7 +17,9 @@ export async function generateDashboardPDF(
   totalCostExposure: number,
   costTrend: number,
   regulationCount: number,
-  upcomingDeadlines: number
+  upcomingDeadlines: number,
+  fiscalCalendar: FiscalCalendar = DEFAULT_FISCAL_CALENDAR,
+  currency: CurrencyCode = 'USD'
 ): Promise<Blob> {
   const doc = new jsPDF({
     orientation: 'portrait',
@@ -49,12 +55,14 @@ export async function generateDashboardPDF(
   doc.text(companyName, pageWidth / 2, 110, { align: 'center' })
 
   doc.setFontSize(11)
-  const today = new Date().toLocaleDateString('en-US', {
+  const reportDate = new Date()
+  const today = reportDate.toLocaleDateString('en-US', {
     year: 'numeric',
     month: 'long',
     day: 'numeric'
   })
-  doc.text(`Report Date: ${today}`, pageWidth / 2, 125, { align: 'center' })
+  const { fiscalYear, period } = fiscalPeriodOf(reportDate, fiscalCalendar)
+  doc.text(`Report Date: ${today} (${formatFiscalPeriod(fiscalYear, period)})`, pageWidth / 2, 125, { align: 'center' })
 
   // Health score highlight
   doc.setFontSize(48)
@@ -96,7 +104,12 @@ export async function generateDashboardPDF(
     },
     {
       label: 'Cost Exposure',
-      value: '$' + (totalCostExposure / 1000000).toFixed(2),
+      value: new Intl.NumberFormat('en-US', {
+        style: 'currency',
+        currency,
+        minimumFractionDigits: 2,
+        maximumFractionDigits: 2
+      }).format(totalCostExposure / 1000000),
       unit: 'M',
       trend: costTrend
     },
@@ -2,10 +2,10 @@
  * Shared PDF formatting utilities
  */
 
-export const formatCurrency = (value: number): string => {
+export const formatCurrency = (value: number, currency: string = 'USD'): string => {
   return new Intl.NumberFormat('en-US', {
     style: 'currency',
-    currency: 'USD',
+    currency,
     minimumFractionDigits: 0,
     maximumFractionDigits: 0,
   }).format(value)
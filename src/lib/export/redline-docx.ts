@@ -0,0 +1,103 @@
+import { buildRedline, RedlineDiff, RedlineMetadata, RedlineRun } from './redline'
+import { createZip } from './zip'
+
+export const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+
+const CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/></Types>`
+
+const PACKAGE_RELATIONSHIPS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/></Relationships>`
+
+// A4 with 2cm margins, in twentieths of a point
+const SECTION_PROPERTIES =
+  '<w:sectPr><w:pgSz w:w="11906" w:h="16838"/><w:pgMar w:top="1134" w:right="1134" w:bottom="1134" w:left="1134" w:header="708" w:footer="708" w:gutter="0"/></w:sectPr>'
+
+interface RunStyle {
+  bold?: boolean
+  size?: number // Half-points
+  color?: string
+  strike?: boolean
+  underline?: boolean
+}
+
+function escapeXML(text: string): string {
+  return text
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+function run(text: string, style: RunStyle = {}): string {
+  const properties = [
+    style.bold ? '<w:b/>' : '',
+    style.strike ? '<w:strike/>' : '',
+    style.color ? `<w:color w:val="${style.color}"/>` : '',
+    style.size ? `<w:sz w:val="${style.size}"/>` : '',
+    style.underline ? '<w:u w:val="single"/>' : ''
+  ].join('')
+  const rPr = properties ? `<w:rPr>${properties}</w:rPr>` : ''
+  return `<w:r>${rPr}<w:t xml:space="preserve">${escapeXML(text)}</w:t></w:r>`
+}
+
+function paragraph(runs: string, spacingAfter: number = 120): string {
+  return `<w:p><w:pPr><w:spacing w:after="${spacingAfter}"/></w:pPr>${runs}</w:p>`
+}
+
+function markupRun(item: RedlineRun, bold: boolean): string {
+  if (item.type === 'removed') return run(item.text, { bold, strike: true, color: 'B91C1C' })
+  if (item.type === 'added') return run(item.text, { bold, underline: true, color: '1D4ED8' })
+  return run(item.text, { bold })
+}
+
+/**
+ * WordprocessingML body of a PolicyDiff redline
+ * Deletions and insertions are formatted (strike-through, underline) rather
+ * than tracked, so the redline prints the same in any word processor
+ */
+export function formatRedlineDocumentXML(diff: RedlineDiff, metadata: RedlineMetadata): string {
+  const redline = buildRedline(diff, metadata)
+
+  const body = [
+    paragraph(run(redline.title, { bold: true, size: 32 }), 60),
+    paragraph(run(redline.subtitle, { size: 24, color: '374151' })),
+    ...redline.details.map(detail =>
+      paragraph(run(`${detail.label}: `, { bold: true, size: 20 }) + run(detail.value, { size: 20 }), 40)
+    ),
+    paragraph(run('Summary of Changes', { bold: true, size: 24 })),
+    paragraph(run(redline.summary)),
+    ...(redline.keyChanges.length > 0
+      ? [
+          paragraph(run('Key Changes', { bold: true, size: 24 })),
+          ...redline.keyChanges.map(change => paragraph(run(`• ${change}`), 60))
+        ]
+      : []),
+    paragraph(
+      run('Struck through', { strike: true, color: 'B91C1C', size: 18 }) +
+        run(' text is deleted; ', { size: 18 }) +
+        run('underlined', { underline: true, color: '1D4ED8', size: 18 }) +
+        run(' text is inserted.', { size: 18 }),
+      240
+    ),
+    ...redline.paragraphs.map(block =>
+      paragraph(block.runs.map(item => markupRun(item, block.heading)).join(''), block.heading ? 160 : 120)
+    )
+  ].join('')
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:body>${body}${SECTION_PROPERTIES}</w:body></w:document>`
+}
+
+/**
+ * Generate a Word (DOCX) redline of a PolicyDiff
+ */
+export async function generateRedlineDOCX(diff: RedlineDiff, metadata: RedlineMetadata): Promise<Blob> {
+  const archive = createZip([
+    { name: '[Content_Types].xml', data: CONTENT_TYPES },
+    { name: '_rels/.rels', data: PACKAGE_RELATIONSHIPS },
+    { name: 'word/document.xml', data: formatRedlineDocumentXML(diff, metadata) }
+  ])
+  return new Blob([archive as BlobPart], { type: DOCX_MIME_TYPE })
+}
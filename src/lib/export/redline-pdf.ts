@@ -0,0 +1,174 @@
+import jsPDF from 'jspdf'
+import { buildRedline, RedlineDiff, RedlineMetadata, RedlineRun } from './redline'
+
+const MARGIN = 20
+const LINE_HEIGHT = 5.5
+const PT_TO_MM = 0.3528
+
+const RUN_COLORS: Record<RedlineRun['type'], [number, number, number]> = {
+  unchanged: [17, 24, 39],
+  removed: [185, 28, 28], // Red
+  added: [29, 78, 216] // Blue
+}
+
+interface Cursor {
+  yPos: number
+}
+
+/**
+ * Start a new page when the next line would run into the footer
+ */
+function ensureSpace(pdf: jsPDF, cursor: Cursor, height: number): void {
+  if (cursor.yPos + height > pdf.internal.pageSize.getHeight() - MARGIN) {
+    pdf.addPage()
+    cursor.yPos = MARGIN
+  }
+}
+
+/**
+ * Render wrapped plain text
+ */
+function renderText(pdf: jsPDF, cursor: Cursor, text: string, indent: number = 0): void {
+  const width = pdf.internal.pageSize.getWidth() - MARGIN * 2 - indent
+  for (const line of pdf.splitTextToSize(text, width) as string[]) {
+    ensureSpace(pdf, cursor, LINE_HEIGHT)
+    pdf.text(line, MARGIN + indent, cursor.yPos)
+    cursor.yPos += LINE_HEIGHT
+  }
+}
+
+/**
+ * Render a paragraph of redline runs word by word, wrapping at the margin
+ * Deleted words get a line through them and inserted words a line under them
+ */
+function renderRuns(pdf: jsPDF, cursor: Cursor, runs: RedlineRun[]): void {
+  const left = MARGIN
+  const right = pdf.internal.pageSize.getWidth() - MARGIN
+  const strikeOffset = pdf.getFontSize() * PT_TO_MM * 0.3
+  let xPos = left
+
+  ensureSpace(pdf, cursor, LINE_HEIGHT)
+  for (const run of runs) {
+    const color = RUN_COLORS[run.type]
+    pdf.setTextColor(color[0], color[1], color[2])
+    pdf.setDrawColor(color[0], color[1], color[2])
+    pdf.setLineWidth(0.3)
+
+    const words = run.text.match(/\s*\S+\s*|\s+/g) ?? []
+    words.forEach((token, i) => {
+      let word = token
+      if (xPos > left && xPos + pdf.getTextWidth(word.trimEnd()) > right) {
+        cursor.yPos += LINE_HEIGHT
+        ensureSpace(pdf, cursor, LINE_HEIGHT)
+        xPos = left
+        word = word.trimStart()
+      }
+      if (!word) return
+
+      pdf.text(word, xPos, cursor.yPos)
+      // Carry the mark across spaces inside a run, not past its last word
+      const marked = pdf.getTextWidth(i === words.length - 1 ? word.trimEnd() : word)
+      if (run.type === 'removed') {
+        pdf.line(xPos, cursor.yPos - strikeOffset, xPos + marked, cursor.yPos - strikeOffset)
+      } else if (run.type === 'added') {
+        pdf.line(xPos, cursor.yPos + 0.8, xPos + marked, cursor.yPos + 0.8)
+      }
+      xPos += pdf.getTextWidth(word)
+    })
+  }
+  cursor.yPos += LINE_HEIGHT
+  pdf.setTextColor(0, 0, 0)
+  pdf.setDrawColor(0, 0, 0)
+}
+
+/**
+ * Render page numbers and the regulation title on every page
+ */
+function renderFooters(pdf: jsPDF, title: string): void {
+  const pageWidth = pdf.internal.pageSize.getWidth()
+  const pageHeight = pdf.internal.pageSize.getHeight()
+  const pageCount = pdf.getNumberOfPages()
+
+  pdf.setFont('helvetica', 'normal')
+  pdf.setFontSize(8)
+  pdf.setTextColor(128, 128, 128)
+  for (let page = 1; page <= pageCount; page++) {
+    pdf.setPage(page)
+    pdf.text(`${title} - Redline`, MARGIN, pageHeight - 10)
+    pdf.text(`Page ${page} of ${pageCount}`, pageWidth - MARGIN, pageHeight - 10, { align: 'right' })
+  }
+  pdf.setTextColor(0, 0, 0)
+}
+
+/**
+ * Generate a PDF redline of a PolicyDiff
+ * The header carries the version metadata, AI summary and key changes; the
+ * body is the regulation text with deletions struck through in red and
+ * insertions underlined in blue
+ */
+export async function generateRedlinePDF(diff: RedlineDiff, metadata: RedlineMetadata): Promise<Blob> {
+  const redline = buildRedline(diff, metadata)
+  const pdf = new jsPDF('p', 'mm', 'a4')
+  const cursor: Cursor = { yPos: MARGIN + 5 }
+
+  // Header
+  pdf.setFont('helvetica', 'bold')
+  pdf.setFontSize(18)
+  renderText(pdf, cursor, redline.title)
+  pdf.setFont('helvetica', 'normal')
+  pdf.setFontSize(12)
+  renderText(pdf, cursor, redline.subtitle)
+  cursor.yPos += 2
+
+  pdf.setFontSize(10)
+  for (const detail of redline.details) {
+    renderText(pdf, cursor, `${detail.label}: ${detail.value}`)
+  }
+  cursor.yPos += 2
+  pdf.setLineWidth(0.5)
+  pdf.line(MARGIN, cursor.yPos, pdf.internal.pageSize.getWidth() - MARGIN, cursor.yPos)
+  cursor.yPos += 8
+
+  // AI summary
+  pdf.setFont('helvetica', 'bold')
+  pdf.setFontSize(12)
+  renderText(pdf, cursor, 'Summary of Changes')
+  pdf.setFont('helvetica', 'normal')
+  pdf.setFontSize(10)
+  renderText(pdf, cursor, redline.summary)
+  cursor.yPos += 4
+
+  if (redline.keyChanges.length > 0) {
+    pdf.setFont('helvetica', 'bold')
+    pdf.setFontSize(12)
+    renderText(pdf, cursor, 'Key Changes')
+    pdf.setFont('helvetica', 'normal')
+    pdf.setFontSize(10)
+    for (const change of redline.keyChanges) {
+      renderText(pdf, cursor, `- ${change}`, 3)
+    }
+    cursor.yPos += 4
+  }
+
+  pdf.setFontSize(9)
+  renderRuns(pdf, cursor, [
+    { type: 'removed', text: 'Struck through' },
+    { type: 'unchanged', text: ' text is deleted; ' },
+    { type: 'added', text: 'underlined' },
+    { type: 'unchanged', text: ' text is inserted.' }
+  ])
+  cursor.yPos += 4
+
+  // Redline body
+  pdf.setFontSize(10)
+  for (const paragraph of redline.paragraphs) {
+    if (paragraph.heading) cursor.yPos += 2
+    pdf.setFont('helvetica', paragraph.heading ? 'bold' : 'normal')
+    renderRuns(pdf, cursor, paragraph.runs)
+    cursor.yPos += 1.5
+  }
+
+  renderFooters(pdf, redline.title)
+
+  return pdf.output('blob')
+}
@@ -0,0 +1,190 @@
+import { PolicyDiffRecord } from '@/types/policydiff'
+import { highlightChangedLines, pairSplitRows, parseDisplayDiff } from '@/lib/regulations/diff-hunks'
+import { diffInlineWords } from '@/lib/regulations/section-diff'
+import { isSectionHeading } from '@/lib/regulations/section-tree'
+import { formatDate } from '@/lib/utils/format'
+
+/**
+ * PolicyDiff fields a redline is built from
+ */
+export type RedlineDiff = Pick<
+  PolicyDiffRecord,
+  'diffText' | 'summary' | 'keyChanges' | 'significanceScore' | 'aiConfidence'
+>
+
+/**
+ * Regulation and version details shown in the redline header
+ */
+export interface RedlineMetadata {
+  regulationTitle: string
+  jurisdiction?: string | null
+  previousVersionNumber: number
+  currentVersionNumber: number
+  previousPublishedDate?: Date | string | null
+  currentPublishedDate?: Date | string | null
+  generatedAt?: Date
+}
+
+export interface RedlineRun {
+  type: 'unchanged' | 'added' | 'removed'
+  text: string
+}
+
+export interface RedlineParagraph {
+  heading: boolean
+  runs: RedlineRun[]
+}
+
+/**
+ * Format-independent redline: header, AI summary and the marked-up text
+ */
+export interface RedlineDocument {
+  title: string
+  subtitle: string
+  details: Array<{ label: string; value: string }>
+  summary: string
+  keyChanges: string[]
+  paragraphs: RedlineParagraph[]
+}
+
+function versionLabel(versionNumber: number, publishedDate?: Date | string | null): string {
+  return publishedDate
+    ? `Version ${versionNumber} (${formatDate(publishedDate)})`
+    : `Version ${versionNumber}`
+}
+
+/**
+ * Build the redline of a PolicyDiff
+ * Edited lines become one paragraph with word-level deletions and insertions;
+ * lines only in one version are struck through or inserted whole
+ */
+export function buildRedline(diff: RedlineDiff, metadata: RedlineMetadata): RedlineDocument {
+  const paragraphs: RedlineParagraph[] = []
+  const push = (heading: boolean, runs: RedlineRun[]) => {
+    if (runs.some(run => run.text.trim())) paragraphs.push({ heading, runs })
+  }
+
+  for (const { left, right } of pairSplitRows(highlightChangedLines(parseDisplayDiff(diff.diffText)))) {
+    if (left && left === right) {
+      push(isSectionHeading(left.text), [{ type: 'unchanged', text: left.text }])
+    } else if (left?.inlineDiff && right) {
+      push(
+        isSectionHeading(left.text) || isSectionHeading(right.text),
+        diffInlineWords(left.text, right.text)
+      )
+    } else {
+      if (left) push(isSectionHeading(left.text), [{ type: 'removed', text: left.text }])
+      if (right) push(isSectionHeading(right.text), [{ type: 'added', text: right.text }])
+    }
+  }
+
+  const details = [
+    {
+      label: 'Compared',
+      value: `${versionLabel(metadata.previousVersionNumber, metadata.previousPublishedDate)} to ${versionLabel(metadata.currentVersionNumber, metadata.currentPublishedDate)}`
+    },
+    ...(metadata.jurisdiction ? [{ label: 'Jurisdiction', value: metadata.jurisdiction }] : []),
+    { label: 'Significance', value: String(diff.significanceScore) },
+    { label: 'AI confidence', value: `${Math.round(diff.aiConfidence * 100)}%` },
+    { label: 'Generated', value: formatDate(metadata.generatedAt ?? new Date()) }
+  ]
+
+  return {
+    title: metadata.regulationTitle,
+    subtitle: `Redline: Version ${metadata.previousVersionNumber} to Version ${metadata.currentVersionNumber}`,
+    details,
+    summary: diff.summary,
+    keyChanges: diff.keyChanges,
+    paragraphs
+  }
+}
+
+/**
+ * File name for an exported redline, e.g. "gdpr-redline-v2-v4.docx"
+ */
+export function redlineFileName(metadata: RedlineMetadata, extension: string): string {
+  const slug = metadata.regulationTitle
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '')
+    .slice(0, 60)
+  return `${slug || 'regulation'}-redline-v${metadata.previousVersionNumber}-v${metadata.currentVersionNumber}.${extension}`
+}
+
+function escapeHTML(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+function runHTML(run: RedlineRun): string {
+  const text = escapeHTML(run.text)
+  if (run.type === 'removed') return `<del>${text}</del>`
+  if (run.type === 'added') return `<ins>${text}</ins>`
+  return text
+}
+
+/**
+ * Format a PolicyDiff as a standalone HTML redline
+ * Deletions are struck through in red and insertions underlined in blue, with
+ * inline styles so the file can be emailed or opened without the app
+ */
+export function formatRedlineHTML(diff: RedlineDiff, metadata: RedlineMetadata): string {
+  const redline = buildRedline(diff, metadata)
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <title>${escapeHTML(redline.title)} - ${escapeHTML(redline.subtitle)}</title>
+  <style>
+    body { font-family: Georgia, 'Times New Roman', serif; max-width: 800px; margin: 0 auto; padding: 40px 20px; color: #111827; line-height: 1.6; }
+    header { border-bottom: 2px solid #111827; padding-bottom: 16px; margin-bottom: 24px; }
+    h1 { font-size: 24px; margin: 0 0 4px; }
+    .subtitle { font-size: 16px; color: #374151; margin: 0 0 12px; }
+    dl { display: grid; grid-template-columns: max-content 1fr; gap: 4px 16px; margin: 0; font-size: 14px; }
+    dt { font-weight: bold; }
+    dd { margin: 0; }
+    .summary { background: #f3f4f6; padding: 16px 20px; margin-bottom: 24px; }
+    .summary h2 { font-size: 16px; margin: 0 0 8px; }
+    .legend { font-size: 13px; color: #4b5563; margin-bottom: 16px; }
+    .redline p { margin: 0 0 8px; white-space: pre-wrap; }
+    .redline h3 { font-size: 16px; margin: 20px 0 8px; white-space: pre-wrap; }
+    del { color: #b91c1c; text-decoration: line-through; }
+    ins { color: #1d4ed8; text-decoration: underline; }
+    @media print { body { padding: 0; } .summary { border: 1px solid #d1d5db; } }
+  </style>
+</head>
+<body>
+  <header>
+    <h1>${escapeHTML(redline.title)}</h1>
+    <p class="subtitle">${escapeHTML(redline.subtitle)}</p>
+    <dl>
+      ${redline.details.map(detail => `<dt>${escapeHTML(detail.label)}</dt><dd>${escapeHTML(detail.value)}</dd>`).join('\n      ')}
+    </dl>
+  </header>
+
+  <section class="summary">
+    <h2>Summary of Changes</h2>
+    <p>${escapeHTML(redline.summary)}</p>
+    ${redline.keyChanges.length > 0 ? `<h2>Key Changes</h2>
+    <ul>
+      ${redline.keyChanges.map(change => `<li>${escapeHTML(change)}</li>`).join('\n      ')}
+    </ul>` : ''}
+  </section>
+
+  <p class="legend"><del>Struck through</del> text is deleted; <ins>underlined</ins> text is inserted.</p>
+
+  <section class="redline">
+    ${redline.paragraphs
+      .map(paragraph => {
+        const tag = paragraph.heading ? 'h3' : 'p'
+        return `<${tag}>${paragraph.runs.map(runHTML).join('')}</${tag}>`
+      })
+      .join('\n    ')}
+  </section>
+</body>
+</html>`
+}
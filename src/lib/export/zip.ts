@@ -0,0 +1,103 @@
+/**
+ * Minimal ZIP writer (stored entries, no compression) for Office documents
+ */
+
+export interface ZipEntry {
+  name: string
+  data: Uint8Array | string
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+  }
+  return c >>> 0
+})
+
+/**
+ * CRC-32 checksum of the bytes, as ZIP stores it
+ */
+export function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff
+  for (const byte of bytes) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+// MS-DOS time and date fields
+function dosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((Math.max(date.getFullYear(), 1980) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  }
+}
+
+/**
+ * Pack files into a ZIP archive
+ * @param entries - Files in the order they are written; names use "/" separators
+ * @param modified - Modification time recorded for every entry
+ */
+export function createZip(entries: ZipEntry[], modified: Date = new Date()): Uint8Array {
+  const encoder = new TextEncoder()
+  const { time, date } = dosDateTime(modified)
+  const files = entries.map(entry => {
+    const data = typeof entry.data === 'string' ? encoder.encode(entry.data) : entry.data
+    return { name: encoder.encode(entry.name), data, crc: crc32(data) }
+  })
+
+  const localSize = files.reduce((sum, file) => sum + 30 + file.name.length + file.data.length, 0)
+  const centralSize = files.reduce((sum, file) => sum + 46 + file.name.length, 0)
+  const bytes = new Uint8Array(localSize + centralSize + 22)
+  const view = new DataView(bytes.buffer)
+
+  let offset = 0
+  const offsets: number[] = []
+  // Version needed (2.0), UTF-8 names flag, stored method, time, date, CRC, sizes
+  const writeCommon = (file: (typeof files)[number]) => {
+    view.setUint16(offset, 20, true)
+    view.setUint16(offset + 2, 0x0800, true)
+    view.setUint16(offset + 4, 0, true)
+    view.setUint16(offset + 6, time, true)
+    view.setUint16(offset + 8, date, true)
+    view.setUint32(offset + 10, file.crc, true)
+    view.setUint32(offset + 14, file.data.length, true)
+    view.setUint32(offset + 18, file.data.length, true)
+    view.setUint16(offset + 22, file.name.length, true)
+    view.setUint16(offset + 24, 0, true)
+    offset += 26
+  }
+
+  for (const file of files) {
+    offsets.push(offset)
+    view.setUint32(offset, 0x04034b50, true)
+    offset += 4
+    writeCommon(file)
+    bytes.set(file.name, offset)
+    offset += file.name.length
+    bytes.set(file.data, offset)
+    offset += file.data.length
+  }
+
+  const centralOffset = offset
+  files.forEach((file, i) => {
+    view.setUint32(offset, 0x02014b50, true)
+    view.setUint16(offset + 4, 20, true)
+    offset += 6
+    writeCommon(file)
+    // Comment length, disk number, internal and external attributes (zero), local header offset
+    view.setUint32(offset + 10, offsets[i], true)
+    offset += 14
+    bytes.set(file.name, offset)
+    offset += file.name.length
+  })
+
+  view.setUint32(offset, 0x06054b50, true)
+  view.setUint16(offset + 8, files.length, true)
+  view.setUint16(offset + 10, files.length, true)
+  view.setUint32(offset + 12, centralSize, true)
+  view.setUint32(offset + 16, centralOffset, true)
+
+  return bytes
+}
@@ -1,5 +1,11 @@
 import { prisma } from '@/lib/prisma'
 import { ComplianceHealthScore } from '@/types/dashboard-enhanced'
+import { getSubscribedRegulationFilter } from '@/lib/regulations/subscriptions'
+import { calculatePenaltyExposure } from '@/lib/regulations/penalty-exposure'
+import { BASE_CURRENCY, convertAmount, toCurrencyCode } from '@/lib/cost-estimator/currency'
+import { listFxRates } from '@/lib/cost-estimator/fx-rates'
+import { getFinancialSettings } from '@/lib/customers/financial-settings'
+import type { PenaltyTerms } from '@/types/penalties'
 
 // Pure helper functions for testability
 function computeDeadlineAdherence(deadlines: Array<{
@@ -25,13 +31,22 @@ function computeCostPredictability(costEstimates: Array<{
   return Math.max(0, 100 - avgVariance * 100)
 }
 
+// Risk-weighted penalties of 90 days out of compliance, summed over regulations (USD)
+function computePenaltyExposure(schedules: PenaltyTerms[]): number {
+  return schedules.reduce(
+    (sum, schedule) => sum + calculatePenaltyExposure(schedule).riskWeightedExposure,
+    0
+  )
+}
+
+// Estimates and penalty exposure must be in one currency
 function computeRiskExposureInverse(costEstimates: Array<{
   oneTimeCostHigh: number
   recurringCostAnnual: number
-}>): number {
+}>, penaltyExposure = 0): number {
   const totalExposure = costEstimates.reduce(
     (sum, e) => sum + e.oneTimeCostHigh + e.recurringCostAnnual,
-    0
+    penaltyExposure
   )
   return Math.max(0, 100 - Math.min(100, totalExposure / 10000)) // $1M = 0 score
 }
@@ -49,34 +64,61 @@ function combineComplianceScore(components: {
 }
 
 export async function calculateComplianceHealthScore(customerId: string): Promise<ComplianceHealthScore> {
-  // Fetch customer's cost estimates first to get their regulation versions
-  const costEstimates = await prisma.costEstimate.findMany({
-    where: { customerId },
-    select: { regulationVersionId: true, oneTimeCostLow: true, oneTimeCostHigh: true, recurringCostAnnual: true }
-  })
-
-  const regulationVersionIds = [...new Set(costEstimates.map(ce => ce.regulationVersionId))]
+  const [costEstimates, watchedRegulations, { reportingCurrency }, fxRates] = await Promise.all([
+    prisma.costEstimate.findMany({
+      where: { customerId, supersededAt: null },
+      select: {
+        regulationVersionId: true,
+        oneTimeCostLow: true,
+        oneTimeCostHigh: true,
+        recurringCostAnnual: true,
+        currency: true
+      }
+    }),
+    getSubscribedRegulationFilter(customerId),
+    getFinancialSettings(customerId),
+    listFxRates()
+  ])
 
-  // Fetch only deadlines for regulations the customer is tracking (tenant isolation)
-  const deadlines = await prisma.deadline.findMany({
-    where: {
-      regulationVersionId: { in: regulationVersionIds },
-      regulationVersion: {
+  // Fetch only deadlines and penalties for regulations the customer subscribes to (tenant isolation)
+  const [deadlines, penaltySchedules] = await Promise.all([
+    prisma.deadline.findMany({
+      where: {
+        regulationVersion: {
+          regulation: {
+            AND: [watchedRegulations, { status: 'ACTIVE' }]
+          }
+        }
+      },
+      select: {
+        notificationSent: true,
+        deadlineDate: true
+      }
+    }),
+    prisma.penaltySchedule.findMany({
+      where: {
         regulation: {
-          status: 'ACTIVE'
+          AND: [watchedRegulations, { status: 'ACTIVE' }]
         }
       }
-    },
-    select: {
-      notificationSent: true,
-      deadlineDate: true
-    }
-  })
+    })
+  ])
 
   // Calculate metrics using pure functions
   const deadlineAdherence = computeDeadlineAdherence(deadlines)
   const costPredictability = computeCostPredictability(costEstimates)
-  const riskExposureInverse = computeRiskExposureInverse(costEstimates)
+  // Estimates are in their own currency and penalties in USD; exposure is
+  // summed in the reporting currency at today's rate
+  const now = new Date()
+  const toReporting = (amount: number, currency: string) =>
+    convertAmount(amount, toCurrencyCode(currency), reportingCurrency, fxRates, now)
+  const riskExposureInverse = computeRiskExposureInverse(
+    costEstimates.map(e => ({
+      oneTimeCostHigh: toReporting(e.oneTimeCostHigh, e.currency),
+      recurringCostAnnual: toReporting(e.recurringCostAnnual, e.currency)
+    })),
+    toReporting(computePenaltyExposure(penaltySchedules), BASE_CURRENCY)
+  )
 
   const score = combineComplianceScore({
     deadlineAdherence,
@@ -1,6 +1,7 @@
 /**
  * Text Diffing Utilities
- * Uses diff library to compare regulation versions
+ * Uses diff library to compare regulation versions line by line, and the
+ * section tree diff for changes by section, subsection and clause
  */
 
 import { diffLines } from 'diff';
@@ -8,21 +9,67 @@ import {
   DiffResult,
   ChangeSections,
   ChangeMetrics,
+  DiffLine,
+  SectionChange,
 } from '@/types/policydiff';
+import { diffRegulationSections } from '@/lib/regulations/section-diff';
+import {
+  DEFAULT_CONTEXT_LINES,
+  buildDiffBlocks,
+  formatDiffLine,
+  formatHunkHeader,
+} from '@/lib/regulations/diff-hunks';
+
+const nonBlank = (line: string) => line.trim().length > 0;
+
+/**
+ * Split a diff chunk into lines, without the empty string after its final newline
+ */
+function splitLines(value: string): string[] {
+  const lines = value.split('\n');
+  return lines[lines.length - 1] === '' ? lines.slice(0, -1) : lines;
+}
+
+/**
+ * Current text of sections whose text changed in place
+ */
+function modifiedSectionText(sections: SectionChange[]): string[] {
+  return sections
+    .filter((change) => change.textChanged && change.oldText !== null && change.newText !== null)
+    .map((change) => `${change.label} ${change.newText}`);
+}
+
+/**
+ * Number lines that exist in only one version
+ */
+function oneSidedLines(text: string, type: 'added' | 'removed'): DiffLine[] {
+  return (text ? splitLines(text) : []).map((line, i) => ({
+    type,
+    text: line,
+    oldLineNumber: type === 'removed' ? i + 1 : null,
+    newLineNumber: type === 'added' ? i + 1 : null,
+  }));
+}
 
 /**
  * Generate text diff between two regulation versions
  * @param oldText - Previous version text
  * @param newText - Current version text
- * @returns DiffResult with categorized changes
+ * @returns DiffResult with changed lines (blank lines only kept as context)
+ * and section changes
  */
 export function generateTextDiff(oldText: string, newText: string): DiffResult {
   if (!oldText || !newText) {
     return {
-      added: newText ? newText.split('\n').filter((l) => l.trim()) : [],
-      removed: oldText ? oldText.split('\n').filter((l) => l.trim()) : [],
+      added: newText ? newText.split('\n').filter(nonBlank) : [],
+      removed: oldText ? oldText.split('\n').filter(nonBlank) : [],
       modified: [],
       unchanged: [],
+      sections: diffRegulationSections(oldText || '', newText || ''),
+      lines: [
+        ...oneSidedLines(oldText || '', 'removed'),
+        ...oneSidedLines(newText || '', 'added'),
+      ],
     };
   }
 
@@ -32,27 +79,54 @@ export function generateTextDiff(oldText: string, newText: string): DiffResult {
       removed: [],
       modified: [],
       unchanged: oldText.split('\n'),
+      sections: [],
+      lines: splitLines(oldText).map((line, i) => ({
+        type: 'unchanged',
+        text: line,
+        oldLineNumber: i + 1,
+        newLineNumber: i + 1,
+      })),
     };
   }
 
-  const diffs = diffLines(oldText, newText, { ignoreWhitespace: false });
+  // A last line without a newline is the same line once text follows it
+  const diffs = diffLines(oldText, newText, { ignoreWhitespace: false, ignoreNewlineAtEof: true });
+  const sections = diffRegulationSections(oldText, newText);
 
   const result: DiffResult = {
     added: [],
     removed: [],
-    modified: [],
+    modified: modifiedSectionText(sections),
     unchanged: [],
+    sections,
+    lines: [],
   };
 
+  let oldLineNumber = 0;
+  let newLineNumber = 0;
   diffs.forEach((diff) => {
-    const lines = diff.value.split('\n').filter((line) => line.trim());
+    const lines = splitLines(diff.value);
 
     if (diff.added) {
-      result.added.push(...lines);
+      result.added.push(...lines.filter(nonBlank));
+      lines.forEach((text) =>
+        result.lines!.push({ type: 'added', text, oldLineNumber: null, newLineNumber: ++newLineNumber })
+      );
     } else if (diff.removed) {
-      result.removed.push(...lines);
+      result.removed.push(...lines.filter(nonBlank));
+      lines.forEach((text) =>
+        result.lines!.push({ type: 'removed', text, oldLineNumber: ++oldLineNumber, newLineNumber: null })
+      );
     } else {
       result.unchanged.push(...lines);
+      lines.forEach((text) =>
+        result.lines!.push({
+          type: 'unchanged',
+          text,
+          oldLineNumber: ++oldLineNumber,
+          newLineNumber: ++newLineNumber,
+        })
+      );
     }
   });
 
@@ -78,11 +152,7 @@ export function extractChangedSections(diffResult: DiffResult): ChangeSections {
   return {
     addedSections: filterSections(diffResult.added),
     removedSections: filterSections(diffResult.removed),
-    modifiedSections: filterSections(
-      [...diffResult.added, ...diffResult.removed]
-        .filter((s) => s.trim().length > 0)
-        .slice(0, 5)
-    ),
+    modifiedSections: filterSections(diffResult.modified).slice(0, 5),
   };
 }
 
@@ -94,7 +164,8 @@ export function extractChangedSections(diffResult: DiffResult): ChangeSections {
 export function calculateChangeMetrics(diffResult: DiffResult): ChangeMetrics {
   const linesAdded = diffResult.added.length;
   const linesRemoved = diffResult.removed.length;
-  const totalLines = linesAdded + linesRemoved + diffResult.unchanged.length;
+  // Blank context lines are not text
+  const totalLines = linesAdded + linesRemoved + diffResult.unchanged.filter(nonBlank).length;
 
   const percentageChanged =
     totalLines > 0
@@ -109,28 +180,42 @@ export function calculateChangeMetrics(diffResult: DiffResult): ChangeMetrics {
   };
 }
 
+/**
+ * Ordered lines of a DiffResult built without them (removed, added, then unchanged)
+ */
+function unorderedLines(diffResult: DiffResult): DiffLine[] {
+  const oldCount = diffResult.removed.length;
+  const newCount = diffResult.added.length;
+  return [
+    ...oneSidedLines(diffResult.removed.join('\n'), 'removed'),
+    ...oneSidedLines(diffResult.added.join('\n'), 'added'),
+    ...diffResult.unchanged.map((text, i): DiffLine => ({
+      type: 'unchanged',
+      text,
+      oldLineNumber: oldCount + i + 1,
+      newLineNumber: newCount + i + 1,
+    })),
+  ];
+}
+
 /**
  * Format diff in unified diff format for UI display
  * @param diffResult - Result from generateTextDiff
- * @returns Formatted diff string with +/- prefixes
+ * @param contextLines - Unchanged lines kept around each change (Infinity keeps the whole text)
+ * @returns Hunks in document order, each with an "@@ -a,b +c,d @@" header and
+ * lines prefixed with "- ", "+ " or "  "
  */
-export function formatDiffForDisplay(diffResult: DiffResult): string {
-  const lines: string[] = [];
-
-  // Add removed lines
-  diffResult.removed.forEach((line) => {
-    lines.push(`- ${line}`);
-  });
-
-  // Add added lines
-  diffResult.added.forEach((line) => {
-    lines.push(`+ ${line}`);
-  });
-
-  // Add unchanged lines (subset for context)
-  diffResult.unchanged.slice(0, 20).forEach((line) => {
-    lines.push(`  ${line}`);
-  });
-
-  return lines.join('\n');
+export function formatDiffForDisplay(
+  diffResult: DiffResult,
+  contextLines: number = DEFAULT_CONTEXT_LINES
+): string {
+  const lines = diffResult.lines ?? unorderedLines(diffResult);
+
+  return buildDiffBlocks(lines, contextLines)
+    .flatMap((block) =>
+      block.kind === 'hunk'
+        ? [formatHunkHeader(block.hunk), ...block.hunk.lines.map(formatDiffLine)]
+        : []
+    )
+    .join('\n');
 }
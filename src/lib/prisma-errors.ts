@@ -0,0 +1,12 @@
+/**
+ * Prisma error codes callers recover from
+ * P2002: unique constraint failed; P2003: foreign key constraint failed
+ */
+export type PrismaErrorCode = 'P2002' | 'P2003'
+
+/**
+ * Whether an error is a Prisma known request error with the given code
+ */
+export function isPrismaError(error: unknown, code: PrismaErrorCode): boolean {
+  return typeof error === 'object' && error !== null && (error as { code?: unknown }).code === code
+}
@@ -0,0 +1,358 @@
+/**
+ * Regulation Applicability Engine
+ * Compares a regulation's scope (jurisdiction, employee thresholds, sectors)
+ * against a customer's profile to decide whether it applies
+ */
+
+import prisma from '@/lib/prisma';
+import { Industry } from '@/types/cost-estimate';
+import type {
+  ApplicabilityCustomer,
+  ApplicabilityReason,
+  ApplicabilityRegulation,
+  ApplicabilityResult,
+  ApplicabilityStatus,
+  RegulationScope,
+} from '@/types/applicability';
+
+// Confidence that each kind of evidence is read correctly
+const CONFIDENCE = {
+  jurisdiction: 0.95,
+  threshold: 0.85,
+  sector: 0.7,
+  noCriteria: 0.8, // Nothing limits scope beyond jurisdiction
+} as const;
+
+const EMPLOYEE_NOUN = '(?:full-time\\s+)?(?:employees|workers|persons|individuals)';
+
+// "employers with 50 or more employees", "at least 15 employees", "more than 100 employees"
+const MIN_EMPLOYEE_PATTERNS: Array<{ regex: RegExp; offset: number }> = [
+  { regex: new RegExp(`(\\d[\\d,]*)\\s+or\\s+more\\s+${EMPLOYEE_NOUN}`, 'gi'), offset: 0 },
+  { regex: new RegExp(`(\\d[\\d,]*)\\+\\s*${EMPLOYEE_NOUN}`, 'gi'), offset: 0 },
+  { regex: new RegExp(`at\\s+least\\s+(\\d[\\d,]*)\\s+${EMPLOYEE_NOUN}`, 'gi'), offset: 0 },
+  { regex: new RegExp(`(?:more|greater)\\s+than\\s+(\\d[\\d,]*)\\s+${EMPLOYEE_NOUN}`, 'gi'), offset: 1 },
+];
+
+// "fewer than 50 employees", "50 or fewer employees", "no more than 25 employees"
+const MAX_EMPLOYEE_PATTERNS: Array<{ regex: RegExp; offset: number }> = [
+  { regex: new RegExp(`(?:fewer|less)\\s+than\\s+(\\d[\\d,]*)\\s+${EMPLOYEE_NOUN}`, 'gi'), offset: -1 },
+  { regex: new RegExp(`(\\d[\\d,]*)\\s+or\\s+fewer\\s+${EMPLOYEE_NOUN}`, 'gi'), offset: 0 },
+  { regex: new RegExp(`no\\s+more\\s+than\\s+(\\d[\\d,]*)\\s+${EMPLOYEE_NOUN}`, 'gi'), offset: 0 },
+];
+
+// Exemption wording flips an upper bound into a lower one
+// ("does not apply to employers with fewer than 15 employees")
+const EXEMPTION_CUE = /\b(does not apply|shall not apply|exempt|excluded|excludes)\b/i;
+
+// Wording that states who the law covers ("applies to", "covered entity means")
+const COVERAGE_CUE =
+  /\b(appl(?:y|ies)\s+(?:only\s+)?to|covers|covered\s+(?:entit(?:y|ies)|persons?|businesses|employers?)\s+(?:means?|includes?))\b/i;
+
+// Examples and carve-outs name sectors without limiting scope to them
+const NON_LIMITING_CUE = /\b(including|includes|such as|other than|except)\b/i;
+
+// Leading enumeration and determiners before a sentence's subject
+const SUBJECT_PREFIX = /^\s*(?:\([0-9a-z]{1,3}\)\s*)*(?:(?:all|each|every|any|a|an|the)\s+)?/i;
+
+const SECTOR_PATTERNS: Array<{ sector: Industry; regex: RegExp }> = [
+  {
+    sector: Industry.HEALTHCARE,
+    regex: /\b(health\s*care providers?|hospitals?|health plans?|clinics?|medical practices?)\b/i,
+  },
+  {
+    sector: Industry.FINANCE,
+    regex: /\b(financial institutions?|banks?|credit unions?|broker-dealers?|insurers?|lenders?|money transmitters?)\b/i,
+  },
+  {
+    sector: Industry.MANUFACTURING,
+    regex: /\b(manufacturers?|manufacturing facilit(?:y|ies)|industrial facilit(?:y|ies))\b/i,
+  },
+  {
+    sector: Industry.RETAIL,
+    regex: /\b(retailers?|retail establishments?|retail stores?|merchants?)\b/i,
+  },
+  {
+    sector: Industry.TECHNOLOGY,
+    regex: /\b(online platforms?|technology compan(?:y|ies)|software providers?|data brokers?|internet service providers?)\b/i,
+  },
+];
+
+const INDUSTRY_ALIASES: Array<{ industry: Industry; regex: RegExp }> = [
+  { industry: Industry.HEALTHCARE, regex: /health|medical|pharma|hospital/i },
+  { industry: Industry.FINANCE, regex: /financ|bank|insur|credit|invest/i },
+  { industry: Industry.MANUFACTURING, regex: /manufactur|industrial/i },
+  { industry: Industry.RETAIL, regex: /retail|e-?commerce|consumer goods/i },
+  { industry: Industry.TECHNOLOGY, regex: /tech|software|saas|internet/i },
+];
+
+/**
+ * Map a free-text industry (Customer.industry) to the Industry enum
+ * @param industry - e.g. "Financial Services"
+ * @returns Matching Industry, or OTHER
+ */
+export function normalizeIndustry(industry: string): Industry {
+  const upper = industry.trim().toUpperCase();
+  if ((Object.values(Industry) as string[]).includes(upper)) {
+    return upper as Industry;
+  }
+  return INDUSTRY_ALIASES.find((alias) => alias.regex.test(industry))?.industry ?? Industry.OTHER;
+}
+
+function parseCount(value: string): number {
+  return Number(value.replace(/,/g, ''));
+}
+
+/**
+ * Parse scope criteria from regulation text
+ * @param text - Regulation text
+ * @returns Employee thresholds, sectors and the phrases they came from
+ */
+export function extractRegulationScope(text: string): RegulationScope {
+  const scope: RegulationScope = { sectors: [], mentionedSectors: [], evidence: [] };
+  const sentences = text.split(/(?<=[.;])\s+|\n+/);
+
+  for (const sentence of sentences) {
+    const exempting = EXEMPTION_CUE.test(sentence);
+
+    for (const { regex, offset } of MIN_EMPLOYEE_PATTERNS) {
+      for (const match of sentence.matchAll(regex)) {
+        const count = parseCount(match[1]) + offset;
+        if (exempting) {
+          // "exempts employers with 50 or more employees" -> covers up to 49
+          scope.maxEmployees = Math.min(scope.maxEmployees ?? Infinity, count - 1);
+        } else {
+          scope.minEmployees = Math.max(scope.minEmployees ?? 0, count);
+        }
+        scope.evidence.push(match[0]);
+      }
+    }
+
+    for (const { regex, offset } of MAX_EMPLOYEE_PATTERNS) {
+      for (const match of sentence.matchAll(regex)) {
+        const count = parseCount(match[1]) + offset;
+        if (exempting) {
+          // "does not apply to employers with fewer than 15 employees" -> 15+
+          scope.minEmployees = Math.max(scope.minEmployees ?? 0, count + 1);
+        } else {
+          scope.maxEmployees = Math.min(scope.maxEmployees ?? Infinity, count);
+        }
+        scope.evidence.push(match[0]);
+      }
+    }
+
+    // A sector is the law's scope only in coverage wording or as the subject
+    // of an obligation ("Banks shall..."); a sick-leave law that mentions
+    // "hospitals or clinics" is not limited to healthcare
+    const subject = sentence.replace(SUBJECT_PREFIX, '');
+    const obligationSubject = /\b(shall|must)\b/i.test(subject);
+    for (const { sector, regex } of SECTOR_PATTERNS) {
+      const match = sentence.match(regex);
+      if (!match) continue;
+
+      const addressed =
+        !exempting &&
+        !NON_LIMITING_CUE.test(sentence.slice(0, match.index)) &&
+        (COVERAGE_CUE.test(sentence) || (obligationSubject && subject.search(regex) === 0));
+      if (addressed) {
+        if (!scope.sectors.includes(sector)) {
+          scope.sectors.push(sector);
+          scope.evidence.push(match[0]);
+        }
+      } else if (!scope.mentionedSectors.includes(sector)) {
+        scope.mentionedSectors.push(sector);
+      }
+    }
+  }
+
+  scope.mentionedSectors = scope.mentionedSectors.filter((sector) => !scope.sectors.includes(sector));
+
+  return scope;
+}
+
+/**
+ * Evaluate whether a regulation applies to a customer
+ * - Any NOT_MET criterion makes it NOT_APPLICABLE
+ * - Any UNKNOWN criterion (and no NOT_MET) makes it POSSIBLY_APPLICABLE
+ * - Otherwise APPLICABLE
+ *
+ * @param regulation - Regulation with jurisdiction and latest text
+ * @param customer - Customer profile
+ * @returns Verdict with per-criterion reasons
+ */
+export function evaluateApplicability(
+  regulation: ApplicabilityRegulation,
+  customer: ApplicabilityCustomer
+): ApplicabilityResult {
+  const scope = extractRegulationScope(regulation.contentText ?? '');
+  const reasons: ApplicabilityReason[] = [];
+  const { jurisdiction } = regulation;
+
+  // Jurisdiction
+  const operating = customer.operatingJurisdictions.map((code) => code.toUpperCase());
+  if (jurisdiction.type === 'FEDERAL') {
+    reasons.push({
+      criterion: 'JURISDICTION',
+      outcome: 'MET',
+      detail: `Federal regulation (${jurisdiction.name}) applies in every state`,
+      confidence: CONFIDENCE.jurisdiction,
+    });
+  } else if (operating.length === 0) {
+    reasons.push({
+      criterion: 'JURISDICTION',
+      outcome: 'UNKNOWN',
+      detail: 'Operating jurisdictions are not configured for this customer',
+      confidence: 0.5,
+    });
+  } else {
+    const operatesThere = operating.includes(jurisdiction.code.toUpperCase());
+    reasons.push({
+      criterion: 'JURISDICTION',
+      outcome: operatesThere ? 'MET' : 'NOT_MET',
+      detail: operatesThere
+        ? `Operates in ${jurisdiction.name}`
+        : `Does not operate in ${jurisdiction.name}`,
+      confidence: CONFIDENCE.jurisdiction,
+    });
+  }
+
+  // Employee thresholds
+  if (scope.minEmployees !== undefined || scope.maxEmployees !== undefined) {
+    const belowMin = scope.minEmployees !== undefined && customer.employeeCount < scope.minEmployees;
+    const aboveMax = scope.maxEmployees !== undefined && customer.employeeCount > scope.maxEmployees;
+    const range = [
+      scope.minEmployees !== undefined ? `${scope.minEmployees}+` : null,
+      scope.maxEmployees !== undefined ? `at most ${scope.maxEmployees}` : null,
+    ]
+      .filter(Boolean)
+      .join(', ');
+
+    reasons.push({
+      criterion: 'EMPLOYEE_THRESHOLD',
+      outcome: belowMin || aboveMax ? 'NOT_MET' : 'MET',
+      detail: `Covers employers with ${range} employees; customer has ${customer.employeeCount}`,
+      confidence: CONFIDENCE.threshold,
+    });
+  }
+
+  // Sectors
+  if (scope.sectors.length > 0) {
+    const industry = normalizeIndustry(customer.industry);
+    const inSector = scope.sectors.includes(industry);
+    reasons.push({
+      criterion: 'SECTOR',
+      outcome: inSector ? 'MET' : industry === Industry.OTHER ? 'UNKNOWN' : 'NOT_MET',
+      detail: `Targets ${scope.sectors.join(', ').toLowerCase()}; customer industry is ${customer.industry}`,
+      confidence: inSector || industry !== Industry.OTHER ? CONFIDENCE.sector : 0.5,
+    });
+  }
+
+  // Named sectors without coverage wording leave the scope unclear
+  if (scope.sectors.length === 0 && scope.mentionedSectors.length > 0) {
+    const industry = normalizeIndustry(customer.industry);
+    if (!scope.mentionedSectors.includes(industry)) {
+      reasons.push({
+        criterion: 'SECTOR',
+        outcome: 'UNKNOWN',
+        detail: `Mentions ${scope.mentionedSectors.join(', ').toLowerCase()} without limiting its scope to them; customer industry is ${customer.industry}`,
+        confidence: 0.5,
+      });
+    }
+  }
+
+  const notMet = reasons.filter((reason) => reason.outcome === 'NOT_MET');
+  const unknown = reasons.filter((reason) => reason.outcome === 'UNKNOWN');
+
+  let status: ApplicabilityStatus;
+  let confidence: number;
+  if (notMet.length > 0) {
+    status = 'NOT_APPLICABLE';
+    confidence = Math.max(...notMet.map((reason) => reason.confidence));
+  } else if (unknown.length > 0) {
+    status = 'POSSIBLY_APPLICABLE';
+    confidence = 0.5;
+  } else {
+    status = 'APPLICABLE';
+    const met = reasons.map((reason) => reason.confidence);
+    // Jurisdiction alone says little about whether obligations bite
+    confidence = reasons.length === 1
+      ? Math.min(met[0], CONFIDENCE.noCriteria)
+      : met.reduce((sum, value) => sum + value, 0) / met.length;
+  }
+
+  return {
+    regulationId: regulation.id,
+    status,
+    applies: status !== 'NOT_APPLICABLE',
+    confidence: parseFloat(confidence.toFixed(2)),
+    reasons,
+    scope,
+  };
+}
+
+/**
+ * Evaluate every active regulation for a customer
+ * @param customerId - Customer ID
+ * @returns Verdicts keyed by regulation id
+ */
+export async function evaluateCustomerApplicability(
+  customerId: string
+): Promise<Map<string, ApplicabilityResult>> {
+  const [customer, regulations] = await Promise.all([
+    prisma.customer.findUnique({
+      where: { id: customerId },
+      select: { industry: true, employeeCount: true, operatingJurisdictions: true },
+    }),
+    prisma.regulation.findMany({
+      where: { status: 'ACTIVE' },
+      select: {
+        id: true,
+        jurisdiction: { select: { code: true, name: true, type: true } },
+        versions: {
+          select: { contentText: true },
+          orderBy: { versionNumber: 'desc' },
+          take: 1,
+        },
+      },
+    }),
+  ]);
+
+  const results = new Map<string, ApplicabilityResult>();
+  if (!customer) {
+    return results;
+  }
+
+  for (const regulation of regulations) {
+    results.set(
+      regulation.id,
+      evaluateApplicability(
+        {
+          id: regulation.id,
+          jurisdiction: regulation.jurisdiction,
+          contentText: regulation.versions[0]?.contentText ?? null,
+        },
+        customer
+      )
+    );
+  }
+  return results;
+}
+
+/**
+ * Suggest regulations to add to the watchlist
+ * Applicable regulations the customer does not already watch, most certain first
+ * @param customerId - Customer ID
+ * @param watchedIds - Regulation ids already watched (directly or by rule)
+ * @param limit - Maximum suggestions
+ * @returns Applicability results for suggested regulations
+ */
+export async function suggestWatchlistRegulations(
+  customerId: string,
+  watchedIds: Set<string>,
+  limit: number = 10
+): Promise<ApplicabilityResult[]> {
+  const results = await evaluateCustomerApplicability(customerId);
+  return Array.from(results.values())
+    .filter((result) => result.status === 'APPLICABLE' && !watchedIds.has(result.regulationId))
+    .sort((a, b) => b.confidence - a.confidence)
+    .slice(0, limit);
+}
@@ -0,0 +1,353 @@
+/**
+ * Regulation Change Classifier
+ * Classifies each section change by what it does to compliance requirements:
+ * obligations added or removed, thresholds, deadlines, definitions, scope and
+ * penalties, or editorial only (renumbering, moves, wording and typo fixes).
+ * Works on the structure-aware section changes, so renumbered and moved
+ * clauses are compared with their own previous text.
+ */
+
+import {
+  ChangeClassification,
+  ClassifiedChange,
+  DiffResult,
+  SectionChange,
+  SignificanceScore,
+} from '@/types/policydiff';
+
+/**
+ * Impact of each kind of change on significance
+ */
+export const CLASSIFICATION_IMPACT: Record<ChangeClassification, SignificanceScore> = {
+  [ChangeClassification.OBLIGATION_ADDED]: SignificanceScore.HIGH,
+  [ChangeClassification.THRESHOLD_CHANGED]: SignificanceScore.HIGH,
+  [ChangeClassification.DEADLINE_SHIFTED]: SignificanceScore.HIGH,
+  [ChangeClassification.SCOPE_EXPANDED]: SignificanceScore.HIGH,
+  [ChangeClassification.PENALTY_CHANGED]: SignificanceScore.HIGH,
+  [ChangeClassification.OBLIGATION_REMOVED]: SignificanceScore.MEDIUM,
+  [ChangeClassification.DEFINITION_CHANGED]: SignificanceScore.MEDIUM,
+  [ChangeClassification.SCOPE_NARROWED]: SignificanceScore.MEDIUM,
+  [ChangeClassification.OTHER]: SignificanceScore.LOW,
+  [ChangeClassification.EDITORIAL]: SignificanceScore.LOW,
+};
+
+/**
+ * Display labels for each kind of change
+ */
+export const CLASSIFICATION_LABELS: Record<ChangeClassification, string> = {
+  [ChangeClassification.OBLIGATION_ADDED]: 'Obligation added',
+  [ChangeClassification.OBLIGATION_REMOVED]: 'Obligation removed',
+  [ChangeClassification.THRESHOLD_CHANGED]: 'Threshold changed',
+  [ChangeClassification.DEADLINE_SHIFTED]: 'Deadline shifted',
+  [ChangeClassification.DEFINITION_CHANGED]: 'Definition changed',
+  [ChangeClassification.SCOPE_EXPANDED]: 'Scope expanded',
+  [ChangeClassification.SCOPE_NARROWED]: 'Scope narrowed',
+  [ChangeClassification.PENALTY_CHANGED]: 'Penalty changed',
+  [ChangeClassification.OTHER]: 'Other change',
+  [ChangeClassification.EDITORIAL]: 'Editorial only',
+};
+
+// Longest alternatives first so "shall not" is one obligation, not "shall" + "not"
+const OBLIGATION_PATTERN =
+  /\b(?:shall not|must not|may not|shall|must|(?:is|are) required to|(?:is|are) prohibited from)\b/g;
+
+const EXEMPTION_PATTERN =
+  /\b(?:does not apply|do not apply|shall not apply|exempt(?:ed|ion|ions)?|except|excluding|other than|unless)\b/g;
+
+const APPLICABILITY_PATTERN = /\b(?:applies to|apply to|applicable to|including|includes)\b/g;
+
+const DEFINITION_PATTERN = /(?:["“][^"”]+["”]\s+(?:means|includes|shall mean))|\bis defined as\b|^definitions?\b/i;
+
+const PENALTY_PATTERN =
+  /\b(?:penalt(?:y|ies)|fines?|damages|liable|liability|imprisonment|sanctions?)\b/;
+
+const MONEY_PATTERN = /\$\s?\d+(?:,\d{3})*(?:\.\d+)?(?:\s*(?:thousand|million|billion))?/g;
+
+const NUMBER_WORD = 'one|two|three|four|five|six|seven|eight|nine|ten|twelve|eighteen|twenty|thirty|sixty|ninety';
+
+const DURATION_PATTERN = new RegExp(
+  `\\b(?:\\d+(?:,\\d{3})*|${NUMBER_WORD})\\s+(?:business\\s+|calendar\\s+)?(?:hours?|days?|weeks?|months?|years?)\\b`,
+  'g'
+);
+
+const DATE_PATTERN =
+  /\b(?:january|february|march|april|may|june|july|august|september|october|november|december)\s+\d{1,2},\s+\d{4}\b|\b\d{4}-\d{2}-\d{2}\b/g;
+
+// Section references change when sections are renumbered; they are not thresholds
+const REFERENCE_PATTERN =
+  /(?:§+\s*[\w.-]+|\b(?:section|sec\.|subsection|paragraph|article|art\.|chapter|title|part)\s+\d[\w.-]*)(?:\(\w+\))*/gi;
+
+const NUMBER_PATTERN = /\b\d+(?:,\d{3})*(?:\.\d+)?%?/g;
+
+// Longest excerpt kept as before/after text
+const MAX_EXCERPT_LENGTH = 280;
+
+interface Facts {
+  deadlines: string[];
+  money: string[];
+  numbers: string[]; // Counts, percentages and other figures
+  obligations: number;
+  exemptions: number;
+  applicability: number;
+  definition: boolean;
+  penalty: boolean;
+}
+
+function matches(text: string, pattern: RegExp): string[] {
+  return (text.match(pattern) ?? []).map((value) => value.replace(/\s+/g, ' ').trim());
+}
+
+/**
+ * Requirement-bearing facts of a clause
+ */
+function extractFacts(text: string): Facts {
+  const lower = text.toLowerCase().replace(REFERENCE_PATTERN, ' ');
+  const deadlines = [...matches(lower, DURATION_PATTERN), ...matches(lower, DATE_PATTERN)];
+  const money = matches(lower, MONEY_PATTERN);
+  // Figures not already read as a deadline or amount
+  const rest = [DURATION_PATTERN, DATE_PATTERN, MONEY_PATTERN].reduce(
+    (remaining, pattern) => remaining.replace(pattern, ' '),
+    lower
+  );
+
+  return {
+    deadlines,
+    money,
+    numbers: matches(rest, NUMBER_PATTERN),
+    obligations: matches(lower, OBLIGATION_PATTERN).length,
+    exemptions: matches(lower, EXEMPTION_PATTERN).length,
+    // "does not apply to" is an exemption, not coverage
+    applicability: matches(lower.replace(EXEMPTION_PATTERN, ' '), APPLICABILITY_PATTERN).length,
+    definition: DEFINITION_PATTERN.test(text.trim()),
+    penalty: PENALTY_PATTERN.test(lower),
+  };
+}
+
+/**
+ * Values in one list and not the other (as multisets)
+ */
+function difference(values: string[], others: string[]): string[] {
+  const remaining = [...others];
+  return values.filter((value) => {
+    const index = remaining.indexOf(value);
+    if (index < 0) return true;
+    remaining.splice(index, 1);
+    return false;
+  });
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function comparableWords(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(REFERENCE_PATTERN, ' ref ')
+    .replace(/\bmust\b/g, 'shall')
+    .replace(/[^a-z0-9$%\s]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean);
+}
+
+/**
+ * Whether two texts differ only in punctuation, case, cross-reference
+ * numbers, "must"/"shall", or misspellings of the same words
+ */
+export function isEditorialChange(oldText: string, newText: string): boolean {
+  const oldWords = comparableWords(oldText);
+  const newWords = comparableWords(newText);
+  if (oldWords.length !== newWords.length) return false;
+
+  return oldWords.every((word, i) => word === newWords[i] || isMisspelling(word, newWords[i]));
+}
+
+/**
+ * Whether two words are spellings of the same word: one letter off inside
+ * the word. Edits to the first letter or the ending make a different word
+ * (cost/most, employee/employer, insured/insurer, data/date, right/rights).
+ */
+function isMisspelling(word: string, other: string): boolean {
+  return (
+    !/\d/.test(word + other) &&
+    Math.min(word.length, other.length) >= 4 &&
+    word[0] === other[0] &&
+    word.slice(-2) === other.slice(-2) &&
+    levenshtein(word, other) <= 1
+  );
+}
+
+function excerpt(text: string | null): string | null {
+  if (!text) return null;
+  return text.length > MAX_EXCERPT_LENGTH ? `${text.slice(0, MAX_EXCERPT_LENGTH - 1)}…` : text;
+}
+
+function classified(
+  classification: ChangeClassification,
+  change: SectionChange,
+  description: string,
+  before: string | null = excerpt(change.oldText),
+  after: string | null = excerpt(change.newText)
+): ClassifiedChange {
+  return {
+    classification,
+    impact: CLASSIFICATION_IMPACT[classification],
+    section: change.label,
+    description,
+    before,
+    after,
+  };
+}
+
+/**
+ * Classify an added or removed section by its strongest signal
+ */
+function classifyAddedOrRemoved(change: SectionChange): ClassifiedChange {
+  const added = change.type === 'ADDED';
+  const facts = extractFacts((added ? change.newText : change.oldText) ?? '');
+  const verb = added ? 'added' : 'removed';
+  const where = added ? `in ${change.label}` : `from ${change.label}`;
+
+  if (facts.definition) {
+    return classified(ChangeClassification.DEFINITION_CHANGED, change, `Definition ${verb} ${where}`);
+  }
+  if (facts.penalty) {
+    return classified(ChangeClassification.PENALTY_CHANGED, change, `Penalty ${verb} ${where}`);
+  }
+  if (facts.obligations > 0) {
+    return added
+      ? classified(ChangeClassification.OBLIGATION_ADDED, change, `New obligation in ${change.label}`)
+      : classified(ChangeClassification.OBLIGATION_REMOVED, change, `Obligation removed from ${change.label}`);
+  }
+  if (facts.exemptions > 0) {
+    // A new exemption narrows the regulation; dropping one widens it
+    return added
+      ? classified(ChangeClassification.SCOPE_NARROWED, change, `Exemption added in ${change.label}`)
+      : classified(ChangeClassification.SCOPE_EXPANDED, change, `Exemption removed from ${change.label}`);
+  }
+  if (facts.applicability > 0) {
+    return added
+      ? classified(ChangeClassification.SCOPE_EXPANDED, change, `Coverage added in ${change.label}`)
+      : classified(ChangeClassification.SCOPE_NARROWED, change, `Coverage removed from ${change.label}`);
+  }
+  return classified(ChangeClassification.OTHER, change, `${change.label} ${verb}`);
+}
+
+/**
+ * Classify a section whose text changed; one change can be several kinds
+ */
+function classifyRewrite(change: SectionChange): ClassifiedChange[] {
+  const oldText = change.oldText ?? '';
+  const newText = change.newText ?? '';
+  if (isEditorialChange(oldText, newText)) {
+    return [classified(ChangeClassification.EDITORIAL, change, `Wording corrected in ${change.label}`)];
+  }
+
+  const before = extractFacts(oldText);
+  const after = extractFacts(newText);
+  const results: ClassifiedChange[] = [];
+  const valueChange = (
+    classification: ChangeClassification,
+    subject: string,
+    oldValues: string[],
+    newValues: string[]
+  ) => {
+    const removed = difference(oldValues, newValues);
+    const added = difference(newValues, oldValues);
+    if (removed.length === 0 && added.length === 0) return false;
+    const from = removed.join(', ') || 'none';
+    const to = added.join(', ') || 'none';
+    results.push(
+      classified(
+        classification,
+        change,
+        `${subject} in ${change.label} changed from ${from} to ${to}`,
+        removed.join(', ') || null,
+        added.join(', ') || null
+      )
+    );
+    return true;
+  };
+
+  valueChange(ChangeClassification.DEADLINE_SHIFTED, 'Deadline', before.deadlines, after.deadlines);
+
+  const penaltyClause = before.penalty || after.penalty;
+  if (penaltyClause) {
+    const amountChanged = valueChange(ChangeClassification.PENALTY_CHANGED, 'Penalty', before.money, after.money);
+    if (!amountChanged && before.penalty !== after.penalty) {
+      results.push(
+        classified(
+          ChangeClassification.PENALTY_CHANGED,
+          change,
+          `Penalty ${after.penalty ? 'added in' : 'removed from'} ${change.label}`
+        )
+      );
+    }
+  } else {
+    valueChange(ChangeClassification.THRESHOLD_CHANGED, 'Threshold', before.money, after.money);
+  }
+  valueChange(ChangeClassification.THRESHOLD_CHANGED, 'Threshold', before.numbers, after.numbers);
+
+  if (before.definition || after.definition) {
+    results.push(classified(ChangeClassification.DEFINITION_CHANGED, change, `Definition changed in ${change.label}`));
+  } else {
+    if (after.obligations > before.obligations) {
+      results.push(classified(ChangeClassification.OBLIGATION_ADDED, change, `Obligation added in ${change.label}`));
+    } else if (after.obligations < before.obligations) {
+      results.push(classified(ChangeClassification.OBLIGATION_REMOVED, change, `Obligation removed from ${change.label}`));
+    }
+
+    const scope =
+      after.applicability - before.applicability - (after.exemptions - before.exemptions);
+    if (scope > 0) {
+      results.push(classified(ChangeClassification.SCOPE_EXPANDED, change, `Scope expanded in ${change.label}`));
+    } else if (scope < 0) {
+      results.push(classified(ChangeClassification.SCOPE_NARROWED, change, `Scope narrowed in ${change.label}`));
+    }
+  }
+
+  if (results.length === 0) {
+    results.push(classified(ChangeClassification.OTHER, change, `${change.label} reworded`));
+  }
+  return results;
+}
+
+/**
+ * Classify one section change
+ * @param change - Change from the section tree diff
+ * @returns One or more classified changes
+ */
+export function classifySectionChange(change: SectionChange): ClassifiedChange[] {
+  if (change.type === 'ADDED' || change.type === 'REMOVED') {
+    return [classifyAddedOrRemoved(change)];
+  }
+  if (!change.textChanged) {
+    const description =
+      change.type === 'RENUMBERED'
+        ? `${change.previousLabel} renumbered to ${change.label}`
+        : `${change.previousLabel} moved to ${change.label}`;
+    return [classified(ChangeClassification.EDITORIAL, change, description, change.previousLabel, change.label)];
+  }
+  return classifyRewrite(change);
+}
+
+/**
+ * Classify every change between two regulation versions
+ * @param diffResult - Result from generateTextDiff
+ * @returns Classified changes in current-version order
+ */
+export function classifyChanges(diffResult: DiffResult): ClassifiedChange[] {
+  return (diffResult.sections ?? []).flatMap(classifySectionChange);
+}
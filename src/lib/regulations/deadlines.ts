@@ -0,0 +1,455 @@
+/**
+ * Deadline Extraction Pipeline
+ * Finds compliance deadlines in regulation text and stores them as Deadline rows
+ * Deterministic parsing handles absolute dates ("no later than January 1, 2027")
+ * and relative phrases ("within 90 days of the effective date"); AI refinement
+ * is optional and only adds or confirms candidates
+ */
+
+import prisma from '@/lib/prisma';
+import { extractDeadlineCandidates } from '@/lib/ai/summarizer';
+import type {
+  AIDeadlineCandidate,
+  DeadlineExtractionContext,
+  DeadlineRiskLevel,
+  DeadlineType,
+  ExtractedDeadline,
+} from '@/types/deadlines';
+
+const AI_ENABLED = process.env.ENABLE_AI_DEADLINE_EXTRACTION === 'true';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Absolute dates further back than this are historical references, not deadlines
+const HISTORICAL_CUTOFF_DAYS = 365;
+
+const DEADLINE_TYPES: DeadlineType[] = [
+  'EFFECTIVE_DATE',
+  'COMPLIANCE',
+  'FILING',
+  'REPORTING',
+  'NOTICE',
+  'TRAINING',
+];
+
+const MONTHS: Record<string, number> = {
+  jan: 0, feb: 1, mar: 2, apr: 3, may: 4, jun: 5,
+  jul: 6, aug: 7, sep: 8, oct: 9, nov: 10, dec: 11,
+};
+
+// Longest phrases first so "one hundred eighty" wins over "one"
+const NUMBER_WORDS: Record<string, number> = {
+  'one hundred eighty': 180,
+  'one hundred twenty': 120,
+  'forty-five': 45,
+  'forty five': 45,
+  'twenty-one': 21,
+  'twenty one': 21,
+  ninety: 90,
+  sixty: 60,
+  thirty: 30,
+  twenty: 20,
+  fifteen: 15,
+  fourteen: 14,
+  twelve: 12,
+  ten: 10,
+  seven: 7,
+  six: 6,
+  five: 5,
+  four: 4,
+  three: 3,
+  two: 2,
+  one: 1,
+};
+
+const MONTH_NAME =
+  'Jan(?:uary)?|Feb(?:ruary)?|Mar(?:ch)?|Apr(?:il)?|May|June?|July?|Aug(?:ust)?|Sep(?:t(?:ember)?)?|Oct(?:ober)?|Nov(?:ember)?|Dec(?:ember)?';
+
+const ABSOLUTE_DATE_PATTERNS: Array<{
+  regex: RegExp;
+  toDate: (m: RegExpExecArray) => Date | null;
+}> = [
+  {
+    // January 1, 2027 / Jan. 1st 2027
+    regex: new RegExp(`\\b(${MONTH_NAME})\\.?\\s+(\\d{1,2})(?:st|nd|rd|th)?,?\\s+(\\d{4})\\b`, 'gi'),
+    toDate: (m) => utcDate(Number(m[3]), MONTHS[m[1].slice(0, 3).toLowerCase()], Number(m[2])),
+  },
+  {
+    // 1 January 2027
+    regex: new RegExp(`\\b(\\d{1,2})\\s+(${MONTH_NAME})\\.?,?\\s+(\\d{4})\\b`, 'gi'),
+    toDate: (m) => utcDate(Number(m[3]), MONTHS[m[2].slice(0, 3).toLowerCase()], Number(m[1])),
+  },
+  {
+    // 2027-01-01
+    regex: /\b(\d{4})-(\d{2})-(\d{2})\b/g,
+    toDate: (m) => utcDate(Number(m[1]), Number(m[2]) - 1, Number(m[3])),
+  },
+  {
+    // 1/1/2027 (US order)
+    regex: /\b(\d{1,2})\/(\d{1,2})\/(\d{4})\b/g,
+    toDate: (m) => utcDate(Number(m[3]), Number(m[1]) - 1, Number(m[2])),
+  },
+];
+
+// Leading \b so "1000 days" is not read as "000 days"
+const NUMBER_PATTERN = `\\b(\\d{1,3}|${Object.keys(NUMBER_WORDS).join('|')})(?:\\s*\\((\\d{1,3})\\))?`;
+
+const RELATIVE_PATTERN = new RegExp(
+  `${NUMBER_PATTERN}\\s+(business\\s+|calendar\\s+)?(day|week|month|year)s?\\s+` +
+    `(of|after|following|from|before|prior\\s+to)\\s+(?:the\\s+)?` +
+    `(effective\\s+date|operative\\s+date|date\\s+of\\s+enactment|enactment|` +
+    `date\\s+of\\s+publication|publication|adoption)`,
+  'gi'
+);
+
+// Phrases that directly introduce a deadline date
+const STRONG_TRIGGER =
+  /\b(no later than|not later than|on or before|by|takes? effect(?: on)?|effective(?: on| as of)?|beginning(?: on)?|commencing(?: on)?|starting(?: on)?|until|due(?: on| by)?)\s*$/i;
+
+// A sentence must read like an obligation or deadline to be considered
+const DEADLINE_CUE =
+  /\b(shall|must|required?|no later than|not later than|on or before|by|within|takes? effect|effective|operative|deadline|due|beginning|commencing|starting)\b/i;
+
+const TYPE_RULES: Array<{ type: DeadlineType; pattern: RegExp }> = [
+  { type: 'FILING', pattern: /\b(file|filing|submit|submission|register|registration)\b/i },
+  { type: 'REPORTING', pattern: /\breport(s|ing)?\b/i },
+  { type: 'TRAINING', pattern: /\btrain(ing|ed)?\b/i },
+  { type: 'NOTICE', pattern: /\b(notice|notify|notification|disclos\w*|post)\b/i },
+  {
+    type: 'EFFECTIVE_DATE',
+    pattern: /\b(takes? effect|effective date|becomes? (effective|operative)|is effective|shall be effective|operative)\b/i,
+  },
+];
+
+/**
+ * Build a UTC midnight date, rejecting impossible values (e.g. Feb 30)
+ */
+function utcDate(year: number, month: number, day: number): Date | null {
+  if (month === undefined || month < 0 || month > 11 || day < 1 || day > 31) {
+    return null;
+  }
+  const date = new Date(Date.UTC(year, month, day));
+  return date.getUTCDate() === day ? date : null;
+}
+
+function startOfUtcDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+/**
+ * Shift a date by a number of units (negative amounts move backwards)
+ */
+function shiftDate(
+  anchor: Date,
+  amount: number,
+  unit: string,
+  businessDays: boolean
+): Date {
+  const date = startOfUtcDay(anchor);
+  switch (unit) {
+    case 'day':
+      if (!businessDays) {
+        return new Date(date.getTime() + amount * DAY_MS);
+      }
+      {
+        const step = amount < 0 ? -1 : 1;
+        let remaining = Math.abs(amount);
+        let current = date;
+        while (remaining > 0) {
+          current = new Date(current.getTime() + step * DAY_MS);
+          const weekday = current.getUTCDay();
+          if (weekday !== 0 && weekday !== 6) {
+            remaining--;
+          }
+        }
+        return current;
+      }
+    case 'week':
+      return new Date(date.getTime() + amount * 7 * DAY_MS);
+    case 'month':
+      return addUtcMonths(date, amount);
+    default:
+      return addUtcMonths(date, amount * 12);
+  }
+}
+
+/**
+ * Same day of the month `months` later, or the last day of a shorter month
+ * (Jan 31 + 1 month = Feb 28), rather than overflowing into the next one
+ */
+function addUtcMonths(date: Date, months: number): Date {
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth() + months;
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(year, month, Math.min(date.getUTCDate(), lastDay)));
+}
+
+/**
+ * Split regulation text into sentence-sized clauses
+ */
+function splitSentences(text: string): string[] {
+  return text
+    .split(/\n+|(?<=;)\s+|(?<=\.)\s+(?=[A-Z(§])/)
+    .map((sentence) => sentence.replace(/\s+/g, ' ').trim())
+    .filter((sentence) => sentence.length > 0);
+}
+
+function toDescription(sentence: string): string {
+  return sentence.length > 200 ? `${sentence.slice(0, 197)}...` : sentence;
+}
+
+/**
+ * Classify the obligation a deadline sentence describes
+ * @param sentence - Sentence containing the deadline
+ * @returns Deadline type (COMPLIANCE when nothing more specific matches)
+ */
+export function classifyDeadlineType(sentence: string): DeadlineType {
+  return TYPE_RULES.find((rule) => rule.pattern.test(sentence))?.type ?? 'COMPLIANCE';
+}
+
+/**
+ * Compute deadline risk from time remaining and obligation type
+ * - Overdue or within 30 days: CRITICAL
+ * - Within 90 days: CRITICAL for effective/compliance/filing deadlines, else IMPORTANT
+ * - Within 180 days: IMPORTANT
+ * - Otherwise: ROUTINE
+ *
+ * @param deadlineDate - Deadline date
+ * @param deadlineType - Deadline type
+ * @param referenceDate - "Today"
+ * @returns Risk level
+ */
+export function calculateDeadlineRiskLevel(
+  deadlineDate: Date,
+  deadlineType: DeadlineType,
+  referenceDate: Date = new Date()
+): DeadlineRiskLevel {
+  const daysUntil = Math.floor(
+    (startOfUtcDay(deadlineDate).getTime() - startOfUtcDay(referenceDate).getTime()) / DAY_MS
+  );
+
+  if (daysUntil <= 30) {
+    return 'CRITICAL';
+  }
+  if (daysUntil <= 90) {
+    return ['EFFECTIVE_DATE', 'COMPLIANCE', 'FILING'].includes(deadlineType)
+      ? 'CRITICAL'
+      : 'IMPORTANT';
+  }
+  if (daysUntil <= 180) {
+    return 'IMPORTANT';
+  }
+  return 'ROUTINE';
+}
+
+/**
+ * Parse deadlines from regulation text without AI
+ * @param text - Regulation text
+ * @param context - Anchor dates for relative phrases
+ * @returns Deadlines, one per date and type, highest confidence kept
+ */
+export function extractDeadlinesDeterministic(
+  text: string,
+  context: DeadlineExtractionContext = {}
+): ExtractedDeadline[] {
+  const referenceDate = context.referenceDate ?? new Date();
+  const historicalCutoff = referenceDate.getTime() - HISTORICAL_CUTOFF_DAYS * DAY_MS;
+  const found: ExtractedDeadline[] = [];
+
+  for (const sentence of splitSentences(text)) {
+    if (!DEADLINE_CUE.test(sentence)) {
+      continue;
+    }
+
+    // Relative phrases first; their spans are masked so the anchor
+    // wording does not drive classification
+    let remainder = sentence;
+    for (const match of sentence.matchAll(RELATIVE_PATTERN)) {
+      remainder = remainder.replace(match[0], ' ');
+
+      const word = match[1].toLowerCase();
+      const amount = Number(match[2] ?? (/^\d+$/.test(word) ? word : NUMBER_WORDS[word]));
+      const businessDays = /business/i.test(match[3] ?? '');
+      const unit = match[4].toLowerCase();
+      const direction = /before|prior/i.test(match[5]) ? -1 : 1;
+      const anchorPhrase = match[6].toLowerCase();
+
+      const anchorsEffective = /effective|operative/.test(anchorPhrase);
+      const anchor = anchorsEffective
+        ? context.effectiveDate ?? context.publishedDate
+        : context.publishedDate;
+      if (!anchor || !Number.isFinite(amount)) {
+        continue;
+      }
+
+      // Resolving "effective date" against the published date is a guess
+      const exactAnchor = anchorsEffective ? Boolean(context.effectiveDate) : true;
+      const deadlineDate = shiftDate(anchor, direction * amount, unit, businessDays);
+      const deadlineType = classifyDeadlineType(sentence.replace(match[0], ' '));
+
+      found.push({
+        deadlineDate,
+        deadlineType,
+        description: toDescription(sentence),
+        sourceText: match[0],
+        riskLevel: calculateDeadlineRiskLevel(deadlineDate, deadlineType, referenceDate),
+        extractionConfidence: exactAnchor ? 0.75 : 0.5,
+        method: 'RELATIVE',
+      });
+    }
+
+    for (const { regex, toDate } of ABSOLUTE_DATE_PATTERNS) {
+      regex.lastIndex = 0;
+      let match: RegExpExecArray | null;
+      while ((match = regex.exec(remainder)) !== null) {
+        const deadlineDate = toDate(match);
+        if (!deadlineDate || deadlineDate.getTime() < historicalCutoff) {
+          continue;
+        }
+
+        const lead = remainder.slice(Math.max(0, match.index - 40), match.index);
+        const deadlineType = classifyDeadlineType(sentence);
+
+        found.push({
+          deadlineDate,
+          deadlineType,
+          description: toDescription(sentence),
+          sourceText: match[0],
+          riskLevel: calculateDeadlineRiskLevel(deadlineDate, deadlineType, referenceDate),
+          extractionConfidence: STRONG_TRIGGER.test(lead) ? 0.85 : 0.65,
+          method: 'ABSOLUTE',
+        });
+      }
+    }
+  }
+
+  return dedupeDeadlines(found);
+}
+
+/**
+ * Keep the highest-confidence deadline per day and type
+ */
+function dedupeDeadlines(deadlines: ExtractedDeadline[]): ExtractedDeadline[] {
+  const byKey = new Map<string, ExtractedDeadline>();
+  for (const deadline of deadlines) {
+    const key = `${deadline.deadlineDate.toISOString().slice(0, 10)}:${deadline.deadlineType}`;
+    const existing = byKey.get(key);
+    if (!existing || deadline.extractionConfidence > existing.extractionConfidence) {
+      byKey.set(key, deadline);
+    }
+  }
+  return Array.from(byKey.values()).sort(
+    (a, b) => a.deadlineDate.getTime() - b.deadlineDate.getTime()
+  );
+}
+
+/**
+ * Merge AI candidates into deterministic results
+ * Matching dates confirm (boost) a parsed deadline; unmatched valid
+ * candidates are added at lower confidence
+ * @param deadlines - Deterministic deadlines
+ * @param candidates - Raw AI output
+ * @param referenceDate - "Today" for risk levels
+ * @returns Merged deadlines
+ */
+export function mergeAIDeadlines(
+  deadlines: ExtractedDeadline[],
+  candidates: AIDeadlineCandidate[],
+  referenceDate: Date = new Date()
+): ExtractedDeadline[] {
+  const merged = deadlines.map((deadline) => ({ ...deadline }));
+
+  for (const candidate of candidates) {
+    const match = /^(\d{4})-(\d{2})-(\d{2})/.exec(candidate?.date ?? '');
+    const deadlineDate = match
+      ? utcDate(Number(match[1]), Number(match[2]) - 1, Number(match[3]))
+      : null;
+    if (!deadlineDate || typeof candidate.description !== 'string') {
+      continue;
+    }
+
+    const day = deadlineDate.toISOString().slice(0, 10);
+    const confirmed = merged.find(
+      (deadline) => deadline.deadlineDate.toISOString().slice(0, 10) === day
+    );
+    if (confirmed) {
+      confirmed.extractionConfidence = Math.min(
+        0.95,
+        parseFloat((confirmed.extractionConfidence + 0.1).toFixed(2))
+      );
+      continue;
+    }
+
+    const deadlineType = DEADLINE_TYPES.includes(candidate.deadlineType as DeadlineType)
+      ? (candidate.deadlineType as DeadlineType)
+      : classifyDeadlineType(candidate.description);
+
+    merged.push({
+      deadlineDate,
+      deadlineType,
+      description: toDescription(candidate.description.trim()),
+      sourceText: candidate.description.trim(),
+      riskLevel: calculateDeadlineRiskLevel(deadlineDate, deadlineType, referenceDate),
+      extractionConfidence: 0.6,
+      method: 'AI',
+    });
+  }
+
+  return dedupeDeadlines(merged);
+}
+
+/**
+ * Extract deadlines, refining with AI when enabled
+ * @param text - Regulation text
+ * @param context - Anchor dates for relative phrases
+ * @param useAI - Override ENABLE_AI_DEADLINE_EXTRACTION
+ * @returns Extracted deadlines
+ */
+export async function extractDeadlines(
+  text: string,
+  context: DeadlineExtractionContext = {},
+  useAI: boolean = AI_ENABLED
+): Promise<ExtractedDeadline[]> {
+  const deadlines = extractDeadlinesDeterministic(text, context);
+  if (!useAI) {
+    return deadlines;
+  }
+
+  const candidates = await extractDeadlineCandidates(text);
+  return mergeAIDeadlines(deadlines, candidates, context.referenceDate);
+}
+
+/**
+ * Extract deadlines for a regulation version and replace its Deadline rows
+ * @param regulationVersionId - Version the deadlines belong to
+ * @param text - Version text
+ * @param context - Anchor dates (regulation effective date, version published date)
+ * @returns Number of deadlines stored
+ */
+export async function storeVersionDeadlines(
+  regulationVersionId: string,
+  text: string,
+  context: DeadlineExtractionContext = {}
+): Promise<number> {
+  const deadlines = await extractDeadlines(text, context);
+
+  await prisma.$transaction([
+    prisma.deadline.deleteMany({ where: { regulationVersionId } }),
+    prisma.deadline.createMany({
+      data: deadlines.map((deadline) => ({
+        regulationVersionId,
+        deadlineDate: deadline.deadlineDate,
+        deadlineType: deadline.deadlineType,
+        description: deadline.description,
+        sourceText: deadline.sourceText,
+        riskLevel: deadline.riskLevel,
+        extractionConfidence: deadline.extractionConfidence,
+      })),
+    }),
+  ]);
+
+  console.log(
+    `[Deadlines] Stored ${deadlines.length} deadlines for version ${regulationVersionId}`
+  );
+  return deadlines.length;
+}
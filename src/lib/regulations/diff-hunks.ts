@@ -0,0 +1,220 @@
+/**
+ * Ordered Diff Hunks
+ * Groups the lines of a diff into hunks of changes with surrounding context,
+ * collapses the unchanged regions between them, and pairs previous/current
+ * lines for the split view with word-level highlights. Parses the stored
+ * display diff (see formatDiffForDisplay) back into lines for the viewer.
+ */
+
+import type { DiffBlock, DiffHunk, DiffLine, SplitDiffRow } from '@/types/policydiff';
+import { diffInlineWords, wordSimilarity } from './section-diff';
+
+// Unchanged lines shown on each side of a change
+export const DEFAULT_CONTEXT_LINES = 3;
+
+// Word overlap at which a removed and an added line are one edited line
+export const INLINE_HIGHLIGHT_THRESHOLD = 0.5;
+
+const HUNK_HEADER_PATTERN = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+const LINE_PREFIX: Record<DiffLine['type'], string> = {
+  removed: '-',
+  added: '+',
+  unchanged: ' ',
+};
+
+/**
+ * Split a diff into hunks and collapsed unchanged regions
+ * @param lines - Diff lines in document order
+ * @param contextLines - Unchanged lines kept around each change (Infinity keeps all)
+ * @returns Blocks in document order; a diff without changes is one collapsed block
+ */
+export function buildDiffBlocks(
+  lines: DiffLine[],
+  contextLines: number = DEFAULT_CONTEXT_LINES
+): DiffBlock[] {
+  const context = Math.max(0, contextLines);
+
+  // Distance from each line to the nearest change
+  const distance = lines.map(() => Infinity);
+  let lastChange = -Infinity;
+  lines.forEach((line, i) => {
+    if (line.type !== 'unchanged') lastChange = i;
+    distance[i] = i - lastChange;
+  });
+  lastChange = Infinity;
+  for (let i = lines.length - 1; i >= 0; i--) {
+    if (lines[i].type !== 'unchanged') lastChange = i;
+    distance[i] = Math.min(distance[i], lastChange - i);
+  }
+
+  const blocks: DiffBlock[] = [];
+  let oldPosition = 0;
+  let newPosition = 0;
+  lines.forEach((line, i) => {
+    // Parsed diffs can skip lines between hunks
+    const contiguous =
+      (line.oldLineNumber === null || line.oldLineNumber === oldPosition + 1) &&
+      (line.newLineNumber === null || line.newLineNumber === newPosition + 1);
+    const last = blocks[blocks.length - 1];
+
+    if (distance[i] <= context) {
+      if (last?.kind === 'hunk' && contiguous) {
+        last.hunk.lines.push(line);
+      } else {
+        blocks.push({
+          kind: 'hunk',
+          hunk: {
+            oldStart: line.oldLineNumber ?? oldPosition + 1,
+            oldLines: 0,
+            newStart: line.newLineNumber ?? newPosition + 1,
+            newLines: 0,
+            lines: [line],
+          },
+        });
+      }
+      const hunk = (blocks[blocks.length - 1] as { hunk: DiffHunk }).hunk;
+      if (line.oldLineNumber !== null) hunk.oldLines++;
+      if (line.newLineNumber !== null) hunk.newLines++;
+    } else if (last?.kind === 'collapsed' && contiguous) {
+      last.lines.push(line);
+    } else {
+      blocks.push({ kind: 'collapsed', lines: [line] });
+    }
+
+    oldPosition = line.oldLineNumber ?? oldPosition;
+    newPosition = line.newLineNumber ?? newPosition;
+  });
+
+  return blocks;
+}
+
+/**
+ * Unified header of a hunk, e.g. "@@ -12,7 +12,8 @@"
+ */
+export function formatHunkHeader(hunk: DiffHunk): string {
+  return `@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`;
+}
+
+/**
+ * Display form of a diff line ("- ", "+ " or "  " followed by the text)
+ */
+export function formatDiffLine(line: DiffLine): string {
+  return `${LINE_PREFIX[line.type]} ${line.text}`;
+}
+
+/**
+ * Parse a display diff back into lines
+ * Diffs stored before hunk headers were added parse without gaps, numbered from 1
+ * @param diffText - Output of formatDiffForDisplay
+ * @returns Lines in document order with their line numbers
+ */
+export function parseDisplayDiff(diffText: string): DiffLine[] {
+  const lines: DiffLine[] = [];
+  let oldNumber = 1;
+  let newNumber = 1;
+
+  for (const raw of diffText.split('\n')) {
+    const header = HUNK_HEADER_PATTERN.exec(raw);
+    if (header) {
+      oldNumber = Number(header[1]);
+      newNumber = Number(header[3]);
+      continue;
+    }
+    if (!raw) continue;
+
+    const text = raw.slice(2);
+    if (raw.startsWith('-')) {
+      lines.push({ type: 'removed', text, oldLineNumber: oldNumber++, newLineNumber: null });
+    } else if (raw.startsWith('+')) {
+      lines.push({ type: 'added', text, oldLineNumber: null, newLineNumber: newNumber++ });
+    } else {
+      lines.push({
+        type: 'unchanged',
+        text,
+        oldLineNumber: oldNumber++,
+        newLineNumber: newNumber++,
+      });
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * Split lines into runs of unchanged lines and runs of changes, where a
+ * change is the removed lines followed by the added lines that replace them
+ */
+function forEachRun(
+  lines: DiffLine[],
+  onUnchanged: (line: DiffLine) => void,
+  onChange: (removed: DiffLine[], added: DiffLine[]) => void
+): void {
+  let i = 0;
+  while (i < lines.length) {
+    if (lines[i].type === 'unchanged') {
+      onUnchanged(lines[i++]);
+      continue;
+    }
+    const removed: DiffLine[] = [];
+    const added: DiffLine[] = [];
+    while (i < lines.length && lines[i].type === 'removed') removed.push(lines[i++]);
+    while (i < lines.length && lines[i].type === 'added') added.push(lines[i++]);
+    onChange(removed, added);
+  }
+}
+
+/**
+ * Add word-level highlights to edited lines
+ * Each removed line is paired with the added line at the same position in its
+ * change when enough of their words are shared
+ * @param lines - Diff lines in document order
+ * @returns Copies of the lines, with inlineDiff on paired lines
+ */
+export function highlightChangedLines(lines: DiffLine[]): DiffLine[] {
+  const highlighted = lines.map((line) => ({ ...line }));
+  forEachRun(
+    highlighted,
+    () => undefined,
+    (removed, added) => {
+      removed.forEach((oldLine, k) => {
+        const newLine = added[k];
+        if (!newLine || wordSimilarity(oldLine.text, newLine.text) < INLINE_HIGHLIGHT_THRESHOLD) {
+          return;
+        }
+        const segments = diffInlineWords(oldLine.text, newLine.text);
+        oldLine.inlineDiff = segments.filter((segment) => segment.type !== 'added');
+        newLine.inlineDiff = segments.filter((segment) => segment.type !== 'removed');
+      });
+    }
+  );
+  return highlighted;
+}
+
+/**
+ * Pair previous and current lines for a side-by-side view
+ * @param lines - Diff lines in document order
+ * @returns Rows; unchanged lines appear on both sides, unmatched changes on one
+ */
+export function pairSplitRows(lines: DiffLine[]): SplitDiffRow[] {
+  const rows: SplitDiffRow[] = [];
+  forEachRun(
+    lines,
+    (line) => rows.push({ left: line, right: line }),
+    (removed, added) => {
+      for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+        rows.push({ left: removed[k] ?? null, right: added[k] ?? null });
+      }
+    }
+  );
+  return rows;
+}
+
+/**
+ * Whether a line starts a change (the first changed line after unchanged text)
+ * @param lines - Diff lines in document order
+ * @param index - Index of the line
+ */
+export function isChangeStart(lines: DiffLine[], index: number): boolean {
+  return lines[index].type !== 'unchanged' && (index === 0 || lines[index - 1].type === 'unchanged');
+}
@@ -0,0 +1,87 @@
+/**
+ * PolicyDiff Pipeline
+ * Shared diff → change classification → AI summary → significance → PolicyDiff record flow
+ * Used by the diff API route and by regulation ingestion
+ */
+
+import prisma from '@/lib/prisma';
+import {
+  generateTextDiff,
+  calculateChangeMetrics,
+  formatDiffForDisplay,
+} from '@/lib/policydiff';
+import {
+  summarizeRegulationChanges,
+  calculateSignificance,
+} from '@/lib/ai/summarizer';
+import { classifyChanges } from './change-classifier';
+
+/**
+ * Minimal version shape needed to build a diff
+ */
+export interface DiffableVersion {
+  id: string;
+  versionNumber: number;
+  contentText: string | null;
+}
+
+/**
+ * Generate and persist a PolicyDiff between two versions of a regulation
+ * Note: Calls the AI summarizer (~$0.001-0.002 per uncached diff)
+ *
+ * @param previousVersion - Older regulation version
+ * @param currentVersion - Newer regulation version
+ * @param regulationTitle - Title used in the AI prompt and logs
+ * @param sequential - Whether previousVersion immediately precedes currentVersion
+ * @returns Created PolicyDiff record
+ */
+export async function createPolicyDiff(
+  previousVersion: DiffableVersion,
+  currentVersion: DiffableVersion,
+  regulationTitle: string,
+  sequential: boolean = true
+) {
+  console.log(
+    `[PolicyDiff] Generating new PolicyDiff for ${regulationTitle} (v${previousVersion.versionNumber} → v${currentVersion.versionNumber})`
+  );
+
+  const diffResult = generateTextDiff(
+    previousVersion.contentText || '',
+    currentVersion.contentText || ''
+  );
+
+  const metrics = calculateChangeMetrics(diffResult);
+  const classifiedChanges = classifyChanges(diffResult);
+  // Stored with the whole text so the viewer can expand any unchanged region;
+  // the AI only sees the changes with a few lines of context
+  const displayDiff = formatDiffForDisplay(diffResult, Number.POSITIVE_INFINITY);
+
+  // AI processing
+  const summary = await summarizeRegulationChanges(
+    formatDiffForDisplay(diffResult),
+    regulationTitle
+  );
+
+  // Calculate significance
+  const significanceScore = calculateSignificance(metrics, summary, classifiedChanges);
+
+  const policyDiff = await prisma.policyDiff.create({
+    data: {
+      regulationVersionId: currentVersion.id,
+      previousVersionId: previousVersion.id,
+      sequential,
+      diffText: displayDiff,
+      summary: summary.summary,
+      keyChanges: summary.keyChanges,
+      significanceScore: significanceScore,
+      aiConfidence: summary.confidence,
+      classifiedChanges: classifiedChanges.map((change) => ({ ...change })),
+    },
+  });
+
+  console.log(
+    `[PolicyDiff] Created PolicyDiff: ${policyDiff.id} with significance: ${significanceScore}`
+  );
+
+  return policyDiff;
+}
@@ -0,0 +1,298 @@
+/**
+ * Regulation Ingestion Service
+ * Creates Regulation and RegulationVersion rows from external text
+ * Dedupes content identical to the latest version and attaches a PolicyDiff and extracted
+ * Deadlines to every new version, refreshing the regulation's penalty schedule
+ */
+
+import { createHash } from 'crypto';
+import prisma from '@/lib/prisma';
+import type { Prisma } from '../../../generated/prisma/client';
+import { createPolicyDiff } from './diff-pipeline';
+import { storeVersionDeadlines } from './deadlines';
+import { storeRegulationPenalties } from './penalties';
+import { isPrismaError } from '@/lib/prisma-errors';
+import type {
+  IngestRegulationVersionInput,
+  IngestRegulationVersionResult,
+} from '@/types/ingestion';
+
+// Attempts at claiming the next version number when concurrent ingests collide
+const MAX_VERSION_ATTEMPTS = 3;
+
+/**
+ * Thrown when the jurisdiction code does not match a Jurisdiction row
+ */
+export class JurisdictionNotFoundError extends Error {
+  constructor(public readonly jurisdictionCode: string) {
+    super(`Jurisdiction not found: ${jurisdictionCode}`);
+    this.name = 'JurisdictionNotFoundError';
+  }
+}
+
+/**
+ * Normalize regulation text so formatting-only differences do not
+ * produce new versions (line endings, trailing whitespace, blank edges)
+ * @param text - Raw regulation text
+ * @returns Normalized text
+ */
+export function normalizeRegulationText(text: string): string {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .map((line) => line.replace(/\s+$/, ''))
+    .join('\n')
+    .trim();
+}
+
+/**
+ * Hash regulation text for duplicate detection
+ * @param text - Raw regulation text
+ * @returns SHA-256 hex digest of the normalized text
+ */
+export function hashRegulationContent(text: string): string {
+  return createHash('sha256')
+    .update(normalizeRegulationText(text))
+    .digest('hex');
+}
+
+/**
+ * Ingest a new regulation version
+ * - Finds or creates the Regulation by jurisdiction + title
+ * - Skips storage when the text matches the latest version (a revert to an
+ *   older text is a new version)
+ * - Assigns the next versionNumber, retrying when a concurrent ingest took it
+ * - Generates a PolicyDiff against the previous version
+ * - Extracts Deadline rows from the new text
+ *
+ * @param input - Jurisdiction code, regulation metadata and text
+ * @returns Ingestion result with version and diff ids
+ */
+export async function ingestRegulationVersion(
+  input: IngestRegulationVersionInput
+): Promise<IngestRegulationVersionResult> {
+  const jurisdictionCode = input.jurisdictionCode.trim().toUpperCase();
+  const contentText = normalizeRegulationText(input.contentText);
+  const contentHash = hashRegulationContent(contentText);
+
+  const jurisdiction = await prisma.jurisdiction.findUnique({
+    where: { code: jurisdictionCode },
+  });
+
+  if (!jurisdiction) {
+    throw new JurisdictionNotFoundError(jurisdictionCode);
+  }
+
+  // Find or create the regulation
+  const regulationKey = {
+    jurisdictionId_title: { jurisdictionId: jurisdiction.id, title: input.regulation.title },
+  };
+  let regulation = await prisma.regulation.findUnique({ where: regulationKey });
+
+  let regulationCreated = false;
+  if (!regulation) {
+    try {
+      regulation = await prisma.regulation.create({
+        data: {
+          jurisdictionId: jurisdiction.id,
+          regulationType: input.regulation.regulationType,
+          title: input.regulation.title,
+          sourceUrl: input.regulation.sourceUrl,
+          effectiveDate: input.regulation.effectiveDate,
+          status: 'ACTIVE',
+        },
+      });
+      regulationCreated = true;
+      console.log(
+        `[Ingestion] Created regulation ${regulation.id}: ${regulation.title}`
+      );
+    } catch (error) {
+      // A concurrent ingest created it first; add this version to that one
+      if (!isPrismaError(error, 'P2002')) throw error;
+      regulation = await prisma.regulation.findUniqueOrThrow({ where: regulationKey });
+    }
+  }
+  if (!regulationCreated && (input.regulation.sourceUrl || input.regulation.effectiveDate)) {
+    regulation = await prisma.regulation.update({
+      where: { id: regulation.id },
+      data: {
+        sourceUrl: input.regulation.sourceUrl ?? regulation.sourceUrl,
+        effectiveDate: input.regulation.effectiveDate ?? regulation.effectiveDate,
+      },
+    });
+  }
+
+  for (let attempt = 1; ; attempt++) {
+    const versions = await prisma.regulationVersion.findMany({
+      where: { regulationId: regulation.id },
+      select: {
+        id: true,
+        versionNumber: true,
+        contentText: true,
+        contentHash: true,
+      },
+      orderBy: { versionNumber: 'desc' },
+    });
+
+    // Dedupe against the latest version only; older rows (e.g. seeded) may
+    // not have a stored hash
+    const latest = versions[0];
+    if (
+      latest &&
+      (latest.contentHash ?? hashRegulationContent(latest.contentText)) === contentHash
+    ) {
+      console.log(
+        `[Ingestion] Duplicate content for ${regulation.title}, matches v${latest.versionNumber}`
+      );
+      const policyDiffId = await ensurePolicyDiff(
+        latest,
+        versions,
+        regulation.title
+      );
+      return {
+        status: 'DUPLICATE',
+        regulationId: regulation.id,
+        regulationCreated,
+        regulationVersionId: latest.id,
+        versionNumber: latest.versionNumber,
+        policyDiffId,
+        deadlinesExtracted: 0,
+        penaltyScheduleExtracted: false,
+      };
+    }
+
+    let version;
+    try {
+      version = await prisma.regulationVersion.create({
+        data: {
+          regulationId: regulation.id,
+          versionNumber: (latest?.versionNumber ?? 0) + 1,
+          contentText,
+          contentHash,
+          contentJson: input.contentJson as Prisma.InputJsonValue | undefined,
+          publishedDate: input.publishedDate ?? new Date(),
+        },
+        select: {
+          id: true,
+          versionNumber: true,
+          contentText: true,
+          contentHash: true,
+          publishedDate: true,
+        },
+      });
+    } catch (error) {
+      // Another ingest claimed this version number; re-read and try the next
+      if (!isPrismaError(error, 'P2002') || attempt >= MAX_VERSION_ATTEMPTS) {
+        throw error;
+      }
+      console.warn(
+        `[Ingestion] Version number conflict for ${regulation.title}, retrying (attempt ${attempt})`
+      );
+      continue;
+    }
+
+    return completeVersion(regulation, regulationCreated, version, versions, contentText);
+  }
+}
+
+/**
+ * Attach the PolicyDiff, deadlines and penalties to a newly stored version
+ */
+async function completeVersion(
+  regulation: { id: string; title: string; effectiveDate: Date | null },
+  regulationCreated: boolean,
+  version: {
+    id: string;
+    versionNumber: number;
+    contentText: string;
+    publishedDate: Date;
+  },
+  versions: Array<{ id: string; versionNumber: number; contentText: string }>,
+  contentText: string
+): Promise<IngestRegulationVersionResult> {
+  console.log(
+    `[Ingestion] Created ${regulation.title} v${version.versionNumber} (${version.id})`
+  );
+
+  const policyDiffId = await ensurePolicyDiff(
+    version,
+    [version, ...versions],
+    regulation.title
+  );
+
+  // Deadlines are secondary: a parser failure must not lose the version
+  let deadlinesExtracted = 0;
+  try {
+    deadlinesExtracted = await storeVersionDeadlines(version.id, contentText, {
+      effectiveDate: regulation.effectiveDate,
+      publishedDate: version.publishedDate,
+    });
+  } catch (error) {
+    console.error(
+      `[Ingestion] Deadline extraction failed for ${version.id}:`,
+      error
+    );
+  }
+
+  // Penalties are secondary as well
+  let penaltyScheduleExtracted = false;
+  try {
+    penaltyScheduleExtracted = await storeRegulationPenalties(
+      regulation.id,
+      version.id,
+      contentText
+    );
+  } catch (error) {
+    console.error(
+      `[Ingestion] Penalty extraction failed for ${version.id}:`,
+      error
+    );
+  }
+
+  return {
+    status: 'CREATED',
+    regulationId: regulation.id,
+    regulationCreated,
+    regulationVersionId: version.id,
+    versionNumber: version.versionNumber,
+    policyDiffId,
+    deadlinesExtracted,
+    penaltyScheduleExtracted,
+  };
+}
+
+/**
+ * Make sure a version has a PolicyDiff against its predecessor
+ * Also backfills diffs for versions whose earlier ingestion failed mid-way
+ * @param version - Version that should carry the diff
+ * @param versions - All versions of the regulation, newest first
+ * @param regulationTitle - Regulation title for the AI prompt
+ * @returns PolicyDiff id, or null for the first version
+ */
+async function ensurePolicyDiff(
+  version: { id: string; versionNumber: number; contentText: string },
+  versions: Array<{ id: string; versionNumber: number; contentText: string }>,
+  regulationTitle: string
+): Promise<string | null> {
+  const previousVersion = versions.find(
+    (v) => v.versionNumber < version.versionNumber
+  );
+  if (!previousVersion) {
+    return null;
+  }
+
+  const existingDiff = await prisma.policyDiff.findFirst({
+    where: { regulationVersionId: version.id, previousVersionId: previousVersion.id },
+    select: { id: true },
+  });
+  if (existingDiff) {
+    return existingDiff.id;
+  }
+
+  const policyDiff = await createPolicyDiff(
+    previousVersion,
+    version,
+    regulationTitle
+  );
+  return policyDiff.id;
+}
@@ -0,0 +1,271 @@
+/**
+ * Penalty Schedules
+ * Finds enforcement penalties in regulation text (per-violation and per-day
+ * fines, statutory caps, private rights of action) and stores them per
+ * regulation. Exposure is calculated by penalty-exposure.ts.
+ */
+
+import prisma from '@/lib/prisma';
+import type {
+  ExtractedPenaltySchedule,
+  PenaltySchedule,
+  PenaltyScheduleSource,
+  PenaltyTerms,
+} from '@/types/penalties';
+
+const AMOUNT_PATTERN =
+  /\$\s?(\d{1,3}(?:,\d{3})+|\d+)(?:\.(\d+))?(?:\s*(thousand|million|billion)\b)?/gi;
+
+const MAGNITUDES: Record<string, number> = {
+  thousand: 1_000,
+  million: 1_000_000,
+  billion: 1_000_000_000,
+};
+
+// A sentence must talk about penalties for its amounts to count
+const PENALTY_CUE = /\b(penalt(?:y|ies)|fines?|fined|damages|forfeit(?:ure)?|liable)\b/i;
+
+// Unit following an amount: "$2,500 for each violation", "$100 per consumer per incident"
+const PER_VIOLATION_UNIT =
+  /^[^$;]{0,25}?\b(?:per|each|for\s+each|for\s+every|an?)\s+(?:(?:intentional|willful|separate|knowing)\s+)?(?:violation|incident|consumer|record|occurrence|offense)s?\b/i;
+const PER_DAY_UNIT =
+  /^[^$;]{0,25}?\b(?:per|each|for\s+each|for\s+every|a)\s+(?:calendar\s+|business\s+)?day\b/i;
+
+// Wording before an amount that makes it a cap on total penalties
+const CAP_CUE =
+  /\b(?:aggregate|in\s+total|total\s+(?:penalt(?:y|ies)|amount)|in\s+no\s+event|per\s+(?:calendar\s+)?year|cap(?:ped)?\s+at)\b[^$]{0,60}$/i;
+const CAP_SUFFIX = /^[^$;]{0,40}?\b(?:in\s+the\s+aggregate|in\s+total|per\s+(?:calendar\s+)?year)\b/i;
+const MINIMUM_CUE = /\b(?:not\s+less\s+than|at\s+least|minimum\s+of)\s*$/i;
+// Wording before an amount that makes it a coverage threshold, not a fine:
+// "annual gross revenues in excess of $25 million" (but not "not more than $7,500")
+const THRESHOLD_CUE =
+  /(?:\brevenues?\b|\bturnover\b|\bin\s+excess\s+of|(?<!\bnot\s)\bexceeding|(?<!\bnot\s)\b(?:more|greater)\s+than)[^$.;]{0,30}$/i;
+
+const NO_PRIVATE_ACTION =
+  /\b(?:no|nothing\b[^.;]{0,60}\b(?:creates?|provides?|establish(?:es)?)\s+a|(?:does|shall)\s+not\s+(?:create|provide|establish|give\s+rise\s+to)\s+a)\s+private\s+(?:right|cause)\s+of\s+action\b/i;
+const PRIVATE_ACTION =
+  /\bprivate\s+(?:right|cause)\s+of\s+action\b|\b(?:any|an?)\s+(?:consumer|person|individual|employee)\b[^.;]{0,80}\bmay\s+(?:bring|institute|file|commence)\s+(?:a\s+)?(?:civil\s+)?action\b/i;
+
+/**
+ * Parse "$7,500", "$1.5 million" into a number
+ */
+function parseAmount(match: RegExpExecArray): number {
+  const whole = Number(match[1].replace(/,/g, ''));
+  const fraction = match[2] ? Number(`0.${match[2]}`) : 0;
+  const magnitude = match[3] ? MAGNITUDES[match[3].toLowerCase()] : 1;
+  return Math.round((whole + fraction) * magnitude);
+}
+
+function splitSentences(text: string): string[] {
+  return text
+    .split(/\n+|(?<=;)\s+|(?<=\.)\s+(?=[A-Z(§])/)
+    .map((sentence) => sentence.replace(/\s+/g, ' ').trim())
+    .filter((sentence) => sentence.length > 0);
+}
+
+/**
+ * Find the penalty terms of a regulation in its text
+ * Amounts without a unit in a penalty sentence are read as per-violation
+ * fines, at lower confidence, when no amount states its unit; amounts after
+ * threshold wording ("revenues in excess of $25 million") are skipped
+ * @param text - Regulation text
+ * @returns Penalty terms, or null when the text states no penalties
+ */
+export function extractPenaltySchedule(text: string): ExtractedPenaltySchedule | null {
+  const perViolation: number[] = [];
+  const unitless: number[] = [];
+  const minimums: number[] = [];
+  const perDay: number[] = [];
+  const caps: number[] = [];
+  const sources: string[] = [];
+
+  for (const sentence of splitSentences(text)) {
+    if (!PENALTY_CUE.test(sentence)) continue;
+
+    let found = false;
+    for (const match of sentence.matchAll(AMOUNT_PATTERN)) {
+      const amount = parseAmount(match);
+      if (amount <= 0) continue;
+      const start = match.index ?? 0;
+      const before = sentence.slice(0, start);
+      const after = sentence.slice(start + match[0].length);
+      if (THRESHOLD_CUE.test(before)) continue;
+      found = true;
+
+      if (PER_DAY_UNIT.test(after)) {
+        perDay.push(amount);
+      } else if (PER_VIOLATION_UNIT.test(after)) {
+        perViolation.push(amount);
+        if (MINIMUM_CUE.test(before)) minimums.push(amount);
+      } else if (CAP_CUE.test(before) || CAP_SUFFIX.test(after)) {
+        caps.push(amount);
+      } else if (MINIMUM_CUE.test(before)) {
+        // Lower end of a range whose upper end carries the unit
+        perViolation.push(amount);
+        minimums.push(amount);
+      } else {
+        unitless.push(amount);
+      }
+    }
+
+    if (found) sources.push(sentence);
+  }
+
+  const privateRightOfAction = !NO_PRIVATE_ACTION.test(text) && PRIVATE_ACTION.test(text);
+
+  if (sources.length === 0 && !privateRightOfAction) {
+    return null;
+  }
+
+  // Unitless amounts only stand in for fines when no amount states its unit
+  const useUnitless = perViolation.length === 0 && unitless.length > 0;
+  if (useUnitless) perViolation.push(...unitless);
+
+  const perViolationMin =
+    perViolation.length > 0
+      ? minimums.length > 0
+        ? Math.min(...minimums)
+        : Math.min(...perViolation)
+      : null;
+
+  return {
+    perViolationMin,
+    perViolationMax: perViolation.length > 0 ? Math.max(...perViolation) : null,
+    perDayFine: perDay.length > 0 ? Math.max(...perDay) : null,
+    maxPenalty: caps.length > 0 ? Math.max(...caps) : null,
+    privateRightOfAction,
+    enforcementLikelihood: null,
+    sourceText: sources.join(' ').slice(0, 2000),
+    extractionConfidence: sources.length === 0 ? 0.6 : useUnitless ? 0.7 : 0.9,
+  };
+}
+
+/**
+ * Map a stored schedule row to the domain type
+ */
+function toPenaltySchedule(row: {
+  id: string;
+  regulationId: string;
+  perViolationMin: number | null;
+  perViolationMax: number | null;
+  perDayFine: number | null;
+  maxPenalty: number | null;
+  privateRightOfAction: boolean;
+  enforcementLikelihood: number | null;
+  source: string;
+  sourceText: string | null;
+  extractionConfidence: number;
+  regulationVersionId: string | null;
+  updatedBy: string | null;
+  updatedAt: Date;
+}): PenaltySchedule {
+  return {
+    id: row.id,
+    regulationId: row.regulationId,
+    perViolationMin: row.perViolationMin,
+    perViolationMax: row.perViolationMax,
+    perDayFine: row.perDayFine,
+    maxPenalty: row.maxPenalty,
+    privateRightOfAction: row.privateRightOfAction,
+    enforcementLikelihood: row.enforcementLikelihood,
+    source: (row.source === 'MANUAL' ? 'MANUAL' : 'EXTRACTED') as PenaltyScheduleSource,
+    sourceText: row.sourceText,
+    extractionConfidence: row.extractionConfidence,
+    regulationVersionId: row.regulationVersionId,
+    updatedBy: row.updatedBy,
+    updatedAt: row.updatedAt,
+  };
+}
+
+/**
+ * Penalty schedule of a regulation
+ * @param regulationId - Regulation ID
+ * @returns Stored schedule, or null
+ */
+export async function getPenaltySchedule(regulationId: string): Promise<PenaltySchedule | null> {
+  const row = await prisma.penaltySchedule.findUnique({ where: { regulationId } });
+  return row ? toPenaltySchedule(row) : null;
+}
+
+/**
+ * Penalty schedules of several regulations
+ * @param regulationIds - Regulation IDs
+ * @returns Schedules keyed by regulation ID
+ */
+export async function getPenaltySchedules(
+  regulationIds: string[]
+): Promise<Map<string, PenaltySchedule>> {
+  if (regulationIds.length === 0) return new Map();
+  const rows = await prisma.penaltySchedule.findMany({
+    where: { regulationId: { in: [...new Set(regulationIds)] } },
+  });
+  return new Map(rows.map((row) => [row.regulationId, toPenaltySchedule(row)]));
+}
+
+/**
+ * Extract and store the penalty schedule of a newly ingested version
+ * A MANUAL schedule is kept; an extracted one is replaced, or removed when
+ * the new text no longer states penalties
+ * @param regulationId - Regulation ID
+ * @param regulationVersionId - Version the text belongs to
+ * @param text - Version text
+ * @returns True when an extracted schedule was stored
+ */
+export async function storeRegulationPenalties(
+  regulationId: string,
+  regulationVersionId: string,
+  text: string
+): Promise<boolean> {
+  const existing = await prisma.penaltySchedule.findUnique({
+    where: { regulationId },
+    select: { source: true },
+  });
+  if (existing?.source === 'MANUAL') {
+    console.log(`[Penalties] Keeping manual schedule for regulation ${regulationId}`);
+    return false;
+  }
+
+  const extracted = extractPenaltySchedule(text);
+  if (!extracted) {
+    if (existing) {
+      await prisma.penaltySchedule.delete({ where: { regulationId } });
+    }
+    return false;
+  }
+
+  const data = { ...extracted, source: 'EXTRACTED', regulationVersionId, updatedBy: null };
+  await prisma.penaltySchedule.upsert({
+    where: { regulationId },
+    create: { ...data, regulationId },
+    update: data,
+  });
+
+  console.log(`[Penalties] Stored penalty schedule for regulation ${regulationId}`);
+  return true;
+}
+
+/**
+ * Enter or correct a regulation's penalty schedule by hand
+ * @param regulationId - Regulation ID
+ * @param terms - Penalty terms
+ * @param updatedBy - Admin email
+ * @returns Stored schedule
+ */
+export async function saveManualPenaltySchedule(
+  regulationId: string,
+  terms: PenaltyTerms,
+  updatedBy: string
+): Promise<PenaltySchedule> {
+  const data = {
+    ...terms,
+    source: 'MANUAL',
+    extractionConfidence: 1,
+    updatedBy,
+  };
+  const row = await prisma.penaltySchedule.upsert({
+    where: { regulationId },
+    create: { ...data, regulationId },
+    update: data,
+  });
+  return toPenaltySchedule(row);
+}
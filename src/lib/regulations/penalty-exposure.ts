@@ -0,0 +1,116 @@
+/**
+ * Penalty Exposure
+ * Turns a regulation's penalty terms into the risk-weighted penalties a period
+ * of non-compliance could cost. Pure functions; schedules are stored by
+ * penalties.ts.
+ */
+
+import type {
+  PenaltyExposure,
+  PenaltyExposureOptions,
+  PenaltyTerms,
+} from '../../types/penalties';
+
+export const DEFAULT_NON_COMPLIANCE_DAYS = 90;
+// Risk-weighted allowance per 90 days when a regulation has no penalty amounts on file
+export const DEFAULT_PENALTY_EXPOSURE = 15000;
+// Chance a period of non-compliance draws agency enforcement
+export const BASE_ENFORCEMENT_PROBABILITY = 0.25;
+// Added chance of litigation when individuals can sue on their own
+export const PRIVATE_ACTION_PROBABILITY = 0.15;
+
+function formatUsd(amount: number): string {
+  return `$${Math.round(amount).toLocaleString('en-US')}`;
+}
+
+/**
+ * Risk-weighted penalties for a period of non-compliance
+ * Gross exposure is the per-violation fine (midpoint of the statutory range)
+ * times the violations plus the per-day fine for every day, limited by the
+ * cap. It is weighted by the chance of enforcement, which is higher when
+ * individuals can sue. Without penalty amounts the default allowance is used.
+ * @param terms - Penalty terms of the regulation (null when none are on file)
+ * @param options - Days of non-compliance and violations assessed
+ * @returns Penalty exposure with the calculation steps
+ */
+export function calculatePenaltyExposure(
+  terms: PenaltyTerms | null,
+  options: PenaltyExposureOptions = {}
+): PenaltyExposure {
+  const nonComplianceDays = Math.max(0, options.nonComplianceDays ?? DEFAULT_NON_COMPLIANCE_DAYS);
+  const violations = Math.max(0, options.violations ?? 1);
+
+  const perViolation =
+    terms?.perViolationMin != null && terms.perViolationMax != null
+      ? (terms.perViolationMin + terms.perViolationMax) / 2
+      : (terms?.perViolationMax ?? terms?.perViolationMin ?? null);
+  const hasAmounts =
+    perViolation !== null || terms?.perDayFine != null || terms?.maxPenalty != null;
+
+  if (!terms || !hasAmounts) {
+    const allowance = Math.round(
+      (DEFAULT_PENALTY_EXPOSURE * nonComplianceDays) / DEFAULT_NON_COMPLIANCE_DAYS
+    );
+    return {
+      nonComplianceDays,
+      violations,
+      grossExposure: allowance,
+      enforcementProbability: 1,
+      riskWeightedExposure: allowance,
+      capped: false,
+      privateRightOfAction: terms?.privateRightOfAction ?? false,
+      hasSchedule: false,
+      basis: [
+        `No penalty amounts on file; default allowance of ${formatUsd(
+          DEFAULT_PENALTY_EXPOSURE
+        )} per ${DEFAULT_NON_COMPLIANCE_DAYS} days`,
+      ],
+    };
+  }
+
+  const basis: string[] = [];
+  let gross = 0;
+  if (perViolation !== null) {
+    gross += perViolation * violations;
+    basis.push(`${violations} violation${violations === 1 ? '' : 's'} × ${formatUsd(perViolation)}`);
+  }
+  if (terms.perDayFine != null) {
+    gross += terms.perDayFine * nonComplianceDays;
+    basis.push(`${nonComplianceDays} days × ${formatUsd(terms.perDayFine)}/day`);
+  }
+
+  let capped = false;
+  if (terms.maxPenalty != null && (gross === 0 || gross > terms.maxPenalty)) {
+    // A cap alone is the only amount known; otherwise it limits the total
+    capped = gross > terms.maxPenalty;
+    gross = terms.maxPenalty;
+    basis.push(`${capped ? 'capped at' : 'statutory maximum'} ${formatUsd(terms.maxPenalty)}`);
+  }
+
+  const enforcementProbability = Math.min(
+    1,
+    Math.max(
+      0,
+      terms.enforcementLikelihood ??
+        BASE_ENFORCEMENT_PROBABILITY +
+          (terms.privateRightOfAction ? PRIVATE_ACTION_PROBABILITY : 0)
+    )
+  );
+  basis.push(
+    `${Math.round(enforcementProbability * 100)}% likelihood of enforcement${
+      terms.privateRightOfAction ? ' (private right of action)' : ''
+    }`
+  );
+
+  return {
+    nonComplianceDays,
+    violations,
+    grossExposure: Math.round(gross),
+    enforcementProbability,
+    riskWeightedExposure: Math.round(gross * enforcementProbability),
+    capped,
+    privateRightOfAction: terms.privateRightOfAction,
+    hasSchedule: true,
+    basis,
+  };
+}
@@ -0,0 +1,396 @@
+/**
+ * Structure-Aware Regulation Diff
+ * Aligns the section trees of two regulation versions and reports what
+ * happened to each section, subsection and clause. Sections are matched by
+ * identical position and text first, then by word overlap (so renumbered and
+ * moved clauses are still recognised), then by position alone (rewritten in
+ * place). Changed text gets a word-level inline diff.
+ */
+
+import { diffWordsWithSpace } from 'diff';
+import type {
+  InlineDiffSegment,
+  RegulationSection,
+  SectionChange,
+  SectionChangeType,
+} from '@/types/policydiff';
+import { parseSectionTree, sectionSubtreeText } from './section-tree';
+
+// Word overlap at which two sections at different positions are the same clause
+export const SECTION_MATCH_THRESHOLD = 0.6;
+// Words in more sections (of both versions) than this are too common to find a match by
+const MAX_WORD_SECTIONS = 20;
+// Sections this close to the same relative position are always compared
+const POSITION_WINDOW = 25;
+
+interface FlatSection {
+  node: RegulationSection;
+  index: number;
+  parent: number | null; // Index of the parent in the flat list
+  sibling: number; // Position among the parent's children
+  content: string;
+  words: Map<string, number>;
+}
+
+function wordCounts(text: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const word of text.toLowerCase().match(/[a-z0-9$%]+(?:[.,'][a-z0-9]+)*/g) ?? []) {
+    counts.set(word, (counts.get(word) ?? 0) + 1);
+  }
+  return counts;
+}
+
+function flatten(roots: RegulationSection[]): FlatSection[] {
+  const flat: FlatSection[] = [];
+  const visit = (nodes: RegulationSection[], parent: number | null) => {
+    nodes.forEach((node, sibling) => {
+      const index = flat.length;
+      const content = [node.heading, node.text].filter(Boolean).join(' ');
+      flat.push({ node, index, parent, sibling, content, words: wordCounts(content) });
+      visit(node.children, index);
+    });
+  };
+  visit(roots, null);
+  return flat;
+}
+
+/**
+ * Word overlap of two texts (Dice coefficient over word counts)
+ * @param a - First text
+ * @param b - Second text
+ * @returns 0 (nothing shared) to 1 (same words)
+ */
+export function wordSimilarity(a: string, b: string): number {
+  return diceCoefficient(wordCounts(a), wordCounts(b));
+}
+
+function diceCoefficient(countsA: Map<string, number>, countsB: Map<string, number>): number {
+  let sizeA = 0;
+  let sizeB = 0;
+  let shared = 0;
+  countsA.forEach((count, word) => {
+    sizeA += count;
+    shared += Math.min(count, countsB.get(word) ?? 0);
+  });
+  countsB.forEach((count) => {
+    sizeB += count;
+  });
+  if (sizeA + sizeB === 0) return 1;
+  return (2 * shared) / (sizeA + sizeB);
+}
+
+/**
+ * Word-level diff of two texts
+ * @param oldText - Previous text
+ * @param newText - Current text
+ * @returns Runs of unchanged, removed and added words, in reading order
+ */
+export function diffInlineWords(oldText: string, newText: string): InlineDiffSegment[] {
+  const segments: InlineDiffSegment[] = [];
+  for (const change of diffWordsWithSpace(oldText, newText)) {
+    const type = change.added ? 'added' : change.removed ? 'removed' : 'unchanged';
+    const last = segments[segments.length - 1];
+    if (last?.type === type) {
+      last.text += change.value;
+    } else {
+      segments.push({ type, text: change.value });
+    }
+  }
+  return segments;
+}
+
+/**
+ * Indices of a longest increasing subsequence; the rest are out of order
+ */
+function longestIncreasing(values: number[]): Set<number> {
+  const lengths = values.map(() => 1);
+  const previous = values.map(() => -1);
+  for (let i = 0; i < values.length; i++) {
+    for (let j = 0; j < i; j++) {
+      if (values[j] < values[i] && lengths[j] + 1 > lengths[i]) {
+        lengths[i] = lengths[j] + 1;
+        previous[i] = j;
+      }
+    }
+  }
+  const kept = new Set<number>();
+  let end = lengths.indexOf(Math.max(0, ...lengths));
+  while (end >= 0) {
+    kept.add(end);
+    end = previous[end];
+  }
+  return kept;
+}
+
+/**
+ * Words of a section as distinct tokens, the nth repeat of a word as word#n,
+ * so shared tokens of two sections equal their shared word counts
+ */
+function wordTokens(words: Map<string, number>): string[] {
+  const tokens: string[] = [];
+  words.forEach((count, word) => {
+    for (let n = 0; n < count; n++) tokens.push(`${word}#${n}`);
+  });
+  return tokens;
+}
+
+/**
+ * Previous sections worth comparing with each current section, so the
+ * similarity match does not compare every pair
+ * Two sections reach SECTION_MATCH_THRESHOLD only when they share at least
+ * t / (2 - t) of either one's words, so they share one of the rarest
+ * remaining words of each; those are looked up in an index of the previous
+ * sections. Words too common to narrow the search are left out of the index,
+ * and sections near the same relative position are always compared instead.
+ * @param previous - Unmatched previous sections
+ * @param current - Unmatched current sections
+ * @returns Candidate lookup, in previous-version order
+ */
+function similarityCandidates(
+  previous: FlatSection[],
+  current: FlatSection[]
+): (curr: FlatSection) => FlatSection[] {
+  const frequency = new Map<string, number>();
+  for (const section of [...previous, ...current]) {
+    for (const token of wordTokens(section.words)) {
+      frequency.set(token, (frequency.get(token) ?? 0) + 1);
+    }
+  }
+  const rarest = (section: FlatSection) => {
+    const tokens = wordTokens(section.words).sort(
+      (a, b) => frequency.get(a)! - frequency.get(b)! || (a < b ? -1 : a > b ? 1 : 0)
+    );
+    const minShared = Math.ceil(
+      (SECTION_MATCH_THRESHOLD * tokens.length) / (2 - SECTION_MATCH_THRESHOLD) - 1e-9
+    );
+    return tokens
+      .slice(0, tokens.length - Math.max(1, minShared) + 1)
+      .filter((token) => frequency.get(token)! <= MAX_WORD_SECTIONS);
+  };
+
+  const index = new Map<string, FlatSection[]>();
+  for (const prev of previous) {
+    for (const token of rarest(prev)) {
+      const sections = index.get(token);
+      if (sections) sections.push(prev);
+      else index.set(token, [prev]);
+    }
+  }
+
+  const rank = new Map(current.map((curr, i) => [curr, i]));
+  const scale = previous.length / Math.max(1, current.length);
+
+  return (curr) => {
+    const found = new Set<FlatSection>();
+    for (const token of rarest(curr)) {
+      for (const prev of index.get(token) ?? []) found.add(prev);
+    }
+    const centre = Math.round((rank.get(curr) ?? 0) * scale);
+    const window = previous.slice(Math.max(0, centre - POSITION_WINDOW), centre + POSITION_WINDOW + 1);
+    for (const prev of window) found.add(prev);
+    return [...found].sort((a, b) => a.index - b.index);
+  };
+}
+
+/**
+ * Match sections of the previous version to sections of the current one
+ * @returns Previous-version index for each current-version index
+ */
+function alignSections(previous: FlatSection[], current: FlatSection[]): Map<number, number> {
+  const matches = new Map<number, number>();
+  const matchedPrevious = new Set<number>();
+  const match = (prev: FlatSection, curr: FlatSection) => {
+    matches.set(curr.index, prev.index);
+    matchedPrevious.add(prev.index);
+  };
+  const previousByKey = new Map(previous.map((section) => [section.node.key, section]));
+
+  // 1. Same position, same text
+  for (const curr of current) {
+    const prev = previousByKey.get(curr.node.key);
+    if (prev && prev.content === curr.content) match(prev, curr);
+  }
+
+  // 2. Most similar text anywhere, preferring the same position on ties
+  const candidates: Array<{ prev: FlatSection; curr: FlatSection; score: number }> = [];
+  const unmatchedCurrent = current.filter((curr) => !matches.has(curr.index) && curr.content);
+  const findCandidates = similarityCandidates(
+    previous.filter((prev) => !matchedPrevious.has(prev.index) && prev.content),
+    unmatchedCurrent
+  );
+  for (const curr of unmatchedCurrent) {
+    for (const prev of findCandidates(curr)) {
+      const ratio = prev.content.length / curr.content.length;
+      if (ratio < 0.5 || ratio > 2) continue;
+      const similarity = diceCoefficient(prev.words, curr.words);
+      if (similarity >= SECTION_MATCH_THRESHOLD) {
+        candidates.push({
+          prev,
+          curr,
+          score: similarity + (prev.node.key === curr.node.key ? 0.001 : 0),
+        });
+      }
+    }
+  }
+  candidates.sort((a, b) => b.score - a.score);
+  for (const { prev, curr } of candidates) {
+    if (!matches.has(curr.index) && !matchedPrevious.has(prev.index)) match(prev, curr);
+  }
+
+  // 3. Same position, rewritten text
+  for (const curr of current) {
+    const prev = previousByKey.get(curr.node.key);
+    if (prev && !matches.has(curr.index) && !matchedPrevious.has(prev.index)) match(prev, curr);
+  }
+
+  // 4. Containers without text of their own follow most of their children
+  for (const curr of [...current].reverse()) {
+    if (matches.has(curr.index) || curr.content) continue;
+    const votes = new Map<number, number>();
+    for (const child of current.filter((section) => section.parent === curr.index)) {
+      const prevChild = matches.get(child.index);
+      const prevParent = prevChild !== undefined ? previous[prevChild].parent : null;
+      if (prevParent !== null && !matchedPrevious.has(prevParent)) {
+        votes.set(prevParent, (votes.get(prevParent) ?? 0) + 1);
+      }
+    }
+    const childCount = curr.node.children.length;
+    const [best] = [...votes].sort((a, b) => b[1] - a[1]);
+    if (best && best[1] * 2 >= childCount) match(previous[best[0]], curr);
+  }
+
+  return matches;
+}
+
+/**
+ * Diff two section trees
+ * @param previousRoots - Sections of the previous version
+ * @param currentRoots - Sections of the current version
+ * @returns Changes in current-version order; added and removed sections are
+ * reported once, with the text of everything under them
+ */
+export function diffSectionTrees(
+  previousRoots: RegulationSection[],
+  currentRoots: RegulationSection[]
+): SectionChange[] {
+  const previous = flatten(previousRoots);
+  const current = flatten(currentRoots);
+  const matches = alignSections(previous, current);
+  const matchedPrevious = new Map([...matches].map(([curr, prev]) => [prev, curr]));
+
+  // Siblings whose relative order changed were moved
+  const outOfOrder = new Set<number>();
+  const groups = new Map<number | null, FlatSection[]>();
+  for (const curr of current) {
+    const prev = matches.get(curr.index);
+    if (prev === undefined) continue;
+    const sameParent =
+      curr.parent === null
+        ? previous[prev].parent === null
+        : matches.get(curr.parent) === previous[prev].parent;
+    if (!sameParent) continue;
+    groups.set(curr.parent, [...(groups.get(curr.parent) ?? []), curr]);
+  }
+  for (const siblings of groups.values()) {
+    const order = siblings.map((curr) => previous[matches.get(curr.index)!].sibling);
+    const kept = longestIncreasing(order);
+    siblings.forEach((curr, i) => {
+      if (!kept.has(i)) outOfOrder.add(curr.index);
+    });
+  }
+
+  const positioned: Array<{ position: number; change: SectionChange }> = [];
+
+  for (const curr of current) {
+    const prevIndex = matches.get(curr.index);
+    if (prevIndex === undefined) {
+      // Report only the top of an added subtree
+      if (curr.parent !== null && !matches.has(curr.parent)) continue;
+      positioned.push({
+        position: curr.index,
+        change: {
+          type: 'ADDED',
+          label: curr.node.label,
+          previousLabel: null,
+          heading: curr.node.heading,
+          oldText: null,
+          newText: sectionSubtreeText(curr.node),
+          textChanged: true,
+          inlineDiff: [],
+          similarity: 0,
+        },
+      });
+      continue;
+    }
+
+    const prev = previous[prevIndex];
+    const parentMoved =
+      curr.parent === null
+        ? prev.parent !== null
+        : matches.get(curr.parent) !== prev.parent;
+    const textChanged = prev.content !== curr.content;
+    let type: SectionChangeType | null = null;
+    if (parentMoved || outOfOrder.has(curr.index)) {
+      type = 'MOVED';
+    } else if (prev.node.marker !== curr.node.marker) {
+      type = 'RENUMBERED';
+    } else if (textChanged) {
+      type = 'MODIFIED';
+    }
+    if (!type) continue;
+
+    positioned.push({
+      position: curr.index,
+      change: {
+        type,
+        label: curr.node.label,
+        previousLabel: prev.node.label,
+        heading: curr.node.heading ?? prev.node.heading,
+        oldText: prev.content,
+        newText: curr.content,
+        textChanged,
+        inlineDiff: textChanged ? diffInlineWords(prev.content, curr.content) : [],
+        similarity: textChanged ? wordSimilarity(prev.content, curr.content) : 1,
+      },
+    });
+  }
+
+  // Removed sections sit after the nearest earlier section that survived
+  let anchor = -1;
+  for (const prev of previous) {
+    const currIndex = matchedPrevious.get(prev.index);
+    if (currIndex !== undefined) {
+      anchor = currIndex;
+      continue;
+    }
+    if (prev.parent !== null && !matchedPrevious.has(prev.parent)) continue;
+    positioned.push({
+      position: anchor + 0.5 + prev.index / (previous.length + 1) / 2,
+      change: {
+        type: 'REMOVED',
+        label: prev.node.label,
+        previousLabel: prev.node.label,
+        heading: prev.node.heading,
+        oldText: sectionSubtreeText(prev.node),
+        newText: null,
+        textChanged: true,
+        inlineDiff: [],
+        similarity: 0,
+      },
+    });
+  }
+
+  return positioned
+    .sort((a, b) => a.position - b.position)
+    .map(({ change }) => change);
+}
+
+/**
+ * Parse and diff two versions of a regulation
+ * @param oldText - Previous version text
+ * @param newText - Current version text
+ * @returns Section changes in current-version order
+ */
+export function diffRegulationSections(oldText: string, newText: string): SectionChange[] {
+  return diffSectionTrees(parseSectionTree(oldText), parseSectionTree(newText));
+}
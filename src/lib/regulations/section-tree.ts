@@ -0,0 +1,186 @@
+/**
+ * Regulation Section Tree
+ * Splits regulation text into sections (§ 12, Section 12, Article 5) and their
+ * enumerated subdivisions ((a), (1), (i), (A)). Nesting follows the order the
+ * marker kinds first appear, so both (a)(1)(i) and (1)(A)(i) schemes work.
+ * An all-caps line directly before a section is taken as its heading.
+ */
+
+import type { RegulationSection, SectionMarkerKind } from '@/types/policydiff';
+
+const SECTION_PATTERN =
+  /^#*\s*(?:§+\s*|(?:section|sec\.|article|art\.)\s+)([0-9]+[A-Za-z]?(?:[.-][0-9A-Za-z]+)*|[IVXLC]+)\b[.:]?\s*(.*)$/i;
+
+const ENUM_PATTERN = /^\(([0-9]{1,3}|[a-z]{1,3}|[A-Z]{1,2})\)\s*/;
+
+const ROMAN_PATTERN = /^[ivxlc]+$/;
+
+const HEADING_LINE_PATTERN = /^[A-Z][A-Z0-9 ,;:'&()-]{3,79}$/;
+
+// Text after a section number up to this long is its heading, not its body
+const MAX_HEADING_LENGTH = 100;
+
+interface OpenSection {
+  node: RegulationSection;
+  lines: string[];
+}
+
+function normalizeWhitespace(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Kind of an enumeration marker, using the open sections to tell roman
+ * numerals from letters: (i) after (h) is a letter, (i) under (1) a numeral
+ */
+function enumKind(token: string, stack: OpenSection[]): SectionMarkerKind {
+  if (/^[0-9]+$/.test(token)) return 'DIGIT';
+  if (/^[A-Z]+$/.test(token)) return 'UPPER';
+  if (!ROMAN_PATTERN.test(token)) return 'LOWER';
+
+  const romanOpen = stack.some((open) => open.node.kind === 'ROMAN');
+  if (token.length > 1) return 'ROMAN';
+
+  const letter = [...stack].reverse().find((open) => open.node.kind === 'LOWER');
+  const previousLetter = String.fromCharCode(token.charCodeAt(0) - 1);
+  if (letter?.node.marker === `(${previousLetter})`) return 'LOWER';
+  if (romanOpen) return 'ROMAN';
+  return token === 'i' ? 'ROMAN' : 'LOWER';
+}
+
+/**
+ * Split regulation text into a section tree
+ * @param text - Regulation text
+ * @returns Top-level sections (a preamble first when text precedes the first marker)
+ */
+export function parseSectionTree(text: string): RegulationSection[] {
+  const roots: RegulationSection[] = [];
+  const keys = new Set<string>();
+  let stack: OpenSection[] = [];
+  let pendingHeading: string | null = null;
+  const finished: OpenSection[] = [];
+
+  const uniqueKey = (key: string) => {
+    let candidate = key;
+    for (let n = 2; keys.has(candidate); n++) candidate = `${key}#${n}`;
+    keys.add(candidate);
+    return candidate;
+  };
+
+  const open = (
+    parent: OpenSection | undefined,
+    marker: string,
+    kind: SectionMarkerKind,
+    heading: string | null
+  ): OpenSection => {
+    const keyPart = kind === 'SECTION' ? marker.replace(/\s+/g, '') : marker;
+    const node: RegulationSection = {
+      key: uniqueKey(parent ? `${parent.node.key}/${keyPart}` : keyPart),
+      label: parent && parent.node.kind !== 'PREAMBLE' ? `${parent.node.label}${marker}` : marker,
+      marker,
+      kind,
+      depth: parent ? parent.node.depth + 1 : 0,
+      heading,
+      text: '',
+      children: [],
+    };
+    if (parent) {
+      parent.node.children.push(node);
+    } else {
+      roots.push(node);
+    }
+    const entry = { node, lines: [] };
+    finished.push(entry);
+    return entry;
+  };
+
+  const addText = (line: string) => {
+    if (stack.length === 0) stack = [open(undefined, 'Preamble', 'PREAMBLE', null)];
+    stack[stack.length - 1].lines.push(line);
+  };
+
+  for (const rawLine of text.split('\n')) {
+    let line = rawLine.trim();
+    if (!line) continue;
+
+    // "Section 5 of this Act..." wrapped onto a new line is a reference, not a heading
+    const section = SECTION_PATTERN.exec(line);
+    if (section && !/^[a-z]/.test(section[2])) {
+      const rest = section[2].trim();
+      const inlineHeading = rest && rest.length <= MAX_HEADING_LENGTH ? rest.replace(/\.$/, '') : null;
+      stack = [open(undefined, `§ ${section[1]}`, 'SECTION', inlineHeading ?? pendingHeading)];
+      pendingHeading = null;
+      if (rest && !inlineHeading) stack[0].lines.push(rest);
+      continue;
+    }
+
+    if (HEADING_LINE_PATTERN.test(line) && !ENUM_PATTERN.test(line)) {
+      if (pendingHeading) addText(pendingHeading);
+      pendingHeading = line;
+      continue;
+    }
+    if (pendingHeading) {
+      addText(pendingHeading);
+      pendingHeading = null;
+    }
+
+    // A line can open several levels at once: "(a)(1) The controller shall..."
+    let match = ENUM_PATTERN.exec(line);
+    if (!match) {
+      addText(line);
+      continue;
+    }
+    while (match) {
+      const token = match[1];
+      const kind = enumKind(token, stack);
+      const sameKind = stack.findIndex((entry) => entry.node.kind === kind);
+      if (sameKind >= 0) stack = stack.slice(0, sameKind);
+      const parent = stack[stack.length - 1];
+      stack.push(open(parent, `(${token})`, kind, null));
+      line = line.slice(match[0].length);
+      match = ENUM_PATTERN.exec(line);
+    }
+    if (line) stack[stack.length - 1].lines.push(line);
+  }
+  if (pendingHeading) addText(pendingHeading);
+
+  for (const entry of finished) {
+    entry.node.text = normalizeWhitespace(entry.lines.join(' '));
+  }
+  return roots;
+}
+
+/**
+ * Every section of a tree in document order
+ * @param roots - Top-level sections
+ * @returns Sections, parents before their children
+ */
+export function flattenSections(roots: RegulationSection[]): RegulationSection[] {
+  return roots.flatMap((node) => [node, ...flattenSections(node.children)]);
+}
+
+/**
+ * Text of a section and everything under it, one clause per line
+ * @param section - Section
+ * @returns Labelled text
+ */
+export function sectionSubtreeText(section: RegulationSection): string {
+  return flattenSections([section])
+    .map((node) =>
+      [node.kind === 'PREAMBLE' ? null : node.label, node.heading, node.text]
+        .filter(Boolean)
+        .join(' ')
+    )
+    .join('\n');
+}
+
+/**
+ * Whether a line opens a section or is an all-caps heading, as parseSectionTree reads it
+ * @param line - One line of regulation text
+ */
+export function isSectionHeading(line: string): boolean {
+  const trimmed = line.trim();
+  const section = SECTION_PATTERN.exec(trimmed);
+  if (section) return !/^[a-z]/.test(section[2]);
+  return HEADING_LINE_PATTERN.test(trimmed) && !ENUM_PATTERN.test(trimmed);
+}
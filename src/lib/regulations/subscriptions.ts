@@ -0,0 +1,135 @@
+/**
+ * Regulation Subscriptions
+ * Resolves which regulations a customer watches: explicit subscriptions plus
+ * jurisdiction/regulation-type rules. Rules are evaluated at query time so
+ * newly ingested regulations surface without any backfill.
+ */
+
+import prisma from '@/lib/prisma';
+import type { Prisma } from '../../../generated/prisma/client';
+import type {
+  SubscribableRegulation,
+  SubscriptionRuleCriteria,
+  WatchReason,
+} from '@/types/subscriptions';
+
+/**
+ * Build a Regulation filter for a customer's watched regulations
+ * @param customerId - Customer ID
+ * @param rules - Customer's subscription rules
+ * @returns Prisma where clause (combine with AND when adding conditions)
+ */
+export function buildSubscribedRegulationFilter(
+  customerId: string,
+  rules: SubscriptionRuleCriteria[]
+): Prisma.RegulationWhereInput {
+  const ruleFilters: Prisma.RegulationWhereInput[] = rules
+    .filter((rule) => rule.jurisdictionId || rule.regulationType)
+    .map((rule) => ({
+      ...(rule.jurisdictionId ? { jurisdictionId: rule.jurisdictionId } : {}),
+      ...(rule.regulationType
+        ? { regulationType: { equals: rule.regulationType, mode: 'insensitive' as const } }
+        : {}),
+    }));
+
+  return {
+    OR: [{ subscriptions: { some: { customerId } } }, ...ruleFilters],
+  };
+}
+
+/**
+ * Load a customer's rules and build their watched-regulation filter
+ * @param customerId - Customer ID
+ * @returns Prisma where clause for Regulation
+ */
+export async function getSubscribedRegulationFilter(
+  customerId: string
+): Promise<Prisma.RegulationWhereInput> {
+  const rules = await prisma.subscriptionRule.findMany({
+    where: { customerId },
+    select: { jurisdictionId: true, regulationType: true },
+  });
+  return buildSubscribedRegulationFilter(customerId, rules);
+}
+
+/**
+ * Ids of every regulation the customer watches (directly or by rule)
+ * @param customerId - Customer ID
+ * @returns Set of regulation ids
+ */
+export async function getWatchedRegulationIds(
+  customerId: string
+): Promise<Set<string>> {
+  const regulations = await prisma.regulation.findMany({
+    where: await getSubscribedRegulationFilter(customerId),
+    select: { id: true },
+  });
+  return new Set(regulations.map((regulation) => regulation.id));
+}
+
+/**
+ * Check whether a rule matches a regulation
+ * @param rule - Subscription rule
+ * @param regulation - Regulation to test
+ * @returns True when every criterion on the rule matches
+ */
+export function matchesSubscriptionRule(
+  rule: SubscriptionRuleCriteria,
+  regulation: SubscribableRegulation
+): boolean {
+  if (!rule.jurisdictionId && !rule.regulationType) {
+    return false;
+  }
+  if (rule.jurisdictionId && rule.jurisdictionId !== regulation.jurisdictionId) {
+    return false;
+  }
+  if (
+    rule.regulationType &&
+    rule.regulationType.toLowerCase() !== regulation.regulationType.toLowerCase()
+  ) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Work out why each regulation is watched
+ * @param regulations - Regulations to label
+ * @param subscribedIds - Regulation ids with a direct subscription
+ * @param rules - Customer's subscription rules
+ * @returns Map of regulation id to watch reason (unwatched ids are absent)
+ */
+export function resolveWatchReasons(
+  regulations: SubscribableRegulation[],
+  subscribedIds: Set<string>,
+  rules: SubscriptionRuleCriteria[]
+): Map<string, WatchReason> {
+  const reasons = new Map<string, WatchReason>();
+  for (const regulation of regulations) {
+    if (subscribedIds.has(regulation.id)) {
+      reasons.set(regulation.id, 'DIRECT');
+    } else if (rules.some((rule) => matchesSubscriptionRule(rule, regulation))) {
+      reasons.set(regulation.id, 'RULE');
+    }
+  }
+  return reasons;
+}
+
+/**
+ * Subscribe a customer to a regulation (no-op if already subscribed)
+ * @param customerId - Customer ID
+ * @param regulationId - Regulation ID
+ * @param source - Why the subscription was created
+ * @returns Subscription row
+ */
+export async function subscribeToRegulation(
+  customerId: string,
+  regulationId: string,
+  source: 'MANUAL' | 'COST_ESTIMATE' = 'MANUAL'
+) {
+  return prisma.customerRegulationSubscription.upsert({
+    where: { customerId_regulationId: { customerId, regulationId } },
+    create: { customerId, regulationId, source },
+    update: {},
+  });
+}
@@ -0,0 +1,146 @@
+/**
+ * Regulation Version History
+ * Resolves which two versions a diff request compares (explicit pair,
+ * "since version N", or a version against its predecessor) and builds the
+ * version timeline from the sequential PolicyDiffs.
+ */
+
+import { SignificanceScore, VersionTimelineEntry } from '@/types/policydiff';
+
+/**
+ * Minimal version shape needed to order versions
+ */
+export interface VersionRef {
+  id: string;
+  versionNumber: number;
+}
+
+/**
+ * Which versions a diff request compares; all fields optional
+ * Without previousVersionId or sinceVersionNumber the current version is
+ * compared with its predecessor; without currentVersionId it is the latest
+ */
+export interface VersionPairRequest {
+  previousVersionId?: string;
+  currentVersionId?: string;
+  sinceVersionNumber?: number;
+}
+
+export type VersionPairResult<V extends VersionRef> =
+  | { previous: V; current: V; sequential: boolean }
+  | { error: string; status: number };
+
+/**
+ * Stored diff fields used by the timeline
+ */
+export interface TimelineDiff {
+  id: string;
+  regulationVersionId: string;
+  previousVersionId: string | null;
+  significanceScore: string;
+  summary: string;
+  keyChanges: string[];
+}
+
+/**
+ * Resolve the two versions a diff request compares
+ * @param versions - All versions of the regulation, any order
+ * @param request - Requested pair
+ * @returns Previous and current version, and whether they are adjacent; or an
+ * error with its HTTP status
+ */
+export function resolveVersionPair<V extends VersionRef>(
+  versions: V[],
+  request: VersionPairRequest
+): VersionPairResult<V> {
+  const ordered = [...versions].sort((a, b) => a.versionNumber - b.versionNumber);
+  if (ordered.length === 0) {
+    return { error: 'Regulation has no versions', status: 404 };
+  }
+
+  const current = request.currentVersionId
+    ? ordered.find((version) => version.id === request.currentVersionId)
+    : ordered[ordered.length - 1];
+  if (!current) {
+    return { error: 'One or both regulation versions not found', status: 404 };
+  }
+  const predecessor = [...ordered].reverse().find((version) => version.versionNumber < current.versionNumber);
+
+  let previous: V | undefined;
+  if (request.previousVersionId) {
+    previous = ordered.find((version) => version.id === request.previousVersionId);
+    if (!previous) {
+      return { error: 'One or both regulation versions not found', status: 404 };
+    }
+  } else if (request.sinceVersionNumber !== undefined) {
+    previous = ordered.find((version) => version.versionNumber === request.sinceVersionNumber);
+    if (!previous) {
+      return { error: `Version ${request.sinceVersionNumber} not found`, status: 404 };
+    }
+  } else {
+    previous = predecessor;
+    if (!previous) {
+      return { error: 'No earlier version to compare against', status: 400 };
+    }
+  }
+
+  if (previous.versionNumber >= current.versionNumber) {
+    return { error: 'Previous version must be older than current version', status: 400 };
+  }
+
+  return { previous, current, sequential: previous.id === predecessor?.id };
+}
+
+/**
+ * Build the version timeline, newest first
+ * @param versions - All versions of the regulation, any order
+ * @param diffs - Stored diffs of the regulation; only those against the
+ * preceding version are used
+ * @returns One entry per version
+ */
+export function buildVersionTimeline<V extends VersionRef & { publishedDate: Date | string }>(
+  versions: V[],
+  diffs: TimelineDiff[]
+): VersionTimelineEntry[] {
+  const ordered = [...versions].sort((a, b) => a.versionNumber - b.versionNumber);
+
+  return ordered
+    .map((version, i) => {
+      const predecessor = ordered[i - 1];
+      const diff = predecessor
+        ? diffs.find(
+            (candidate) =>
+              candidate.regulationVersionId === version.id &&
+              candidate.previousVersionId === predecessor.id
+          )
+        : undefined;
+
+      return {
+        versionId: version.id,
+        versionNumber: version.versionNumber,
+        publishedDate: version.publishedDate,
+        policyDiffId: diff?.id ?? null,
+        significanceScore: (diff?.significanceScore as SignificanceScore | undefined) ?? null,
+        summary: diff?.summary ?? null,
+        keyChanges: diff?.keyChanges ?? [],
+      };
+    })
+    .reverse();
+}
+
+/**
+ * Versions published after one version, up to and including another
+ * @param timeline - Version timeline
+ * @param fromVersionNumber - Version the comparison starts from
+ * @param toVersionNumber - Version the comparison ends at
+ * @returns Timeline entries in between, newest first
+ */
+export function versionsBetween(
+  timeline: VersionTimelineEntry[],
+  fromVersionNumber: number,
+  toVersionNumber: number
+): VersionTimelineEntry[] {
+  return timeline.filter(
+    (entry) => entry.versionNumber > fromVersionNumber && entry.versionNumber <= toVersionNumber
+  );
+}
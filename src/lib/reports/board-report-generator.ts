@@ -6,14 +6,32 @@
 
 import type {
   CostEstimate,
+  CurrencyCode,
+  FiscalCalendar,
+  MonteCarloResult,
   ScenarioAnalysis,
+  ScenarioCashFlowQuarter,
+  ScenarioKey,
+  SimulationHistogramBin,
+  SimulationPercentiles,
 } from '@/types/cost-estimate';
+import { summarizeCashFlowByYear } from '@/lib/cost-estimator/cash-flow';
+import { BASE_CURRENCY } from '@/lib/cost-estimator/currency';
+import { formatCurrency } from '@/lib/utils/format';
+import { resolveSelectedScenario } from '@/lib/cost-estimator/scenario-builder';
+import {
+  DEFAULT_FISCAL_CALENDAR,
+  fiscalPeriodOf,
+  formatFiscalPeriod,
+} from '@/lib/utils/fiscal-calendar';
 
 export interface BoardReport {
   executiveSummary: {
     regulationTitle: string;
     jurisdiction: string;
     reportDate: Date;
+    fiscalPeriod: string; // fiscal period of the report date, e.g. "FY2027 P09"
+    currency: CurrencyCode; // currency of every amount in the report
     totalOneTimeCost: { low: number; high: number };
     totalRecurringCost: number;
     threeYearExposure: { low: number; high: number };
@@ -28,10 +46,11 @@ export interface BoardReport {
     budgetCode: string;
   }[];
   scenarios: {
-    key: 'minimal' | 'standard' | 'bestInClass' | 'delay90Days';
+    key: ScenarioKey;
     name: string;
     description: string;
     threeYearTotal: number;
+    npv?: number;
     riskLevel: string;
     recommendationReason?: string;
   }[];
@@ -47,22 +66,50 @@ export interface BoardReport {
     riskFactors: string[];
     mitigationStrategies: string[];
   };
+  costUncertainty?: {
+    iterations: number;
+    oneTime: SimulationPercentiles;
+    recurring: SimulationPercentiles;
+    oneTimeHistogram: SimulationHistogramBin[];
+  };
+  cashFlow?: {
+    scenarioName: string;
+    horizonYears: number;
+    discountRate: number;
+    complianceDate: string | null;
+    nominalTotal: number;
+    npv: number;
+    years: { fiscalYear: number; label: string; total: number; discountedTotal: number }[]; // by fiscal year
+    quarters: ScenarioCashFlowQuarter[];
+  };
 }
 
 /**
  * Generate comprehensive board report
+ * Includes a cost uncertainty section when a Monte Carlo simulation is supplied
+ * and a cash-flow section when the recommended scenario has a schedule.
+ * The recommended scenario is the customer's selected plan (built-in or custom)
+ * when there is one. Dates are labelled in the customer's fiscal calendar and
+ * amounts are in the estimate's currency.
  */
 export function generateBoardReport(
   estimate: CostEstimate,
   scenarios: ScenarioAnalysis,
   regulationTitle: string,
-  jurisdiction: string
+  jurisdiction: string,
+  simulation?: MonteCarloResult,
+  fiscalCalendar: FiscalCalendar = DEFAULT_FISCAL_CALENDAR
 ): BoardReport {
+  const reportDate = new Date();
+  const reportPeriod = fiscalPeriodOf(reportDate, fiscalCalendar);
+
   // Executive Summary
   const executiveSummary = {
     regulationTitle,
     jurisdiction,
-    reportDate: new Date(),
+    reportDate,
+    fiscalPeriod: formatFiscalPeriod(reportPeriod.fiscalYear, reportPeriod.period),
+    currency: estimate.currency ?? BASE_CURRENCY,
     totalOneTimeCost: {
       low: estimate.oneTimeCostLow,
       high: estimate.oneTimeCostHigh,
@@ -86,15 +133,17 @@ export function generateBoardReport(
   }));
 
   // Scenarios
-  const scenarioList: Array<{ key: 'minimal' | 'standard' | 'bestInClass' | 'delay90Days'; name: string; description: string; threeYearTotal: number; riskLevel: string; recommendationReason?: string }> = [
+  const plan = resolveSelectedScenario(scenarios);
+  const scenarioList: Array<{ key: ScenarioKey; name: string; description: string; threeYearTotal: number; riskLevel: string; npv?: number; recommendationReason?: string }> = [
     {
       key: 'minimal' as const,
       name: scenarios.minimal.name,
       description: scenarios.minimal.description,
       threeYearTotal: scenarios.minimal.threeYearTotal,
+      npv: scenarios.minimal.cashFlow?.npv,
       riskLevel: scenarios.minimal.riskLevel,
       recommendationReason:
-        scenarios.recommended === 'minimal'
+        plan.key === 'minimal'
           ? 'Cost-optimized approach with acceptable risk level'
           : undefined,
     },
@@ -103,9 +152,10 @@ export function generateBoardReport(
       name: scenarios.standard.name,
       description: scenarios.standard.description,
       threeYearTotal: scenarios.standard.threeYearTotal,
+      npv: scenarios.standard.cashFlow?.npv,
       riskLevel: scenarios.standard.riskLevel,
       recommendationReason:
-        scenarios.recommended === 'standard'
+        plan.key === 'standard'
           ? 'Balanced approach with optimal risk/cost ratio'
           : undefined,
     },
@@ -114,9 +164,10 @@ export function generateBoardReport(
       name: scenarios.bestInClass.name,
       description: scenarios.bestInClass.description,
       threeYearTotal: scenarios.bestInClass.threeYearTotal,
+      npv: scenarios.bestInClass.cashFlow?.npv,
       riskLevel: scenarios.bestInClass.riskLevel,
       recommendationReason:
-        scenarios.recommended === 'bestInClass'
+        plan.key === 'bestInClass'
           ? 'Premium compliance with minimal risk exposure'
           : undefined,
     },
@@ -125,12 +176,23 @@ export function generateBoardReport(
       name: scenarios.delay90Days.name,
       description: scenarios.delay90Days.description,
       threeYearTotal: scenarios.delay90Days.threeYearTotal,
+      npv: scenarios.delay90Days.cashFlow?.npv,
       riskLevel: scenarios.delay90Days.riskLevel,
       recommendationReason:
-        scenarios.recommended === 'delay90Days'
+        plan.key === 'delay90Days'
           ? 'Not recommended - Higher cost and risk due to delay'
           : 'Not recommended - Avoid delay penalties',
     },
+    ...(scenarios.custom ?? []).map((custom) => ({
+      key: custom.key,
+      name: custom.name,
+      description: custom.description,
+      threeYearTotal: custom.threeYearTotal,
+      npv: custom.cashFlow?.npv,
+      riskLevel: custom.riskLevel,
+      recommendationReason:
+        plan.key === custom.key ? 'Selected plan defined by the compliance team' : undefined,
+    })),
   ];
 
   // Key Insights
@@ -142,14 +204,37 @@ export function generateBoardReport(
   // Risk Analysis
   const riskAnalysis = generateRiskAnalysis(estimate, scenarios);
 
+  // Cash flow of the recommended scenario
+  const recommended = plan.scenario;
+
   return {
     executiveSummary,
     departmentImpact,
     scenarios: scenarioList,
-    recommendedScenario: scenarios.recommended,
+    recommendedScenario: plan.key,
     keyInsights,
     implementationRoadmap,
     riskAnalysis,
+    costUncertainty: simulation
+      ? {
+          iterations: simulation.iterations,
+          oneTime: simulation.oneTime,
+          recurring: simulation.recurring,
+          oneTimeHistogram: simulation.oneTimeHistogram,
+        }
+      : undefined,
+    cashFlow: recommended.cashFlow
+      ? {
+          scenarioName: recommended.name,
+          horizonYears: recommended.cashFlow.horizonYears,
+          discountRate: recommended.cashFlow.discountRate,
+          complianceDate: recommended.cashFlow.complianceDate,
+          nominalTotal: recommended.cashFlow.nominalTotal,
+          npv: recommended.cashFlow.npv,
+          years: summarizeCashFlowByYear(recommended.cashFlow),
+          quarters: recommended.cashFlow.quarters,
+        }
+      : undefined,
   };
 }
 
@@ -161,12 +246,13 @@ function generateKeyInsights(
   scenarios: ScenarioAnalysis
 ): string[] {
   const insights: string[] = [];
+  const currency = estimate.currency ?? BASE_CURRENCY;
 
   // Total investment insight
   const avgOneTime =
     (estimate.oneTimeCostLow + estimate.oneTimeCostHigh) / 2;
   insights.push(
-    `Total compliance investment: $${Math.round(avgOneTime).toLocaleString()} one-time + $${estimate.recurringCostAnnual.toLocaleString()}/year`
+    `Total compliance investment: ${formatCurrency(avgOneTime, currency)} one-time + ${formatCurrency(estimate.recurringCostAnnual, currency)}/year`
   );
 
   // Department concentration
@@ -189,7 +275,7 @@ function generateKeyInsights(
   const savings = standardCost - minimalCost;
   if (savings > 0) {
     insights.push(
-      `Potential 3-year savings: $${Math.round(savings).toLocaleString()} (minimal vs standard approach)`
+      `Potential 3-year savings: ${formatCurrency(savings, currency)} (minimal vs standard approach)`
     );
   }
 
@@ -208,7 +294,7 @@ function generateKeyInsights(
   const delayCost = scenarios.delay90Days.threeYearTotal - standardCost;
   if (delayCost > 0) {
     insights.push(
-      `Delay penalty: +$${Math.round(delayCost).toLocaleString()} (rush fees + regulatory risks)`
+      `Delay penalty: +${formatCurrency(delayCost, currency)} (rush fees + regulatory risks)`
     );
   }
 
@@ -299,6 +385,7 @@ function generateRiskAnalysis(
 ): BoardReport['riskAnalysis'] {
   const riskFactors: string[] = [];
   const mitigationStrategies: string[] = [];
+  const currency = estimate.currency ?? BASE_CURRENCY;
 
   // Budget overrun risk
   if (estimate.confidence < 0.8) {
@@ -340,13 +427,29 @@ function generateRiskAnalysis(
     scenarios.delay90Days.threeYearTotal - scenarios.standard.threeYearTotal;
   if (delayCost > estimate.oneTimeCostLow * 0.2) {
     riskFactors.push(
-      `Delay penalties: Postponing implementation increases costs by $${Math.round(delayCost).toLocaleString()}`
+      `Delay penalties: Postponing implementation increases costs by ${formatCurrency(delayCost, currency)}`
     );
     mitigationStrategies.push(
       'Fast-track critical path items and secure executive commitment'
     );
   }
 
+  // Enforcement exposure from the regulation's penalty schedule
+  const exposure = scenarios.penaltyExposure;
+  if (exposure?.hasSchedule) {
+    riskFactors.push(
+      `Enforcement exposure: ${exposure.nonComplianceDays} days of non-compliance could draw up to $${exposure.grossExposure.toLocaleString()} in penalties${exposure.capped ? ' (statutory cap)' : ''}; risk-weighted $${exposure.riskWeightedExposure.toLocaleString()} at ${Math.round(exposure.enforcementProbability * 100)}% likelihood`
+    );
+    if (exposure.privateRightOfAction) {
+      riskFactors.push(
+        'Private right of action: affected individuals can sue directly, in addition to regulator enforcement'
+      );
+      mitigationStrategies.push(
+        'Review litigation exposure with counsel and document good-faith compliance efforts'
+      );
+    }
+  }
+
   // Add standard mitigation strategies
   mitigationStrategies.push(
     'Implement phased approach to distribute costs and reduce risk exposure'
@@ -362,13 +465,8 @@ function generateRiskAnalysis(
  * Format board report as HTML for printing
  */
 export function formatBoardReportHTML(report: BoardReport): string {
-  const formatCurrency = (amount: number) =>
-    new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD',
-      minimumFractionDigits: 0,
-      maximumFractionDigits: 0,
-    }).format(amount);
+  const formatAmount = (amount: number) =>
+    formatCurrency(amount, report.executiveSummary.currency);
 
   return `
 <!DOCTYPE html>
@@ -392,6 +490,8 @@ export function formatBoardReportHTML(report: BoardReport): string {
     .recommended { background: #c6f6d5; font-weight: bold; }
     ul { list-style-type: none; padding-left: 0; }
     li:before { content: "▸ "; color: #3182ce; font-weight: bold; }
+    .histogram { display: flex; align-items: flex-end; gap: 2px; height: 120px; margin: 20px 0; }
+    .histogram div { flex: 1; background: #3182ce; min-height: 1px; }
     @media print { body { margin: 0; } .no-print { display: none; } }
   </style>
 </head>
@@ -402,21 +502,21 @@ export function formatBoardReportHTML(report: BoardReport): string {
     <h2>Executive Summary</h2>
     <p><strong>Regulation:</strong> ${report.executiveSummary.regulationTitle}</p>
     <p><strong>Jurisdiction:</strong> ${report.executiveSummary.jurisdiction}</p>
-    <p><strong>Report Date:</strong> ${report.executiveSummary.reportDate.toLocaleDateString()}</p>
+    <p><strong>Report Date:</strong> ${report.executiveSummary.reportDate.toLocaleDateString()} (${report.executiveSummary.fiscalPeriod})</p>
     
     <div class="metric">
       <div class="metric-label">One-Time Investment</div>
-      <div class="metric-value">${formatCurrency(report.executiveSummary.totalOneTimeCost.low)} - ${formatCurrency(report.executiveSummary.totalOneTimeCost.high)}</div>
+      <div class="metric-value">${formatAmount(report.executiveSummary.totalOneTimeCost.low)} - ${formatAmount(report.executiveSummary.totalOneTimeCost.high)}</div>
     </div>
     
     <div class="metric">
       <div class="metric-label">Annual Recurring Cost</div>
-      <div class="metric-value">${formatCurrency(report.executiveSummary.totalRecurringCost)}</div>
+      <div class="metric-value">${formatAmount(report.executiveSummary.totalRecurringCost)}</div>
     </div>
     
     <div class="metric">
       <div class="metric-label">3-Year Exposure</div>
-      <div class="metric-value">${formatCurrency(report.executiveSummary.threeYearExposure.low)} - ${formatCurrency(report.executiveSummary.threeYearExposure.high)}</div>
+      <div class="metric-value">${formatAmount(report.executiveSummary.threeYearExposure.low)} - ${formatAmount(report.executiveSummary.threeYearExposure.high)}</div>
     </div>
     
     <p><strong>Confidence Level:</strong> ${Math.round(report.executiveSummary.confidence * 100)}% (${report.executiveSummary.methodology})</p>
@@ -442,8 +542,8 @@ export function formatBoardReportHTML(report: BoardReport): string {
           (dept) => `
         <tr>
           <td>${dept.department}</td>
-          <td>${formatCurrency(dept.oneTimeCost)}</td>
-          <td>${formatCurrency(dept.recurringCost)}</td>
+          <td>${formatAmount(dept.oneTimeCost)}</td>
+          <td>${formatAmount(dept.recurringCost)}</td>
           <td>${dept.fteImpact}</td>
           <td>${dept.budgetCode}</td>
         </tr>
@@ -459,6 +559,7 @@ export function formatBoardReportHTML(report: BoardReport): string {
       <tr>
         <th>Scenario</th>
         <th>3-Year Total</th>
+        <th>NPV</th>
         <th>Risk Level</th>
         <th>Notes</th>
       </tr>
@@ -469,7 +570,8 @@ export function formatBoardReportHTML(report: BoardReport): string {
           (scenario) => `
         <tr class="${scenario.key === report.recommendedScenario ? 'recommended' : ''}">
           <td><strong>${scenario.name}</strong><br/><small>${scenario.description}</small></td>
-          <td>${formatCurrency(scenario.threeYearTotal)}</td>
+          <td>${formatAmount(scenario.threeYearTotal)}</td>
+          <td>${scenario.npv !== undefined ? formatAmount(scenario.npv) : '-'}</td>
           <td>${scenario.riskLevel}</td>
           <td>${scenario.recommendationReason || '-'}</td>
         </tr>
@@ -479,6 +581,8 @@ export function formatBoardReportHTML(report: BoardReport): string {
     </tbody>
   </table>
 
+${report.cashFlow ? formatCashFlowHTML(report.cashFlow, formatAmount) : ''}
+${report.costUncertainty ? formatCostUncertaintyHTML(report.costUncertainty, formatAmount) : ''}
   <h2>Implementation Roadmap</h2>
   <table>
     <thead>
@@ -496,7 +600,7 @@ export function formatBoardReportHTML(report: BoardReport): string {
         <tr>
           <td>${phase.phase}</td>
           <td>${phase.timeline}</td>
-          <td>${formatCurrency(phase.cost)}</td>
+          <td>${formatAmount(phase.cost)}</td>
           <td>${phase.department}</td>
         </tr>
       `
@@ -520,6 +624,107 @@ export function formatBoardReportHTML(report: BoardReport): string {
   `;
 }
 
+/**
+ * Cost uncertainty section: percentile table plus a CSS bar histogram
+ */
+function formatCostUncertaintyHTML(
+  uncertainty: NonNullable<BoardReport['costUncertainty']>,
+  formatCurrency: (amount: number) => string
+): string {
+  const maxCount = Math.max(1, ...uncertainty.oneTimeHistogram.map((bin) => bin.count));
+
+  return `
+  <h2>Cost Uncertainty (Monte Carlo, ${uncertainty.iterations.toLocaleString()} runs)</h2>
+  <table>
+    <thead>
+      <tr>
+        <th>Cost</th>
+        <th>P10</th>
+        <th>P50</th>
+        <th>P90</th>
+      </tr>
+    </thead>
+    <tbody>
+      <tr>
+        <td>One-Time</td>
+        <td>${formatCurrency(uncertainty.oneTime.p10)}</td>
+        <td>${formatCurrency(uncertainty.oneTime.p50)}</td>
+        <td>${formatCurrency(uncertainty.oneTime.p90)}</td>
+      </tr>
+      <tr>
+        <td>Annual Recurring</td>
+        <td>${formatCurrency(uncertainty.recurring.p10)}</td>
+        <td>${formatCurrency(uncertainty.recurring.p50)}</td>
+        <td>${formatCurrency(uncertainty.recurring.p90)}</td>
+      </tr>
+    </tbody>
+  </table>
+  <div class="histogram">
+    ${uncertainty.oneTimeHistogram
+      .map(
+        (bin) =>
+          `<div style="height: ${Math.round((bin.count / maxCount) * 100)}%" title="${formatCurrency(bin.start)} - ${formatCurrency(bin.end)}: ${bin.count}"></div>`
+      )
+      .join('')}
+  </div>
+  <p><small>One-time cost distribution. There is an 80% chance the one-time cost falls between P10 and P90.</small></p>
+`;
+}
+
+/**
+ * Cash-flow section: spend per fiscal year plus a CSS bar chart of the fiscal quarters
+ */
+function formatCashFlowHTML(
+  cashFlow: NonNullable<BoardReport['cashFlow']>,
+  formatCurrency: (amount: number) => string
+): string {
+  const maxTotal = Math.max(1, ...cashFlow.quarters.map((quarter) => quarter.total));
+
+  return `
+  <h2>Cash Flow: ${cashFlow.scenarioName} (${cashFlow.horizonYears}-Year Horizon)</h2>
+  <table>
+    <thead>
+      <tr>
+        <th>Fiscal Year</th>
+        <th>Spend</th>
+        <th>Present Value</th>
+      </tr>
+    </thead>
+    <tbody>
+      ${cashFlow.years
+        .map(
+          (year) => `
+        <tr>
+          <td>${year.label}</td>
+          <td>${formatCurrency(year.total)}</td>
+          <td>${formatCurrency(year.discountedTotal)}</td>
+        </tr>
+      `
+        )
+        .join('')}
+      <tr>
+        <td><strong>Total</strong></td>
+        <td><strong>${formatCurrency(cashFlow.nominalTotal)}</strong></td>
+        <td><strong>${formatCurrency(cashFlow.npv)}</strong></td>
+      </tr>
+    </tbody>
+  </table>
+  <div class="histogram">
+    ${cashFlow.quarters
+      .map(
+        (quarter) =>
+          `<div style="height: ${Math.round((quarter.total / maxTotal) * 100)}%" title="${quarter.label}: ${formatCurrency(quarter.total)}"></div>`
+      )
+      .join('')}
+  </div>
+  <p><small>Quarterly spend discounted at ${(cashFlow.discountRate * 100).toFixed(1)}% per year. ${
+    cashFlow.complianceDate
+      ? `Implementation is scheduled to finish by the compliance date, ${cashFlow.complianceDate}.`
+      : 'The regulation has no upcoming compliance date; implementation is spread over two quarters.'
+  }</small></p>
+`;
+}
+
 /**
  * Export board report as JSON
  */
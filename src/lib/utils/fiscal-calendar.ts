@@ -0,0 +1,190 @@
+/**
+ * Fiscal Calendar Utilities
+ * Maps dates to a customer's fiscal year, quarter and period, and labels them.
+ * Fiscal years are named by the calendar year they end in, so with a
+ * February start FY2027 runs from February 2026 to January 2027.
+ */
+
+import type { FiscalCalendar, FiscalPeriodPattern } from '../../types/cost-estimate';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Weeks elapsed at the end of each period of a 4-4-5 year; a 53rd week is
+// added to the last period
+const WEEKS_445_PERIOD_ENDS = [4, 8, 13, 17, 21, 26, 30, 34, 39, 43, 47, 52];
+
+export const FISCAL_PERIOD_PATTERNS: FiscalPeriodPattern[] = ['CALENDAR_MONTHS', 'WEEKS_445'];
+
+export const DEFAULT_FISCAL_CALENDAR: FiscalCalendar = {
+  startMonth: 1,
+  pattern: 'CALENDAR_MONTHS',
+};
+
+/**
+ * Position of a date in the fiscal calendar
+ */
+export interface FiscalPeriod {
+  fiscalYear: number;
+  quarter: number; // 1-4
+  period: number; // 1-12
+  periodStart: Date;
+}
+
+/**
+ * Build a fiscal calendar from stored settings, falling back to the defaults
+ * for out-of-range values
+ * @param startMonth - Month the fiscal year starts (1-12)
+ * @param pattern - Period pattern
+ * @returns Fiscal calendar
+ */
+export function toFiscalCalendar(startMonth: number, pattern: string): FiscalCalendar {
+  return {
+    startMonth:
+      Number.isInteger(startMonth) && startMonth >= 1 && startMonth <= 12
+        ? startMonth
+        : DEFAULT_FISCAL_CALENDAR.startMonth,
+    pattern: FISCAL_PERIOD_PATTERNS.includes(pattern as FiscalPeriodPattern)
+      ? (pattern as FiscalPeriodPattern)
+      : DEFAULT_FISCAL_CALENDAR.pattern,
+  };
+}
+
+/**
+ * First day of a fiscal year (UTC)
+ * 4-4-5 years start on the Monday nearest the 1st of the start month
+ * @param fiscalYear - Fiscal year
+ * @param calendar - Fiscal calendar
+ * @returns Start date
+ */
+export function fiscalYearStart(fiscalYear: number, calendar: FiscalCalendar = DEFAULT_FISCAL_CALENDAR): Date {
+  const calendarYear = calendar.startMonth === 1 ? fiscalYear : fiscalYear - 1;
+  const monthStart = new Date(Date.UTC(calendarYear, calendar.startMonth - 1, 1));
+  if (calendar.pattern !== 'WEEKS_445') return monthStart;
+
+  const daysToMonday = (8 - monthStart.getUTCDay()) % 7;
+  const offset = daysToMonday > 3 ? daysToMonday - 7 : daysToMonday;
+  return new Date(monthStart.getTime() + offset * DAY_MS);
+}
+
+/**
+ * Fiscal year a date falls in
+ * @param date - Date
+ * @param calendar - Fiscal calendar
+ * @returns Fiscal year
+ */
+export function fiscalYearOf(date: Date, calendar: FiscalCalendar = DEFAULT_FISCAL_CALENDAR): number {
+  let fiscalYear =
+    date.getUTCFullYear() + (calendar.startMonth > 1 && date.getUTCMonth() >= calendar.startMonth - 1 ? 1 : 0);
+  // 4-4-5 years can start a few days either side of the 1st
+  while (date < fiscalYearStart(fiscalYear, calendar)) fiscalYear--;
+  while (date >= fiscalYearStart(fiscalYear + 1, calendar)) fiscalYear++;
+  return fiscalYear;
+}
+
+/**
+ * First day of a fiscal period (UTC)
+ * @param fiscalYear - Fiscal year
+ * @param period - Period 1-12
+ * @param calendar - Fiscal calendar
+ * @returns Start date
+ */
+export function fiscalPeriodStart(
+  fiscalYear: number,
+  period: number,
+  calendar: FiscalCalendar = DEFAULT_FISCAL_CALENDAR
+): Date {
+  const yearStart = fiscalYearStart(fiscalYear, calendar);
+  if (calendar.pattern === 'WEEKS_445') {
+    const weeks = period > 1 ? WEEKS_445_PERIOD_ENDS[period - 2] : 0;
+    return new Date(yearStart.getTime() + weeks * 7 * DAY_MS);
+  }
+  return new Date(Date.UTC(yearStart.getUTCFullYear(), yearStart.getUTCMonth() + period - 1, 1));
+}
+
+/**
+ * First day of a fiscal quarter (UTC)
+ * @param fiscalYear - Fiscal year
+ * @param quarter - Quarter 1-4
+ * @param calendar - Fiscal calendar
+ * @returns Start date
+ */
+export function fiscalQuarterStart(
+  fiscalYear: number,
+  quarter: number,
+  calendar: FiscalCalendar = DEFAULT_FISCAL_CALENDAR
+): Date {
+  return fiscalPeriodStart(fiscalYear, (quarter - 1) * 3 + 1, calendar);
+}
+
+/**
+ * Fiscal year, quarter and period a date falls in
+ * @param date - Date
+ * @param calendar - Fiscal calendar
+ * @returns Fiscal period
+ */
+export function fiscalPeriodOf(date: Date, calendar: FiscalCalendar = DEFAULT_FISCAL_CALENDAR): FiscalPeriod {
+  const fiscalYear = fiscalYearOf(date, calendar);
+  const yearStart = fiscalYearStart(fiscalYear, calendar);
+
+  let period: number;
+  if (calendar.pattern === 'WEEKS_445') {
+    const week = Math.floor((date.getTime() - yearStart.getTime()) / (7 * DAY_MS));
+    const index = WEEKS_445_PERIOD_ENDS.findIndex((end) => week < end);
+    period = index === -1 ? 12 : index + 1;
+  } else {
+    period =
+      (date.getUTCFullYear() - yearStart.getUTCFullYear()) * 12 +
+      date.getUTCMonth() -
+      yearStart.getUTCMonth() +
+      1;
+  }
+
+  return {
+    fiscalYear,
+    quarter: Math.ceil(period / 3),
+    period,
+    periodStart: fiscalPeriodStart(fiscalYear, period, calendar),
+  };
+}
+
+/**
+ * Fiscal period a number of periods before or after another
+ * @param fiscalYear - Fiscal year
+ * @param period - Period 1-12
+ * @param offset - Periods to move (negative moves back)
+ * @returns Fiscal year and period
+ */
+export function shiftFiscalPeriod(
+  fiscalYear: number,
+  period: number,
+  offset: number
+): { fiscalYear: number; period: number } {
+  const index = fiscalYear * 12 + (period - 1) + offset;
+  return { fiscalYear: Math.floor(index / 12), period: (index % 12) + 1 };
+}
+
+/**
+ * @param fiscalYear - Fiscal year
+ * @returns Label such as "FY2027"
+ */
+export function formatFiscalYear(fiscalYear: number): string {
+  return `FY${fiscalYear}`;
+}
+
+/**
+ * @param fiscalYear - Fiscal year
+ * @param quarter - Quarter 1-4
+ * @returns Label such as "FY2027 Q1"
+ */
+export function formatFiscalQuarter(fiscalYear: number, quarter: number): string {
+  return `FY${fiscalYear} Q${quarter}`;
+}
+
+/**
+ * @param fiscalYear - Fiscal year
+ * @param period - Period 1-12
+ * @returns Label such as "FY2027 P01" (sorts chronologically)
+ */
+export function formatFiscalPeriod(fiscalYear: number, period: number): string {
+  return `FY${fiscalYear} P${String(period).padStart(2, '0')}`;
+}
@@ -19,13 +19,14 @@ export function formatDate(date: Date | string): string {
 
 /**
  * Format currency value
- * @param amount - Amount in dollars
- * @returns Formatted currency string (e.g., "$150,000")
+ * @param amount - Amount in whole currency units
+ * @param currency - ISO 4217 code
+ * @returns Formatted currency string (e.g., "$150,000", "€150,000")
  */
-export function formatCurrency(amount: number): string {
+export function formatCurrency(amount: number, currency: string = 'USD'): string {
   return new Intl.NumberFormat('en-US', {
     style: 'currency',
-    currency: 'USD',
+    currency,
     minimumFractionDigits: 0,
     maximumFractionDigits: 0,
   }).format(amount);
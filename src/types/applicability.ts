@@ -0,0 +1,71 @@
+/**
+ * Regulation Applicability Types
+ * Whether a regulation applies to a customer, why, and how sure we are
+ */
+
+import type { Industry } from './cost-estimate';
+
+/**
+ * Overall verdict
+ * POSSIBLY_APPLICABLE means nothing rules the regulation out but some
+ * criteria could not be checked (e.g. operating jurisdictions not configured)
+ */
+export type ApplicabilityStatus =
+  | 'APPLICABLE'
+  | 'POSSIBLY_APPLICABLE'
+  | 'NOT_APPLICABLE';
+
+export type ApplicabilityCriterion = 'JURISDICTION' | 'EMPLOYEE_THRESHOLD' | 'SECTOR';
+
+export type CriterionOutcome = 'MET' | 'NOT_MET' | 'UNKNOWN';
+
+/**
+ * Scope criteria parsed from regulation text
+ */
+export interface RegulationScope {
+  minEmployees?: number;
+  maxEmployees?: number;
+  sectors: Industry[]; // Sectors the law is addressed to
+  mentionedSectors: Industry[]; // Sectors only named in passing (not scope)
+  evidence: string[]; // Phrases the criteria were read from
+}
+
+/**
+ * Regulation fields the engine needs
+ */
+export interface ApplicabilityRegulation {
+  id: string;
+  jurisdiction: { code: string; name: string; type: 'FEDERAL' | 'STATE' | 'LOCAL' };
+  contentText: string | null; // Latest version text
+}
+
+/**
+ * Customer fields the engine needs
+ */
+export interface ApplicabilityCustomer {
+  industry: string;
+  employeeCount: number;
+  operatingJurisdictions: string[];
+}
+
+/**
+ * One criterion's contribution to the verdict
+ */
+export interface ApplicabilityReason {
+  criterion: ApplicabilityCriterion;
+  outcome: CriterionOutcome;
+  detail: string;
+  confidence: number;
+}
+
+/**
+ * Applicability verdict for a customer/regulation pair
+ */
+export interface ApplicabilityResult {
+  regulationId: string;
+  status: ApplicabilityStatus;
+  applies: boolean;
+  confidence: number;
+  reasons: ApplicabilityReason[];
+  scope: RegulationScope;
+}
@@ -0,0 +1,85 @@
+/**
+ * Budget Types
+ * Fiscal-year department budgets, the estimates committed against them and
+ * recorded actual spend
+ */
+
+/**
+ * Fiscal-year budget of a department under one budget code
+ */
+export interface DepartmentBudget {
+  id: string;
+  fiscalYear: number;
+  department: string; // Department enum value
+  budgetCode: string;
+  amount: number;
+  notes: string | null;
+  updatedBy: string | null;
+  updatedAt: Date;
+}
+
+/**
+ * Department share of an approved estimate committed against a fiscal year
+ */
+export interface BudgetCommitment {
+  id: string;
+  costEstimateId: string;
+  approvalId: string | null;
+  fiscalYear: number;
+  department: string;
+  budgetCode: string | null;
+  amount: number;
+  committedAt: Date;
+}
+
+/**
+ * Actual spend recorded against a department's budget
+ */
+export interface BudgetActual {
+  id: string;
+  costEstimateId: string | null;
+  fiscalYear: number;
+  department: string;
+  budgetCode: string | null;
+  amount: number;
+  spentAt: Date;
+  description: string | null;
+  recordedBy: string;
+}
+
+/**
+ * UNBUDGETED: commitments or spend without a budget line
+ * OVER_BUDGET: actual spend above the budget
+ * OVER_COMMITTED: approved estimates above the budget
+ */
+export type BudgetLineStatus = 'ON_TRACK' | 'OVER_COMMITTED' | 'OVER_BUDGET' | 'UNBUDGETED';
+
+/**
+ * Budget vs committed vs actual for one budget line
+ */
+export interface BudgetSummaryLine {
+  fiscalYear: number;
+  department: string;
+  budgetCode: string | null; // null = department without a budget line
+  budgeted: number;
+  committed: number;
+  actual: number;
+  remaining: number; // budgeted - committed
+  variance: number; // actual - budgeted
+  variancePercent: number | null;
+  status: BudgetLineStatus;
+}
+
+/**
+ * Budget vs committed vs actual for a fiscal year
+ */
+export interface BudgetSummary {
+  fiscalYear: number;
+  lines: BudgetSummaryLine[];
+  totals: {
+    budgeted: number;
+    committed: number;
+    actual: number;
+    remaining: number;
+  };
+}
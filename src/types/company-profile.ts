@@ -0,0 +1,40 @@
+/**
+ * Company Profile Types
+ * Stored, versioned customer profile that drives cost estimation
+ */
+
+import type { CompanyProfile, Industry, RiskLevel, TechMaturity } from './cost-estimate';
+
+/**
+ * Editable profile fields (geographicComplexity is derived)
+ */
+export interface CompanyProfileInput {
+  industry: Industry;
+  employeeCount: number;
+  revenue?: number | null;
+  techMaturity: TechMaturity;
+  riskAppetite: RiskLevel;
+  operatingJurisdictions: string[];
+}
+
+/**
+ * One saved profile version
+ */
+export interface CompanyProfileVersionRecord extends CompanyProfileInput {
+  id: string;
+  version: number;
+  geographicComplexity: number;
+  createdBy: string;
+  createdAt: Date;
+}
+
+/**
+ * Profile used for an estimate and where it came from
+ * profileVersionId is null when no profile has been saved and the
+ * Customer row supplied the defaults
+ */
+export interface ResolvedCompanyProfile {
+  profile: CompanyProfile;
+  profileVersionId: string | null;
+  profileVersion: number | null;
+}
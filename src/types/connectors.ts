@@ -0,0 +1,55 @@
+/**
+ * Regulation Source Connector Types
+ * Types for polling external regulation sources and normalizing documents
+ */
+
+/**
+ * Supported connector implementations (mirrors RegulationConnectorType in Prisma)
+ */
+export type ConnectorType = 'RSS' | 'DIRECTORY' | 'JSON_EXPORT';
+
+/**
+ * A configured source, resolved with its jurisdiction code
+ */
+export interface RegulationSourceConfig {
+  id: string;
+  name: string;
+  connectorType: ConnectorType;
+  location: string; // Feed URL, export URL, file path or directory path
+  jurisdictionCode: string;
+  regulationType: string; // Default type for documents that don't specify one
+}
+
+/**
+ * Document produced by a connector, ready for ingestion
+ */
+export interface NormalizedRegulationDocument {
+  externalId: string; // Feed guid, link, file name or export id
+  title: string;
+  contentText: string;
+  regulationType?: string;
+  jurisdictionCode?: string; // Overrides the source jurisdiction when present
+  sourceUrl?: string;
+  publishedDate?: Date;
+  effectiveDate?: Date;
+}
+
+/**
+ * Connector contract: fetch and normalize all documents from a source
+ */
+export interface RegulationConnector {
+  type: ConnectorType;
+  fetchDocuments(source: RegulationSourceConfig): Promise<NormalizedRegulationDocument[]>;
+}
+
+/**
+ * Per-source polling outcome
+ */
+export interface SourcePollResult {
+  sourceId: string;
+  sourceName: string;
+  documentsFound: number;
+  versionsCreated: number;
+  duplicates: number;
+  errors: string[];
+}
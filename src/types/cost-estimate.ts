@@ -3,6 +3,8 @@
  * Types for regulatory cost estimation and financial impact analysis
  */
 
+import type { PenaltyExposure } from './penalties';
+
 /**
  * Industry type for company profile
  */
@@ -68,10 +70,44 @@ export interface CompanyProfile {
   employeeCount: number;
   revenue?: number;
   geographicComplexity: number; // Number of states/jurisdictions
+  operatingJurisdictions?: string[]; // Jurisdiction codes, for regional labor indices
   techMaturity: TechMaturity;
   riskAppetite?: RiskLevel;
 }
 
+/**
+ * Annual escalation index kind
+ * Labor-driven costs grow with wages; everything else with inflation
+ */
+export type EscalationIndexKind = 'INFLATION' | 'WAGE_GROWTH';
+
+/**
+ * Inflation, wage-growth and regional labor-cost indices used to turn
+ * today's cost figures into multi-year, location-aware amounts
+ */
+export interface CostIndices {
+  inflation: Record<number, number>; // Annual rate by calendar year (0.025 = 2.5%)
+  wageGrowth: Record<number, number>;
+  defaultInflationRate: number; // Used for years without a configured rate
+  defaultWageGrowthRate: number;
+  regionalLabor: Record<string, number>; // Jurisdiction code -> labor cost index (1.0 = baseline)
+}
+
+/**
+ * ISO 4217 currencies estimates and reports can be in
+ */
+export type CurrencyCode = 'USD' | 'CAD' | 'EUR';
+
+/**
+ * USD value of one unit of a currency from an effective date
+ */
+export interface FxRate {
+  currency: CurrencyCode;
+  rateToUsd: number; // 1 EUR = 1.08 USD -> 1.08
+  effectiveDate: Date;
+  source: string | null;
+}
+
 /**
  * Individual cost driver identified from regulation
  */
@@ -85,6 +121,65 @@ export interface EvidenceSource {
   estimatedCost?: number; // If evidence suggests specific cost
 }
 
+/**
+ * Document backing a vendor quote, kept as a link to where it is stored
+ */
+export interface VendorQuoteAttachment {
+  name: string;
+  url: string;
+}
+
+/**
+ * Vendor quote for one cost driver; drivers are matched by category and
+ * description so a quote applies to every later revision of the estimate
+ */
+export interface VendorQuote {
+  id: string;
+  regulationId: string;
+  driverCategory: CostCategory;
+  driverDescription: string;
+  vendor: string;
+  amount: number;
+  currency: CurrencyCode;
+  validUntil: Date; // End of the last day the quote is valid
+  scope: string | null;
+  attachments: VendorQuoteAttachment[];
+  selected: boolean;
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Curated benchmark used by the deterministic driver extractor
+ * A regulation matching any keyword (or the pattern) yields one cost driver
+ */
+export interface CostBenchmark {
+  key: string;
+  category: CostCategory;
+  description: string;
+  keywords: string[];
+  pattern?: string | null;
+  isOneTime: boolean;
+  baseCost: number;
+  evidenceCost?: number | null;
+  confidence: number;
+  department: Department;
+  evidenceType: EvidenceSource['type'];
+  evidenceReference: string;
+  effectiveYear: number;
+  active: boolean;
+}
+
+/**
+ * Stored benchmark row
+ */
+export interface CostBenchmarkRecord extends CostBenchmark {
+  id: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
 /**
  * Cost driver with evidence and department allocation
  */
@@ -94,7 +189,9 @@ export interface CostDriver {
   description: string;
   isOneTime: boolean;
   estimatedCost: number;
+  currency?: CurrencyCode; // Absent = the estimate's currency
   confidence: number; // 0-1
+  quoteId?: string; // Selected vendor quote; estimatedCost is its firm price
   department: Department;
   // Phase 1: Evidence-backed extraction
   evidence?: EvidenceSource[];
@@ -145,6 +242,89 @@ export interface CostScenario {
   threeYearTotal: number;
   riskLevel: RiskLevel;
   assumptions: string[];
+  // Quarterly cash flows and NPV over the customer's horizon
+  cashFlow?: ScenarioCashFlow;
+}
+
+/**
+ * One quarter of a scenario's cash-flow schedule
+ */
+export interface ScenarioCashFlowQuarter {
+  index: number;
+  label: string; // fiscal quarter, e.g. "FY2027 Q1"
+  fiscalYear: number;
+  fiscalQuarter: number; // 1-4
+  startDate: string; // ISO date
+  oneTimeCost: number;
+  recurringCost: number;
+  total: number;
+  cumulative: number;
+  discountedTotal: number;
+}
+
+/**
+ * Quarter-by-quarter spend of a scenario with its net present value
+ */
+export interface ScenarioCashFlow {
+  horizonYears: number;
+  discountRate: number;
+  complianceDate: string | null; // ISO date implementation must be finished by
+  quarters: ScenarioCashFlowQuarter[];
+  nominalTotal: number;
+  npv: number;
+}
+
+/**
+ * CALENDAR_MONTHS: twelve calendar-month periods from the start month
+ * WEEKS_445: 52/53-week year starting on the Monday nearest the 1st of the
+ * start month, with 4-4-5 week periods per quarter
+ */
+export type FiscalPeriodPattern = 'CALENDAR_MONTHS' | 'WEEKS_445';
+
+/**
+ * Customer fiscal calendar (fiscal years are named by the calendar year they end in)
+ */
+export interface FiscalCalendar {
+  startMonth: number; // 1-12
+  pattern: FiscalPeriodPattern;
+}
+
+/**
+ * Customer settings for scenario cash flows
+ */
+export interface FinancialSettings {
+  discountRate: number;
+  scenarioHorizonYears: number;
+  fiscalCalendar: FiscalCalendar;
+  reportingCurrency: CurrencyCode;
+}
+
+export type BuiltInScenarioKey = 'minimal' | 'standard' | 'bestInClass' | 'delay90Days';
+
+// Built-in scenario, or custom:<id> for a customer-defined one
+export type ScenarioKey = BuiltInScenarioKey | `custom:${string}`;
+
+export type ScenarioSourcing = 'IN_HOUSE' | 'VENDOR';
+
+/**
+ * Customer-defined scenario: changes applied to an estimate's cost drivers
+ */
+export interface CustomScenarioDefinition {
+  name: string;
+  description?: string | null;
+  excludedDriverIds: string[];
+  driverCostOverrides: Record<string, number>; // driverId -> cost
+  delayMonths: number;
+  sourcing: ScenarioSourcing;
+}
+
+/**
+ * Custom scenario priced against its estimate
+ */
+export interface CustomCostScenario extends CostScenario {
+  id: string;
+  key: `custom:${string}`;
+  definition: CustomScenarioDefinition;
 }
 
 /**
@@ -155,7 +335,12 @@ export interface ScenarioAnalysis {
   standard: CostScenario;
   bestInClass: CostScenario;
   delay90Days: CostScenario;
-  recommended: 'minimal' | 'standard' | 'bestInClass' | 'delay90Days';
+  recommended: BuiltInScenarioKey;
+  custom?: CustomCostScenario[];
+  // Plan the customer chose; takes precedence over the automatic recommendation
+  selected?: ScenarioKey | null;
+  // Penalties priced into the 90-day delay
+  penaltyExposure?: PenaltyExposure;
 }
 
 /**
@@ -170,6 +355,7 @@ export interface CostEstimate {
   oneTimeCostLow: number;
   oneTimeCostHigh: number;
   recurringCostAnnual: number;
+  currency?: CurrencyCode; // Absent on estimates made before multi-currency (USD)
   
   // Detailed breakdown
   costDrivers: CostDriver[];
@@ -179,6 +365,138 @@ export interface CostEstimate {
   estimationMethod: string;
   confidence: number;
   createdAt: Date;
+
+  // Company profile snapshot the estimate was computed with
+  companyProfileVersionId?: string | null;
+  companyProfileJson?: CompanyProfile | null;
+
+  // Revision history
+  revision?: number;
+  revisionReasons?: EstimateRevisionReason[];
+  supersededAt?: Date | null;
+}
+
+/**
+ * Why a new estimate revision was computed
+ */
+export type EstimateRevisionReason =
+  | 'INITIAL'
+  | 'REGULATION_VERSION'
+  | 'COMPANY_PROFILE'
+  | 'BENCHMARKS'
+  | 'COST_INDICES'
+  | 'CURRENCY'
+  | 'VENDOR_QUOTES'
+  | 'EXPIRED'
+  | 'MANUAL';
+
+/**
+ * Inputs an estimate depends on; a change in any of them makes it stale
+ */
+export interface EstimateInputs {
+  regulationVersionId: string;
+  regulationContentHash: string;
+  companyProfileHash: string;
+  benchmarkVersion: string;
+  costIndexVersion?: string; // Absent on estimates made before cost indexing
+  currency?: CurrencyCode; // Absent on estimates made before multi-currency
+  vendorQuoteVersion?: string; // Absent when no vendor quote is applied
+}
+
+/**
+ * A cost driver present in only one revision, or whose cost changed
+ */
+export interface EstimateDriverChange {
+  category: CostCategory;
+  description: string;
+  department: Department;
+  previousCost: number | null;
+  currentCost: number | null;
+  delta: number;
+}
+
+/**
+ * Difference between two estimate revisions
+ */
+export interface EstimateRevisionDiff {
+  fromRevision: number;
+  toRevision: number;
+  oneTimeCostLowDelta: number;
+  oneTimeCostHighDelta: number;
+  recurringCostAnnualDelta: number;
+  confidenceDelta: number;
+  driversAdded: EstimateDriverChange[];
+  driversRemoved: EstimateDriverChange[];
+  driversChanged: EstimateDriverChange[];
+}
+
+/**
+ * Revision list entry
+ */
+export interface EstimateRevisionSummary {
+  id: string;
+  revision: number;
+  regulationVersionId: string;
+  revisionReasons: EstimateRevisionReason[];
+  oneTimeCostLow: number;
+  oneTimeCostHigh: number;
+  recurringCostAnnual: number;
+  confidence: number;
+  createdAt: Date;
+  isCurrent: boolean;
+}
+
+/**
+ * Probability distribution used for a cost driver in Monte Carlo simulation
+ * TRIANGULAR when the driver cites evidence costs, LOGNORMAL otherwise
+ */
+export type CostDistributionType = 'TRIANGULAR' | 'LOGNORMAL';
+
+/**
+ * Distribution parameters for one driver (costs after profile scaling)
+ * LOGNORMAL uses mode as the median and sigma as the log-space spread
+ */
+export interface CostDriverDistribution {
+  driverId: string;
+  description: string;
+  isOneTime: boolean;
+  type: CostDistributionType;
+  min: number;
+  mode: number;
+  max: number;
+  sigma?: number;
+}
+
+/**
+ * Percentile summary of simulated totals
+ */
+export interface SimulationPercentiles {
+  p10: number;
+  p50: number;
+  p90: number;
+  mean: number;
+}
+
+/**
+ * One histogram bucket of simulated totals
+ */
+export interface SimulationHistogramBin {
+  start: number;
+  end: number;
+  count: number;
+}
+
+/**
+ * Monte Carlo simulation output
+ */
+export interface MonteCarloResult {
+  iterations: number;
+  seed: number;
+  oneTime: SimulationPercentiles;
+  recurring: SimulationPercentiles;
+  oneTimeHistogram: SimulationHistogramBin[];
+  recurringHistogram: SimulationHistogramBin[];
+  distributions: CostDriverDistribution[];
 }
 
 /**
@@ -190,20 +508,61 @@ export interface CostEstimateRequest {
   useAI?: boolean;
 }
 
+/**
+ * Multiplier varied by the sensitivity analysis
+ */
+export type SensitivityFactorKey =
+  | 'sizeMultiplier'
+  | 'industryMultiplier'
+  | 'geoMultiplier'
+  | 'techMaturity'
+  | 'regionalLaborIndex';
+
+/**
+ * Cost with one input set to one alternative value, all others unchanged
+ * low/high are the estimate range at that value; percentChange is against the
+ * baseline midpoint
+ */
+export interface SensitivityImpact {
+  label: string; // e.g. "1,000 employees", "HEALTHCARE"
+  value: number; // Multiplier at this input value
+  low: number;
+  high: number;
+  percentChange: number;
+}
+
+/**
+ * One bar of the tornado chart: the three-year total with one input at its
+ * low and at its high value
+ */
+export interface TornadoBar {
+  key: SensitivityFactorKey | `driver:${string}`;
+  label: string;
+  kind: 'MULTIPLIER' | 'COST_DRIVER';
+  lowLabel: string;
+  highLabel: string;
+  lowTotal: number;
+  highTotal: number;
+  swing: number; // highTotal - lowTotal
+}
+
 /**
  * Phase 1: Sensitivity Analysis
- * Analyzes impact of parameter changes on cost estimate
+ * One-at-a-time analysis of every profile multiplier and each cost driver
  */
 export interface SensitivityAnalysis {
-  baselineOneTime: number;
+  baselineOneTime: number; // Midpoint of the one-time range
   baselineRecurring: number;
+  baselineThreeYear: number; // One-time midpoint + three years of recurring cost
   factors: Array<{
-    factor: 'sizeMultiplier' | 'industryMultiplier' | 'geoMultiplier' | 'techMaturity';
+    factor: SensitivityFactorKey;
     currentValue: number;
-    impactOnOneTime: { low: number; high: number; percentChange: number }[];
-    impactOnRecurring: { low: number; high: number; percentChange: number }[];
+    impactOnOneTime: SensitivityImpact[];
+    impactOnRecurring: SensitivityImpact[];
     recommendation?: string;
   }>;
+  // Largest swing first
+  tornado: TornadoBar[];
 }
 
 /**
@@ -218,6 +577,92 @@ export interface CostFeedback {
   submittedAt: Date;
 }
 
+/**
+ * Variance of reported actuals against an estimate's midpoint
+ */
+export interface CostFeedbackVariance {
+  estimatedOneTimeCost: number;
+  estimatedRecurringCostAnnual: number;
+  oneTimeVariance: number;
+  recurringVariance: number;
+  oneTimeAccuracy: number;
+  recurringAccuracy: number;
+}
+
+/**
+ * One historical data point consumed by applyLearningFeedback
+ */
+export interface LearningHistoryEntry {
+  estimated: number;
+  actual: number;
+  variance: number;
+}
+
+/**
+ * Learning history for a customer, narrowed to a regulation category
+ * when enough category-specific feedback exists
+ */
+export interface LearningHistory {
+  scope: 'CATEGORY' | 'CUSTOMER' | 'NONE';
+  regulationType: string;
+  history: LearningHistoryEntry[];
+}
+
+/**
+ * Grouping of recorded feedback in the accuracy report
+ */
+export type AccuracyDimension =
+  | 'category'
+  | 'department'
+  | 'estimationMethod'
+  | 'industry'
+  | 'jurisdiction';
+
+/**
+ * Accuracy of estimates against reported actuals
+ * Errors are relative to the one-time midpoint; positive bias means actuals
+ * came in above the estimate. Band coverage is the share of actuals inside
+ * the low/high range.
+ */
+export interface AccuracyMetrics {
+  sampleCount: number;
+  weight: number;
+  mape: number;
+  bias: number;
+  recurringMape: number | null;
+  recurringBias: number | null;
+  bandCoverage: number;
+  belowBand: number;
+  aboveBand: number;
+}
+
+/**
+ * Accuracy of estimates by quarter of estimate creation ("2026 Q3")
+ */
+export interface AccuracyTrendPoint extends AccuracyMetrics {
+  period: string;
+}
+
+/**
+ * Accuracy of one value of a dimension (a category, a department, ...)
+ */
+export interface AccuracyGroup extends AccuracyMetrics {
+  key: string;
+  trend: AccuracyTrendPoint[];
+}
+
+export type AccuracyAssessment = 'INSUFFICIENT_DATA' | 'RELIABLE' | 'BIASED' | 'OVERCONFIDENT';
+
+/**
+ * Estimate accuracy across a customer's recorded feedback
+ */
+export interface EstimateAccuracyReport {
+  overall: AccuracyMetrics;
+  byDimension: Record<AccuracyDimension, AccuracyGroup[]>;
+  trend: AccuracyTrendPoint[];
+  assessment: AccuracyAssessment;
+}
+
 /**
  * Cost estimation context with regulation details
  */
@@ -289,7 +734,8 @@ export interface PortfolioForecast {
     recurringAnnual: number;
   };
   projections: Array<{
-    year: number;
+    year: number; // 1 = first projected year
+    fiscalYear: number;
     oneTimeLow: number;
     oneTimeHigh: number;
     recurringAnnual: number;
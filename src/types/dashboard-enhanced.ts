@@ -1,3 +1,5 @@
+import type { CurrencyCode } from './cost-estimate'
+
 export interface ComplianceHealthScore {
   score: number  // 0-100
   components: {
@@ -14,6 +16,7 @@ export interface CostWaterfallData {
   additions: Array<{ name: string; value: number; regulationId: string }>
   reductions: Array<{ name: string; value: number; regulationId: string }>
   ending: number  // Projected exposure
+  currency: CurrencyCode  // Reporting currency of all amounts
 }
 
 export interface TimelineRegulation {
@@ -0,0 +1,58 @@
+/**
+ * Deadline Extraction Types
+ * Types for deadlines parsed from regulation text
+ */
+
+/**
+ * Kind of obligation a deadline applies to (stored in Deadline.deadlineType)
+ */
+export type DeadlineType =
+  | 'EFFECTIVE_DATE'
+  | 'COMPLIANCE'
+  | 'FILING'
+  | 'REPORTING'
+  | 'NOTICE'
+  | 'TRAINING';
+
+/**
+ * Risk level (mirrors the Prisma DeadlineRiskLevel enum)
+ */
+export type DeadlineRiskLevel = 'CRITICAL' | 'IMPORTANT' | 'ROUTINE';
+
+/**
+ * How a deadline was found
+ * RELATIVE deadlines ("within 90 days of the effective date") are resolved
+ * against an anchor date
+ */
+export type DeadlineExtractionMethod = 'ABSOLUTE' | 'RELATIVE' | 'AI';
+
+/**
+ * Dates that relative deadline phrases are resolved against
+ */
+export interface DeadlineExtractionContext {
+  effectiveDate?: Date | null;
+  publishedDate?: Date | null;
+  referenceDate?: Date; // "Today" for risk levels; defaults to now
+}
+
+/**
+ * A deadline found in regulation text
+ */
+export interface ExtractedDeadline {
+  deadlineDate: Date;
+  deadlineType: DeadlineType;
+  description: string;
+  sourceText: string;
+  riskLevel: DeadlineRiskLevel;
+  extractionConfidence: number;
+  method: DeadlineExtractionMethod;
+}
+
+/**
+ * Raw deadline returned by the AI extractor before validation
+ */
+export interface AIDeadlineCandidate {
+  date: string;
+  deadlineType: string;
+  description: string;
+}
@@ -0,0 +1,45 @@
+/**
+ * Regulation Ingestion Types
+ * Types for creating regulations and versions from external text
+ */
+
+/**
+ * Regulation metadata supplied with ingested text
+ */
+export interface IngestRegulationMetadata {
+  title: string;
+  regulationType: string;
+  sourceUrl?: string;
+  effectiveDate?: Date;
+}
+
+/**
+ * Input for ingesting a new regulation version
+ */
+export interface IngestRegulationVersionInput {
+  jurisdictionCode: string;
+  regulation: IngestRegulationMetadata;
+  contentText: string;
+  contentJson?: Record<string, unknown>;
+  publishedDate?: Date;
+}
+
+/**
+ * Outcome of an ingestion attempt
+ * DUPLICATE means the text matched an existing version and nothing new was stored
+ */
+export type IngestionStatus = 'CREATED' | 'DUPLICATE';
+
+/**
+ * Result of ingesting a regulation version
+ */
+export interface IngestRegulationVersionResult {
+  status: IngestionStatus;
+  regulationId: string;
+  regulationCreated: boolean;
+  regulationVersionId: string;
+  versionNumber: number;
+  policyDiffId: string | null;
+  deadlinesExtracted: number;
+  penaltyScheduleExtracted: boolean;
+}
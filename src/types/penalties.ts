@@ -0,0 +1,67 @@
+/**
+ * Penalty Schedule Types
+ * Types for enforcement penalties of a regulation and the exposure they imply
+ */
+
+/**
+ * How a penalty schedule was obtained (stored in PenaltySchedule.source)
+ */
+export type PenaltyScheduleSource = 'EXTRACTED' | 'MANUAL';
+
+/**
+ * Structured penalty terms of a regulation; amounts in USD
+ */
+export interface PenaltyTerms {
+  perViolationMin: number | null;
+  perViolationMax: number | null;
+  perDayFine: number | null;
+  maxPenalty: number | null; // Statutory cap on total penalties
+  privateRightOfAction: boolean;
+  enforcementLikelihood: number | null; // 0-1; null = derived from the terms
+}
+
+/**
+ * Penalty terms found in regulation text
+ */
+export interface ExtractedPenaltySchedule extends PenaltyTerms {
+  sourceText: string;
+  extractionConfidence: number;
+}
+
+/**
+ * Stored penalty schedule of a regulation
+ */
+export interface PenaltySchedule extends PenaltyTerms {
+  id: string;
+  regulationId: string;
+  source: PenaltyScheduleSource;
+  sourceText: string | null;
+  extractionConfidence: number;
+  regulationVersionId: string | null;
+  updatedBy: string | null;
+  updatedAt: Date;
+}
+
+/**
+ * Assumptions for a period of non-compliance
+ */
+export interface PenaltyExposureOptions {
+  nonComplianceDays?: number; // Defaults to 90
+  violations?: number; // Distinct violations assessed; defaults to 1
+}
+
+/**
+ * Penalties a period of non-compliance could cost
+ * riskWeightedExposure = grossExposure × enforcementProbability
+ */
+export interface PenaltyExposure {
+  nonComplianceDays: number;
+  violations: number;
+  grossExposure: number;
+  enforcementProbability: number;
+  riskWeightedExposure: number;
+  capped: boolean;
+  privateRightOfAction: boolean;
+  hasSchedule: boolean; // False when the default allowance was used
+  basis: string[]; // Human-readable calculation steps
+}
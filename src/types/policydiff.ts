@@ -9,8 +9,102 @@
 export interface DiffResult {
   added: string[];
   removed: string[];
-  modified: string[];
+  modified: string[]; // Current text of sections changed in place
   unchanged: string[];
+  sections?: SectionChange[]; // Structure-aware changes by section and clause
+  lines?: DiffLine[]; // Every line of both versions, in document order
+}
+
+/**
+ * Line of an ordered diff
+ */
+export interface DiffLine {
+  type: 'added' | 'removed' | 'unchanged';
+  text: string;
+  oldLineNumber: number | null; // Null for added lines
+  newLineNumber: number | null; // Null for removed lines
+  inlineDiff?: InlineDiffSegment[]; // Word highlights when paired with a similar line
+}
+
+/**
+ * Changed lines with their surrounding context
+ */
+export interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: DiffLine[];
+}
+
+/**
+ * Hunk, or a run of unchanged lines between hunks that the viewer collapses
+ */
+export type DiffBlock =
+  | { kind: 'hunk'; hunk: DiffHunk }
+  | { kind: 'collapsed'; lines: DiffLine[] };
+
+/**
+ * Row of a split view: previous version on the left, current on the right
+ */
+export interface SplitDiffRow {
+  left: DiffLine | null;
+  right: DiffLine | null;
+}
+
+/**
+ * Kind of enumeration marker a section is numbered with
+ */
+export type SectionMarkerKind =
+  | 'SECTION' // § 12, Section 12, Article 5
+  | 'LOWER' // (a)
+  | 'DIGIT' // (1)
+  | 'ROMAN' // (i)
+  | 'UPPER' // (A)
+  | 'PREAMBLE'; // Text before the first marker
+
+/**
+ * Node of a regulation's section tree
+ */
+export interface RegulationSection {
+  key: string; // Path of markers, e.g. "§3/(a)/(1)"
+  label: string; // Display path, e.g. "§ 3(a)(1)"
+  marker: string; // Own marker, e.g. "(1)"
+  kind: SectionMarkerKind;
+  depth: number; // 0 for sections
+  heading: string | null;
+  text: string; // Own text, without children
+  children: RegulationSection[];
+}
+
+/**
+ * Run of words in an inline diff
+ */
+export interface InlineDiffSegment {
+  type: 'added' | 'removed' | 'unchanged';
+  text: string;
+}
+
+/**
+ * How a section differs between two versions
+ * MOVED: now under another parent or out of order among its siblings
+ * RENUMBERED: same place, new marker
+ */
+export type SectionChangeType = 'ADDED' | 'REMOVED' | 'MODIFIED' | 'MOVED' | 'RENUMBERED';
+
+/**
+ * Change to one section, subsection or clause
+ */
+export interface SectionChange {
+  type: SectionChangeType;
+  label: string; // Label in the current version (previous one for removals)
+  previousLabel: string | null; // Label in the previous version, if it existed
+  heading: string | null;
+  oldText: string | null;
+  newText: string | null;
+  textChanged: boolean;
+  inlineDiff: InlineDiffSegment[]; // Empty unless the text changed
+  similarity: number; // 0-1 word overlap between the two texts
 }
 
 /**
@@ -51,6 +145,34 @@ export enum SignificanceScore {
   LOW = 'LOW',
 }
 
+/**
+ * What a change does to the regulation's requirements
+ */
+export enum ChangeClassification {
+  OBLIGATION_ADDED = 'OBLIGATION_ADDED',
+  OBLIGATION_REMOVED = 'OBLIGATION_REMOVED',
+  THRESHOLD_CHANGED = 'THRESHOLD_CHANGED', // Numbers, dollar amounts, employee counts
+  DEADLINE_SHIFTED = 'DEADLINE_SHIFTED',
+  DEFINITION_CHANGED = 'DEFINITION_CHANGED',
+  SCOPE_EXPANDED = 'SCOPE_EXPANDED',
+  SCOPE_NARROWED = 'SCOPE_NARROWED',
+  PENALTY_CHANGED = 'PENALTY_CHANGED',
+  OTHER = 'OTHER', // Substantive, but matches none of the above
+  EDITORIAL = 'EDITORIAL', // Renumbering, moves, wording and typo fixes
+}
+
+/**
+ * Classified change to one section
+ */
+export interface ClassifiedChange {
+  classification: ChangeClassification;
+  impact: SignificanceScore;
+  section: string | null; // Section label, e.g. "§ 3(a)"
+  description: string;
+  before: string | null; // Changed values, or the previous text
+  after: string | null; // Changed values, or the current text
+}
+
 /**
  * Complete PolicyDiff record matching Prisma schema
  */
@@ -58,10 +180,25 @@ export interface PolicyDiffRecord {
   id: string;
   regulationVersionId: string;
   previousVersionId: string;
+  sequential: boolean; // Against the immediately preceding version
   diffText: string;
   summary: string;
   keyChanges: string[];
   significanceScore: SignificanceScore;
   aiConfidence: number;
+  classifiedChanges: ClassifiedChange[];
   createdAt: Date;
 }
+
+/**
+ * Version of a regulation with its change from the preceding version
+ */
+export interface VersionTimelineEntry {
+  versionId: string;
+  versionNumber: number;
+  publishedDate: Date | string;
+  policyDiffId: string | null; // Null for the first version or before the diff exists
+  significanceScore: SignificanceScore | null;
+  summary: string | null;
+  keyChanges: string[];
+}
@@ -0,0 +1,28 @@
+/**
+ * Regulation Subscription Types
+ * Which regulations a customer watches, directly or through rules
+ */
+
+/**
+ * How a regulation came to be watched
+ * DIRECT: an explicit CustomerRegulationSubscription row
+ * RULE: matched by a jurisdiction/regulation-type SubscriptionRule
+ */
+export type WatchReason = 'DIRECT' | 'RULE';
+
+/**
+ * Subscription rule criteria (at least one field is set)
+ */
+export interface SubscriptionRuleCriteria {
+  jurisdictionId: string | null;
+  regulationType: string | null;
+}
+
+/**
+ * Regulation fields needed to evaluate rules
+ */
+export interface SubscribableRegulation {
+  id: string;
+  jurisdictionId: string;
+  regulationType: string;
+}
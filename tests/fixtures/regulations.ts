@@ -55,6 +55,7 @@ export const mockRegulationVersions: RegulationVersion[] = [
     },
     publishedDate: new Date('2024-01-01'),
     ingestedDate: new Date('2024-01-01'),
+    contentHash: null,
   },
   {
     id: 'version-psl-ca-2',
@@ -66,6 +67,7 @@ export const mockRegulationVersions: RegulationVersion[] = [
     },
     publishedDate: new Date('2026-01-01'),
     ingestedDate: new Date('2025-12-01'),
+    contentHash: null,
   },
 ]
 
@@ -76,6 +78,7 @@ export const mockPolicyDiff: PolicyDiff = {
   id: 'diff-psl-ca-1-2',
   regulationVersionId: mockRegulationVersions[1].id,
   previousVersionId: mockRegulationVersions[0].id,
+  sequential: true,
   diffText: `- 3 days of paid sick leave per calendar year
 + 5 days of paid sick leave per calendar year
 + Paid sick leave accrues at a rate of 1 hour per 30 hours of work`,
@@ -88,6 +91,16 @@ export const mockPolicyDiff: PolicyDiff = {
   ],
   significanceScore: 'HIGH' as PolicyDiffSignificance,
   aiConfidence: 0.92,
+  classifiedChanges: [
+    {
+      classification: 'DEADLINE_SHIFTED',
+      impact: 'HIGH',
+      section: 'Preamble',
+      description: 'Deadline in Preamble changed from 3 days to 5 days',
+      before: '3 days',
+      after: '5 days',
+    },
+  ],
   createdAt: new Date('2025-12-15'),
 }
 
@@ -0,0 +1,162 @@
+/**
+ * Unit tests for department budgets, commitments and the budget summary
+ * Prisma is mocked
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const prismaMock = vi.hoisted(() => ({
+  $transaction: vi.fn(),
+  costEstimate: { findUnique: vi.fn() },
+  customer: { findUnique: vi.fn() },
+  budgetCommitment: { deleteMany: vi.fn(), createMany: vi.fn() },
+}));
+
+vi.mock('@/lib/prisma', () => ({ default: prismaMock, prisma: prismaMock }));
+
+import {
+  assignBudgetCodes,
+  estimateCommitments,
+  matchBudgetLine,
+  summarizeBudgets,
+} from '@/lib/budgets/budget-summary';
+import { commitApprovedEstimate } from '@/lib/budgets/budgets';
+import type { DepartmentBudget } from '@/types/budgets';
+
+function budget(department: string, budgetCode: string, amount: number, fiscalYear = 2026): DepartmentBudget {
+  return {
+    id: budgetCode,
+    fiscalYear,
+    department,
+    budgetCode,
+    amount,
+    notes: null,
+    updatedBy: null,
+    updatedAt: new Date('2026-01-01T00:00:00Z'),
+  };
+}
+
+const budgets = [
+  budget('IT', 'IT-200', 50000),
+  budget('IT', 'IT-100', 100000),
+  budget('LEGAL', 'LEG-100', 40000),
+];
+
+describe('Department budgets', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('matchBudgetLine', () => {
+    it('prefers the budget code, then the department line with the first code', () => {
+      expect(matchBudgetLine(budgets, 'IT', 'IT-200')?.budgetCode).toBe('IT-200');
+      expect(matchBudgetLine(budgets, 'IT', 'IT-COMP-001')?.budgetCode).toBe('IT-100');
+      expect(matchBudgetLine(budgets, 'HR', null)).toBeNull();
+    });
+  });
+
+  describe('assignBudgetCodes', () => {
+    it('replaces placeholder codes for departments with a budget line', () => {
+      const departments = assignBudgetCodes(
+        [
+          { department: 'LEGAL', budgetCode: 'LEGA-COMP-001' },
+          { department: 'HR', budgetCode: 'HR-COMP-001' },
+        ],
+        budgets
+      );
+
+      expect(departments.map((entry) => entry.budgetCode)).toEqual(['LEG-100', 'HR-COMP-001']);
+    });
+  });
+
+  describe('estimateCommitments', () => {
+    it('commits one-time cost plus a year of recurring cost per department', () => {
+      expect(
+        estimateCommitments([
+          { department: 'IT', oneTimeCost: 60000, recurringCostAnnual: 12000, budgetCode: 'IT-100' },
+          { department: 'HR', oneTimeCost: 0, recurringCostAnnual: 0 },
+        ])
+      ).toEqual([{ department: 'IT', budgetCode: 'IT-100', amount: 72000 }]);
+    });
+  });
+
+  describe('summarizeBudgets', () => {
+    it('compares budget, committed and actual per line', () => {
+      const summary = summarizeBudgets(
+        2026,
+        [...budgets, budget('IT', 'IT-100', 999999, 2025)],
+        [
+          { fiscalYear: 2026, department: 'IT', budgetCode: 'IT-COMP-001', amount: 120000 },
+          { fiscalYear: 2026, department: 'LEGAL', budgetCode: 'LEG-100', amount: 10000 },
+          { fiscalYear: 2025, department: 'LEGAL', budgetCode: 'LEG-100', amount: 500000 },
+        ],
+        [
+          { fiscalYear: 2026, department: 'LEGAL', budgetCode: null, amount: 44000 },
+          { fiscalYear: 2026, department: 'HR', budgetCode: null, amount: 5000 },
+        ]
+      );
+
+      expect(summary.lines.map((line) => [line.budgetCode, line.status])).toEqual([
+        ['IT-100', 'OVER_COMMITTED'],
+        ['IT-200', 'ON_TRACK'],
+        ['LEG-100', 'OVER_BUDGET'],
+        [null, 'UNBUDGETED'],
+      ]);
+      expect(summary.lines[0]).toMatchObject({ budgeted: 100000, committed: 120000, remaining: -20000 });
+      expect(summary.lines[2]).toMatchObject({ actual: 44000, variance: 4000, variancePercent: 10 });
+      expect(summary.lines[3]).toMatchObject({ department: 'HR', budgeted: 0, actual: 5000, variancePercent: null });
+      expect(summary.totals).toEqual({
+        budgeted: 190000,
+        committed: 130000,
+        actual: 49000,
+        remaining: 60000,
+      });
+    });
+  });
+
+  describe('commitApprovedEstimate', () => {
+    it('replaces commitments of the regulation with the approved revision', async () => {
+      prismaMock.customer.findUnique.mockResolvedValue({
+        discountRate: 0.08,
+        scenarioHorizonYears: 3,
+        fiscalYearStartMonth: 2,
+        fiscalPeriodPattern: 'CALENDAR_MONTHS',
+      });
+      prismaMock.costEstimate.findUnique.mockResolvedValue({
+        customerId: 'cust-1',
+        departmentBreakdown: {
+          departments: [
+            { department: 'IT', oneTimeCost: 50000, recurringCostAnnual: 10000, budgetCode: 'IT-100' },
+            { department: 'LEGAL', oneTimeCost: 8000, recurringCostAnnual: 0 },
+          ],
+        },
+        regulationVersion: { regulationId: 'reg-1' },
+      });
+      // February fiscal year start: October 2026 is in FY2027
+      const approvedAt = new Date('2026-10-19T12:00:00Z');
+
+      await expect(commitApprovedEstimate('est-2', 'appr-1', approvedAt)).resolves.toBe(2);
+
+      expect(prismaMock.budgetCommitment.deleteMany).toHaveBeenCalledWith({
+        where: {
+          customerId: 'cust-1',
+          costEstimate: { regulationVersion: { regulationId: 'reg-1' } },
+        },
+      });
+      expect(prismaMock.budgetCommitment.createMany).toHaveBeenCalledWith({
+        data: [
+          expect.objectContaining({ department: 'IT', budgetCode: 'IT-100', amount: 60000, fiscalYear: 2027, approvalId: 'appr-1' }),
+          expect.objectContaining({ department: 'LEGAL', budgetCode: null, amount: 8000, costEstimateId: 'est-2' }),
+        ],
+      });
+      expect(prismaMock.$transaction).toHaveBeenCalledTimes(1);
+    });
+
+    it('does nothing for a missing estimate', async () => {
+      prismaMock.costEstimate.findUnique.mockResolvedValue(null);
+
+      await expect(commitApprovedEstimate('missing', 'appr-1', new Date())).resolves.toBe(0);
+      expect(prismaMock.$transaction).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,201 @@
+/**
+ * Unit tests for regulation source connectors
+ * Parsers run against the fixture feed; ingestion is mocked
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { readFile } from 'fs/promises';
+import path from 'path';
+
+const ingestRegulationVersionMock = vi.hoisted(() => vi.fn());
+
+vi.mock('@/lib/prisma', () => ({ default: {}, prisma: {} }));
+vi.mock('@/lib/regulations/ingestion', () => ({
+  ingestRegulationVersion: ingestRegulationVersionMock,
+}));
+
+import {
+  parseFeed,
+  parseJsonExport,
+  directoryConnector,
+  ingestSourceDocuments,
+  pollSource,
+} from '@/lib/connectors';
+import { readLocation } from '@/lib/connectors/normalize';
+import type { RegulationSourceConfig } from '@/types/connectors';
+
+const FIXTURE_DIR = 'tests/fixtures/regulation-feed';
+
+const fixtureSource: RegulationSourceConfig = {
+  id: 'src-1',
+  name: 'Fixture feed',
+  connectorType: 'DIRECTORY',
+  location: FIXTURE_DIR,
+  jurisdictionCode: 'CA',
+  regulationType: 'General',
+};
+
+function readFixture(name: string) {
+  return readFile(path.join(FIXTURE_DIR, name), 'utf8');
+}
+
+describe('RSS/Atom connector', () => {
+  it('parses RSS items with CDATA and escaped HTML bodies', async () => {
+    const documents = parseFeed(await readFixture('feed.xml'));
+
+    expect(documents).toHaveLength(2);
+    expect(documents[0]).toMatchObject({
+      externalId: 'register-2026-101',
+      title: 'Consumer Data Privacy Rule',
+      contentText: 'Businesses must honor opt-out requests within 15 days.',
+      regulationType: 'Privacy',
+      sourceUrl: 'https://example.gov/register/privacy',
+    });
+    expect(documents[0].publishedDate?.toISOString()).toBe('2026-10-05T12:00:00.000Z');
+    expect(documents[1].contentText).toBe(
+      'Employers shall post heat illness prevention plans.'
+    );
+  });
+
+  it('parses Atom entries and prefers the alternate link', async () => {
+    const [entry] = parseFeed(await readFixture('atom.xml'));
+
+    expect(entry).toMatchObject({
+      externalId: 'urn:agency:rule:42',
+      title: 'Emissions Reporting Standard',
+      sourceUrl: 'https://example.gov/rules/42',
+    });
+    expect(entry.publishedDate?.toISOString()).toBe('2026-10-01T00:00:00.000Z');
+  });
+
+  it('leaves out-of-range numeric entities undecoded', () => {
+    const [item] = parseFeed(
+      '<rss><channel><item><guid>r-1</guid><title>Heat Rule &#x2014; Update</title>' +
+        '<description>Employers shall post plans &#99999999; by June.</description></item></channel></rss>'
+    );
+
+    expect(item.title).toBe('Heat Rule \u2014 Update');
+    expect(item.contentText).toBe('Employers shall post plans &#99999999; by June.');
+  });
+});
+
+describe('JSON export connector', () => {
+  it('normalizes records and skips ones without text', async () => {
+    const documents = parseJsonExport(JSON.parse(await readFixture('export.json')));
+
+    expect(documents).toHaveLength(1);
+    expect(documents[0]).toMatchObject({
+      externalId: 'exp-1',
+      jurisdictionCode: 'IL',
+      sourceUrl: 'https://example.gov/il/bipa',
+    });
+    expect(documents[0].effectiveDate).toBeInstanceOf(Date);
+  });
+
+  it('skips records that are not objects', () => {
+    const documents = parseJsonExport([
+      null,
+      42,
+      'Consumer Data Privacy Rule',
+      ['exp-2'],
+      { id: 'exp-3', title: 'Emissions Reporting Standard', text: 'Facilities must report emissions.' },
+    ]);
+
+    expect(documents.map((document) => document.externalId)).toEqual(['exp-3']);
+  });
+
+  it('rejects payloads that are not a document list', () => {
+    expect(() => parseJsonExport({ items: [] })).toThrow(/JSON export/);
+  });
+});
+
+describe('Directory connector', () => {
+  it('reads text and HTML files with manifest metadata', async () => {
+    const documents = await directoryConnector.fetchDocuments(fixtureSource);
+
+    expect(documents.map((doc) => doc.externalId)).toEqual([
+      'ca-paid-sick-leave.txt',
+      'ny-wage-notice.html',
+    ]);
+    expect(documents[0]).toMatchObject({
+      title: 'Paid Sick Leave Act',
+      regulationType: 'Employment',
+    });
+    expect(documents[1].title).toBe('Ny Wage Notice');
+    expect(documents[1].jurisdictionCode).toBe('NY');
+    expect(documents[1].contentText).toContain('pay rates & paydays');
+    expect(documents[1].contentText).not.toContain('<p>');
+  });
+});
+
+describe('Source polling', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('ingests each document with source defaults and counts outcomes', async () => {
+    ingestRegulationVersionMock
+      .mockResolvedValueOnce({ status: 'CREATED' })
+      .mockResolvedValueOnce({ status: 'DUPLICATE' });
+
+    const result = await pollSource(fixtureSource);
+
+    expect(result).toMatchObject({
+      documentsFound: 2,
+      versionsCreated: 1,
+      duplicates: 1,
+      errors: [],
+    });
+    expect(ingestRegulationVersionMock.mock.calls[0][0]).toMatchObject({
+      jurisdictionCode: 'CA',
+      regulation: { title: 'Paid Sick Leave Act', regulationType: 'Employment' },
+    });
+    expect(ingestRegulationVersionMock.mock.calls[1][0].jurisdictionCode).toBe('NY');
+  });
+
+  it('collects per-document errors without aborting the source', async () => {
+    ingestRegulationVersionMock
+      .mockRejectedValueOnce(new Error('Jurisdiction not found: ZZ'))
+      .mockResolvedValueOnce({ status: 'CREATED' });
+
+    const result = await ingestSourceDocuments(fixtureSource, [
+      { externalId: 'a', title: 'A', contentText: 'Text A', jurisdictionCode: 'ZZ' },
+      { externalId: 'b', title: 'B', contentText: 'Text B' },
+    ]);
+
+    expect(result.versionsCreated).toBe(1);
+    expect(result.errors).toEqual(['a: Jurisdiction not found: ZZ']);
+    expect(ingestRegulationVersionMock.mock.calls[1][0].regulation.regulationType).toBe(
+      'General'
+    );
+  });
+
+  it('reports a source-level error when the connector fails', async () => {
+    const result = await pollSource({ ...fixtureSource, location: 'tests/fixtures/missing-dir' });
+
+    expect(result.documentsFound).toBe(0);
+    expect(result.errors).toHaveLength(1);
+    expect(ingestRegulationVersionMock).not.toHaveBeenCalled();
+  });
+});
+
+describe('Remote locations', () => {
+  it('gives up on a source that does not answer in time', async () => {
+    // Never responds; only settles when the request is aborted
+    const fetchMock = vi.fn(
+      (_url: string, init: RequestInit) =>
+        new Promise<Response>((_, reject) => {
+          init.signal?.addEventListener('abort', () => reject(init.signal?.reason));
+        })
+    );
+    vi.stubGlobal('fetch', fetchMock);
+
+    try {
+      await expect(readLocation('https://example.test/feed.xml', 20)).rejects.toThrow(
+        'Failed to fetch https://example.test/feed.xml: timed out after 20ms'
+      );
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+});
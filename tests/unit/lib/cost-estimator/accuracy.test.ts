@@ -0,0 +1,125 @@
+/**
+ * Unit tests for estimate accuracy analytics
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  MIN_ACCURACY_SAMPLES,
+  calculateEstimateAccuracy,
+  type AccuracySample,
+} from '@/lib/cost-estimator/accuracy';
+import { CostCategory, Department, type CostDriver } from '@/types/cost-estimate';
+
+function driver(category: CostCategory, department: Department, estimatedCost: number): CostDriver {
+  return {
+    id: `${category}-${department}`,
+    category,
+    description: category,
+    isOneTime: true,
+    estimatedCost,
+    confidence: 0.8,
+    department,
+  };
+}
+
+function sample(actualOneTimeCost: number, overrides: Partial<AccuracySample> = {}): AccuracySample {
+  return {
+    costEstimateId: 'est',
+    estimatedAt: new Date('2026-02-15T00:00:00Z'),
+    oneTimeCostLow: 80000,
+    oneTimeCostHigh: 120000,
+    estimatedOneTimeCost: 100000,
+    estimatedRecurringCostAnnual: 0,
+    actualOneTimeCost,
+    actualRecurringCostAnnual: 0,
+    estimationMethod: 'DETERMINISTIC',
+    industry: 'TECHNOLOGY',
+    jurisdiction: 'US-CA',
+    drivers: [driver(CostCategory.SYSTEM_CHANGES, Department.IT, 100000)],
+    ...overrides,
+  };
+}
+
+describe('calculateEstimateAccuracy', () => {
+  it('measures MAPE, bias and band coverage', () => {
+    const report = calculateEstimateAccuracy([sample(110000), sample(70000), sample(130000), sample(100000)]);
+
+    expect(report.overall).toMatchObject({
+      sampleCount: 4,
+      mape: 17.5,
+      bias: 2.5,
+      recurringMape: null,
+      bandCoverage: 0.5,
+      belowBand: 0.25,
+      aboveBand: 0.25,
+    });
+  });
+
+  it('compares estimation methods, industries and jurisdictions', () => {
+    const report = calculateEstimateAccuracy([
+      sample(150000, { estimationMethod: 'AI_CALIBRATED', jurisdiction: 'EU' }),
+      sample(100000),
+      sample(90000, { industry: null }),
+    ]);
+
+    const methods = report.byDimension.estimationMethod;
+    expect(methods.map((group) => group.key)).toEqual(['DETERMINISTIC', 'AI_CALIBRATED']);
+    expect(methods[1]).toMatchObject({ sampleCount: 1, bias: 50, bandCoverage: 0 });
+    expect(report.byDimension.industry.map((group) => group.key)).toEqual(['TECHNOLOGY', 'UNKNOWN']);
+    expect(report.byDimension.jurisdiction.find((group) => group.key === 'EU')?.mape).toBe(50);
+  });
+
+  it('attributes estimate error to categories and departments by driver-cost share', () => {
+    const report = calculateEstimateAccuracy([
+      sample(120000, {
+        drivers: [
+          driver(CostCategory.TRAINING, Department.HR, 25000),
+          driver(CostCategory.SYSTEM_CHANGES, Department.IT, 75000),
+        ],
+      }),
+      sample(90000),
+    ]);
+
+    const systems = report.byDimension.category.find((group) => group.key === CostCategory.SYSTEM_CHANGES);
+    // 0.75 of the +20% sample and all of the -10% sample
+    expect(systems).toMatchObject({ sampleCount: 2, weight: 1.75 });
+    expect(systems?.bias).toBeCloseTo(((0.2 * 0.75 - 0.1) / 1.75) * 100, 1);
+    expect(report.byDimension.department.find((group) => group.key === Department.HR)).toMatchObject({
+      weight: 0.25,
+      bias: 20,
+    });
+  });
+
+  it('groups estimates without drivers under UNKNOWN', () => {
+    const report = calculateEstimateAccuracy([sample(100000, { drivers: [] })]);
+
+    expect(report.byDimension.category).toEqual([expect.objectContaining({ key: 'UNKNOWN', weight: 1 })]);
+  });
+
+  it('tracks accuracy by quarter of estimate creation', () => {
+    const report = calculateEstimateAccuracy([
+      sample(150000, { estimatedAt: new Date('2026-05-01T00:00:00Z') }),
+      sample(140000, { estimatedAt: new Date('2025-11-20T00:00:00Z') }),
+      sample(105000, { estimatedAt: new Date('2026-06-30T00:00:00Z') }),
+    ]);
+
+    expect(report.trend.map((point) => [point.period, point.sampleCount, point.mape])).toEqual([
+      ['FY2025 Q4', 1, 40],
+      ['FY2026 Q2', 2, 27.5],
+    ]);
+    expect(report.byDimension.jurisdiction[0].trend).toHaveLength(2);
+  });
+
+  it('assesses whether the estimates can be trusted', () => {
+    const accurate = Array.from({ length: MIN_ACCURACY_SAMPLES }, (_, i) => sample(95000 + i * 2500));
+    const underestimated = Array.from({ length: MIN_ACCURACY_SAMPLES }, () => sample(140000));
+    const narrow = Array.from({ length: MIN_ACCURACY_SAMPLES }, (_, i) =>
+      sample(i % 2 === 0 ? 60000 : 140000)
+    );
+
+    expect(calculateEstimateAccuracy(accurate.slice(1)).assessment).toBe('INSUFFICIENT_DATA');
+    expect(calculateEstimateAccuracy(accurate).assessment).toBe('RELIABLE');
+    expect(calculateEstimateAccuracy(underestimated).assessment).toBe('BIASED');
+    expect(calculateEstimateAccuracy(narrow).assessment).toBe('OVERCONFIDENT');
+  });
+});
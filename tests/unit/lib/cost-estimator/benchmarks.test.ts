@@ -0,0 +1,222 @@
+/**
+ * Unit tests for the cost benchmark library
+ * Prisma and the OpenAI client are mocked
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('openai');
+
+const prismaMock = vi.hoisted(() => {
+  const mock = {
+    costBenchmark: {
+      count: vi.fn(),
+      aggregate: vi.fn(),
+      findMany: vi.fn(),
+      upsert: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    $transaction: vi.fn(),
+  };
+  mock.$transaction.mockImplementation((fn: (tx: typeof mock) => unknown) => fn(mock));
+  return mock;
+});
+
+vi.mock('@/lib/prisma', () => ({ default: prismaMock, prisma: prismaMock }));
+
+import {
+  getActiveBenchmarks,
+  getBenchmarkLibraryVersion,
+  importBenchmarks,
+  isValidBenchmarkPattern,
+} from '@/lib/cost-estimator/benchmarks';
+import { extractCostDriversFromBenchmarks } from '@/lib/cost-estimator/core';
+import {
+  BUILTIN_BENCHMARK_VERSION,
+  BUILTIN_COST_BENCHMARKS,
+} from '@/lib/cost-estimator/benchmark-defaults';
+import { CostCategory, Department, type CostBenchmark } from '@/types/cost-estimate';
+
+const vendorAssessment: CostBenchmark = {
+  key: 'vendor-assessment',
+  category: CostCategory.AUDIT,
+  description: 'Third-party vendor risk assessments',
+  keywords: [],
+  pattern: 'vendor\\s+(risk|due diligence)',
+  isOneTime: false,
+  baseCost: 18000,
+  evidenceCost: 15000,
+  confidence: 0.6,
+  department: Department.OPERATIONS,
+  evidenceType: 'CASE_STUDY',
+  evidenceReference: 'Vendor program costs, 2025 client engagements',
+  effectiveYear: 2025,
+  active: true,
+};
+
+describe('Cost benchmark library', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('extractCostDriversFromBenchmarks', () => {
+    it('reproduces the built-in drivers for matching keywords', () => {
+      const drivers = extractCostDriversFromBenchmarks(
+        'Controllers must appoint a privacy officer and provide annual training.',
+        BUILTIN_COST_BENCHMARKS
+      );
+
+      expect(drivers.map((driver) => driver.category)).toEqual([
+        CostCategory.PERSONNEL,
+        CostCategory.TRAINING,
+      ]);
+      expect(drivers[0]).toMatchObject({
+        id: 'driver-det-1',
+        estimatedCost: 65000,
+        isOneTime: false,
+        department: Department.COMPLIANCE,
+      });
+      expect(drivers[1].evidence).toEqual([
+        {
+          type: 'INDUSTRY_BENCHMARK',
+          reference: 'Annual compliance training costs',
+          confidence: 0.8,
+          estimatedCost: 7500,
+        },
+      ]);
+    });
+
+    it('matches patterns case-insensitively and cites the benchmark as evidence', () => {
+      const drivers = extractCostDriversFromBenchmarks(
+        'Covered entities shall perform Vendor  Due Diligence before onboarding.',
+        [vendorAssessment]
+      );
+
+      expect(drivers).toHaveLength(1);
+      expect(drivers[0].evidence?.[0]).toEqual({
+        type: 'CASE_STUDY',
+        reference: 'Vendor program costs, 2025 client engagements',
+        confidence: 0.6,
+        estimatedCost: 15000,
+      });
+    });
+
+    it('skips inactive benchmarks and omits evidence cost when none is recorded', () => {
+      const drivers = extractCostDriversFromBenchmarks('Annual reporting fee and vendor risk review.', [
+        { ...vendorAssessment, active: false },
+        BUILTIN_COST_BENCHMARKS.find((benchmark) => benchmark.key === 'reporting-fees')!,
+      ]);
+
+      expect(drivers).toHaveLength(1);
+      expect(drivers[0].evidence?.[0]).not.toHaveProperty('estimatedCost');
+    });
+  });
+
+  describe('getActiveBenchmarks', () => {
+    it('falls back to the built-in library when no benchmarks are stored', async () => {
+      prismaMock.costBenchmark.count.mockResolvedValue(0);
+
+      expect(await getActiveBenchmarks()).toBe(BUILTIN_COST_BENCHMARKS);
+      expect(prismaMock.costBenchmark.findMany).not.toHaveBeenCalled();
+    });
+
+    it('returns only active stored benchmarks', async () => {
+      prismaMock.costBenchmark.count.mockResolvedValue(3);
+      prismaMock.costBenchmark.findMany.mockResolvedValue([
+        { ...vendorAssessment, id: 'b1', createdAt: new Date(), updatedAt: new Date() },
+      ]);
+
+      const benchmarks = await getActiveBenchmarks();
+
+      expect(prismaMock.costBenchmark.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { active: true } })
+      );
+      expect(benchmarks[0].key).toBe('vendor-assessment');
+    });
+  });
+
+  describe('getBenchmarkLibraryVersion', () => {
+    it('uses the built-in version for an empty library', async () => {
+      prismaMock.costBenchmark.aggregate.mockResolvedValue({
+        _count: { _all: 0 },
+        _max: { updatedAt: null },
+      });
+
+      expect(await getBenchmarkLibraryVersion()).toBe(BUILTIN_BENCHMARK_VERSION);
+    });
+
+    it('changes whenever a benchmark is edited', async () => {
+      prismaMock.costBenchmark.aggregate
+        .mockResolvedValueOnce({ _count: { _all: 6 }, _max: { updatedAt: new Date('2026-01-01') } })
+        .mockResolvedValueOnce({ _count: { _all: 6 }, _max: { updatedAt: new Date('2026-02-01') } });
+
+      const before = await getBenchmarkLibraryVersion();
+      const after = await getBenchmarkLibraryVersion();
+
+      expect(before).not.toBe(after);
+      expect(before).toMatch(/^library-6-/);
+    });
+  });
+
+  describe('importBenchmarks', () => {
+    it('upserts by key with normalized keywords in merge mode', async () => {
+      prismaMock.costBenchmark.findMany.mockResolvedValue([{ key: 'vendor-assessment' }]);
+
+      const result = await importBenchmarks([
+        { ...vendorAssessment, keywords: [' Vendor ', 'vendor', 'Supplier'] },
+        { ...vendorAssessment, key: 'breach-notification' },
+      ]);
+
+      expect(result).toEqual({ created: 1, updated: 1, deactivated: 0, duplicateKeys: [] });
+      expect(prismaMock.costBenchmark.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { key: 'vendor-assessment' },
+          update: expect.objectContaining({ keywords: ['vendor', 'supplier'] }),
+        })
+      );
+      expect(prismaMock.costBenchmark.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('imports the last row for a repeated key and reports the duplicate', async () => {
+      prismaMock.costBenchmark.findMany.mockResolvedValue([]);
+
+      const result = await importBenchmarks([
+        { ...vendorAssessment, baseCost: 1000 },
+        { ...vendorAssessment, key: 'breach-notification' },
+        { ...vendorAssessment, baseCost: 2000 },
+      ]);
+
+      expect(result).toEqual({
+        created: 2,
+        updated: 0,
+        deactivated: 0,
+        duplicateKeys: ['vendor-assessment'],
+      });
+      expect(prismaMock.costBenchmark.upsert).toHaveBeenCalledTimes(2);
+      expect(prismaMock.costBenchmark.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { key: 'vendor-assessment' },
+          create: expect.objectContaining({ baseCost: 2000 }),
+        })
+      );
+    });
+
+    it('deactivates benchmarks missing from the import in replace mode', async () => {
+      prismaMock.costBenchmark.findMany.mockResolvedValue([]);
+      prismaMock.costBenchmark.updateMany.mockResolvedValue({ count: 4 });
+
+      const result = await importBenchmarks([vendorAssessment], 'replace');
+
+      expect(prismaMock.costBenchmark.updateMany).toHaveBeenCalledWith({
+        where: { key: { notIn: ['vendor-assessment'] }, active: true },
+        data: { active: false },
+      });
+      expect(result.deactivated).toBe(4);
+    });
+  });
+
+  it('rejects patterns that do not compile', () => {
+    expect(isValidBenchmarkPattern('vendor\\s+risk')).toBe(true);
+    expect(isValidBenchmarkPattern('vendor(')).toBe(false);
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * Unit tests for scenario cash flows and NPV
+ * The OpenAI client is mocked
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('openai');
+
+import {
+  attachScenarioCashFlows,
+  buildScenarioCashFlow,
+  clampHorizonYears,
+  resolveComplianceDate,
+  summarizeCashFlowByYear,
+} from '@/lib/cost-estimator/cash-flow';
+import { generateScenarios } from '@/lib/cost-estimator/core';
+import { Industry, RiskLevel, TechMaturity } from '@/types/cost-estimate';
+
+const startDate = new Date('2026-10-19T00:00:00Z');
+
+describe('Scenario cash flows', () => {
+  it('uses the earliest upcoming deadline or effective date as the compliance date', () => {
+    const date = resolveComplianceDate(startDate, new Date('2027-07-01T00:00:00Z'), [
+      new Date('2026-01-01T00:00:00Z'),
+      new Date('2027-03-15T00:00:00Z'),
+    ]);
+    expect(date?.toISOString().slice(0, 10)).toBe('2027-03-15');
+
+    expect(resolveComplianceDate(startDate, new Date('2025-01-01T00:00:00Z'))).toBeNull();
+  });
+
+  it('spreads one-time cost up to the compliance quarter and starts recurring cost there', () => {
+    const cashFlow = buildScenarioCashFlow(
+      { oneTimeCost: 90000, recurringCostAnnual: 40000 },
+      {
+        startDate,
+        deadlines: [new Date('2027-05-01T00:00:00Z')],
+        horizonYears: 2,
+        discountRate: 0,
+      }
+    );
+
+    expect(cashFlow.quarters).toHaveLength(8);
+    expect(cashFlow.quarters[0]).toMatchObject({
+      label: 'FY2026 Q4',
+      fiscalYear: 2026,
+      fiscalQuarter: 4,
+      startDate: '2026-10-01',
+      oneTimeCost: 30000,
+      recurringCost: 0,
+    });
+    // Compliance falls in 2027 Q2, the third quarter of the schedule
+    expect(cashFlow.quarters[2]).toMatchObject({ oneTimeCost: 30000, recurringCost: 10000 });
+    expect(cashFlow.quarters[3]).toMatchObject({ oneTimeCost: 0, recurringCost: 10000 });
+    expect(cashFlow.complianceDate).toBe('2027-05-01');
+    expect(cashFlow.nominalTotal).toBe(90000 + 6 * 10000);
+    expect(cashFlow.npv).toBe(cashFlow.nominalTotal);
+  });
+
+  it('discounts each quarter from its last day', () => {
+    const cashFlow = buildScenarioCashFlow(
+      { oneTimeCost: 0, recurringCostAnnual: 40000 },
+      { startDate, effectiveDate: startDate, horizonYears: 1, discountRate: 0.1 }
+    );
+
+    const expected = [1, 2, 3, 4].reduce(
+      (sum, quarter) => sum + 10000 / Math.pow(1.1, quarter / 4),
+      0
+    );
+    expect(cashFlow.npv).toBe(Math.round(expected));
+    expect(cashFlow.npv).toBeLessThan(cashFlow.nominalTotal);
+  });
+
+  it('escalates recurring cost by horizon year', () => {
+    const cashFlow = buildScenarioCashFlow(
+      { oneTimeCost: 0, recurringCostAnnual: 40000 },
+      { startDate, effectiveDate: startDate, horizonYears: 2, escalation: [1, 1.05] }
+    );
+
+    expect(cashFlow.quarters[3].recurringCost).toBe(10000);
+    expect(cashFlow.quarters[4].recurringCost).toBe(10500);
+    // Horizon years start in 2026 Q4, so fiscal years split them
+    expect(summarizeCashFlowByYear(cashFlow).map((year) => [year.label, year.total])).toEqual([
+      ['FY2026', 10000],
+      ['FY2027', 40500],
+      ['FY2028', 31500],
+    ]);
+  });
+
+  it('lays quarters out on the fiscal calendar', () => {
+    const cashFlow = buildScenarioCashFlow(
+      { oneTimeCost: 0, recurringCostAnnual: 40000 },
+      {
+        startDate,
+        effectiveDate: startDate,
+        horizonYears: 1,
+        fiscalCalendar: { startMonth: 2, pattern: 'CALENDAR_MONTHS' },
+      }
+    );
+
+    expect(cashFlow.quarters.map((quarter) => [quarter.label, quarter.startDate])).toEqual([
+      ['FY2027 Q3', '2026-08-01'],
+      ['FY2027 Q4', '2026-11-01'],
+      ['FY2028 Q1', '2027-02-01'],
+      ['FY2028 Q2', '2027-05-01'],
+    ]);
+  });
+
+  it('defaults to a two-quarter implementation when there is no upcoming date', () => {
+    const cashFlow = buildScenarioCashFlow(
+      { oneTimeCost: 50000, recurringCostAnnual: 0 },
+      { startDate }
+    );
+
+    expect(cashFlow.horizonYears).toBe(3);
+    expect(cashFlow.complianceDate).toBeNull();
+    expect(cashFlow.quarters.slice(0, 3).map((quarter) => quarter.oneTimeCost)).toEqual([
+      25000, 25000, 0,
+    ]);
+  });
+
+  it('starts the delayed scenario a quarter late', () => {
+    const scenarios = attachScenarioCashFlows(
+      generateScenarios(
+        { oneTimeCost: 100000, recurringCostAnnual: 20000 },
+        {
+          industry: Industry.TECHNOLOGY,
+          employeeCount: 500,
+          geographicComplexity: 1,
+          techMaturity: TechMaturity.MEDIUM,
+          riskAppetite: RiskLevel.LOW,
+        }
+      ),
+      { startDate, horizonYears: 5, discountRate: 0.08 }
+    );
+
+    expect(scenarios.standard.cashFlow?.quarters[0].oneTimeCost).toBeGreaterThan(0);
+    expect(scenarios.delay90Days.cashFlow?.quarters[0].oneTimeCost).toBe(0);
+    expect(scenarios.bestInClass.cashFlow?.quarters).toHaveLength(20);
+    expect(scenarios.minimal.cashFlow!.npv).toBeLessThan(scenarios.standard.cashFlow!.npv);
+  });
+
+  it('clamps the horizon to 1-10 years', () => {
+    expect(clampHorizonYears(0)).toBe(1);
+    expect(clampHorizonYears(25)).toBe(10);
+    expect(clampHorizonYears(Number.NaN)).toBe(3);
+  });
+});
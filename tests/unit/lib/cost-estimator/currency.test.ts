@@ -0,0 +1,93 @@
+/**
+ * Unit tests for currency conversion with the FX rate table
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  MissingFxRateError,
+  convertAmount,
+  convertDrivers,
+  convertEstimate,
+  findFxRate,
+  toCurrencyCode,
+} from '@/lib/cost-estimator/currency';
+import { CostCategory, Department, type FxRate } from '@/types/cost-estimate';
+
+const rates: FxRate[] = [
+  { currency: 'EUR', rateToUsd: 1.1, effectiveDate: new Date('2026-01-01'), source: 'ECB' },
+  { currency: 'EUR', rateToUsd: 1.2, effectiveDate: new Date('2026-07-01'), source: 'ECB' },
+  { currency: 'CAD', rateToUsd: 0.75, effectiveDate: new Date('2026-01-01'), source: null },
+];
+
+describe('Currency conversion', () => {
+  it('uses the latest rate effective on the date', () => {
+    expect(findFxRate(rates, 'EUR', new Date('2026-03-15'))).toBe(1.1);
+    expect(findFxRate(rates, 'EUR', new Date('2026-07-01'))).toBe(1.2);
+    // Dates before the table starts use its earliest rate
+    expect(findFxRate(rates, 'EUR', new Date('2025-06-01'))).toBe(1.1);
+    expect(findFxRate(rates, 'USD', new Date('2026-03-15'))).toBe(1);
+  });
+
+  it('converts through USD between any two currencies', () => {
+    const asOf = new Date('2026-10-19');
+    expect(convertAmount(1000, 'EUR', 'USD', rates, asOf)).toBeCloseTo(1200);
+    expect(convertAmount(1200, 'USD', 'EUR', rates, asOf)).toBeCloseTo(1000);
+    expect(convertAmount(1000, 'EUR', 'CAD', rates, asOf)).toBeCloseTo(1600);
+    expect(convertAmount(500, 'CAD', 'CAD', [], asOf)).toBe(500);
+  });
+
+  it('throws when a currency has no stored rate', () => {
+    expect(() => convertAmount(100, 'USD', 'CAD', [], new Date())).toThrow(MissingFxRateError);
+  });
+
+  it('converts drivers and every estimate amount to the target currency', () => {
+    const asOf = new Date('2026-10-19');
+    const drivers = [
+      {
+        id: 'driver-1',
+        category: CostCategory.SYSTEM_CHANGES,
+        description: 'Consent platform',
+        isOneTime: true,
+        estimatedCost: 10000,
+        confidence: 0.8,
+        department: Department.IT,
+      },
+    ];
+
+    expect(convertDrivers(drivers, 'EUR', rates, asOf)[0]).toMatchObject({
+      estimatedCost: 8333,
+      currency: 'EUR',
+    });
+
+    const converted = convertEstimate(
+      {
+        currency: 'EUR' as const,
+        oneTimeCostLow: 10000,
+        oneTimeCostHigh: 20000,
+        recurringCostAnnual: 5000,
+        costDrivers: [{ ...drivers[0], currency: 'EUR' as const }],
+        departmentBreakdown: [
+          { department: Department.IT, oneTimeCost: 15000, recurringCostAnnual: 5000, fteImpact: 1, budgetCode: 'IT-01', lineItems: [] },
+        ],
+      },
+      'USD',
+      rates,
+      asOf
+    );
+
+    expect(converted).toMatchObject({
+      currency: 'USD',
+      oneTimeCostLow: 12000,
+      oneTimeCostHigh: 24000,
+      recurringCostAnnual: 6000,
+    });
+    expect(converted.costDrivers[0]).toMatchObject({ estimatedCost: 12000, currency: 'USD' });
+    expect(converted.departmentBreakdown[0]).toMatchObject({ oneTimeCost: 18000, recurringCostAnnual: 6000 });
+  });
+
+  it('treats unknown stored currencies as USD', () => {
+    expect(toCurrencyCode('EUR')).toBe('EUR');
+    expect(toCurrencyCode('GBP')).toBe('USD');
+    expect(toCurrencyCode(null)).toBe('USD');
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * Unit tests for cost feedback learning history
+ * Prisma and the OpenAI client are mocked
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const prismaMock = vi.hoisted(() => ({
+  costFeedback: { findMany: vi.fn() },
+}));
+
+vi.mock('@/lib/prisma', () => ({ default: prismaMock, prisma: prismaMock }));
+vi.mock('openai');
+
+import {
+  calculateFeedbackVariance,
+  getAccuracySamples,
+  getLearningHistory,
+} from '@/lib/cost-estimator/feedback';
+
+function feedbackRow(variance: number) {
+  return {
+    estimatedOneTimeCost: 100000,
+    actualOneTimeCost: 100000 * (1 + variance),
+    oneTimeVariance: variance,
+  };
+}
+
+describe('calculateFeedbackVariance', () => {
+  it('measures actuals against the estimate midpoint', () => {
+    const variance = calculateFeedbackVariance(
+      { oneTimeCostLow: 80000, oneTimeCostHigh: 120000, recurringCostAnnual: 20000 },
+      { actualOneTimeCost: 110000, actualRecurringCostAnnual: 15000 }
+    );
+
+    expect(variance.estimatedOneTimeCost).toBe(100000);
+    expect(variance.oneTimeVariance).toBeCloseTo(0.1);
+    expect(variance.recurringVariance).toBeCloseTo(-0.25);
+    expect(variance.oneTimeAccuracy).toBeCloseTo(90);
+  });
+
+  it('treats a zero recurring estimate as no variance', () => {
+    const variance = calculateFeedbackVariance(
+      { oneTimeCostLow: 1000, oneTimeCostHigh: 1000, recurringCostAnnual: 0 },
+      { actualOneTimeCost: 1000, actualRecurringCostAnnual: 500 }
+    );
+
+    expect(variance.recurringVariance).toBe(0);
+  });
+});
+
+describe('getLearningHistory', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('uses category feedback when enough samples exist', async () => {
+    prismaMock.costFeedback.findMany.mockResolvedValueOnce([
+      feedbackRow(0.25),
+      feedbackRow(0.2),
+      feedbackRow(0.15),
+    ]);
+
+    const learning = await getLearningHistory('cust-1', 'Privacy');
+
+    expect(learning.scope).toBe('CATEGORY');
+    expect(learning.history).toHaveLength(3);
+    expect(learning.history[0]).toEqual({ estimated: 100000, actual: 125000, variance: 0.25 });
+    expect(prismaMock.costFeedback.findMany).toHaveBeenCalledTimes(1);
+    expect(prismaMock.costFeedback.findMany.mock.calls[0][0].where).toEqual({
+      customerId: 'cust-1',
+      regulationType: 'Privacy',
+    });
+  });
+
+  it('falls back to customer-wide feedback for sparse categories', async () => {
+    prismaMock.costFeedback.findMany
+      .mockResolvedValueOnce([feedbackRow(0.1)])
+      .mockResolvedValueOnce([feedbackRow(0.1), feedbackRow(-0.05)]);
+
+    const learning = await getLearningHistory('cust-1', 'Privacy');
+
+    expect(learning.scope).toBe('CUSTOMER');
+    expect(learning.history).toHaveLength(2);
+    expect(prismaMock.costFeedback.findMany.mock.calls[1][0].where).toEqual({
+      customerId: 'cust-1',
+    });
+  });
+
+  it('returns empty history when the customer has no feedback', async () => {
+    prismaMock.costFeedback.findMany.mockResolvedValue([]);
+
+    const learning = await getLearningHistory('cust-1', 'Privacy');
+
+    expect(learning).toEqual({ scope: 'NONE', regulationType: 'Privacy', history: [] });
+  });
+});
+
+describe('getAccuracySamples', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('joins feedback with the estimate band, profile, jurisdiction and drivers', async () => {
+    const createdAt = new Date('2026-02-10T00:00:00Z');
+    prismaMock.costFeedback.findMany.mockResolvedValue([
+      {
+        costEstimateId: 'est-1',
+        estimatedOneTimeCost: 100000,
+        estimatedRecurringCostAnnual: 20000,
+        actualOneTimeCost: 130000,
+        actualRecurringCostAnnual: 18000,
+        costEstimate: {
+          oneTimeCostLow: 80000,
+          oneTimeCostHigh: 120000,
+          estimationMethod: 'DETERMINISTIC',
+          companyProfileJson: { industry: 'HEALTHCARE' },
+          costDriversJson: {
+            drivers: [{ id: 'd1', category: 'TRAINING', department: 'HR', isOneTime: true, estimatedCost: 5000 }],
+          },
+          createdAt,
+          regulationVersion: { regulation: { jurisdiction: { code: 'US-CA' } } },
+        },
+      },
+    ]);
+
+    const [sample] = await getAccuracySamples('cust-1');
+
+    expect(prismaMock.costFeedback.findMany.mock.calls[0][0].where).toEqual({ customerId: 'cust-1' });
+    expect(sample).toMatchObject({
+      costEstimateId: 'est-1',
+      estimatedAt: createdAt,
+      oneTimeCostLow: 80000,
+      oneTimeCostHigh: 120000,
+      actualOneTimeCost: 130000,
+      estimationMethod: 'DETERMINISTIC',
+      industry: 'HEALTHCARE',
+      jurisdiction: 'US-CA',
+    });
+    expect(sample.drivers).toEqual([
+      expect.objectContaining({ id: 'd1', category: 'TRAINING', department: 'HR', estimatedCost: 5000 }),
+    ]);
+  });
+});
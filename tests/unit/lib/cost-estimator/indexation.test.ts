@@ -0,0 +1,145 @@
+/**
+ * Unit tests for cost indexation
+ * Escalation schedules, regional labor indices and their effect on estimates
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('openai');
+
+import {
+  DEFAULT_COST_INDICES,
+  buildEscalationSchedule,
+  calculateRegionalLaborIndex,
+  escalationRate,
+  recurringLaborShare,
+} from '@/lib/cost-estimator/indexation';
+import { calculateImplementationCost, generateScenarios } from '@/lib/cost-estimator/core';
+import { forecastPortfolioTrends } from '@/lib/cost-estimator/analytics';
+import {
+  CostCategory,
+  Department,
+  Industry,
+  RiskLevel,
+  TechMaturity,
+  type CompanyProfile,
+  type CostDriver,
+  type CostIndices,
+  type PortfolioTrend,
+} from '@/types/cost-estimate';
+
+const indices: CostIndices = {
+  ...DEFAULT_COST_INDICES,
+  inflation: { 2027: 0.03 },
+  wageGrowth: { 2027: 0.05, 2028: 0.04 },
+  regionalLabor: { CA: 1.2, TX: 0.9 },
+};
+
+const profile: CompanyProfile = {
+  industry: Industry.TECHNOLOGY,
+  employeeCount: 100,
+  geographicComplexity: 1,
+  techMaturity: TechMaturity.MEDIUM,
+  riskAppetite: RiskLevel.LOW,
+};
+
+function driver(category: CostCategory, estimatedCost: number, isOneTime = false): CostDriver {
+  return {
+    id: `driver-${category}`,
+    category,
+    description: category,
+    isOneTime,
+    estimatedCost,
+    confidence: 0.8,
+    department: Department.COMPLIANCE,
+  };
+}
+
+describe('Cost indexation', () => {
+  describe('escalation', () => {
+    it('blends wage growth and inflation by labor share, falling back to defaults', () => {
+      expect(escalationRate(indices, 2027, 0.5)).toBeCloseTo(0.04);
+      expect(escalationRate(indices, 2030, 0)).toBe(DEFAULT_COST_INDICES.defaultInflationRate);
+      expect(escalationRate(indices, 2030, 1)).toBe(DEFAULT_COST_INDICES.defaultWageGrowthRate);
+    });
+
+    it('keeps year 1 at today\'s prices and compounds later years', () => {
+      const schedule = buildEscalationSchedule(indices, 2026, 3, 1);
+
+      expect(schedule[0]).toBe(1);
+      expect(schedule[1]).toBeCloseTo(1.05);
+      expect(schedule[2]).toBeCloseTo(1.05 * 1.04);
+    });
+
+    it('measures the labor-driven share of recurring cost only', () => {
+      const drivers = [
+        driver(CostCategory.PERSONNEL, 60000),
+        driver(CostCategory.SYSTEM_CHANGES, 40000),
+        driver(CostCategory.TRAINING, 50000, true),
+      ];
+      expect(recurringLaborShare(drivers)).toBeCloseTo(0.6);
+      expect(recurringLaborShare([])).toBe(0);
+    });
+  });
+
+  describe('regional labor index', () => {
+    it('averages distinct jurisdictions, treating unknown ones as baseline', () => {
+      expect(calculateRegionalLaborIndex(['CA', 'tx', 'CA'], indices)).toBeCloseTo(1.05);
+      expect(calculateRegionalLaborIndex(['CA', 'OH'], indices)).toBeCloseTo(1.1);
+      expect(calculateRegionalLaborIndex(undefined, indices)).toBe(1);
+    });
+
+    it('scales labor-driven drivers and their departments, not systems', () => {
+      const drivers = [
+        driver(CostCategory.PERSONNEL, 50000),
+        { ...driver(CostCategory.SYSTEM_CHANGES, 20000, true), department: Department.IT },
+      ];
+      const baseline = calculateImplementationCost(drivers, profile, indices);
+      const california = calculateImplementationCost(
+        drivers,
+        { ...profile, operatingJurisdictions: ['CA'] },
+        indices
+      );
+
+      expect(california.recurringCostAnnual).toBe(Math.round(baseline.recurringCostAnnual * 1.2));
+      expect(california.oneTimeCostLow).toBe(baseline.oneTimeCostLow);
+      const compliance = california.departmentBreakdown.find(
+        (dept) => dept.department === Department.COMPLIANCE
+      );
+      expect(compliance?.recurringCostAnnual).toBe(Math.round(baseline.recurringCostAnnual * 1.2));
+    });
+  });
+
+  describe('multi-year totals', () => {
+    it('escalates recurring cost in scenario three-year totals', () => {
+      const base = { oneTimeCost: 100000, recurringCostAnnual: 10000 };
+      const flat = generateScenarios(base, profile);
+      const escalated = generateScenarios(base, profile, [1, 1.1, 1.2]);
+
+      expect(flat.standard.threeYearTotal).toBe(130000);
+      expect(escalated.standard.threeYearTotal).toBe(133000);
+      expect(escalated.minimal.threeYearTotal).toBe(Math.round(70000 + 7000 * 3.3));
+    });
+
+    it('forecasts recurring portfolio cost with the configured indices', () => {
+      const trends: PortfolioTrend = {
+        totalOneTimeLow: 50000,
+        totalOneTimeHigh: 70000,
+        totalRecurringAnnual: 100000,
+        estimateCount: 10,
+        averageConfidence: 0.8,
+        threeYearExposureLow: 350000,
+        threeYearExposureHigh: 370000,
+        costsByDepartment: {},
+        costsByRisk: { MINIMAL: 0, LOW: 0, MEDIUM: 0, HIGH: 0 },
+        topDrivers: [],
+      };
+
+      const forecast = forecastPortfolioTrends(trends, 3, indices, 1, 2026);
+
+      expect(forecast.projections.map((year) => year.recurringAnnual)).toEqual([
+        100000, 105000, 109200,
+      ]);
+    });
+  });
+});
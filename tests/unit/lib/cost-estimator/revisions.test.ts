@@ -0,0 +1,358 @@
+/**
+ * Unit tests for cost estimate revisions
+ * Prisma is mocked
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const prismaMock = vi.hoisted(() => {
+  const mock = {
+    costEstimate: {
+      findFirst: vi.fn(),
+      findMany: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    customScenario: { findMany: vi.fn(), create: vi.fn() },
+    $transaction: vi.fn(),
+  };
+  mock.$transaction.mockImplementation((fn: (tx: typeof mock) => unknown) => fn(mock));
+  return mock;
+});
+
+vi.mock('@/lib/prisma', () => ({ default: prismaMock, prisma: prismaMock }));
+
+import {
+  buildEstimateInputs,
+  createEstimateRevision,
+  EstimateRevisionConflictError,
+  detectRevisionReasons,
+  diffEstimateRevisions,
+  hashCompanyProfile,
+  hashEstimateInputs,
+} from '@/lib/cost-estimator/revisions';
+import {
+  CostCategory,
+  Department,
+  Industry,
+  RiskLevel,
+  TechMaturity,
+  type CompanyProfile,
+} from '@/types/cost-estimate';
+
+const profile: CompanyProfile = {
+  industry: Industry.TECHNOLOGY,
+  employeeCount: 250,
+  geographicComplexity: 2,
+  techMaturity: TechMaturity.MEDIUM,
+  riskAppetite: RiskLevel.LOW,
+};
+
+const version = { id: 'rv-1', contentHash: 'hash-1', contentText: 'Employers shall...' };
+const inputs = buildEstimateInputs(version, profile, 'builtin-2024');
+
+function driver(category: CostCategory, description: string, estimatedCost: number) {
+  return { id: 'driver-det-1', category, description, estimatedCost, department: Department.IT };
+}
+
+describe('Cost estimate revisions', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('hashing', () => {
+    it('hashes profiles independently of key order and undefined fields', () => {
+      const reordered = {
+        riskAppetite: RiskLevel.LOW,
+        techMaturity: TechMaturity.MEDIUM,
+        geographicComplexity: 2,
+        employeeCount: 250,
+        industry: Industry.TECHNOLOGY,
+        revenue: undefined,
+      };
+      expect(hashCompanyProfile(reordered)).toBe(hashCompanyProfile(profile));
+      expect(hashCompanyProfile({ ...profile, employeeCount: 251 })).not.toBe(
+        hashCompanyProfile(profile)
+      );
+    });
+
+    it('falls back to hashing the text when the version has no stored hash', () => {
+      const legacy = buildEstimateInputs({ ...version, contentHash: null }, profile, 'b');
+      expect(legacy.regulationContentHash).toMatch(/^[0-9a-f]{64}$/);
+      expect(hashEstimateInputs(legacy)).not.toBe(hashEstimateInputs(inputs));
+    });
+  });
+
+  describe('detectRevisionReasons', () => {
+    const current = {
+      regulationVersionId: 'rv-1',
+      estimateInputsJson: inputs,
+      cacheExpiresAt: new Date('2027-01-01'),
+    };
+    const now = new Date('2026-10-19');
+
+    it('needs an initial revision when none exists', () => {
+      expect(detectRevisionReasons(null, inputs)).toEqual(['INITIAL']);
+    });
+
+    it('reuses the current revision when nothing changed', () => {
+      expect(detectRevisionReasons(current, inputs, { now })).toEqual([]);
+    });
+
+    it('reports every changed input', () => {
+      const next = buildEstimateInputs(
+        { ...version, id: 'rv-2', contentHash: 'hash-2' },
+        { ...profile, techMaturity: TechMaturity.HIGH },
+        'library-7'
+      );
+      expect(detectRevisionReasons(current, next, { now })).toEqual([
+        'REGULATION_VERSION',
+        'COMPANY_PROFILE',
+        'BENCHMARKS',
+      ]);
+    });
+
+    it('flags cost index changes once indices are recorded', () => {
+      const indexed = { ...current, estimateInputsJson: { ...inputs, costIndexVersion: 'indices-20-1' } };
+      const next = buildEstimateInputs(version, profile, 'builtin-2024', 'indices-20-2');
+
+      expect(detectRevisionReasons(indexed, next, { now })).toEqual(['COST_INDICES']);
+      // Estimates from before indexing pick up the indices on their next revision
+      expect(detectRevisionReasons(current, next, { now })).toEqual(['COST_INDICES']);
+      expect(detectRevisionReasons(current, inputs, { now })).toEqual([]);
+    });
+
+    it('flags a change of estimate currency', () => {
+      const usd = buildEstimateInputs(version, profile, 'builtin-2024', undefined, 'USD');
+      const eur = buildEstimateInputs(version, profile, 'builtin-2024', undefined, 'EUR');
+
+      // Estimates from before multi-currency are in USD
+      expect(detectRevisionReasons(current, usd, { now })).toEqual([]);
+      expect(detectRevisionReasons(current, eur, { now })).toEqual(['CURRENCY']);
+      expect(hashEstimateInputs(eur)).not.toBe(hashEstimateInputs(usd));
+    });
+
+    it('flags vendor quote changes', () => {
+      const quoted = buildEstimateInputs(version, profile, 'builtin-2024', undefined, 'USD', 'quote-1@1');
+      const requoted = { ...current, estimateInputsJson: quoted };
+
+      expect(detectRevisionReasons(current, quoted, { now })).toEqual(['VENDOR_QUOTES']);
+      expect(detectRevisionReasons(requoted, quoted, { now })).toEqual([]);
+      // Deselecting or expiring the last quote is a change too
+      expect(detectRevisionReasons(requoted, inputs, { now })).toEqual(['VENDOR_QUOTES']);
+      expect(buildEstimateInputs(version, profile, 'builtin-2024', undefined, 'USD', '')).not.toHaveProperty(
+        'vendorQuoteVersion'
+      );
+    });
+
+    it('expires cached estimates and honours force', () => {
+      expect(
+        detectRevisionReasons(current, inputs, { now: new Date('2027-02-01') })
+      ).toEqual(['EXPIRED']);
+      expect(detectRevisionReasons(current, inputs, { now, force: true })).toEqual(['MANUAL']);
+    });
+
+    it('only detects version changes for estimates without recorded inputs', () => {
+      const legacy = { regulationVersionId: 'rv-1', estimateInputsJson: null, cacheExpiresAt: null };
+      const otherProfile = buildEstimateInputs(version, { ...profile, employeeCount: 9 }, 'x');
+      expect(detectRevisionReasons(legacy, otherProfile, { now })).toEqual([]);
+      expect(
+        detectRevisionReasons(legacy, { ...otherProfile, regulationVersionId: 'rv-2' }, { now })
+      ).toEqual(['REGULATION_VERSION']);
+    });
+  });
+
+  describe('diffEstimateRevisions', () => {
+    it('reports cost deltas and added, removed and changed drivers', () => {
+      const diff = diffEstimateRevisions(
+        {
+          revision: 1,
+          oneTimeCostLow: 40000,
+          oneTimeCostHigh: 60000,
+          recurringCostAnnual: 20000,
+          confidence: 0.7,
+          costDriversJson: {
+            drivers: [
+              driver(CostCategory.SYSTEM_CHANGES, 'DSAR portal', 50000),
+              driver(CostCategory.TRAINING, 'Staff training', 8000),
+            ],
+          },
+        },
+        {
+          revision: 2,
+          oneTimeCostLow: 55000,
+          oneTimeCostHigh: 80000,
+          recurringCostAnnual: 20000,
+          confidence: 0.75,
+          costDriversJson: {
+            drivers: [
+              driver(CostCategory.SYSTEM_CHANGES, 'DSAR Portal ', 65000),
+              driver(CostCategory.AUDIT, 'Annual audit', 15000),
+            ],
+          },
+        }
+      );
+
+      expect(diff).toMatchObject({
+        fromRevision: 1,
+        toRevision: 2,
+        oneTimeCostLowDelta: 15000,
+        oneTimeCostHighDelta: 20000,
+        recurringCostAnnualDelta: 0,
+      });
+      expect(diff.driversAdded).toEqual([
+        expect.objectContaining({ description: 'Annual audit', previousCost: null, delta: 15000 }),
+      ]);
+      expect(diff.driversRemoved).toEqual([
+        expect.objectContaining({ description: 'Staff training', currentCost: null, delta: -8000 }),
+      ]);
+      expect(diff.driversChanged).toEqual([
+        expect.objectContaining({ previousCost: 50000, currentCost: 65000, delta: 15000 }),
+      ]);
+    });
+  });
+
+  describe('createEstimateRevision', () => {
+    const data = {
+      regulationVersionId: 'rv-2',
+      regulationId: 'reg-1',
+      customerId: 'cust-1',
+      oneTimeCostLow: 1,
+      oneTimeCostHigh: 2,
+      recurringCostAnnual: 3,
+      costDriversJson: { drivers: [] },
+      estimationMethod: 'DETERMINISTIC',
+      confidence: 0.7,
+    };
+
+    beforeEach(() => {
+      prismaMock.costEstimate.updateMany.mockResolvedValue({ count: 1 });
+    });
+
+    it('supersedes the previous revision and links the new one', async () => {
+      prismaMock.costEstimate.create.mockImplementation(({ data }) => Promise.resolve(data));
+      prismaMock.customScenario.findMany.mockResolvedValue([]);
+
+      const created = await createEstimateRevision(
+        { id: 'est-1', revision: 3 },
+        data,
+        inputs,
+        ['COMPANY_PROFILE']
+      );
+
+      expect(prismaMock.costEstimate.updateMany).toHaveBeenCalledWith({
+        where: { id: 'est-1', supersededAt: null },
+        data: { supersededAt: expect.any(Date) },
+      });
+      expect(created).toMatchObject({
+        revision: 4,
+        previousRevisionId: 'est-1',
+        revisionReasons: ['COMPANY_PROFILE'],
+        contentHash: hashEstimateInputs(inputs),
+        estimateInputsJson: inputs,
+      });
+      expect(created.cacheExpiresAt!.getTime()).toBeGreaterThan(created.cachedAt!.getTime());
+    });
+
+    it('starts the first revision at 1 without superseding anything', async () => {
+      prismaMock.costEstimate.create.mockImplementation(({ data }) => Promise.resolve(data));
+
+      const created = await createEstimateRevision(null, data, inputs, ['INITIAL']);
+
+      expect(prismaMock.costEstimate.updateMany).not.toHaveBeenCalled();
+      expect(created).toMatchObject({ revision: 1, previousRevisionId: null });
+    });
+
+    it('refuses to revise an estimate another request already superseded', async () => {
+      prismaMock.costEstimate.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(
+        createEstimateRevision({ id: 'est-1', revision: 3 }, data, inputs, ['MANUAL'])
+      ).rejects.toBeInstanceOf(EstimateRevisionConflictError);
+      expect(prismaMock.costEstimate.create).not.toHaveBeenCalled();
+    });
+
+    it('reports a conflict when a concurrent first estimate took revision 1', async () => {
+      prismaMock.costEstimate.create.mockRejectedValue(
+        Object.assign(new Error('Unique constraint failed'), { code: 'P2002' })
+      );
+
+      await expect(createEstimateRevision(null, data, inputs, ['INITIAL'])).rejects.toBeInstanceOf(
+        EstimateRevisionConflictError
+      );
+    });
+
+    it('keeps custom scenarios and the selected plan when re-estimating', async () => {
+      const createdAt = new Date('2026-09-01T00:00:00Z');
+      prismaMock.costEstimate.create.mockImplementation(({ data }) =>
+        Promise.resolve({ id: 'est-2', ...data })
+      );
+      prismaMock.costEstimate.update.mockImplementation(({ where, data }) =>
+        Promise.resolve({ id: where.id, ...data })
+      );
+      prismaMock.customScenario.findMany.mockResolvedValue([
+        {
+          id: 'cs-1',
+          costEstimateId: 'est-1',
+          name: 'Vendor-led',
+          description: null,
+          excludedDriverIds: ['driver-a', 'driver-gone'],
+          driverCostOverrides: { 'driver-b': 5000, 'driver-gone': 100 },
+          delayMonths: 3,
+          sourcing: 'VENDOR',
+          createdBy: 'cfo@example.com',
+          createdAt,
+          updatedAt: createdAt,
+        },
+      ]);
+      prismaMock.customScenario.create.mockResolvedValue({ id: 'cs-2' });
+
+      // Cache-TTL refresh: nothing but the expiry changed
+      const created = await createEstimateRevision(
+        {
+          id: 'est-1',
+          revision: 1,
+          selectedScenario: 'custom:cs-1',
+          costDriversJson: {
+            drivers: [
+              { ...driver(CostCategory.SYSTEM_CHANGES, 'Consent platform', 10000), id: 'driver-a' },
+              { ...driver(CostCategory.LEGAL_REVIEW, 'Policy review', 8000), id: 'driver-b' },
+              { ...driver(CostCategory.TRAINING, 'Staff training', 2000), id: 'driver-gone' },
+            ],
+          },
+        },
+        {
+          ...data,
+          // New driver first: ids shift, drivers are matched by category and description
+          costDriversJson: {
+            drivers: [
+              { ...driver(CostCategory.CONSULTING, 'Access request workflow', 4000), id: 'driver-1' },
+              { ...driver(CostCategory.SYSTEM_CHANGES, 'Consent platform', 12000), id: 'driver-a' },
+              { ...driver(CostCategory.LEGAL_REVIEW, 'Policy review', 8000), id: 'driver-3' },
+            ],
+          },
+        },
+        inputs,
+        ['EXPIRED']
+      );
+
+      expect(prismaMock.customScenario.findMany).toHaveBeenCalledWith({
+        where: { costEstimateId: 'est-1' },
+        orderBy: { createdAt: 'asc' },
+      });
+      expect(prismaMock.customScenario.create.mock.calls[0][0].data).toEqual({
+        costEstimateId: 'est-2',
+        name: 'Vendor-led',
+        description: null,
+        excludedDriverIds: ['driver-a'],
+        driverCostOverrides: { 'driver-3': 5000 },
+        delayMonths: 3,
+        sourcing: 'VENDOR',
+        createdBy: 'cfo@example.com',
+        createdAt,
+      });
+      expect(created).toMatchObject({ id: 'est-2', selectedScenario: 'custom:cs-2' });
+    });
+  });
+});
@@ -0,0 +1,191 @@
+/**
+ * Unit tests for custom scenario pricing and plan selection
+ * The OpenAI client is mocked
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('openai');
+
+import {
+  DELAY_RUSH_PREMIUM,
+  VENDOR_MARKUP,
+  buildCustomScenario,
+  isScenarioKey,
+  resolveSelectedScenario,
+} from '@/lib/cost-estimator/scenario-builder';
+import { generateScenarios } from '@/lib/cost-estimator/core';
+import { convertPenaltyExposure } from '@/lib/cost-estimator/currency';
+import {
+  DEFAULT_PENALTY_EXPOSURE,
+  calculatePenaltyExposure,
+} from '@/lib/regulations/penalty-exposure';
+import {
+  CostCategory,
+  Department,
+  Industry,
+  RiskLevel,
+  TechMaturity,
+  type CostDriver,
+  type CustomScenarioDefinition,
+} from '@/types/cost-estimate';
+
+function driver(id: string, category: CostCategory, isOneTime: boolean, estimatedCost: number): CostDriver {
+  return {
+    id,
+    category,
+    description: id,
+    isOneTime,
+    estimatedCost,
+    confidence: 0.8,
+    department: Department.COMPLIANCE,
+  };
+}
+
+const drivers = [
+  driver('software', CostCategory.SYSTEM_CHANGES, true, 60000),
+  driver('consulting', CostCategory.CONSULTING, true, 40000),
+  driver('officer', CostCategory.PERSONNEL, false, 50000),
+];
+
+// Calibrated estimate: profile multiplier 1.5 on the driver costs
+const baseline = { oneTimeCost: 150000, recurringCostAnnual: 75000 };
+
+const unchanged: CustomScenarioDefinition = {
+  name: 'As estimated',
+  excludedDriverIds: [],
+  driverCostOverrides: {},
+  delayMonths: 0,
+  sourcing: 'IN_HOUSE',
+};
+
+describe('Scenario builder', () => {
+  it('equals the estimate when nothing is changed', () => {
+    const scenario = buildCustomScenario('s1', unchanged, baseline, drivers);
+
+    expect(scenario).toMatchObject({
+      key: 'custom:s1',
+      oneTimeCost: 150000,
+      recurringCostAnnual: 75000,
+      threeYearTotal: 150000 + 75000 * 3,
+      riskLevel: RiskLevel.LOW,
+    });
+  });
+
+  it('applies excluded drivers and overrides as a share of the estimate', () => {
+    const scenario = buildCustomScenario(
+      's2',
+      { ...unchanged, excludedDriverIds: ['consulting'], driverCostOverrides: { software: 30000 } },
+      baseline,
+      drivers
+    );
+
+    // 30k of the original 100k one-time driver cost remains
+    expect(scenario.oneTimeCost).toBe(45000);
+    expect(scenario.recurringCostAnnual).toBe(75000);
+    // 40k of 150k total driver cost left out
+    expect(scenario.riskLevel).toBe(RiskLevel.MEDIUM);
+    expect(scenario.assumptions[0]).toContain('1 cost driver left out');
+  });
+
+  it('marks up only labor-driven drivers for vendor delivery', () => {
+    const scenario = buildCustomScenario('s3', { ...unchanged, sourcing: 'VENDOR' }, baseline, drivers);
+
+    expect(scenario.oneTimeCost).toBe(Math.round(150000 * (60000 + 40000 * (1 + VENDOR_MARKUP)) / 100000));
+    expect(scenario.recurringCostAnnual).toBe(Math.round(75000 * (1 + VENDOR_MARKUP)));
+  });
+
+  it('adds rush fees and penalties for each started quarter of delay', () => {
+    const scenario = buildCustomScenario(
+      's4',
+      { ...unchanged, delayMonths: 4 },
+      baseline,
+      drivers,
+      { cashFlow: { startDate: new Date('2026-10-19T00:00:00Z'), horizonYears: 2 } }
+    );
+
+    expect(scenario.oneTimeCost).toBe(
+      150000 * (1 + DELAY_RUSH_PREMIUM) + DEFAULT_PENALTY_EXPOSURE * 2
+    );
+    expect(scenario.riskLevel).toBe(RiskLevel.HIGH);
+    expect(scenario.cashFlow?.quarters[1].oneTimeCost).toBe(0);
+  });
+
+  it('prices the delay with the regulation penalty schedule', () => {
+    const scenario = buildCustomScenario('s6', { ...unchanged, delayMonths: 3 }, baseline, drivers, {
+      penaltyTerms: {
+        perViolationMin: null,
+        perViolationMax: null,
+        perDayFine: 1000,
+        maxPenalty: null,
+        privateRightOfAction: false,
+        enforcementLikelihood: 0.5,
+      },
+    });
+
+    // 90 days × $1,000 at a 50% chance of enforcement
+    expect(scenario.oneTimeCost).toBe(150000 * (1 + DELAY_RUSH_PREMIUM) + 45000);
+    expect(scenario.assumptions).toContain(
+      'Implementation delayed 3 months (rush fees +25%, ~$45,000 penalties)'
+    );
+  });
+
+  it('converts delay penalties to the estimate currency', () => {
+    const fxRates = [
+      { currency: 'CAD' as const, rateToUsd: 0.75, effectiveDate: new Date('2026-01-01'), source: null },
+    ];
+    const scenario = buildCustomScenario('s7', { ...unchanged, delayMonths: 3 }, baseline, drivers, {
+      currency: 'CAD',
+      fxRates,
+    });
+
+    // Default allowance of $15,000 is CA$20,000 at 0.75 USD per CAD
+    expect(scenario.oneTimeCost).toBe(150000 * (1 + DELAY_RUSH_PREMIUM) + 20000);
+    expect(scenario.assumptions).toContain(
+      'Implementation delayed 3 months (rush fees +25%, ~CA$20,000 penalties)'
+    );
+
+    const builtIn = generateScenarios(
+      baseline,
+      {
+        industry: Industry.TECHNOLOGY,
+        employeeCount: 500,
+        geographicComplexity: 1,
+        techMaturity: TechMaturity.MEDIUM,
+        riskAppetite: RiskLevel.LOW,
+      },
+      [1, 1, 1],
+      convertPenaltyExposure(calculatePenaltyExposure(null), 'CAD', fxRates, new Date()),
+      'CAD'
+    );
+    expect(builtIn.delay90Days.oneTimeCost).toBe(Math.round(150000 * 1.25 + 20000));
+    expect(builtIn.delay90Days.assumptions).toContain('Potential regulatory penalties (~CA$20,000)');
+  });
+
+  it('presents the selected plan, falling back to the recommendation', () => {
+    const builtIn = generateScenarios(baseline, {
+      industry: Industry.TECHNOLOGY,
+      employeeCount: 500,
+      geographicComplexity: 1,
+      techMaturity: TechMaturity.MEDIUM,
+      riskAppetite: RiskLevel.LOW,
+    });
+    const custom = buildCustomScenario('s5', unchanged, baseline, drivers);
+
+    expect(resolveSelectedScenario({ ...builtIn, custom: [custom], selected: 'custom:s5' })).toEqual({
+      key: 'custom:s5',
+      scenario: custom,
+    });
+    expect(resolveSelectedScenario({ ...builtIn, selected: 'minimal' }).key).toBe('minimal');
+    expect(resolveSelectedScenario({ ...builtIn, selected: 'custom:deleted' }).key).toBe(
+      builtIn.recommended
+    );
+  });
+
+  it('accepts built-in and custom scenario keys only', () => {
+    expect(isScenarioKey('bestInClass')).toBe(true);
+    expect(isScenarioKey('custom:abc')).toBe(true);
+    expect(isScenarioKey('custom:')).toBe(false);
+    expect(isScenarioKey('premium')).toBe(false);
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Unit tests for one-at-a-time sensitivity analysis
+ * The OpenAI client is mocked
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('openai');
+
+import {
+  MIN_DRIVER_SWING,
+  REGIONAL_LABOR_SWING,
+  calculateSensitivityAnalysis,
+  driverSwing,
+} from '@/lib/cost-estimator/sensitivity';
+import { calculateImplementationCost } from '@/lib/cost-estimator/core';
+import {
+  CostCategory,
+  Department,
+  Industry,
+  RiskLevel,
+  TechMaturity,
+  type CompanyProfile,
+  type CostDriver,
+} from '@/types/cost-estimate';
+
+function driver(
+  id: string,
+  category: CostCategory,
+  isOneTime: boolean,
+  estimatedCost: number,
+  confidence = 0.8
+): CostDriver {
+  return {
+    id,
+    category,
+    description: id,
+    isOneTime,
+    estimatedCost,
+    confidence,
+    department: Department.COMPLIANCE,
+  };
+}
+
+const profile: CompanyProfile = {
+  industry: Industry.TECHNOLOGY,
+  employeeCount: 100,
+  geographicComplexity: 1,
+  techMaturity: TechMaturity.MEDIUM,
+  riskAppetite: RiskLevel.LOW,
+};
+
+const drivers = [
+  driver('software', CostCategory.SYSTEM_CHANGES, true, 60000, 0.9),
+  driver('consulting', CostCategory.CONSULTING, true, 40000, 0.5),
+  driver('officer', CostCategory.PERSONNEL, false, 50000, 0.8),
+];
+
+const factor = (analysis: ReturnType<typeof calculateSensitivityAnalysis>, key: string) =>
+  analysis.factors.find((entry) => entry.factor === key)!;
+
+describe('Sensitivity analysis', () => {
+  it('keeps the estimate at the current value of every factor', () => {
+    const estimate = calculateImplementationCost(drivers, profile);
+    const analysis = calculateSensitivityAnalysis(estimate, profile, drivers);
+
+    expect(analysis.baselineOneTime).toBe(100000);
+    expect(analysis.baselineRecurring).toBe(50000);
+    expect(analysis.baselineThreeYear).toBe(250000);
+    for (const entry of analysis.factors) {
+      const current = entry.impactOnOneTime.find((impact) => impact.value === entry.currentValue);
+      expect(current?.percentChange).toBe(0);
+    }
+  });
+
+  it('varies industry and tech maturity through their multipliers', () => {
+    const estimate = calculateImplementationCost(drivers, profile);
+    const analysis = calculateSensitivityAnalysis(estimate, profile, drivers);
+
+    const healthcare = factor(analysis, 'industryMultiplier').impactOnOneTime.find(
+      (impact) => impact.label === Industry.HEALTHCARE
+    );
+    expect(healthcare).toMatchObject({ value: 1.4, percentChange: 40 });
+
+    const maturity = factor(analysis, 'techMaturity').impactOnRecurring;
+    expect(maturity.map((impact) => impact.label)).toEqual(['LOW', 'MEDIUM', 'HIGH']);
+    expect(maturity.map((impact) => impact.high)).toEqual([60000, 50000, 42500]);
+  });
+
+  it('scales variants to a calibrated estimate', () => {
+    // Learning feedback doubled the one-time figures
+    const estimate = { oneTimeCostLow: 180000, oneTimeCostHigh: 220000, recurringCostAnnual: 50000 };
+    const analysis = calculateSensitivityAnalysis(estimate, profile, drivers);
+
+    const size = factor(analysis, 'sizeMultiplier').impactOnOneTime;
+    const doubled = Math.pow(2, 0.7);
+    expect(size[2].label).toBe('200 employees');
+    expect(size[2].low).toBe(Math.round(200000 * doubled * 0.9));
+    expect(size[2].high).toBe(Math.round(200000 * doubled * 1.1));
+  });
+
+  it('moves regional pay on labor-driven drivers only', () => {
+    const estimate = calculateImplementationCost(drivers, profile);
+    const analysis = calculateSensitivityAnalysis(estimate, profile, drivers);
+
+    const [lower] = factor(analysis, 'regionalLaborIndex').impactOnOneTime;
+    // Only the 40k consulting driver follows regional pay
+    expect(lower.percentChange).toBe(Math.round(-40000 * REGIONAL_LABOR_SWING / 100000 * 100));
+  });
+
+  it('ranks multipliers and drivers by swing for the tornado chart', () => {
+    const estimate = calculateImplementationCost(drivers, profile);
+    const analysis = calculateSensitivityAnalysis(estimate, profile, drivers);
+
+    const swings = analysis.tornado.map((bar) => bar.swing);
+    expect(swings).toEqual([...swings].sort((a, b) => b - a));
+    expect(analysis.tornado[0]).toMatchObject({
+      key: 'sizeMultiplier',
+      lowLabel: '50 employees',
+      highLabel: '200 employees',
+    });
+
+    const consulting = analysis.tornado.find((bar) => bar.key === 'driver:consulting');
+    expect(consulting).toMatchObject({
+      kind: 'COST_DRIVER',
+      lowTotal: 250000 - 20000,
+      highTotal: 250000 + 20000,
+      swing: 40000,
+    });
+    const officer = analysis.tornado.find((bar) => bar.key === 'driver:officer');
+    // Recurring drivers count for three years
+    expect(officer?.swing).toBe(Math.round(50000 * 3 * 0.2 * 2));
+  });
+
+  it('widens driver swings as confidence drops', () => {
+    expect(driverSwing(1)).toBe(MIN_DRIVER_SWING);
+    expect(driverSwing(0.6)).toBeCloseTo(0.4);
+    expect(driverSwing(-1)).toBe(1);
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * Unit tests for Monte Carlo cost simulation
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  buildDriverDistribution,
+  buildHistogram,
+  parseStoredCostDrivers,
+  runMonteCarloSimulation,
+} from '@/lib/cost-estimator/simulation';
+import {
+  CostCategory,
+  Department,
+  Industry,
+  RiskLevel,
+  TechMaturity,
+  type CompanyProfile,
+  type CostDriver,
+} from '@/types/cost-estimate';
+
+// core.ts constructs an OpenAI client at import time
+vi.mock('openai');
+
+// Multiplier of exactly 1.0
+const profile: CompanyProfile = {
+  industry: Industry.TECHNOLOGY,
+  employeeCount: 100,
+  geographicComplexity: 1,
+  techMaturity: TechMaturity.MEDIUM,
+  riskAppetite: RiskLevel.LOW,
+};
+
+const portal: CostDriver = {
+  id: 'driver-det-1',
+  category: CostCategory.SYSTEM_CHANGES,
+  description: 'DSAR portal',
+  isOneTime: true,
+  estimatedCost: 50000,
+  confidence: 0.8,
+  department: Department.IT,
+  evidence: [
+    { type: 'INDUSTRY_BENCHMARK', reference: 'Benchmark', confidence: 0.8, estimatedCost: 90000 },
+  ],
+};
+
+const training: CostDriver = {
+  id: 'driver-det-2',
+  category: CostCategory.TRAINING,
+  description: 'Annual training',
+  isOneTime: false,
+  estimatedCost: 10000,
+  confidence: 0.6,
+  department: Department.HR,
+};
+
+describe('Monte Carlo cost simulation', () => {
+  describe('buildDriverDistribution', () => {
+    it('uses a triangular distribution spanning evidence costs', () => {
+      const distribution = buildDriverDistribution(portal, 2);
+
+      expect(distribution.type).toBe('TRIANGULAR');
+      expect(distribution.mode).toBe(100000);
+      expect(distribution.max).toBe(180000);
+      expect(distribution.min).toBeLessThan(100000);
+    });
+
+    it('uses a lognormal that widens as confidence drops', () => {
+      const confident = buildDriverDistribution({ ...training, confidence: 0.9 }, 1);
+      const unsure = buildDriverDistribution({ ...training, confidence: 0.3 }, 1);
+
+      expect(confident.type).toBe('LOGNORMAL');
+      expect(unsure.sigma!).toBeGreaterThan(confident.sigma!);
+      expect(unsure.max - unsure.min).toBeGreaterThan(confident.max - confident.min);
+    });
+  });
+
+  describe('runMonteCarloSimulation', () => {
+    it('returns ordered percentiles around the point estimate', () => {
+      const result = runMonteCarloSimulation([portal, training], profile, { iterations: 4000 });
+
+      expect(result.iterations).toBe(4000);
+      expect(result.oneTime.p10).toBeLessThan(result.oneTime.p50);
+      expect(result.oneTime.p50).toBeLessThan(result.oneTime.p90);
+      // Evidence pulls the one-time distribution above the point estimate
+      expect(result.oneTime.p50).toBeGreaterThan(50000);
+      // Lognormal median sits on the point estimate
+      expect(result.recurring.p50).toBeGreaterThan(9000);
+      expect(result.recurring.p50).toBeLessThan(11000);
+      expect(result.oneTimeHistogram.reduce((sum, bin) => sum + bin.count, 0)).toBe(4000);
+    });
+
+    it('is reproducible for a seed and clamps iterations', () => {
+      const first = runMonteCarloSimulation([portal], profile, { seed: 7, iterations: 500 });
+      const second = runMonteCarloSimulation([portal], profile, { seed: 7, iterations: 500 });
+      const other = runMonteCarloSimulation([portal], profile, { seed: 8, iterations: 500 });
+
+      expect(second.oneTime).toEqual(first.oneTime);
+      expect(other.oneTime).not.toEqual(first.oneTime);
+      expect(runMonteCarloSimulation([portal], profile, { iterations: 5 }).iterations).toBe(100);
+    });
+
+    it('returns zeros when there are no drivers', () => {
+      const result = runMonteCarloSimulation([], profile, { iterations: 100 });
+
+      expect(result.oneTime).toEqual({ p10: 0, p50: 0, p90: 0, mean: 0 });
+      expect(result.recurringHistogram).toEqual([{ start: 0, end: 0, count: 100 }]);
+    });
+  });
+
+  describe('buildHistogram', () => {
+    it('puts the maximum value in the last bin', () => {
+      const histogram = buildHistogram([0, 1, 2, 3, 4, 10], 5);
+
+      expect(histogram).toHaveLength(5);
+      expect(histogram.map((bin) => bin.count)).toEqual([2, 2, 1, 0, 1]);
+      expect(histogram[4]).toEqual({ start: 8, end: 10, count: 1 });
+    });
+  });
+
+  describe('parseStoredCostDrivers', () => {
+    it('restores drivers and evidence from stored JSON', () => {
+      const drivers = parseStoredCostDrivers({
+        drivers: [{ description: 'Legal review', isOneTime: true, estimatedCost: '5000' }],
+      });
+
+      expect(drivers).toEqual([
+        expect.objectContaining({
+          id: 'driver-1',
+          estimatedCost: 5000,
+          confidence: 0.7,
+          department: Department.IT,
+          evidence: undefined,
+        }),
+      ]);
+      expect(parseStoredCostDrivers(null)).toEqual([]);
+    });
+  });
+});
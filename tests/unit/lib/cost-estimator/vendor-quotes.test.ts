@@ -0,0 +1,146 @@
+/**
+ * Unit tests for pricing cost drivers with vendor quotes
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('openai');
+
+import { calculateImplementationCost } from '@/lib/cost-estimator/core';
+import {
+  QUOTE_CONFIDENCE,
+  applyVendorQuotes,
+  isQuoteExpired,
+  vendorQuoteVersion,
+} from '@/lib/cost-estimator/vendor-quotes';
+import {
+  CostCategory,
+  Department,
+  Industry,
+  RiskLevel,
+  TechMaturity,
+  type CompanyProfile,
+  type CostDriver,
+  type FxRate,
+  type VendorQuote,
+} from '@/types/cost-estimate';
+
+const asOf = new Date('2026-10-19T12:00:00Z');
+
+const drivers: CostDriver[] = [
+  {
+    id: 'driver-det-1',
+    category: CostCategory.SYSTEM_CHANGES,
+    description: 'Consent management platform',
+    isOneTime: true,
+    estimatedCost: 40000,
+    confidence: 0.7,
+    department: Department.IT,
+    evidence: [
+      { type: 'INDUSTRY_BENCHMARK', reference: 'consent-platform', confidence: 0.7, estimatedCost: 40000 },
+    ],
+  },
+  {
+    id: 'driver-det-2',
+    category: CostCategory.TRAINING,
+    description: 'Staff training',
+    isOneTime: true,
+    estimatedCost: 10000,
+    confidence: 0.7,
+    department: Department.HR,
+  },
+];
+
+function quote(overrides: Partial<VendorQuote> = {}): VendorQuote {
+  return {
+    id: 'quote-1',
+    regulationId: 'reg-1',
+    driverCategory: CostCategory.SYSTEM_CHANGES,
+    driverDescription: 'Consent Management Platform',
+    vendor: 'Acme Privacy',
+    amount: 55000,
+    currency: 'USD',
+    validUntil: new Date('2026-12-31T23:59:59.999Z'),
+    scope: null,
+    attachments: [],
+    selected: true,
+    createdBy: 'cfo@example.com',
+    createdAt: new Date('2026-10-01'),
+    updatedAt: new Date('2026-10-01'),
+    ...overrides,
+  };
+}
+
+describe('Vendor quotes', () => {
+  it('prices the matching driver at the selected quote with high confidence', () => {
+    const [quoted, other] = applyVendorQuotes(drivers, [quote()], [], asOf);
+
+    expect(quoted).toMatchObject({
+      estimatedCost: 55000,
+      confidence: QUOTE_CONFIDENCE,
+      quoteId: 'quote-1',
+    });
+    expect(quoted.evidence?.[0]).toEqual({
+      type: 'VENDOR_QUOTE',
+      reference: 'Acme Privacy, valid until 2026-12-31',
+      confidence: QUOTE_CONFIDENCE,
+      estimatedCost: 55000,
+    });
+    // The benchmark stays as a citation without its cost
+    expect(quoted.evidence?.[1]).toEqual({
+      type: 'INDUSTRY_BENCHMARK',
+      reference: 'consent-platform',
+      confidence: 0.7,
+    });
+    expect(other).toBe(drivers[1]);
+  });
+
+  it('ignores unselected and expired quotes', () => {
+    const unselected = quote({ selected: false });
+    const expired = quote({ id: 'quote-2', validUntil: new Date('2026-10-18T23:59:59.999Z') });
+
+    expect(isQuoteExpired(expired, asOf)).toBe(true);
+    expect(applyVendorQuotes(drivers, [unselected, expired], [], asOf)).toBe(drivers);
+    expect(vendorQuoteVersion([unselected, expired], asOf)).toBe('');
+  });
+
+  it('converts quotes in other currencies to USD', () => {
+    const rates: FxRate[] = [
+      { currency: 'EUR', rateToUsd: 1.2, effectiveDate: new Date('2026-01-01'), source: null },
+    ];
+    const [quoted] = applyVendorQuotes(drivers, [quote({ currency: 'EUR', amount: 50000 })], rates, asOf);
+
+    expect(quoted.estimatedCost).toBe(60000);
+  });
+
+  it('changes the fingerprint when a quote is edited or expires', () => {
+    const version = vendorQuoteVersion([quote()], asOf);
+
+    expect(version).not.toBe('');
+    expect(vendorQuoteVersion([quote({ updatedAt: new Date('2026-10-10') })], asOf)).not.toBe(version);
+    expect(vendorQuoteVersion([quote()], new Date('2027-01-01'))).toBe('');
+  });
+
+  it('does not scale quoted drivers by the company profile', () => {
+    const profile: CompanyProfile = {
+      industry: Industry.FINANCE,
+      employeeCount: 2000,
+      geographicComplexity: 3,
+      techMaturity: TechMaturity.LOW,
+      riskAppetite: RiskLevel.LOW,
+    };
+    const unquoted = calculateImplementationCost([drivers[1]], profile);
+    const estimate = calculateImplementationCost(
+      applyVendorQuotes(drivers, [quote()], [], asOf),
+      profile
+    );
+
+    const oneTimeMid = (estimate.oneTimeCostLow + estimate.oneTimeCostHigh) / 2;
+    const unquotedMid = (unquoted.oneTimeCostLow + unquoted.oneTimeCostHigh) / 2;
+    expect(oneTimeMid).toBeCloseTo(unquotedMid + 55000, -1);
+    expect(
+      estimate.departmentBreakdown.find((department) => department.department === Department.IT)
+        ?.oneTimeCost
+    ).toBe(55000);
+  });
+});
@@ -0,0 +1,181 @@
+/**
+ * Unit tests for versioned company profiles
+ * Prisma is mocked
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const prismaMock = vi.hoisted(() => {
+  const mock = {
+    companyProfileVersion: { findFirst: vi.fn(), findMany: vi.fn(), create: vi.fn() },
+    customer: { findUnique: vi.fn(), update: vi.fn() },
+    $transaction: vi.fn(),
+  };
+  mock.$transaction.mockImplementation((fn: (tx: typeof mock) => unknown) => fn(mock));
+  return mock;
+});
+
+vi.mock('@/lib/prisma', () => ({ default: prismaMock, prisma: prismaMock }));
+
+import {
+  deriveGeographicComplexity,
+  resolveCompanyProfile,
+  saveCompanyProfile,
+} from '@/lib/customers/company-profile';
+import { Industry, RiskLevel, TechMaturity } from '@/types/cost-estimate';
+
+const storedVersion = {
+  id: 'cpv-2',
+  customerId: 'cust-1',
+  version: 2,
+  industry: 'HEALTHCARE',
+  employeeCount: 800,
+  revenue: 50_000_000,
+  techMaturity: 'HIGH',
+  riskAppetite: 'MEDIUM',
+  operatingJurisdictions: ['CA', 'NY'],
+  geographicComplexity: 2,
+  createdBy: 'cfo@example.com',
+  createdAt: new Date('2026-10-01'),
+};
+
+describe('Company profile', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('deriveGeographicComplexity', () => {
+    it('counts distinct jurisdictions with a floor of one', () => {
+      expect(deriveGeographicComplexity(['CA', 'ca', ' NY ', 'TX'])).toBe(3);
+      expect(deriveGeographicComplexity([])).toBe(1);
+    });
+  });
+
+  describe('resolveCompanyProfile', () => {
+    it('uses the latest stored version', async () => {
+      prismaMock.companyProfileVersion.findFirst.mockResolvedValue(storedVersion);
+
+      const resolved = await resolveCompanyProfile('cust-1');
+
+      expect(resolved).toEqual({
+        profile: {
+          industry: Industry.HEALTHCARE,
+          employeeCount: 800,
+          revenue: 50_000_000,
+          geographicComplexity: 2,
+          operatingJurisdictions: storedVersion.operatingJurisdictions,
+          techMaturity: TechMaturity.HIGH,
+          riskAppetite: RiskLevel.MEDIUM,
+        },
+        profileVersionId: 'cpv-2',
+        profileVersion: 2,
+      });
+      expect(prismaMock.customer.findUnique).not.toHaveBeenCalled();
+    });
+
+    it('falls back to the customer record when no profile is saved', async () => {
+      prismaMock.companyProfileVersion.findFirst.mockResolvedValue(null);
+      prismaMock.customer.findUnique.mockResolvedValue({
+        industry: 'Financial Services',
+        employeeCount: 250,
+        operatingJurisdictions: ['NY', 'NJ'],
+      });
+
+      const resolved = await resolveCompanyProfile('cust-1');
+
+      expect(resolved.profileVersionId).toBeNull();
+      expect(resolved.profile).toMatchObject({
+        industry: Industry.FINANCE,
+        employeeCount: 250,
+        geographicComplexity: 2,
+        operatingJurisdictions: ['NY', 'NJ'],
+        techMaturity: TechMaturity.MEDIUM,
+        riskAppetite: RiskLevel.LOW,
+      });
+    });
+
+    it('applies defined request overrides on top of the stored profile', async () => {
+      prismaMock.companyProfileVersion.findFirst.mockResolvedValue(storedVersion);
+
+      const resolved = await resolveCompanyProfile('cust-1', {
+        employeeCount: 1200,
+        techMaturity: undefined,
+      });
+
+      expect(resolved.profile.employeeCount).toBe(1200);
+      expect(resolved.profile.techMaturity).toBe(TechMaturity.HIGH);
+      expect(resolved.profileVersionId).toBe('cpv-2');
+    });
+
+    it('re-derives geographic complexity for overridden jurisdictions', async () => {
+      prismaMock.companyProfileVersion.findFirst.mockResolvedValue(storedVersion);
+
+      const overridden = await resolveCompanyProfile('cust-1', {
+        operatingJurisdictions: ['CA', 'NY', 'TX', 'WA'],
+      });
+      const explicit = await resolveCompanyProfile('cust-1', {
+        operatingJurisdictions: ['CA', 'NY', 'TX', 'WA'],
+        geographicComplexity: 3,
+      });
+
+      expect(overridden.profile.geographicComplexity).toBe(4);
+      expect(explicit.profile.geographicComplexity).toBe(3);
+    });
+  });
+
+  describe('saveCompanyProfile', () => {
+    it('creates the next version and syncs the customer record', async () => {
+      prismaMock.companyProfileVersion.findFirst.mockResolvedValue({ version: 2 });
+      prismaMock.companyProfileVersion.create.mockImplementation(({ data }) =>
+        Promise.resolve({ id: 'cpv-3', createdAt: new Date(), ...data })
+      );
+
+      const saved = await saveCompanyProfile(
+        'cust-1',
+        {
+          industry: Industry.RETAIL,
+          employeeCount: 300,
+          techMaturity: TechMaturity.LOW,
+          riskAppetite: RiskLevel.HIGH,
+          operatingJurisdictions: ['wa', 'CA', 'WA'],
+        },
+        'cfo@example.com'
+      );
+
+      expect(saved.version).toBe(3);
+      expect(saved.operatingJurisdictions).toEqual(['CA', 'WA']);
+      expect(saved.geographicComplexity).toBe(2);
+      expect(saved.revenue).toBeNull();
+      expect(prismaMock.customer.update).toHaveBeenCalledWith({
+        where: { id: 'cust-1' },
+        data: {
+          industry: Industry.RETAIL,
+          employeeCount: 300,
+          operatingJurisdictions: ['CA', 'WA'],
+        },
+      });
+    });
+
+    it('starts at version one', async () => {
+      prismaMock.companyProfileVersion.findFirst.mockResolvedValue(null);
+      prismaMock.companyProfileVersion.create.mockImplementation(({ data }) =>
+        Promise.resolve({ id: 'cpv-1', createdAt: new Date(), ...data })
+      );
+
+      const saved = await saveCompanyProfile(
+        'cust-1',
+        {
+          industry: Industry.OTHER,
+          employeeCount: 10,
+          techMaturity: TechMaturity.MEDIUM,
+          riskAppetite: RiskLevel.LOW,
+          operatingJurisdictions: [],
+        },
+        'admin@example.com'
+      );
+
+      expect(saved.version).toBe(1);
+      expect(saved.geographicComplexity).toBe(1);
+    });
+  });
+});
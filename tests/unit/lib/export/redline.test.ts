@@ -0,0 +1,155 @@
+/**
+ * Unit tests for redline export of PolicyDiffs
+ */
+
+import { describe, it, expect } from 'vitest';
+import { generateTextDiff, formatDiffForDisplay } from '@/lib/policydiff';
+import { buildRedline, formatRedlineHTML, redlineFileName } from '@/lib/export/redline';
+import { formatRedlineDocumentXML, generateRedlineDOCX } from '@/lib/export/redline-docx';
+import { generateRedlinePDF } from '@/lib/export/redline-pdf';
+import { createZip, crc32 } from '@/lib/export/zip';
+import { SignificanceScore } from '@/types/policydiff';
+
+const PREVIOUS = `§ 1. Definitions.
+(a) "Business" means a company with 50 or more employees.
+
+§ 2. Consumer rights.
+(a) A business shall respond within 45 days.
+(b) A business may charge a fee for copies.`;
+
+const CURRENT = `§ 1. Definitions.
+(a) "Business" means a company with 25 or more employees.
+
+§ 2. Consumer rights.
+(a) A business shall respond within 45 days.
+(c) A business must delete data on request.`;
+
+const diff = {
+  diffText: formatDiffForDisplay(generateTextDiff(PREVIOUS, CURRENT), Number.POSITIVE_INFINITY),
+  summary: 'Threshold lowered & <deletion> right added',
+  keyChanges: ['Threshold lowered to 25 employees', 'Fees for copies removed'],
+  significanceScore: SignificanceScore.HIGH,
+  aiConfidence: 0.85,
+};
+
+const metadata = {
+  regulationTitle: 'Consumer Data Act',
+  jurisdiction: 'California',
+  previousVersionNumber: 2,
+  currentVersionNumber: 4,
+  previousPublishedDate: new Date('2026-01-15T12:00:00Z'),
+  currentPublishedDate: '2026-06-01T12:00:00Z',
+  generatedAt: new Date('2026-10-19T12:00:00Z'),
+};
+
+/**
+ * File names and contents of a stored (uncompressed) ZIP archive
+ */
+function readZip(bytes: Uint8Array): Record<string, string> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const decoder = new TextDecoder();
+  const files: Record<string, string> = {};
+  let offset = 0;
+  while (view.getUint32(offset, true) === 0x04034b50) {
+    const size = view.getUint32(offset + 18, true);
+    const nameLength = view.getUint16(offset + 26, true);
+    const name = decoder.decode(bytes.subarray(offset + 30, offset + 30 + nameLength));
+    const start = offset + 30 + nameLength;
+    files[name] = decoder.decode(bytes.subarray(start, start + size));
+    offset = start + size;
+  }
+  return files;
+}
+
+describe('Redline document', () => {
+  const redline = buildRedline(diff, metadata);
+
+  it('marks edited words inside one paragraph and whole-line changes separately', () => {
+    const threshold = redline.paragraphs.find((paragraph) =>
+      paragraph.runs.some((run) => run.text.includes('employees'))
+    );
+    expect(threshold?.runs.filter((run) => run.type !== 'unchanged')).toEqual([
+      { type: 'removed', text: '50' },
+      { type: 'added', text: '25' },
+    ]);
+
+    expect(redline.paragraphs).toContainEqual({
+      heading: false,
+      runs: [{ type: 'removed', text: '(b) A business may charge a fee for copies.' }],
+    });
+    expect(redline.paragraphs).toContainEqual({
+      heading: false,
+      runs: [{ type: 'added', text: '(c) A business must delete data on request.' }],
+    });
+  });
+
+  it('keeps section headings and puts version metadata in the header', () => {
+    expect(redline.paragraphs.filter((paragraph) => paragraph.heading).map((paragraph) => paragraph.runs[0].text)).toEqual([
+      '§ 1. Definitions.',
+      '§ 2. Consumer rights.',
+    ]);
+    expect(redline.subtitle).toBe('Redline: Version 2 to Version 4');
+    expect(redline.details).toEqual([
+      { label: 'Compared', value: 'Version 2 (Jan 15, 2026) to Version 4 (Jun 1, 2026)' },
+      { label: 'Jurisdiction', value: 'California' },
+      { label: 'Significance', value: 'HIGH' },
+      { label: 'AI confidence', value: '85%' },
+      { label: 'Generated', value: 'Oct 19, 2026' },
+    ]);
+    expect(redlineFileName(metadata, 'pdf')).toBe('consumer-data-act-redline-v2-v4.pdf');
+  });
+});
+
+describe('Redline exports', () => {
+  it('renders standalone HTML with <del>/<ins> and escaped text', () => {
+    const html = formatRedlineHTML(diff, metadata);
+
+    expect(html).toMatch(/^<!DOCTYPE html>/);
+    expect(html).toContain('<del>50</del><ins>25</ins>');
+    expect(html).toContain('<h3>§ 2. Consumer rights.</h3>');
+    expect(html).toContain('Threshold lowered &amp; &lt;deletion&gt; right added');
+    expect(html).toContain('<li>Fees for copies removed</li>');
+    expect(html).not.toContain('<link');
+  });
+
+  it('writes a DOCX package with struck and underlined runs', async () => {
+    const xml = formatRedlineDocumentXML(diff, metadata);
+    expect(xml).toContain(
+      '<w:r><w:rPr><w:strike/><w:color w:val="B91C1C"/></w:rPr><w:t xml:space="preserve">50</w:t></w:r>'
+    );
+    expect(xml).toContain(
+      '<w:r><w:rPr><w:color w:val="1D4ED8"/><w:u w:val="single"/></w:rPr><w:t xml:space="preserve">25</w:t></w:r>'
+    );
+    expect(xml).toContain('<w:b/></w:rPr><w:t xml:space="preserve">§ 1. Definitions.</w:t>');
+    expect(xml).toContain('Threshold lowered &amp; &lt;deletion&gt; right added');
+
+    const blob = await generateRedlineDOCX(diff, metadata);
+    expect(blob.type).toBe('application/vnd.openxmlformats-officedocument.wordprocessingml.document');
+    const files = readZip(new Uint8Array(await blob.arrayBuffer()));
+    expect(Object.keys(files)).toEqual(['[Content_Types].xml', '_rels/.rels', 'word/document.xml']);
+    expect(files['word/document.xml']).toBe(xml);
+  });
+
+  it('writes ZIP entries with their CRC-32 and a central directory', () => {
+    expect(crc32(new TextEncoder().encode('hello'))).toBe(0x3610a686);
+
+    const bytes = createZip([{ name: 'a.txt', data: 'hello' }]);
+    const view = new DataView(bytes.buffer);
+    expect(view.getUint32(14, true)).toBe(0x3610a686);
+    expect(readZip(bytes)).toEqual({ 'a.txt': 'hello' });
+
+    const end = bytes.length - 22;
+    expect(view.getUint32(end, true)).toBe(0x06054b50);
+    const centralOffset = view.getUint32(end + 16, true);
+    expect(view.getUint32(centralOffset, true)).toBe(0x02014b50);
+    expect(view.getUint32(centralOffset + 42, true)).toBe(0);
+  });
+
+  it('generates a PDF', async () => {
+    const blob = await generateRedlinePDF(diff, metadata);
+    const header = new TextDecoder().decode(new Uint8Array(await blob.arrayBuffer()).subarray(0, 5));
+
+    expect(blob.type).toBe('application/pdf');
+    expect(header).toBe('%PDF-');
+  });
+});
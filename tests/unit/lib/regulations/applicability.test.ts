@@ -0,0 +1,184 @@
+/**
+ * Unit tests for the regulation applicability engine
+ * Prisma is mocked
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const prismaMock = vi.hoisted(() => ({
+  customer: { findUnique: vi.fn() },
+  regulation: { findMany: vi.fn() },
+}));
+
+vi.mock('@/lib/prisma', () => ({ default: prismaMock, prisma: prismaMock }));
+
+import {
+  evaluateApplicability,
+  extractRegulationScope,
+  normalizeIndustry,
+  suggestWatchlistRegulations,
+} from '@/lib/regulations/applicability';
+import { Industry } from '@/types/cost-estimate';
+import type { ApplicabilityRegulation } from '@/types/applicability';
+
+const california: ApplicabilityRegulation['jurisdiction'] = {
+  code: 'CA',
+  name: 'California',
+  type: 'STATE',
+};
+
+const customer = {
+  industry: 'Financial Services',
+  employeeCount: 200,
+  operatingJurisdictions: ['CA', 'NY'],
+};
+
+function regulation(
+  contentText: string,
+  jurisdiction: ApplicabilityRegulation['jurisdiction'] = california
+): ApplicabilityRegulation {
+  return { id: 'reg-1', jurisdiction, contentText };
+}
+
+describe('Regulation applicability', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('normalizeIndustry', () => {
+    it('maps free-text industries onto the Industry enum', () => {
+      expect(normalizeIndustry('Financial Services')).toBe(Industry.FINANCE);
+      expect(normalizeIndustry('healthcare')).toBe(Industry.HEALTHCARE);
+      expect(normalizeIndustry('Transportation & Logistics')).toBe(Industry.OTHER);
+    });
+  });
+
+  describe('extractRegulationScope', () => {
+    it('reads employee thresholds, exemptions and sectors', () => {
+      const scope = extractRegulationScope(
+        'This Act applies to employers with 50 or more employees. ' +
+          'It does not apply to employers with fewer than 15 employees. ' +
+          'Financial institutions must also file annual reports.'
+      );
+
+      expect(scope.minEmployees).toBe(50);
+      expect(scope.maxEmployees).toBeUndefined();
+      expect(scope.sectors).toEqual([Industry.FINANCE]);
+      expect(scope.evidence).toContain('50 or more employees');
+    });
+
+    it('only reads sectors as scope from coverage wording', () => {
+      const scope = extractRegulationScope(
+        'This Act applies to all employers, including hospitals. ' +
+          'An employer shall provide paid sick leave for care received at hospitals or clinics. ' +
+          'A covered entity means any insurer licensed in this state.'
+      );
+
+      expect(scope.sectors).toEqual([Industry.FINANCE]);
+      expect(scope.mentionedSectors).toEqual([Industry.HEALTHCARE]);
+    });
+
+    it('treats "fewer than" without an exemption as an upper bound', () => {
+      const scope = extractRegulationScope(
+        'Small business grants are available to employers with fewer than 50 employees.'
+      );
+
+      expect(scope.maxEmployees).toBe(49);
+    });
+  });
+
+  describe('evaluateApplicability', () => {
+    it('applies when jurisdiction, size and sector all match', () => {
+      const result = evaluateApplicability(
+        regulation('Banks and employers with at least 100 employees shall comply.'),
+        customer
+      );
+
+      expect(result.status).toBe('APPLICABLE');
+      expect(result.applies).toBe(true);
+      expect(result.reasons.map((r) => [r.criterion, r.outcome])).toEqual([
+        ['JURISDICTION', 'MET'],
+        ['EMPLOYEE_THRESHOLD', 'MET'],
+        ['SECTOR', 'MET'],
+      ]);
+      expect(result.confidence).toBe(0.83);
+    });
+
+    it('leaves scope unclear when a sector is only mentioned in passing', () => {
+      const result = evaluateApplicability(
+        regulation(
+          'Every employer shall provide paid sick leave. Leave may be used for visits to hospitals or clinics.'
+        ),
+        { ...customer, industry: 'Technology' }
+      );
+
+      expect(result.status).toBe('POSSIBLY_APPLICABLE');
+      expect(result.applies).toBe(true);
+      expect(result.reasons.map((r) => [r.criterion, r.outcome])).toEqual([
+        ['JURISDICTION', 'MET'],
+        ['SECTOR', 'UNKNOWN'],
+      ]);
+    });
+
+    it('rules out regulations below the size threshold', () => {
+      const result = evaluateApplicability(
+        regulation('This part covers employers with more than 500 employees.'),
+        customer
+      );
+
+      expect(result.status).toBe('NOT_APPLICABLE');
+      expect(result.confidence).toBe(0.85);
+      expect(result.reasons[1].detail).toContain('501+');
+    });
+
+    it('rules out jurisdictions the customer does not operate in', () => {
+      const result = evaluateApplicability(
+        regulation('Businesses must comply.', { code: 'TX', name: 'Texas', type: 'STATE' }),
+        customer
+      );
+
+      expect(result.status).toBe('NOT_APPLICABLE');
+      expect(result.reasons[0].detail).toBe('Does not operate in Texas');
+    });
+
+    it('is only possibly applicable when jurisdictions are not configured', () => {
+      const result = evaluateApplicability(regulation('Businesses must comply.'), {
+        ...customer,
+        operatingJurisdictions: [],
+      });
+
+      expect(result.status).toBe('POSSIBLY_APPLICABLE');
+      expect(result.applies).toBe(true);
+      expect(result.confidence).toBe(0.5);
+    });
+
+    it('applies federal regulations everywhere', () => {
+      const result = evaluateApplicability(
+        regulation('Employers must comply.', { code: 'US', name: 'Federal', type: 'FEDERAL' }),
+        { ...customer, operatingJurisdictions: [] }
+      );
+
+      expect(result.status).toBe('APPLICABLE');
+      expect(result.confidence).toBe(0.8);
+    });
+  });
+
+  describe('suggestWatchlistRegulations', () => {
+    it('suggests applicable regulations that are not watched yet', async () => {
+      prismaMock.customer.findUnique.mockResolvedValue(customer);
+      prismaMock.regulation.findMany.mockResolvedValue([
+        { id: 'reg-ca', jurisdiction: california, versions: [{ contentText: 'Banks must comply.' }] },
+        { id: 'reg-watched', jurisdiction: california, versions: [{ contentText: 'Comply.' }] },
+        {
+          id: 'reg-tx',
+          jurisdiction: { code: 'TX', name: 'Texas', type: 'STATE' },
+          versions: [{ contentText: 'Comply.' }],
+        },
+      ]);
+
+      const suggestions = await suggestWatchlistRegulations('cust-1', new Set(['reg-watched']));
+
+      expect(suggestions.map((s) => s.regulationId)).toEqual(['reg-ca']);
+    });
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * Unit tests for regulation change classification and its effect on significance
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('openai');
+
+import { classifyChanges, isEditorialChange } from '@/lib/regulations/change-classifier';
+import { calculateChangeMetrics, generateTextDiff } from '@/lib/policydiff';
+import { calculateSignificance } from '@/lib/ai/summarizer';
+import {
+  ChangeClassification,
+  PolicyDiffSummary,
+  SignificanceScore,
+} from '@/types/policydiff';
+
+const PREVIOUS = `§ 1. Definitions.
+(a) "Business" means a company with 50 or more employees.
+(b) "Consumer" means a natural person who is a resident of the state.
+
+§ 2. Consumer rights.
+(a) A business shall respond to a consumer request within 45 days.
+(b) A business may provide a copy of personal data on request.
+(c) This section does not apply to data held for fraud prevention.
+
+§ 3. Penalties.
+A business that violates this Act is liable for a civil penalty of up to $2,500 per violation.`;
+
+const summary: PolicyDiffSummary = {
+  summary: 'Penalty and enforcement provisions were renumbered',
+  keyChanges: [],
+  obligations: [],
+  confidence: 0.8,
+};
+
+function classify(current: string) {
+  return classifyChanges(generateTextDiff(PREVIOUS, current));
+}
+
+function kinds(current: string) {
+  return classify(current).map((change) => change.classification);
+}
+
+describe('Change classifier', () => {
+  it('treats renumbering and typo fixes as editorial', () => {
+    const renumbered = PREVIOUS.replace('§ 3. Penalties.', '§ 4. Penalties.').replace(
+      'personal data on request',
+      'personal data on requst'
+    );
+    const changes = classify(renumbered);
+
+    expect(changes.map((change) => change.classification)).toEqual([
+      ChangeClassification.EDITORIAL,
+      ChangeClassification.EDITORIAL,
+    ]);
+    expect(changes[1]).toMatchObject({ description: '§ 3 renumbered to § 4', section: '§ 4' });
+  });
+
+  it('reads shifted deadlines and changed penalty amounts', () => {
+    const current = PREVIOUS.replace('within 45 days', 'within 30 days').replace('$2,500', '$7,500');
+    const changes = classify(current);
+
+    expect(changes.map((change) => change.classification)).toEqual([
+      ChangeClassification.DEADLINE_SHIFTED,
+      ChangeClassification.PENALTY_CHANGED,
+    ]);
+    expect(changes[0]).toMatchObject({ section: '§ 2(a)', before: '45 days', after: '30 days' });
+    expect(changes[1]).toMatchObject({ before: '$2,500', after: '$7,500' });
+  });
+
+  it('reads employee-count thresholds inside definitions', () => {
+    expect(kinds(PREVIOUS.replace('50 or more employees', '25 or more employees'))).toEqual([
+      ChangeClassification.THRESHOLD_CHANGED,
+      ChangeClassification.DEFINITION_CHANGED,
+    ]);
+  });
+
+  it('reads obligations strengthened, added and removed', () => {
+    expect(kinds(PREVIOUS.replace('A business may provide', 'A business shall provide'))).toEqual([
+      ChangeClassification.OBLIGATION_ADDED,
+    ]);
+    // The exemption after the new clause moves down a letter
+    expect(
+      kinds(PREVIOUS.replace('(c) This section', '(c) A business must delete data on request.\n(d) This section'))
+    ).toEqual([ChangeClassification.OBLIGATION_ADDED, ChangeClassification.EDITORIAL]);
+    expect(
+      kinds(PREVIOUS.replace('(a) A business shall respond to a consumer request within 45 days.\n', ''))
+    ).toContain(ChangeClassification.OBLIGATION_REMOVED);
+  });
+
+  it('reads exemptions as scope changes', () => {
+    const withoutExemption = PREVIOUS.replace(
+      '\n(c) This section does not apply to data held for fraud prevention.',
+      ''
+    );
+    expect(kinds(withoutExemption)).toEqual([ChangeClassification.SCOPE_EXPANDED]);
+    expect(
+      kinds(PREVIOUS.replace('within 45 days.', 'within 45 days, unless the request is manifestly unfounded.'))
+    ).toEqual([ChangeClassification.SCOPE_NARROWED]);
+  });
+
+  it('does not mistake cross-reference or wording changes for substance', () => {
+    expect(isEditorialChange('as required by Section 3.', 'as required by section 4')).toBe(true);
+    expect(isEditorialChange('A business must respond.', 'A business shall respond.')).toBe(true);
+    expect(isEditorialChange('Data shall include logs.', 'Data shall exclude logs.')).toBe(false);
+    expect(isEditorialChange('within 45 days', 'within 46 days')).toBe(false);
+    expect(isEditorialChange('Notice to the employee.', 'Notice to the employer.')).toBe(false);
+    expect(isEditorialChange('the insured party', 'the insurer party')).toBe(false);
+    expect(isEditorialChange('the data of filing', 'the date of filing')).toBe(false);
+    expect(isEditorialChange('a seperate notice', 'a separate notice')).toBe(true);
+  });
+});
+
+describe('Significance with classified changes', () => {
+  it('keeps renumbering LOW even when many lines changed and keywords appear', () => {
+    const current = PREVIOUS.replace('§ 3. Penalties.', '§ 4. Penalties.');
+    const diff = generateTextDiff(PREVIOUS, current);
+    const metrics = { ...calculateChangeMetrics(diff), percentageChanged: 40 };
+
+    expect(calculateSignificance(metrics, summary)).toBe(SignificanceScore.HIGH);
+    expect(calculateSignificance(metrics, summary, classifyChanges(diff))).toBe(SignificanceScore.LOW);
+  });
+
+  it('raises small substantive changes by their impact', () => {
+    const metrics = { linesAdded: 1, linesRemoved: 1, percentageChanged: 2, totalLines: 100 };
+    const quiet = { ...summary, summary: 'Minor update' };
+
+    const deadline = classify(PREVIOUS.replace('within 45 days', 'within 30 days'));
+    expect(calculateSignificance(metrics, quiet)).toBe(SignificanceScore.LOW);
+    expect(calculateSignificance(metrics, quiet, deadline)).toBe(SignificanceScore.HIGH);
+
+    const exemption = classify(
+      PREVIOUS.replace('within 45 days.', 'within 45 days, unless the request is manifestly unfounded.')
+    );
+    expect(calculateSignificance(metrics, quiet, exemption)).toBe(SignificanceScore.MEDIUM);
+  });
+});
@@ -0,0 +1,213 @@
+/**
+ * Unit tests for deadline extraction
+ * Prisma and the AI extractor are mocked
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const prismaMock = vi.hoisted(() => ({
+  deadline: { deleteMany: vi.fn(), createMany: vi.fn() },
+  $transaction: vi.fn(),
+}));
+
+const extractDeadlineCandidatesMock = vi.hoisted(() => vi.fn());
+
+vi.mock('@/lib/prisma', () => ({ default: prismaMock, prisma: prismaMock }));
+vi.mock('@/lib/ai/summarizer', () => ({
+  extractDeadlineCandidates: extractDeadlineCandidatesMock,
+}));
+
+import {
+  extractDeadlinesDeterministic,
+  extractDeadlines,
+  calculateDeadlineRiskLevel,
+  classifyDeadlineType,
+  mergeAIDeadlines,
+  storeVersionDeadlines,
+} from '@/lib/regulations/deadlines';
+
+const referenceDate = new Date('2026-10-19T00:00:00Z');
+const day = (date: Date) => date.toISOString().slice(0, 10);
+
+describe('Deadline extraction', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('extractDeadlinesDeterministic', () => {
+    it('parses absolute dates introduced by deadline phrases', () => {
+      const [deadline] = extractDeadlinesDeterministic(
+        'Covered employers must comply with this section no later than January 1, 2027.',
+        { referenceDate }
+      );
+
+      expect(day(deadline.deadlineDate)).toBe('2027-01-01');
+      expect(deadline.deadlineType).toBe('COMPLIANCE');
+      expect(deadline.method).toBe('ABSOLUTE');
+      expect(deadline.extractionConfidence).toBe(0.85);
+      expect(deadline.riskLevel).toBe('CRITICAL');
+    });
+
+    it('resolves relative phrases against the effective date', () => {
+      const [deadline] = extractDeadlinesDeterministic(
+        'Each employer shall file a registration statement within ninety (90) days of the effective date.',
+        { referenceDate, effectiveDate: new Date('2027-03-01T00:00:00Z') }
+      );
+
+      expect(day(deadline.deadlineDate)).toBe('2027-05-30');
+      expect(deadline.deadlineType).toBe('FILING');
+      expect(deadline.method).toBe('RELATIVE');
+      expect(deadline.extractionConfidence).toBe(0.75);
+      expect(deadline.sourceText).toBe('ninety (90) days of the effective date');
+    });
+
+    it('falls back to the published date at lower confidence', () => {
+      const [deadline] = extractDeadlinesDeterministic(
+        'Employers must provide training within 6 months after the effective date.',
+        { referenceDate, publishedDate: new Date('2026-11-15T00:00:00Z') }
+      );
+
+      expect(day(deadline.deadlineDate)).toBe('2027-05-15');
+      expect(deadline.deadlineType).toBe('TRAINING');
+      expect(deadline.extractionConfidence).toBe(0.5);
+    });
+
+    it('ends month periods on the last day of a shorter month', () => {
+      const [oneMonth] = extractDeadlinesDeterministic(
+        'Employers must file a report within 1 month of the effective date.',
+        { referenceDate, effectiveDate: new Date('2027-01-31T00:00:00Z') }
+      );
+      const [sixMonths] = extractDeadlinesDeterministic(
+        'Employers must provide training within 6 months after the effective date.',
+        { referenceDate, effectiveDate: new Date('2027-08-31T00:00:00Z') }
+      );
+
+      expect(day(oneMonth.deadlineDate)).toBe('2027-02-28');
+      expect(day(sixMonths.deadlineDate)).toBe('2028-02-29');
+    });
+
+    it('skips relative phrases without an anchor date', () => {
+      expect(
+        extractDeadlinesDeterministic(
+          'Notices must be posted within 30 days of the effective date.',
+          { referenceDate }
+        )
+      ).toEqual([]);
+    });
+
+    it('does not read the tail of a longer number as the period', () => {
+      expect(
+        extractDeadlinesDeterministic(
+          'The report is due 1000 days after publication.',
+          { referenceDate, publishedDate: new Date('2026-11-15T00:00:00Z') }
+        )
+      ).toEqual([]);
+    });
+
+    it('counts business days and ignores historical dates', () => {
+      const deadlines = extractDeadlinesDeterministic(
+        [
+          'This Act was first enacted on March 3, 2015.',
+          'Section 4. This section takes effect on 2027-07-01.',
+          'Employers shall notify employees within 10 business days of publication.',
+        ].join('\n'),
+        { referenceDate, publishedDate: new Date('2026-10-16T00:00:00Z') } // Friday
+      );
+
+      expect(deadlines.map((d) => [day(d.deadlineDate), d.deadlineType])).toEqual([
+        ['2026-10-30', 'NOTICE'],
+        ['2027-07-01', 'EFFECTIVE_DATE'],
+      ]);
+    });
+
+    it('keeps one deadline per date and type', () => {
+      const deadlines = extractDeadlinesDeterministic(
+        'Employers must comply by January 1, 2027. Compliance is required on 1/1/2027.',
+        { referenceDate }
+      );
+
+      expect(deadlines).toHaveLength(1);
+      expect(deadlines[0].extractionConfidence).toBe(0.85);
+    });
+  });
+
+  describe('classifyDeadlineType', () => {
+    it('prefers specific obligation types over the effective date', () => {
+      expect(classifyDeadlineType('Annual reports are due March 31, 2027.')).toBe('REPORTING');
+      expect(classifyDeadlineType('This Act takes effect July 1, 2027.')).toBe('EFFECTIVE_DATE');
+      expect(classifyDeadlineType('Employers must implement controls.')).toBe('COMPLIANCE');
+    });
+  });
+
+  describe('calculateDeadlineRiskLevel', () => {
+    it('weights time remaining by obligation type', () => {
+      const inDays = (n: number) => new Date(referenceDate.getTime() + n * 86400000);
+
+      expect(calculateDeadlineRiskLevel(inDays(-5), 'NOTICE', referenceDate)).toBe('CRITICAL');
+      expect(calculateDeadlineRiskLevel(inDays(60), 'FILING', referenceDate)).toBe('CRITICAL');
+      expect(calculateDeadlineRiskLevel(inDays(60), 'TRAINING', referenceDate)).toBe('IMPORTANT');
+      expect(calculateDeadlineRiskLevel(inDays(150), 'COMPLIANCE', referenceDate)).toBe('IMPORTANT');
+      expect(calculateDeadlineRiskLevel(inDays(400), 'COMPLIANCE', referenceDate)).toBe('ROUTINE');
+    });
+  });
+
+  describe('AI refinement', () => {
+    const parsed = () =>
+      extractDeadlinesDeterministic('Employers must comply no later than January 1, 2027.', {
+        referenceDate,
+      });
+
+    it('boosts confirmed deadlines and adds valid new ones', () => {
+      const merged = mergeAIDeadlines(
+        parsed(),
+        [
+          { date: '2027-01-01', deadlineType: 'COMPLIANCE', description: 'Comply' },
+          { date: '2027-06-30', deadlineType: 'REPORTING', description: 'File first annual report' },
+          { date: 'soon', deadlineType: 'COMPLIANCE', description: 'Invalid date' },
+        ],
+        referenceDate
+      );
+
+      expect(merged).toHaveLength(2);
+      expect(merged[0].extractionConfidence).toBe(0.95);
+      expect(merged[1]).toMatchObject({
+        deadlineType: 'REPORTING',
+        method: 'AI',
+        extractionConfidence: 0.6,
+      });
+    });
+
+    it('only calls the AI extractor when enabled', async () => {
+      extractDeadlineCandidatesMock.mockResolvedValue([]);
+      const text = 'Employers must comply no later than January 1, 2027.';
+
+      await extractDeadlines(text, { referenceDate }, false);
+      expect(extractDeadlineCandidatesMock).not.toHaveBeenCalled();
+
+      await extractDeadlines(text, { referenceDate }, true);
+      expect(extractDeadlineCandidatesMock).toHaveBeenCalledWith(text);
+    });
+  });
+
+  describe('storeVersionDeadlines', () => {
+    it('replaces the version deadlines in one transaction', async () => {
+      prismaMock.$transaction.mockResolvedValue([]);
+
+      const count = await storeVersionDeadlines(
+        'ver-1',
+        'Employers must comply no later than January 1, 2027.'
+      );
+
+      expect(count).toBe(1);
+      expect(prismaMock.deadline.deleteMany).toHaveBeenCalledWith({
+        where: { regulationVersionId: 'ver-1' },
+      });
+      const { data } = prismaMock.deadline.createMany.mock.calls[0][0];
+      expect(data[0]).toMatchObject({
+        regulationVersionId: 'ver-1',
+        deadlineType: 'COMPLIANCE',
+        sourceText: 'January 1, 2027',
+      });
+    });
+  });
+});
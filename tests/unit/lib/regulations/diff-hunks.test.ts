@@ -0,0 +1,126 @@
+/**
+ * Unit tests for ordered diff hunks and the display diff format
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildDiffBlocks,
+  highlightChangedLines,
+  pairSplitRows,
+  parseDisplayDiff,
+} from '@/lib/regulations/diff-hunks';
+import { formatDiffForDisplay, generateTextDiff } from '@/lib/policydiff';
+
+const lines = (count: number, label: string) =>
+  Array.from({ length: count }, (_, i) => `${label} line ${i + 1}`);
+
+const PREVIOUS = [
+  ...lines(10, 'Opening'),
+  'The controller shall respond within 45 days.',
+  ...lines(10, 'Middle'),
+  'Records are kept for two years.',
+  ...lines(10, 'Closing'),
+].join('\n');
+
+const CURRENT = [
+  ...lines(10, 'Opening'),
+  'The controller shall respond within 30 days.',
+  ...lines(10, 'Middle'),
+  ...lines(10, 'Closing'),
+  'Processors must be bound by contract.',
+].join('\n');
+
+describe('Diff hunks', () => {
+  const diff = generateTextDiff(PREVIOUS, CURRENT);
+
+  it('numbers every line of both versions in document order', () => {
+    expect(diff.lines).toHaveLength(34);
+    expect(diff.lines![10]).toEqual({
+      type: 'removed',
+      text: 'The controller shall respond within 45 days.',
+      oldLineNumber: 11,
+      newLineNumber: null,
+    });
+    expect(diff.lines![11]).toMatchObject({ type: 'added', oldLineNumber: null, newLineNumber: 11 });
+    expect(diff.lines![33]).toMatchObject({ type: 'added', newLineNumber: 32 });
+  });
+
+  it('groups changes into hunks with context and collapses the rest', () => {
+    const blocks = buildDiffBlocks(diff.lines!, 2);
+
+    expect(blocks.map((block) => block.kind)).toEqual([
+      'collapsed',
+      'hunk',
+      'collapsed',
+      'hunk',
+      'collapsed',
+      'hunk',
+    ]);
+    expect(blocks[1]).toEqual({
+      kind: 'hunk',
+      hunk: expect.objectContaining({ oldStart: 9, oldLines: 5, newStart: 9, newLines: 5 }),
+    });
+    expect(blocks[2].kind === 'collapsed' && blocks[2].lines).toHaveLength(6);
+    expect(blocks[5]).toEqual({
+      kind: 'hunk',
+      hunk: expect.objectContaining({ oldStart: 31, oldLines: 2, newStart: 30, newLines: 3 }),
+    });
+  });
+
+  it('keeps the whole text in one hunk with unlimited context', () => {
+    const blocks = buildDiffBlocks(diff.lines!, Number.POSITIVE_INFINITY);
+
+    expect(blocks).toHaveLength(1);
+    expect(blocks[0].kind === 'hunk' && blocks[0].hunk.lines).toHaveLength(34);
+  });
+
+  it('formats hunks in order and parses them back', () => {
+    const display = formatDiffForDisplay(diff, 1);
+
+    expect(display.split('\n').slice(0, 5)).toEqual([
+      '@@ -10,3 +10,3 @@',
+      '  Opening line 10',
+      '- The controller shall respond within 45 days.',
+      '+ The controller shall respond within 30 days.',
+      '  Middle line 1',
+    ]);
+
+    const parsed = parseDisplayDiff(display);
+    const changed = diff.lines!.filter((line) => line.type !== 'unchanged');
+    expect(parsed.filter((line) => line.type !== 'unchanged')).toEqual(changed);
+    // Hunks read back from a display diff stay apart
+    expect(buildDiffBlocks(parsed, 1).filter((block) => block.kind === 'hunk')).toHaveLength(3);
+  });
+
+  it('reads diffs stored without hunk headers', () => {
+    expect(parseDisplayDiff('- old clause\n+ new clause\n  context')).toEqual([
+      { type: 'removed', text: 'old clause', oldLineNumber: 1, newLineNumber: null },
+      { type: 'added', text: 'new clause', oldLineNumber: null, newLineNumber: 1 },
+      { type: 'unchanged', text: 'context', oldLineNumber: 2, newLineNumber: 2 },
+    ]);
+  });
+
+  it('highlights the edited words of paired lines only', () => {
+    const highlighted = highlightChangedLines(diff.lines!);
+    const [removed, added] = highlighted.slice(10, 12);
+
+    expect(removed.inlineDiff).toEqual([
+      { type: 'unchanged', text: 'The controller shall respond within ' },
+      { type: 'removed', text: '45' },
+      { type: 'unchanged', text: ' days.' },
+    ]);
+    expect(added.inlineDiff?.map((segment) => segment.type)).toEqual(['unchanged', 'added', 'unchanged']);
+    // Unrelated additions and removals are not paired
+    expect(highlighted.filter((line) => line.inlineDiff)).toHaveLength(2);
+    expect(diff.lines![10].inlineDiff).toBeUndefined();
+  });
+
+  it('pairs removed and added lines in split rows', () => {
+    const rows = pairSplitRows(diff.lines!.slice(9, 13));
+
+    expect(rows).toHaveLength(3);
+    expect(rows[0].left).toBe(rows[0].right);
+    expect(rows[1]).toEqual({ left: diff.lines![10], right: diff.lines![11] });
+    expect(pairSplitRows([diff.lines![33]])).toEqual([{ left: null, right: diff.lines![33] }]);
+  });
+});
@@ -0,0 +1,223 @@
+/**
+ * Unit tests for regulation ingestion
+ * Prisma, the PolicyDiff pipeline, deadline and penalty extraction are mocked
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const prismaMock = vi.hoisted(() => ({
+  jurisdiction: { findUnique: vi.fn() },
+  regulation: { findUnique: vi.fn(), findUniqueOrThrow: vi.fn(), create: vi.fn(), update: vi.fn() },
+  regulationVersion: { findMany: vi.fn(), create: vi.fn() },
+  policyDiff: { findFirst: vi.fn() },
+}));
+
+const createPolicyDiffMock = vi.hoisted(() => vi.fn());
+const storeVersionDeadlinesMock = vi.hoisted(() => vi.fn());
+const storeRegulationPenaltiesMock = vi.hoisted(() => vi.fn());
+
+vi.mock('@/lib/prisma', () => ({ default: prismaMock, prisma: prismaMock }));
+vi.mock('@/lib/regulations/diff-pipeline', () => ({
+  createPolicyDiff: createPolicyDiffMock,
+}));
+vi.mock('@/lib/regulations/deadlines', () => ({
+  storeVersionDeadlines: storeVersionDeadlinesMock,
+}));
+vi.mock('@/lib/regulations/penalties', () => ({
+  storeRegulationPenalties: storeRegulationPenaltiesMock,
+}));
+
+import {
+  ingestRegulationVersion,
+  hashRegulationContent,
+  normalizeRegulationText,
+  JurisdictionNotFoundError,
+} from '@/lib/regulations/ingestion';
+
+const baseInput = {
+  jurisdictionCode: 'ca',
+  regulation: { title: 'Paid Sick Leave Act', regulationType: 'employment' },
+  contentText: 'Employers must provide 5 days of paid sick leave.',
+};
+
+describe('Regulation ingestion', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    prismaMock.jurisdiction.findUnique.mockResolvedValue({ id: 'jur-ca', code: 'CA' });
+    prismaMock.regulation.findUnique.mockResolvedValue({
+      id: 'reg-1',
+      title: 'Paid Sick Leave Act',
+      sourceUrl: null,
+      effectiveDate: null,
+    });
+    prismaMock.policyDiff.findFirst.mockResolvedValue(null);
+    createPolicyDiffMock.mockResolvedValue({ id: 'diff-1' });
+    storeVersionDeadlinesMock.mockResolvedValue(2);
+    storeRegulationPenaltiesMock.mockResolvedValue(true);
+  });
+
+  describe('normalizeRegulationText', () => {
+    it('should ignore line endings and trailing whitespace', () => {
+      expect(normalizeRegulationText('a  \r\nb\r\n\n')).toBe('a\nb');
+      expect(hashRegulationContent('a  \r\nb')).toBe(hashRegulationContent('a\nb'));
+    });
+  });
+
+  it('should throw when the jurisdiction is unknown', async () => {
+    prismaMock.jurisdiction.findUnique.mockResolvedValue(null);
+
+    await expect(ingestRegulationVersion(baseInput)).rejects.toBeInstanceOf(
+      JurisdictionNotFoundError
+    );
+  });
+
+  it('should create the next version and attach a PolicyDiff', async () => {
+    prismaMock.regulationVersion.findMany.mockResolvedValue([
+      { id: 'ver-1', versionNumber: 1, contentText: 'Employers must provide 3 days.', contentHash: null },
+    ]);
+    prismaMock.regulationVersion.create.mockImplementation(({ data }) =>
+      Promise.resolve({ id: 'ver-2', ...data })
+    );
+
+    const result = await ingestRegulationVersion(baseInput);
+
+    expect(prismaMock.jurisdiction.findUnique).toHaveBeenCalledWith({
+      where: { code: 'CA' },
+    });
+    expect(prismaMock.regulationVersion.create.mock.calls[0][0].data.versionNumber).toBe(2);
+    expect(createPolicyDiffMock).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'ver-1' }),
+      expect.objectContaining({ id: 'ver-2' }),
+      'Paid Sick Leave Act'
+    );
+    expect(result).toMatchObject({
+      status: 'CREATED',
+      regulationVersionId: 'ver-2',
+      versionNumber: 2,
+      policyDiffId: 'diff-1',
+      deadlinesExtracted: 2,
+      penaltyScheduleExtracted: true,
+    });
+    expect(storeVersionDeadlinesMock).toHaveBeenCalledWith(
+      'ver-2',
+      baseInput.contentText,
+      expect.objectContaining({ effectiveDate: null })
+    );
+    expect(storeRegulationPenaltiesMock).toHaveBeenCalledWith(
+      'reg-1',
+      'ver-2',
+      baseInput.contentText
+    );
+  });
+
+  it('should keep the version when deadline extraction fails', async () => {
+    prismaMock.regulationVersion.findMany.mockResolvedValue([]);
+    prismaMock.regulationVersion.create.mockImplementation(({ data }) =>
+      Promise.resolve({ id: 'ver-1', ...data })
+    );
+    storeVersionDeadlinesMock.mockRejectedValue(new Error('parser exploded'));
+
+    const result = await ingestRegulationVersion(baseInput);
+
+    expect(result.status).toBe('CREATED');
+    expect(result.deadlinesExtracted).toBe(0);
+    expect(result.penaltyScheduleExtracted).toBe(true);
+  });
+
+  it('should skip identical content and not create a version', async () => {
+    prismaMock.regulationVersion.findMany.mockResolvedValue([
+      { id: 'ver-1', versionNumber: 1, contentText: baseInput.contentText, contentHash: null },
+    ]);
+
+    const result = await ingestRegulationVersion(baseInput);
+
+    expect(prismaMock.regulationVersion.create).not.toHaveBeenCalled();
+    expect(createPolicyDiffMock).not.toHaveBeenCalled();
+    expect(storeVersionDeadlinesMock).not.toHaveBeenCalled();
+    expect(result.status).toBe('DUPLICATE');
+    expect(result.policyDiffId).toBeNull();
+  });
+
+  it('should store a revert to an older text as a new version', async () => {
+    prismaMock.regulationVersion.findMany.mockResolvedValue([
+      { id: 'ver-2', versionNumber: 2, contentText: 'Employers must provide 3 days.', contentHash: null },
+      { id: 'ver-1', versionNumber: 1, contentText: baseInput.contentText, contentHash: null },
+    ]);
+    prismaMock.regulationVersion.create.mockImplementation(({ data }) =>
+      Promise.resolve({ id: 'ver-3', ...data })
+    );
+
+    const result = await ingestRegulationVersion(baseInput);
+
+    expect(result).toMatchObject({ status: 'CREATED', versionNumber: 3 });
+    expect(createPolicyDiffMock).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'ver-2' }),
+      expect.objectContaining({ id: 'ver-3' }),
+      'Paid Sick Leave Act'
+    );
+  });
+
+  it('should retry with the next number when a concurrent ingest took it', async () => {
+    prismaMock.regulationVersion.findMany
+      .mockResolvedValueOnce([
+        { id: 'ver-1', versionNumber: 1, contentText: 'Employers must provide 3 days.', contentHash: null },
+      ])
+      .mockResolvedValueOnce([
+        { id: 'ver-2', versionNumber: 2, contentText: 'Employers must provide 4 days.', contentHash: null },
+        { id: 'ver-1', versionNumber: 1, contentText: 'Employers must provide 3 days.', contentHash: null },
+      ]);
+    prismaMock.regulationVersion.create
+      .mockRejectedValueOnce(Object.assign(new Error('Unique constraint failed'), { code: 'P2002' }))
+      .mockImplementation(({ data }) => Promise.resolve({ id: 'ver-3', ...data }));
+
+    const result = await ingestRegulationVersion(baseInput);
+
+    expect(prismaMock.regulationVersion.create).toHaveBeenCalledTimes(2);
+    expect(prismaMock.regulationVersion.create.mock.calls[1][0].data.versionNumber).toBe(3);
+    expect(result).toMatchObject({ status: 'CREATED', versionNumber: 3 });
+  });
+
+  it('should add to the regulation a concurrent ingest created first', async () => {
+    prismaMock.regulation.findUnique.mockResolvedValue(null);
+    prismaMock.regulation.create.mockRejectedValue(
+      Object.assign(new Error('Unique constraint failed'), { code: 'P2002' })
+    );
+    prismaMock.regulation.findUniqueOrThrow.mockResolvedValue({
+      id: 'reg-other',
+      title: 'Paid Sick Leave Act',
+    });
+    prismaMock.regulationVersion.findMany.mockResolvedValue([]);
+    prismaMock.regulationVersion.create.mockImplementation(({ data }) =>
+      Promise.resolve({ id: 'ver-new', ...data })
+    );
+
+    const result = await ingestRegulationVersion(baseInput);
+
+    expect(prismaMock.regulationVersion.create.mock.calls[0][0].data.regulationId).toBe('reg-other');
+    expect(result).toMatchObject({
+      status: 'CREATED',
+      regulationId: 'reg-other',
+      regulationCreated: false,
+      versionNumber: 1,
+    });
+  });
+
+  it('should create the regulation and first version without a diff', async () => {
+    prismaMock.regulation.findUnique.mockResolvedValue(null);
+    prismaMock.regulation.create.mockResolvedValue({ id: 'reg-new', title: 'Paid Sick Leave Act' });
+    prismaMock.regulationVersion.findMany.mockResolvedValue([]);
+    prismaMock.regulationVersion.create.mockImplementation(({ data }) =>
+      Promise.resolve({ id: 'ver-new', ...data })
+    );
+
+    const result = await ingestRegulationVersion(baseInput);
+
+    expect(result).toMatchObject({
+      status: 'CREATED',
+      regulationCreated: true,
+      versionNumber: 1,
+      policyDiffId: null,
+    });
+    expect(createPolicyDiffMock).not.toHaveBeenCalled();
+  });
+});
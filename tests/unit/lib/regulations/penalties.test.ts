@@ -0,0 +1,187 @@
+/**
+ * Unit tests for penalty schedule extraction and exposure
+ * Prisma is mocked
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const prismaMock = vi.hoisted(() => ({
+  penaltySchedule: {
+    findUnique: vi.fn(),
+    upsert: vi.fn(),
+    delete: vi.fn(),
+  },
+}));
+
+vi.mock('@/lib/prisma', () => ({ default: prismaMock, prisma: prismaMock }));
+
+import {
+  extractPenaltySchedule,
+  storeRegulationPenalties,
+} from '@/lib/regulations/penalties';
+import {
+  BASE_ENFORCEMENT_PROBABILITY,
+  DEFAULT_PENALTY_EXPOSURE,
+  PRIVATE_ACTION_PROBABILITY,
+  calculatePenaltyExposure,
+} from '@/lib/regulations/penalty-exposure';
+import type { PenaltyTerms } from '@/types/penalties';
+
+const terms = (overrides: Partial<PenaltyTerms>): PenaltyTerms => ({
+  perViolationMin: null,
+  perViolationMax: null,
+  perDayFine: null,
+  maxPenalty: null,
+  privateRightOfAction: false,
+  enforcementLikelihood: null,
+  ...overrides,
+});
+
+describe('Penalty schedules', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('extractPenaltySchedule', () => {
+    it('reads per-violation ranges and private rights of action', () => {
+      const schedule = extractPenaltySchedule(
+        'Any business that violates this title shall be liable for a civil penalty of not more than $2,500 for each violation or $7,500 for each intentional violation. ' +
+          'Any consumer whose personal information is breached may institute a civil action to recover damages of not less than $100 and not more than $750 per consumer per incident.'
+      );
+
+      expect(schedule).toMatchObject({
+        perViolationMin: 100,
+        perViolationMax: 7500,
+        perDayFine: null,
+        maxPenalty: null,
+        privateRightOfAction: true,
+        extractionConfidence: 0.9,
+      });
+    });
+
+    it('reads per-day fines and aggregate caps', () => {
+      const schedule = extractPenaltySchedule(
+        'An employer who fails to file the report is subject to a penalty of $500 for each day the failure continues. ' +
+          'Penalties under this section shall not exceed $1.5 million in the aggregate.'
+      );
+
+      expect(schedule).toMatchObject({
+        perViolationMin: null,
+        perViolationMax: null,
+        perDayFine: 500,
+        maxPenalty: 1_500_000,
+        privateRightOfAction: false,
+      });
+    });
+
+    it('ignores amounts outside penalty clauses and explicit denials of private action', () => {
+      expect(
+        extractPenaltySchedule(
+          'Employers with revenue above $25,000,000 must post notices. Nothing in this act creates a private right of action.'
+        )
+      ).toBeNull();
+    });
+
+    it('reads unitless penalty amounts as per-violation fines at lower confidence', () => {
+      const schedule = extractPenaltySchedule('Violators may be fined up to $10,000.');
+
+      expect(schedule).toMatchObject({ perViolationMax: 10000, extractionConfidence: 0.7 });
+    });
+
+    it('skips revenue thresholds in penalty sentences', () => {
+      const schedule = extractPenaltySchedule(
+        'A business with annual gross revenues in excess of $25 million that violates this title ' +
+          'shall be liable for a civil penalty of not more than $7,500 for each intentional violation.'
+      );
+
+      expect(schedule).toMatchObject({
+        perViolationMin: 7500,
+        perViolationMax: 7500,
+        maxPenalty: null,
+        extractionConfidence: 0.9,
+      });
+    });
+
+    it('does not let unitless amounts outweigh amounts with a per-violation unit', () => {
+      const schedule = extractPenaltySchedule(
+        'The attorney general may recover a penalty of $2,500 per violation and damages of $1 million.'
+      );
+
+      expect(schedule).toMatchObject({ perViolationMax: 2500, extractionConfidence: 0.9 });
+    });
+  });
+
+  describe('calculatePenaltyExposure', () => {
+    it('falls back to the default allowance per 90 days', () => {
+      expect(calculatePenaltyExposure(null).riskWeightedExposure).toBe(DEFAULT_PENALTY_EXPOSURE);
+      expect(
+        calculatePenaltyExposure(terms({ privateRightOfAction: true }), { nonComplianceDays: 180 })
+      ).toMatchObject({ riskWeightedExposure: DEFAULT_PENALTY_EXPOSURE * 2, hasSchedule: false });
+    });
+
+    it('adds per-violation and per-day fines and weights them by enforcement likelihood', () => {
+      const exposure = calculatePenaltyExposure(
+        terms({ perViolationMin: 2500, perViolationMax: 7500, perDayFine: 100 }),
+        { violations: 2 }
+      );
+
+      expect(exposure.grossExposure).toBe(5000 * 2 + 100 * 90);
+      expect(exposure.enforcementProbability).toBe(BASE_ENFORCEMENT_PROBABILITY);
+      expect(exposure.riskWeightedExposure).toBe(Math.round(19000 * BASE_ENFORCEMENT_PROBABILITY));
+      expect(exposure.hasSchedule).toBe(true);
+    });
+
+    it('applies the cap and the higher likelihood of private suits', () => {
+      const exposure = calculatePenaltyExposure(
+        terms({ perDayFine: 10000, maxPenalty: 250000, privateRightOfAction: true })
+      );
+
+      expect(exposure).toMatchObject({ grossExposure: 250000, capped: true });
+      expect(exposure.riskWeightedExposure).toBe(
+        Math.round(250000 * (BASE_ENFORCEMENT_PROBABILITY + PRIVATE_ACTION_PROBABILITY))
+      );
+    });
+
+    it('prefers a manual enforcement likelihood', () => {
+      const exposure = calculatePenaltyExposure(
+        terms({ perViolationMax: 40000, enforcementLikelihood: 0.5, privateRightOfAction: true })
+      );
+
+      expect(exposure.riskWeightedExposure).toBe(20000);
+    });
+  });
+
+  describe('storeRegulationPenalties', () => {
+    const text = 'A violation is subject to a civil penalty of $1,000 per day.';
+
+    it('upserts the extracted schedule for the regulation', async () => {
+      prismaMock.penaltySchedule.findUnique.mockResolvedValue(null);
+
+      await expect(storeRegulationPenalties('reg-1', 'ver-2', text)).resolves.toBe(true);
+      expect(prismaMock.penaltySchedule.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { regulationId: 'reg-1' },
+          update: expect.objectContaining({
+            perDayFine: 1000,
+            source: 'EXTRACTED',
+            regulationVersionId: 'ver-2',
+          }),
+        })
+      );
+    });
+
+    it('keeps a manual schedule', async () => {
+      prismaMock.penaltySchedule.findUnique.mockResolvedValue({ source: 'MANUAL' });
+
+      await expect(storeRegulationPenalties('reg-1', 'ver-2', text)).resolves.toBe(false);
+      expect(prismaMock.penaltySchedule.upsert).not.toHaveBeenCalled();
+    });
+
+    it('removes an extracted schedule when the new text has no penalties', async () => {
+      prismaMock.penaltySchedule.findUnique.mockResolvedValue({ source: 'EXTRACTED' });
+
+      await expect(storeRegulationPenalties('reg-1', 'ver-3', 'Employers must post notices.')).resolves.toBe(false);
+      expect(prismaMock.penaltySchedule.delete).toHaveBeenCalledWith({ where: { regulationId: 'reg-1' } });
+    });
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * Unit tests for the regulation section tree and structure-aware diff
+ */
+
+import { describe, it, expect } from 'vitest';
+import { flattenSections, parseSectionTree } from '@/lib/regulations/section-tree';
+import { diffInlineWords, diffRegulationSections } from '@/lib/regulations/section-diff';
+import { generateTextDiff } from '@/lib/policydiff';
+
+const PREVIOUS = `Consumer Data Protection Act
+
+§ 1. Definitions.
+(a) "Consumer" means a natural person who is a resident of the state.
+(b) "Controller" means a person that determines the purposes of processing.
+
+§ 2. Consumer rights.
+(a) A consumer may request that a controller delete personal data.
+(1) The controller shall respond within 45 days of receiving the request.
+(2) The controller may extend the period once by 45 days when reasonably necessary.
+(b) A consumer may request a copy of personal data in a portable format.
+
+§ 3. Penalties.
+A controller that violates this Act is liable for a civil penalty of up to $7,500 per violation.`;
+
+const CURRENT = `Consumer Data Protection Act
+
+§ 1. Definitions.
+(a) "Consumer" means a natural person who is a resident of the state.
+(b) "Controller" means a person that determines the purposes of processing.
+(c) "Sale" means the exchange of personal data for monetary consideration.
+
+§ 2. Consumer rights.
+(a) A consumer may request a copy of personal data in a portable format.
+(b) A consumer may request that a controller delete personal data.
+(1) The controller shall respond within 30 days of receiving the request.
+(2) The controller may extend the period once by 45 days when reasonably necessary.
+
+§ 4. Penalties.
+A controller that violates this Act is liable for a civil penalty of up to $7,500 per violation.`;
+
+describe('Regulation section tree', () => {
+  it('nests sections, subsections and clauses', () => {
+    const roots = parseSectionTree(PREVIOUS);
+
+    expect(roots.map((root) => root.label)).toEqual(['Preamble', '§ 1', '§ 2', '§ 3']);
+    expect(roots[0].text).toBe('Consumer Data Protection Act');
+    expect(roots[2]).toMatchObject({ heading: 'Consumer rights', text: '' });
+    expect(flattenSections([roots[2]]).map((node) => node.label)).toEqual([
+      '§ 2',
+      '§ 2(a)',
+      '§ 2(a)(1)',
+      '§ 2(a)(2)',
+      '§ 2(b)',
+    ]);
+    expect(roots[3].text).toContain('$7,500');
+  });
+
+  it('tells roman numerals from letters and reads several markers on one line', () => {
+    const roots = parseSectionTree(
+      [
+        'Section 5. Notices',
+        '(a)(1) Notices shall be in writing.',
+        '(i) delivered by hand; or',
+        '(ii) sent by mail.',
+        '(h) Eighth clause.',
+        '(i) Ninth clause.',
+      ].join('\n')
+    );
+
+    expect(flattenSections(roots).map((node) => `${node.label}:${node.kind}`)).toEqual([
+      '§ 5:SECTION',
+      '§ 5(a):LOWER',
+      '§ 5(a)(1):DIGIT',
+      '§ 5(a)(1)(i):ROMAN',
+      '§ 5(a)(1)(ii):ROMAN',
+      '§ 5(h):LOWER',
+      '§ 5(i):LOWER',
+    ]);
+    expect(roots[0].heading).toBe('Notices');
+  });
+
+  it('takes an all-caps line before a section as its heading', () => {
+    const [section] = parseSectionTree('GENERAL PROVISIONS\n§ 1\nThis Act applies to controllers.');
+
+    expect(section).toMatchObject({ label: '§ 1', heading: 'GENERAL PROVISIONS' });
+    expect(section.text).toBe('This Act applies to controllers.');
+  });
+});
+
+describe('Structure-aware regulation diff', () => {
+  const changes = diffRegulationSections(PREVIOUS, CURRENT);
+  const byLabel = (label: string) => changes.find((change) => change.label === label);
+
+  it('reports added clauses', () => {
+    expect(byLabel('§ 1(c)')).toMatchObject({ type: 'ADDED', previousLabel: null });
+  });
+
+  it('aligns moved clauses and reports word-level changes inside them', () => {
+    // Swapped siblings: one keeps its place under a new letter, the other moved past it
+    expect(byLabel('§ 2(a)')).toMatchObject({ type: 'RENUMBERED', previousLabel: '§ 2(b)', textChanged: false });
+    expect(byLabel('§ 2(b)')).toMatchObject({ type: 'MOVED', previousLabel: '§ 2(a)', textChanged: false });
+
+    expect(byLabel('§ 2(b)(1)')).toMatchObject({
+      type: 'MODIFIED',
+      previousLabel: '§ 2(a)(1)',
+      textChanged: true,
+    });
+    expect(byLabel('§ 2(b)(1)')!.inlineDiff.filter((segment) => segment.type !== 'unchanged')).toEqual([
+      { type: 'removed', text: '45' },
+      { type: 'added', text: '30' },
+    ]);
+    // Children that moved with their parent are unchanged
+    expect(byLabel('§ 2(b)(2)')).toBeUndefined();
+  });
+
+  it('recognises renumbered sections', () => {
+    expect(byLabel('§ 4')).toMatchObject({
+      type: 'RENUMBERED',
+      previousLabel: '§ 3',
+      textChanged: false,
+    });
+    expect(changes.some((change) => change.type === 'REMOVED')).toBe(false);
+  });
+
+  it('recognises every section when a new first section renumbers a long regulation', () => {
+    const topics = ['licence', 'audit', 'retention', 'notice', 'training', 'breach', 'vendor', 'record'];
+    const bodies = Array.from(
+      { length: 400 },
+      (_, i) =>
+        `A controller shall keep the ${topics[i % topics.length]} file ${i} for ${i + 2} years and report it to the office.`
+    );
+    const previous = bodies.map((body, i) => `§ ${i + 1}. Duties.\n${body}`).join('\n\n');
+    const current = [
+      '§ 1. Scope.\nThis Act applies to every controller in the state.',
+      ...bodies.map((body, i) => `§ ${i + 2}. Duties.\n${body}`),
+    ].join('\n\n');
+
+    const renumbered = diffRegulationSections(previous, current);
+
+    expect(renumbered.filter((change) => change.type === 'RENUMBERED')).toHaveLength(400);
+    expect(renumbered.filter((change) => change.type === 'ADDED')).toEqual([
+      expect.objectContaining({ label: '§ 1' }),
+    ]);
+    expect(renumbered.some((change) => change.type === 'REMOVED')).toBe(false);
+  });
+
+  it('reports a removed section once with the text under it', () => {
+    const removed = diffRegulationSections(PREVIOUS, PREVIOUS.split('\n\n§ 3')[0]);
+
+    expect(removed).toHaveLength(1);
+    expect(removed[0]).toMatchObject({ type: 'REMOVED', label: '§ 3', newText: null });
+    expect(removed[0].oldText).toContain('civil penalty');
+  });
+
+  it('merges inline diff runs', () => {
+    expect(diffInlineWords('within 45 days', 'within 30 days')).toEqual([
+      { type: 'unchanged', text: 'within ' },
+      { type: 'removed', text: '45' },
+      { type: 'added', text: '30' },
+      { type: 'unchanged', text: ' days' },
+    ]);
+  });
+});
+
+describe('generateTextDiff', () => {
+  it('fills modified from section changes and keeps blank context lines', () => {
+    const result = generateTextDiff(PREVIOUS, CURRENT);
+
+    expect(result.modified).toEqual([
+      '§ 2(b)(1) The controller shall respond within 30 days of receiving the request.',
+    ]);
+    expect(result.sections).toEqual(diffRegulationSections(PREVIOUS, CURRENT));
+    expect(result.unchanged).toContain('');
+    expect(result.added.every((line) => line.trim().length > 0)).toBe(true);
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Unit tests for regulation subscriptions
+ * Prisma is mocked
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const prismaMock = vi.hoisted(() => ({
+  subscriptionRule: { findMany: vi.fn() },
+  customerRegulationSubscription: { upsert: vi.fn() },
+}));
+
+vi.mock('@/lib/prisma', () => ({ default: prismaMock, prisma: prismaMock }));
+
+import {
+  buildSubscribedRegulationFilter,
+  getSubscribedRegulationFilter,
+  matchesSubscriptionRule,
+  resolveWatchReasons,
+  subscribeToRegulation,
+} from '@/lib/regulations/subscriptions';
+
+const regulations = [
+  { id: 'reg-1', jurisdictionId: 'jur-ca', regulationType: 'Privacy' },
+  { id: 'reg-2', jurisdictionId: 'jur-ny', regulationType: 'Employment' },
+  { id: 'reg-3', jurisdictionId: 'jur-ny', regulationType: 'Privacy' },
+];
+
+describe('Regulation subscriptions', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('buildSubscribedRegulationFilter', () => {
+    it('combines direct subscriptions with rule criteria', () => {
+      const filter = buildSubscribedRegulationFilter('cust-1', [
+        { jurisdictionId: 'jur-ca', regulationType: null },
+        { jurisdictionId: 'jur-ny', regulationType: 'Privacy' },
+        { jurisdictionId: null, regulationType: null },
+      ]);
+
+      expect(filter).toEqual({
+        OR: [
+          { subscriptions: { some: { customerId: 'cust-1' } } },
+          { jurisdictionId: 'jur-ca' },
+          {
+            jurisdictionId: 'jur-ny',
+            regulationType: { equals: 'Privacy', mode: 'insensitive' },
+          },
+        ],
+      });
+    });
+
+    it('loads the customer rules from the database', async () => {
+      prismaMock.subscriptionRule.findMany.mockResolvedValue([
+        { jurisdictionId: null, regulationType: 'Employment' },
+      ]);
+
+      const filter = await getSubscribedRegulationFilter('cust-1');
+
+      expect(prismaMock.subscriptionRule.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { customerId: 'cust-1' } })
+      );
+      expect(filter.OR).toHaveLength(2);
+    });
+  });
+
+  describe('matchesSubscriptionRule', () => {
+    it('requires every criterion on the rule to match', () => {
+      const rule = { jurisdictionId: 'jur-ny', regulationType: 'privacy' };
+
+      expect(matchesSubscriptionRule(rule, regulations[2])).toBe(true);
+      expect(matchesSubscriptionRule(rule, regulations[1])).toBe(false);
+      expect(matchesSubscriptionRule(rule, regulations[0])).toBe(false);
+    });
+
+    it('never matches an empty rule', () => {
+      expect(
+        matchesSubscriptionRule({ jurisdictionId: null, regulationType: null }, regulations[0])
+      ).toBe(false);
+    });
+  });
+
+  describe('resolveWatchReasons', () => {
+    it('prefers direct subscriptions over rule matches', () => {
+      const reasons = resolveWatchReasons(regulations, new Set(['reg-1']), [
+        { jurisdictionId: null, regulationType: 'Privacy' },
+      ]);
+
+      expect(reasons.get('reg-1')).toBe('DIRECT');
+      expect(reasons.get('reg-3')).toBe('RULE');
+      expect(reasons.has('reg-2')).toBe(false);
+    });
+  });
+
+  describe('subscribeToRegulation', () => {
+    it('upserts so repeated subscribes are idempotent', async () => {
+      prismaMock.customerRegulationSubscription.upsert.mockResolvedValue({ id: 'sub-1' });
+
+      await subscribeToRegulation('cust-1', 'reg-1', 'COST_ESTIMATE');
+
+      expect(prismaMock.customerRegulationSubscription.upsert).toHaveBeenCalledWith({
+        where: { customerId_regulationId: { customerId: 'cust-1', regulationId: 'reg-1' } },
+        create: { customerId: 'cust-1', regulationId: 'reg-1', source: 'COST_ESTIMATE' },
+        update: {},
+      });
+    });
+  });
+});
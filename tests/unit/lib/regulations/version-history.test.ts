@@ -0,0 +1,90 @@
+/**
+ * Unit tests for version pair resolution and the version timeline
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildVersionTimeline,
+  resolveVersionPair,
+  versionsBetween,
+} from '@/lib/regulations/version-history';
+import { SignificanceScore } from '@/types/policydiff';
+
+const versions = [3, 1, 4, 2].map((versionNumber) => ({
+  id: `ver-${versionNumber}`,
+  versionNumber,
+  publishedDate: new Date(`2026-0${versionNumber}-01`),
+}));
+
+const diff = (current: number, previous: number, significanceScore: string) => ({
+  id: `diff-${previous}-${current}`,
+  regulationVersionId: `ver-${current}`,
+  previousVersionId: `ver-${previous}`,
+  significanceScore,
+  summary: `Changes in v${current}`,
+  keyChanges: ['Change'],
+});
+
+describe('Version pair resolution', () => {
+  it('defaults to the latest version against its predecessor', () => {
+    expect(resolveVersionPair(versions, {})).toEqual({
+      previous: versions[0],
+      current: versions[2],
+      sequential: true,
+    });
+  });
+
+  it('compares any older version with a later one', () => {
+    const pair = resolveVersionPair(versions, { previousVersionId: 'ver-1', currentVersionId: 'ver-3' });
+
+    expect(pair).toMatchObject({ sequential: false });
+    expect('previous' in pair && [pair.previous.id, pair.current.id]).toEqual(['ver-1', 'ver-3']);
+  });
+
+  it('resolves "since version N" against the latest version', () => {
+    const pair = resolveVersionPair(versions, { sinceVersionNumber: 2 });
+
+    expect('previous' in pair && [pair.previous.id, pair.current.id]).toEqual(['ver-2', 'ver-4']);
+    expect(resolveVersionPair(versions, { sinceVersionNumber: 3 })).toMatchObject({ sequential: true });
+  });
+
+  it('rejects reversed, missing and first-version pairs', () => {
+    expect(resolveVersionPair(versions, { previousVersionId: 'ver-4', currentVersionId: 'ver-2' })).toEqual({
+      error: 'Previous version must be older than current version',
+      status: 400,
+    });
+    expect(resolveVersionPair(versions, { sinceVersionNumber: 9 })).toEqual({
+      error: 'Version 9 not found',
+      status: 404,
+    });
+    expect(resolveVersionPair(versions, { currentVersionId: 'other-regulation' })).toMatchObject({ status: 404 });
+    expect(resolveVersionPair(versions, { currentVersionId: 'ver-1' })).toEqual({
+      error: 'No earlier version to compare against',
+      status: 400,
+    });
+  });
+});
+
+describe('Version timeline', () => {
+  const diffs = [diff(2, 1, 'LOW'), diff(4, 3, 'HIGH'), diff(4, 1, 'HIGH')];
+  const timeline = buildVersionTimeline(versions, diffs);
+
+  it('lists versions newest first with the diff against their predecessor', () => {
+    expect(timeline.map((entry) => [entry.versionNumber, entry.policyDiffId])).toEqual([
+      [4, 'diff-3-4'],
+      [3, null],
+      [2, 'diff-1-2'],
+      [1, null],
+    ]);
+    expect(timeline[0]).toMatchObject({
+      significanceScore: SignificanceScore.HIGH,
+      summary: 'Changes in v4',
+      keyChanges: ['Change'],
+    });
+  });
+
+  it('picks the versions a cumulative diff spans', () => {
+    expect(versionsBetween(timeline, 1, 4).map((entry) => entry.versionNumber)).toEqual([4, 3, 2]);
+    expect(versionsBetween(timeline, 3, 4).map((entry) => entry.versionNumber)).toEqual([4]);
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * Unit tests for fiscal calendar periods and labels
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  fiscalPeriodOf,
+  fiscalPeriodStart,
+  fiscalYearOf,
+  fiscalYearStart,
+  formatFiscalPeriod,
+  formatFiscalQuarter,
+  shiftFiscalPeriod,
+  toFiscalCalendar,
+} from '@/lib/utils/fiscal-calendar';
+import type { FiscalCalendar } from '@/types/cost-estimate';
+
+const iso = (date: Date) => date.toISOString().slice(0, 10);
+const utc = (date: string) => new Date(`${date}T00:00:00Z`);
+
+const february: FiscalCalendar = { startMonth: 2, pattern: 'CALENDAR_MONTHS' };
+const february445: FiscalCalendar = { startMonth: 2, pattern: 'WEEKS_445' };
+
+describe('Fiscal calendar', () => {
+  it('follows the calendar year by default', () => {
+    expect(fiscalPeriodOf(utc('2026-10-19'))).toMatchObject({ fiscalYear: 2026, quarter: 4, period: 10 });
+    expect(iso(fiscalYearStart(2026))).toBe('2026-01-01');
+  });
+
+  it('names fiscal years by the calendar year they end in', () => {
+    expect(fiscalYearOf(utc('2026-01-31'), february)).toBe(2026);
+    expect(fiscalYearOf(utc('2026-02-01'), february)).toBe(2027);
+    expect(fiscalPeriodOf(utc('2026-10-19'), february)).toMatchObject({
+      fiscalYear: 2027,
+      quarter: 3,
+      period: 9,
+    });
+    expect(iso(fiscalPeriodStart(2027, 12, february))).toBe('2027-01-01');
+  });
+
+  it('starts 4-4-5 years on the Monday nearest the 1st of the start month', () => {
+    // 1 Feb 2026 is a Sunday, 1 Feb 2027 a Monday
+    expect(iso(fiscalYearStart(2027, february445))).toBe('2026-02-02');
+    expect(iso(fiscalYearStart(2028, february445))).toBe('2027-02-01');
+    expect(fiscalPeriodOf(utc('2026-02-01'), february445)).toMatchObject({ fiscalYear: 2026, period: 12 });
+
+    // Periods of 4, 4 and 5 weeks
+    expect(fiscalPeriodOf(utc('2026-03-29'), february445).period).toBe(2);
+    expect(fiscalPeriodOf(utc('2026-03-30'), february445)).toMatchObject({ period: 3, quarter: 1 });
+    expect(iso(fiscalPeriodStart(2027, 4, february445))).toBe('2026-05-04');
+  });
+
+  it('adds the 53rd week of a 4-4-5 year to the last period', () => {
+    const calendar: FiscalCalendar = { startMonth: 1, pattern: 'WEEKS_445' };
+    expect(iso(fiscalYearStart(2026, calendar))).toBe('2025-12-29');
+    expect(iso(fiscalYearStart(2027, calendar))).toBe('2027-01-04');
+    expect(fiscalPeriodOf(utc('2027-01-02'), calendar)).toMatchObject({ fiscalYear: 2026, period: 12 });
+  });
+
+  it('shifts and labels periods', () => {
+    expect(shiftFiscalPeriod(2027, 1, -1)).toEqual({ fiscalYear: 2026, period: 12 });
+    expect(shiftFiscalPeriod(2026, 12, 2)).toEqual({ fiscalYear: 2027, period: 2 });
+    expect(formatFiscalPeriod(2027, 3)).toBe('FY2027 P03');
+    expect(formatFiscalQuarter(2027, 1)).toBe('FY2027 Q1');
+  });
+
+  it('falls back to the defaults for invalid stored settings', () => {
+    expect(toFiscalCalendar(13, 'WEEKLY')).toEqual({ startMonth: 1, pattern: 'CALENDAR_MONTHS' });
+    expect(toFiscalCalendar(2, 'WEEKS_445')).toEqual(february445);
+  });
+});